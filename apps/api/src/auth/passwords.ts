@@ -0,0 +1,72 @@
+/**
+ * Password Hashing
+ *
+ * scrypt password hashes with per-password salts. Hashes are stored as
+ * `scrypt$N$r$p$salt$hash` (base64 salt and hash), so cost parameters
+ * can be raised later without invalidating existing passwords.
+ *
+ * @module apps/api/auth/passwords
+ */
+
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from 'crypto';
+
+/**
+ * scrypt cost parameters for new hashes
+ */
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+/**
+ * Minimum accepted password length
+ */
+export const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * Derive a scrypt key
+ */
+function deriveKey(password: string, salt: Buffer, options: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, { ...options, maxmem: 64 * 1024 * 1024 }, (err, key) => {
+      if (err) reject(err);
+      else resolve(key);
+    });
+  });
+}
+
+/**
+ * Hash a password for storage
+ *
+ * @param password - Plain-text password
+ * @returns Encoded hash including salt and cost parameters
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const key = await deriveKey(password, salt, SCRYPT_PARAMS);
+  const { N, r, p } = SCRYPT_PARAMS;
+  return `scrypt$${N}$${r}$${p}$${salt.toString('base64')}$${key.toString('base64')}`;
+}
+
+/**
+ * Check a password against a stored hash (constant-time comparison)
+ *
+ * @param password - Plain-text password
+ * @param stored - Hash from hashPassword
+ * @returns Whether the password matches; false for malformed hashes
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, N, r, p, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'base64');
+  const key = await deriveKey(password, Buffer.from(salt, 'base64'), {
+    N: Number(N),
+    r: Number(r),
+    p: Number(p),
+  });
+
+  return key.length === expected.length && timingSafeEqual(key, expected);
+}
@@ -0,0 +1,194 @@
+/**
+ * Users and Login Sessions
+ *
+ * Database operations behind authentication: looking up users, opening
+ * and revoking login sessions, and resolving a verified session token to
+ * the current user.
+ *
+ * @module apps/api/auth/sessions
+ */
+
+import { db, postgresSchema, eq, and, gt, isNull } from '@jubilant/database';
+import { createAuthMiddleware, type AuthUser } from '../middleware/auth';
+import { hashPassword } from './passwords';
+import { SESSION_TTL_SECONDS, signSessionToken, type SessionTokenPayload, type UserRole } from './tokens';
+
+/**
+ * User fields safe to return to clients
+ */
+export interface PublicUser {
+  id: string;
+  name: string;
+  email: string;
+  role: UserRole;
+  disabled: boolean;
+  createdAt: Date;
+  lastLoginAt: Date | null;
+}
+
+type UserRow = typeof postgresSchema.users.$inferSelect;
+
+/**
+ * Strip credentials from a user row
+ */
+export function toPublicUser(user: UserRow): PublicUser {
+  return {
+    id: user.id,
+    name: user.name,
+    email: user.email,
+    role: user.role as UserRole,
+    disabled: user.disabled,
+    createdAt: user.createdAt,
+    lastLoginAt: user.lastLoginAt,
+  };
+}
+
+/**
+ * Normalize an email address for storage and lookup
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Find a user by email
+ */
+export async function findUserByEmail(email: string): Promise<UserRow | null> {
+  const rows = await db.postgres
+    .select()
+    .from(postgresSchema.users)
+    .where(eq(postgresSchema.users.email, normalizeEmail(email)))
+    .limit(1);
+
+  return rows[0] ?? null;
+}
+
+/**
+ * Create a user account
+ *
+ * @returns The new user, or null if the email is already registered
+ */
+export async function createUser(input: {
+  name: string;
+  email: string;
+  password: string;
+  role: UserRole;
+}): Promise<UserRow | null> {
+  const rows = await db.postgres
+    .insert(postgresSchema.users)
+    .values({
+      name: input.name.trim(),
+      email: normalizeEmail(input.email),
+      role: input.role,
+      passwordHash: await hashPassword(input.password),
+    })
+    .onConflictDoNothing({ target: postgresSchema.users.email })
+    .returning();
+
+  return rows[0] ?? null;
+}
+
+/**
+ * Open a login session and sign its token
+ *
+ * @param user - User logging in
+ * @param userAgent - Client user agent (for session listings)
+ * @returns Session token and expiry
+ */
+export async function createSession(
+  user: UserRow,
+  userAgent: string | undefined
+): Promise<{ token: string; expiresAt: Date }> {
+  const expiresAt = new Date(Date.now() + SESSION_TTL_SECONDS * 1000);
+
+  const [session] = await db.postgres
+    .insert(postgresSchema.authSessions)
+    .values({
+      userId: user.id,
+      userAgent: userAgent?.slice(0, 255) ?? null,
+      expiresAt,
+    })
+    .returning({ id: postgresSchema.authSessions.id });
+
+  await db.postgres
+    .update(postgresSchema.users)
+    .set({ lastLoginAt: new Date() })
+    .where(eq(postgresSchema.users.id, user.id));
+
+  const token = await signSessionToken(user.id, session.id, user.role as UserRole, expiresAt);
+  return { token, expiresAt };
+}
+
+/**
+ * Resolve a verified token to its user, if the session is still open and
+ * the account is enabled. The stored role is used, so role changes apply
+ * to existing sessions.
+ *
+ * @param payload - Verified token claims
+ * @returns Authenticated user, or null
+ */
+export async function resolveSessionUser(payload: SessionTokenPayload): Promise<AuthUser | null> {
+  const { users, authSessions } = postgresSchema;
+
+  const rows = await db.postgres
+    .select({
+      id: users.id,
+      name: users.name,
+      email: users.email,
+      role: users.role,
+      disabled: users.disabled,
+    })
+    .from(authSessions)
+    .innerJoin(users, eq(authSessions.userId, users.id))
+    .where(
+      and(
+        eq(authSessions.id, payload.sid),
+        eq(authSessions.userId, payload.sub),
+        isNull(authSessions.revokedAt),
+        gt(authSessions.expiresAt, new Date())
+      )
+    )
+    .limit(1);
+
+  const row = rows[0];
+  if (!row || row.disabled) {
+    return null;
+  }
+
+  return {
+    id: row.id,
+    name: row.name,
+    email: row.email,
+    role: row.role as UserRole,
+    sessionId: payload.sid,
+  };
+}
+
+/**
+ * Revoke a login session (logout)
+ */
+export async function revokeSession(sessionId: string): Promise<void> {
+  await db.postgres
+    .update(postgresSchema.authSessions)
+    .set({ revokedAt: new Date() })
+    .where(
+      and(eq(postgresSchema.authSessions.id, sessionId), isNull(postgresSchema.authSessions.revokedAt))
+    );
+}
+
+/**
+ * Revoke all of a user's open sessions (password reset, account disabled)
+ */
+export async function revokeUserSessions(userId: string): Promise<void> {
+  await db.postgres
+    .update(postgresSchema.authSessions)
+    .set({ revokedAt: new Date() })
+    .where(
+      and(eq(postgresSchema.authSessions.userId, userId), isNull(postgresSchema.authSessions.revokedAt))
+    );
+}
+
+/**
+ * Middleware authenticating requests against stored login sessions
+ */
+export const authenticate = createAuthMiddleware(resolveSessionUser);
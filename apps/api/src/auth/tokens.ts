@@ -0,0 +1,111 @@
+/**
+ * Session Tokens
+ *
+ * Signed session tokens (HS256 JWTs) carried in an HttpOnly cookie for the
+ * web app, or as a Bearer token for API clients. A token names its login
+ * session, which is checked on every request so logout and disabled
+ * accounts take effect before the token expires.
+ *
+ * @module apps/api/auth/tokens
+ */
+
+import { sign, verify } from 'hono/jwt';
+import type { User } from '@repo/types';
+
+/**
+ * Cookie holding the session token
+ */
+export const SESSION_COOKIE = 'ct_session';
+
+/**
+ * Session lifetime
+ */
+export const SESSION_TTL_SECONDS =
+  parseInt(process.env.AUTH_SESSION_TTL_HOURS || '12', 10) * 60 * 60;
+
+/**
+ * User roles (matches User['role'] in @repo/types)
+ */
+export type UserRole = User['role'];
+
+export const USER_ROLES: readonly UserRole[] = ['student', 'tutor', 'admin'];
+
+/**
+ * Claims in a session token
+ */
+export interface SessionTokenPayload {
+  /** User ID */
+  sub: string;
+  /** Login session ID */
+  sid: string;
+  role: UserRole;
+  iat: number;
+  exp: number;
+}
+
+let generatedSecret: string | null = null;
+
+/**
+ * Secret used to sign session tokens.
+ * Without AUTH_JWT_SECRET a random per-process secret is used, so sessions
+ * do not survive a restart (acceptable in development only).
+ */
+function getSecret(): string {
+  const secret = process.env.AUTH_JWT_SECRET;
+  if (secret) {
+    return secret;
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('AUTH_JWT_SECRET must be set in production');
+  }
+
+  if (!generatedSecret) {
+    console.warn('AUTH_JWT_SECRET is not set; using a random secret (sessions end on restart)');
+    generatedSecret = crypto.randomUUID() + crypto.randomUUID();
+  }
+  return generatedSecret;
+}
+
+/**
+ * Sign a session token
+ *
+ * @param userId - User the session belongs to
+ * @param sessionId - Login session ID
+ * @param role - User role at login (informational; guards use the stored role)
+ * @param expiresAt - Session expiry
+ * @returns Signed token
+ */
+export async function signSessionToken(
+  userId: string,
+  sessionId: string,
+  role: UserRole,
+  expiresAt: Date
+): Promise<string> {
+  const payload: SessionTokenPayload = {
+    sub: userId,
+    sid: sessionId,
+    role,
+    iat: Math.floor(Date.now() / 1000),
+    exp: Math.floor(expiresAt.getTime() / 1000),
+  };
+  return sign({ ...payload }, getSecret(), 'HS256');
+}
+
+/**
+ * Verify a session token's signature and expiry
+ *
+ * @param token - Token from the cookie or Authorization header
+ * @returns Token claims, or null if the token is invalid or expired
+ */
+export async function verifySessionToken(token: string): Promise<SessionTokenPayload | null> {
+  try {
+    const payload = await verify(token, getSecret(), 'HS256');
+    if (typeof payload.sub !== 'string' || typeof payload.sid !== 'string') {
+      return null;
+    }
+    return payload as unknown as SessionTokenPayload;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Semantic Answer Cache
+ *
+ * Shares one answer cache between the query, document and ingestion
+ * routes of a process. Cited documents are checked against the documents
+ * table on every hit, so entries citing a document that was re-ingested
+ * or archived (by this process or another) are never served.
+ *
+ * @module apps/api/cache/answers
+ */
+
+import { db, postgresSchema, and, eq, inArray, sql } from '@jubilant/database';
+import {
+  createSemanticAnswerCache,
+  type DocumentRevisionSource,
+  type SemanticAnswerCache,
+} from '@jubilant/rag';
+
+/**
+ * Create a DocumentRevisionSource backed by the documents table. A
+ * document's revision is its updated_at, which every re-ingest and
+ * archive bumps. URLs are unique, so cited URLs resolve to one ID each.
+ * The document set's revision is the latest updated_at with the number of
+ * active documents.
+ */
+export function createPostgresDocumentRevisions(): DocumentRevisionSource {
+  return {
+    async getRevisions(documentIds: string[]): Promise<Map<string, string>> {
+      if (documentIds.length === 0) return new Map();
+
+      const documents = postgresSchema.documents;
+      const rows = await db.postgres
+        .select({ id: documents.id, updatedAt: documents.updatedAt })
+        .from(documents)
+        .where(and(inArray(documents.id, documentIds), eq(documents.status, 'active')));
+
+      return new Map(rows.map((row) => [row.id, row.updatedAt.toISOString()]));
+    },
+
+    async resolveDocumentIds(documentUrls: string[]): Promise<Map<string, string>> {
+      if (documentUrls.length === 0) return new Map();
+
+      const documents = postgresSchema.documents;
+      const rows = await db.postgres
+        .select({ id: documents.id, url: documents.url })
+        .from(documents)
+        .where(inArray(documents.url, documentUrls));
+
+      return new Map(rows.map((row) => [row.url, row.id]));
+    },
+
+    async getDocumentSetRevision(): Promise<string> {
+      // Ingests, re-ingests and archives all bump an updated_at; deletes
+      // lower the active count
+      const documents = postgresSchema.documents;
+      const [row] = await db.postgres
+        .select({
+          lastUpdated: sql<string | null>`max(${documents.updatedAt})::text`,
+          activeCount: sql<number>`count(*) filter (where ${documents.status} = 'active')::int`,
+        })
+        .from(documents);
+
+      return `${row?.lastUpdated ?? 'none'}:${row?.activeCount ?? 0}`;
+    },
+  };
+}
+
+let cache: SemanticAnswerCache | null | undefined;
+
+/**
+ * Get the process-wide answer cache, or null when ANSWER_CACHE_ENABLED=false
+ */
+export function getAnswerCache(): SemanticAnswerCache | null {
+  if (cache === undefined) {
+    cache = process.env.ANSWER_CACHE_ENABLED === 'false'
+      ? null
+      : createSemanticAnswerCache(createPostgresDocumentRevisions());
+  }
+  return cache;
+}
@@ -0,0 +1,60 @@
+/**
+ * Create User Script
+ *
+ * Creates an account from the command line, e.g. the first admin before
+ * anyone can sign in to manage users:
+ *
+ *   bun run --filter '@repo/api' create-user -- --email admin@example.com --name Admin --role admin
+ *
+ * The password is read from NEW_USER_PASSWORD, or prompted for.
+ *
+ * @module apps/api/create-user
+ */
+
+import { parseArgs } from 'node:util';
+import { db } from '@jubilant/database';
+import { MIN_PASSWORD_LENGTH } from './auth/passwords';
+import { createUser } from './auth/sessions';
+import { USER_ROLES, type UserRole } from './auth/tokens';
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      email: { type: 'string' },
+      name: { type: 'string' },
+      role: { type: 'string', default: 'student' },
+    },
+  });
+
+  const role = values.role as UserRole;
+  if (!values.email || !values.name || !USER_ROLES.includes(role)) {
+    console.error(
+      `Usage: create-user --email <email> --name <name> [--role ${USER_ROLES.join('|')}]`
+    );
+    process.exit(1);
+  }
+
+  const password = process.env.NEW_USER_PASSWORD || prompt('Password:') || '';
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    console.error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    process.exit(1);
+  }
+
+  await db.connect();
+  try {
+    const user = await createUser({ email: values.email, name: values.name, role, password });
+    if (!user) {
+      console.error(`A user with email ${values.email} already exists`);
+      process.exitCode = 1;
+    } else {
+      console.warn(`Created ${user.role} ${user.email} (${user.id})`);
+    }
+  } finally {
+    await db.disconnect();
+  }
+}
+
+main().catch((error) => {
+  console.error('Failed to create user:', error);
+  process.exit(1);
+});
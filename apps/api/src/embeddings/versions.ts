@@ -0,0 +1,122 @@
+/**
+ * Postgres Embedding Version Store
+ *
+ * Records versioned Milvus collections in the embedding_versions table,
+ * and shares one version tracker between the query and ingestion routes
+ * of a process.
+ *
+ * @module apps/api/embeddings/versions
+ */
+
+import { db, postgresSchema, eq, gt, asc, sql } from '@jubilant/database';
+import {
+  createEmbeddingVersionTracker,
+  type EmbeddingVersion,
+  type EmbeddingVersionStatus,
+  type EmbeddingVersionStore,
+  type EmbeddingVersionTracker,
+} from '@jubilant/rag';
+
+const versions = postgresSchema.embeddingVersions;
+
+/**
+ * Map a table row to an EmbeddingVersion
+ */
+function toEmbeddingVersion(row: typeof versions.$inferSelect): EmbeddingVersion {
+  return {
+    version: row.version,
+    collectionName: row.collectionName,
+    provider: row.provider,
+    model: row.model,
+    dimensions: row.dimensions,
+    status: row.status as EmbeddingVersionStatus,
+    processedDocuments: row.processedDocuments,
+    totalDocuments: row.totalDocuments,
+    embeddedChunks: row.embeddedChunks,
+    backfillCursor: row.backfillCursor,
+    error: row.errorMessage,
+    createdAt: row.createdAt,
+    activatedAt: row.activatedAt,
+  };
+}
+
+/**
+ * Create an EmbeddingVersionStore backed by the embedding_versions table
+ */
+export function createPostgresEmbeddingVersionStore(): EmbeddingVersionStore {
+  return {
+    async listVersions(): Promise<EmbeddingVersion[]> {
+      const rows = await db.postgres.select().from(versions).orderBy(asc(versions.version));
+      return rows.map(toEmbeddingVersion);
+    },
+
+    async createVersion(version): Promise<EmbeddingVersion> {
+      const [row] = await db.postgres.insert(versions).values(version).returning();
+      return toEmbeddingVersion(row);
+    },
+
+    async updateVersion(version, updates): Promise<void> {
+      const { error, ...fields } = updates;
+      await db.postgres
+        .update(versions)
+        .set({
+          ...fields,
+          ...(error !== undefined && { errorMessage: error }),
+          updatedAt: new Date(),
+        })
+        .where(eq(versions.version, version));
+    },
+
+    async activateVersion(version): Promise<void> {
+      await db.postgres.transaction(async (tx) => {
+        // Lock the rows so concurrent activations serialize
+        await tx.execute(sql`SELECT version FROM embedding_versions FOR UPDATE`);
+
+        const [target] = await tx.select().from(versions).where(eq(versions.version, version));
+        if (!target) {
+          throw new Error(`Embedding version ${version} does not exist`);
+        }
+
+        await tx
+          .update(versions)
+          .set({ status: 'retired', updatedAt: new Date() })
+          .where(eq(versions.status, 'active'));
+        await tx
+          .update(versions)
+          .set({ status: 'active', activatedAt: new Date(), updatedAt: new Date() })
+          .where(eq(versions.version, version));
+      });
+    },
+
+    async listDocumentIds(after, limit): Promise<string[]> {
+      const rows = await db.postgres
+        .select({ id: postgresSchema.documents.id })
+        .from(postgresSchema.documents)
+        .where(after ? gt(postgresSchema.documents.id, after) : undefined)
+        .orderBy(asc(postgresSchema.documents.id))
+        .limit(limit);
+
+      return rows.map((row) => row.id);
+    },
+
+    async countDocuments(): Promise<number> {
+      const [row] = await db.postgres
+        .select({ count: sql<number>`count(*)::int` })
+        .from(postgresSchema.documents);
+
+      return row?.count ?? 0;
+    },
+  };
+}
+
+let tracker: EmbeddingVersionTracker | null = null;
+
+/**
+ * Get the process-wide embedding version tracker
+ */
+export function getEmbeddingVersionTracker(): EmbeddingVersionTracker {
+  if (!tracker) {
+    tracker = createEmbeddingVersionTracker(createPostgresEmbeddingVersionStore());
+  }
+  return tracker;
+}
@@ -0,0 +1,185 @@
+/**
+ * Retrieval Evaluation Script
+ *
+ * Scores retrieval against a golden question set, saves the run and
+ * compares it with a baseline run, exiting non-zero on a regression so it
+ * can gate a check:
+ *
+ *   bun run --filter '@repo/api' evaluate-retrieval -- --golden golden-set.example.json --label rrf-k-40 --rrf-k 40
+ *
+ * The baseline is the latest saved run of the same set, or --baseline <run id>.
+ *
+ * @module apps/api/evaluate-retrieval
+ */
+
+import { writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { db } from '@jubilant/database';
+import {
+  RetrievalEvaluator,
+  createFallbackReranker,
+  createHybridRetriever,
+  findRegressions,
+  loadGoldenSet,
+  type EvaluationSummary,
+  type MetricSummary,
+} from '@jubilant/rag';
+import { getEmbeddingVersionTracker } from './embeddings/versions';
+import { createPostgresEvaluationStore } from './evaluation/store';
+
+const USAGE = `Usage: evaluate-retrieval --golden <file> [options]
+  --label <text>        Name for this run (e.g. the setting under test)
+  --baseline <run id>   Compare with this run (default: latest run of the set)
+  --tolerance <n>       Allowed drop of any metric before failing (default 0.02)
+  --ks <list>           Cutoffs for recall@k and nDCG@k (default 1,3,5,10)
+  --candidates <n>      Results retrieved per stage (default 20)
+  --rrf-k <n>           RRF constant for fusion (default 60)
+  --skip-graph          Vector retrieval only
+  --skip-rerank         Do not score the reranked stage
+  --dry-run             Do not save the run
+  --output <file>       Write the full report as JSON`;
+
+function parseNumber(value: string, name: string): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    console.error(`${name} must be a non-negative number\n${USAGE}`);
+    process.exit(1);
+  }
+  return parsed;
+}
+
+function formatScore(value: number | undefined): string {
+  return value === undefined ? '    -' : value.toFixed(3);
+}
+
+/**
+ * Print one row per stage: recall@k, nDCG@k and MRR, with the change
+ * since the baseline
+ */
+function printStages(summary: EvaluationSummary, baseline: EvaluationSummary | null) {
+  const ks = summary.config.ks;
+  const header = ['stage'.padEnd(9), ...ks.map((k) => `R@${k}`.padStart(6)),
+    ...ks.map((k) => `nDCG@${k}`.padStart(8)), 'MRR'.padStart(6)];
+  console.warn(header.join(' '));
+
+  const row = (label: string, m: MetricSummary) =>
+    [label.padEnd(9), ...ks.map((k) => formatScore(m.recall[k]).padStart(6)),
+      ...ks.map((k) => formatScore(m.ndcg[k]).padStart(8)), formatScore(m.mrr).padStart(6)].join(' ');
+
+  for (const [stage, metrics] of Object.entries(summary.stages)) {
+    console.warn(row(stage, metrics!));
+    const before = baseline?.stages[stage as keyof EvaluationSummary['stages']];
+    if (before) {
+      console.warn(row('  before', before));
+    }
+  }
+
+  for (const [strategy, metrics] of Object.entries(summary.byStrategy)) {
+    console.warn(`${row(strategy.slice(0, 9), metrics!)}  (${metrics!.questionCount} questions)`);
+  }
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      golden: { type: 'string' },
+      label: { type: 'string' },
+      baseline: { type: 'string' },
+      tolerance: { type: 'string', default: '0.02' },
+      ks: { type: 'string', default: '1,3,5,10' },
+      candidates: { type: 'string', default: '20' },
+      'rrf-k': { type: 'string', default: '60' },
+      'skip-graph': { type: 'boolean', default: false },
+      'skip-rerank': { type: 'boolean', default: false },
+      'dry-run': { type: 'boolean', default: false },
+      output: { type: 'string' },
+    },
+  });
+
+  if (!values.golden) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const goldenSet = loadGoldenSet(values.golden);
+  const ks = values.ks.split(',').map((k) => parseNumber(k.trim(), '--ks')).filter((k) => k > 0);
+  const candidateCount = parseNumber(values.candidates, '--candidates');
+  const includeGraph = !values['skip-graph'];
+
+  await db.connect();
+  try {
+    const retriever = createHybridRetriever(db.milvus, db.neo4j, undefined, {
+      topK: candidateCount,
+      includeGraph,
+      rrfK: parseNumber(values['rrf-k'], '--rrf-k'),
+    });
+    retriever.setVersionTracker(getEmbeddingVersionTracker());
+
+    const evaluator = new RetrievalEvaluator(retriever, createFallbackReranker(), {
+      ks,
+      candidateCount,
+      includeGraph,
+      rerank: !values['skip-rerank'],
+    });
+
+    const store = createPostgresEvaluationStore();
+    const baseline = values.baseline
+      ? await store.getRun(values.baseline)
+      : await store.getLatestRun(goldenSet.name, goldenSet.hash);
+    if (values.baseline && !baseline) {
+      console.error(`Baseline run ${values.baseline} not found`);
+      process.exitCode = 1;
+      return;
+    }
+
+    console.warn(`Evaluating ${goldenSet.questions.length} questions from "${goldenSet.name}"...`);
+    const report = await evaluator.evaluate(goldenSet, (completed, total) => {
+      if (completed % 10 === 0 || completed === total) {
+        console.warn(`  ${completed}/${total}`);
+      }
+    });
+
+    if (values.output) {
+      writeFileSync(values.output, JSON.stringify(report, null, 2));
+    }
+    if (!values['dry-run']) {
+      const runId = await store.saveRun(report, values.label ?? null);
+      console.warn(`Saved run ${runId}`);
+    }
+
+    printStages(report, baseline?.summary ?? null);
+
+    for (const question of report.questions.filter((q) => q.error)) {
+      console.error(`Question ${question.questionId} failed: ${question.error}`);
+    }
+
+    if (!baseline) {
+      console.warn('No baseline run to compare with');
+      return;
+    }
+
+    const regressions = findRegressions(baseline.summary, report, parseNumber(values.tolerance, '--tolerance'));
+    const newFailures = report.failedQuestions > baseline.summary.failedQuestions;
+    if (regressions.length === 0 && !newFailures) {
+      console.warn(`No regressions against run ${baseline.id}`);
+      return;
+    }
+
+    for (const r of regressions) {
+      console.error(`Regression in ${r.stage} ${r.metric}: ${r.baseline.toFixed(3)} -> ${r.current.toFixed(3)}`);
+    }
+    if (newFailures) {
+      console.error(
+        `${report.failedQuestions} questions failed (baseline: ${baseline.summary.failedQuestions})`
+      );
+    }
+    process.exitCode = 1;
+  } finally {
+    await db.disconnect();
+  }
+}
+
+main().catch((error) => {
+  console.error('Retrieval evaluation failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,84 @@
+/**
+ * Postgres Evaluation Store
+ *
+ * Saves retrieval evaluation runs to eval_runs, with per-question results
+ * in eval_question_results, so runs can be compared over time.
+ *
+ * @module apps/api/evaluation/store
+ */
+
+import { db, postgresSchema, eq, and, desc } from '@jubilant/database';
+import type {
+  EvaluationReport,
+  EvaluationRunRecord,
+  EvaluationStore,
+  EvaluationSummary,
+} from '@jubilant/rag';
+
+const runs = postgresSchema.evalRuns;
+
+function toRunRecord(row: typeof runs.$inferSelect): EvaluationRunRecord {
+  return {
+    id: row.id,
+    label: row.label,
+    createdAt: row.createdAt,
+    summary: row.summary as EvaluationSummary,
+  };
+}
+
+/**
+ * Create an EvaluationStore backed by the eval_runs tables
+ */
+export function createPostgresEvaluationStore(): EvaluationStore {
+  return {
+    async saveRun(report: EvaluationReport, label: string | null): Promise<string> {
+      const { questions, ...summary } = report;
+
+      return db.postgres.transaction(async (tx) => {
+        const [run] = await tx
+          .insert(runs)
+          .values({
+            goldenSetName: summary.goldenSetName,
+            goldenSetHash: summary.goldenSetHash,
+            label,
+            summary,
+            questionCount: summary.questionCount,
+            failedQuestions: summary.failedQuestions,
+            durationMs: summary.durationMs,
+          })
+          .returning({ id: runs.id });
+
+        if (questions.length > 0) {
+          await tx.insert(postgresSchema.evalQuestionResults).values(
+            questions.map((q) => ({
+              runId: run.id,
+              questionId: q.questionId,
+              strategy: q.strategy,
+              rerankScorer: q.rerankScorer,
+              stages: q.stages,
+              errorMessage: q.error ?? null,
+            }))
+          );
+        }
+
+        return run.id;
+      });
+    },
+
+    async getRun(id: string): Promise<EvaluationRunRecord | null> {
+      const rows = await db.postgres.select().from(runs).where(eq(runs.id, id)).limit(1);
+      return rows[0] ? toRunRecord(rows[0]) : null;
+    },
+
+    async getLatestRun(goldenSetName: string, goldenSetHash: string): Promise<EvaluationRunRecord | null> {
+      const rows = await db.postgres
+        .select()
+        .from(runs)
+        .where(and(eq(runs.goldenSetName, goldenSetName), eq(runs.goldenSetHash, goldenSetHash)))
+        .orderBy(desc(runs.createdAt))
+        .limit(1);
+
+      return rows[0] ? toRunRecord(rows[0]) : null;
+    },
+  };
+}
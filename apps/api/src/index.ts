@@ -3,29 +3,72 @@
  *
  * Hono-based API server for the hybrid RAG pipeline.
  *
+ * All routes except health checks, login and Prometheus metrics require a
+ * session; ingestion, document management and analytics are limited to
+ * tutors and admins, and user management to admins. Code runs (/api/run)
+ * execute in a resource-limited sandbox. /metrics is protected
+ * by METRICS_TOKEN when set. Requests are traced with OpenTelemetry-style
+ * spans, continuing the web app's trace (see middleware/tracing).
+ *
  * @module apps/api
  */
 
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
 import { db } from '@jubilant/database';
+import { createTracer, setTracer } from '@jubilant/rag';
 import { metricsMiddleware } from './middleware/metrics';
+import { tracingMiddleware } from './middleware/tracing';
+import { requireRole } from './middleware/auth';
+import { authenticate } from './auth/sessions';
+import authRoutes from './routes/auth';
+import userRoutes from './routes/users';
 import healthRoutes from './routes/health';
 import queryRoutes from './routes/query';
 import ingestRoutes from './routes/ingest';
+import documentRoutes from './routes/documents';
 import feedbackRoutes from './routes/feedback';
+import analyticsRoutes from './routes/analytics';
+import metricsRoutes from './routes/metrics';
+import runRoutes from './routes/run';
 
 const app = new Hono();
 
+// Export spans as configured by OTEL_TRACES_EXPORTER (off by default)
+setTracer(createTracer('competition-tutor-api'));
+
 // Global middleware
-app.use('*', cors());
+app.use(
+  '*',
+  cors({
+    origin: (process.env.CORS_ORIGIN || 'http://localhost:3000').split(',').map((o) => o.trim()),
+    credentials: true,
+  })
+);
+app.use('*', tracingMiddleware);
 app.use('*', metricsMiddleware);
 
+// Access control
+const tutorOrAdmin = requireRole('tutor', 'admin');
+app.use('/api/query/*', authenticate);
+app.use('/api/feedback/*', authenticate);
+app.use('/api/run/*', authenticate);
+app.use('/api/ingest/*', authenticate, tutorOrAdmin);
+app.use('/api/documents/*', authenticate, tutorOrAdmin);
+app.use('/api/analytics/*', authenticate, tutorOrAdmin);
+app.use('/api/users/*', authenticate, requireRole('admin'));
+
 // Mount routes
 app.route('/api/health', healthRoutes);
+app.route('/api/auth', authRoutes);
+app.route('/api/users', userRoutes);
 app.route('/api/query', queryRoutes);
 app.route('/api/ingest', ingestRoutes);
+app.route('/api/documents', documentRoutes);
 app.route('/api/feedback', feedbackRoutes);
+app.route('/api/run', runRoutes);
+app.route('/api/analytics', analyticsRoutes);
+app.route('/metrics', metricsRoutes);
 
 // Initialize database connection
 async function initializeDatabase() {
@@ -49,9 +92,15 @@ app.get('/', (c) => {
     status: 'running',
     endpoints: {
       health: '/api/health',
+      auth: '/api/auth',
+      users: '/api/users',
       query: '/api/query',
       ingest: '/api/ingest',
+      documents: '/api/documents',
       feedback: '/api/feedback',
+      run: '/api/run',
+      analytics: '/api/analytics',
+      metrics: '/metrics',
     },
   });
 });
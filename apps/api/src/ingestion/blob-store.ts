@@ -0,0 +1,87 @@
+/**
+ * Upload Blob Store
+ *
+ * Content-addressed local storage for uploaded documents. Files are stored
+ * under their SHA-256 hash, so uploading the same bytes twice yields the
+ * same path and the file is written only once.
+ *
+ * @module apps/api/ingestion/blob-store
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { mkdir, rename, stat, unlink, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+
+/**
+ * A file held in the blob store
+ */
+export interface StoredBlob {
+  /** Absolute path of the stored file */
+  path: string;
+  /** SHA-256 of the file contents (hex) */
+  hash: string;
+  /** Size in bytes */
+  size: number;
+  /** False when identical content was already stored */
+  created: boolean;
+}
+
+/**
+ * Content-addressed file storage
+ */
+export interface BlobStore {
+  /**
+   * Store file contents
+   *
+   * @param data - File contents
+   * @param extension - File extension without the dot (kept so the
+   *   stored path still identifies the document format)
+   */
+  put(data: Uint8Array, extension: string): Promise<StoredBlob>;
+}
+
+/**
+ * Check whether a file exists
+ */
+async function exists(path: string): Promise<boolean> {
+  try {
+    await stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Create a BlobStore rooted at a local directory.
+ * Blobs are sharded by the first two hex characters of their hash.
+ */
+export function createLocalBlobStore(rootDir: string): BlobStore {
+  const root = resolve(rootDir);
+
+  return {
+    async put(data: Uint8Array, extension: string): Promise<StoredBlob> {
+      const hash = createHash('sha256').update(data).digest('hex');
+      const dir = join(root, hash.slice(0, 2));
+      const path = join(dir, `${hash}.${extension}`);
+
+      if (await exists(path)) {
+        return { path, hash, size: data.byteLength, created: false };
+      }
+
+      // Write to a temporary name and rename, so a concurrent reader never
+      // sees a partially written blob
+      await mkdir(dir, { recursive: true });
+      const tempPath = join(dir, `.${hash}.${randomUUID()}.tmp`);
+      try {
+        await writeFile(tempPath, data);
+        await rename(tempPath, path);
+      } catch (error) {
+        await unlink(tempPath).catch(() => undefined);
+        throw error;
+      }
+
+      return { path, hash, size: data.byteLength, created: true };
+    },
+  };
+}
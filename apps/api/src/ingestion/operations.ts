@@ -0,0 +1,142 @@
+/**
+ * Ingestion Database Operations
+ *
+ * Postgres implementation of the ingestion pipeline's job and document
+ * tracking, shared by the API and the ingestion worker.
+ *
+ * @module apps/api/ingestion/operations
+ */
+
+import { db, postgresSchema, eq, and, notInArray } from '@jubilant/database';
+import type { DatabaseOperations, IngestionJob, DocumentRecord } from '@jubilant/rag';
+
+/**
+ * Find an unfinished ingestion job for a document
+ *
+ * @returns The job ID, or null if no job is queued or running
+ */
+export async function findActiveJob(documentId: string): Promise<string | null> {
+  const jobs = await db.postgres
+    .select({ id: postgresSchema.ingestionJobs.id })
+    .from(postgresSchema.ingestionJobs)
+    .where(
+      and(
+        eq(postgresSchema.ingestionJobs.documentId, documentId),
+        notInArray(postgresSchema.ingestionJobs.status, ['complete', 'failed'])
+      )
+    )
+    .limit(1);
+
+  return jobs[0]?.id ?? null;
+}
+
+/**
+ * Create a DatabaseOperations implementation using the @jubilant/database package
+ */
+export function createDatabaseOperations(): DatabaseOperations {
+  return {
+    async insertDocument(doc: {
+      id: string;
+      url: string;
+      title: string;
+      format: string;
+      status: string;
+      metadata: Record<string, unknown>;
+      fileHash?: string;
+      fileSize?: number;
+    }): Promise<void> {
+      await db.postgres.insert(postgresSchema.documents).values({
+        id: doc.id,
+        url: doc.url,
+        title: doc.title,
+        format: doc.format,
+        status: doc.status,
+        metadata: doc.metadata,
+        fileHash: doc.fileHash,
+        fileSize: doc.fileSize,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+    },
+
+    async insertJob(job: {
+      id: string;
+      documentId: string;
+      status: string;
+      progress: number;
+    }): Promise<void> {
+      await db.postgres.insert(postgresSchema.ingestionJobs).values({
+        id: job.id,
+        documentId: job.documentId,
+        status: job.status,
+        progress: job.progress,
+        processedChunks: 0,
+        createdAt: new Date(),
+      });
+    },
+
+    async getJob(jobId: string): Promise<IngestionJob | null> {
+      const jobs = await db.postgres
+        .select()
+        .from(postgresSchema.ingestionJobs)
+        .where(eq(postgresSchema.ingestionJobs.id, jobId))
+        .limit(1);
+
+      if (jobs.length === 0) return null;
+
+      const job = jobs[0];
+      return {
+        id: job.id,
+        documentId: job.documentId ?? '',
+        status: (job.status ?? 'pending') as IngestionJob['status'],
+        currentStep: job.currentStep ?? null,
+        progress: job.progress ?? 0,
+        totalChunks: job.totalChunks ?? null,
+        processedChunks: job.processedChunks ?? 0,
+        errorMessage: job.errorMessage ?? null,
+        attempts: job.attempts,
+        completedStage: (job.completedStage ?? null) as IngestionJob['completedStage'],
+        startedAt: job.startedAt ?? null,
+        completedAt: job.completedAt ?? null,
+        createdAt: job.createdAt,
+      };
+    },
+
+    async getDocument(documentId: string): Promise<DocumentRecord | null> {
+      const docs = await db.postgres
+        .select()
+        .from(postgresSchema.documents)
+        .where(eq(postgresSchema.documents.id, documentId))
+        .limit(1);
+
+      if (docs.length === 0) return null;
+
+      const doc = docs[0];
+      return {
+        id: doc.id,
+        url: doc.url,
+        title: doc.title || 'Untitled',
+        format: doc.format || 'text',
+        status: (doc.status ?? 'pending') as DocumentRecord['status'],
+        chunkCount: doc.chunkCount ?? 0,
+        errorMessage: doc.errorMessage ?? null,
+        fileHash: doc.fileHash ?? null,
+        fileSize: doc.fileSize ?? null,
+      };
+    },
+
+    async updateJob(jobId: string, updates: Partial<IngestionJob>): Promise<void> {
+      await db.postgres
+        .update(postgresSchema.ingestionJobs)
+        .set(updates as Record<string, unknown>)
+        .where(eq(postgresSchema.ingestionJobs.id, jobId));
+    },
+
+    async updateDocument(documentId: string, updates: Partial<DocumentRecord>): Promise<void> {
+      await db.postgres
+        .update(postgresSchema.documents)
+        .set({ ...updates, updatedAt: new Date() } as Record<string, unknown>)
+        .where(eq(postgresSchema.documents.id, documentId));
+    },
+  };
+}
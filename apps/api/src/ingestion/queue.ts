@@ -0,0 +1,136 @@
+/**
+ * Postgres Ingestion Job Queue
+ *
+ * Durable queue over the ingestion_jobs table. Workers lease jobs with
+ * SELECT ... FOR UPDATE SKIP LOCKED, so any number of worker processes
+ * can poll the same table without handing out a job twice.
+ *
+ * @module apps/api/ingestion/queue
+ */
+
+import { db, postgresSchema, sql, inArray } from '@jubilant/database';
+import type { IngestionJobQueue, JobLease, StaleLeaseResult } from '@jubilant/rag';
+
+/**
+ * Statuses of jobs that are finished and never leased again
+ */
+const TERMINAL_STATUSES = ['complete', 'failed'];
+
+/**
+ * Create an IngestionJobQueue backed by the ingestion_jobs table
+ */
+export function createPostgresJobQueue(): IngestionJobQueue {
+  return {
+    async claim(workerId: string, leaseMs: number): Promise<JobLease | null> {
+      const rows = await db.postgres.execute<{
+        id: string;
+        document_id: string;
+        attempts: number;
+      }>(sql`
+        UPDATE ingestion_jobs
+        SET leased_by = ${workerId},
+            lease_expires_at = NOW() + ${leaseMs} * INTERVAL '1 millisecond',
+            heartbeat_at = NOW(),
+            attempts = attempts + 1
+        WHERE id = (
+          SELECT id FROM ingestion_jobs
+          WHERE status = 'queued'
+            AND leased_by IS NULL
+            AND available_at <= NOW()
+          ORDER BY created_at
+          LIMIT 1
+          FOR UPDATE SKIP LOCKED
+        )
+        RETURNING id, document_id, attempts
+      `);
+
+      if (rows.length === 0) return null;
+
+      return {
+        jobId: rows[0].id,
+        documentId: rows[0].document_id,
+        attempts: rows[0].attempts,
+      };
+    },
+
+    async heartbeat(jobId: string, workerId: string, leaseMs: number): Promise<boolean> {
+      const rows = await db.postgres.execute<{ id: string }>(sql`
+        UPDATE ingestion_jobs
+        SET heartbeat_at = NOW(),
+            lease_expires_at = NOW() + ${leaseMs} * INTERVAL '1 millisecond'
+        WHERE id = ${jobId} AND leased_by = ${workerId}
+        RETURNING id
+      `);
+
+      return rows.length > 0;
+    },
+
+    async release(jobId: string, workerId: string): Promise<void> {
+      await db.postgres.execute(sql`
+        UPDATE ingestion_jobs
+        SET leased_by = NULL, lease_expires_at = NULL
+        WHERE id = ${jobId} AND leased_by = ${workerId}
+      `);
+    },
+
+    async retry(jobId: string, workerId: string, delayMs: number): Promise<void> {
+      await db.postgres.execute(sql`
+        UPDATE ingestion_jobs
+        SET status = 'queued',
+            current_step = 'Waiting to retry',
+            completed_at = NULL,
+            leased_by = NULL,
+            lease_expires_at = NULL,
+            available_at = NOW() + ${delayMs} * INTERVAL '1 millisecond'
+        WHERE id = ${jobId} AND leased_by = ${workerId}
+      `);
+    },
+
+    async requeueStale(maxAttempts: number): Promise<StaleLeaseResult> {
+      // Expired leases, plus unleased jobs stuck mid-run (e.g. from a crash
+      // before the worker released them)
+      const rows = await db.postgres.execute<{ document_id: string; status: string }>(sql`
+        UPDATE ingestion_jobs
+        SET status = CASE WHEN attempts >= ${maxAttempts} THEN 'failed' ELSE 'queued' END,
+            error_message = CASE
+              WHEN attempts >= ${maxAttempts}
+                THEN 'Job abandoned after ' || attempts || ' attempts'
+              ELSE error_message
+            END,
+            completed_at = CASE WHEN attempts >= ${maxAttempts} THEN NOW() ELSE completed_at END,
+            current_step = CASE
+              WHEN attempts >= ${maxAttempts} THEN current_step
+              ELSE 'Requeued after worker lease expired'
+            END,
+            leased_by = NULL,
+            lease_expires_at = NULL
+        WHERE status NOT IN ${TERMINAL_STATUSES}
+          AND (
+            lease_expires_at < NOW()
+            OR (leased_by IS NULL AND status <> 'queued')
+          )
+        RETURNING document_id, status
+      `);
+
+      const failedDocumentIds = rows
+        .filter((row) => row.status === 'failed' && row.document_id)
+        .map((row) => row.document_id);
+
+      if (failedDocumentIds.length > 0) {
+        await db.postgres
+          .update(postgresSchema.documents)
+          .set({
+            status: 'failed',
+            errorMessage: 'Ingestion abandoned after repeated worker failures',
+            updatedAt: new Date(),
+          })
+          .where(inArray(postgresSchema.documents.id, failedDocumentIds));
+      }
+
+      return {
+        requeued: rows.length - rows.filter((row) => row.status === 'failed').length,
+        failed: rows.filter((row) => row.status === 'failed').length,
+      };
+    },
+  };
+}
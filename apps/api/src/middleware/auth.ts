@@ -0,0 +1,117 @@
+/**
+ * Authentication Middleware
+ *
+ * Authenticates requests from a session token (Authorization: Bearer
+ * header, or the session cookie set at login) and guards routes by role:
+ * - Students: query and feedback
+ * - Tutors: also ingestion, document management and analytics
+ * - Admins: everything, including user management
+ *
+ * @module apps/api/middleware/auth
+ */
+
+import type { Context, MiddlewareHandler } from 'hono';
+import { getCookie } from 'hono/cookie';
+import type { ErrorResponse } from '@jubilant/rag';
+import {
+  SESSION_COOKIE,
+  verifySessionToken,
+  type SessionTokenPayload,
+  type UserRole,
+} from '../auth/tokens';
+
+/**
+ * Authenticated user, available to handlers as c.get('authUser')
+ */
+export interface AuthUser {
+  id: string;
+  name: string;
+  email: string;
+  role: UserRole;
+  /** Login session the request was made with */
+  sessionId: string;
+}
+
+declare module 'hono' {
+  interface ContextVariableMap {
+    authUser: AuthUser;
+  }
+}
+
+/**
+ * Resolves verified token claims to the current user, or null if the
+ * session is no longer valid
+ */
+export type SessionResolver = (payload: SessionTokenPayload) => Promise<AuthUser | null>;
+
+/**
+ * Read the session token from the Authorization header or session cookie
+ */
+export function getSessionToken(c: Context): string | undefined {
+  const header = c.req.header('Authorization');
+  if (header?.startsWith('Bearer ')) {
+    return header.slice('Bearer '.length).trim() || undefined;
+  }
+  return getCookie(c, SESSION_COOKIE);
+}
+
+/**
+ * Create middleware that rejects unauthenticated requests with 401 and
+ * sets c.get('authUser') for authenticated ones
+ *
+ * @param resolveSession - Session lookup (database-backed in the server)
+ */
+export function createAuthMiddleware(resolveSession: SessionResolver): MiddlewareHandler {
+  return async (c, next) => {
+    const token = getSessionToken(c);
+    const payload = token ? await verifySessionToken(token) : null;
+    const user = payload ? await resolveSession(payload) : null;
+
+    if (!user) {
+      const errorResponse: ErrorResponse = {
+        error: 'UNAUTHORIZED',
+        message: token ? 'Session expired or invalid. Please log in again.' : 'Authentication required',
+      };
+      return c.json(errorResponse, 401);
+    }
+
+    c.set('authUser', user);
+    await next();
+  };
+}
+
+/**
+ * Create middleware that allows only the given roles (after authentication)
+ *
+ * @param roles - Roles allowed to access the route
+ */
+export function requireRole(...roles: UserRole[]): MiddlewareHandler {
+  return async (c, next) => {
+    const user = c.get('authUser') as AuthUser | undefined;
+
+    if (!user) {
+      const errorResponse: ErrorResponse = {
+        error: 'UNAUTHORIZED',
+        message: 'Authentication required',
+      };
+      return c.json(errorResponse, 401);
+    }
+
+    if (!roles.includes(user.role)) {
+      const errorResponse: ErrorResponse = {
+        error: 'FORBIDDEN',
+        message: `This action requires one of the roles: ${roles.join(', ')}`,
+      };
+      return c.json(errorResponse, 403);
+    }
+
+    await next();
+  };
+}
+
+/**
+ * Whether a user may see data belonging to another user (tutors and admins)
+ */
+export function canViewOthersData(user: AuthUser): boolean {
+  return user.role === 'tutor' || user.role === 'admin';
+}
@@ -1,12 +1,17 @@
 /**
  * Metrics Middleware
  *
- * Provides request timing and logging for API endpoints.
+ * Provides request timing and logging for API endpoints. Request
+ * latencies are also recorded as a Prometheus histogram by method, route
+ * pattern and status (served at /metrics). The request ID is attached to
+ * the request's trace span, and logs carry the trace ID.
  *
  * @module apps/api/middleware/metrics
  */
 
 import type { Context, Next } from 'hono';
+import { routePath } from 'hono/route';
+import { getMetricsRegistry, getTracer } from '@jubilant/rag';
 
 /**
  * Request metrics collected during processing
@@ -26,6 +31,23 @@ export interface RequestMetrics {
   requestId: string;
 }
 
+/**
+ * Record a request in the HTTP latency histogram. Routes are labelled by
+ * their pattern (e.g. /api/documents/:id) to keep label values bounded.
+ */
+function observeRequest(c: Context, statusCode: number, durationMs: number): void {
+  getMetricsRegistry()
+    .histogram(
+      'http_request_duration_seconds',
+      'HTTP request latency',
+      ['method', 'route', 'status']
+    )
+    .observe(
+      { method: c.req.method, route: routePath(c, -1), status: statusCode.toString() },
+      durationMs / 1000
+    );
+}
+
 /**
  * Generate a unique request ID
  */
@@ -51,6 +73,11 @@ export async function metricsMiddleware(c: Context, next: Next): Promise<Respons
   // Add request ID to response headers
   c.header('X-Request-ID', requestId);
 
+  // Correlate logs with the trace (see tracingMiddleware)
+  const span = getTracer().activeSpan();
+  span?.setAttribute('request.id', requestId);
+  const traceId = span?.context.traceId;
+
   // Log incoming request
   const method = c.req.method;
   const path = c.req.path;
@@ -58,6 +85,7 @@ export async function metricsMiddleware(c: Context, next: Next): Promise<Respons
   console.log(JSON.stringify({
     type: 'request',
     requestId,
+    traceId,
     method,
     path,
     timestamp: new Date(startTime).toISOString(),
@@ -68,9 +96,11 @@ export async function metricsMiddleware(c: Context, next: Next): Promise<Respons
   } catch (error) {
     // Log error
     const durationMs = Date.now() - startTime;
+    observeRequest(c, 500, durationMs);
     console.error(JSON.stringify({
       type: 'error',
       requestId,
+      traceId,
       method,
       path,
       durationMs,
@@ -83,10 +113,12 @@ export async function metricsMiddleware(c: Context, next: Next): Promise<Respons
   // Log response
   const durationMs = Date.now() - startTime;
   const statusCode = c.res.status;
+  observeRequest(c, statusCode, durationMs);
 
   console.log(JSON.stringify({
     type: 'response',
     requestId,
+    traceId,
     method,
     path,
     statusCode,
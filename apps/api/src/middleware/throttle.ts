@@ -6,19 +6,47 @@
  *
  * Features:
  * - Configurable concurrency limits per endpoint
- * - Request queuing for overflow
- * - Fair queue processing (FIFO)
+ * - Per-identity token-bucket quotas, keyed by user, session or IP
+ * - Request queuing for overflow, weighted-fair across identities, with a
+ *   priority lane for tutors
  * - Graceful timeout for queued requests
+ * - Standard Retry-After and RateLimit-* response headers
  *
  * @module apps/api/middleware/throttle
  */
 
 import type { Context, Next } from 'hono';
+import { createHash } from 'node:crypto';
+import { getSessionToken, type AuthUser } from './auth';
 
 // ============================================================================
 // Configuration
 // ============================================================================
 
+/**
+ * Quota tiers. Tutors and admins share the tutor tier; requests without an
+ * authenticated user are anonymous.
+ */
+export type ThrottleTier = 'tutor' | 'student' | 'anonymous';
+
+export const THROTTLE_TIERS: readonly ThrottleTier[] = ['tutor', 'student', 'anonymous'];
+
+/**
+ * Limits applied to each identity of a tier
+ */
+export interface ThrottleTierLimits {
+  /** Token bucket size: requests an identity may burst */
+  burst: number;
+  /** Tokens added back per minute (sustained request rate) */
+  refillPerMinute: number;
+  /** Share of queue turns relative to other identities in the same lane */
+  weight: number;
+  /** Maximum requests one identity may have waiting in the queue */
+  maxQueuedPerIdentity: number;
+  /** Whether queued requests are served before the standard lane */
+  priority: boolean;
+}
+
 /**
  * Throttle configuration
  */
@@ -31,19 +59,87 @@ export interface ThrottleConfig {
   queueTimeoutMs: number;
   /** Whether to track metrics */
   trackMetrics: boolean;
+  /** Per-identity limits by tier */
+  tiers: Record<ThrottleTier, ThrottleTierLimits>;
 }
 
+const DEFAULT_TIERS: Record<ThrottleTier, ThrottleTierLimits> = {
+  tutor: { burst: 30, refillPerMinute: 60, weight: 4, maxQueuedPerIdentity: 10, priority: true },
+  student: { burst: 10, refillPerMinute: 10, weight: 1, maxQueuedPerIdentity: 3, priority: false },
+  anonymous: { burst: 5, refillPerMinute: 5, weight: 0.5, maxQueuedPerIdentity: 1, priority: false },
+};
+
 const DEFAULT_CONFIG: ThrottleConfig = {
   maxConcurrent: 10,   // 10 concurrent LLM requests
   maxQueueSize: 50,    // 50 requests in queue
   queueTimeoutMs: 30000, // 30 second queue timeout
   trackMetrics: true,
+  tiers: DEFAULT_TIERS,
 };
 
+/**
+ * Idle token buckets are pruned once more identities than this are tracked
+ */
+const MAX_TRACKED_IDENTITIES = 10000;
+
+// ============================================================================
+// Identity
+// ============================================================================
+
+/**
+ * Who a request is counted against
+ */
+export interface ThrottleIdentity {
+  /** Stable key, e.g. "user:<id>", "session:<hash>" or "ip:<address>" */
+  key: string;
+  tier: ThrottleTier;
+}
+
+/**
+ * Identify a request: the authenticated user if any, else the session
+ * token, else the client IP
+ */
+export function resolveThrottleIdentity(c: Context): ThrottleIdentity {
+  const user = c.get('authUser') as AuthUser | undefined;
+  if (user) {
+    return {
+      key: `user:${user.id}`,
+      tier: user.role === 'student' ? 'student' : 'tutor',
+    };
+  }
+
+  const token = getSessionToken(c);
+  if (token) {
+    const hash = createHash('sha256').update(token).digest('hex').slice(0, 16);
+    return { key: `session:${hash}`, tier: 'anonymous' };
+  }
+
+  const forwarded = c.req.header('X-Forwarded-For')?.split(',')[0]?.trim();
+  const ip = forwarded || c.req.header('X-Real-IP') || 'unknown';
+  return { key: `ip:${ip}`, tier: 'anonymous' };
+}
+
 // ============================================================================
 // Metrics
 // ============================================================================
 
+/**
+ * Throttle metrics for one tier
+ */
+export interface ThrottleTierMetrics {
+  totalRequests: number;
+  totalQueued: number;
+  /** Rejected because the identity's quota was used up */
+  totalRateLimited: number;
+  /** Rejected because the queue was full */
+  totalRejected: number;
+  totalTimedOut: number;
+  avgQueueWaitMs: number;
+  currentQueueSize: number;
+  /** Identities with a token bucket */
+  trackedIdentities: number;
+}
+
 /**
  * Throttle metrics for monitoring
  */
@@ -53,10 +149,26 @@ export interface ThrottleMetrics {
   totalRequests: number;
   totalQueued: number;
   totalRejected: number;
+  totalRateLimited: number;
   totalTimedOut: number;
   avgQueueWaitMs: number;
   peakConcurrent: number;
   peakQueueSize: number;
+  tiers: Record<ThrottleTier, ThrottleTierMetrics>;
+}
+
+/**
+ * Quota state of one identity, as reported in RateLimit-* headers
+ */
+export interface RateLimitState {
+  /** Bucket size */
+  limit: number;
+  /** Whole requests left */
+  remaining: number;
+  /** Seconds until the bucket is full again */
+  resetSeconds: number;
+  /** Seconds over which a full bucket refills */
+  windowSeconds: number;
 }
 
 // ============================================================================
@@ -71,28 +183,84 @@ interface QueuedRequest {
   reject: (error: Error) => void;
   enqueuedAt: number;
   timeoutId: ReturnType<typeof setTimeout>;
+  /** Identity key, or null for unidentified callers */
+  key: string | null;
+  tier: ThrottleTier | null;
+  priority: boolean;
+  /** Virtual finish time: queued requests are served lowest first */
+  finishTag: number;
+}
+
+/**
+ * Token bucket of one identity
+ */
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+  tier: ThrottleTier;
+  /** Virtual finish time of the identity's last queued request */
+  lastFinishTag: number;
+}
+
+/**
+ * Per-tier counters behind ThrottleTierMetrics
+ */
+interface TierCounters {
+  totalRequests: number;
+  totalQueued: number;
+  totalRateLimited: number;
+  totalRejected: number;
+  totalTimedOut: number;
+  totalQueueWaitMs: number;
+  processedFromQueue: number;
+}
+
+function createTierCounters(): Record<ThrottleTier, TierCounters> {
+  const counters = {} as Record<ThrottleTier, TierCounters>;
+  for (const tier of THROTTLE_TIERS) {
+    counters[tier] = {
+      totalRequests: 0,
+      totalQueued: 0,
+      totalRateLimited: 0,
+      totalRejected: 0,
+      totalTimedOut: 0,
+      totalQueueWaitMs: 0,
+      processedFromQueue: 0,
+    };
+  }
+  return counters;
 }
 
 /**
  * Request Throttle Manager
  *
- * Manages concurrent request limits with queuing for overflow.
+ * Manages concurrent request limits with queuing for overflow. Identified
+ * callers spend a token per request from their bucket, and the queue is
+ * served by weighted fair queuing (each identity's requests get virtual
+ * finish times spaced by 1/weight), so one busy identity cannot push
+ * everyone else back. Priority-lane tiers are served first. Callers that
+ * pass no identity are unmetered and queue in arrival order.
  */
 export class RequestThrottle {
   private config: ThrottleConfig;
   private activeCount = 0;
   private queue: QueuedRequest[] = [];
-  private metrics: ThrottleMetrics = {
+  private buckets = new Map<string, TokenBucket>();
+  /** Virtual time of the weighted fair queue (finish tag of the last served request) */
+  private virtualTime = 0;
+  private metrics: Omit<ThrottleMetrics, 'tiers'> = {
     currentConcurrent: 0,
     currentQueueSize: 0,
     totalRequests: 0,
     totalQueued: 0,
     totalRejected: 0,
+    totalRateLimited: 0,
     totalTimedOut: 0,
     avgQueueWaitMs: 0,
     peakConcurrent: 0,
     peakQueueSize: 0,
   };
+  private tierCounters = createTierCounters();
   private totalQueueWaitMs = 0;
   private processedFromQueue = 0;
 
@@ -103,11 +271,18 @@ export class RequestThrottle {
   /**
    * Acquire a slot for request processing
    *
+   * @param identity - Caller to count the request against (omit for unmetered callers)
    * @returns Promise that resolves when slot is available
-   * @throws Error if queue is full or timeout occurs
+   * @throws ThrottleError if the caller's quota is used up, the queue is full
+   *         or a timeout occurs
    */
-  async acquire(): Promise<void> {
+  async acquire(identity?: ThrottleIdentity): Promise<void> {
     this.metrics.totalRequests++;
+    const tier = identity?.tier ?? null;
+    const counters = tier ? this.tierCounters[tier] : null;
+    if (counters) counters.totalRequests++;
+
+    const bucket = identity ? this.takeToken(identity) : null;
 
     // If under limit, proceed immediately
     if (this.activeCount < this.config.maxConcurrent) {
@@ -116,27 +291,50 @@ export class RequestThrottle {
       return;
     }
 
+    // Check if the caller already has its share of the queue
+    if (identity && bucket) {
+      const queued = this.queue.filter((r) => r.key === identity.key).length;
+      if (queued >= this.config.tiers[identity.tier].maxQueuedPerIdentity) {
+        bucket.tokens = Math.min(bucket.tokens + 1, this.config.tiers[identity.tier].burst);
+        this.metrics.totalRateLimited++;
+        counters!.totalRateLimited++;
+        throw new ThrottleError(
+          'Too many of your requests are already waiting. Please wait for them to finish.',
+          'RATE_LIMITED',
+          this.getMetrics(),
+          this.estimateQueueWaitMs()
+        );
+      }
+    }
+
     // Check if queue is full
     if (this.queue.length >= this.config.maxQueueSize) {
+      if (identity && bucket) {
+        bucket.tokens = Math.min(bucket.tokens + 1, this.config.tiers[identity.tier].burst);
+      }
       this.metrics.totalRejected++;
+      if (counters) counters.totalRejected++;
       throw new ThrottleError(
         'Service is temporarily overloaded. Please try again later.',
         'QUEUE_FULL',
-        this.getMetrics()
+        this.getMetrics(),
+        this.estimateQueueWaitMs()
       );
     }
 
     // Add to queue
     this.metrics.totalQueued++;
+    if (counters) counters.totalQueued++;
     return new Promise<void>((resolve, reject) => {
       const enqueuedAt = Date.now();
 
       const timeoutId = setTimeout(() => {
         // Remove from queue on timeout
-        const index = this.queue.findIndex((r) => r.enqueuedAt === enqueuedAt);
+        const index = this.queue.indexOf(queuedRequest);
         if (index !== -1) {
           this.queue.splice(index, 1);
           this.metrics.totalTimedOut++;
+          if (counters) counters.totalTimedOut++;
           this.updateMetrics();
           reject(new ThrottleError(
             'Request timed out waiting in queue. Please try again.',
@@ -152,11 +350,19 @@ export class RequestThrottle {
           const waitTime = Date.now() - enqueuedAt;
           this.totalQueueWaitMs += waitTime;
           this.processedFromQueue++;
+          if (counters) {
+            counters.totalQueueWaitMs += waitTime;
+            counters.processedFromQueue++;
+          }
           resolve();
         },
         reject,
         enqueuedAt,
         timeoutId,
+        key: identity?.key ?? null,
+        tier,
+        priority: tier ? this.config.tiers[tier].priority : false,
+        finishTag: this.nextFinishTag(bucket, tier),
       };
 
       this.queue.push(queuedRequest);
@@ -171,17 +377,135 @@ export class RequestThrottle {
     this.activeCount--;
 
     // Process next queued request if any
-    if (this.queue.length > 0) {
-      const next = this.queue.shift();
-      if (next) {
-        this.activeCount++;
-        next.resolve();
-      }
+    const next = this.dequeue();
+    if (next) {
+      this.activeCount++;
+      next.resolve();
     }
 
     this.updateMetrics();
   }
 
+  /**
+   * Get the quota state of an identity
+   */
+  getRateLimit(identity: ThrottleIdentity): RateLimitState {
+    const limits = this.config.tiers[identity.tier];
+    const bucket = this.buckets.get(identity.key);
+    const tokens = bucket ? this.refill(bucket) : limits.burst;
+    const perSecond = limits.refillPerMinute / 60;
+
+    return {
+      limit: limits.burst,
+      remaining: Math.floor(tokens),
+      resetSeconds: Math.ceil((limits.burst - tokens) / perSecond),
+      windowSeconds: Math.ceil(limits.burst / perSecond),
+    };
+  }
+
+  /**
+   * Take a token from an identity's bucket
+   *
+   * @throws ThrottleError (RATE_LIMITED) if the bucket is empty
+   */
+  private takeToken(identity: ThrottleIdentity): TokenBucket {
+    const limits = this.config.tiers[identity.tier];
+    let bucket = this.buckets.get(identity.key);
+
+    if (!bucket) {
+      if (this.buckets.size >= MAX_TRACKED_IDENTITIES) this.pruneBuckets();
+      bucket = { tokens: limits.burst, updatedAt: Date.now(), tier: identity.tier, lastFinishTag: 0 };
+      this.buckets.set(identity.key, bucket);
+    }
+
+    const tokens = this.refill(bucket);
+    if (tokens < 1) {
+      this.metrics.totalRateLimited++;
+      this.tierCounters[identity.tier].totalRateLimited++;
+      throw new ThrottleError(
+        'Request limit reached. Please wait before asking again.',
+        'RATE_LIMITED',
+        this.getMetrics(),
+        ((1 - tokens) / limits.refillPerMinute) * 60000
+      );
+    }
+
+    bucket.tokens = tokens - 1;
+    return bucket;
+  }
+
+  /**
+   * Bring a bucket up to date and return its tokens
+   */
+  private refill(bucket: TokenBucket): number {
+    const limits = this.config.tiers[bucket.tier];
+    const now = Date.now();
+    const refilled = ((now - bucket.updatedAt) / 60000) * limits.refillPerMinute;
+
+    bucket.tokens = Math.min(limits.burst, bucket.tokens + refilled);
+    bucket.updatedAt = now;
+    return bucket.tokens;
+  }
+
+  /**
+   * Drop buckets that are full again and have nothing queued
+   */
+  private pruneBuckets(): void {
+    const queuedKeys = new Set(this.queue.map((r) => r.key));
+    for (const [key, bucket] of this.buckets) {
+      if (!queuedKeys.has(key) && this.refill(bucket) >= this.config.tiers[bucket.tier].burst) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Virtual finish time for a newly queued request. An identity's requests
+   * are spaced 1/weight apart starting from the current virtual time, so
+   * identities take turns in proportion to their weights.
+   */
+  private nextFinishTag(bucket: TokenBucket | null, tier: ThrottleTier | null): number {
+    if (!bucket || !tier) {
+      // Unmetered callers share one FIFO flow
+      return Math.max(this.virtualTime, ...this.queue.map((r) => r.finishTag)) + 1;
+    }
+
+    const tag = Math.max(this.virtualTime, bucket.lastFinishTag) + 1 / this.config.tiers[tier].weight;
+    bucket.lastFinishTag = tag;
+    return tag;
+  }
+
+  /**
+   * Remove and return the next request to serve: priority lane first, then
+   * the lowest finish tag (earliest arrival on ties)
+   */
+  private dequeue(): QueuedRequest | undefined {
+    let nextIndex = -1;
+    for (let i = 0; i < this.queue.length; i++) {
+      const candidate = this.queue[i];
+      const best = this.queue[nextIndex];
+      if (
+        !best ||
+        (candidate.priority && !best.priority) ||
+        (candidate.priority === best.priority && candidate.finishTag < best.finishTag)
+      ) {
+        nextIndex = i;
+      }
+    }
+
+    if (nextIndex === -1) return undefined;
+    const [next] = this.queue.splice(nextIndex, 1);
+    this.virtualTime = Math.max(this.virtualTime, next.finishTag);
+    return next;
+  }
+
+  /**
+   * Rough time until a queued request would be served
+   */
+  private estimateQueueWaitMs(): number {
+    return Math.max(1000, this.metrics.avgQueueWaitMs);
+  }
+
   /**
    * Update metrics
    */
@@ -206,7 +530,29 @@ export class RequestThrottle {
    * Get current metrics
    */
   getMetrics(): ThrottleMetrics {
-    return { ...this.metrics };
+    const tiers = {} as Record<ThrottleTier, ThrottleTierMetrics>;
+    for (const tier of THROTTLE_TIERS) {
+      const counters = this.tierCounters[tier];
+      let trackedIdentities = 0;
+      for (const bucket of this.buckets.values()) {
+        if (bucket.tier === tier) trackedIdentities++;
+      }
+
+      tiers[tier] = {
+        totalRequests: counters.totalRequests,
+        totalQueued: counters.totalQueued,
+        totalRateLimited: counters.totalRateLimited,
+        totalRejected: counters.totalRejected,
+        totalTimedOut: counters.totalTimedOut,
+        avgQueueWaitMs: counters.processedFromQueue > 0
+          ? counters.totalQueueWaitMs / counters.processedFromQueue
+          : 0,
+        currentQueueSize: this.queue.filter((r) => r.tier === tier).length,
+        trackedIdentities,
+      };
+    }
+
+    return { ...this.metrics, tiers };
   }
 
   /**
@@ -219,11 +565,13 @@ export class RequestThrottle {
       totalRequests: 0,
       totalQueued: 0,
       totalRejected: 0,
+      totalRateLimited: 0,
       totalTimedOut: 0,
       avgQueueWaitMs: 0,
       peakConcurrent: this.activeCount,
       peakQueueSize: this.queue.length,
     };
+    this.tierCounters = createTierCounters();
     this.totalQueueWaitMs = 0;
     this.processedFromQueue = 0;
   }
@@ -253,7 +601,7 @@ export class RequestThrottle {
 /**
  * Throttle error types
  */
-export type ThrottleErrorType = 'QUEUE_FULL' | 'QUEUE_TIMEOUT';
+export type ThrottleErrorType = 'RATE_LIMITED' | 'QUEUE_FULL' | 'QUEUE_TIMEOUT';
 
 /**
  * Custom error for throttle-related failures
@@ -261,12 +609,20 @@ export type ThrottleErrorType = 'QUEUE_FULL' | 'QUEUE_TIMEOUT';
 export class ThrottleError extends Error {
   public readonly errorType: ThrottleErrorType;
   public readonly metrics: ThrottleMetrics;
-
-  constructor(message: string, errorType: ThrottleErrorType, metrics: ThrottleMetrics) {
+  /** Suggested wait before retrying, in milliseconds */
+  public readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    errorType: ThrottleErrorType,
+    metrics: ThrottleMetrics,
+    retryAfterMs?: number
+  ) {
     super(message);
     this.name = 'ThrottleError';
     this.errorType = errorType;
     this.metrics = metrics;
+    this.retryAfterMs = retryAfterMs;
   }
 }
 
@@ -292,10 +648,29 @@ export const ingestionThrottle = new RequestThrottle({
   queueTimeoutMs: 300000, // 5 minute queue timeout
 });
 
+/**
+ * Global throttle instance for sandboxed code runs (each holds a CPU)
+ */
+export const runThrottle = new RequestThrottle({
+  maxConcurrent: 2,    // 2 concurrent runs
+  maxQueueSize: 20,    // Allow 20 queued runs
+  queueTimeoutMs: 60000, // 60 second queue timeout
+});
+
 // ============================================================================
 // Middleware Factory
 // ============================================================================
 
+/**
+ * Set RateLimit-* headers (IETF draft-ietf-httpapi-ratelimit-headers)
+ */
+function setRateLimitHeaders(c: Context, state: RateLimitState): void {
+  c.header('RateLimit-Limit', state.limit.toString());
+  c.header('RateLimit-Remaining', state.remaining.toString());
+  c.header('RateLimit-Reset', state.resetSeconds.toString());
+  c.header('RateLimit-Policy', `${state.limit};w=${state.windowSeconds}`);
+}
+
 /**
  * Create a throttle middleware for a specific throttle instance
  *
@@ -308,14 +683,16 @@ export function createThrottleMiddleware(
 ) {
   return async (c: Context, next: Next) => {
     const startTime = Date.now();
+    const identity = resolveThrottleIdentity(c);
 
     try {
-      await throttle.acquire();
+      await throttle.acquire(identity);
 
       // Add queue info to response headers for debugging
       const status = throttle.getStatus();
-      c.res.headers.set('X-Throttle-Active', status.active.toString());
-      c.res.headers.set('X-Throttle-Queued', status.queued.toString());
+      c.header('X-Throttle-Active', status.active.toString());
+      c.header('X-Throttle-Queued', status.queued.toString());
+      setRateLimitHeaders(c, throttle.getRateLimit(identity));
 
       try {
         await next();
@@ -333,7 +710,16 @@ export function createThrottleMiddleware(
       }
     } catch (error) {
       if (error instanceof ThrottleError) {
-        const status = error.errorType === 'QUEUE_FULL' ? 503 : 504;
+        const status =
+          error.errorType === 'RATE_LIMITED' ? 429
+          : error.errorType === 'QUEUE_FULL' ? 503
+          : 504;
+
+        setRateLimitHeaders(c, throttle.getRateLimit(identity));
+        if (error.retryAfterMs !== undefined) {
+          c.header('Retry-After', Math.max(1, Math.ceil(error.retryAfterMs / 1000)).toString());
+        }
+
         return c.json(
           {
             error: error.errorType,
@@ -366,3 +752,11 @@ export const ingestionThrottleMiddleware = createThrottleMiddleware(
   ingestionThrottle,
   'ingestion'
 );
+
+/**
+ * Pre-configured middleware for code execution endpoints
+ */
+export const runThrottleMiddleware = createThrottleMiddleware(
+  runThrottle,
+  'run'
+);
@@ -0,0 +1,56 @@
+/**
+ * Tracing Middleware
+ *
+ * Opens a server span per request, continuing the trace named by an
+ * incoming W3C `traceparent` header (sent by the web app) or starting a
+ * new one. Handlers run with the span active, so pipeline spans (retrieval
+ * stages, reranking, generation) and calls to model servers join the same
+ * trace. The trace ID is returned in a `traceparent` response header.
+ *
+ * For streamed responses the server span ends once the response starts;
+ * spans opened while streaming still belong to the trace.
+ *
+ * @module apps/api/middleware/tracing
+ */
+
+import type { Context, Next } from 'hono';
+import { routePath } from 'hono/route';
+import { getTracer, parseTraceparent } from '@jubilant/rag';
+
+/**
+ * Tracing middleware. Register before metricsMiddleware so request logs
+ * can carry the trace ID.
+ */
+export async function tracingMiddleware(c: Context, next: Next): Promise<Response | void> {
+  const tracer = getTracer();
+  const span = tracer.startSpan(`${c.req.method} ${c.req.path}`, {
+    kind: 'server',
+    parent: parseTraceparent(c.req.header('traceparent')),
+    attributes: {
+      'http.request.method': c.req.method,
+      'url.path': c.req.path,
+    },
+  });
+
+  c.header('traceparent', span.traceparent());
+
+  try {
+    await tracer.runWithSpan(span, () => next());
+
+    const statusCode = c.res.status;
+    span.setAttribute('http.response.status_code', statusCode);
+    if (statusCode >= 500) {
+      span.setStatus('error');
+    }
+  } catch (error) {
+    span.setAttribute('http.response.status_code', 500);
+    span.recordError(error);
+    throw error;
+  } finally {
+    // Name by route pattern (e.g. GET /api/documents/:id) once matched
+    const route = routePath(c, -1);
+    span.setAttribute('http.route', route);
+    span.updateName(`${c.req.method} ${route}`);
+    span.end();
+  }
+}
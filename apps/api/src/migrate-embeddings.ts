@@ -0,0 +1,208 @@
+/**
+ * Embedding Migration Script
+ *
+ * Moves the knowledge base to a new embedding model through a shadow
+ * collection:
+ *
+ *   bun run --filter '@repo/api' migrate-embeddings -- status
+ *   bun run --filter '@repo/api' migrate-embeddings -- create --provider tei --model BAAI/bge-m3 --dimensions 1024
+ *   bun run --filter '@repo/api' migrate-embeddings -- backfill 2 [--restart]
+ *   bun run --filter '@repo/api' migrate-embeddings -- compare 2 [--queries 100] [--k 10]
+ *   bun run --filter '@repo/api' migrate-embeddings -- activate 2 [--force]
+ *
+ * While a version is being built, the API and workers dual-write new
+ * ingestions to it. The backfill is resumable: rerun it after an
+ * interruption and it continues from the last completed document.
+ *
+ * @module apps/api/migrate-embeddings
+ */
+
+import { parseArgs } from 'node:util';
+import { db, postgresSchema, desc, isNotNull, initMilvusCollection, VECTOR_DIM } from '@jubilant/database';
+import { EmbeddingMigration, getModelRegistry, type EmbeddingVersion } from '@jubilant/rag';
+import { createPostgresEmbeddingVersionStore, getEmbeddingVersionTracker } from './embeddings/versions';
+
+const USAGE = `Usage: migrate-embeddings <command>
+  status
+  create --provider <name> --model <model> --dimensions <n>
+  backfill <version> [--restart]
+  compare <version> [--queries <n>] [--k <n>]
+  activate <version> [--force]`;
+
+/**
+ * Parse a positive integer argument, exiting with usage on bad input
+ */
+function positiveInt(value: string | undefined, name: string): number {
+  const parsed = parseInt(value || '', 10);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    console.error(`${name} must be a positive integer\n${USAGE}`);
+    process.exit(1);
+  }
+  return parsed;
+}
+
+function describeVersion(v: EmbeddingVersion): string {
+  const progress = v.status === 'building' || v.status === 'failed'
+    ? ` ${v.processedDocuments}/${v.totalDocuments} documents, ${v.embeddedChunks} chunks`
+    : '';
+  const error = v.error ? ` (${v.error})` : '';
+  return `v${v.version} ${v.status.padEnd(8)} ${v.collectionName} ${v.provider}/${v.model} ` +
+    `[${v.dimensions}d]${progress}${error}`;
+}
+
+/**
+ * Recent distinct user queries, for comparing versions
+ */
+async function recentQueries(limit: number): Promise<string[]> {
+  const rows = await db.postgres
+    .selectDistinctOn([postgresSchema.ragQueries.queryHash], {
+      queryHash: postgresSchema.ragQueries.queryHash,
+      queryText: postgresSchema.ragQueries.queryText,
+    })
+    .from(postgresSchema.ragQueries)
+    .where(isNotNull(postgresSchema.ragQueries.queryText))
+    .orderBy(postgresSchema.ragQueries.queryHash, desc(postgresSchema.ragQueries.timestamp))
+    .limit(limit);
+
+  return rows.map((row) => row.queryText!).filter(Boolean);
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      provider: { type: 'string' },
+      model: { type: 'string' },
+      dimensions: { type: 'string' },
+      restart: { type: 'boolean', default: false },
+      queries: { type: 'string', default: '100' },
+      k: { type: 'string', default: '10' },
+      force: { type: 'boolean', default: false },
+    },
+  });
+  const [command, versionArg] = positionals;
+
+  await db.connect();
+  try {
+    const store = createPostgresEmbeddingVersionStore();
+    const migration = new EmbeddingMigration(
+      db.milvus,
+      store,
+      getEmbeddingVersionTracker(),
+      (collectionName, dimensions) => initMilvusCollection(db.milvus, collectionName, dimensions)
+    );
+
+    switch (command) {
+      case 'status': {
+        const versions = await store.listVersions();
+        if (versions.length === 0) {
+          console.warn('No embedding versions yet; retrieval uses the default collection');
+        }
+        for (const version of versions) {
+          console.warn(describeVersion(version));
+        }
+        break;
+      }
+
+      case 'create': {
+        if (!values.provider || !values.model) {
+          console.error(USAGE);
+          process.exitCode = 1;
+          return;
+        }
+        const dimensions = positiveInt(values.dimensions, '--dimensions');
+        const registry = getModelRegistry();
+        if (!registry.getProvider(values.provider)?.capabilities.includes('embed')) {
+          console.error(`Provider "${values.provider}" is not configured or cannot embed`);
+          process.exitCode = 1;
+          return;
+        }
+
+        // The existing collection becomes version 1, with the current model
+        const current = registry.require('embedding');
+        await migration.bootstrap({
+          provider: current.provider,
+          model: current.model,
+          dimensions: current.dimensions ?? VECTOR_DIM,
+        });
+
+        const version = await migration.createShadowVersion({
+          provider: values.provider,
+          model: values.model,
+          dimensions,
+        });
+        console.warn(`Created ${describeVersion(version)}`);
+        console.warn(`Run "migrate-embeddings backfill ${version.version}" to re-embed existing chunks`);
+        break;
+      }
+
+      case 'backfill': {
+        const version = positiveInt(versionArg, 'version');
+        const result = await migration.backfill(version, {
+          restart: values.restart,
+          onProgress: ({ processedDocuments, totalDocuments, embeddedChunks }) => {
+            if (processedDocuments % 10 === 0 || processedDocuments === totalDocuments) {
+              console.warn(`${processedDocuments}/${totalDocuments} documents, ${embeddedChunks} chunks`);
+            }
+          },
+        });
+        console.warn(`Backfill complete: ${describeVersion(result)}`);
+        break;
+      }
+
+      case 'compare': {
+        const version = positiveInt(versionArg, 'version');
+        const k = positiveInt(values.k, '--k');
+        const queries = await recentQueries(positiveInt(values.queries, '--queries'));
+        if (queries.length === 0) {
+          console.error('No recorded queries to compare with');
+          process.exitCode = 1;
+          return;
+        }
+
+        const comparison = await migration.compare(version, queries, k);
+        console.warn(
+          `v${comparison.baselineVersion ?? 'default'} vs v${comparison.candidateVersion} ` +
+          `over ${comparison.queryCount} queries (top ${k})`
+        );
+        console.warn(`  mean overlap:         ${(comparison.meanOverlap * 100).toFixed(1)}%`);
+        console.warn(`  mean top score:       ${comparison.meanBaselineTopScore.toFixed(3)} -> ` +
+          `${comparison.meanCandidateTopScore.toFixed(3)}`);
+        console.warn('  most changed queries:');
+        for (const q of comparison.queries.slice(0, 10)) {
+          console.warn(`    ${(q.overlap * 100).toFixed(0).padStart(3)}%  ${q.query}`);
+        }
+        break;
+      }
+
+      case 'activate': {
+        const version = positiveInt(versionArg, 'version');
+        const counts = await migration.countChunks(version);
+        if (counts.active !== counts.candidate && !values.force) {
+          console.error(
+            `Version ${version} has ${counts.candidate} chunks but the active collection has ` +
+            `${counts.active}; rerun the backfill, or pass --force to activate anyway`
+          );
+          process.exitCode = 1;
+          return;
+        }
+
+        const result = await migration.activate(version);
+        console.warn(`Activated ${describeVersion(result)}`);
+        console.warn('Running API and worker processes switch within EMBEDDING_VERSION_REFRESH_MS');
+        break;
+      }
+
+      default:
+        console.error(USAGE);
+        process.exitCode = 1;
+    }
+  } finally {
+    await db.disconnect();
+  }
+}
+
+main().catch((error) => {
+  console.error('Embedding migration failed:', error);
+  process.exit(1);
+});
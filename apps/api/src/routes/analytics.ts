@@ -0,0 +1,643 @@
+/**
+ * Analytics Routes
+ *
+ * Teacher-facing analytics over logged queries:
+ * - GET /api/analytics/hotspots - Concepts students struggle with (FR-T-01)
+ * - GET /api/analytics/hotspots/:concept/queries - Anonymized queries for a concept
+ * - GET /api/analytics/coverage - Knowledge graph topic coverage report (FR-T-02)
+ * - GET /api/analytics/trends - Query volume, breakdowns and latency percentiles over time
+ *
+ * Queries are attributed to the knowledge graph concepts discussed by the
+ * chunks they retrieved (query_concepts), then ranked by low feedback
+ * ratings, insufficient-confidence answers and repeated questions.
+ *
+ * @module apps/api/routes/analytics
+ */
+
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import { db, sql } from '@jubilant/database';
+import {
+  rankHotspots,
+  fetchConceptGraph,
+  countConceptMentions,
+  buildCoverageReport,
+  LOW_RATING_THRESHOLD,
+  type ConceptQueryStats,
+  type ErrorResponse,
+} from '@jubilant/rag';
+
+const analytics = new Hono();
+
+// ============================================================================
+// Validation Schemas
+// ============================================================================
+
+const hotspotsQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  minQueries: z.coerce.number().int().min(1).default(3),
+});
+
+const conceptQueriesSchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+const coverageQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+  minChunks: z.coerce.number().int().min(1).max(50).default(2),
+  /** Restrict the concept list to gaps (asked about, no chunks) */
+  gapsOnly: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform((v) => v === 'true'),
+});
+
+const trendsQuerySchema = z
+  .object({
+    interval: z.enum(['hour', 'day', 'week']).default('day'),
+    days: z.coerce.number().int().min(1).max(365).default(7),
+  })
+  .refine((q) => q.interval !== 'hour' || q.days <= 14, {
+    message: 'Hourly buckets are limited to 14 days',
+    path: ['days'],
+  });
+
+/**
+ * Breakdown dimensions for trends, mapped to rag_queries columns
+ */
+const TREND_DIMENSIONS = {
+  strategy: { column: 'strategy_used', fallback: 'unknown' },
+  confidence: { column: 'confidence', fallback: 'unknown' },
+  topic: { column: 'topic_filter', fallback: '(none)' },
+} as const;
+
+type TrendDimension = keyof typeof TREND_DIMENSIONS;
+
+/**
+ * Latency percentiles (ms); null when a bucket has no samples
+ */
+interface LatencyPercentiles {
+  p50: number | null;
+  p90: number | null;
+  p95: number | null;
+  p99: number | null;
+}
+
+/**
+ * Maximum number of recent queries scanned for concept mentions
+ */
+const COVERAGE_QUERY_SAMPLE = 5000;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Start of the analysis window
+ */
+function windowStart(days: number): Date {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Aggregate per-concept query statistics within the window
+ */
+async function getConceptStats(
+  since: Date,
+  minQueries: number
+): Promise<ConceptQueryStats[]> {
+  const rows = await db.postgres.execute<{
+    concept: string;
+    query_count: number;
+    rated_count: number;
+    low_rating_count: number;
+    avg_rating: number | null;
+    insufficient_count: number;
+    repeat_count: number;
+    avg_rerank_top_score: number | null;
+  }>(sql`
+    WITH concept_queries AS (
+      SELECT
+        qc.concept_name,
+        rq.query_hash,
+        rq.confidence,
+        f.rating,
+        rm.rerank_top_score,
+        rm.rerank_scorer,
+        ROW_NUMBER() OVER (
+          PARTITION BY qc.concept_name, rq.query_hash
+          ORDER BY rq.timestamp
+        ) AS hash_seq
+      FROM query_concepts qc
+      JOIN rag_queries rq ON rq.id = qc.query_id
+      LEFT JOIN feedback_events f ON f.query_id = rq.id
+      LEFT JOIN retrieval_metrics rm ON rm.query_id = rq.id
+      WHERE rq.timestamp >= ${since}
+    )
+    SELECT
+      concept_name AS concept,
+      COUNT(*)::int AS query_count,
+      COUNT(rating)::int AS rated_count,
+      COUNT(*) FILTER (WHERE rating <= ${LOW_RATING_THRESHOLD})::int AS low_rating_count,
+      AVG(rating)::float AS avg_rating,
+      COUNT(*) FILTER (WHERE confidence = 'insufficient')::int AS insufficient_count,
+      COUNT(*) FILTER (WHERE query_hash IS NOT NULL AND hash_seq > 1)::int AS repeat_count,
+      -- Local and RRF scores are on other scales; average reranker scores only
+      AVG(rerank_top_score) FILTER (
+        WHERE rerank_scorer IS NULL OR rerank_scorer IN ('reranker', 'secondary_reranker')
+      )::float AS avg_rerank_top_score
+    FROM concept_queries
+    GROUP BY concept_name
+    HAVING COUNT(*) >= ${minQueries}
+  `);
+
+  return rows.map((row) => ({
+    concept: row.concept,
+    queryCount: row.query_count,
+    ratedCount: row.rated_count,
+    lowRatingCount: row.low_rating_count,
+    avgRating: row.avg_rating,
+    insufficientCount: row.insufficient_count,
+    repeatCount: row.repeat_count,
+    avgRerankTopScore: row.avg_rerank_top_score,
+  }));
+}
+
+/**
+ * Daily query and flagged-query counts per concept, for the heatmap.
+ * A query is flagged when it got a low rating or an insufficient answer.
+ */
+async function getConceptTimeline(
+  concepts: string[],
+  since: Date
+): Promise<Map<string, Array<{ date: string; queries: number; flagged: number }>>> {
+  const timeline = new Map<string, Array<{ date: string; queries: number; flagged: number }>>();
+  if (concepts.length === 0) return timeline;
+
+  const rows = await db.postgres.execute<{
+    concept: string;
+    day: string;
+    queries: number;
+    flagged: number;
+  }>(sql`
+    SELECT
+      qc.concept_name AS concept,
+      TO_CHAR(DATE_TRUNC('day', rq.timestamp), 'YYYY-MM-DD') AS day,
+      COUNT(*)::int AS queries,
+      COUNT(*) FILTER (
+        WHERE rq.confidence = 'insufficient' OR f.rating <= ${LOW_RATING_THRESHOLD}
+      )::int AS flagged
+    FROM query_concepts qc
+    JOIN rag_queries rq ON rq.id = qc.query_id
+    LEFT JOIN feedback_events f ON f.query_id = rq.id
+    WHERE rq.timestamp >= ${since}
+      AND qc.concept_name IN ${concepts}
+    GROUP BY 1, 2
+    ORDER BY 2
+  `);
+
+  for (const row of rows) {
+    const days = timeline.get(row.concept) ?? [];
+    days.push({ date: row.day, queries: row.queries, flagged: row.flagged });
+    timeline.set(row.concept, days);
+  }
+
+  return timeline;
+}
+
+/**
+ * Round a nullable percentile to whole milliseconds
+ */
+function roundMs(value: number | null): number | null {
+  return value === null ? null : Math.round(value);
+}
+
+/**
+ * Query counts per bucket for one breakdown dimension
+ */
+async function getTrendBreakdown(
+  dimension: TrendDimension,
+  interval: string,
+  since: Date
+): Promise<Map<string, Record<string, number>>> {
+  const { column, fallback } = TREND_DIMENSIONS[dimension];
+
+  const rows = await db.postgres.execute<{ bucket: Date; key: string; count: number }>(sql`
+    SELECT
+      DATE_TRUNC(${interval}, timestamp) AS bucket,
+      COALESCE(${sql.raw(column)}, ${fallback}) AS key,
+      COUNT(*)::int AS count
+    FROM rag_queries
+    WHERE timestamp >= ${since}
+    GROUP BY 1, 2
+  `);
+
+  const byBucket = new Map<string, Record<string, number>>();
+  for (const row of rows) {
+    const bucket = new Date(row.bucket).toISOString();
+    const counts = byBucket.get(bucket) ?? {};
+    counts[row.key] = row.count;
+    byBucket.set(bucket, counts);
+  }
+
+  return byBucket;
+}
+
+/**
+ * Sum per-bucket breakdown counts into window totals
+ */
+function sumBreakdown(byBucket: Map<string, Record<string, number>>): Record<string, number> {
+  const totals: Record<string, number> = {};
+  for (const counts of byBucket.values()) {
+    for (const [key, count] of Object.entries(counts)) {
+      totals[key] = (totals[key] ?? 0) + count;
+    }
+  }
+  return totals;
+}
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+/**
+ * GET /api/analytics/hotspots
+ *
+ * Rank concepts by struggle signals over the last `days` days.
+ * Each hotspot includes a daily timeline for heatmap rendering.
+ */
+analytics.get(
+  '/hotspots',
+  zValidator('query', hotspotsQuerySchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: ErrorResponse = {
+        error: 'VALIDATION_ERROR',
+        message: 'Invalid hotspots request',
+        details: result.error.flatten().fieldErrors,
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  async (c) => {
+    const { days, limit, minQueries } = c.req.valid('query');
+    const since = windowStart(days);
+
+    try {
+      const stats = await getConceptStats(since, minQueries);
+      const hotspots = rankHotspots(stats).slice(0, limit);
+      const timeline = await getConceptTimeline(
+        hotspots.map((h) => h.concept),
+        since
+      );
+
+      return c.json(
+        {
+          window: { days, since: since.toISOString() },
+          hotspots: hotspots.map((h) => ({
+            ...h,
+            timeline: timeline.get(h.concept) ?? [],
+          })),
+        },
+        200
+      );
+    } catch (error) {
+      console.error('Hotspot analytics error:', error);
+
+      const errorResponse: ErrorResponse = {
+        error: 'ANALYTICS_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to compute hotspots',
+      };
+
+      return c.json(errorResponse, 500);
+    }
+  }
+);
+
+/**
+ * GET /api/analytics/hotspots/:concept/queries
+ *
+ * Drill down into the questions asked about a concept.
+ * Queries are grouped by normalized hash and carry no session or user data.
+ */
+analytics.get(
+  '/hotspots/:concept/queries',
+  zValidator('query', conceptQueriesSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: ErrorResponse = {
+        error: 'VALIDATION_ERROR',
+        message: 'Invalid drill-down request',
+        details: result.error.flatten().fieldErrors,
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  async (c) => {
+    const concept = c.req.param('concept');
+    const { days, limit } = c.req.valid('query');
+    const since = windowStart(days);
+
+    try {
+      const rows = await db.postgres.execute<{
+        query_text: string | null;
+        times_asked: number;
+        last_asked_at: string;
+        avg_rating: number | null;
+        low_rating_count: number;
+        insufficient_count: number;
+      }>(sql`
+        SELECT
+          (ARRAY_AGG(rq.query_text ORDER BY rq.timestamp DESC))[1] AS query_text,
+          COUNT(*)::int AS times_asked,
+          MAX(rq.timestamp) AS last_asked_at,
+          AVG(f.rating)::float AS avg_rating,
+          COUNT(*) FILTER (WHERE f.rating <= ${LOW_RATING_THRESHOLD})::int AS low_rating_count,
+          COUNT(*) FILTER (WHERE rq.confidence = 'insufficient')::int AS insufficient_count
+        FROM query_concepts qc
+        JOIN rag_queries rq ON rq.id = qc.query_id
+        LEFT JOIN feedback_events f ON f.query_id = rq.id
+        WHERE qc.concept_name = ${concept}
+          AND rq.timestamp >= ${since}
+        GROUP BY COALESCE(rq.query_hash, rq.id::text)
+        ORDER BY low_rating_count + insufficient_count DESC, times_asked DESC, last_asked_at DESC
+        LIMIT ${limit}
+      `);
+
+      return c.json(
+        {
+          concept,
+          window: { days, since: since.toISOString() },
+          queries: rows.map((row) => ({
+            queryText: row.query_text ?? '(not recorded)',
+            timesAsked: row.times_asked,
+            lastAskedAt: row.last_asked_at,
+            avgRating: row.avg_rating,
+            lowRatingCount: row.low_rating_count,
+            insufficientCount: row.insufficient_count,
+          })),
+        },
+        200
+      );
+    } catch (error) {
+      console.error('Hotspot drill-down error:', error);
+
+      const errorResponse: ErrorResponse = {
+        error: 'ANALYTICS_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to load concept queries',
+      };
+
+      return c.json(errorResponse, 500);
+    }
+  }
+);
+
+/**
+ * GET /api/analytics/coverage
+ *
+ * Report, per concept, the chunks and documents supporting it, how often
+ * students ask about it, and its place in the PART_OF hierarchy.
+ * Concepts that students mention but no chunk discusses are flagged as gaps.
+ */
+analytics.get(
+  '/coverage',
+  zValidator('query', coverageQuerySchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: ErrorResponse = {
+        error: 'VALIDATION_ERROR',
+        message: 'Invalid coverage request',
+        details: result.error.flatten().fieldErrors,
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  async (c) => {
+    const { days, minChunks, gapsOnly } = c.req.valid('query');
+    const since = windowStart(days);
+
+    try {
+      const [nodes, queryRows, retrievalRows] = await Promise.all([
+        fetchConceptGraph(db.neo4j),
+        db.postgres.execute<{ query_text: string }>(sql`
+          SELECT query_text
+          FROM rag_queries
+          WHERE timestamp >= ${since} AND query_text IS NOT NULL
+          ORDER BY timestamp DESC
+          LIMIT ${COVERAGE_QUERY_SAMPLE}
+        `),
+        db.postgres.execute<{ concept: string; query_count: number }>(sql`
+          SELECT qc.concept_name AS concept, COUNT(DISTINCT qc.query_id)::int AS query_count
+          FROM query_concepts qc
+          JOIN rag_queries rq ON rq.id = qc.query_id
+          WHERE rq.timestamp >= ${since}
+          GROUP BY qc.concept_name
+        `),
+      ]);
+
+      const mentions = countConceptMentions(
+        queryRows.map((row) => row.query_text),
+        nodes
+      );
+      const retrievals = new Map(
+        retrievalRows.map((row) => [row.concept, row.query_count])
+      );
+
+      const report = buildCoverageReport(nodes, mentions, retrievals, { minChunks });
+
+      return c.json(
+        {
+          window: {
+            days,
+            since: since.toISOString(),
+            queriesScanned: queryRows.length,
+          },
+          ...report,
+          concepts: gapsOnly ? report.gaps : report.concepts,
+        },
+        200
+      );
+    } catch (error) {
+      console.error('Coverage report error:', error);
+
+      const errorResponse: ErrorResponse = {
+        error: 'ANALYTICS_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to build coverage report',
+      };
+
+      return c.json(errorResponse, 500);
+    }
+  }
+);
+
+/**
+ * GET /api/analytics/trends
+ *
+ * Query volume over time in hourly, daily or weekly buckets, broken down by
+ * retrieval strategy, confidence level and topic filter, with latency
+ * percentiles for total execution time and (streaming) first-token latency.
+ * Empty buckets are included so charts have a continuous time axis.
+ */
+analytics.get(
+  '/trends',
+  zValidator('query', trendsQuerySchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: ErrorResponse = {
+        error: 'VALIDATION_ERROR',
+        message: 'Invalid trends request',
+        details: result.error.flatten().fieldErrors,
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  async (c) => {
+    const { interval, days } = c.req.valid('query');
+    const since = windowStart(days);
+    const step = `1 ${interval}`;
+
+    try {
+      const [bucketRows, totalRows, byStrategy, byConfidence, byTopic] = await Promise.all([
+        db.postgres.execute<{
+          bucket: Date;
+          query_count: number;
+          streamed_count: number;
+          latency_p50: number | null;
+          latency_p90: number | null;
+          latency_p95: number | null;
+          latency_p99: number | null;
+          ftl_p50: number | null;
+          ftl_p90: number | null;
+          ftl_p95: number | null;
+          ftl_p99: number | null;
+        }>(sql`
+          WITH buckets AS (
+            SELECT GENERATE_SERIES(
+              DATE_TRUNC(${interval}, ${since}::timestamp),
+              DATE_TRUNC(${interval}, NOW()::timestamp),
+              ${step}::interval
+            ) AS bucket
+          ),
+          q AS (
+            SELECT
+              DATE_TRUNC(${interval}, timestamp) AS bucket,
+              execution_time_ms,
+              first_token_latency_ms
+            FROM rag_queries
+            WHERE timestamp >= ${since}
+          )
+          SELECT
+            b.bucket,
+            COUNT(q.bucket)::int AS query_count,
+            COUNT(q.first_token_latency_ms)::int AS streamed_count,
+            PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY q.execution_time_ms) AS latency_p50,
+            PERCENTILE_CONT(0.9) WITHIN GROUP (ORDER BY q.execution_time_ms) AS latency_p90,
+            PERCENTILE_CONT(0.95) WITHIN GROUP (ORDER BY q.execution_time_ms) AS latency_p95,
+            PERCENTILE_CONT(0.99) WITHIN GROUP (ORDER BY q.execution_time_ms) AS latency_p99,
+            PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY q.first_token_latency_ms) AS ftl_p50,
+            PERCENTILE_CONT(0.9) WITHIN GROUP (ORDER BY q.first_token_latency_ms) AS ftl_p90,
+            PERCENTILE_CONT(0.95) WITHIN GROUP (ORDER BY q.first_token_latency_ms) AS ftl_p95,
+            PERCENTILE_CONT(0.99) WITHIN GROUP (ORDER BY q.first_token_latency_ms) AS ftl_p99
+          FROM buckets b
+          LEFT JOIN q ON q.bucket = b.bucket
+          GROUP BY b.bucket
+          ORDER BY b.bucket
+        `),
+        db.postgres.execute<{
+          query_count: number;
+          latency_p50: number | null;
+          latency_p90: number | null;
+          latency_p95: number | null;
+          latency_p99: number | null;
+          ftl_p50: number | null;
+          ftl_p90: number | null;
+          ftl_p95: number | null;
+          ftl_p99: number | null;
+        }>(sql`
+          SELECT
+            COUNT(*)::int AS query_count,
+            PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY execution_time_ms) AS latency_p50,
+            PERCENTILE_CONT(0.9) WITHIN GROUP (ORDER BY execution_time_ms) AS latency_p90,
+            PERCENTILE_CONT(0.95) WITHIN GROUP (ORDER BY execution_time_ms) AS latency_p95,
+            PERCENTILE_CONT(0.99) WITHIN GROUP (ORDER BY execution_time_ms) AS latency_p99,
+            PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY first_token_latency_ms) AS ftl_p50,
+            PERCENTILE_CONT(0.9) WITHIN GROUP (ORDER BY first_token_latency_ms) AS ftl_p90,
+            PERCENTILE_CONT(0.95) WITHIN GROUP (ORDER BY first_token_latency_ms) AS ftl_p95,
+            PERCENTILE_CONT(0.99) WITHIN GROUP (ORDER BY first_token_latency_ms) AS ftl_p99
+          FROM rag_queries
+          WHERE timestamp >= ${since}
+        `),
+        getTrendBreakdown('strategy', interval, since),
+        getTrendBreakdown('confidence', interval, since),
+        getTrendBreakdown('topic', interval, since),
+      ]);
+
+      const toLatency = (row: {
+        latency_p50: number | null;
+        latency_p90: number | null;
+        latency_p95: number | null;
+        latency_p99: number | null;
+      }): LatencyPercentiles => ({
+        p50: roundMs(row.latency_p50),
+        p90: roundMs(row.latency_p90),
+        p95: roundMs(row.latency_p95),
+        p99: roundMs(row.latency_p99),
+      });
+
+      const toFirstTokenLatency = (row: {
+        ftl_p50: number | null;
+        ftl_p90: number | null;
+        ftl_p95: number | null;
+        ftl_p99: number | null;
+      }): LatencyPercentiles => ({
+        p50: roundMs(row.ftl_p50),
+        p90: roundMs(row.ftl_p90),
+        p95: roundMs(row.ftl_p95),
+        p99: roundMs(row.ftl_p99),
+      });
+
+      const buckets = bucketRows.map((row) => {
+        const start = new Date(row.bucket).toISOString();
+        return {
+          start,
+          queryCount: row.query_count,
+          streamedCount: row.streamed_count,
+          latencyMs: toLatency(row),
+          firstTokenLatencyMs: toFirstTokenLatency(row),
+          byStrategy: byStrategy.get(start) ?? {},
+          byConfidence: byConfidence.get(start) ?? {},
+          byTopic: byTopic.get(start) ?? {},
+        };
+      });
+
+      // Aggregate without GROUP BY always yields exactly one row
+      const totals = totalRows[0];
+
+      return c.json(
+        {
+          window: { interval, days, since: since.toISOString() },
+          buckets,
+          totals: {
+            queryCount: totals.query_count,
+            latencyMs: toLatency(totals),
+            firstTokenLatencyMs: toFirstTokenLatency(totals),
+            byStrategy: sumBreakdown(byStrategy),
+            byConfidence: sumBreakdown(byConfidence),
+            byTopic: sumBreakdown(byTopic),
+          },
+        },
+        200
+      );
+    } catch (error) {
+      console.error('Trends analytics error:', error);
+
+      const errorResponse: ErrorResponse = {
+        error: 'ANALYTICS_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to compute trends',
+      };
+
+      return c.json(errorResponse, 500);
+    }
+  }
+);
+
+export default analytics;
@@ -0,0 +1,132 @@
+/**
+ * Authentication Routes
+ *
+ * Endpoints for signing in and out:
+ * - POST /api/auth/login - Sign in with email and password
+ * - POST /api/auth/logout - End the current session
+ * - GET /api/auth/me - Get the signed-in user
+ *
+ * Login sets the session token in an HttpOnly cookie for the web app and
+ * also returns it for API clients (sent as a Bearer token).
+ *
+ * @module apps/api/routes/auth
+ */
+
+import { Hono } from 'hono';
+import { setCookie, deleteCookie } from 'hono/cookie';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import type { ErrorResponse } from '@jubilant/rag';
+import { hashPassword, verifyPassword } from '../auth/passwords';
+import { SESSION_COOKIE } from '../auth/tokens';
+import {
+  authenticate,
+  createSession,
+  findUserByEmail,
+  revokeSession,
+  toPublicUser,
+} from '../auth/sessions';
+
+const auth = new Hono();
+
+// ============================================================================
+// Validation Schemas
+// ============================================================================
+
+const loginSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  password: z.string().min(1, 'Password is required').max(1000),
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Hash compared against when the email is unknown, so failed logins take
+ * the same time whether or not the account exists
+ */
+const dummyHash = hashPassword(crypto.randomUUID());
+
+const cookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'Lax',
+  path: '/',
+} as const;
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+/**
+ * POST /api/auth/login
+ *
+ * Sign in. Unknown emails, wrong passwords and disabled accounts all get
+ * the same 401 response.
+ */
+auth.post(
+  '/login',
+  zValidator('json', loginSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: ErrorResponse = {
+        error: 'VALIDATION_ERROR',
+        message: 'Invalid login request',
+        details: result.error.flatten().fieldErrors,
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  async (c) => {
+    const body = c.req.valid('json');
+
+    try {
+      const user = await findUserByEmail(body.email);
+      const valid = await verifyPassword(body.password, user?.passwordHash ?? (await dummyHash));
+
+      if (!user || !valid || user.disabled) {
+        const errorResponse: ErrorResponse = {
+          error: 'INVALID_CREDENTIALS',
+          message: 'Incorrect email or password',
+        };
+        return c.json(errorResponse, 401);
+      }
+
+      const { token, expiresAt } = await createSession(user, c.req.header('User-Agent'));
+      setCookie(c, SESSION_COOKIE, token, { ...cookieOptions, expires: expiresAt });
+
+      return c.json({ user: toPublicUser(user), token, expiresAt }, 200);
+    } catch (error) {
+      console.error('Login error:', error);
+
+      const errorResponse: ErrorResponse = {
+        error: 'LOGIN_ERROR',
+        message: 'Failed to sign in',
+      };
+      return c.json(errorResponse, 500);
+    }
+  }
+);
+
+/**
+ * POST /api/auth/logout
+ *
+ * Revoke the current session and clear the session cookie.
+ */
+auth.post('/logout', authenticate, async (c) => {
+  await revokeSession(c.get('authUser').sessionId);
+  deleteCookie(c, SESSION_COOKIE, cookieOptions);
+  return c.json({ success: true }, 200);
+});
+
+/**
+ * GET /api/auth/me
+ *
+ * Get the signed-in user.
+ */
+auth.get('/me', authenticate, (c) => {
+  const { id, name, email, role } = c.get('authUser');
+  return c.json({ user: { id, name, email, role } }, 200);
+});
+
+export default auth;
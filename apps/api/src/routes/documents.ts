@@ -0,0 +1,372 @@
+/**
+ * Document Routes
+ *
+ * Management of ingested documents:
+ * - GET /api/documents - List documents with filtering and pagination
+ * - GET /api/documents/:id - Document details with chunks, triples and job history
+ * - PATCH /api/documents/:id - Archive or restore a document
+ * - DELETE /api/documents/:id - Delete a document from all stores
+ *
+ * Archived documents stay in the stores but are excluded from vector and
+ * graph retrieval; deletion removes vectors, chunk nodes, triples and the
+ * Postgres rows.
+ *
+ * @module apps/api/routes/documents
+ */
+
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import { db, postgresSchema, eq, and, or, ilike, asc, desc, sql } from '@jubilant/database';
+import { createChunkStorageManager, type ErrorResponse } from '@jubilant/rag';
+import { getEmbeddingVersionTracker } from '../embeddings/versions';
+import { getAnswerCache } from '../cache/answers';
+import { findActiveJob } from '../ingestion/operations';
+
+const documents = new Hono();
+
+// ============================================================================
+// Validation Schemas
+// ============================================================================
+
+const DOCUMENT_STATUSES = ['pending', 'processing', 'active', 'failed', 'archived'] as const;
+
+const SORT_COLUMNS = {
+  createdAt: postgresSchema.documents.createdAt,
+  updatedAt: postgresSchema.documents.updatedAt,
+  title: postgresSchema.documents.title,
+} as const;
+
+const listQuerySchema = z.object({
+  status: z.enum(DOCUMENT_STATUSES).optional(),
+  format: z.string().max(32).optional(),
+  /** Case-insensitive match on title or URL */
+  search: z.string().max(200).optional(),
+  sort: z.enum(['createdAt', 'updatedAt', 'title']).default('createdAt'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+const updateSchema = z.object({
+  archived: z.boolean(),
+});
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+let storage: ReturnType<typeof createChunkStorageManager> | null = null;
+
+/**
+ * Get or create the chunk storage manager
+ */
+function getStorage() {
+  if (!storage) {
+    if (!db.isConnected) {
+      throw new Error('Database not connected. Call db.connect() first.');
+    }
+    storage = createChunkStorageManager(db.milvus, db.neo4j);
+    storage.setVersionTracker(getEmbeddingVersionTracker());
+  }
+  return storage;
+}
+
+/**
+ * Load a document row by ID
+ */
+async function findDocument(id: string) {
+  const rows = await db.postgres
+    .select()
+    .from(postgresSchema.documents)
+    .where(eq(postgresSchema.documents.id, id))
+    .limit(1);
+
+  return rows[0] ?? null;
+}
+
+/**
+ * Validate a document ID path parameter, returning an error response if invalid
+ */
+function invalidIdResponse(id: string): ErrorResponse | null {
+  if (uuidRegex.test(id)) return null;
+  return {
+    error: 'INVALID_DOCUMENT_ID',
+    message: 'Document ID must be a valid UUID',
+  };
+}
+
+/**
+ * Error response for an unknown document
+ */
+function notFoundResponse(id: string): ErrorResponse {
+  return {
+    error: 'DOCUMENT_NOT_FOUND',
+    message: `Document ${id} not found`,
+  };
+}
+
+/**
+ * Error response for a document with a queued or running ingestion job
+ */
+function jobInProgressResponse(documentId: string, jobId: string): ErrorResponse {
+  return {
+    error: 'INGESTION_IN_PROGRESS',
+    message: `Document ${documentId} is being ingested; try again once the job finishes`,
+    details: { documentId, jobId },
+  };
+}
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+/**
+ * GET /api/documents
+ *
+ * List documents, newest first by default.
+ */
+documents.get(
+  '/',
+  zValidator('query', listQuerySchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: ErrorResponse = {
+        error: 'VALIDATION_ERROR',
+        message: 'Invalid document list request',
+        details: result.error.flatten().fieldErrors,
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  async (c) => {
+    const { status, format, search, sort, order, page, pageSize } = c.req.valid('query');
+    const table = postgresSchema.documents;
+
+    const pattern = search ? `%${search.replace(/[\\%_]/g, '\\$&')}%` : null;
+    const where = and(
+      status ? eq(table.status, status) : undefined,
+      format ? eq(table.format, format) : undefined,
+      pattern ? or(ilike(table.title, pattern), ilike(table.url, pattern)) : undefined
+    );
+
+    try {
+      const sortColumn = SORT_COLUMNS[sort];
+      const [rows, totals] = await Promise.all([
+        db.postgres
+          .select()
+          .from(table)
+          .where(where)
+          .orderBy(order === 'asc' ? asc(sortColumn) : desc(sortColumn))
+          .limit(pageSize)
+          .offset((page - 1) * pageSize),
+        db.postgres
+          .select({ total: sql<number>`count(*)::int` })
+          .from(table)
+          .where(where),
+      ]);
+
+      const total = totals[0]?.total ?? 0;
+
+      return c.json(
+        {
+          documents: rows,
+          pagination: {
+            page,
+            pageSize,
+            total,
+            totalPages: Math.ceil(total / pageSize),
+          },
+        },
+        200
+      );
+    } catch (error) {
+      console.error('Document list error:', error);
+
+      const errorResponse: ErrorResponse = {
+        error: 'DOCUMENT_LIST_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to list documents',
+      };
+
+      return c.json(errorResponse, 500);
+    }
+  }
+);
+
+/**
+ * GET /api/documents/:id
+ *
+ * Document details: stored chunks, extracted triples and ingestion jobs.
+ */
+documents.get('/:id', async (c) => {
+  const id = c.req.param('id');
+
+  const invalid = invalidIdResponse(id);
+  if (invalid) return c.json(invalid, 400);
+
+  try {
+    const document = await findDocument(id);
+    if (!document) {
+      return c.json(notFoundResponse(id), 404);
+    }
+
+    const neo4jStorage = getStorage().getNeo4jStorage();
+    const [chunks, triples, jobs] = await Promise.all([
+      neo4jStorage.listDocumentChunks(document.url),
+      neo4jStorage.listDocumentTriples(document.url),
+      db.postgres
+        .select({
+          id: postgresSchema.ingestionJobs.id,
+          status: postgresSchema.ingestionJobs.status,
+          currentStep: postgresSchema.ingestionJobs.currentStep,
+          progress: postgresSchema.ingestionJobs.progress,
+          totalChunks: postgresSchema.ingestionJobs.totalChunks,
+          processedChunks: postgresSchema.ingestionJobs.processedChunks,
+          attempts: postgresSchema.ingestionJobs.attempts,
+          errorMessage: postgresSchema.ingestionJobs.errorMessage,
+          startedAt: postgresSchema.ingestionJobs.startedAt,
+          completedAt: postgresSchema.ingestionJobs.completedAt,
+          createdAt: postgresSchema.ingestionJobs.createdAt,
+        })
+        .from(postgresSchema.ingestionJobs)
+        .where(eq(postgresSchema.ingestionJobs.documentId, id))
+        .orderBy(desc(postgresSchema.ingestionJobs.createdAt)),
+    ]);
+
+    return c.json({ document, chunks, triples, jobs }, 200);
+  } catch (error) {
+    console.error('Document detail error:', error);
+
+    const errorResponse: ErrorResponse = {
+      error: 'DOCUMENT_DETAIL_ERROR',
+      message: error instanceof Error ? error.message : 'Failed to load document',
+    };
+
+    return c.json(errorResponse, 500);
+  }
+});
+
+/**
+ * PATCH /api/documents/:id
+ *
+ * Archive an active document, or restore an archived one.
+ */
+documents.patch(
+  '/:id',
+  zValidator('json', updateSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: ErrorResponse = {
+        error: 'VALIDATION_ERROR',
+        message: 'Invalid document update',
+        details: result.error.flatten().fieldErrors,
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  async (c) => {
+    const id = c.req.param('id');
+    const { archived } = c.req.valid('json');
+
+    const invalid = invalidIdResponse(id);
+    if (invalid) return c.json(invalid, 400);
+
+    try {
+      const document = await findDocument(id);
+      if (!document) {
+        return c.json(notFoundResponse(id), 404);
+      }
+
+      const expectedStatus = archived ? 'active' : 'archived';
+      if (document.status !== expectedStatus) {
+        const errorResponse: ErrorResponse = {
+          error: 'INVALID_DOCUMENT_STATUS',
+          message: archived
+            ? `Only active documents can be archived (status: ${document.status})`
+            : `Document is not archived (status: ${document.status})`,
+          details: { documentId: id, status: document.status },
+        };
+        return c.json(errorResponse, 409);
+      }
+
+      const activeJobId = await findActiveJob(id);
+      if (activeJobId) {
+        return c.json(jobInProgressResponse(id, activeJobId), 409);
+      }
+
+      // Flag the stores first so a failure leaves Postgres unchanged and
+      // the request can simply be retried
+      await getStorage().setDocumentArchived(document.url, id, archived);
+
+      const [updated] = await db.postgres
+        .update(postgresSchema.documents)
+        .set({ status: archived ? 'archived' : 'active', updatedAt: new Date() })
+        .where(eq(postgresSchema.documents.id, id))
+        .returning();
+
+      if (archived) {
+        getAnswerCache()?.invalidateDocuments([id]);
+      }
+
+      return c.json({ document: updated }, 200);
+    } catch (error) {
+      console.error('Document update error:', error);
+
+      const errorResponse: ErrorResponse = {
+        error: 'DOCUMENT_UPDATE_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to update document',
+      };
+
+      return c.json(errorResponse, 500);
+    }
+  }
+);
+
+/**
+ * DELETE /api/documents/:id
+ *
+ * Delete a document's vectors, chunk nodes and triples, then its
+ * Postgres rows (jobs and document).
+ */
+documents.delete('/:id', async (c) => {
+  const id = c.req.param('id');
+
+  const invalid = invalidIdResponse(id);
+  if (invalid) return c.json(invalid, 400);
+
+  try {
+    const document = await findDocument(id);
+    if (!document) {
+      return c.json(notFoundResponse(id), 404);
+    }
+
+    const activeJobId = await findActiveJob(id);
+    if (activeJobId) {
+      return c.json(jobInProgressResponse(id, activeJobId), 409);
+    }
+
+    await getStorage().deleteDocument(document.url, id);
+
+    await db.postgres.transaction(async (tx) => {
+      await tx
+        .delete(postgresSchema.ingestionJobs)
+        .where(eq(postgresSchema.ingestionJobs.documentId, id));
+      await tx
+        .delete(postgresSchema.documents)
+        .where(eq(postgresSchema.documents.id, id));
+    });
+
+    return c.json({ success: true, documentId: id }, 200);
+  } catch (error) {
+    console.error('Document delete error:', error);
+
+    const errorResponse: ErrorResponse = {
+      error: 'DELETE_ERROR',
+      message: error instanceof Error ? error.message : 'Failed to delete document',
+    };
+
+    return c.json(errorResponse, 500);
+  }
+});
+
+export default documents;
@@ -3,6 +3,12 @@
  *
  * Endpoints for collecting user feedback on query responses:
  * - POST /api/feedback - Submit feedback for a query
+ * - GET /api/feedback/:queryId - Get feedback for a query
+ *
+ * Students can only give and read feedback on their own queries; tutors
+ * and admins can read feedback on any query. Feedback may attach a run of
+ * the answer's code (POST /api/run) by its run ID, e.g. to report that it
+ * fails on the sample; only the user's own stored runs can be attached.
  *
  * @module apps/api/routes/feedback
  */
@@ -12,6 +18,7 @@ import { zValidator } from '@hono/zod-validator';
 import { z } from 'zod';
 import { db, postgresSchema, eq } from '@jubilant/database';
 import type { ErrorResponse } from '@jubilant/rag';
+import { canViewOthersData } from '../middleware/auth';
 
 const feedback = new Hono();
 
@@ -24,6 +31,7 @@ const feedback = new Hono();
  * - queryId: Must be a valid UUID and must exist in rag_queries table
  * - rating: Must be 1-5
  * - comment: Optional, max 2000 characters
+ * - runId: Optional code run of the same user (POST /api/run)
  */
 const feedbackSchema = z.object({
   queryId: z
@@ -39,6 +47,7 @@ const feedbackSchema = z.object({
     .string()
     .max(2000, 'Comment must be 2000 characters or less')
     .optional(),
+  runId: z.string().uuid('Invalid run ID format').optional(),
 });
 
 /**
@@ -55,16 +64,34 @@ interface FeedbackResponse {
 // ============================================================================
 
 /**
- * Check if a query exists in the rag_queries table
+ * Look up a query in the rag_queries table
+ *
+ * @returns The asking user (null for queries recorded before authentication),
+ *   or undefined if the query does not exist
  */
-async function queryExists(queryId: string): Promise<boolean> {
+async function findQueryOwner(queryId: string): Promise<string | null | undefined> {
   const results = await db.postgres
-    .select({ id: postgresSchema.ragQueries.id })
+    .select({ userId: postgresSchema.ragQueries.userId })
     .from(postgresSchema.ragQueries)
     .where(eq(postgresSchema.ragQueries.id, queryId))
     .limit(1);
 
-  return results.length > 0;
+  return results.length > 0 ? results[0].userId : undefined;
+}
+
+/**
+ * Look up a stored code run
+ *
+ * @returns The run, or null if it does not exist
+ */
+async function findRun(runId: string) {
+  const results = await db.postgres
+    .select()
+    .from(postgresSchema.codeRuns)
+    .where(eq(postgresSchema.codeRuns.id, runId))
+    .limit(1);
+
+  return results.length > 0 ? results[0] : null;
 }
 
 /**
@@ -92,6 +119,7 @@ async function feedbackExists(queryId: string): Promise<boolean> {
  * - queryId is a valid UUID
  * - queryId exists in rag_queries table
  * - rating is between 1 and 5
+ * - runId, if given, is a run of the same user
  * - No duplicate feedback for the same query
  */
 feedback.post(
@@ -110,9 +138,11 @@ feedback.post(
     const body = c.req.valid('json');
 
     try {
+      const user = c.get('authUser');
+
       // Validate queryId exists (T077)
-      const exists = await queryExists(body.queryId);
-      if (!exists) {
+      const owner = await findQueryOwner(body.queryId);
+      if (owner === undefined) {
         const errorResponse: ErrorResponse = {
           error: 'QUERY_NOT_FOUND',
           message: `Query ${body.queryId} not found. Feedback can only be submitted for existing queries.`,
@@ -120,6 +150,23 @@ feedback.post(
         return c.json(errorResponse, 404);
       }
 
+      if (owner !== null && owner !== user.id) {
+        const errorResponse: ErrorResponse = {
+          error: 'FORBIDDEN',
+          message: 'Feedback can only be submitted for your own queries.',
+        };
+        return c.json(errorResponse, 403);
+      }
+
+      // Runs are attached by ID, so their outcome is the one the API produced
+      if (body.runId && (await findRun(body.runId))?.userId !== user.id) {
+        const errorResponse: ErrorResponse = {
+          error: 'RUN_NOT_FOUND',
+          message: `Code run ${body.runId} not found.`,
+        };
+        return c.json(errorResponse, 404);
+      }
+
       // Check for duplicate feedback (optional - could also allow updates)
       const duplicate = await feedbackExists(body.queryId);
       if (duplicate) {
@@ -135,8 +182,10 @@ feedback.post(
       await db.postgres.insert(postgresSchema.feedbackEvents).values({
         id: feedbackId,
         queryId: body.queryId,
+        userId: user.id,
         rating: body.rating,
         comment: body.comment || null,
+        runId: body.runId ?? null,
         createdAt: new Date(),
       });
 
@@ -196,12 +245,31 @@ feedback.get('/:queryId', async (c) => {
     }
 
     const feedbackRecord = results[0];
+    const user = c.get('authUser');
+    if (!canViewOthersData(user) && feedbackRecord.userId !== user.id) {
+      const errorResponse: ErrorResponse = {
+        error: 'FORBIDDEN',
+        message: 'You can only view feedback on your own queries.',
+      };
+      return c.json(errorResponse, 403);
+    }
+
+    const run = feedbackRecord.runId ? await findRun(feedbackRecord.runId) : null;
+
     return c.json(
       {
         feedbackId: feedbackRecord.id,
         queryId: feedbackRecord.queryId,
         rating: feedbackRecord.rating,
         comment: feedbackRecord.comment,
+        run: run && {
+          runId: run.id,
+          language: run.language,
+          code: run.code,
+          verdict: run.verdict,
+          ...(run.result as object),
+          createdAt: run.createdAt,
+        },
         createdAt: feedbackRecord.createdAt,
       },
       200
@@ -117,9 +117,7 @@ health.get('/', async (c) => {
       dbHealth.milvus.healthy &&
       dbHealth.neo4j.healthy &&
       dbHealth.postgres.healthy &&
-      llmHealth.llm.healthy &&
-      llmHealth.embedding.healthy &&
-      llmHealth.reranker.healthy,
+      llmHealth.allHealthy,
     components: {
       milvus: dbHealth.milvus,
       neo4j: dbHealth.neo4j,
@@ -128,6 +126,7 @@ health.get('/', async (c) => {
       embedding: llmHealth.embedding,
       reranker: llmHealth.reranker,
     },
+    providers: llmHealth.providers,
     timestamp: new Date().toISOString(),
   };
 
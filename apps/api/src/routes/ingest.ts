@@ -2,26 +2,31 @@
  * Ingestion Routes
  *
  * Endpoints for document ingestion:
- * - POST /api/ingest - Submit a document for ingestion
+ * - POST /api/ingest - Submit a document for ingestion (or re-ingest an existing one)
+ * - POST /api/ingest/upload - Upload a file (multipart) and ingest it
  * - GET /api/ingest/:jobId/status - Check ingestion job status
  *
+ * Ingested documents are listed, archived and deleted via /api/documents.
+ *
  * @module apps/api/routes/ingest
  */
 
 import { Hono } from 'hono';
+import { bodyLimit } from 'hono/body-limit';
 import { zValidator } from '@hono/zod-validator';
 import { z } from 'zod';
-import { db, postgresSchema, eq } from '@jubilant/database';
+import { db, postgresSchema, eq, or } from '@jubilant/database';
 import {
   createIngestionPipeline,
   validateSource,
   isFormatSupported,
   type IngestRequest,
-  type DatabaseOperations,
-  type IngestionJob,
-  type DocumentRecord,
   type ErrorResponse,
 } from '@jubilant/rag';
+import { getEmbeddingVersionTracker } from '../embeddings/versions';
+import { getAnswerCache } from '../cache/answers';
+import { createDatabaseOperations, findActiveJob } from '../ingestion/operations';
+import { createLocalBlobStore } from '../ingestion/blob-store';
 
 const ingest = new Hono();
 
@@ -29,7 +34,7 @@ const ingest = new Hono();
 // Validation Schemas (T066)
 // ============================================================================
 
-const SUPPORTED_FORMATS = ['markdown', 'pdf', 'text'] as const;
+const SUPPORTED_FORMATS = ['markdown', 'pdf', 'text', 'docx', 'html', 'notebook', 'problem', 'image'] as const;
 
 const ingestSchema = z.object({
   documentUrl: z
@@ -54,116 +59,89 @@ const ingestSchema = z.object({
   title: z.string().max(255).optional(),
   format: z.enum(SUPPORTED_FORMATS).optional(),
   metadata: z.record(z.unknown()).optional(),
+  /** Re-ingest an existing document, processing only changed chunks */
+  reingest: z.boolean().optional().default(false),
 });
 
-// ============================================================================
-// Pipeline Initialization
-// ============================================================================
-
-let pipeline: ReturnType<typeof createIngestionPipeline> | null = null;
+/**
+ * Accepted upload extensions and the format each maps to
+ */
+const UPLOAD_EXTENSIONS: Record<string, (typeof SUPPORTED_FORMATS)[number]> = {
+  md: 'markdown',
+  markdown: 'markdown',
+  pdf: 'pdf',
+  txt: 'text',
+  text: 'text',
+  docx: 'docx',
+  html: 'html',
+  htm: 'html',
+  ipynb: 'notebook',
+  zip: 'problem',
+  png: 'image',
+  jpg: 'image',
+  jpeg: 'image',
+};
 
 /**
- * Create a DatabaseOperations implementation using the @jubilant/database package
+ * Extension used for stored blobs of each format
  */
-function createDatabaseOperations(): DatabaseOperations {
-  return {
-    async insertDocument(doc: {
-      id: string;
-      url: string;
-      title: string;
-      format: string;
-      status: string;
-      metadata: Record<string, unknown>;
-    }): Promise<void> {
-      await db.postgres.insert(postgresSchema.documents).values({
-        id: doc.id,
-        url: doc.url,
-        title: doc.title,
-        format: doc.format,
-        status: doc.status,
-        metadata: doc.metadata,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      });
-    },
+const FORMAT_EXTENSIONS: Record<(typeof SUPPORTED_FORMATS)[number], string> = {
+  markdown: 'md',
+  pdf: 'pdf',
+  text: 'txt',
+  docx: 'docx',
+  html: 'html',
+  notebook: 'ipynb',
+  problem: 'zip',
+  image: 'png',
+};
 
-    async insertJob(job: {
-      id: string;
-      documentId: string;
-      status: string;
-      progress: number;
-    }): Promise<void> {
-      await db.postgres.insert(postgresSchema.ingestionJobs).values({
-        id: job.id,
-        documentId: job.documentId,
-        status: job.status,
-        progress: job.progress,
-        processedChunks: 0,
-        createdAt: new Date(),
-      });
-    },
+/**
+ * Leading bytes of binary formats (any one may match), checked before
+ * storing an upload
+ */
+const FILE_SIGNATURES: Partial<Record<(typeof SUPPORTED_FORMATS)[number], number[][]>> = {
+  pdf: [[0x25, 0x50, 0x44, 0x46, 0x2d]], // %PDF-
+  docx: [[0x50, 0x4b]], // PK
+  problem: [[0x50, 0x4b]],
+  image: [
+    [0x89, 0x50, 0x4e, 0x47], // PNG
+    [0xff, 0xd8, 0xff], // JPEG
+  ],
+};
+
+const uploadSchema = z.object({
+  file: z.instanceof(File, { message: 'A file is required' }),
+  title: z.string().max(255).optional(),
+  format: z.enum(SUPPORTED_FORMATS).optional(),
+  /** JSON object, sent as a form field */
+  metadata: z
+    .string()
+    .optional()
+    .transform((value, ctx) => {
+      if (!value) return undefined;
+      try {
+        const parsed: unknown = JSON.parse(value);
+        if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+          return parsed as Record<string, unknown>;
+        }
+      } catch {
+        // Reported below
+      }
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Metadata must be a JSON object' });
+      return z.NEVER;
+    }),
+});
 
-    async getJob(jobId: string): Promise<IngestionJob | null> {
-      const jobs = await db.postgres
-        .select()
-        .from(postgresSchema.ingestionJobs)
-        .where(eq(postgresSchema.ingestionJobs.id, jobId))
-        .limit(1);
-
-      if (jobs.length === 0) return null;
-
-      const job = jobs[0];
-      return {
-        id: job.id,
-        documentId: job.documentId ?? '',
-        status: (job.status ?? 'pending') as IngestionJob['status'],
-        currentStep: job.currentStep ?? null,
-        progress: job.progress ?? 0,
-        totalChunks: job.totalChunks ?? null,
-        processedChunks: job.processedChunks ?? 0,
-        errorMessage: job.errorMessage ?? null,
-        startedAt: job.startedAt ?? null,
-        completedAt: job.completedAt ?? null,
-        createdAt: job.createdAt,
-      };
-    },
+const MAX_UPLOAD_BYTES = parseInt(process.env.INGESTION_MAX_UPLOAD_BYTES || '', 10) || 25 * 1024 * 1024;
 
-    async getDocument(documentId: string): Promise<DocumentRecord | null> {
-      const docs = await db.postgres
-        .select()
-        .from(postgresSchema.documents)
-        .where(eq(postgresSchema.documents.id, documentId))
-        .limit(1);
-
-      if (docs.length === 0) return null;
-
-      const doc = docs[0];
-      return {
-        id: doc.id,
-        url: doc.url,
-        title: doc.title || 'Untitled',
-        format: doc.format || 'text',
-        status: (doc.status ?? 'pending') as DocumentRecord['status'],
-        chunkCount: doc.chunkCount ?? 0,
-        errorMessage: doc.errorMessage ?? null,
-      };
-    },
+const blobStore = createLocalBlobStore(process.env.INGESTION_BLOB_DIR || 'data/uploads');
 
-    async updateJob(jobId: string, updates: Partial<IngestionJob>): Promise<void> {
-      await db.postgres
-        .update(postgresSchema.ingestionJobs)
-        .set(updates as Record<string, unknown>)
-        .where(eq(postgresSchema.ingestionJobs.id, jobId));
-    },
+// ============================================================================
+// Pipeline Initialization
+// ============================================================================
 
-    async updateDocument(documentId: string, updates: Partial<DocumentRecord>): Promise<void> {
-      await db.postgres
-        .update(postgresSchema.documents)
-        .set({ ...updates, updatedAt: new Date() } as Record<string, unknown>)
-        .where(eq(postgresSchema.documents.id, documentId));
-    },
-  };
-}
+let pipeline: ReturnType<typeof createIngestionPipeline> | null = null;
 
 /**
  * Get or create the ingestion pipeline
@@ -175,6 +153,7 @@ function getOrCreatePipeline() {
     }
     pipeline = createIngestionPipeline(db.milvus, db.neo4j);
     pipeline.setDatabase(createDatabaseOperations());
+    pipeline.setEmbeddingVersions(getEmbeddingVersionTracker());
   }
   return pipeline;
 }
@@ -211,6 +190,48 @@ async function checkDuplicateDocument(url: string): Promise<{
   return { exists: false };
 }
 
+/**
+ * Check if an uploaded file was already ingested, either from the same
+ * blob path or as identical content under another URL
+ */
+async function checkDuplicateUpload(path: string, fileHash: string): Promise<{
+  exists: boolean;
+  documentId?: string;
+  status?: string;
+}> {
+  const existing = await db.postgres
+    .select({
+      id: postgresSchema.documents.id,
+      status: postgresSchema.documents.status,
+    })
+    .from(postgresSchema.documents)
+    .where(
+      or(
+        eq(postgresSchema.documents.url, path),
+        eq(postgresSchema.documents.fileHash, fileHash)
+      )
+    )
+    .limit(1);
+
+  if (existing.length > 0) {
+    return {
+      exists: true,
+      documentId: existing[0].id,
+      status: existing[0].status || undefined,
+    };
+  }
+
+  return { exists: false };
+}
+
+/**
+ * Strip the extension from an uploaded file name
+ */
+function titleFromFilename(filename: string): string {
+  return filename.replace(/\.[^.]+$/, '').replace(/[-_]/g, ' ').trim() || filename;
+}
+
+
 // ============================================================================
 // Routes
 // ============================================================================
@@ -258,10 +279,10 @@ ingest.post(
 
       // Check for duplicates (T067)
       const duplicate = await checkDuplicateDocument(body.documentUrl);
-      if (duplicate.exists) {
+      if (duplicate.exists && !body.reingest) {
         const errorResponse: ErrorResponse = {
           error: 'DOCUMENT_EXISTS',
-          message: `Document already exists with ID: ${duplicate.documentId}`,
+          message: `Document already exists with ID: ${duplicate.documentId}. Set reingest: true to update it.`,
           details: {
             documentId: duplicate.documentId,
             status: duplicate.status,
@@ -270,6 +291,27 @@ ingest.post(
         return c.json(errorResponse, 409);
       }
 
+      if (duplicate.status === 'archived') {
+        const errorResponse: ErrorResponse = {
+          error: 'DOCUMENT_ARCHIVED',
+          message: `Document ${duplicate.documentId} is archived. Restore it before re-ingesting.`,
+          details: { documentId: duplicate.documentId },
+        };
+        return c.json(errorResponse, 409);
+      }
+
+      if (duplicate.exists && duplicate.documentId) {
+        const activeJobId = await findActiveJob(duplicate.documentId);
+        if (activeJobId) {
+          const errorResponse: ErrorResponse = {
+            error: 'INGESTION_IN_PROGRESS',
+            message: `Document ${duplicate.documentId} is already being ingested`,
+            details: { documentId: duplicate.documentId, jobId: activeJobId },
+          };
+          return c.json(errorResponse, 409);
+        }
+      }
+
       // Start ingestion
       const ingestionPipeline = getOrCreatePipeline();
 
@@ -280,17 +322,14 @@ ingest.post(
         metadata: body.metadata,
       };
 
-      const response = await ingestionPipeline.startIngestion(request);
+      // The job is queued; an ingestion worker picks it up (see src/worker.ts)
+      const response = duplicate.exists && duplicate.documentId
+        ? await ingestionPipeline.startReingestion(duplicate.documentId, request)
+        : await ingestionPipeline.startIngestion(request);
 
-      // Start processing in background
-      // Note: In production, use a proper job queue (e.g., Bull, BullMQ)
-      setImmediate(async () => {
-        try {
-          await ingestionPipeline.processJob(response.jobId);
-        } catch (error) {
-          console.error(`Ingestion job ${response.jobId} failed:`, error);
-        }
-      });
+      if (duplicate.exists && duplicate.documentId) {
+        getAnswerCache()?.invalidateDocuments([duplicate.documentId]);
+      }
 
       return c.json(response, 202);
     } catch (error) {
@@ -306,6 +345,112 @@ ingest.post(
   }
 );
 
+/**
+ * POST /api/ingest/upload
+ *
+ * Upload a document file (multipart field `file`) and ingest it.
+ * The file is kept in the blob store under its content hash; uploading a
+ * file whose content was already ingested returns 409.
+ */
+ingest.post(
+  '/upload',
+  bodyLimit({
+    maxSize: MAX_UPLOAD_BYTES,
+    onError: (c) => {
+      const errorResponse: ErrorResponse = {
+        error: 'FILE_TOO_LARGE',
+        message: `Uploads are limited to ${Math.floor(MAX_UPLOAD_BYTES / (1024 * 1024))} MB`,
+      };
+      return c.json(errorResponse, 413);
+    },
+  }),
+  zValidator('form', uploadSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: ErrorResponse = {
+        error: 'VALIDATION_ERROR',
+        message: 'Invalid upload request',
+        details: result.error.flatten().fieldErrors,
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  async (c) => {
+    const body = c.req.valid('form');
+    const filename = body.file.name || 'upload';
+
+    const extension = filename.includes('.') ? filename.split('.').pop()!.toLowerCase() : '';
+    const format = body.format ?? UPLOAD_EXTENSIONS[extension];
+    if (!format) {
+      const errorResponse: ErrorResponse = {
+        error: 'UNSUPPORTED_FORMAT',
+        message: `Cannot ingest '${filename}'. Supported extensions: ${Object.keys(UPLOAD_EXTENSIONS).join(', ')}`,
+      };
+      return c.json(errorResponse, 400);
+    }
+
+    try {
+      const data = new Uint8Array(await body.file.arrayBuffer());
+
+      if (data.byteLength === 0) {
+        const errorResponse: ErrorResponse = {
+          error: 'EMPTY_FILE',
+          message: 'Uploaded file is empty',
+        };
+        return c.json(errorResponse, 400);
+      }
+
+      const signatures = FILE_SIGNATURES[format];
+      if (signatures && !signatures.some((signature) => signature.every((byte, i) => data[i] === byte))) {
+        const errorResponse: ErrorResponse = {
+          error: 'INVALID_FILE',
+          message: `Uploaded file is not a valid ${format.toUpperCase()} file`,
+        };
+        return c.json(errorResponse, 400);
+      }
+
+      // JPEG images keep their own extension
+      const blob = await blobStore.put(data, format === 'image' && data[0] === 0xff ? 'jpg' : FORMAT_EXTENSIONS[format]);
+
+      const duplicate = await checkDuplicateUpload(blob.path, blob.hash);
+      if (duplicate.exists) {
+        const errorResponse: ErrorResponse = {
+          error: 'DOCUMENT_EXISTS',
+          message: `A document with identical content already exists with ID: ${duplicate.documentId}`,
+          details: {
+            documentId: duplicate.documentId,
+            status: duplicate.status,
+            fileHash: blob.hash,
+          },
+        };
+        return c.json(errorResponse, 409);
+      }
+
+      const ingestionPipeline = getOrCreatePipeline();
+
+      // The job is queued; an ingestion worker picks it up (see src/worker.ts)
+      const response = await ingestionPipeline.startIngestion({
+        documentUrl: blob.path,
+        title: body.title || titleFromFilename(filename),
+        format,
+        metadata: { ...body.metadata, originalFilename: filename },
+        fileHash: blob.hash,
+        fileSize: blob.size,
+      });
+
+      return c.json({ ...response, fileHash: blob.hash, fileSize: blob.size }, 202);
+    } catch (error) {
+      console.error('Upload error:', error);
+
+      const errorResponse: ErrorResponse = {
+        error: 'INGESTION_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to ingest upload',
+      };
+
+      return c.json(errorResponse, 500);
+    }
+  }
+);
+
 /**
  * GET /api/ingest/:jobId/status
  *
@@ -349,63 +494,4 @@ ingest.get('/:jobId/status', async (c) => {
   }
 });
 
-/**
- * DELETE /api/ingest/:documentId
- *
- * Delete an ingested document and all its chunks.
- * (Optional endpoint - not in original spec but useful)
- */
-ingest.delete('/:documentId', async (c) => {
-  const documentId = c.req.param('documentId');
-
-  // Validate UUID format
-  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-  if (!uuidRegex.test(documentId)) {
-    const errorResponse: ErrorResponse = {
-      error: 'INVALID_DOCUMENT_ID',
-      message: 'Document ID must be a valid UUID',
-    };
-    return c.json(errorResponse, 400);
-  }
-
-  try {
-    // Get document to find URL
-    const docs = await db.postgres
-      .select({ url: postgresSchema.documents.url })
-      .from(postgresSchema.documents)
-      .where(eq(postgresSchema.documents.id, documentId))
-      .limit(1);
-
-    if (docs.length === 0) {
-      const errorResponse: ErrorResponse = {
-        error: 'DOCUMENT_NOT_FOUND',
-        message: `Document ${documentId} not found`,
-      };
-      return c.json(errorResponse, 404);
-    }
-
-    const ingestionPipeline = getOrCreatePipeline();
-
-    // Delete chunks from both stores
-    await ingestionPipeline.getStorage().deleteChunks(docs[0].url, documentId);
-
-    // Update document status
-    await db.postgres
-      .update(postgresSchema.documents)
-      .set({ status: 'archived', updatedAt: new Date() })
-      .where(eq(postgresSchema.documents.id, documentId));
-
-    return c.json({ success: true, documentId }, 200);
-  } catch (error) {
-    console.error('Delete error:', error);
-
-    const errorResponse: ErrorResponse = {
-      error: 'DELETE_ERROR',
-      message: error instanceof Error ? error.message : 'Failed to delete document',
-    };
-
-    return c.json(errorResponse, 500);
-  }
-});
-
 export default ingest;
@@ -0,0 +1,148 @@
+/**
+ * Prometheus Metrics Route
+ *
+ * GET /metrics - Metrics in the Prometheus text exposition format:
+ * - HTTP request latency by method, route and status (metrics middleware)
+ * - RAG stage latencies and LLM token/error counts (recorded by the pipeline)
+ * - Throttle gauges for the query, ingestion and code run endpoints, per quota tier
+ * - Sandboxed code runs by language and verdict (recorded by the run route)
+ * - Ingestion job counts by status and the age of the oldest queued job
+ *
+ * Gauges are refreshed on each scrape. When METRICS_TOKEN is set, scrapes
+ * must send it as a Bearer token.
+ *
+ * @module apps/api/routes/metrics
+ */
+
+import { Hono } from 'hono';
+import { db, sql } from '@jubilant/database';
+import {
+  getMetricsRegistry,
+  PROMETHEUS_CONTENT_TYPE,
+  type ErrorResponse,
+  type MetricsRegistry,
+} from '@jubilant/rag';
+import { queryThrottle, ingestionThrottle, runThrottle, type RequestThrottle } from '../middleware/throttle';
+
+const metrics = new Hono();
+
+/**
+ * Ingestion job statuses, reported even when no job has them
+ */
+const JOB_STATUSES = ['queued', 'chunking', 'embedding', 'extracting', 'complete', 'failed'];
+
+/**
+ * Refresh throttle gauges from a throttle's current metrics
+ */
+function collectThrottleMetrics(
+  registry: MetricsRegistry,
+  throttle: RequestThrottle,
+  endpoint: string
+): void {
+  const snapshot = throttle.getMetrics();
+
+  registry
+    .gauge('throttle_concurrent_requests', 'Requests being processed', ['endpoint'])
+    .set({ endpoint }, snapshot.currentConcurrent);
+  registry
+    .gauge('throttle_peak_concurrent_requests', 'Most requests processed at once', ['endpoint'])
+    .set({ endpoint }, snapshot.peakConcurrent);
+  registry
+    .gauge('throttle_peak_queue_size', 'Most requests waiting at once', ['endpoint'])
+    .set({ endpoint }, snapshot.peakQueueSize);
+
+  const queued = registry.gauge('throttle_queue_size', 'Requests waiting for a slot', ['endpoint', 'tier']);
+  const avgWait = registry.gauge(
+    'throttle_avg_queue_wait_seconds',
+    'Average time requests waited for a slot',
+    ['endpoint', 'tier']
+  );
+  const requests = registry.gauge(
+    'throttle_requests',
+    'Requests since startup by outcome (received, queued, rate_limited, rejected, timed_out)',
+    ['endpoint', 'tier', 'outcome']
+  );
+  const identities = registry.gauge(
+    'throttle_tracked_identities',
+    'Identities with a token bucket',
+    ['endpoint', 'tier']
+  );
+
+  for (const [tier, tierMetrics] of Object.entries(snapshot.tiers)) {
+    queued.set({ endpoint, tier }, tierMetrics.currentQueueSize);
+    avgWait.set({ endpoint, tier }, tierMetrics.avgQueueWaitMs / 1000);
+    identities.set({ endpoint, tier }, tierMetrics.trackedIdentities);
+
+    const outcomes: Record<string, number> = {
+      received: tierMetrics.totalRequests,
+      queued: tierMetrics.totalQueued,
+      rate_limited: tierMetrics.totalRateLimited,
+      rejected: tierMetrics.totalRejected,
+      timed_out: tierMetrics.totalTimedOut,
+    };
+    for (const [outcome, count] of Object.entries(outcomes)) {
+      requests.set({ endpoint, tier, outcome }, count);
+    }
+  }
+}
+
+/**
+ * Refresh ingestion job gauges from the job table
+ */
+async function collectIngestionMetrics(registry: MetricsRegistry): Promise<void> {
+  const [counts, [oldest]] = await Promise.all([
+    db.postgres.execute<{ status: string; count: number }>(sql`
+      SELECT status, COUNT(*)::int AS count
+      FROM ingestion_jobs
+      GROUP BY status
+    `),
+    db.postgres.execute<{ age_seconds: number | null }>(sql`
+      SELECT EXTRACT(EPOCH FROM NOW() - MIN(created_at))::float8 AS age_seconds
+      FROM ingestion_jobs
+      WHERE status = 'queued'
+    `),
+  ]);
+
+  const jobs = registry.gauge('ingestion_jobs', 'Ingestion jobs by status', ['status']);
+  jobs.reset();
+  for (const status of JOB_STATUSES) {
+    jobs.set({ status }, 0);
+  }
+  for (const row of counts) {
+    jobs.set({ status: row.status ?? 'unknown' }, row.count);
+  }
+
+  registry
+    .gauge('ingestion_oldest_queued_job_age_seconds', 'Age of the oldest queued ingestion job')
+    .set({}, oldest?.age_seconds ?? 0);
+}
+
+/**
+ * GET /metrics
+ */
+metrics.get('/', async (c) => {
+  const token = process.env.METRICS_TOKEN;
+  if (token && c.req.header('Authorization') !== `Bearer ${token}`) {
+    const errorResponse: ErrorResponse = {
+      error: 'UNAUTHORIZED',
+      message: 'A valid metrics token is required',
+    };
+    return c.json(errorResponse, 401);
+  }
+
+  const registry = getMetricsRegistry();
+  collectThrottleMetrics(registry, queryThrottle, 'query');
+  collectThrottleMetrics(registry, ingestionThrottle, 'ingestion');
+  collectThrottleMetrics(registry, runThrottle, 'run');
+
+  try {
+    await collectIngestionMetrics(registry);
+  } catch (error) {
+    // Serve the other metrics; the job gauges keep their last values
+    console.error('Failed to collect ingestion metrics:', error);
+  }
+
+  return c.body(registry.render(), 200, { 'Content-Type': PROMETHEUS_CONTENT_TYPE });
+});
+
+export default metrics;
@@ -5,6 +5,13 @@
  * - POST /api/query - Submit a question, get complete response
  * - POST /api/query/stream - Submit a question, get streaming SSE response
  *
+ * Requests carrying a sessionId get multi-turn conversation memory: prior
+ * turns are loaded from Postgres, follow-ups are rewritten into standalone
+ * queries for retrieval, and each completed exchange is recorded.
+ *
+ * Standalone questions close to one already answered are served from the
+ * semantic answer cache (streamed responses replay the cached tokens).
+ *
  * Includes request timeout handling (T086) with 3 second first token target.
  *
  * @module apps/api/routes/query
@@ -14,22 +21,38 @@ import { Hono } from 'hono';
 import { streamSSE } from 'hono/streaming';
 import { zValidator } from '@hono/zod-validator';
 import { z } from 'zod';
-import { db, postgresSchema } from '@jubilant/database';
+import { createHash } from 'node:crypto';
+import { db, postgresSchema, eq, desc } from '@jubilant/database';
 import {
   createRAGPipeline,
   formatSSEEvent,
   createErrorChunk,
+  hashQuery,
+  redactQueryText,
+  resolveQueryConcepts,
   type QueryRequest,
   type QueryResponse,
   type ErrorResponse,
   type DetailedRetrievalMetrics,
+  type ConversationStore,
+  type ConversationTurn,
+  type QueryRecord,
+  type QueryRecorder,
 } from '@jubilant/rag';
-import { queryThrottleMiddleware, queryThrottle } from '../middleware/throttle';
+import {
+  queryThrottleMiddleware,
+  queryThrottle,
+  resolveThrottleIdentity,
+} from '../middleware/throttle';
+import { getEmbeddingVersionTracker } from '../embeddings/versions';
+import { getAnswerCache } from '../cache/answers';
 
 const query = new Hono();
 
-// Apply throttle middleware to all query routes (T087/T088)
-query.use('*', queryThrottleMiddleware);
+// Apply throttle middleware to the LLM routes (T087/T088); polling
+// /status does not spend the caller's quota
+query.use('/', queryThrottleMiddleware);
+query.use('/stream', queryThrottleMiddleware);
 
 // ============================================================================
 // Timeout Configuration (T086)
@@ -104,6 +127,8 @@ const querySchema = z.object({
   topK: z.number().int().min(1).max(20).default(5),
   includeGraph: z.boolean().default(true),
   topicFilter: z.string().optional(),
+  /** Detected from the query when omitted */
+  retrievalMode: z.enum(['default', 'code']).optional(),
 });
 
 const streamQuerySchema = querySchema.extend({
@@ -116,6 +141,40 @@ const streamQuerySchema = querySchema.extend({
 
 let pipeline: ReturnType<typeof createRAGPipeline> | null = null;
 
+/**
+ * Create a ConversationStore backed by the conversation_turns table
+ */
+function createConversationStore(): ConversationStore {
+  return {
+    async getRecentTurns(sessionId: string, limit: number): Promise<ConversationTurn[]> {
+      const rows = await db.postgres
+        .select()
+        .from(postgresSchema.conversationTurns)
+        .where(eq(postgresSchema.conversationTurns.sessionId, sessionId))
+        .orderBy(desc(postgresSchema.conversationTurns.createdAt))
+        .limit(limit);
+
+      return rows.reverse().map((row) => ({
+        question: row.question,
+        answer: row.answer,
+        standaloneQuery: row.standaloneQuery ?? undefined,
+        queryId: row.queryId ?? undefined,
+      }));
+    },
+
+    async appendTurn(sessionId: string, turn: ConversationTurn): Promise<void> {
+      await db.postgres.insert(postgresSchema.conversationTurns).values({
+        sessionId,
+        queryId: turn.queryId ?? null,
+        question: turn.question,
+        standaloneQuery: turn.standaloneQuery ?? null,
+        answer: turn.answer,
+        createdAt: new Date(),
+      });
+    },
+  };
+}
+
 /**
  * Get or create the RAG pipeline
  */
@@ -125,43 +184,126 @@ function getOrCreatePipeline() {
       throw new Error('Database not connected. Call db.connect() first.');
     }
     pipeline = createRAGPipeline(db.milvus, db.neo4j);
+    pipeline.setConversationStore(createConversationStore());
+    pipeline.setQueryRecorder(createQueryRecorder());
+    pipeline.setEmbeddingVersions(getEmbeddingVersionTracker());
+    pipeline.setAnswerCache(getAnswerCache());
   }
   return pipeline;
 }
 
 // ============================================================================
-// Metrics Logging
+// Session Tracking
 // ============================================================================
 
 /**
- * Log query metrics to the database
+ * Outcome of checking a client-supplied sessionId
+ */
+type SessionCheck = 'owned' | 'forbidden' | 'unavailable';
+
+/**
+ * Ensure an analytics_sessions row exists for a client-supplied sessionId,
+ * so conversation turns and rag_queries can reference it. Sessions belong
+ * to the user who opened them; another user's sessionId is refused so
+ * their conversation memory is not exposed.
+ *
+ * @param sessionId - Client session UUID
+ * @param userId - Authenticated user (hashed before storage)
+ * @returns 'forbidden' if the session belongs to another user, and
+ *   'unavailable' if ownership could not be checked
  */
-async function logQueryMetrics(
-  queryId: string,
-  sessionId: string | undefined,
-  executionTimeMs: number,
-  vectorHits: number,
-  neo4jHits: number,
-  strategyUsed: 'hybrid' | 'vector_only' | 'graph_only'
-) {
+async function ensureAnalyticsSession(
+  sessionId: string,
+  userId: string
+): Promise<SessionCheck> {
+  const userHash = createHash('sha256').update(userId).digest('hex').slice(0, 16);
+
   try {
-    // Insert into rag_queries table
-    await db.postgres.insert(postgresSchema.ragQueries).values({
-      id: queryId,
-      sessionId: sessionId || null,
-      timestamp: new Date(),
-      queryHash: null, // Anonymized - not storing actual query
-      executionTimeMs,
-      milvusHits: vectorHits,
-      neo4jHits,
-      strategyUsed,
-    });
+    await db.postgres
+      .insert(postgresSchema.analyticsSessions)
+      .values({ id: sessionId, userHash })
+      .onConflictDoNothing();
+
+    const rows = await db.postgres
+      .select({ userHash: postgresSchema.analyticsSessions.userHash })
+      .from(postgresSchema.analyticsSessions)
+      .where(eq(postgresSchema.analyticsSessions.id, sessionId))
+      .limit(1);
+
+    return rows.length === 0 || rows[0].userHash === userHash ? 'owned' : 'forbidden';
   } catch (error) {
-    console.error('Failed to log query metrics:', error);
-    // Don't throw - metrics logging shouldn't fail the request
+    console.error('Failed to ensure analytics session:', error);
+    // Fail closed: the session's conversation memory may be another user's
+    return 'unavailable';
   }
 }
 
+/**
+ * Response for a sessionId owned by another user
+ */
+const SESSION_FORBIDDEN: ErrorResponse = {
+  error: 'SESSION_FORBIDDEN',
+  message: 'This session belongs to another user. Start a new session.',
+};
+
+/**
+ * Response for a sessionId whose owner could not be checked
+ */
+const SESSION_UNAVAILABLE: ErrorResponse = {
+  error: 'SESSION_UNAVAILABLE',
+  message: 'The session could not be verified. Try again shortly.',
+};
+
+// ============================================================================
+// Query Recording
+// ============================================================================
+
+/**
+ * Create a QueryRecorder that logs queries to the analytics tables.
+ * Rows are written in foreign-key order: rag_queries, then retrieval_metrics
+ * and the concepts the query touched (FR-T-01).
+ */
+function createQueryRecorder(): QueryRecorder {
+  return {
+    async record(record: QueryRecord): Promise<void> {
+      await db.postgres.insert(postgresSchema.ragQueries).values({
+        id: record.queryId,
+        sessionId: record.sessionId || null,
+        userId: record.userId ?? null,
+        timestamp: new Date(),
+        queryHash: hashQuery(record.standaloneQuery),
+        queryText: redactQueryText(record.query),
+        executionTimeMs: record.latencyMs,
+        firstTokenLatencyMs: record.firstTokenLatencyMs ?? null,
+        milvusHits: record.vectorResultCount,
+        neo4jHits: record.graphResultCount,
+        strategyUsed: record.strategy,
+        confidence: record.confidence,
+        topicFilter: record.topicFilter ?? null,
+        cacheHit: record.cacheHit ?? false,
+      });
+
+      if (record.metrics) {
+        await logDetailedRetrievalMetrics(record.metrics);
+      }
+
+      try {
+        const concepts = await resolveQueryConcepts(db.neo4j, record.sources);
+        if (concepts.length > 0) {
+          await db.postgres.insert(postgresSchema.queryConcepts).values(
+            concepts.map((conceptName) => ({
+              queryId: record.queryId,
+              conceptName,
+            }))
+          );
+        }
+      } catch (error) {
+        console.error('Failed to record query concepts:', error);
+      }
+    },
+  };
+}
+
 /**
  * Log detailed retrieval metrics from the DetailedRetrievalMetrics object
  */
@@ -184,62 +326,20 @@ async function logDetailedRetrievalMetrics(
       rrfTopScore: metrics.fusion.rrfTopScore,
       rerankMs: metrics.timing.rerankMs,
       rerankTopScore: metrics.rerank.topScore,
+      rerankScorer: metrics.rerank.scorer,
       confidenceThresholdMet: metrics.rerank.confidenceThresholdMet,
       finalContextTokens: metrics.finalContextTokens,
       citationCount: metrics.citationCount,
+      faithfulnessScore: metrics.faithfulness?.score ?? null,
+      claimCount: metrics.faithfulness?.claimCount ?? null,
+      unsupportedClaimCount: metrics.faithfulness?.unsupportedCount ?? null,
+      faithfulnessMs: metrics.faithfulness?.verifyMs ?? null,
     });
   } catch (error) {
     console.error('Failed to log detailed retrieval metrics:', error);
   }
 }
 
-/**
- * Log detailed retrieval metrics (legacy format for backward compatibility)
- */
-async function logRetrievalMetrics(
-  queryId: string,
-  metrics: {
-    vectorSearchMs: number;
-    vectorResultCount: number;
-    vectorTopScore: number | null;
-    vectorAvgScore: number | null;
-    graphTraversalMs: number;
-    graphResultCount: number;
-    graphMaxDepth: number;
-    fusionMs: number;
-    overlapCount: number;
-    rrfTopScore: number | null;
-    rerankMs?: number;
-    rerankTopScore?: number;
-    confidenceThresholdMet?: boolean;
-    finalContextTokens?: number;
-    citationCount?: number;
-  }
-) {
-  try {
-    await db.postgres.insert(postgresSchema.retrievalMetrics).values({
-      queryId,
-      vectorSearchMs: metrics.vectorSearchMs,
-      vectorResultCount: metrics.vectorResultCount,
-      vectorTopScore: metrics.vectorTopScore,
-      vectorAvgScore: metrics.vectorAvgScore,
-      graphTraversalMs: metrics.graphTraversalMs,
-      graphResultCount: metrics.graphResultCount,
-      graphMaxDepth: metrics.graphMaxDepth,
-      fusionMs: metrics.fusionMs,
-      overlapCount: metrics.overlapCount,
-      rrfTopScore: metrics.rrfTopScore,
-      rerankMs: metrics.rerankMs,
-      rerankTopScore: metrics.rerankTopScore,
-      confidenceThresholdMet: metrics.confidenceThresholdMet,
-      finalContextTokens: metrics.finalContextTokens,
-      citationCount: metrics.citationCount,
-    });
-  } catch (error) {
-    console.error('Failed to log retrieval metrics:', error);
-  }
-}
-
 // ============================================================================
 // Routes
 // ============================================================================
@@ -269,12 +369,23 @@ query.post(
     try {
       const ragPipeline = getOrCreatePipeline();
 
+      const user = c.get('authUser');
+      const session = body.sessionId ? await ensureAnalyticsSession(body.sessionId, user.id) : 'owned';
+      if (session === 'forbidden') {
+        return c.json(SESSION_FORBIDDEN, 403);
+      }
+      if (session === 'unavailable') {
+        return c.json(SESSION_UNAVAILABLE, 503);
+      }
+
       const request: QueryRequest = {
         query: body.query,
         sessionId: body.sessionId,
+        userId: user.id,
         topK: body.topK,
         includeGraph: body.includeGraph,
         topicFilter: body.topicFilter,
+        retrievalMode: body.retrievalMode,
       };
 
       // Execute query with timeout (T086)
@@ -284,17 +395,6 @@ query.post(
         `Query processing timed out after ${TIMEOUT_CONFIG.COMPLETE_QUERY_MAX_MS / 1000} seconds`
       );
 
-      // Log metrics asynchronously
-      const executionTimeMs = Date.now() - startTime;
-      logQueryMetrics(
-        response.queryId,
-        body.sessionId,
-        executionTimeMs,
-        response.metadata.vectorResultCount,
-        response.metadata.graphResultCount,
-        body.includeGraph ? 'hybrid' : 'vector_only'
-      ).catch(console.error);
-
       return c.json(response, 200);
     } catch (error) {
       console.error('Query processing error:', error);
@@ -347,12 +447,23 @@ query.post(
     try {
       const ragPipeline = getOrCreatePipeline();
 
+      const user = c.get('authUser');
+      const session = body.sessionId ? await ensureAnalyticsSession(body.sessionId, user.id) : 'owned';
+      if (session === 'forbidden') {
+        return c.json(SESSION_FORBIDDEN, 403);
+      }
+      if (session === 'unavailable') {
+        return c.json(SESSION_UNAVAILABLE, 503);
+      }
+
       const request: QueryRequest = {
         query: body.query,
         sessionId: body.sessionId,
+        userId: user.id,
         topK: body.topK,
         includeGraph: body.includeGraph,
         topicFilter: body.topicFilter,
+        retrievalMode: body.retrievalMode,
       };
 
       return streamSSE(c, async (stream) => {
@@ -360,8 +471,6 @@ query.post(
         let firstTokenLatencyMs: number | undefined;
 
         try {
-          let queryId: string | undefined;
-
           for await (const chunk of ragPipeline.queryStream(request)) {
             // Track first token latency (T086)
             if (!firstTokenSent && chunk.type === 'token') {
@@ -377,10 +486,7 @@ query.post(
               }
             }
 
-            // Capture queryId from metadata
             if (chunk.type === 'metadata' && chunk.metadata) {
-              queryId = chunk.metadata.queryId;
-
               // Add first token latency to metadata
               const enrichedMetadata = {
                 ...chunk.metadata,
@@ -390,17 +496,6 @@ query.post(
                   : undefined,
               };
 
-              // Log metrics when we have them
-              const executionTimeMs = Date.now() - startTime;
-              logQueryMetrics(
-                queryId,
-                body.sessionId,
-                executionTimeMs,
-                chunk.metadata.vectorResultCount,
-                chunk.metadata.graphResultCount,
-                body.includeGraph ? 'hybrid' : 'vector_only'
-              ).catch(console.error);
-
               // Send enriched metadata
               await stream.writeSSE({
                 event: chunk.type,
@@ -456,12 +551,15 @@ query.post(
 /**
  * GET /api/query/status
  *
- * Get current query processing status and throttle metrics (T087).
+ * Get current query processing status and throttle metrics (T087), per
+ * quota tier, and the caller's own remaining quota.
  * Useful for monitoring and load balancing.
  */
 query.get('/status', (c) => {
   const status = queryThrottle.getStatus();
   const metrics = queryThrottle.getMetrics();
+  const rateLimit = queryThrottle.getRateLimit(resolveThrottleIdentity(c));
+  const answerCache = getAnswerCache();
 
   return c.json({
     status: 'operational',
@@ -476,11 +574,20 @@ query.get('/status', (c) => {
       totalRequests: metrics.totalRequests,
       totalQueued: metrics.totalQueued,
       totalRejected: metrics.totalRejected,
+      totalRateLimited: metrics.totalRateLimited,
       totalTimedOut: metrics.totalTimedOut,
       avgQueueWaitMs: Math.round(metrics.avgQueueWaitMs),
       peakConcurrent: metrics.peakConcurrent,
       peakQueueSize: metrics.peakQueueSize,
     },
+    tiers: Object.fromEntries(
+      Object.entries(metrics.tiers).map(([tier, tierMetrics]) => [
+        tier,
+        { ...tierMetrics, avgQueueWaitMs: Math.round(tierMetrics.avgQueueWaitMs) },
+      ])
+    ),
+    rateLimit,
+    answerCache: answerCache ? answerCache.getStats() : null,
     health: {
       healthy: status.active < 10 && status.queued < 20,
       underLoad: status.active >= 8 || status.queued >= 10,
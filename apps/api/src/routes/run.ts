@@ -0,0 +1,134 @@
+/**
+ * Code Run Routes
+ *
+ * - POST /api/run - Compile and run a C++, Python or Java snippet on sample
+ *   inputs in the sandbox, comparing its output with the expected outputs
+ *
+ * Each run is stored for the user who made it; the returned runId is what
+ * feedback attaches, so tutors see outcomes the API produced.
+ *
+ * Runs are throttled like queries (each one holds a CPU for up to the time
+ * limit per test); see sandbox/runner for the limits and isolation.
+ *
+ * @module apps/api/routes/run
+ */
+
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import { db, postgresSchema } from '@jubilant/database';
+import { getMetricsRegistry, type ErrorResponse } from '@jubilant/rag';
+import { runThrottleMiddleware } from '../middleware/throttle';
+import { getSandbox, RUN_LANGUAGES, SandboxUnavailableError, type RunResult } from '../sandbox/runner';
+
+const run = new Hono();
+
+run.use('/', runThrottleMiddleware);
+
+// ============================================================================
+// Validation Schemas
+// ============================================================================
+
+/** Largest snippet, and largest sample input or output */
+const MAX_CODE_LENGTH = 64 * 1024;
+
+/** Most sample tests per run */
+const MAX_TESTS = 10;
+
+const runSchema = z.object({
+  language: z.enum(RUN_LANGUAGES),
+  code: z.string().min(1, 'Code is required').max(MAX_CODE_LENGTH),
+  tests: z
+    .array(
+      z.object({
+        input: z.string().max(MAX_CODE_LENGTH).default(''),
+        expectedOutput: z.string().max(MAX_CODE_LENGTH).optional(),
+      })
+    )
+    .max(MAX_TESTS, `At most ${MAX_TESTS} tests per run`)
+    .default([]),
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Store a run for the user who made it
+ *
+ * @returns The run ID, or null if it could not be stored
+ */
+async function storeRun(userId: string, code: string, result: RunResult): Promise<string | null> {
+  const runId = crypto.randomUUID();
+
+  try {
+    await db.postgres.insert(postgresSchema.codeRuns).values({
+      id: runId,
+      userId,
+      language: result.language,
+      code,
+      verdict: result.verdict,
+      result: { compile: result.compile, results: result.results },
+      createdAt: new Date(),
+    });
+    return runId;
+  } catch (error) {
+    console.error('Failed to store code run:', error);
+    // Don't throw - the run is still shown, it just cannot be attached to feedback
+    return null;
+  }
+}
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+/**
+ * POST /api/run
+ */
+run.post(
+  '/',
+  zValidator('json', runSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: ErrorResponse = {
+        error: 'VALIDATION_ERROR',
+        message: 'Invalid run request',
+        details: result.error.flatten().fieldErrors,
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  async (c) => {
+    const body = c.req.valid('json');
+
+    try {
+      const result = await getSandbox().run(body.language, body.code, body.tests);
+
+      getMetricsRegistry()
+        .counter('sandbox_runs_total', 'Sandboxed code runs by language and verdict', ['language', 'verdict'])
+        .inc({ language: body.language, verdict: result.verdict });
+
+      const runId = await storeRun(c.get('authUser').id, body.code, result);
+
+      return c.json({ ...result, runId }, 200);
+    } catch (error) {
+      if (error instanceof SandboxUnavailableError) {
+        const errorResponse: ErrorResponse = {
+          error: 'LANGUAGE_UNAVAILABLE',
+          message: error.message,
+        };
+        return c.json(errorResponse, 503);
+      }
+
+      console.error('Code run error:', error);
+
+      const errorResponse: ErrorResponse = {
+        error: 'RUN_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to run code',
+      };
+      return c.json(errorResponse, 500);
+    }
+  }
+);
+
+export default run;
@@ -0,0 +1,225 @@
+/**
+ * User Routes
+ *
+ * Account management for admins:
+ * - GET /api/users - List users, optionally filtered by role
+ * - POST /api/users - Create a user
+ * - PATCH /api/users/:id - Rename, change role, reset password, or disable
+ *
+ * Resetting a password or disabling an account revokes the user's open
+ * sessions.
+ *
+ * @module apps/api/routes/users
+ */
+
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import { db, postgresSchema, eq, asc } from '@jubilant/database';
+import type { ErrorResponse } from '@jubilant/rag';
+import { hashPassword, MIN_PASSWORD_LENGTH } from '../auth/passwords';
+import { USER_ROLES, type UserRole } from '../auth/tokens';
+import { createUser, revokeUserSessions, toPublicUser } from '../auth/sessions';
+
+const users = new Hono();
+
+// ============================================================================
+// Validation Schemas
+// ============================================================================
+
+const roleSchema = z.enum(USER_ROLES as [UserRole, ...UserRole[]]);
+
+const passwordSchema = z
+  .string()
+  .min(MIN_PASSWORD_LENGTH, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+  .max(1000);
+
+const listQuerySchema = z.object({
+  role: roleSchema.optional(),
+});
+
+const createSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(200),
+  email: z.string().email('Invalid email address'),
+  password: passwordSchema,
+  role: roleSchema.default('student'),
+});
+
+const updateSchema = z
+  .object({
+    name: z.string().trim().min(1).max(200).optional(),
+    role: roleSchema.optional(),
+    password: passwordSchema.optional(),
+    disabled: z.boolean().optional(),
+  })
+  .refine((body) => Object.values(body).some((value) => value !== undefined), {
+    message: 'At least one field must be provided',
+  });
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+/**
+ * GET /api/users
+ *
+ * List users, oldest first.
+ */
+users.get(
+  '/',
+  zValidator('query', listQuerySchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: ErrorResponse = {
+        error: 'VALIDATION_ERROR',
+        message: 'Invalid user list request',
+        details: result.error.flatten().fieldErrors,
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  async (c) => {
+    const { role } = c.req.valid('query');
+
+    try {
+      const rows = await db.postgres
+        .select()
+        .from(postgresSchema.users)
+        .where(role ? eq(postgresSchema.users.role, role) : undefined)
+        .orderBy(asc(postgresSchema.users.createdAt));
+
+      return c.json({ users: rows.map(toPublicUser) }, 200);
+    } catch (error) {
+      console.error('User list error:', error);
+
+      const errorResponse: ErrorResponse = {
+        error: 'USER_LIST_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to list users',
+      };
+      return c.json(errorResponse, 500);
+    }
+  }
+);
+
+/**
+ * POST /api/users
+ *
+ * Create a user. Emails are unique (case-insensitive).
+ */
+users.post(
+  '/',
+  zValidator('json', createSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: ErrorResponse = {
+        error: 'VALIDATION_ERROR',
+        message: 'Invalid user',
+        details: result.error.flatten().fieldErrors,
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  async (c) => {
+    const body = c.req.valid('json');
+
+    try {
+      const user = await createUser(body);
+      if (!user) {
+        const errorResponse: ErrorResponse = {
+          error: 'EMAIL_EXISTS',
+          message: `A user with email ${body.email} already exists`,
+        };
+        return c.json(errorResponse, 409);
+      }
+
+      return c.json({ user: toPublicUser(user) }, 201);
+    } catch (error) {
+      console.error('User creation error:', error);
+
+      const errorResponse: ErrorResponse = {
+        error: 'USER_CREATE_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to create user',
+      };
+      return c.json(errorResponse, 500);
+    }
+  }
+);
+
+/**
+ * PATCH /api/users/:id
+ *
+ * Update a user. Admins cannot demote or disable themselves, so there is
+ * always an admin left to manage accounts.
+ */
+users.patch(
+  '/:id',
+  zValidator('json', updateSchema, (result, c) => {
+    if (!result.success) {
+      const errorResponse: ErrorResponse = {
+        error: 'VALIDATION_ERROR',
+        message: 'Invalid user update',
+        details: result.error.flatten(),
+      };
+      return c.json(errorResponse, 400);
+    }
+  }),
+  async (c) => {
+    const id = c.req.param('id');
+    const body = c.req.valid('json');
+
+    if (!uuidRegex.test(id)) {
+      const errorResponse: ErrorResponse = {
+        error: 'INVALID_USER_ID',
+        message: 'User ID must be a valid UUID',
+      };
+      return c.json(errorResponse, 400);
+    }
+
+    const currentUser = c.get('authUser');
+    if (id === currentUser.id && ((body.role && body.role !== 'admin') || body.disabled)) {
+      const errorResponse: ErrorResponse = {
+        error: 'SELF_LOCKOUT',
+        message: 'You cannot remove your own admin role or disable your own account',
+      };
+      return c.json(errorResponse, 409);
+    }
+
+    try {
+      const [user] = await db.postgres
+        .update(postgresSchema.users)
+        .set({
+          name: body.name,
+          role: body.role,
+          disabled: body.disabled,
+          passwordHash: body.password ? await hashPassword(body.password) : undefined,
+          updatedAt: new Date(),
+        })
+        .where(eq(postgresSchema.users.id, id))
+        .returning();
+
+      if (!user) {
+        const errorResponse: ErrorResponse = {
+          error: 'USER_NOT_FOUND',
+          message: `User ${id} not found`,
+        };
+        return c.json(errorResponse, 404);
+      }
+
+      if (body.password || body.disabled) {
+        await revokeUserSessions(id);
+      }
+
+      return c.json({ user: toPublicUser(user) }, 200);
+    } catch (error) {
+      console.error('User update error:', error);
+
+      const errorResponse: ErrorResponse = {
+        error: 'USER_UPDATE_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to update user',
+      };
+      return c.json(errorResponse, 500);
+    }
+  }
+);
+
+export default users;
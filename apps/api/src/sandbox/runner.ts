@@ -0,0 +1,765 @@
+/**
+ * Code Execution Sandbox
+ *
+ * Compiles and runs C++, Python and Java snippets against sample inputs
+ * in a separate, resource-limited process:
+ * - A fresh temporary directory per run, removed afterwards
+ * - CPU time, address space, file size and process count capped with
+ *   prlimit, for compilers as well as programs; a wall-clock timeout kills
+ *   the whole process group
+ * - stdout/stderr capped; exceeding the cap kills the run
+ * - Isolation (unshare): new mount, PID, IPC, UTS and network namespaces.
+ *   The process sees a private root with only the toolchain mounted
+ *   read-only, its run directory at /box, a small tmpfs /tmp and a /proc
+ *   of its own PID namespace; it runs as a dedicated unprivileged user,
+ *   never the API's. When the API is not root, a user namespace maps that
+ *   user from the API user's subordinate IDs (/etc/subuid, newuidmap).
+ *
+ * Outputs are compared with expected outputs line by line, ignoring
+ * trailing whitespace, to give judge-style verdicts.
+ *
+ * Configured from the environment:
+ * - SANDBOX_ISOLATION: unshare (default) or none (development only: runs
+ *   see the host and keep network access)
+ * - SANDBOX_TIME_LIMIT_MS, SANDBOX_MEMORY_LIMIT_MB, SANDBOX_OUTPUT_LIMIT_BYTES,
+ *   SANDBOX_COMPILE_TIMEOUT_MS, SANDBOX_COMPILE_MEMORY_LIMIT_MB
+ * - SANDBOX_UID, SANDBOX_GID: user runs switch to (default 65534, nobody)
+ * - SANDBOX_READONLY_PATHS: extra host paths to mount into isolated runs,
+ *   colon-separated (e.g. a JDK's configuration under /etc)
+ * - SANDBOX_CXX, SANDBOX_PYTHON, SANDBOX_JAVAC, SANDBOX_JAVA: toolchain
+ *   executables (default: g++, python3, javac, java on PATH); their install
+ *   prefixes are mounted when outside the system directories
+ *
+ * @module apps/api/sandbox/runner
+ */
+
+import { spawn } from 'child_process';
+import { realpathSync } from 'fs';
+import { chmod, mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { constants, tmpdir } from 'os';
+import { dirname, join } from 'path';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const RUN_LANGUAGES = ['cpp', 'python', 'java'] as const;
+
+export type RunLanguage = (typeof RUN_LANGUAGES)[number];
+
+/**
+ * Outcomes of a run on one test, or of the whole run
+ * - COMPLETED: ran without error; there was no expected output to compare
+ */
+export const RUN_VERDICTS = [
+  'ACCEPTED',
+  'WRONG_ANSWER',
+  'COMPLETED',
+  'RUNTIME_ERROR',
+  'TIME_LIMIT_EXCEEDED',
+  'MEMORY_LIMIT_EXCEEDED',
+  'OUTPUT_LIMIT_EXCEEDED',
+  'COMPILATION_ERROR',
+] as const;
+
+export type RunVerdict = (typeof RUN_VERDICTS)[number];
+
+/**
+ * Sample input, with the output it should produce
+ */
+export interface RunTest {
+  input: string;
+  expectedOutput?: string;
+}
+
+export interface RunTestResult {
+  index: number;
+  verdict: RunVerdict;
+  input: string;
+  expectedOutput?: string;
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  signal: string | null;
+  timeMs: number;
+}
+
+export interface RunResult {
+  language: RunLanguage;
+  verdict: RunVerdict;
+  /** Compiler diagnostics (null for Python) */
+  compile: { success: boolean; output: string } | null;
+  results: RunTestResult[];
+}
+
+/**
+ * Sandbox configuration
+ */
+export interface SandboxConfig {
+  /** Wall-clock limit per test */
+  timeLimitMs: number;
+  /** Memory limit per test (address space; heap size for Java) */
+  memoryLimitMb: number;
+  /** Memory limit for compiling (address space; heap size for javac) */
+  compileMemoryLimitMb: number;
+  /** stdout limit per test; stderr is truncated at the same size */
+  outputLimitBytes: number;
+  /** Wall-clock limit for compiling */
+  compileTimeoutMs: number;
+  /** Processes and threads a run may have */
+  maxProcesses: number;
+  /** Namespace isolation (none: runs see the host) */
+  isolation: 'unshare' | 'none';
+  /** User and group isolated runs switch to */
+  uid: number;
+  gid: number;
+  /** Host paths mounted read-only into isolated runs */
+  readOnlyPaths: string[];
+  /** Toolchain executables */
+  commands: { cxx: string; python: string; javac: string; java: string };
+}
+
+const DEFAULT_CONFIG: SandboxConfig = {
+  timeLimitMs: 2000,
+  memoryLimitMb: 256,
+  compileMemoryLimitMb: 1024,
+  outputLimitBytes: 64 * 1024,
+  compileTimeoutMs: 20_000,
+  maxProcesses: 64,
+  isolation: 'unshare',
+  uid: 65534,
+  gid: 65534,
+  readOnlyPaths: [
+    '/usr',
+    '/bin',
+    '/sbin',
+    '/lib',
+    '/lib32',
+    '/lib64',
+    '/libx32',
+    '/etc/alternatives',
+    '/etc/ld.so.cache',
+  ],
+  commands: { cxx: 'g++', python: 'python3', javac: 'javac', java: 'java' },
+};
+
+/**
+ * Largest file a compiler may write (the executable or class files)
+ */
+const COMPILE_FILE_LIMIT_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Address space the JVM reserves beyond its heap (code cache, class
+ * metadata, thread stacks), with the reservations capped by JVM_FLAGS
+ */
+const JVM_OVERHEAD_MB = 1536;
+
+const JVM_FLAGS = [
+  '-XX:+UseSerialGC',
+  '-XX:TieredStopAtLevel=1',
+  '-XX:ReservedCodeCacheSize=64m',
+  '-XX:CompressedClassSpaceSize=64m',
+  '-XX:MaxMetaspaceSize=128m',
+];
+
+/**
+ * Raised when a run cannot start (toolchain or isolation missing)
+ */
+export class SandboxUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SandboxUnavailableError';
+  }
+}
+
+// ============================================================================
+// Verdicts
+// ============================================================================
+
+/**
+ * Normalize output for comparison: LF line endings, no trailing
+ * whitespace on lines, no trailing blank lines
+ */
+function normalizeOutput(output: string): string {
+  return output
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => line.trimEnd())
+    .join('\n')
+    .replace(/\n+$/, '');
+}
+
+/**
+ * Whether output matches the expected output, ignoring trailing whitespace
+ */
+export function outputsMatch(actual: string, expected: string): boolean {
+  return normalizeOutput(actual) === normalizeOutput(expected);
+}
+
+/**
+ * Errors printed when an allocation fails under the memory limit
+ */
+const OUT_OF_MEMORY_REGEX =
+  /bad_alloc|MemoryError|OutOfMemoryError|Cannot allocate memory|Could not reserve enough space/;
+
+/**
+ * Result of one sandboxed process
+ */
+export interface ProcessOutcome {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  signal: string | null;
+  timeMs: number;
+  timedOut: boolean;
+  outputExceeded: boolean;
+}
+
+/**
+ * Verdict for one test from its process outcome
+ */
+export function judgeTest(outcome: ProcessOutcome, expectedOutput?: string): RunVerdict {
+  if (outcome.outputExceeded) return 'OUTPUT_LIMIT_EXCEEDED';
+  if (outcome.timedOut || outcome.signal === 'SIGXCPU') return 'TIME_LIMIT_EXCEEDED';
+
+  const failed = outcome.exitCode !== 0 || outcome.signal !== null;
+  if (failed && OUT_OF_MEMORY_REGEX.test(outcome.stderr)) return 'MEMORY_LIMIT_EXCEEDED';
+  if (failed) return 'RUNTIME_ERROR';
+
+  if (expectedOutput === undefined) return 'COMPLETED';
+  return outputsMatch(outcome.stdout, expectedOutput) ? 'ACCEPTED' : 'WRONG_ANSWER';
+}
+
+/**
+ * Verdict for a run: the first failing test's, else ACCEPTED when any
+ * output was compared, else COMPLETED
+ */
+export function overallVerdict(verdicts: RunVerdict[]): RunVerdict {
+  const failure = verdicts.find((v) => v !== 'ACCEPTED' && v !== 'COMPLETED');
+  if (failure) return failure;
+  return verdicts.includes('ACCEPTED') ? 'ACCEPTED' : 'COMPLETED';
+}
+
+// ============================================================================
+// Process Execution
+// ============================================================================
+
+interface ExecuteOptions {
+  /** Run directory: the work directory (BOX_DIR) and the isolated root's mountpoint */
+  dir: string;
+  input: string;
+  timeoutMs: number;
+  outputLimitBytes: number;
+  /** Size limit for files the process writes */
+  fileLimitBytes: number;
+  /** Address space limit */
+  memoryLimitMb: number;
+  /** Host paths mounted read-only into isolated runs */
+  readOnlyPaths: string[];
+}
+
+/**
+ * Work directory in a run directory, mounted at /box in isolated runs
+ */
+const BOX_DIR = 'box';
+
+/**
+ * Mountpoint of the isolated root in a run directory
+ */
+const ROOT_DIR = 'root';
+
+/**
+ * PATH for the isolation tools (chroot and mount live in sbin)
+ */
+const ISOLATION_PATH = '/usr/local/sbin:/usr/local/bin:/usr/sbin:/usr/bin:/sbin:/bin';
+
+/**
+ * Sets up the private root inside the new namespaces, then runs the
+ * command in it: a tmpfs root with read-only binds of the given paths
+ * (symlinks such as /bin -> usr/bin are recreated), the work directory at
+ * /box, a tmpfs /tmp, a /proc of the new PID namespace and a minimal /dev.
+ *
+ * Arguments: root mountpoint, work directory, read-only paths, "--",
+ * environment assignments and command. The shell stays the namespace's
+ * init, so when it exits the kernel kills anything the command left
+ * behind; a command killed by a signal makes it exit with 128 + signal.
+ */
+const ISOLATION_SCRIPT = `set -e
+root=$1 box=$2
+shift 2
+hostname sandbox
+mount -t tmpfs -o size=16m,mode=755 sandbox "$root"
+while [ "$1" != -- ]; do
+  if [ -L "$1" ]; then
+    mkdir -p "$root\${1%/*}"
+    ln -s "$(readlink "$1")" "$root$1"
+  elif [ -e "$1" ]; then
+    if [ -d "$1" ]; then mkdir -p "$root$1"; else mkdir -p "$root\${1%/*}"; : > "$root$1"; fi
+    mount --bind "$1" "$root$1"
+    mount -o remount,bind,ro,nosuid,nodev "$root$1"
+  fi
+  shift
+done
+shift
+mkdir -p "$root/box" "$root/tmp" "$root/proc" "$root/dev"
+mount --bind "$box" "$root/box"
+mount -o remount,bind,nosuid,nodev "$root/box"
+mount -t tmpfs -o size=64m,mode=1777,nosuid,nodev sandbox "$root/tmp"
+mount -t proc -o nosuid,nodev,noexec proc "$root/proc"
+for device in null zero random urandom; do
+  : > "$root/dev/$device"
+  mount --bind "/dev/$device" "$root/dev/$device"
+done
+mount -o remount,ro "$root"
+set +e
+chroot "$root" /usr/bin/env -i -C /box "$@"
+exit $?
+`;
+
+/**
+ * Command wrapped in new namespaces, a private root and the sandbox user
+ */
+function isolatedCommand(
+  command: string[],
+  env: Record<string, string>,
+  options: ExecuteOptions,
+  config: SandboxConfig
+): string[] {
+  // Without root, a user namespace maps the sandbox user from /etc/subuid
+  const userNamespace = process.getuid?.() === 0 ? [] : ['--user', '--map-auto'];
+
+  return [
+    'unshare',
+    ...userNamespace,
+    '--mount',
+    '--pid',
+    '--ipc',
+    '--uts',
+    '--net',
+    '--fork',
+    '--kill-child',
+    '--',
+    '/bin/sh',
+    '-c',
+    ISOLATION_SCRIPT,
+    'sandbox',
+    join(options.dir, ROOT_DIR),
+    join(options.dir, BOX_DIR),
+    ...options.readOnlyPaths,
+    '--',
+    ...Object.entries(env).map(([name, value]) => `${name}=${value}`),
+    'setpriv',
+    `--reuid=${config.uid}`,
+    `--regid=${config.gid}`,
+    '--clear-groups',
+    '--no-new-privs',
+    '--inh-caps=-all',
+    '--bounding-set=-all',
+    '--',
+    ...command,
+  ];
+}
+
+/**
+ * Signal name for a shell exit status of 128 + signal number
+ */
+function signalFromExitCode(exitCode: number | null): string | null {
+  if (exitCode === null || exitCode <= 128) return null;
+  const signal = Object.entries(constants.signals).find(([, number]) => number === exitCode - 128);
+  return signal?.[0] ?? null;
+}
+
+/**
+ * Run a command in the sandbox, collecting capped output
+ */
+function execute(command: string[], options: ExecuteOptions, config: SandboxConfig): Promise<ProcessOutcome> {
+  const limits = [
+    `--cpu=${Math.ceil(options.timeoutMs / 1000) + 1}`,
+    `--fsize=${options.fileLimitBytes}`,
+    `--nproc=${config.maxProcesses}`,
+    `--as=${options.memoryLimitMb * 1024 * 1024}`,
+  ];
+  const limited = ['prlimit', ...limits, '--', ...command];
+
+  const isolated = config.isolation === 'unshare';
+  const box = join(options.dir, BOX_DIR);
+  const env = {
+    PATH: '/usr/local/bin:/usr/bin:/bin',
+    HOME: isolated ? '/box' : box,
+    LANG: 'C.UTF-8',
+    // Fewer malloc arenas, so threaded runtimes fit the address space limit
+    MALLOC_ARENA_MAX: '2',
+  };
+  const argv = isolated ? isolatedCommand(limited, env, options, config) : limited;
+
+  return new Promise((resolve, reject) => {
+    const startTime = performance.now();
+    const child = spawn(argv[0], argv.slice(1), {
+      cwd: box,
+      env: isolated ? { PATH: ISOLATION_PATH } : { ...env, PATH: process.env.PATH ?? env.PATH },
+      stdio: ['pipe', 'pipe', 'pipe'],
+      // Own process group, so timeouts kill anything the snippet forked
+      detached: true,
+    });
+
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    let stdoutBytes = 0;
+    let stderrBytes = 0;
+    let timedOut = false;
+    let outputExceeded = false;
+
+    const killGroup = () => {
+      try {
+        if (child.pid) process.kill(-child.pid, 'SIGKILL');
+      } catch {
+        // Already exited
+      }
+    };
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      killGroup();
+    }, options.timeoutMs);
+
+    child.stdout.on('data', (data: Buffer) => {
+      stdoutBytes += data.length;
+      if (stdoutBytes > options.outputLimitBytes) {
+        outputExceeded = true;
+        killGroup();
+        return;
+      }
+      stdout.push(data);
+    });
+    child.stderr.on('data', (data: Buffer) => {
+      if (stderrBytes < options.outputLimitBytes) {
+        stderr.push(data.subarray(0, options.outputLimitBytes - stderrBytes));
+      }
+      stderrBytes += data.length;
+    });
+
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    // Leftover children would hold the output pipes open
+    child.on('exit', killGroup);
+    child.on('close', (exitCode, signal) => {
+      clearTimeout(timer);
+      // Isolated commands report signals through the setup shell's exit status
+      const commandSignal = signal ?? (isolated ? signalFromExitCode(exitCode) : null);
+      resolve({
+        stdout: Buffer.concat(stdout).toString('utf8'),
+        stderr: Buffer.concat(stderr).toString('utf8'),
+        exitCode: commandSignal ? null : exitCode,
+        signal: commandSignal,
+        timeMs: Math.round(performance.now() - startTime),
+        timedOut,
+        outputExceeded,
+      });
+    });
+
+    // Ignore EPIPE if the program exits without reading its input
+    child.stdin.on('error', () => undefined);
+    child.stdin.end(options.input);
+  });
+}
+
+// ============================================================================
+// Languages
+// ============================================================================
+
+/**
+ * How to build and run a snippet
+ */
+interface LanguageSpec {
+  /** Source file name */
+  file: string;
+  /** Compile command (null: interpreted) */
+  compile: string[] | null;
+  run: string[];
+  /** Address space limits for compiling and running */
+  compileMemoryLimitMb: number;
+  runMemoryLimitMb: number;
+}
+
+/**
+ * Public class of a Java snippet, which must match its file name
+ */
+function javaClassName(code: string): string {
+  return /public\s+(?:final\s+)?class\s+([A-Za-z_$][\w$]*)/.exec(code)?.[1] ?? 'Main';
+}
+
+/**
+ * @param commands - Toolchain executables, resolved to absolute paths
+ */
+function languageSpec(
+  language: RunLanguage,
+  code: string,
+  config: SandboxConfig,
+  commands: SandboxConfig['commands']
+): LanguageSpec {
+  const { cxx, python, javac, java } = commands;
+
+  switch (language) {
+    case 'cpp':
+      return {
+        file: 'main.cpp',
+        compile: [cxx, '-std=c++17', '-O2', '-pipe', '-o', 'main', 'main.cpp'],
+        run: ['./main'],
+        compileMemoryLimitMb: config.compileMemoryLimitMb,
+        runMemoryLimitMb: config.memoryLimitMb,
+      };
+    case 'python':
+      return {
+        file: 'main.py',
+        compile: null,
+        run: [python, 'main.py'],
+        compileMemoryLimitMb: config.compileMemoryLimitMb,
+        runMemoryLimitMb: config.memoryLimitMb,
+      };
+    case 'java': {
+      const className = javaClassName(code);
+      return {
+        file: `${className}.java`,
+        compile: [
+          javac,
+          `-J-Xmx${config.compileMemoryLimitMb}m`,
+          ...JVM_FLAGS.map((flag) => `-J${flag}`),
+          '-encoding',
+          'UTF-8',
+          `${className}.java`,
+        ],
+        run: [java, `-Xmx${config.memoryLimitMb}m`, '-Xss64m', ...JVM_FLAGS, '-cp', '.', className],
+        compileMemoryLimitMb: config.compileMemoryLimitMb + JVM_OVERHEAD_MB,
+        runMemoryLimitMb: config.memoryLimitMb + JVM_OVERHEAD_MB,
+      };
+    }
+  }
+}
+
+// ============================================================================
+// Sandbox
+// ============================================================================
+
+/**
+ * Toolchain executables each language needs
+ */
+const TOOLCHAINS: Record<RunLanguage, Array<keyof SandboxConfig['commands']>> = {
+  cpp: ['cxx'],
+  python: ['python'],
+  java: ['javac', 'java'],
+};
+
+/**
+ * A language's resolved toolchain
+ */
+interface Toolchain {
+  commands: SandboxConfig['commands'];
+  readOnlyPaths: string[];
+}
+
+/**
+ * Sandbox - Compiles and runs snippets against sample tests
+ */
+export class Sandbox {
+  private config: SandboxConfig;
+
+  constructor(config: Partial<SandboxConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  getConfig(): SandboxConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Check that a language's toolchain and the isolation tools are installed
+   *
+   * @throws SandboxUnavailableError naming what is missing
+   */
+  checkAvailable(language: RunLanguage): void {
+    this.resolveToolchain(language);
+  }
+
+  /**
+   * Resolve a language's toolchain to absolute paths, and list the host
+   * paths isolated runs need: the configured ones plus the install prefix
+   * of any executable outside them
+   *
+   * @throws SandboxUnavailableError naming what is missing
+   */
+  private resolveToolchain(language: RunLanguage): Toolchain {
+    if (this.config.isolation === 'unshare' && (this.config.uid === 0 || this.config.gid === 0)) {
+      throw new SandboxUnavailableError('Sandbox user must not be root');
+    }
+
+    const names = TOOLCHAINS[language];
+    const commands = { ...this.config.commands };
+    const missing: string[] = [];
+
+    for (const name of names) {
+      const path = Bun.which(commands[name]);
+      if (path) {
+        commands[name] = realpathSync(path);
+      } else {
+        missing.push(commands[name]);
+      }
+    }
+    if (!Bun.which('prlimit')) missing.push('prlimit');
+    if (this.config.isolation === 'unshare') {
+      const tools = ['unshare', 'setpriv', 'chroot', 'mount'];
+      if (process.getuid?.() !== 0) tools.push('newuidmap', 'newgidmap');
+      missing.push(...tools.filter((tool) => !Bun.which(tool, { PATH: ISOLATION_PATH })));
+    }
+
+    if (missing.length > 0) {
+      throw new SandboxUnavailableError(`Cannot run ${language}: ${missing.join(', ')} not installed`);
+    }
+
+    const readOnlyPaths = [...this.config.readOnlyPaths];
+    for (const name of names) {
+      const path = commands[name];
+      if (!readOnlyPaths.some((mounted) => path.startsWith(`${mounted}/`))) {
+        // <prefix>/bin/<executable>
+        readOnlyPaths.push(dirname(dirname(path)));
+      }
+    }
+
+    return { commands, readOnlyPaths };
+  }
+
+  /**
+   * Compile a snippet and run it on each test
+   *
+   * @param language - Snippet language
+   * @param code - Source code
+   * @param tests - Sample tests (one run with empty input when none)
+   */
+  async run(language: RunLanguage, code: string, tests: RunTest[]): Promise<RunResult> {
+    const { commands, readOnlyPaths } = this.resolveToolchain(language);
+
+    const spec = languageSpec(language, code, this.config, commands);
+    const dir = await mkdtemp(join(tmpdir(), 'sandbox-'));
+    const box = join(dir, BOX_DIR);
+
+    try {
+      await mkdir(box);
+      await mkdir(join(dir, ROOT_DIR));
+      await writeFile(join(box, spec.file), code);
+      // Reachable by the namespace's root, which is not the API user
+      // without privileges, and writable by the sandbox user
+      await chmod(dir, 0o711);
+      await chmod(box, 0o777);
+      await chmod(join(box, spec.file), 0o666);
+
+      let compile: RunResult['compile'] = null;
+      if (spec.compile) {
+        const outcome = await execute(
+          spec.compile,
+          {
+            dir,
+            input: '',
+            timeoutMs: this.config.compileTimeoutMs,
+            outputLimitBytes: this.config.outputLimitBytes,
+            fileLimitBytes: COMPILE_FILE_LIMIT_BYTES,
+            memoryLimitMb: spec.compileMemoryLimitMb,
+            readOnlyPaths,
+          },
+          this.config
+        );
+        const success = outcome.exitCode === 0 && !outcome.timedOut;
+        compile = {
+          success,
+          output: outcome.timedOut ? 'Compilation timed out' : (outcome.stderr + outcome.stdout).trim(),
+        };
+        if (!success) {
+          return { language, verdict: 'COMPILATION_ERROR', compile, results: [] };
+        }
+      }
+
+      const results: RunTestResult[] = [];
+      for (const [index, test] of (tests.length > 0 ? tests : [{ input: '' }]).entries()) {
+        const outcome = await execute(
+          spec.run,
+          {
+            dir,
+            input: test.input,
+            timeoutMs: this.config.timeLimitMs,
+            outputLimitBytes: this.config.outputLimitBytes,
+            fileLimitBytes: this.config.outputLimitBytes,
+            memoryLimitMb: spec.runMemoryLimitMb,
+            readOnlyPaths,
+          },
+          this.config
+        );
+
+        results.push({
+          index,
+          verdict: judgeTest(outcome, test.expectedOutput),
+          input: test.input,
+          expectedOutput: test.expectedOutput,
+          stdout: outcome.stdout,
+          stderr: outcome.stderr,
+          exitCode: outcome.exitCode,
+          signal: outcome.signal,
+          timeMs: outcome.timeMs,
+        });
+      }
+
+      return { language, verdict: overallVerdict(results.map((r) => r.verdict)), compile, results };
+    } finally {
+      // Without privileges, directories the snippet created belong to its
+      // mapped user and cannot be removed
+      await rm(dir, { recursive: true, force: true }).catch((error) => {
+        console.warn(`Failed to remove sandbox directory ${dir}: ${error instanceof Error ? error.message : error}`);
+      });
+    }
+  }
+}
+
+// ============================================================================
+// Factory Functions
+// ============================================================================
+
+function intFromEnv(name: string, fallback: number): number {
+  return parseInt(process.env[name] || '', 10) || fallback;
+}
+
+/**
+ * Create a sandbox configured by SANDBOX_* variables
+ */
+export function createSandbox(): Sandbox {
+  return new Sandbox({
+    timeLimitMs: intFromEnv('SANDBOX_TIME_LIMIT_MS', DEFAULT_CONFIG.timeLimitMs),
+    memoryLimitMb: intFromEnv('SANDBOX_MEMORY_LIMIT_MB', DEFAULT_CONFIG.memoryLimitMb),
+    compileMemoryLimitMb: intFromEnv('SANDBOX_COMPILE_MEMORY_LIMIT_MB', DEFAULT_CONFIG.compileMemoryLimitMb),
+    outputLimitBytes: intFromEnv('SANDBOX_OUTPUT_LIMIT_BYTES', DEFAULT_CONFIG.outputLimitBytes),
+    compileTimeoutMs: intFromEnv('SANDBOX_COMPILE_TIMEOUT_MS', DEFAULT_CONFIG.compileTimeoutMs),
+    isolation: process.env.SANDBOX_ISOLATION === 'none' ? 'none' : 'unshare',
+    uid: intFromEnv('SANDBOX_UID', DEFAULT_CONFIG.uid),
+    gid: intFromEnv('SANDBOX_GID', DEFAULT_CONFIG.gid),
+    readOnlyPaths: [
+      ...DEFAULT_CONFIG.readOnlyPaths,
+      ...(process.env.SANDBOX_READONLY_PATHS || '').split(':').filter(Boolean),
+    ],
+    commands: {
+      cxx: process.env.SANDBOX_CXX || DEFAULT_CONFIG.commands.cxx,
+      python: process.env.SANDBOX_PYTHON || DEFAULT_CONFIG.commands.python,
+      javac: process.env.SANDBOX_JAVAC || DEFAULT_CONFIG.commands.javac,
+      java: process.env.SANDBOX_JAVA || DEFAULT_CONFIG.commands.java,
+    },
+  });
+}
+
+let sandbox: Sandbox | null = null;
+
+/**
+ * Get the process-wide sandbox, created from the environment on first use
+ */
+export function getSandbox(): Sandbox {
+  if (!sandbox) {
+    sandbox = createSandbox();
+  }
+  return sandbox;
+}
@@ -0,0 +1,73 @@
+/**
+ * CompetitionTutor Ingestion Worker
+ *
+ * Separate process that runs queued ingestion jobs. Run as many as
+ * needed; jobs are leased from Postgres so each runs on one worker, and
+ * jobs held by a crashed worker are resumed by another once the lease
+ * expires.
+ *
+ * @module apps/api/worker
+ */
+
+import { db } from '@jubilant/database';
+import {
+  createIngestionPipeline,
+  createIngestionWorker,
+  createTracer,
+  getTracer,
+  setTracer,
+} from '@jubilant/rag';
+import { getEmbeddingVersionTracker } from './embeddings/versions';
+import { createDatabaseOperations } from './ingestion/operations';
+import { createPostgresJobQueue } from './ingestion/queue';
+
+/**
+ * Read a positive integer setting from the environment
+ */
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+async function main() {
+  setTracer(createTracer('competition-tutor-worker'));
+  await db.connect();
+
+  const pipeline = createIngestionPipeline(db.milvus, db.neo4j);
+  pipeline.setDatabase(createDatabaseOperations());
+  pipeline.setEmbeddingVersions(getEmbeddingVersionTracker());
+
+  const leaseMs = envInt('INGESTION_LEASE_MS', 120_000);
+  const concurrency = envInt('INGESTION_WORKER_CONCURRENCY', 2);
+
+  const worker = createIngestionWorker(createPostgresJobQueue(), pipeline, {
+    concurrency,
+    pollIntervalMs: envInt('INGESTION_POLL_INTERVAL_MS', 2000),
+    leaseMs,
+    heartbeatIntervalMs: Math.floor(leaseMs / 4),
+    maxAttempts: envInt('INGESTION_MAX_ATTEMPTS', 3),
+  });
+
+  let shuttingDown = false;
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+
+    console.warn(`${signal} received, waiting for ${worker.activeJobs} in-flight job(s)...`);
+    await worker.stop();
+    await getTracer().flush();
+    await db.disconnect();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', () => void shutdown('SIGINT'));
+  process.on('SIGTERM', () => void shutdown('SIGTERM'));
+
+  worker.start();
+  console.warn(`Ingestion worker started (concurrency ${concurrency})`);
+}
+
+main().catch((error) => {
+  console.error('Ingestion worker failed to start:', error);
+  process.exit(1);
+});
@@ -0,0 +1,161 @@
+/**
+ * Authentication Tests
+ *
+ * Tests for password hashing, session tokens, and the authentication and
+ * role guard middleware.
+ *
+ * @module apps/api/tests/unit/auth
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { Hono } from 'hono';
+import { hashPassword, verifyPassword } from '../../src/auth/passwords';
+import { SESSION_COOKIE, signSessionToken, verifySessionToken } from '../../src/auth/tokens';
+import {
+  createAuthMiddleware,
+  requireRole,
+  canViewOthersData,
+  type AuthUser,
+  type SessionResolver,
+} from '../../src/middleware/auth';
+
+// ============================================================================
+// Test Data Factories
+// ============================================================================
+
+function createUser(overrides: Partial<AuthUser> = {}): AuthUser {
+  return {
+    id: 'user-1',
+    name: 'Alice',
+    email: 'alice@example.com',
+    role: 'student',
+    sessionId: 'session-1',
+    ...overrides,
+  };
+}
+
+/**
+ * Resolver that accepts sessions in the given map
+ */
+function createResolver(sessions: Record<string, AuthUser>): SessionResolver {
+  return async (payload) => sessions[payload.sid] ?? null;
+}
+
+function createApp(resolver: SessionResolver): Hono {
+  const app = new Hono();
+  app.use('/api/*', createAuthMiddleware(resolver));
+  app.use('/api/ingest/*', requireRole('tutor', 'admin'));
+  app.get('/api/query', (c) => c.json({ userId: c.get('authUser').id }));
+  app.post('/api/ingest', (c) => c.json({ ok: true }));
+  return app;
+}
+
+async function createToken(user: AuthUser, ttlMs = 60_000): Promise<string> {
+  return signSessionToken(user.id, user.sessionId, user.role, new Date(Date.now() + ttlMs));
+}
+
+// ============================================================================
+// Password Tests
+// ============================================================================
+
+describe('passwords', () => {
+  it('should verify the original password only', async () => {
+    const hash = await hashPassword('correct horse');
+
+    expect(hash.startsWith('scrypt$')).toBe(true);
+    expect(await verifyPassword('correct horse', hash)).toBe(true);
+    expect(await verifyPassword('wrong horse', hash)).toBe(false);
+  });
+
+  it('should salt each hash', async () => {
+    expect(await hashPassword('same')).not.toBe(await hashPassword('same'));
+  });
+
+  it('should reject malformed hashes', async () => {
+    expect(await verifyPassword('anything', 'plaintext')).toBe(false);
+  });
+});
+
+// ============================================================================
+// Session Token Tests
+// ============================================================================
+
+describe('session tokens', () => {
+  it('should round-trip claims', async () => {
+    const token = await createToken(createUser({ role: 'tutor' }));
+    const payload = await verifySessionToken(token);
+
+    expect(payload).toMatchObject({ sub: 'user-1', sid: 'session-1', role: 'tutor' });
+  });
+
+  it('should reject expired and tampered tokens', async () => {
+    const expired = await createToken(createUser(), -60_000);
+    const valid = await createToken(createUser());
+    const [header, , signature] = valid.split('.');
+    const forged = Buffer.from(JSON.stringify({ sub: 'admin', sid: 'x', role: 'admin' })).toString('base64url');
+
+    expect(await verifySessionToken(expired)).toBeNull();
+    expect(await verifySessionToken(`${header}.${forged}.${signature}`)).toBeNull();
+    expect(await verifySessionToken('not-a-token')).toBeNull();
+  });
+});
+
+// ============================================================================
+// Middleware Tests
+// ============================================================================
+
+describe('createAuthMiddleware', () => {
+  it('should reject requests without a token', async () => {
+    const res = await createApp(createResolver({})).request('/api/query');
+
+    expect(res.status).toBe(401);
+    expect((await res.json()).error).toBe('UNAUTHORIZED');
+  });
+
+  it('should accept a Bearer token or the session cookie', async () => {
+    const user = createUser();
+    const app = createApp(createResolver({ 'session-1': user }));
+    const token = await createToken(user);
+
+    const bearer = await app.request('/api/query', { headers: { Authorization: `Bearer ${token}` } });
+    const cookie = await app.request('/api/query', { headers: { Cookie: `${SESSION_COOKIE}=${token}` } });
+
+    expect(await bearer.json()).toEqual({ userId: 'user-1' });
+    expect(cookie.status).toBe(200);
+  });
+
+  it('should reject tokens for revoked sessions', async () => {
+    const app = createApp(createResolver({}));
+    const token = await createToken(createUser());
+
+    const res = await app.request('/api/query', { headers: { Authorization: `Bearer ${token}` } });
+    expect(res.status).toBe(401);
+  });
+});
+
+describe('requireRole', () => {
+  it('should allow permitted roles and forbid others', async () => {
+    const student = createUser();
+    const tutor = createUser({ id: 'user-2', role: 'tutor', sessionId: 'session-2' });
+    const app = createApp(createResolver({ 'session-1': student, 'session-2': tutor }));
+
+    const asStudent = await app.request('/api/ingest', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${await createToken(student)}` },
+    });
+    const asTutor = await app.request('/api/ingest', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${await createToken(tutor)}` },
+    });
+
+    expect(asStudent.status).toBe(403);
+    expect((await asStudent.json()).error).toBe('FORBIDDEN');
+    expect(asTutor.status).toBe(200);
+  });
+
+  it('should let tutors and admins view other users\' data', () => {
+    expect(canViewOthersData(createUser())).toBe(false);
+    expect(canViewOthersData(createUser({ role: 'tutor' }))).toBe(true);
+    expect(canViewOthersData(createUser({ role: 'admin' }))).toBe(true);
+  });
+});
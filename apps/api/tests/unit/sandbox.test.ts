@@ -0,0 +1,251 @@
+/**
+ * Code Sandbox Tests
+ *
+ * Tests for judging sample tests, for compiling and running C++ and
+ * Python snippets under time and output limits, and for isolating runs
+ * from the host.
+ *
+ * @module apps/api/tests/unit/sandbox
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { join } from 'path';
+import {
+  Sandbox,
+  SandboxUnavailableError,
+  judgeTest,
+  outputsMatch,
+  overallVerdict,
+  type ProcessOutcome,
+} from '../../src/sandbox/runner';
+
+// ============================================================================
+// Test Data Factories
+// ============================================================================
+
+function createOutcome(overrides: Partial<ProcessOutcome> = {}): ProcessOutcome {
+  return {
+    stdout: '',
+    stderr: '',
+    exitCode: 0,
+    signal: null,
+    timeMs: 10,
+    timedOut: false,
+    outputExceeded: false,
+    ...overrides,
+  };
+}
+
+function hasCommands(...commands: string[]): boolean {
+  return commands.every((command) => Bun.which(command) !== null);
+}
+
+/**
+ * Sandbox without namespace isolation, so tests run without privileges
+ */
+function createTestSandbox(): Sandbox {
+  return new Sandbox({ isolation: 'none', timeLimitMs: 1000 });
+}
+
+/**
+ * Whether isolated runs can be tested: as root, with the isolation tools
+ */
+function canIsolate(): boolean {
+  const sbin = { PATH: '/usr/sbin:/usr/bin:/sbin:/bin' };
+  return (
+    process.getuid?.() === 0 &&
+    ['prlimit', 'unshare', 'setpriv', 'chroot', 'mount'].every((command) => Bun.which(command, sbin) !== null)
+  );
+}
+
+/**
+ * The Python interpreter itself, not a version manager's shim (which
+ * needs more of the host than the isolated root has)
+ */
+function pythonExecutable(): string | null {
+  if (!hasCommands('python3')) return null;
+  const result = Bun.spawnSync(['python3', '-c', 'import sys; print(sys.executable)']);
+  return result.success ? result.stdout.toString().trim() : null;
+}
+
+// ============================================================================
+// Judging Tests
+// ============================================================================
+
+describe('outputsMatch', () => {
+  it('should ignore trailing whitespace and line endings', () => {
+    expect(outputsMatch('1 2 \r\n3\n\n', '1 2\n3')).toBe(true);
+  });
+
+  it('should compare leading whitespace and line content', () => {
+    expect(outputsMatch(' 1\n', '1\n')).toBe(false);
+    expect(outputsMatch('1\n2\n', '1 2\n')).toBe(false);
+  });
+});
+
+describe('judgeTest', () => {
+  it('should compare output only when an expected output is given', () => {
+    expect(judgeTest(createOutcome({ stdout: '6\n' }), '6')).toBe('ACCEPTED');
+    expect(judgeTest(createOutcome({ stdout: '5\n' }), '6')).toBe('WRONG_ANSWER');
+    expect(judgeTest(createOutcome({ stdout: '5\n' }))).toBe('COMPLETED');
+  });
+
+  it('should report limits before runtime errors', () => {
+    expect(judgeTest(createOutcome({ outputExceeded: true, signal: 'SIGKILL', exitCode: null }))).toBe(
+      'OUTPUT_LIMIT_EXCEEDED'
+    );
+    expect(judgeTest(createOutcome({ timedOut: true, signal: 'SIGKILL', exitCode: null }))).toBe(
+      'TIME_LIMIT_EXCEEDED'
+    );
+    expect(judgeTest(createOutcome({ signal: 'SIGXCPU', exitCode: null }))).toBe('TIME_LIMIT_EXCEEDED');
+  });
+
+  it('should recognize allocation failures as memory limit errors', () => {
+    const stderr = "terminate called after throwing an instance of 'std::bad_alloc'";
+    expect(judgeTest(createOutcome({ stderr, signal: 'SIGABRT', exitCode: null }))).toBe('MEMORY_LIMIT_EXCEEDED');
+    expect(judgeTest(createOutcome({ stderr: 'IndexError', exitCode: 1 }), '6')).toBe('RUNTIME_ERROR');
+  });
+});
+
+describe('overallVerdict', () => {
+  it('should report the first failing test', () => {
+    expect(overallVerdict(['ACCEPTED', 'WRONG_ANSWER', 'RUNTIME_ERROR'])).toBe('WRONG_ANSWER');
+  });
+
+  it('should accept when every compared test passes', () => {
+    expect(overallVerdict(['ACCEPTED', 'COMPLETED'])).toBe('ACCEPTED');
+    expect(overallVerdict(['COMPLETED'])).toBe('COMPLETED');
+  });
+});
+
+// ============================================================================
+// Sandbox Tests
+// ============================================================================
+
+describe('Sandbox', () => {
+  it.skipIf(!hasCommands('python3', 'prlimit'))('should run Python against sample tests', async () => {
+    const code = 'n = int(input())\nprint(sum(map(int, input().split())))\n';
+
+    const result = await createTestSandbox().run('python', code, [
+      { input: '3\n1 2 3\n', expectedOutput: '6\n' },
+      { input: '2\n1 1\n', expectedOutput: '3\n' },
+      { input: '1\n' },
+    ]);
+
+    expect(result.compile).toBeNull();
+    expect(result.results.map((r) => r.verdict)).toEqual(['ACCEPTED', 'WRONG_ANSWER', 'RUNTIME_ERROR']);
+    expect(result.results[2].stderr).toContain('EOFError');
+    expect(result.verdict).toBe('WRONG_ANSWER');
+  });
+
+  it.skipIf(!hasCommands('python3', 'prlimit'))('should stop programs at the time and output limits', async () => {
+    const sandbox = createTestSandbox();
+
+    const loop = await sandbox.run('python', 'while True:\n    pass\n', []);
+    const flood = await sandbox.run('python', 'while True:\n    print("x" * 1000)\n', []);
+
+    expect(loop.verdict).toBe('TIME_LIMIT_EXCEEDED');
+    expect(flood.verdict).toBe('OUTPUT_LIMIT_EXCEEDED');
+  });
+
+  it.skipIf(!hasCommands('g++', 'prlimit'))('should compile and run C++', async () => {
+    const code = '#include <iostream>\nint main() { long long a, b; std::cin >> a >> b; std::cout << a + b << "\\n"; }\n';
+
+    const result = await createTestSandbox().run('cpp', code, [{ input: '2 40\n', expectedOutput: '42' }]);
+
+    expect(result.compile?.success).toBe(true);
+    expect(result.verdict).toBe('ACCEPTED');
+  });
+
+  it.skipIf(!hasCommands('g++', 'prlimit'))('should report compiler errors without running', async () => {
+    const result = await createTestSandbox().run('cpp', 'int main() { return x; }\n', [{ input: '' }]);
+
+    expect(result.verdict).toBe('COMPILATION_ERROR');
+    expect(result.compile?.output).toContain('x');
+    expect(result.results).toHaveLength(0);
+  });
+
+  it('should reject languages whose toolchain is missing', async () => {
+    const sandbox = new Sandbox({
+      isolation: 'none',
+      commands: { cxx: 'g++', python: 'python3', javac: 'no-such-javac', java: 'no-such-java' },
+    });
+
+    await expect(sandbox.run('java', 'class Main {}', [])).rejects.toBeInstanceOf(SandboxUnavailableError);
+  });
+});
+
+describe('Sandbox isolation', () => {
+  const python = pythonExecutable();
+
+  it.skipIf(!canIsolate() || !python)('should hide the network, host files and host processes', async () => {
+    const hostFiles = ['/etc/hostname', join(process.cwd(), 'package.json'), `/proc/${process.pid}/environ`];
+    const code = `import json, os, socket
+
+def readable(path):
+    try:
+        open(path).read()
+        return True
+    except OSError:
+        return False
+
+def connects():
+    try:
+        socket.create_connection(('1.1.1.1', 53), timeout=1).close()
+        return True
+    except OSError:
+        return False
+
+pids = [name for name in os.listdir('/proc') if name.isdigit()]
+print(json.dumps({
+    'uid': os.getuid(),
+    'processes': len(pids),
+    'hostFiles': [readable(path) for path in ${JSON.stringify(hostFiles)}],
+    'network': connects(),
+}))
+`;
+    const sandbox = new Sandbox({
+      isolation: 'unshare',
+      commands: { cxx: 'g++', python: python!, javac: 'javac', java: 'java' },
+    });
+
+    const result = await sandbox.run('python', code, []);
+
+    expect(result.verdict).toBe('COMPLETED');
+    expect(JSON.parse(result.results[0].stdout)).toEqual({
+      uid: 65534,
+      // The setup shell and the snippet
+      processes: 2,
+      hostFiles: [false, false, false],
+      network: false,
+    });
+  });
+
+  it.skipIf(!canIsolate() || !hasCommands('g++'))('should compile and run C++ in the isolated root', async () => {
+    const code =
+      '#include <fstream>\n#include <iostream>\nint main() { int a, b; std::cin >> a >> b; ' +
+      'std::cout << a + b << " " << std::ifstream("/etc/hostname").is_open() << "\\n"; }\n';
+
+    const result = await new Sandbox({ isolation: 'unshare' }).run('cpp', code, [
+      { input: '2 40\n', expectedOutput: '42 0' },
+    ]);
+
+    expect(result.compile?.success).toBe(true);
+    expect(result.verdict).toBe('ACCEPTED');
+  });
+
+  it.skipIf(!canIsolate() || !hasCommands('g++'))('should report signals of isolated programs', async () => {
+    const code = 'int main() { volatile int *p = 0; return *p; }\n';
+
+    const result = await new Sandbox({ isolation: 'unshare' }).run('cpp', code, []);
+
+    expect(result.verdict).toBe('RUNTIME_ERROR');
+    expect(result.results[0].signal).toBe('SIGSEGV');
+  });
+
+  it('should refuse to run snippets as root', async () => {
+    const sandbox = new Sandbox({ isolation: 'unshare', uid: 0, gid: 0 });
+
+    await expect(sandbox.run('cpp', 'int main() {}', [])).rejects.toThrow(/root/);
+  });
+});
@@ -4,12 +4,31 @@
  * Tests for SC-005: System handles 10-20 concurrent student queries without degradation
  * Tests for T087: Verify concurrent query handling
  * Tests for T088: Request queue/throttling for LLM endpoint
+ * Tests for per-identity quotas, fair queuing and rate limit headers
  *
  * @module apps/api/tests/unit/throttle
  */
 
-import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { RequestThrottle, ThrottleError } from '../../src/middleware/throttle';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'bun:test';
+import { Hono } from 'hono';
+import {
+  RequestThrottle,
+  ThrottleError,
+  createThrottleMiddleware,
+  type ThrottleIdentity,
+} from '../../src/middleware/throttle';
+
+// ============================================================================
+// Test Data Factories
+// ============================================================================
+
+function student(id: string): ThrottleIdentity {
+  return { key: `user:${id}`, tier: 'student' };
+}
+
+function tutor(id: string): ThrottleIdentity {
+  return { key: `user:${id}`, tier: 'tutor' };
+}
 
 // ============================================================================
 // RequestThrottle Tests
@@ -496,3 +515,158 @@ describe('Concurrent request handling (SC-005)', () => {
     expect(order).toEqual([1, 2, 3]);
   });
 });
+
+// ============================================================================
+// Per-Identity Quota Tests
+// ============================================================================
+
+describe('Per-identity quotas', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should rate limit an identity once its bucket is empty, then refill', async () => {
+    const throttle = new RequestThrottle({ maxConcurrent: 100 });
+
+    for (let i = 0; i < 10; i++) {
+      await throttle.acquire(student('s1'));
+    }
+
+    const error = await throttle.acquire(student('s1')).catch((e) => e);
+    expect(error).toBeInstanceOf(ThrottleError);
+    expect(error.errorType).toBe('RATE_LIMITED');
+    expect(error.retryAfterMs).toBeCloseTo(6000);
+
+    // Other identities keep their own quota
+    await throttle.acquire(student('s2'));
+
+    vi.advanceTimersByTime(6000);
+    await throttle.acquire(student('s1'));
+
+    const metrics = throttle.getMetrics();
+    expect(metrics.totalRateLimited).toBe(1);
+    expect(metrics.tiers.student).toMatchObject({ totalRequests: 13, totalRateLimited: 1, trackedIdentities: 2 });
+  });
+
+  it('should report quota state for RateLimit headers', async () => {
+    const throttle = new RequestThrottle({ maxConcurrent: 100 });
+
+    expect(throttle.getRateLimit(student('s1'))).toEqual({
+      limit: 10, remaining: 10, resetSeconds: 0, windowSeconds: 60,
+    });
+
+    await throttle.acquire(student('s1'));
+    await throttle.acquire(student('s1'));
+
+    expect(throttle.getRateLimit(student('s1'))).toMatchObject({ remaining: 8, resetSeconds: 12 });
+  });
+
+  it('should cap how many requests one identity may queue', async () => {
+    const throttle = new RequestThrottle({ maxConcurrent: 1, maxQueueSize: 10 });
+    await throttle.acquire(student('s1'));
+
+    const queued = [1, 2, 3].map(() => throttle.acquire(student('s1')));
+    await expect(throttle.acquire(student('s1'))).rejects.toMatchObject({ errorType: 'RATE_LIMITED' });
+
+    // The queue still has room for everyone else
+    const other = throttle.acquire(student('s2'));
+    expect(throttle.getStatus().queued).toBe(4);
+
+    for (let i = 0; i < 5; i++) throttle.release();
+    await Promise.all([...queued, other]);
+  });
+});
+
+// ============================================================================
+// Fair Queuing Tests
+// ============================================================================
+
+describe('Weighted fair queuing', () => {
+  it('should alternate between identities instead of serving in arrival order', async () => {
+    const throttle = new RequestThrottle({ maxConcurrent: 1, maxQueueSize: 10 });
+    const order: string[] = [];
+    await throttle.acquire(student('s1'));
+
+    const waits = [
+      throttle.acquire(student('s1')).then(() => order.push('s1')),
+      throttle.acquire(student('s1')).then(() => order.push('s1')),
+      throttle.acquire(student('s1')).then(() => order.push('s1')),
+      throttle.acquire(student('s2')).then(() => order.push('s2')),
+      throttle.acquire(student('s3')).then(() => order.push('s3')),
+    ];
+
+    for (let i = 0; i < waits.length; i++) {
+      throttle.release();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+    await Promise.all(waits);
+    throttle.release();
+
+    expect(order).toEqual(['s1', 's2', 's3', 's1', 's1']);
+  });
+
+  it('should serve the tutor lane first', async () => {
+    const throttle = new RequestThrottle({ maxConcurrent: 1, maxQueueSize: 10 });
+    const order: string[] = [];
+    await throttle.acquire(student('s1'));
+
+    const studentWait = throttle.acquire(student('s2')).then(() => order.push('student'));
+    const tutorWait = throttle.acquire(tutor('t1')).then(() => order.push('tutor'));
+
+    expect(throttle.getMetrics().tiers.tutor.currentQueueSize).toBe(1);
+
+    throttle.release();
+    await tutorWait;
+    throttle.release();
+    await studentWait;
+    throttle.release();
+
+    expect(order).toEqual(['tutor', 'student']);
+  });
+});
+
+// ============================================================================
+// Middleware Tests
+// ============================================================================
+
+describe('createThrottleMiddleware', () => {
+  function createApp(throttle: RequestThrottle) {
+    const app = new Hono();
+    app.use('*', createThrottleMiddleware(throttle, 'test'));
+    app.get('/', (c) => c.json({ ok: true }));
+    return app;
+  }
+
+  it('should set RateLimit headers on throttled responses', async () => {
+    const app = createApp(new RequestThrottle());
+
+    const res = await app.request('/', { headers: { 'X-Forwarded-For': '10.0.0.1, 10.0.0.2' } });
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('RateLimit-Limit')).toBe('5');
+    expect(res.headers.get('RateLimit-Remaining')).toBe('4');
+    expect(res.headers.get('RateLimit-Policy')).toBe('5;w=60');
+  });
+
+  it('should reject an exhausted identity with 429 and Retry-After', async () => {
+    const app = createApp(new RequestThrottle());
+    const headers = { 'X-Forwarded-For': '10.0.0.1' };
+
+    for (let i = 0; i < 5; i++) {
+      await app.request('/', { headers });
+    }
+    const res = await app.request('/', { headers });
+
+    expect(res.status).toBe(429);
+    expect(res.headers.get('Retry-After')).toBe('12');
+    expect(res.headers.get('RateLimit-Remaining')).toBe('0');
+    expect((await res.json()).error).toBe('RATE_LIMITED');
+
+    // A different client is unaffected
+    expect((await app.request('/', { headers: { 'X-Forwarded-For': '10.0.0.9' } })).status).toBe(200);
+  });
+});
@@ -0,0 +1,139 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import type { User } from '@repo/types';
+import { traceHeaders } from '../../lib/tracing';
+
+/**
+ * Signed-in user, as returned by GET /api/auth/me
+ */
+export type CurrentUser = Pick<User, 'id' | 'name' | 'email' | 'role'>;
+
+const CurrentUserContext = createContext<CurrentUser | null>(null);
+
+/**
+ * Get the signed-in user inside an AuthGate
+ */
+export function useCurrentUser(): CurrentUser | null {
+  return useContext(CurrentUserContext);
+}
+
+/**
+ * Props for the AuthGate component
+ */
+interface AuthGateProps {
+  /** API base URL */
+  apiUrl: string;
+  /** Roles allowed to see the page (default: any signed-in user) */
+  roles?: CurrentUser['role'][];
+  children: React.ReactNode;
+}
+
+/**
+ * Renders its children only for a signed-in user with an allowed role.
+ * Visitors without a session are sent to the login page and returned here
+ * after signing in.
+ */
+export function AuthGate({ apiUrl, roles, children }: AuthGateProps) {
+  const [user, setUser] = useState<CurrentUser | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const abortController = new AbortController();
+
+    async function loadUser() {
+      try {
+        const response = await fetch(`${apiUrl}/api/auth/me`, {
+          credentials: 'include',
+          headers: traceHeaders(),
+          signal: abortController.signal,
+        });
+
+        if (response.status === 401) {
+          const next = window.location.pathname + window.location.search;
+          window.location.replace(`/login?next=${encodeURIComponent(next)}`);
+          return;
+        }
+
+        if (!response.ok) {
+          throw new Error('Failed to check your session');
+        }
+
+        const data: { user: CurrentUser } = await response.json();
+        setUser(data.user);
+      } catch (err) {
+        if (err instanceof Error && err.name === 'AbortError') return;
+        setError(err instanceof Error ? err.message : 'Failed to check your session');
+      }
+    }
+
+    loadUser();
+
+    return () => abortController.abort();
+  }, [apiUrl]);
+
+  if (error) {
+    return <GateMessage title="Something went wrong" message={error} />;
+  }
+
+  if (!user) {
+    return <GateMessage title="Loading..." />;
+  }
+
+  if (roles && !roles.includes(user.role)) {
+    return (
+      <GateMessage
+        title="Not available"
+        message={`This page is for ${roles.join(' and ')} accounts. You are signed in as a ${user.role}.`}
+      />
+    );
+  }
+
+  return <CurrentUserContext.Provider value={user}>{children}</CurrentUserContext.Provider>;
+}
+
+/**
+ * Signed-in user's name with a sign out button
+ */
+export function UserMenu({ apiUrl }: { apiUrl: string }) {
+  const user = useCurrentUser();
+
+  const handleLogout = useCallback(async () => {
+    try {
+      await fetch(`${apiUrl}/api/auth/logout`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: traceHeaders(),
+      });
+    } finally {
+      window.location.replace('/login');
+    }
+  }, [apiUrl]);
+
+  if (!user) return null;
+
+  return (
+    <div className="flex items-center gap-3 text-sm">
+      <span className="text-gray-600 dark:text-gray-300">
+        {user.name} <span className="text-gray-400 capitalize">({user.role})</span>
+      </span>
+      <button
+        onClick={handleLogout}
+        className="text-blue-600 dark:text-blue-400 hover:underline"
+      >
+        Sign out
+      </button>
+    </div>
+  );
+}
+
+function GateMessage({ title, message }: { title: string; message?: string }) {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+      <div className="text-center">
+        <p className="text-lg font-semibold text-gray-900 dark:text-white">{title}</p>
+        {message && <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">{message}</p>}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 
 export interface Citation {
   id: string;
@@ -9,22 +9,79 @@ export interface Citation {
   documentUrl: string;
   snippet: string;
   relevanceScore: number;
+  pageStart?: number;
+  pageEnd?: number;
+  /** Set when the citation is a code snippet */
+  codeLanguage?: string;
+}
+
+const CODE_LANGUAGE_LABELS: Record<string, string> = {
+  cpp: 'C++',
+  c: 'C',
+  python: 'Python',
+  java: 'Java',
+  javascript: 'JavaScript',
+  go: 'Go',
+  rust: 'Rust',
+  other: 'Code',
+};
+
+function CodeBadge({ language }: { language: string }) {
+  return (
+    <span className="text-xs px-1.5 py-0.5 rounded bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 font-mono whitespace-nowrap">
+      {CODE_LANGUAGE_LABELS[language] ?? language}
+    </span>
+  );
+}
+
+/**
+ * Page range label ("p. 4", "pp. 4–6"), empty when the source has no pages
+ */
+function formatPages(citation: Citation): string {
+  const { pageStart, pageEnd } = citation;
+  if (pageStart === undefined) return '';
+  return pageEnd !== undefined && pageEnd !== pageStart ? `pp. ${pageStart}–${pageEnd}` : `p. ${pageStart}`;
+}
+
+/**
+ * Link to the cited page; PDF viewers open at the #page=N fragment
+ */
+function citationHref(citation: Citation): string {
+  if (citation.pageStart === undefined) return citation.documentUrl;
+  return `${citation.documentUrl.split('#')[0]}#page=${citation.pageStart}`;
 }
 
 interface CitationListProps {
   citations: Citation[];
   maxVisible?: number;
+  /** Open citation, when controlled by the parent (e.g. from `[n]` markers) */
+  selectedId?: string | null;
+  onSelect?: (citationId: string | null) => void;
 }
 
-export function CitationList({ citations, maxVisible = 5 }: CitationListProps) {
+export function CitationList({ citations, maxVisible = 5, selectedId, onSelect }: CitationListProps) {
   const [expanded, setExpanded] = useState(false);
-  const [selectedCitation, setSelectedCitation] = useState<Citation | null>(null);
+  const [localSelectedId, setLocalSelectedId] = useState<string | null>(null);
+  const detailRef = useRef<HTMLDivElement>(null);
+
+  const selectedCitationId = selectedId !== undefined ? selectedId : localSelectedId;
+  const setSelectedCitationId = onSelect ?? setLocalSelectedId;
+  const selectedIndex = citations.findIndex((citation) => citation.id === selectedCitationId);
+  const selectedCitation = selectedIndex >= 0 ? citations[selectedIndex] : null;
+
+  // Bring a citation opened from the answer into view
+  useEffect(() => {
+    if (selectedCitationId) {
+      detailRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    }
+  }, [selectedCitationId]);
 
   if (citations.length === 0) {
     return null;
   }
 
-  const visibleCitations = expanded ? citations : citations.slice(0, maxVisible);
+  // A selected citation past the fold is shown with the rest
+  const visibleCitations = expanded || selectedIndex >= maxVisible ? citations : citations.slice(0, maxVisible);
   const hasMore = citations.length > maxVisible;
 
   return (
@@ -48,21 +105,21 @@ export function CitationList({ citations, maxVisible = 5 }: CitationListProps) {
           <CitationCard
             key={citation.id}
             citation={citation}
-            isSelected={selectedCitation?.id === citation.id}
+            isSelected={selectedCitationId === citation.id}
             onClick={() =>
-              setSelectedCitation(
-                selectedCitation?.id === citation.id ? null : citation
-              )
+              setSelectedCitationId(selectedCitationId === citation.id ? null : citation.id)
             }
           />
         ))}
       </div>
 
       {selectedCitation && (
-        <CitationDetail
-          citation={selectedCitation}
-          onClose={() => setSelectedCitation(null)}
-        />
+        <div ref={detailRef}>
+          <CitationDetail
+            citation={selectedCitation}
+            onClose={() => setSelectedCitationId(null)}
+          />
+        </div>
       )}
     </div>
   );
@@ -103,6 +160,12 @@ function CitationCard({ citation, isSelected, onClick }: CitationCardProps) {
           <span className="font-medium text-sm text-gray-900 dark:text-gray-100 truncate">
             {citation.documentTitle}
           </span>
+          {citation.pageStart !== undefined && (
+            <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+              {formatPages(citation)}
+            </span>
+          )}
+          {citation.codeLanguage && <CodeBadge language={citation.codeLanguage} />}
         </div>
         <span className={`text-xs px-1.5 py-0.5 rounded ${relevanceColor}`}>
           {relevancePercent}%
@@ -133,15 +196,17 @@ function CitationDetail({ citation, onClose }: CitationDetailProps) {
             <h4 className="font-semibold text-gray-900 dark:text-gray-100">
               {citation.documentTitle}
             </h4>
+            {citation.codeLanguage && <CodeBadge language={citation.codeLanguage} />}
           </div>
           {citation.documentUrl && (
             <a
-              href={citation.documentUrl}
+              href={citationHref(citation)}
               target="_blank"
               rel="noopener noreferrer"
               className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
             >
               {citation.documentUrl}
+              {citation.pageStart !== undefined && ` (${formatPages(citation)})`}
             </a>
           )}
         </div>
@@ -157,9 +222,15 @@ function CitationDetail({ citation, onClose }: CitationDetailProps) {
         <h5 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide mb-1">
           Excerpt
         </h5>
-        <blockquote className="pl-3 border-l-2 border-blue-500 text-sm text-gray-700 dark:text-gray-300 italic">
-          {citation.snippet}
-        </blockquote>
+        {citation.codeLanguage ? (
+          <pre className="max-h-64 overflow-auto rounded bg-white dark:bg-gray-950 border border-gray-200 dark:border-gray-700 p-2 font-mono text-xs text-gray-800 dark:text-gray-200">
+            {citation.snippet}
+          </pre>
+        ) : (
+          <blockquote className="pl-3 border-l-2 border-blue-500 text-sm text-gray-700 dark:text-gray-300 italic">
+            {citation.snippet}
+          </blockquote>
+        )}
       </div>
 
       <div className="mt-3 flex items-center gap-4 text-xs text-gray-500 dark:text-gray-400">
@@ -167,7 +238,7 @@ function CitationDetail({ citation, onClose }: CitationDetailProps) {
           Relevance: <strong>{Math.round(citation.relevanceScore * 100)}%</strong>
         </span>
         <span>
-          Chunk ID: <code className="bg-gray-200 dark:bg-gray-800 px-1 rounded">{citation.chunkId}</code>
+          {citation.codeLanguage ? 'Snippet ID' : 'Chunk ID'}: <code className="bg-gray-200 dark:bg-gray-800 px-1 rounded">{citation.chunkId}</code>
         </span>
       </div>
     </div>
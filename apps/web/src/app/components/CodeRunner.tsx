@@ -0,0 +1,178 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import type { RunLanguage, RunRequest, RunResult, RunTest, RunVerdict } from '@repo/types';
+import { traceHeaders } from '../../lib/tracing';
+
+/**
+ * Most sample tests per run
+ */
+const MAX_TESTS = 10;
+
+const VERDICT_LABELS: Record<RunVerdict, string> = {
+  ACCEPTED: 'Accepted',
+  WRONG_ANSWER: 'Wrong answer',
+  COMPLETED: 'Ran',
+  RUNTIME_ERROR: 'Runtime error',
+  TIME_LIMIT_EXCEEDED: 'Time limit exceeded',
+  MEMORY_LIMIT_EXCEEDED: 'Memory limit exceeded',
+  OUTPUT_LIMIT_EXCEEDED: 'Output limit exceeded',
+  COMPILATION_ERROR: 'Compilation error',
+};
+
+function verdictColor(verdict: RunVerdict): string {
+  if (verdict === 'ACCEPTED') return 'text-green-600 dark:text-green-400';
+  if (verdict === 'COMPLETED') return 'text-gray-600 dark:text-gray-300';
+  return 'text-red-600 dark:text-red-400';
+}
+
+interface CodeRunnerProps {
+  apiUrl: string;
+  language: RunLanguage;
+  code: string;
+  /** Sample tests from the answer, editable before running */
+  samples: RunTest[];
+  /** Called with each finished run, e.g. to attach it to feedback */
+  onRunComplete?: (result: RunResult) => void;
+}
+
+/**
+ * Run a code block in the API sandbox on sample inputs and show the
+ * verdict for each test
+ */
+export function CodeRunner({ apiUrl, language, code, samples, onRunComplete }: CodeRunnerProps) {
+  const [tests, setTests] = useState<RunTest[]>(() =>
+    samples.length > 0 ? samples.slice(0, MAX_TESTS) : [{ input: '' }],
+  );
+  const [isRunning, setIsRunning] = useState(false);
+  const [result, setResult] = useState<RunResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateTest = (index: number, update: Partial<RunTest>) =>
+    setTests((prev) => prev.map((test, i) => (i === index ? { ...test, ...update } : test)));
+
+  const handleRun = useCallback(async () => {
+    setIsRunning(true);
+    setError(null);
+
+    try {
+      const request: RunRequest = {
+        language,
+        code,
+        tests: tests.map((test) => ({
+          input: test.input,
+          expectedOutput: test.expectedOutput || undefined,
+        })),
+      };
+
+      const response = await fetch(`${apiUrl}/api/run`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: {
+          'Content-Type': 'application/json',
+          ...traceHeaders(),
+        },
+        body: JSON.stringify(request),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || 'Failed to run code');
+      }
+
+      const runResult: RunResult = await response.json();
+      setResult(runResult);
+      onRunComplete?.(runResult);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to run code');
+    } finally {
+      setIsRunning(false);
+    }
+  }, [apiUrl, language, code, tests, onRunComplete]);
+
+  return (
+    <div className="border-t border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 p-3 text-sm space-y-3">
+      {tests.map((test, i) => (
+        <div key={i} className="grid gap-2 sm:grid-cols-2">
+          <label className="block">
+            <span className="text-xs text-gray-500 dark:text-gray-400">Input {i + 1}</span>
+            <textarea
+              value={test.input}
+              onChange={(e) => updateTest(i, { input: e.target.value })}
+              rows={3}
+              spellCheck={false}
+              className="mt-1 w-full rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 py-1 font-mono text-xs"
+            />
+          </label>
+          <label className="block">
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              Expected output (optional)
+            </span>
+            <textarea
+              value={test.expectedOutput ?? ''}
+              onChange={(e) => updateTest(i, { expectedOutput: e.target.value })}
+              rows={3}
+              spellCheck={false}
+              className="mt-1 w-full rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 py-1 font-mono text-xs"
+            />
+          </label>
+        </div>
+      ))}
+
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={handleRun}
+          disabled={isRunning}
+          className="px-3 py-1 rounded-md bg-blue-500 text-white hover:bg-blue-600 disabled:bg-gray-300 disabled:text-gray-500 disabled:cursor-not-allowed"
+        >
+          {isRunning ? 'Running...' : 'Run'}
+        </button>
+        {tests.length < MAX_TESTS && (
+          <button
+            type="button"
+            onClick={() => setTests((prev) => [...prev, { input: '' }])}
+            disabled={isRunning}
+            className="text-xs text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100"
+          >
+            Add test
+          </button>
+        )}
+        {result && (
+          <span className={`font-medium ${verdictColor(result.verdict)}`}>
+            {VERDICT_LABELS[result.verdict]}
+          </span>
+        )}
+      </div>
+
+      {error && <p className="text-red-600 dark:text-red-400">{error}</p>}
+
+      {result?.compile && !result.compile.success && (
+        <pre className="max-h-48 overflow-auto rounded bg-gray-50 dark:bg-gray-950 p-2 font-mono text-xs text-red-700 dark:text-red-300">
+          {result.compile.output}
+        </pre>
+      )}
+
+      {result?.results.map((r) => (
+        <div key={r.index} className="rounded border border-gray-200 dark:border-gray-700 p-2">
+          <div className="flex items-center justify-between text-xs">
+            <span className={`font-medium ${verdictColor(r.verdict)}`}>
+              Test {r.index + 1}: {VERDICT_LABELS[r.verdict]}
+            </span>
+            <span className="text-gray-400">{Math.round(r.timeMs)} ms</span>
+          </div>
+          <pre className="mt-1 max-h-48 overflow-auto rounded bg-gray-50 dark:bg-gray-950 p-2 font-mono text-xs">
+            {r.stdout || '(no output)'}
+          </pre>
+          {r.stderr && (
+            <pre className="mt-1 max-h-32 overflow-auto rounded bg-gray-50 dark:bg-gray-950 p-2 font-mono text-xs text-red-700 dark:text-red-300">
+              {r.stderr}
+            </pre>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default CodeRunner;
@@ -1,15 +1,8 @@
 'use client';
 
 import { useState, useCallback } from 'react';
-
-/**
- * Feedback request interface matching the API
- */
-interface FeedbackRequest {
-  queryId: string;
-  rating: number;
-  comment?: string;
-}
+import type { FeedbackRequest, RunResult } from '@repo/types';
+import { traceHeaders } from '../../lib/tracing';
 
 /**
  * Props for the FeedbackWidget component
@@ -25,6 +18,8 @@ interface FeedbackWidgetProps {
   onError?: (error: string) => void;
   /** Whether to show a compact version */
   compact?: boolean;
+  /** Latest run of the answer's code, which the user may attach */
+  codeRun?: RunResult | null;
 }
 
 /**
@@ -60,6 +55,7 @@ export function FeedbackWidget({
   onSubmit,
   onError,
   compact = false,
+  codeRun,
 }: FeedbackWidgetProps) {
   const [rating, setRating] = useState<number>(0);
   const [hoveredRating, setHoveredRating] = useState<number>(0);
@@ -67,6 +63,7 @@ export function FeedbackWidget({
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitted, setSubmitted] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [attachRun, setAttachRun] = useState(true);
 
   const handleSubmit = useCallback(async () => {
     if (rating === 0) {
@@ -82,12 +79,15 @@ export function FeedbackWidget({
         queryId,
         rating,
         comment: comment.trim() || undefined,
+        runId: (attachRun && codeRun?.runId) || undefined,
       };
 
       const response = await fetch(`${apiUrl}/api/feedback`, {
         method: 'POST',
+        credentials: 'include',
         headers: {
           'Content-Type': 'application/json',
+          ...traceHeaders(),
         },
         body: JSON.stringify(request),
       });
@@ -106,7 +106,20 @@ export function FeedbackWidget({
     } finally {
       setIsSubmitting(false);
     }
-  }, [queryId, rating, comment, apiUrl, onSubmit, onError]);
+  }, [queryId, rating, comment, codeRun, attachRun, apiUrl, onSubmit, onError]);
+
+  // Only stored runs can be attached
+  const runToggle = codeRun?.runId && (
+    <label className="flex items-center gap-1 text-sm text-gray-600 dark:text-gray-400">
+      <input
+        type="checkbox"
+        checked={attachRun}
+        onChange={(e) => setAttachRun(e.target.checked)}
+        disabled={isSubmitting}
+      />
+      Attach code run ({codeRun.verdict.toLowerCase().replace(/_/g, ' ')})
+    </label>
+  );
 
   // Submitted state - show thank you message
   if (submitted) {
@@ -152,6 +165,7 @@ export function FeedbackWidget({
             />
           ))}
         </div>
+        {rating > 0 && runToggle}
         {rating > 0 && (
           <button
             onClick={handleSubmit}
@@ -248,6 +262,9 @@ export function FeedbackWidget({
         </div>
       )}
 
+      {/* Code run attachment */}
+      {rating > 0 && runToggle && <div className="mb-4">{runToggle}</div>}
+
       {/* Error message */}
       {error && (
         <div className="mb-4 p-2 bg-red-50 dark:bg-red-900/20 rounded text-sm text-red-600 dark:text-red-400">
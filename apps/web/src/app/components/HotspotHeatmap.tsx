@@ -0,0 +1,140 @@
+'use client';
+
+export interface HotspotTimelineDay {
+  date: string;
+  queries: number;
+  flagged: number;
+}
+
+export interface Hotspot {
+  concept: string;
+  score: number;
+  queryCount: number;
+  ratedCount: number;
+  lowRatingCount: number;
+  avgRating: number | null;
+  insufficientCount: number;
+  repeatCount: number;
+  avgRerankTopScore: number | null;
+  lowRatingRate: number;
+  insufficientRate: number;
+  repeatRate: number;
+  timeline: HotspotTimelineDay[];
+}
+
+interface HotspotHeatmapProps {
+  hotspots: Hotspot[];
+  /** Number of trailing days to draw */
+  days: number;
+  selectedConcept?: string | null;
+  onSelect?: (concept: string) => void;
+}
+
+/**
+ * Concept × day heatmap for misconception hotspots (FR-T-01).
+ * Cell color encodes the share of flagged queries (low rating or
+ * insufficient answer) on that day.
+ */
+export function HotspotHeatmap({ hotspots, days, selectedConcept, onSelect }: HotspotHeatmapProps) {
+  const dates = getTrailingDates(days);
+
+  if (hotspots.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        No hotspots in this period. Concepts appear once enough queries have been logged.
+      </p>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="border-separate border-spacing-0.5 text-xs">
+        <thead>
+          <tr>
+            <th className="text-left font-medium text-gray-500 dark:text-gray-400 pr-3 pb-1">
+              Concept
+            </th>
+            <th className="text-right font-medium text-gray-500 dark:text-gray-400 pr-3 pb-1">
+              Score
+            </th>
+            {dates.map((date, i) => (
+              <th
+                key={date}
+                className="font-normal text-gray-400 dark:text-gray-500 pb-1 w-4"
+                title={date}
+              >
+                {i % 7 === 0 ? date.slice(5) : ''}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {hotspots.map((hotspot) => {
+            const byDate = new Map(hotspot.timeline.map((d) => [d.date, d]));
+            const isSelected = hotspot.concept === selectedConcept;
+
+            return (
+              <tr
+                key={hotspot.concept}
+                onClick={() => onSelect?.(hotspot.concept)}
+                className={`cursor-pointer ${isSelected ? 'bg-blue-50 dark:bg-blue-900/30' : 'hover:bg-gray-50 dark:hover:bg-gray-800'}`}
+              >
+                <td className="pr-3 py-0.5 font-medium text-gray-900 dark:text-white whitespace-nowrap">
+                  {hotspot.concept}
+                </td>
+                <td className="pr-3 py-0.5 text-right font-mono text-gray-600 dark:text-gray-300">
+                  {hotspot.score.toFixed(2)}
+                </td>
+                {dates.map((date) => {
+                  const day = byDate.get(date);
+                  return (
+                    <td
+                      key={date}
+                      className={`w-4 h-4 rounded-sm ${cellColor(day)}`}
+                      title={
+                        day
+                          ? `${date}: ${day.flagged}/${day.queries} flagged`
+                          : `${date}: no queries`
+                      }
+                    />
+                  );
+                })}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <div className="mt-3 flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+        <span>Flagged share:</span>
+        <span className="w-3 h-3 rounded-sm bg-gray-100 dark:bg-gray-700" /> none
+        <span className="w-3 h-3 rounded-sm bg-green-200 dark:bg-green-800" /> &lt;25%
+        <span className="w-3 h-3 rounded-sm bg-yellow-300 dark:bg-yellow-700" /> &lt;50%
+        <span className="w-3 h-3 rounded-sm bg-orange-400 dark:bg-orange-600" /> &lt;75%
+        <span className="w-3 h-3 rounded-sm bg-red-500 dark:bg-red-600" /> 75%+
+      </div>
+    </div>
+  );
+}
+
+function cellColor(day: HotspotTimelineDay | undefined): string {
+  if (!day || day.queries === 0) return 'bg-gray-100 dark:bg-gray-700';
+
+  const share = day.flagged / day.queries;
+  if (share >= 0.75) return 'bg-red-500 dark:bg-red-600';
+  if (share >= 0.5) return 'bg-orange-400 dark:bg-orange-600';
+  if (share >= 0.25) return 'bg-yellow-300 dark:bg-yellow-700';
+  return 'bg-green-200 dark:bg-green-800';
+}
+
+function getTrailingDates(days: number): string[] {
+  const dates: string[] = [];
+  const today = new Date();
+
+  for (let i = days - 1; i >= 0; i--) {
+    const d = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate() - i));
+    dates.push(d.toISOString().slice(0, 10));
+  }
+
+  return dates;
+}
@@ -0,0 +1,273 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import ReactMarkdown, { type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import type { Element, ElementContent } from 'hast';
+import type { RunResult, RunTest } from '@repo/types';
+import { remarkCitationMarkers } from '../../lib/citation-markers';
+import { extractSamples, runLanguage } from '../../lib/code-samples';
+import { CodeRunner } from './CodeRunner';
+import 'katex/dist/katex.min.css';
+
+/**
+ * Languages tried when a code block has no language tag
+ */
+const DETECTED_LANGUAGES = ['cpp', 'python', 'java', 'c', 'javascript', 'bash'];
+
+/**
+ * Code block tags that are output or plain text, not code
+ */
+const PLAIN_TEXT_LANGUAGES = ['text', 'txt', 'plaintext', 'output', 'input'];
+
+interface MarkdownContentProps {
+  content: string;
+  /** IDs of the answer's citations ("[1]"); other markers are not links */
+  citationIds?: ReadonlySet<string>;
+  onCitationClick?: (citationId: string) => void;
+  /** API base URL; C++, Python and Java blocks get a Run button when set */
+  apiUrl?: string;
+  onRunComplete?: (result: RunResult) => void;
+}
+
+interface RunOptions {
+  apiUrl: string;
+  samples: RunTest[];
+  onRunComplete?: (result: RunResult) => void;
+}
+
+/**
+ * Render an answer as markdown: GFM tables and lists, KaTeX formulas
+ * (`$…$`, `$$…$$`), highlighted code blocks and clickable `[n]` markers.
+ * Raw HTML in the answer is shown as text, never injected.
+ */
+export function MarkdownContent({
+  content,
+  citationIds,
+  onCitationClick,
+  apiUrl,
+  onRunComplete,
+}: MarkdownContentProps) {
+  const samples = useMemo(() => extractSamples(content), [content]);
+  const runOptions = useMemo<RunOptions | undefined>(
+    () => (apiUrl ? { apiUrl, samples, onRunComplete } : undefined),
+    [apiUrl, samples, onRunComplete],
+  );
+
+  const components = useMemo<Components>(
+    () => ({
+      h1: ({ children }) => (
+        <h3 className="mt-4 mb-2 text-lg font-semibold first:mt-0">{children}</h3>
+      ),
+      h2: ({ children }) => (
+        <h4 className="mt-4 mb-2 text-base font-semibold first:mt-0">{children}</h4>
+      ),
+      h3: ({ children }) => <h5 className="mt-3 mb-1 font-semibold first:mt-0">{children}</h5>,
+      p: ({ children }) => <p className="mb-3 last:mb-0">{children}</p>,
+      ul: ({ children }) => <ul className="mb-3 list-disc space-y-1 pl-6">{children}</ul>,
+      ol: ({ children }) => <ol className="mb-3 list-decimal space-y-1 pl-6">{children}</ol>,
+      blockquote: ({ children }) => (
+        <blockquote className="mb-3 border-l-2 border-gray-300 dark:border-gray-600 pl-3 text-gray-600 dark:text-gray-400">
+          {children}
+        </blockquote>
+      ),
+      a: ({ href, children }) => (
+        <a
+          href={href}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          {children}
+        </a>
+      ),
+      table: ({ children }) => (
+        <div className="mb-3 overflow-x-auto">
+          <table className="min-w-full border-collapse text-sm">{children}</table>
+        </div>
+      ),
+      th: ({ children, style }) => (
+        <th
+          style={style}
+          className="border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 px-2 py-1 font-semibold"
+        >
+          {children}
+        </th>
+      ),
+      td: ({ children, style }) => (
+        <td style={style} className="border border-gray-200 dark:border-gray-700 px-2 py-1">
+          {children}
+        </td>
+      ),
+      // Code blocks render their own <code>, so this is only inline code
+      pre: ({ node }) => (node ? <CodeBlock node={node} runOptions={runOptions} /> : null),
+      code: ({ children }) => (
+        <code className="bg-gray-100 dark:bg-gray-900 px-1 py-0.5 rounded text-sm">{children}</code>
+      ),
+      sup: ({ node, children }) => {
+        const marker = node?.properties.dataCitation;
+        if (typeof marker !== 'string') return <sup>{children}</sup>;
+
+        const citationId = `[${marker}]`;
+        if (!onCitationClick || !citationIds?.has(citationId)) {
+          return <sup className="text-blue-600 dark:text-blue-400 font-medium">{children}</sup>;
+        }
+        return (
+          <sup>
+            <button
+              type="button"
+              onClick={() => onCitationClick(citationId)}
+              aria-label={`Show source ${citationId}`}
+              className="text-blue-600 dark:text-blue-400 font-medium hover:underline"
+            >
+              {children}
+            </button>
+          </sup>
+        );
+      },
+    }),
+    [citationIds, onCitationClick, runOptions],
+  );
+
+  return (
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm, remarkMath, remarkCitationMarkers]}
+      rehypePlugins={[
+        rehypeKatex,
+        [
+          rehypeHighlight,
+          { detect: true, subset: DETECTED_LANGUAGES, plainText: PLAIN_TEXT_LANGUAGES },
+        ],
+      ]}
+      components={components}
+    >
+      {content}
+    </ReactMarkdown>
+  );
+}
+
+/**
+ * Text of a hast node and its descendants
+ */
+function textContent(node: ElementContent): string {
+  if (node.type === 'text') return node.value;
+  return 'children' in node ? node.children.map(textContent).join('') : '';
+}
+
+/**
+ * Fenced code block with a language label, copy button and line numbers,
+ * and a Run button for languages the sandbox runs
+ */
+function CodeBlock({ node, runOptions }: { node: Element; runOptions?: RunOptions }) {
+  const [showRunner, setShowRunner] = useState(false);
+  const code = node.children.find(
+    (child): child is Element => child.type === 'element' && child.tagName === 'code',
+  );
+  const source = code ? textContent(code).replace(/\n$/, '') : '';
+  const classNames =
+    code && Array.isArray(code.properties.className) ? code.properties.className.map(String) : [];
+  const language = classNames
+    .find((name) => name.startsWith('language-'))
+    ?.slice('language-'.length);
+  const lineCount = source.split('\n').length;
+  const runnable = runOptions ? runLanguage(language) : null;
+
+  return (
+    <div className="mb-3 rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-1 bg-gray-100 dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700">
+        <span className="font-mono text-xs text-gray-500 dark:text-gray-400">
+          {language ?? 'code'}
+        </span>
+        <div className="flex items-center gap-3">
+          {runnable && (
+            <button
+              type="button"
+              onClick={() => setShowRunner((show) => !show)}
+              aria-expanded={showRunner}
+              className="text-xs text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100"
+            >
+              {showRunner ? 'Hide run' : 'Run'}
+            </button>
+          )}
+          <CopyButton text={source} />
+        </div>
+      </div>
+      <div className="flex overflow-x-auto bg-gray-50 dark:bg-gray-950 font-mono text-sm leading-6">
+        <div
+          aria-hidden="true"
+          className="select-none py-3 pl-3 pr-3 text-right text-gray-400 dark:text-gray-600"
+        >
+          {Array.from({ length: lineCount }, (_, i) => (
+            <div key={i}>{i + 1}</div>
+          ))}
+        </div>
+        <pre className="flex-1 py-3 pr-3">
+          <code className={classNames.join(' ')}>
+            <HastChildren nodes={code?.children ?? []} />
+          </code>
+        </pre>
+      </div>
+      {runnable && runOptions && showRunner && (
+        <CodeRunner
+          apiUrl={runOptions.apiUrl}
+          language={runnable}
+          code={source}
+          samples={runOptions.samples}
+          onRunComplete={runOptions.onRunComplete}
+        />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Render highlighted code (text and `span.hljs-*` elements)
+ */
+function HastChildren({ nodes }: { nodes: ElementContent[] }) {
+  return (
+    <>
+      {nodes.map((node, i) => {
+        if (node.type === 'text') return node.value;
+        if (node.type !== 'element') return null;
+        const className = Array.isArray(node.properties.className)
+          ? node.properties.className.join(' ')
+          : undefined;
+        return (
+          <span key={i} className={className}>
+            <HastChildren nodes={node.children} />
+          </span>
+        );
+      })}
+    </>
+  );
+}
+
+function CopyButton({ text }: { text: string }) {
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), 2000);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  return (
+    <button
+      type="button"
+      onClick={() =>
+        navigator.clipboard.writeText(text).then(
+          () => setCopied(true),
+          () => undefined,
+        )
+      }
+      className="text-xs text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100"
+    >
+      {copied ? 'Copied' : 'Copy'}
+    </button>
+  );
+}
+
+export default MarkdownContent;
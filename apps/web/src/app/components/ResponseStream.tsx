@@ -1,21 +1,52 @@
 'use client';
 
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { CitationList, type Citation } from './CitationList';
+import { MarkdownContent } from './MarkdownContent';
+import { traceHeaders } from '../../lib/tracing';
 
 interface ConfidenceInfo {
   level: 'high' | 'medium' | 'low' | 'insufficient';
   hasInsufficientEvidence: boolean;
   topScore: number;
+  rerankScorer?: RerankScorer;
+}
+
+/**
+ * Scorer that ranked the sources; anything but 'reranker' is a fallback
+ */
+type RerankScorer = 'reranker' | 'secondary_reranker' | 'local' | 'rrf';
+
+const DEGRADED_SCORER_LABELS: Record<Exclude<RerankScorer, 'reranker'>, string> = {
+  secondary_reranker: 'Sources ranked by the backup reranker',
+  local: 'Reranker unavailable: sources ranked by keyword and embedding similarity',
+  rrf: 'Reranker unavailable: sources are unranked search results',
+};
+
+/**
+ * Verification of one claim of the answer against its cited sources
+ */
+interface ClaimVerification {
+  index: number;
+  text: string;
+  citationIds: string[];
+  verdict: 'supported' | 'partial' | 'unsupported' | 'uncited' | 'unverified';
+}
+
+interface FaithfulnessInfo {
+  score: number | null;
+  claims: ClaimVerification[];
+  unsupportedCount: number;
 }
 
 interface StreamChunk {
-  type: 'token' | 'citation' | 'metadata' | 'done' | 'error' | 'confidence';
+  type: 'token' | 'citation' | 'metadata' | 'done' | 'error' | 'confidence' | 'faithfulness';
   content?: string;
   citation?: Citation;
   metadata?: ResponseMetadata;
   error?: string;
   confidence?: ConfidenceInfo;
+  faithfulness?: FaithfulnessInfo;
 }
 
 interface ResponseMetadata {
@@ -26,10 +57,15 @@ interface ResponseMetadata {
   vectorResultCount: number;
   graphResultCount: number;
   latencyMs: number;
+  rerankScorer?: RerankScorer;
+  faithfulnessScore?: number | null;
+  cacheHit?: boolean;
 }
 
 interface ResponseStreamProps {
   query: string;
+  /** Conversation session for multi-turn follow-ups */
+  sessionId?: string;
   apiUrl: string;
   onComplete?: (response: {
     answer: string;
@@ -39,14 +75,17 @@ interface ResponseStreamProps {
   onError?: (error: string) => void;
 }
 
-export function ResponseStream({ query, apiUrl, onComplete, onError }: ResponseStreamProps) {
+export function ResponseStream({ query, sessionId, apiUrl, onComplete, onError }: ResponseStreamProps) {
   const [answer, setAnswer] = useState('');
   const [citations, setCitations] = useState<Citation[]>([]);
   const [metadata, setMetadata] = useState<ResponseMetadata | null>(null);
   const [confidenceInfo, setConfidenceInfo] = useState<ConfidenceInfo | null>(null);
+  const [faithfulness, setFaithfulness] = useState<FaithfulnessInfo | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isStreaming, setIsStreaming] = useState(true);
+  const [selectedCitationId, setSelectedCitationId] = useState<string | null>(null);
   const contentRef = useRef<HTMLDivElement>(null);
+  const citationIds = useMemo(() => new Set(citations.map((citation) => citation.id)), [citations]);
 
   useEffect(() => {
     const abortController = new AbortController();
@@ -55,11 +94,14 @@ export function ResponseStream({ query, apiUrl, onComplete, onError }: ResponseS
       try {
         const response = await fetch(`${apiUrl}/api/query/stream`, {
           method: 'POST',
+          credentials: 'include',
           headers: {
             'Content-Type': 'application/json',
+            ...traceHeaders(),
           },
           body: JSON.stringify({
             query,
+            sessionId,
             topK: 5,
             includeGraph: true,
             stream: true,
@@ -132,6 +174,12 @@ export function ResponseStream({ query, apiUrl, onComplete, onError }: ResponseS
                   }
                   break;
 
+                case 'faithfulness':
+                  if (chunk.faithfulness) {
+                    setFaithfulness(chunk.faithfulness);
+                  }
+                  break;
+
                 case 'metadata':
                   if (chunk.metadata) {
                     responseMetadata = chunk.metadata;
@@ -175,7 +223,7 @@ export function ResponseStream({ query, apiUrl, onComplete, onError }: ResponseS
     return () => {
       abortController.abort();
     };
-  }, [query, apiUrl, onComplete, onError]);
+  }, [query, sessionId, apiUrl, onComplete, onError]);
 
   // Auto-scroll to bottom as content streams
   useEffect(() => {
@@ -196,6 +244,8 @@ export function ResponseStream({ query, apiUrl, onComplete, onError }: ResponseS
     );
   }
 
+  const rerankScorer = metadata?.rerankScorer ?? confidenceInfo?.rerankScorer;
+
   return (
     <div className="space-y-4">
       {/* Uncertainty acknowledgment banner - shown early when evidence is insufficient */}
@@ -210,7 +260,13 @@ export function ResponseStream({ query, apiUrl, onComplete, onError }: ResponseS
       >
         {answer ? (
           <div className="prose dark:prose-invert max-w-none">
-            <MarkdownContent content={answer} />
+            <MarkdownContent
+              content={answer}
+              citationIds={citationIds}
+              onCitationClick={setSelectedCitationId}
+              // Code blocks can be run once the answer is complete
+              apiUrl={isStreaming ? undefined : apiUrl}
+            />
           </div>
         ) : (
           <div className="flex items-center gap-2 text-gray-500 dark:text-gray-400">
@@ -224,6 +280,13 @@ export function ResponseStream({ query, apiUrl, onComplete, onError }: ResponseS
         )}
       </div>
 
+      {/* Claims not backed by their cited sources */}
+      {faithfulness && faithfulness.unsupportedCount > 0 && (
+        <UnsupportedClaimsNotice
+          claims={faithfulness.claims.filter((claim) => claim.verdict === 'unsupported')}
+        />
+      )}
+
       {/* Confidence indicator */}
       {(metadata || confidenceInfo) && (
         <ConfidenceIndicator
@@ -231,8 +294,21 @@ export function ResponseStream({ query, apiUrl, onComplete, onError }: ResponseS
         />
       )}
 
+      {/* Degraded ranking notice */}
+      {rerankScorer && rerankScorer !== 'reranker' && (
+        <p className="text-xs text-amber-700 dark:text-amber-400">
+          {DEGRADED_SCORER_LABELS[rerankScorer]}
+        </p>
+      )}
+
       {/* Citations */}
-      {citations.length > 0 && <CitationList citations={citations} />}
+      {citations.length > 0 && (
+        <CitationList
+          citations={citations}
+          selectedId={selectedCitationId}
+          onSelect={setSelectedCitationId}
+        />
+      )}
 
       {/* Metadata footer */}
       {metadata && !isStreaming && (
@@ -241,6 +317,10 @@ export function ResponseStream({ query, apiUrl, onComplete, onError }: ResponseS
           <span>Vector results: {metadata.vectorResultCount}</span>
           <span>Graph results: {metadata.graphResultCount}</span>
           <span>Citations: {metadata.citationCount}</span>
+          {metadata.faithfulnessScore != null && (
+            <span>Source support: {Math.round(metadata.faithfulnessScore * 100)}%</span>
+          )}
+          {metadata.cacheHit && <span>Answered from cache</span>}
         </div>
       )}
     </div>
@@ -299,6 +379,26 @@ function UncertaintyBanner({ confidenceLevel }: { confidenceLevel: string }) {
   );
 }
 
+function UnsupportedClaimsNotice({ claims }: { claims: ClaimVerification[] }) {
+  return (
+    <div className="p-3 rounded-lg border bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800">
+      <div className="flex items-center gap-2">
+        <WarningIcon className="text-amber-600 dark:text-amber-400" />
+        <h4 className="text-sm font-medium text-amber-800 dark:text-amber-300">
+          {claims.length === 1
+            ? '1 statement is not backed by the source it cites'
+            : `${claims.length} statements are not backed by the sources they cite`}
+        </h4>
+      </div>
+      <ul className="mt-2 space-y-1 text-sm text-amber-700 dark:text-amber-400 list-disc pl-5">
+        {claims.map((claim) => (
+          <li key={claim.index}>{claim.text}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
 function WarningIcon({ className }: { className?: string }) {
   return (
     <svg
@@ -353,46 +453,6 @@ function ConfidenceIndicator({ confidence }: { confidence: string }) {
   );
 }
 
-function MarkdownContent({ content }: { content: string }) {
-  // Simple markdown-like rendering
-  // In production, use a proper markdown library like react-markdown
-  const paragraphs = content.split('\n\n');
-
-  return (
-    <>
-      {paragraphs.map((paragraph, i) => {
-        const trimmed = paragraph.trim();
-        if (!trimmed) return null;
-
-        // Code blocks
-        if (trimmed.startsWith('```')) {
-          const codeContent = trimmed.slice(3).replace(/```$/, '');
-          return (
-            <pre key={i} className="bg-gray-100 dark:bg-gray-900 p-3 rounded overflow-x-auto">
-              <code>{codeContent}</code>
-            </pre>
-          );
-        }
-
-        // Inline code and citations
-        const processed = trimmed
-          .replace(
-            /`([^`]+)`/g,
-            '<code class="bg-gray-100 dark:bg-gray-900 px-1 py-0.5 rounded text-sm">$1</code>',
-          )
-          .replace(
-            /\[(\d+)\]/g,
-            '<sup class="text-blue-600 dark:text-blue-400 font-medium">[$1]</sup>',
-          );
-
-        return (
-          <p key={i} className="mb-3 last:mb-0" dangerouslySetInnerHTML={{ __html: processed }} />
-        );
-      })}
-    </>
-  );
-}
-
 function LoadingDots() {
   return (
     <span className="flex gap-1">
@@ -0,0 +1,220 @@
+'use client';
+
+export interface LatencyPercentiles {
+  p50: number | null;
+  p90: number | null;
+  p95: number | null;
+  p99: number | null;
+}
+
+export interface TrendBucket {
+  start: string;
+  queryCount: number;
+  streamedCount: number;
+  latencyMs: LatencyPercentiles;
+  firstTokenLatencyMs: LatencyPercentiles;
+  byStrategy: Record<string, number>;
+  byConfidence: Record<string, number>;
+  byTopic: Record<string, number>;
+}
+
+export type TrendBreakdown = 'byStrategy' | 'byConfidence' | 'byTopic';
+
+const CHART_HEIGHT = 160;
+const BAR_GAP = 2;
+
+/**
+ * Fixed colors for known keys so they stay stable across charts
+ */
+const KEY_COLORS: Record<string, string> = {
+  hybrid: '#2563eb',
+  vector_only: '#7c3aed',
+  graph_only: '#0d9488',
+  degraded: '#dc2626',
+  high: '#16a34a',
+  medium: '#ca8a04',
+  low: '#ea580c',
+  insufficient: '#dc2626',
+  unknown: '#9ca3af',
+  '(none)': '#9ca3af',
+};
+
+const PALETTE = ['#2563eb', '#16a34a', '#ca8a04', '#7c3aed', '#0d9488', '#db2777', '#ea580c'];
+
+function colorFor(key: string, index: number): string {
+  return KEY_COLORS[key] ?? PALETTE[index % PALETTE.length];
+}
+
+function formatBucketLabel(start: string, interval: string): string {
+  const date = new Date(start);
+  if (interval === 'hour') {
+    return `${date.getMonth() + 1}/${date.getDate()} ${String(date.getHours()).padStart(2, '0')}h`;
+  }
+  return `${date.getMonth() + 1}/${date.getDate()}`;
+}
+
+/**
+ * Stacked bar chart of query volume per bucket, split by a breakdown
+ */
+export function QueryVolumeChart({
+  buckets,
+  breakdown,
+  interval,
+}: {
+  buckets: TrendBucket[];
+  breakdown: TrendBreakdown;
+  interval: string;
+}) {
+  const keys = Array.from(new Set(buckets.flatMap((b) => Object.keys(b[breakdown])))).sort();
+  const maxCount = Math.max(1, ...buckets.map((b) => b.queryCount));
+  const barWidth = Math.max(4, Math.floor(720 / Math.max(buckets.length, 1)) - BAR_GAP);
+  const width = buckets.length * (barWidth + BAR_GAP);
+  const labelEvery = Math.ceil(buckets.length / 8);
+
+  return (
+    <div>
+      <div className="overflow-x-auto">
+        <svg width={width} height={CHART_HEIGHT + 20} role="img" aria-label="Query volume">
+          {buckets.map((bucket, i) => {
+            let y = CHART_HEIGHT;
+            const x = i * (barWidth + BAR_GAP);
+
+            return (
+              <g key={bucket.start}>
+                <title>
+                  {`${formatBucketLabel(bucket.start, interval)}: ${bucket.queryCount} queries`}
+                </title>
+                {keys.map((key, k) => {
+                  const count = bucket[breakdown][key] ?? 0;
+                  if (count === 0) return null;
+                  const h = (count / maxCount) * CHART_HEIGHT;
+                  y -= h;
+                  return (
+                    <rect
+                      key={key}
+                      x={x}
+                      y={y}
+                      width={barWidth}
+                      height={h}
+                      fill={colorFor(key, k)}
+                    />
+                  );
+                })}
+                {i % labelEvery === 0 && (
+                  <text
+                    x={x}
+                    y={CHART_HEIGHT + 14}
+                    fontSize={10}
+                    className="fill-gray-400"
+                  >
+                    {formatBucketLabel(bucket.start, interval)}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+
+      <div className="mt-2 flex flex-wrap gap-3 text-xs text-gray-600 dark:text-gray-300">
+        {keys.map((key, k) => (
+          <span key={key} className="flex items-center gap-1">
+            <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: colorFor(key, k) }} />
+            {key}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Line chart of latency percentiles per bucket
+ */
+export function LatencyChart({
+  buckets,
+  metric,
+  interval,
+  targetMs,
+}: {
+  buckets: TrendBucket[];
+  metric: 'latencyMs' | 'firstTokenLatencyMs';
+  interval: string;
+  /** Optional target line (e.g. 3000ms first-token target) */
+  targetMs?: number;
+}) {
+  const series: Array<{ key: keyof LatencyPercentiles; color: string }> = [
+    { key: 'p50', color: '#2563eb' },
+    { key: 'p95', color: '#ea580c' },
+    { key: 'p99', color: '#dc2626' },
+  ];
+
+  const values = buckets.flatMap((b) => series.map((s) => b[metric][s.key] ?? 0));
+  const maxValue = Math.max(1, targetMs ?? 0, ...values);
+  const step = Math.max(6, Math.floor(720 / Math.max(buckets.length, 1)));
+  const width = Math.max(step * buckets.length, step);
+  const labelEvery = Math.ceil(buckets.length / 8);
+
+  const yFor = (value: number) => CHART_HEIGHT - (value / maxValue) * CHART_HEIGHT;
+
+  const pathFor = (key: keyof LatencyPercentiles) => {
+    let d = '';
+    let penDown = false;
+    buckets.forEach((bucket, i) => {
+      const value = bucket[metric][key];
+      if (value === null) {
+        penDown = false;
+        return;
+      }
+      d += `${penDown ? 'L' : 'M'}${i * step + step / 2},${yFor(value)} `;
+      penDown = true;
+    });
+    return d.trim();
+  };
+
+  return (
+    <div>
+      <div className="overflow-x-auto">
+        <svg width={width} height={CHART_HEIGHT + 20} role="img" aria-label="Latency percentiles">
+          {targetMs !== undefined && (
+            <line
+              x1={0}
+              x2={width}
+              y1={yFor(targetMs)}
+              y2={yFor(targetMs)}
+              stroke="#9ca3af"
+              strokeDasharray="4 4"
+            />
+          )}
+          {series.map((s) => (
+            <path key={s.key} d={pathFor(s.key)} fill="none" stroke={s.color} strokeWidth={2} />
+          ))}
+          {buckets.map((bucket, i) =>
+            i % labelEvery === 0 ? (
+              <text
+                key={bucket.start}
+                x={i * step}
+                y={CHART_HEIGHT + 14}
+                fontSize={10}
+                className="fill-gray-400"
+              >
+                {formatBucketLabel(bucket.start, interval)}
+              </text>
+            ) : null
+          )}
+        </svg>
+      </div>
+
+      <div className="mt-2 flex flex-wrap gap-3 text-xs text-gray-600 dark:text-gray-300">
+        {series.map((s) => (
+          <span key={s.key} className="flex items-center gap-1">
+            <span className="w-3 h-0.5" style={{ backgroundColor: s.color }} />
+            {s.key}
+          </span>
+        ))}
+        {targetMs !== undefined && <span>- - target {targetMs}ms</span>}
+        <span className="text-gray-400">max {Math.round(maxValue)}ms</span>
+      </div>
+    </div>
+  );
+}
@@ -4,7 +4,10 @@ import { useState, useCallback } from 'react';
 import { QueryInput } from './components/QueryInput';
 import { ResponseStream } from './components/ResponseStream';
 import { FeedbackWidget } from './components/FeedbackWidget';
+import { MarkdownContent } from './components/MarkdownContent';
+import { AuthGate, UserMenu } from './components/AuthGate';
 import type { Citation } from './components/CitationList';
+import type { RunResult } from '@repo/types';
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8080';
 
@@ -22,9 +25,19 @@ interface CompletedResponse {
 }
 
 export default function Home() {
+  return (
+    <AuthGate apiUrl={API_URL}>
+      <QAPage />
+    </AuthGate>
+  );
+}
+
+function QAPage() {
   const [currentQuery, setCurrentQuery] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [history, setHistory] = useState<CompletedResponse[]>([]);
+  // One conversation per page load; the API uses it for follow-up context
+  const [sessionId] = useState(() => crypto.randomUUID());
 
   const handleSubmit = useCallback((query: string) => {
     setCurrentQuery(query);
@@ -59,7 +72,7 @@ export default function Home() {
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
       {/* Header */}
       <header className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
-        <div className="max-w-4xl mx-auto px-4 py-4">
+        <div className="max-w-4xl mx-auto px-4 py-4 flex items-center justify-between">
           <div className="flex items-center gap-3">
             <div className="w-10 h-10 bg-blue-600 rounded-lg flex items-center justify-center">
               <BookIcon className="w-6 h-6 text-white" />
@@ -73,6 +86,7 @@ export default function Home() {
               </p>
             </div>
           </div>
+          <UserMenu apiUrl={API_URL} />
         </div>
       </header>
 
@@ -101,6 +115,7 @@ export default function Home() {
             </div>
             <ResponseStream
               query={currentQuery}
+              sessionId={sessionId}
               apiUrl={API_URL}
               onComplete={handleComplete}
               onError={handleError}
@@ -217,6 +232,8 @@ function HistoryItem({
   onFeedbackSubmit: () => void;
 }) {
   const [expanded, setExpanded] = useState(false);
+  // Latest run of the answer's code, offered for attaching to feedback
+  const [codeRun, setCodeRun] = useState<RunResult | null>(null);
 
   return (
     <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden">
@@ -240,7 +257,11 @@ function HistoryItem({
       {expanded && (
         <div className="px-4 pb-4 border-t border-gray-100 dark:border-gray-700">
           <div className="pt-4 prose dark:prose-invert max-w-none text-sm">
-            {response.answer}
+            <MarkdownContent
+              content={response.answer}
+              apiUrl={apiUrl}
+              onRunComplete={setCodeRun}
+            />
           </div>
 
           {response.citations.length > 0 && (
@@ -281,6 +302,7 @@ function HistoryItem({
                 queryId={response.metadata.queryId}
                 apiUrl={apiUrl}
                 onSubmit={onFeedbackSubmit}
+                codeRun={codeRun}
                 compact
               />
             </div>
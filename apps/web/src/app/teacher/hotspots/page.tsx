@@ -0,0 +1,239 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { AuthGate, UserMenu } from '../../components/AuthGate';
+import { HotspotHeatmap, type Hotspot } from '../../components/HotspotHeatmap';
+import { traceHeaders } from '../../../lib/tracing';
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8080';
+
+const WINDOW_OPTIONS = [7, 30, 90];
+
+/**
+ * Anonymized question group from the drill-down endpoint
+ */
+interface ConceptQuery {
+  queryText: string;
+  timesAsked: number;
+  lastAskedAt: string;
+  avgRating: number | null;
+  lowRatingCount: number;
+  insufficientCount: number;
+}
+
+export default function HotspotsPage() {
+  return (
+    <AuthGate apiUrl={API_URL} roles={['tutor', 'admin']}>
+      <HotspotsContent />
+    </AuthGate>
+  );
+}
+
+function HotspotsContent() {
+  const [days, setDays] = useState(30);
+  const [hotspots, setHotspots] = useState<Hotspot[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedConcept, setSelectedConcept] = useState<string | null>(null);
+
+  useEffect(() => {
+    const abortController = new AbortController();
+
+    async function loadHotspots() {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch(`${API_URL}/api/analytics/hotspots?days=${days}`, {
+          credentials: 'include',
+          headers: traceHeaders(),
+          signal: abortController.signal,
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.message || 'Failed to load hotspots');
+        }
+
+        const data: { hotspots: Hotspot[] } = await response.json();
+        setHotspots(data.hotspots);
+      } catch (err) {
+        if (err instanceof Error && err.name === 'AbortError') return;
+        setError(err instanceof Error ? err.message : 'Failed to load hotspots');
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    loadHotspots();
+
+    return () => abortController.abort();
+  }, [days]);
+
+  const selected = hotspots.find((h) => h.concept === selectedConcept) ?? null;
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      {/* Header */}
+      <header className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-6xl mx-auto px-4 py-4 flex items-center justify-between">
+          <div>
+            <h1 className="text-xl font-bold text-gray-900 dark:text-white">
+              Misconception Hotspots
+            </h1>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Concepts with low ratings, insufficient answers and repeated questions
+            </p>
+          </div>
+          <nav className="flex gap-4 text-sm">
+            <Link
+              href="/teacher/trends"
+              className="text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              Trends
+            </Link>
+            <Link href="/" className="text-blue-600 dark:text-blue-400 hover:underline">
+              Back to Q&amp;A
+            </Link>
+            <UserMenu apiUrl={API_URL} />
+          </nav>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-4 py-8 space-y-6">
+        {/* Window selector */}
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-gray-600 dark:text-gray-400">Period:</span>
+          {WINDOW_OPTIONS.map((option) => (
+            <button
+              key={option}
+              onClick={() => setDays(option)}
+              className={`px-3 py-1 text-sm rounded-md border transition-colors ${
+                option === days
+                  ? 'bg-blue-600 border-blue-600 text-white'
+                  : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:border-blue-500'
+              }`}
+            >
+              {option} days
+            </button>
+          ))}
+        </div>
+
+        {/* Heatmap */}
+        <section className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+          {isLoading ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Loading hotspots...</p>
+          ) : error ? (
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          ) : (
+            <HotspotHeatmap
+              hotspots={hotspots}
+              days={days}
+              selectedConcept={selectedConcept}
+              onSelect={setSelectedConcept}
+            />
+          )}
+        </section>
+
+        {/* Drill-down */}
+        {selected && <ConceptDrillDown hotspot={selected} days={days} />}
+      </main>
+    </div>
+  );
+}
+
+function ConceptDrillDown({ hotspot, days }: { hotspot: Hotspot; days: number }) {
+  const [queries, setQueries] = useState<ConceptQuery[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const abortController = new AbortController();
+
+    async function loadQueries() {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch(
+          `${API_URL}/api/analytics/hotspots/${encodeURIComponent(hotspot.concept)}/queries?days=${days}`,
+          { credentials: 'include', headers: traceHeaders(), signal: abortController.signal }
+        );
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.message || 'Failed to load queries');
+        }
+
+        const data: { queries: ConceptQuery[] } = await response.json();
+        setQueries(data.queries);
+      } catch (err) {
+        if (err instanceof Error && err.name === 'AbortError') return;
+        setError(err instanceof Error ? err.message : 'Failed to load queries');
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    loadQueries();
+
+    return () => abortController.abort();
+  }, [hotspot.concept, days]);
+
+  return (
+    <section className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+        {hotspot.concept}
+      </h2>
+
+      <div className="mt-2 grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+        <Stat label="Queries" value={String(hotspot.queryCount)} />
+        <Stat
+          label="Avg rating"
+          value={hotspot.avgRating !== null ? hotspot.avgRating.toFixed(1) : '—'}
+        />
+        <Stat label="Insufficient" value={String(hotspot.insufficientCount)} />
+        <Stat label="Repeats" value={String(hotspot.repeatCount)} />
+      </div>
+
+      <h3 className="mt-6 mb-2 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide">
+        Questions (anonymized)
+      </h3>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading questions...</p>
+      ) : error ? (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      ) : queries.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No questions recorded.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+          {queries.map((q, i) => (
+            <li key={i} className="py-2 flex items-start justify-between gap-4">
+              <p className="text-sm text-gray-800 dark:text-gray-200">{q.queryText}</p>
+              <div className="flex gap-3 shrink-0 text-xs text-gray-500 dark:text-gray-400">
+                <span>×{q.timesAsked}</span>
+                {q.avgRating !== null && <span>★ {q.avgRating.toFixed(1)}</span>}
+                {q.insufficientCount > 0 && (
+                  <span className="text-orange-600 dark:text-orange-400">
+                    {q.insufficientCount} insufficient
+                  </span>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="p-2 bg-gray-50 dark:bg-gray-900 rounded-md">
+      <div className="text-xs text-gray-500 dark:text-gray-400">{label}</div>
+      <div className="font-semibold text-gray-900 dark:text-white">{value}</div>
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { AuthGate, UserMenu } from '../../components/AuthGate';
+import { traceHeaders } from '../../../lib/tracing';
+import {
+  QueryVolumeChart,
+  LatencyChart,
+  type TrendBucket,
+  type TrendBreakdown,
+  type LatencyPercentiles,
+} from '../../components/TrendChart';
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8080';
+
+/** First token target from the query API (T086) */
+const FIRST_TOKEN_TARGET_MS = 3000;
+
+type Interval = 'hour' | 'day' | 'week';
+
+const RANGE_OPTIONS: Array<{ label: string; interval: Interval; days: number }> = [
+  { label: '24 hours', interval: 'hour', days: 1 },
+  { label: '7 days', interval: 'hour', days: 7 },
+  { label: '30 days', interval: 'day', days: 30 },
+  { label: '90 days', interval: 'week', days: 90 },
+];
+
+const BREAKDOWN_OPTIONS: Array<{ label: string; value: TrendBreakdown }> = [
+  { label: 'Strategy', value: 'byStrategy' },
+  { label: 'Confidence', value: 'byConfidence' },
+  { label: 'Topic', value: 'byTopic' },
+];
+
+interface TrendsResponse {
+  window: { interval: Interval; days: number; since: string };
+  buckets: TrendBucket[];
+  totals: {
+    queryCount: number;
+    latencyMs: LatencyPercentiles;
+    firstTokenLatencyMs: LatencyPercentiles;
+    byStrategy: Record<string, number>;
+    byConfidence: Record<string, number>;
+    byTopic: Record<string, number>;
+  };
+}
+
+export default function TrendsPage() {
+  return (
+    <AuthGate apiUrl={API_URL} roles={['tutor', 'admin']}>
+      <TrendsContent />
+    </AuthGate>
+  );
+}
+
+function TrendsContent() {
+  const [range, setRange] = useState(RANGE_OPTIONS[1]);
+  const [breakdown, setBreakdown] = useState<TrendBreakdown>('byStrategy');
+  const [data, setData] = useState<TrendsResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const abortController = new AbortController();
+
+    async function loadTrends() {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch(
+          `${API_URL}/api/analytics/trends?interval=${range.interval}&days=${range.days}`,
+          { credentials: 'include', headers: traceHeaders(), signal: abortController.signal }
+        );
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.message || 'Failed to load trends');
+        }
+
+        setData(await response.json());
+      } catch (err) {
+        if (err instanceof Error && err.name === 'AbortError') return;
+        setError(err instanceof Error ? err.message : 'Failed to load trends');
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    loadTrends();
+
+    return () => abortController.abort();
+  }, [range]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      {/* Header */}
+      <header className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-6xl mx-auto px-4 py-4 flex items-center justify-between">
+          <div>
+            <h1 className="text-xl font-bold text-gray-900 dark:text-white">Query Trends</h1>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Volume, answer confidence and latency over time
+            </p>
+          </div>
+          <nav className="flex gap-4 text-sm">
+            <Link
+              href="/teacher/hotspots"
+              className="text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              Hotspots
+            </Link>
+            <Link href="/" className="text-blue-600 dark:text-blue-400 hover:underline">
+              Back to Q&amp;A
+            </Link>
+            <UserMenu apiUrl={API_URL} />
+          </nav>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-4 py-8 space-y-6">
+        {/* Range selector */}
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-gray-600 dark:text-gray-400">Period:</span>
+          {RANGE_OPTIONS.map((option) => (
+            <button
+              key={option.label}
+              onClick={() => setRange(option)}
+              className={`px-3 py-1 text-sm rounded-md border transition-colors ${
+                option === range
+                  ? 'bg-blue-600 border-blue-600 text-white'
+                  : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:border-blue-500'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading trends...</p>
+        ) : error ? (
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        ) : data ? (
+          <>
+            {/* Totals */}
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <Stat label="Queries" value={String(data.totals.queryCount)} />
+              <Stat label="Latency p50" value={formatMs(data.totals.latencyMs.p50)} />
+              <Stat label="Latency p95" value={formatMs(data.totals.latencyMs.p95)} />
+              <Stat
+                label="First token p95"
+                value={formatMs(data.totals.firstTokenLatencyMs.p95)}
+              />
+            </div>
+
+            {/* Volume */}
+            <section className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="font-semibold text-gray-900 dark:text-white">Query volume</h2>
+                <div className="flex gap-1">
+                  {BREAKDOWN_OPTIONS.map((option) => (
+                    <button
+                      key={option.value}
+                      onClick={() => setBreakdown(option.value)}
+                      className={`px-2 py-0.5 text-xs rounded ${
+                        option.value === breakdown
+                          ? 'bg-gray-900 text-white dark:bg-white dark:text-gray-900'
+                          : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <QueryVolumeChart
+                buckets={data.buckets}
+                breakdown={breakdown}
+                interval={data.window.interval}
+              />
+            </section>
+
+            {/* Latency */}
+            <div className="grid gap-6 lg:grid-cols-2">
+              <section className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+                <h2 className="font-semibold text-gray-900 dark:text-white mb-4">
+                  Execution time
+                </h2>
+                <LatencyChart
+                  buckets={data.buckets}
+                  metric="latencyMs"
+                  interval={data.window.interval}
+                />
+              </section>
+              <section className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+                <h2 className="font-semibold text-gray-900 dark:text-white mb-4">
+                  First token latency
+                </h2>
+                <LatencyChart
+                  buckets={data.buckets}
+                  metric="firstTokenLatencyMs"
+                  interval={data.window.interval}
+                  targetMs={FIRST_TOKEN_TARGET_MS}
+                />
+              </section>
+            </div>
+          </>
+        ) : null}
+      </main>
+    </div>
+  );
+}
+
+function formatMs(value: number | null): string {
+  if (value === null) return '—';
+  return value >= 1000 ? `${(value / 1000).toFixed(1)}s` : `${value}ms`;
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="p-3 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg">
+      <div className="text-xs text-gray-500 dark:text-gray-400">{label}</div>
+      <div className="text-lg font-semibold text-gray-900 dark:text-white">{value}</div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+/**
+ * Citation Markers
+ *
+ * Remark plugin turning `[n]` citation markers in answer text into
+ * `<sup data-citation="n">` elements, so the renderer can link them to
+ * their source. Code, math and link text are left alone.
+ */
+
+import type { Parent, PhrasingContent, Root, RootContent, Text } from 'mdast';
+
+const MARKER_REGEX = /\[(\d+)\]/g;
+
+/**
+ * Split a text node around its citation markers
+ */
+function splitMarkers(node: Text): PhrasingContent[] {
+  const parts: PhrasingContent[] = [];
+  let lastIndex = 0;
+
+  for (const match of node.value.matchAll(MARKER_REGEX)) {
+    if (match.index > lastIndex) {
+      parts.push({ type: 'text', value: node.value.slice(lastIndex, match.index) });
+    }
+    parts.push({
+      type: 'text',
+      value: match[0],
+      data: { hName: 'sup', hProperties: { dataCitation: match[1] } },
+    });
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex === 0) return [node];
+  if (lastIndex < node.value.length) {
+    parts.push({ type: 'text', value: node.value.slice(lastIndex) });
+  }
+  return parts;
+}
+
+function transform(parent: Parent): void {
+  parent.children = parent.children.flatMap((child): RootContent[] => {
+    if (child.type === 'text') return splitMarkers(child);
+    // A marker inside link text would be a button inside a link
+    if ('children' in child && child.type !== 'link' && child.type !== 'linkReference') {
+      transform(child);
+    }
+    return [child];
+  });
+}
+
+/**
+ * Mark `[n]` citation markers in text
+ */
+export function remarkCitationMarkers() {
+  return (tree: Root) => transform(tree);
+}
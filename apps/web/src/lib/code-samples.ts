@@ -0,0 +1,55 @@
+/**
+ * Code Samples
+ *
+ * Helpers for running an answer's code blocks: which block languages the
+ * sandbox runs, and the sample tests an answer gives as ```input and
+ * ```output blocks.
+ */
+
+import type { RunLanguage, RunTest } from '@repo/types';
+
+/**
+ * Code block language tags the sandbox can run
+ */
+const RUN_LANGUAGE_TAGS: Record<string, RunLanguage> = {
+  cpp: 'cpp',
+  'c++': 'cpp',
+  cc: 'cpp',
+  cxx: 'cpp',
+  python: 'python',
+  python3: 'python',
+  py: 'python',
+  java: 'java',
+};
+
+const SAMPLE_BLOCK_REGEX = /^(`{3,}|~{3,})[ \t]*(input|output)[^\n]*\n([\s\S]*?)^\1[ \t]*$/gm;
+
+/**
+ * Sandbox language of a code block tag, or null if it cannot be run
+ */
+export function runLanguage(tag: string | undefined): RunLanguage | null {
+  return (tag && RUN_LANGUAGE_TAGS[tag.toLowerCase()]) || null;
+}
+
+/**
+ * Sample tests in an answer: each ```input block paired, in order, with
+ * the ```output block that follows it
+ */
+export function extractSamples(markdown: string): RunTest[] {
+  const samples: RunTest[] = [];
+
+  for (const match of markdown.matchAll(SAMPLE_BLOCK_REGEX)) {
+    const [, , kind, body] = match;
+    const last = samples[samples.length - 1];
+    if (kind === 'input') {
+      samples.push({ input: body });
+    } else if (last && last.expectedOutput === undefined) {
+      last.expectedOutput = body;
+    } else {
+      // Output with no input: a program that reads nothing
+      samples.push({ input: '', expectedOutput: body });
+    }
+  }
+
+  return samples;
+}
@@ -0,0 +1,29 @@
+/**
+ * W3C Trace Context
+ *
+ * Each API request from the browser starts a trace: the `traceparent`
+ * header carries a fresh trace ID, and the API's spans (retrieval,
+ * reranking, generation) join it.
+ */
+
+/**
+ * Random lowercase hex ID of the given byte length
+ */
+function randomHex(bytes: number): string {
+  const values = crypto.getRandomValues(new Uint8Array(bytes));
+  return Array.from(values, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Create a traceparent header value for a new, sampled trace
+ */
+export function createTraceparent(): string {
+  return `00-${randomHex(16)}-${randomHex(8)}-01`;
+}
+
+/**
+ * Headers that start a new trace for an API request
+ */
+export function traceHeaders(): Record<string, string> {
+  return { traceparent: createTraceparent() };
+}
@@ -0,0 +1,15 @@
+CREATE TABLE IF NOT EXISTS "conversation_turns" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" uuid NOT NULL,
+	"query_id" uuid,
+	"question" text NOT NULL,
+	"standalone_query" text,
+	"answer" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "conversation_turns" ADD CONSTRAINT "conversation_turns_session_id_analytics_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "analytics_sessions"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,14 @@
+CREATE TABLE IF NOT EXISTS "query_concepts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"query_id" uuid NOT NULL,
+	"concept_name" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "rag_queries" ADD COLUMN "query_text" text;--> statement-breakpoint
+ALTER TABLE "rag_queries" ADD COLUMN "confidence" text;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "query_concepts" ADD CONSTRAINT "query_concepts_query_id_rag_queries_id_fk" FOREIGN KEY ("query_id") REFERENCES "rag_queries"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
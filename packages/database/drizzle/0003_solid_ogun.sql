@@ -0,0 +1,2 @@
+ALTER TABLE "rag_queries" ADD COLUMN "first_token_latency_ms" integer;--> statement-breakpoint
+ALTER TABLE "rag_queries" ADD COLUMN "topic_filter" text;
\ No newline at end of file
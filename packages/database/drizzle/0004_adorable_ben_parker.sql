@@ -0,0 +1,6 @@
+ALTER TABLE "ingestion_jobs" ADD COLUMN "attempts" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "ingestion_jobs" ADD COLUMN "leased_by" text;--> statement-breakpoint
+ALTER TABLE "ingestion_jobs" ADD COLUMN "lease_expires_at" timestamp;--> statement-breakpoint
+ALTER TABLE "ingestion_jobs" ADD COLUMN "heartbeat_at" timestamp;--> statement-breakpoint
+ALTER TABLE "ingestion_jobs" ADD COLUMN "available_at" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "ingestion_jobs" ADD COLUMN "completed_stage" text;
\ No newline at end of file
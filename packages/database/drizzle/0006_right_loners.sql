@@ -0,0 +1 @@
+ALTER TABLE "retrieval_metrics" ADD COLUMN "rerank_scorer" text;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE IF NOT EXISTS "embedding_versions" (
+	"version" integer PRIMARY KEY NOT NULL,
+	"collection_name" text NOT NULL,
+	"provider" text NOT NULL,
+	"model" text NOT NULL,
+	"dimensions" integer NOT NULL,
+	"status" text DEFAULT 'building' NOT NULL,
+	"processed_documents" integer DEFAULT 0 NOT NULL,
+	"total_documents" integer DEFAULT 0 NOT NULL,
+	"embedded_chunks" integer DEFAULT 0 NOT NULL,
+	"backfill_cursor" uuid,
+	"error_message" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"activated_at" timestamp,
+	CONSTRAINT "embedding_versions_collection_name_unique" UNIQUE("collection_name")
+);
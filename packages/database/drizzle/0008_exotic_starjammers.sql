@@ -0,0 +1,27 @@
+CREATE TABLE IF NOT EXISTS "eval_question_results" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"run_id" uuid NOT NULL,
+	"question_id" text NOT NULL,
+	"strategy" text,
+	"rerank_scorer" text,
+	"stages" jsonb NOT NULL,
+	"error_message" text
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "eval_runs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"golden_set_name" text NOT NULL,
+	"golden_set_hash" text NOT NULL,
+	"label" text,
+	"summary" jsonb NOT NULL,
+	"question_count" integer NOT NULL,
+	"failed_questions" integer DEFAULT 0 NOT NULL,
+	"duration_ms" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "eval_question_results" ADD CONSTRAINT "eval_question_results_run_id_eval_runs_id_fk" FOREIGN KEY ("run_id") REFERENCES "eval_runs"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
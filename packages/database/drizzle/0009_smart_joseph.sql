@@ -0,0 +1,4 @@
+ALTER TABLE "retrieval_metrics" ADD COLUMN "faithfulness_score" real;--> statement-breakpoint
+ALTER TABLE "retrieval_metrics" ADD COLUMN "claim_count" integer;--> statement-breakpoint
+ALTER TABLE "retrieval_metrics" ADD COLUMN "unsupported_claim_count" integer;--> statement-breakpoint
+ALTER TABLE "retrieval_metrics" ADD COLUMN "faithfulness_ms" integer;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "rag_queries" ADD COLUMN "cache_hit" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "feedback_events" ADD COLUMN "execution" jsonb;
\ No newline at end of file
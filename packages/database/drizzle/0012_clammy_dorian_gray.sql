@@ -0,0 +1,23 @@
+CREATE TABLE IF NOT EXISTS "code_runs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"language" text NOT NULL,
+	"code" text NOT NULL,
+	"verdict" text NOT NULL,
+	"result" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "feedback_events" ADD COLUMN "run_id" uuid;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "feedback_events" ADD CONSTRAINT "feedback_events_run_id_code_runs_id_fk" FOREIGN KEY ("run_id") REFERENCES "code_runs"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+ALTER TABLE "feedback_events" DROP COLUMN IF EXISTS "execution";--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "code_runs" ADD CONSTRAINT "code_runs_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -10,7 +10,12 @@ import { healthCheck, type HealthStatus } from './health/index';
 import * as postgresSchema from './schema/postgres';
 
 // Re-export schema initialization functions
-export { initMilvusCollection, COLLECTION_NAME, VECTOR_DIM } from './schema/milvus';
+export {
+  initMilvusCollection,
+  COLLECTION_NAME,
+  CODE_SNIPPET_COLLECTION_NAME,
+  VECTOR_DIM,
+} from './schema/milvus';
 export {
   initGraphConstraints,
   initGraphFulltextIndexes,
@@ -21,7 +26,7 @@ export { withRetry, type RetryOptions } from './retry/index';
 export type { HealthStatus } from './health/index';
 
 // Re-export commonly used drizzle-orm operators for query building
-export { eq, and, or, not, isNull, isNotNull, gt, gte, lt, lte, ne, like, ilike, inArray, sql } from 'drizzle-orm';
+export { eq, and, or, not, isNull, isNotNull, gt, gte, lt, lte, ne, like, ilike, inArray, notInArray, sql, asc, desc } from 'drizzle-orm';
 
 type PostgresDb = PostgresJsDatabase<typeof postgresSchema>;
 
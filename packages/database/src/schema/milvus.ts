@@ -1,22 +1,32 @@
 import { MilvusClient, DataType } from '@zilliz/milvus2-sdk-node';
 
 export const COLLECTION_NAME = 'knowledge_chunks';
+/** Code snippet records, with the chunk collection's schema */
+export const CODE_SNIPPET_COLLECTION_NAME = 'code_snippets';
 export const VECTOR_DIM = 4096;
 
-export const initMilvusCollection = async (client: MilvusClient) => {
-  console.log(`Checking Milvus collection: ${COLLECTION_NAME}...`);
+/**
+ * Create (or load) a chunk collection. Versioned embedding collections use
+ * the same schema with their model's vector dimension.
+ */
+export const initMilvusCollection = async (
+  client: MilvusClient,
+  collectionName: string = COLLECTION_NAME,
+  dimensions: number = VECTOR_DIM
+) => {
+  console.log(`Checking Milvus collection: ${collectionName}...`);
   
   const hasCollection = await client.hasCollection({
-    collection_name: COLLECTION_NAME,
+    collection_name: collectionName,
   });
 
   if (hasCollection.value) {
-    console.log(`Collection ${COLLECTION_NAME} already exists.`);
+    console.log(`Collection ${collectionName} already exists.`);
     // In a real prod migration scenario, we might check schema compatibility here.
     
     // Ensure index exists
     await client.createIndex({
-      collection_name: COLLECTION_NAME,
+      collection_name: collectionName,
       field_name: 'vector',
       index_name: 'vector_hnsw',
       index_type: 'HNSW',
@@ -26,16 +36,16 @@ export const initMilvusCollection = async (client: MilvusClient) => {
     
     // Load collection so it's ready for search
     await client.loadCollectionSync({
-      collection_name: COLLECTION_NAME,
+      collection_name: collectionName,
     });
     
     return;
   }
 
-  console.log(`Creating collection ${COLLECTION_NAME}...`);
+  console.log(`Creating collection ${collectionName}...`);
 
   await client.createCollection({
-    collection_name: COLLECTION_NAME,
+    collection_name: collectionName,
     fields: [
       {
         name: 'chunk_id',
@@ -48,7 +58,7 @@ export const initMilvusCollection = async (client: MilvusClient) => {
         name: 'vector',
         description: 'Embedding vector',
         data_type: DataType.FloatVector,
-        dim: VECTOR_DIM,
+        dim: dimensions,
       },
       {
         name: 'content_text',
@@ -70,9 +80,9 @@ export const initMilvusCollection = async (client: MilvusClient) => {
     ],
   });
 
-  console.log(`Creating index for ${COLLECTION_NAME}...`);
+  console.log(`Creating index for ${collectionName}...`);
   await client.createIndex({
-    collection_name: COLLECTION_NAME,
+    collection_name: collectionName,
     field_name: 'vector',
     index_name: 'vector_hnsw',
     index_type: 'HNSW',
@@ -88,10 +98,10 @@ export const initMilvusCollection = async (client: MilvusClient) => {
   // We'll skip explicit scalar index creation for now to avoid specific version compatibility issues 
   // unless we need inverted index specifically.
 
-  console.log(`Loading collection ${COLLECTION_NAME}...`);
+  console.log(`Loading collection ${collectionName}...`);
   await client.loadCollectionSync({
-    collection_name: COLLECTION_NAME,
+    collection_name: collectionName,
   });
 
-  console.log(`Collection ${COLLECTION_NAME} initialized successfully.`);
+  console.log(`Collection ${collectionName} initialized successfully.`);
 };
@@ -25,6 +25,14 @@ export const initGraphConstraints = async (driver: Driver) => {
       `)
     );
 
+    // Problem: one per problem package document
+    await session.executeWrite(tx =>
+      tx.run(`
+        CREATE CONSTRAINT problem_url_unique IF NOT EXISTS
+        FOR (p:Problem) REQUIRE p.url IS UNIQUE
+      `)
+    );
+
     // Chunk: chunk_id must be unique (correlates with Milvus)
     await session.executeWrite(tx =>
       tx.run(`
@@ -41,6 +49,14 @@ export const initGraphConstraints = async (driver: Driver) => {
         `)
       );
 
+    // CodeSnippet: snippet_id must be unique (correlates with Milvus)
+    await session.executeWrite(tx =>
+      tx.run(`
+        CREATE CONSTRAINT code_snippet_id_unique IF NOT EXISTS
+        FOR (s:CodeSnippet) REQUIRE s.snippet_id IS UNIQUE
+      `)
+    );
+
     console.log('Neo4j constraints initialized successfully.');
   } catch (error) {
     console.error('Failed to initialize Neo4j constraints:', error);
@@ -75,6 +91,14 @@ export const initGraphFulltextIndexes = async (driver: Driver) => {
       `)
     );
 
+    // Fulltext index for code snippet search (split identifiers, code, context)
+    await session.executeWrite(tx =>
+      tx.run(`
+        CREATE FULLTEXT INDEX codeSnippetIndex IF NOT EXISTS
+        FOR (s:CodeSnippet) ON EACH [s.identifiers, s.code, s.context]
+      `)
+    );
+
     console.log('Neo4j fulltext indexes initialized successfully.');
   } catch (error) {
     console.error('Failed to initialize Neo4j fulltext indexes:', error);
@@ -1,5 +1,37 @@
 import { pgTable, serial, text, integer, timestamp, uuid, jsonb, boolean, real } from 'drizzle-orm/pg-core';
 
+// ============================================================================
+// Users & Authentication
+// ============================================================================
+
+/**
+ * Accounts that can sign in. Roles match User['role'] in @repo/types.
+ */
+export const users = pgTable('users', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  name: text('name').notNull(),
+  email: text('email').notNull().unique(), // Stored lower-cased
+  role: text('role').default('student').notNull(), // 'student', 'tutor', 'admin'
+  passwordHash: text('password_hash').notNull(),
+  disabled: boolean('disabled').default(false).notNull(),
+  lastLoginAt: timestamp('last_login_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+/**
+ * Login sessions. Session tokens (JWTs) carry the session id, so a
+ * session can be revoked (logout, disabled user) before its token expires.
+ */
+export const authSessions = pgTable('auth_sessions', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: uuid('user_id').references(() => users.id).notNull(),
+  userAgent: text('user_agent'),
+  expiresAt: timestamp('expires_at').notNull(),
+  revokedAt: timestamp('revoked_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
 // ============================================================================
 // Document Registry
 // ============================================================================
@@ -36,11 +68,43 @@ export const ingestionJobs = pgTable('ingestion_jobs', {
   totalChunks: integer('total_chunks'),
   processedChunks: integer('processed_chunks').default(0),
   errorMessage: text('error_message'),
+  // Queue leasing: workers claim queued jobs with FOR UPDATE SKIP LOCKED
+  attempts: integer('attempts').default(0).notNull(),
+  leasedBy: text('leased_by'),
+  leaseExpiresAt: timestamp('lease_expires_at'),
+  heartbeatAt: timestamp('heartbeat_at'),
+  availableAt: timestamp('available_at').defaultNow().notNull(), // Retry backoff
+  completedStage: text('completed_stage'), // 'stored', 'extracted' - resume point after a crash
   startedAt: timestamp('started_at'),
   completedAt: timestamp('completed_at'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
+// ============================================================================
+// Embedding Versions
+// ============================================================================
+
+/**
+ * Versioned Milvus collections, one per embedding model. One version is
+ * active; a new one is backfilled as a shadow collection until activated.
+ */
+export const embeddingVersions = pgTable('embedding_versions', {
+  version: integer('version').primaryKey(),
+  collectionName: text('collection_name').notNull().unique(),
+  provider: text('provider').notNull(), // Model provider name from the models config
+  model: text('model').notNull(),
+  dimensions: integer('dimensions').notNull(),
+  status: text('status').default('building').notNull(), // 'building', 'ready', 'active', 'retired', 'failed'
+  processedDocuments: integer('processed_documents').default(0).notNull(),
+  totalDocuments: integer('total_documents').default(0).notNull(),
+  embeddedChunks: integer('embedded_chunks').default(0).notNull(),
+  backfillCursor: uuid('backfill_cursor'), // Last document backfilled (documents are walked by id)
+  errorMessage: text('error_message'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  activatedAt: timestamp('activated_at'),
+});
+
 // ============================================================================
 // Analytics & Sessions
 // ============================================================================
@@ -55,19 +119,66 @@ export const analyticsSessions = pgTable('analytics_sessions', {
 export const ragQueries = pgTable('rag_queries', {
   id: uuid('id').defaultRandom().primaryKey(),
   sessionId: uuid('session_id').references(() => analyticsSessions.id),
+  userId: uuid('user_id').references(() => users.id), // Asker, for feedback ownership
   timestamp: timestamp('timestamp').defaultNow().notNull(),
   queryHash: text('query_hash'), // Anonymized
+  queryText: text('query_text'), // Redacted (no emails, URLs, ID numbers)
   executionTimeMs: integer('execution_time_ms'),
+  firstTokenLatencyMs: integer('first_token_latency_ms'), // Streaming queries only
   milvusHits: integer('milvus_hits'),
   neo4jHits: integer('neo4j_hits'),
-  strategyUsed: text('strategy_used'), // 'vector_only', 'graph_only', 'hybrid'
+  strategyUsed: text('strategy_used'), // 'vector_only', 'graph_only', 'hybrid', 'degraded'
+  confidence: text('confidence'), // 'high', 'medium', 'low', 'insufficient'
+  topicFilter: text('topic_filter'),
+  cacheHit: boolean('cache_hit').default(false).notNull(), // Served from the semantic answer cache
+});
+
+/**
+ * Knowledge graph concepts discussed by the chunks each query used (FR-T-01)
+ */
+export const queryConcepts = pgTable('query_concepts', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  queryId: uuid('query_id').references(() => ragQueries.id).notNull(),
+  conceptName: text('concept_name').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+/**
+ * Conversation memory for multi-turn queries, one row per question/answer
+ * exchange. Unlike rag_queries this stores the raw text, since follow-up
+ * rewriting needs it; rows are scoped to the (anonymous) session.
+ */
+export const conversationTurns = pgTable('conversation_turns', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  sessionId: uuid('session_id').references(() => analyticsSessions.id).notNull(),
+  queryId: uuid('query_id'),
+  question: text('question').notNull(),
+  standaloneQuery: text('standalone_query'), // Rewritten query used for retrieval
+  answer: text('answer').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+/**
+ * Sandboxed code runs (POST /api/run), so feedback cites runs the API
+ * performed rather than outcomes a client reports
+ */
+export const codeRuns = pgTable('code_runs', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: uuid('user_id').references(() => users.id).notNull(),
+  language: text('language').notNull(), // 'cpp', 'python', 'java'
+  code: text('code').notNull(),
+  verdict: text('verdict').notNull(),
+  result: jsonb('result').notNull(), // Compiler output and per-test verdicts, inputs and outputs
+  createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
 export const feedbackEvents = pgTable('feedback_events', {
   id: uuid('id').defaultRandom().primaryKey(),
   queryId: uuid('query_id').references(() => ragQueries.id),
+  userId: uuid('user_id').references(() => users.id),
   rating: integer('rating'), // 1-5 or binary 0/1
   comment: text('comment'),
+  runId: uuid('run_id').references(() => codeRuns.id), // Code run attached by the user
   createdAt: timestamp('created_at').defaultNow(),
 });
 
@@ -102,11 +213,50 @@ export const retrievalMetrics = pgTable('retrieval_metrics', {
   // Reranking metrics
   rerankMs: integer('rerank_ms'),
   rerankTopScore: real('rerank_top_score'),
+  rerankScorer: text('rerank_scorer'), // 'reranker', 'secondary_reranker', 'local', 'rrf'
   confidenceThresholdMet: boolean('confidence_threshold_met'), // >= 0.6
 
   // Final context
   finalContextTokens: integer('final_context_tokens'),
   citationCount: integer('citation_count'),
 
+  // Answer faithfulness (null when verification was skipped or failed)
+  faithfulnessScore: real('faithfulness_score'), // Mean claim support, 0-1
+  claimCount: integer('claim_count'),
+  unsupportedClaimCount: integer('unsupported_claim_count'),
+  faithfulnessMs: integer('faithfulness_ms'),
+
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
+
+// ============================================================================
+// Retrieval Evaluation
+// ============================================================================
+
+/**
+ * Offline evaluation runs of a golden question set
+ */
+export const evalRuns = pgTable('eval_runs', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  goldenSetName: text('golden_set_name').notNull(),
+  goldenSetHash: text('golden_set_hash').notNull(), // Runs are only compared on identical questions
+  label: text('label'), // e.g. the branch or setting under test
+  summary: jsonb('summary').notNull(), // EvaluationSummary: per-stage, per-strategy and per-tag metrics
+  questionCount: integer('question_count').notNull(),
+  failedQuestions: integer('failed_questions').default(0).notNull(),
+  durationMs: integer('duration_ms'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+/**
+ * Per-question results of an evaluation run
+ */
+export const evalQuestionResults = pgTable('eval_question_results', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  runId: uuid('run_id').references(() => evalRuns.id, { onDelete: 'cascade' }).notNull(),
+  questionId: text('question_id').notNull(),
+  strategy: text('strategy'), // 'hybrid', 'vector_only', 'graph_only', 'degraded'
+  rerankScorer: text('rerank_scorer'),
+  stages: jsonb('stages').notNull(), // Scores and retrieved IDs per stage
+  errorMessage: text('error_message'),
+});
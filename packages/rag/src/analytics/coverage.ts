@@ -0,0 +1,335 @@
+/**
+ * Knowledge Graph Topic Coverage (FR-T-02)
+ *
+ * Walks the Concept hierarchy (PART_OF) and prerequisite chains
+ * (PREREQUISITE) to report how well each concept is supported by the
+ * knowledge base, and which concepts students ask about without any
+ * supporting chunks.
+ *
+ * @module @jubilant/rag/analytics/coverage
+ */
+
+import type { Driver } from 'neo4j-driver';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Concept with its graph edges and knowledge base support
+ */
+export interface ConceptGraphNode {
+  name: string;
+  aliases: string[];
+  /** Chunks linked via DISCUSSES */
+  chunkCount: number;
+  /** Distinct documents those chunks come from */
+  documentCount: number;
+  /** Concepts this one is PART_OF */
+  parents: string[];
+  /** Concepts this one requires (PREREQUISITE targets) */
+  prerequisites: string[];
+}
+
+/**
+ * Coverage classification for a concept
+ */
+export type CoverageStatus = 'covered' | 'thin' | 'uncovered';
+
+/**
+ * Per-concept coverage entry
+ */
+export interface ConceptCoverage extends ConceptGraphNode {
+  status: CoverageStatus;
+  /** Depth in the PART_OF hierarchy (roots are 0) */
+  depth: number;
+  /** Chunks discussing this concept or any PART_OF descendant */
+  subtreeChunkCount: number;
+  /** Queries whose text names the concept */
+  mentionCount: number;
+  /** Queries whose retrieved context discussed the concept */
+  retrievalCount: number;
+  /** Students ask about it but no chunk discusses it */
+  isGap: boolean;
+  /** Prerequisites that have no supporting chunks */
+  uncoveredPrerequisites: string[];
+}
+
+/**
+ * PART_OF hierarchy node for tree rendering
+ */
+export interface CoverageTreeNode {
+  name: string;
+  status: CoverageStatus;
+  subtreeChunkCount: number;
+  children: CoverageTreeNode[];
+}
+
+/**
+ * Complete coverage report
+ */
+export interface CoverageReport {
+  summary: {
+    totalConcepts: number;
+    covered: number;
+    thin: number;
+    uncovered: number;
+    gaps: number;
+  };
+  concepts: ConceptCoverage[];
+  tree: CoverageTreeNode[];
+  /** Gap concepts, most asked about first */
+  gaps: ConceptCoverage[];
+}
+
+/**
+ * Options for building the report
+ */
+export interface CoverageReportOptions {
+  /** Concepts with fewer chunks than this are 'thin' */
+  minChunks: number;
+}
+
+const DEFAULT_OPTIONS: CoverageReportOptions = {
+  minChunks: 2,
+};
+
+// ============================================================================
+// Graph Loading
+// ============================================================================
+
+/**
+ * Load every Concept with its DISCUSSES support and hierarchy edges
+ *
+ * @param driver - Neo4j driver
+ * @returns Concept graph nodes
+ */
+export async function fetchConceptGraph(driver: Driver): Promise<ConceptGraphNode[]> {
+  const session = driver.session();
+
+  try {
+    const result = await session.run(`
+      MATCH (concept:Concept)
+      OPTIONAL MATCH (chunk:Chunk)-[:DISCUSSES]->(concept)
+      OPTIONAL MATCH (chunk)-[:FROM_DOCUMENT]->(doc:Document)
+      WITH concept,
+           count(DISTINCT chunk) AS chunkCount,
+           count(DISTINCT doc) AS documentCount
+      OPTIONAL MATCH (concept)-[:PART_OF]->(parent:Concept)
+      WITH concept, chunkCount, documentCount,
+           collect(DISTINCT parent.name) AS parents
+      OPTIONAL MATCH (concept)-[:PREREQUISITE]->(prereq:Concept)
+      RETURN
+        concept.name AS name,
+        coalesce(concept.aliases, []) AS aliases,
+        chunkCount,
+        documentCount,
+        parents,
+        collect(DISTINCT prereq.name) AS prerequisites
+    `);
+
+    return result.records.map((record) => ({
+      name: record.get('name') as string,
+      aliases: (record.get('aliases') as string[]) ?? [],
+      chunkCount: record.get('chunkCount').toNumber(),
+      documentCount: record.get('documentCount').toNumber(),
+      parents: record.get('parents') as string[],
+      prerequisites: record.get('prerequisites') as string[],
+    }));
+  } finally {
+    await session.close();
+  }
+}
+
+// ============================================================================
+// Query Mentions
+// ============================================================================
+
+/**
+ * Escape a string for use in a RegExp
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Build a matcher for a concept name or alias.
+ * ASCII terms match on word boundaries; other scripts (e.g. Chinese)
+ * have no word boundaries, so they match as substrings.
+ */
+function createTermMatcher(term: string): (text: string) => boolean {
+  const lowerTerm = term.toLowerCase();
+
+  if (/^[\x20-\x7e]+$/.test(term)) {
+    const pattern = new RegExp(`(^|[^a-z0-9])${escapeRegExp(lowerTerm)}($|[^a-z0-9])`);
+    return (text) => pattern.test(text);
+  }
+
+  return (text) => text.includes(lowerTerm);
+}
+
+/**
+ * Count how many queries mention each concept by name or alias
+ *
+ * @param queries - Query texts
+ * @param concepts - Concepts with aliases
+ * @returns Map of concept name to number of mentioning queries
+ */
+export function countConceptMentions(
+  queries: string[],
+  concepts: Array<Pick<ConceptGraphNode, 'name' | 'aliases'>>
+): Map<string, number> {
+  const lowerQueries = queries.map((q) => q.toLowerCase());
+  const counts = new Map<string, number>();
+
+  for (const concept of concepts) {
+    const matchers = [concept.name, ...concept.aliases]
+      .filter((term) => term && term.trim().length >= 2)
+      .map(createTermMatcher);
+
+    if (matchers.length === 0) continue;
+
+    const count = lowerQueries.filter((q) => matchers.some((match) => match(q))).length;
+    if (count > 0) {
+      counts.set(concept.name, count);
+    }
+  }
+
+  return counts;
+}
+
+// ============================================================================
+// Report Building
+// ============================================================================
+
+/**
+ * Classify a concept by its chunk support
+ */
+function classifyCoverage(chunkCount: number, minChunks: number): CoverageStatus {
+  if (chunkCount === 0) return 'uncovered';
+  if (chunkCount < minChunks) return 'thin';
+  return 'covered';
+}
+
+/**
+ * Build a coverage report from the concept graph and query statistics
+ *
+ * @param nodes - Concept graph nodes
+ * @param mentions - Queries naming each concept
+ * @param retrievals - Queries whose context discussed each concept
+ * @param options - Report options
+ * @returns Coverage report
+ */
+export function buildCoverageReport(
+  nodes: ConceptGraphNode[],
+  mentions: Map<string, number>,
+  retrievals: Map<string, number>,
+  options: Partial<CoverageReportOptions> = {}
+): CoverageReport {
+  const { minChunks } = { ...DEFAULT_OPTIONS, ...options };
+  const byName = new Map(nodes.map((n) => [n.name, n]));
+
+  // Children index for the PART_OF hierarchy (only edges to known concepts)
+  const children = new Map<string, string[]>();
+  for (const node of nodes) {
+    for (const parent of node.parents) {
+      if (!byName.has(parent) || parent === node.name) continue;
+      const list = children.get(parent) ?? [];
+      list.push(node.name);
+      children.set(parent, list);
+    }
+  }
+
+  // Roll up chunk counts over PART_OF descendants (cycle-safe)
+  const subtreeCounts = new Map<string, number>();
+  const subtreeChunkCount = (name: string, visiting: Set<string>): number => {
+    const cached = subtreeCounts.get(name);
+    if (cached !== undefined) return cached;
+    if (visiting.has(name)) return 0;
+
+    visiting.add(name);
+    let total = byName.get(name)?.chunkCount ?? 0;
+    for (const child of children.get(name) ?? []) {
+      total += subtreeChunkCount(child, visiting);
+    }
+    visiting.delete(name);
+
+    subtreeCounts.set(name, total);
+    return total;
+  };
+
+  // Roots: concepts with no known parent
+  const roots = nodes
+    .filter((n) => !n.parents.some((p) => byName.has(p) && p !== n.name))
+    .map((n) => n.name);
+
+  // Breadth-first walk from the roots to assign depths
+  const depths = new Map<string, number>();
+  const walk = (root: string) => {
+    const queue = [{ name: root, depth: 0 }];
+    while (queue.length > 0) {
+      const { name, depth } = queue.shift()!;
+      if (depths.has(name)) continue;
+      depths.set(name, depth);
+      for (const child of children.get(name) ?? []) {
+        queue.push({ name: child, depth: depth + 1 });
+      }
+    }
+  };
+  roots.forEach(walk);
+
+  // Concepts only reachable through a PART_OF cycle: promote one per cycle
+  for (const node of nodes) {
+    if (!depths.has(node.name)) {
+      roots.push(node.name);
+      walk(node.name);
+    }
+  }
+
+  const concepts: ConceptCoverage[] = nodes.map((node) => {
+    const mentionCount = mentions.get(node.name) ?? 0;
+    return {
+      ...node,
+      status: classifyCoverage(node.chunkCount, minChunks),
+      depth: depths.get(node.name) ?? 0,
+      subtreeChunkCount: subtreeChunkCount(node.name, new Set()),
+      mentionCount,
+      retrievalCount: retrievals.get(node.name) ?? 0,
+      isGap: mentionCount > 0 && node.chunkCount === 0,
+      uncoveredPrerequisites: node.prerequisites.filter(
+        (p) => (byName.get(p)?.chunkCount ?? 0) === 0
+      ),
+    };
+  });
+
+  const coverageByName = new Map(concepts.map((c) => [c.name, c]));
+  const buildTree = (name: string, path: Set<string>): CoverageTreeNode => {
+    const concept = coverageByName.get(name)!;
+    const nextPath = new Set(path).add(name);
+    return {
+      name,
+      status: concept.status,
+      subtreeChunkCount: concept.subtreeChunkCount,
+      children: (children.get(name) ?? [])
+        .filter((child) => !nextPath.has(child))
+        .map((child) => buildTree(child, nextPath)),
+    };
+  };
+
+  const gaps = concepts
+    .filter((c) => c.isGap)
+    .sort((a, b) => b.mentionCount - a.mentionCount);
+
+  return {
+    summary: {
+      totalConcepts: concepts.length,
+      covered: concepts.filter((c) => c.status === 'covered').length,
+      thin: concepts.filter((c) => c.status === 'thin').length,
+      uncovered: concepts.filter((c) => c.status === 'uncovered').length,
+      gaps: gaps.length,
+    },
+    concepts,
+    tree: roots.map((name) => buildTree(name, new Set())),
+    gaps,
+  };
+}
@@ -0,0 +1,175 @@
+/**
+ * Misconception Hotspots (FR-T-01)
+ *
+ * Maps queries onto the knowledge graph concepts they touched and ranks
+ * concepts by signs that students are struggling: low feedback ratings,
+ * insufficient-confidence answers, and the same question asked repeatedly.
+ *
+ * @module @jubilant/rag/analytics/hotspots
+ */
+
+import type { Driver } from 'neo4j-driver';
+import type { QuerySource } from './recorder';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Aggregated per-concept query statistics (from analytics storage)
+ */
+export interface ConceptQueryStats {
+  concept: string;
+  /** Queries that touched the concept */
+  queryCount: number;
+  /** Queries with at least one feedback rating */
+  ratedCount: number;
+  /** Queries rated at or below the low-rating threshold */
+  lowRatingCount: number;
+  avgRating: number | null;
+  /** Queries answered with 'insufficient' confidence */
+  insufficientCount: number;
+  /** Queries whose normalized text was already asked about this concept */
+  repeatCount: number;
+  avgRerankTopScore: number | null;
+}
+
+/**
+ * Relative weight of each struggle signal
+ */
+export interface HotspotWeights {
+  lowRating: number;
+  insufficient: number;
+  repeat: number;
+}
+
+/**
+ * A ranked hotspot concept
+ */
+export interface ConceptHotspot extends ConceptQueryStats {
+  /** Combined struggle score (0-1, higher = more struggle) */
+  score: number;
+  lowRatingRate: number;
+  insufficientRate: number;
+  repeatRate: number;
+}
+
+/**
+ * Default signal weights
+ */
+export const DEFAULT_HOTSPOT_WEIGHTS: HotspotWeights = {
+  lowRating: 0.4,
+  insufficient: 0.35,
+  repeat: 0.25,
+};
+
+/**
+ * Ratings at or below this value count as low (1-5 scale)
+ */
+export const LOW_RATING_THRESHOLD = 2;
+
+/**
+ * Pseudo-count added to rate denominators so concepts with one or two
+ * queries do not outrank well-sampled ones on a single bad rating
+ */
+const RATE_SMOOTHING = 2;
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Smoothed rate of a signal
+ */
+function smoothedRate(count: number, total: number): number {
+  return total > 0 ? count / (total + RATE_SMOOTHING) : 0;
+}
+
+/**
+ * Score and rank concepts by struggle signals
+ *
+ * @param stats - Per-concept statistics
+ * @param weights - Optional signal weights
+ * @returns Hotspots sorted by descending score
+ */
+export function rankHotspots(
+  stats: ConceptQueryStats[],
+  weights: Partial<HotspotWeights> = {}
+): ConceptHotspot[] {
+  const w = { ...DEFAULT_HOTSPOT_WEIGHTS, ...weights };
+  const totalWeight = w.lowRating + w.insufficient + w.repeat || 1;
+
+  return stats
+    .map((s) => {
+      const lowRatingRate = smoothedRate(s.lowRatingCount, s.ratedCount);
+      const insufficientRate = smoothedRate(s.insufficientCount, s.queryCount);
+      const repeatRate = smoothedRate(s.repeatCount, s.queryCount);
+
+      const score =
+        (w.lowRating * lowRatingRate +
+          w.insufficient * insufficientRate +
+          w.repeat * repeatRate) /
+        totalWeight;
+
+      return {
+        ...s,
+        score: Math.round(score * 1000) / 1000,
+        lowRatingRate,
+        insufficientRate,
+        repeatRate,
+      };
+    })
+    .sort((a, b) => b.score - a.score || b.queryCount - a.queryCount);
+}
+
+// ============================================================================
+// Concept Resolution
+// ============================================================================
+
+/**
+ * Find the Concept nodes discussed by the chunks a query used.
+ *
+ * Graph results carry Neo4j chunk IDs directly; vector results are matched
+ * by document URL and chunk index since Milvus uses derived numeric IDs.
+ *
+ * @param driver - Neo4j driver
+ * @param sources - Chunks passed to the LLM for the query
+ * @returns Distinct concept names
+ */
+export async function resolveQueryConcepts(
+  driver: Driver,
+  sources: QuerySource[]
+): Promise<string[]> {
+  if (sources.length === 0) return [];
+
+  const graphIds = sources.filter((s) => s.source === 'graph').map((s) => s.chunkId);
+  const vectorRefs = sources
+    .filter((s) => s.source === 'vector' && s.documentUrl)
+    .map((s) => ({ documentUrl: s.documentUrl, chunkIndex: s.chunkIndex }));
+
+  const session = driver.session();
+
+  try {
+    const result = await session.run(
+      `
+      CALL {
+        UNWIND $graphIds AS id
+        MATCH (c:Chunk {chunk_id: id})
+        RETURN c
+        UNION
+        UNWIND $vectorRefs AS ref
+        MATCH (c:Chunk)-[:FROM_DOCUMENT]->(:Document {url: ref.documentUrl})
+        WHERE c.chunkIndex = ref.chunkIndex
+        RETURN c
+      }
+      MATCH (c)-[:DISCUSSES]->(concept:Concept)
+      RETURN DISTINCT concept.name AS name
+      `,
+      { graphIds, vectorRefs }
+    );
+
+    return result.records.map((record) => record.get('name') as string);
+  } finally {
+    await session.close();
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Query Recording
+ *
+ * Describes what the query pipeline reports about each completed query,
+ * plus helpers to anonymize query text before it is persisted.
+ *
+ * @module @jubilant/rag/analytics/recorder
+ */
+
+import { createHash } from 'crypto';
+import type { ConfidenceLevel } from '../generation/prompts';
+import type { DetailedRetrievalMetrics } from '../retrieval/metrics';
+import type { RetrievalStrategy } from '../retrieval/hybrid';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A chunk that was passed to the LLM as context for a query
+ */
+export interface QuerySource {
+  /** Chunk ID as returned by the retriever */
+  chunkId: string;
+  /** Which retriever produced the chunk ID ('graph' IDs are Neo4j chunk IDs) */
+  source: 'vector' | 'graph';
+  documentUrl: string;
+  chunkIndex: number;
+  rerankScore: number;
+}
+
+/**
+ * Everything the pipeline knows about a completed query
+ */
+export interface QueryRecord {
+  queryId: string;
+  sessionId?: string;
+  /** Authenticated user who asked */
+  userId?: string;
+  /** Question as asked */
+  query: string;
+  /** Query used for retrieval (differs from query for rewritten follow-ups) */
+  standaloneQuery: string;
+  topicFilter?: string;
+  strategy: RetrievalStrategy;
+  confidence: ConfidenceLevel;
+  latencyMs: number;
+  /** Time to first streamed token (streaming queries only) */
+  firstTokenLatencyMs?: number;
+  vectorResultCount: number;
+  graphResultCount: number;
+  metrics?: DetailedRetrievalMetrics;
+  sources: QuerySource[];
+  /** Whether the answer was served from the semantic answer cache */
+  cacheHit?: boolean;
+}
+
+/**
+ * Sink for completed query records.
+ * Injected into RAGPipeline; implementations persist to analytics storage.
+ */
+export interface QueryRecorder {
+  record(record: QueryRecord): Promise<void>;
+}
+
+// ============================================================================
+// Anonymization
+// ============================================================================
+
+/**
+ * Maximum length of stored (redacted) query text
+ */
+const MAX_REDACTED_QUERY_LENGTH = 500;
+
+/**
+ * Normalize a query so trivially different phrasings hash the same
+ */
+export function normalizeQuery(query: string): string {
+  return query
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/[\s?!.。？！]+$/u, '')
+    .trim();
+}
+
+/**
+ * Hash a query for repeat-question detection without storing identity
+ *
+ * @param query - Raw query text
+ * @returns 32-character hex hash of the normalized query
+ */
+export function hashQuery(query: string): string {
+  return createHash('sha256').update(normalizeQuery(query)).digest('hex').slice(0, 32);
+}
+
+/**
+ * Strip personal identifiers from query text before storage.
+ * Removes email addresses, URLs and long digit runs (phone numbers,
+ * student IDs), and truncates overly long queries.
+ *
+ * @param query - Raw query text
+ * @returns Redacted query text
+ */
+export function redactQueryText(query: string): string {
+  const redacted = query
+    .replace(/[\w.+-]+@[\w-]+(\.[\w-]+)+/g, '[email]')
+    .replace(/https?:\/\/\S+/g, '[url]')
+    .replace(/\b\d[\d\s-]{6,}\d\b/g, '[number]')
+    .trim();
+
+  return redacted.length > MAX_REDACTED_QUERY_LENGTH
+    ? `${redacted.slice(0, MAX_REDACTED_QUERY_LENGTH)}...`
+    : redacted;
+}
@@ -0,0 +1,376 @@
+/**
+ * Semantic Answer Cache
+ *
+ * Before a contest many students ask near-identical questions. The cache
+ * serves a stored answer (with its citations and confidence) when a new
+ * question's embedding is close enough to one already answered, skipping
+ * retrieval and generation.
+ *
+ * Entries are scoped by the active embedding version (the collection
+ * retrieval searches), the revision of the set of active documents and
+ * the retrieval options, so an answer is only reused for a request that
+ * would have searched the same sources: ingesting a new document starts
+ * a new scope, since it may hold better evidence than the cached answer.
+ * Each entry records the revision of every document it cites; a hit is
+ * checked against the current revisions, so re-ingesting or archiving a
+ * cited document invalidates the entry even when that happened in another
+ * process (e.g. the ingestion worker).
+ *
+ * @module @jubilant/rag/cache/answers
+ */
+
+import type {
+  Citation,
+  CodeLanguage,
+  ConfidenceInfo,
+  FaithfulnessReport,
+  RankedResult,
+  RetrievalMode,
+} from '../types';
+import type { RetrievalStrategy } from '../retrieval/hybrid';
+import type { QuerySource } from '../analytics/recorder';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * An answer as stored in the cache
+ */
+export interface CachedAnswer {
+  answer: string;
+  /** Citations used in the answer */
+  citations: Citation[];
+  confidence: ConfidenceInfo;
+  faithfulness?: FaithfulnessReport;
+  strategy: RetrievalStrategy;
+  vectorResultCount: number;
+  graphResultCount: number;
+  /** Ranked sources the answer was generated from (for analytics) */
+  sources: QuerySource[];
+}
+
+/**
+ * A cache entry
+ */
+export interface AnswerCacheEntry extends CachedAnswer {
+  id: string;
+  /** Question the answer was generated for */
+  query: string;
+  embedding: number[];
+  scope: string;
+  /** Revision of each cited document when the answer was generated */
+  documentRevisions: Record<string, string>;
+  createdAt: number;
+  hitCount: number;
+}
+
+/**
+ * A cache hit
+ */
+export interface AnswerCacheHit {
+  entry: AnswerCacheEntry;
+  /** Cosine similarity between the new question and the cached one */
+  similarity: number;
+}
+
+/**
+ * What a cached answer may be reused for
+ */
+export interface AnswerCacheScope {
+  /** Active embedding version, or null for the unversioned collection */
+  embeddingVersion: number | null;
+  /** Revision of the set of active documents */
+  documentSetRevision: string;
+  topK: number;
+  includeGraph: boolean;
+  topicFilter?: string;
+  /** Set for code mode questions */
+  retrievalMode?: RetrievalMode;
+  /** Language a code mode question asks for */
+  codeLanguage?: CodeLanguage;
+}
+
+/**
+ * Source of current document revisions.
+ * Injected so the cache stays storage agnostic.
+ */
+export interface DocumentRevisionSource {
+  /**
+   * Current revision of each document that is active. Documents that are
+   * archived, missing or being re-ingested are left out of the result.
+   */
+  getRevisions(documentIds: string[]): Promise<Map<string, string>>;
+
+  /**
+   * ID of each document with one of the given URLs. Graph and code
+   * search results identify documents by URL only.
+   */
+  resolveDocumentIds(documentUrls: string[]): Promise<Map<string, string>>;
+
+  /**
+   * Revision of the set of active documents, which changes whenever a
+   * document is ingested, re-ingested or archived
+   */
+  getDocumentSetRevision(): Promise<string>;
+}
+
+/**
+ * Configuration for SemanticAnswerCache
+ */
+export interface SemanticAnswerCacheConfig {
+  /** Minimum cosine similarity for a hit */
+  similarityThreshold: number;
+  /** Maximum entries kept; the least recently used are evicted first */
+  maxEntries: number;
+  /** Entry lifetime in milliseconds */
+  ttlMs: number;
+}
+
+const DEFAULT_CONFIG: SemanticAnswerCacheConfig = {
+  similarityThreshold: 0.95,
+  maxEntries: 1000,
+  ttlMs: 6 * 60 * 60 * 1000,
+};
+
+/**
+ * Cache counters since startup
+ */
+export interface AnswerCacheStats {
+  entries: number;
+  hits: number;
+  misses: number;
+  /** Entries dropped because a cited document changed */
+  invalidations: number;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Key of a scope. Requests with different keys never share entries.
+ */
+export function answerCacheScopeKey(scope: AnswerCacheScope): string {
+  return [
+    `v${scope.embeddingVersion ?? 'default'}`,
+    `d${scope.documentSetRevision}`,
+    `k${scope.topK}`,
+    scope.includeGraph ? 'graph' : 'vector',
+    scope.topicFilter ?? '',
+    // Only code mode adds a part, so existing keys are unchanged
+    ...(scope.retrievalMode === 'code' ? [`code:${scope.codeLanguage ?? 'any'}`] : []),
+  ].join('|');
+}
+
+/**
+ * URLs of the documents an answer cites. Graph and code results carry the
+ * document URL in place of its ID, so cited documents are keyed by URL.
+ */
+export function citedDocumentUrls(results: RankedResult[], citations: Citation[]): string[] {
+  const urls = new Map(results.map((r) => [r.id, r.metadata.documentUrl]));
+  return citations.flatMap((c) => urls.get(c.chunkId) ?? []);
+}
+
+/**
+ * Cosine similarity of two vectors (0 when either is empty or zero)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+// ============================================================================
+// SemanticAnswerCache Class
+// ============================================================================
+
+/**
+ * SemanticAnswerCache - Process-local cache of answers by question similarity
+ */
+export class SemanticAnswerCache {
+  private revisions: DocumentRevisionSource;
+  private config: SemanticAnswerCacheConfig;
+  /** Entries by ID, least recently used first */
+  private entries = new Map<string, AnswerCacheEntry>();
+  private counters = { hits: 0, misses: 0, invalidations: 0 };
+
+  constructor(revisions: DocumentRevisionSource, config: Partial<SemanticAnswerCacheConfig> = {}) {
+    this.revisions = revisions;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Find the closest cached answer for a question. The best match is
+   * checked against current document revisions and dropped if any cited
+   * document has changed since it was generated.
+   *
+   * @param scope - Scope of the request
+   * @param embedding - Question embedding
+   * @returns The hit, or null on a miss
+   */
+  async lookup(scope: AnswerCacheScope, embedding: number[]): Promise<AnswerCacheHit | null> {
+    const key = answerCacheScopeKey(scope);
+    const now = Date.now();
+    let best: AnswerCacheHit | null = null;
+
+    for (const entry of this.entries.values()) {
+      if (now - entry.createdAt > this.config.ttlMs) {
+        this.entries.delete(entry.id);
+        continue;
+      }
+      if (entry.scope !== key) continue;
+
+      const similarity = cosineSimilarity(embedding, entry.embedding);
+      if (similarity >= this.config.similarityThreshold && (!best || similarity > best.similarity)) {
+        best = { entry, similarity };
+      }
+    }
+
+    if (!best || !(await this.isCurrent(best.entry))) {
+      if (best) {
+        this.entries.delete(best.entry.id);
+        this.counters.invalidations++;
+      }
+      this.counters.misses++;
+      return null;
+    }
+
+    // Refresh recency
+    this.entries.delete(best.entry.id);
+    this.entries.set(best.entry.id, best.entry);
+    best.entry.hitCount++;
+    this.counters.hits++;
+    return best;
+  }
+
+  /**
+   * Current revision of the set of active documents, for scopes
+   */
+  async getDocumentSetRevision(): Promise<string> {
+    return this.revisions.getDocumentSetRevision();
+  }
+
+  /**
+   * Cache an answer. Answers citing a document that is not active (e.g.
+   * archived while the answer was generated) are not cached.
+   *
+   * @param scope - Scope of the request
+   * @param query - Question the answer was generated for
+   * @param embedding - Question embedding
+   * @param answer - Answer to cache
+   * @param documentUrls - URLs of the documents the answer cites
+   * @returns Whether the answer was cached
+   */
+  async store(
+    scope: AnswerCacheScope,
+    query: string,
+    embedding: number[],
+    answer: CachedAnswer,
+    documentUrls: string[]
+  ): Promise<boolean> {
+    const uniqueUrls = [...new Set(documentUrls)];
+    const ids = await this.revisions.resolveDocumentIds(uniqueUrls);
+    if (uniqueUrls.some((url) => !ids.has(url))) {
+      return false;
+    }
+
+    const uniqueIds = [...new Set(ids.values())];
+    const current = await this.revisions.getRevisions(uniqueIds);
+    if (uniqueIds.some((id) => !current.has(id))) {
+      return false;
+    }
+
+    const entry: AnswerCacheEntry = {
+      ...answer,
+      id: crypto.randomUUID(),
+      query,
+      embedding,
+      scope: answerCacheScopeKey(scope),
+      documentRevisions: Object.fromEntries(uniqueIds.map((id) => [id, current.get(id)!])),
+      createdAt: Date.now(),
+      hitCount: 0,
+    };
+
+    this.entries.set(entry.id, entry);
+    while (this.entries.size > this.config.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+    return true;
+  }
+
+  /**
+   * Drop entries citing any of the given documents
+   *
+   * @returns Number of entries dropped
+   */
+  invalidateDocuments(documentIds: string[]): number {
+    const ids = new Set(documentIds);
+    let dropped = 0;
+
+    for (const entry of [...this.entries.values()]) {
+      if (Object.keys(entry.documentRevisions).some((id) => ids.has(id))) {
+        this.entries.delete(entry.id);
+        dropped++;
+      }
+    }
+
+    this.counters.invalidations += dropped;
+    return dropped;
+  }
+
+  /**
+   * Drop all entries
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Get cache counters
+   */
+  getStats(): AnswerCacheStats {
+    return { entries: this.entries.size, ...this.counters };
+  }
+
+  /**
+   * Whether every document an entry cites is still at the same revision
+   */
+  private async isCurrent(entry: AnswerCacheEntry): Promise<boolean> {
+    const cited = Object.entries(entry.documentRevisions);
+    if (cited.length === 0) return true;
+
+    const current = await this.revisions.getRevisions(cited.map(([id]) => id));
+    return cited.every(([id, revision]) => current.get(id) === revision);
+  }
+}
+
+/**
+ * Create a SemanticAnswerCache, reading ANSWER_CACHE_SIMILARITY,
+ * ANSWER_CACHE_MAX_ENTRIES and ANSWER_CACHE_TTL_MS from the environment
+ */
+export function createSemanticAnswerCache(
+  revisions: DocumentRevisionSource,
+  config: Partial<SemanticAnswerCacheConfig> = {}
+): SemanticAnswerCache {
+  const similarityThreshold = parseFloat(process.env.ANSWER_CACHE_SIMILARITY || '');
+  const maxEntries = parseInt(process.env.ANSWER_CACHE_MAX_ENTRIES || '', 10);
+  const ttlMs = parseInt(process.env.ANSWER_CACHE_TTL_MS || '', 10);
+
+  return new SemanticAnswerCache(revisions, {
+    ...(similarityThreshold > 0 && similarityThreshold <= 1 && { similarityThreshold }),
+    ...(maxEntries > 0 && { maxEntries }),
+    ...(ttlMs > 0 && { ttlMs }),
+    ...config,
+  });
+}
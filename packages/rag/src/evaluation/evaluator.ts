@@ -0,0 +1,339 @@
+/**
+ * Offline Retrieval Evaluation
+ *
+ * Runs a golden set through hybrid retrieval and reranking and scores
+ * every stage, so a change to fusion, chunking or reranking can be
+ * measured rather than guessed at:
+ * - vector: Milvus search alone
+ * - graph: Neo4j traversal alone
+ * - hybrid: RRF-fused results
+ * - reranked: fused results after the reranker fallback chain
+ *
+ * Runs are saved through an EvaluationStore, and findRegressions()
+ * compares a run against a baseline to fail a check when quality drops.
+ *
+ * @module @jubilant/rag/evaluation/evaluator
+ */
+
+import type { HybridRetriever, RetrievalStrategy } from '../retrieval/hybrid';
+import type { FallbackReranker } from '../reranking/fallback';
+import type { RerankScorer } from '../types';
+import type { GoldenQuestion, GoldenSet } from './golden';
+import {
+  scoreRanking,
+  summarizeScores,
+  type JudgedResult,
+  type MetricSummary,
+  type RankingScores,
+} from './metrics';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Pipeline stages that are scored
+ */
+export type EvaluationStage = 'vector' | 'graph' | 'hybrid' | 'reranked';
+
+/**
+ * Configuration for RetrievalEvaluator
+ */
+export interface RetrievalEvaluatorConfig {
+  /** Cutoffs for recall@k and nDCG@k */
+  ks: number[];
+  /** Results retrieved per stage (as the query pipeline's retrievalTopK) */
+  candidateCount: number;
+  /** Whether to include graph retrieval */
+  includeGraph: boolean;
+  /** Whether to score the reranked stage */
+  rerank: boolean;
+}
+
+const DEFAULT_CONFIG: RetrievalEvaluatorConfig = {
+  ks: [1, 3, 5, 10],
+  candidateCount: 20,
+  includeGraph: true,
+  rerank: true,
+};
+
+/**
+ * Scores of one stage for one question
+ */
+export interface StageResult extends RankingScores {
+  /** Result IDs in rank order */
+  retrievedIds: string[];
+}
+
+/**
+ * Evaluation of one golden question
+ */
+export interface QuestionEvaluation {
+  questionId: string;
+  tags: string[];
+  /** Strategy hybrid retrieval fell back to */
+  strategy: RetrievalStrategy | null;
+  /** Scorer the reranker fallback chain used */
+  rerankScorer: RerankScorer | null;
+  stages: Partial<Record<EvaluationStage, StageResult>>;
+  /** Set if retrieval failed for the question */
+  error?: string;
+}
+
+/**
+ * Aggregate results of an evaluation run
+ */
+export interface EvaluationSummary {
+  goldenSetName: string;
+  goldenSetHash: string;
+  config: RetrievalEvaluatorConfig;
+  /** Mean scores of each stage */
+  stages: Partial<Record<EvaluationStage, MetricSummary>>;
+  /** Final-stage scores by the retrieval strategy used */
+  byStrategy: Partial<Record<RetrievalStrategy, MetricSummary>>;
+  /** Final-stage scores by question tag */
+  byTag: Record<string, MetricSummary>;
+  /** Questions ranked by each reranker scorer */
+  rerankScorers: Partial<Record<RerankScorer, number>>;
+  questionCount: number;
+  failedQuestions: number;
+  durationMs: number;
+}
+
+/**
+ * A complete evaluation run
+ */
+export interface EvaluationReport extends EvaluationSummary {
+  questions: QuestionEvaluation[];
+}
+
+/**
+ * A stored evaluation run
+ */
+export interface EvaluationRunRecord {
+  id: string;
+  label: string | null;
+  createdAt: Date;
+  summary: EvaluationSummary;
+}
+
+/**
+ * Persistence for evaluation runs
+ */
+export interface EvaluationStore {
+  /** Save a run with its per-question results, returning the run ID */
+  saveRun(report: EvaluationReport, label: string | null): Promise<string>;
+  getRun(id: string): Promise<EvaluationRunRecord | null>;
+  /** Most recent run of a golden set (same questions, by hash) */
+  getLatestRun(goldenSetName: string, goldenSetHash: string): Promise<EvaluationRunRecord | null>;
+}
+
+/**
+ * A metric that dropped by more than the tolerance
+ */
+export interface MetricRegression {
+  stage: EvaluationStage;
+  /** e.g. 'recall@5', 'ndcg@10', 'mrr' */
+  metric: string;
+  baseline: number;
+  current: number;
+}
+
+/**
+ * Progress callback, called after each question
+ */
+export type EvaluationProgressCallback = (completed: number, total: number) => void;
+
+// ============================================================================
+// RetrievalEvaluator Class
+// ============================================================================
+
+/**
+ * RetrievalEvaluator - Scores retrieval stages against a golden set
+ */
+export class RetrievalEvaluator {
+  private retriever: HybridRetriever;
+  private reranker: FallbackReranker;
+  private config: RetrievalEvaluatorConfig;
+
+  constructor(
+    retriever: HybridRetriever,
+    reranker: FallbackReranker,
+    config: Partial<RetrievalEvaluatorConfig> = {}
+  ) {
+    this.retriever = retriever;
+    this.reranker = reranker;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.config.ks = [...new Set(this.config.ks)].sort((a, b) => a - b);
+  }
+
+  /**
+   * Evaluate every question of a golden set. Questions run one at a time
+   * so timings are not skewed by contention.
+   */
+  async evaluate(
+    goldenSet: GoldenSet,
+    onProgress?: EvaluationProgressCallback
+  ): Promise<EvaluationReport> {
+    const startTime = Date.now();
+    const questions: QuestionEvaluation[] = [];
+
+    for (const question of goldenSet.questions) {
+      questions.push(await this.evaluateQuestion(question));
+      onProgress?.(questions.length, goldenSet.questions.length);
+    }
+
+    return {
+      ...summarizeEvaluation(goldenSet, this.config, questions),
+      durationMs: Date.now() - startTime,
+      questions,
+    };
+  }
+
+  /**
+   * Evaluate one question at every stage
+   */
+  async evaluateQuestion(question: GoldenQuestion): Promise<QuestionEvaluation> {
+    const { ks, candidateCount, includeGraph, rerank } = this.config;
+    const evaluation: QuestionEvaluation = {
+      questionId: question.id,
+      tags: question.tags,
+      strategy: null,
+      rerankScorer: null,
+      stages: {},
+    };
+
+    const score = (results: JudgedResult[]): StageResult => ({
+      ...scoreRanking(question, results, ks),
+      retrievedIds: results.map((r) => r.id),
+    });
+
+    try {
+      const [hybrid, vector, graph] = await Promise.all([
+        this.retriever.retrieve(question.question, candidateCount, includeGraph, question.topicFilter),
+        this.retriever.vectorOnly(question.question, candidateCount, question.topicFilter),
+        includeGraph ? this.retriever.graphOnly(question.question, candidateCount) : null,
+      ]);
+
+      evaluation.strategy = hybrid.metrics.strategy ?? null;
+      evaluation.stages.vector = score(vector);
+      if (graph) {
+        evaluation.stages.graph = score(graph);
+      }
+      evaluation.stages.hybrid = score(hybrid.results);
+
+      if (rerank) {
+        const reranked = await this.reranker.rerank(
+          question.question,
+          hybrid.results,
+          Math.max(...ks)
+        );
+        evaluation.rerankScorer = reranked.scorer;
+        evaluation.stages.reranked = score(reranked.results);
+      }
+    } catch (error) {
+      evaluation.error = error instanceof Error ? error.message : String(error);
+    }
+
+    return evaluation;
+  }
+}
+
+// ============================================================================
+// Summaries and Regressions
+// ============================================================================
+
+/**
+ * Aggregate question evaluations. Failed questions are counted but not
+ * scored.
+ */
+export function summarizeEvaluation(
+  goldenSet: Pick<GoldenSet, 'name' | 'hash'>,
+  config: RetrievalEvaluatorConfig,
+  questions: QuestionEvaluation[]
+): Omit<EvaluationSummary, 'durationMs'> {
+  const { ks } = config;
+  const scored = questions.filter((q) => !q.error);
+  const finalStage: EvaluationStage = config.rerank ? 'reranked' : 'hybrid';
+
+  const summarizeStage = (group: QuestionEvaluation[], stage: EvaluationStage) =>
+    summarizeScores(group.flatMap((q) => (q.stages[stage] ? [q.stages[stage]!] : [])), ks);
+
+  const stages: EvaluationSummary['stages'] = {};
+  for (const stage of ['vector', 'graph', 'hybrid', 'reranked'] as const) {
+    if (scored.some((q) => q.stages[stage])) {
+      stages[stage] = summarizeStage(scored, stage);
+    }
+  }
+
+  const groupBy = (key: (q: QuestionEvaluation) => string[]) => {
+    const groups = new Map<string, QuestionEvaluation[]>();
+    for (const question of scored) {
+      for (const value of key(question)) {
+        groups.set(value, [...(groups.get(value) ?? []), question]);
+      }
+    }
+    return Object.fromEntries(
+      [...groups].map(([value, group]) => [value, summarizeStage(group, finalStage)])
+    );
+  };
+
+  const rerankScorers: EvaluationSummary['rerankScorers'] = {};
+  for (const question of scored) {
+    if (question.rerankScorer) {
+      rerankScorers[question.rerankScorer] = (rerankScorers[question.rerankScorer] ?? 0) + 1;
+    }
+  }
+
+  return {
+    goldenSetName: goldenSet.name,
+    goldenSetHash: goldenSet.hash,
+    config,
+    stages,
+    byStrategy: groupBy((q) => (q.strategy ? [q.strategy] : [])),
+    byTag: groupBy((q) => q.tags),
+    rerankScorers,
+    questionCount: questions.length,
+    failedQuestions: questions.length - scored.length,
+  };
+}
+
+/**
+ * Find metrics that dropped by more than the tolerance since a baseline.
+ * Only stages and cutoffs present in both runs are compared.
+ *
+ * @param baseline - Earlier run of the same golden set
+ * @param current - Run to check
+ * @param tolerance - Allowed absolute drop (default 0.02)
+ */
+export function findRegressions(
+  baseline: EvaluationSummary,
+  current: EvaluationSummary,
+  tolerance = 0.02
+): MetricRegression[] {
+  const regressions: MetricRegression[] = [];
+
+  for (const stage of Object.keys(current.stages) as EvaluationStage[]) {
+    const before = baseline.stages[stage];
+    const after = current.stages[stage]!;
+    if (!before) continue;
+
+    const metrics: Array<[string, number | undefined, number]> = [
+      ['mrr', before.mrr, after.mrr],
+      ...Object.entries(after.recall).map(
+        ([k, value]): [string, number | undefined, number] => [`recall@${k}`, before.recall[Number(k)], value]
+      ),
+      ...Object.entries(after.ndcg).map(
+        ([k, value]): [string, number | undefined, number] => [`ndcg@${k}`, before.ndcg[Number(k)], value]
+      ),
+    ];
+
+    for (const [metric, previous, value] of metrics) {
+      if (previous !== undefined && previous - value > tolerance) {
+        regressions.push({ stage, metric, baseline: previous, current: value });
+      }
+    }
+  }
+
+  return regressions;
+}
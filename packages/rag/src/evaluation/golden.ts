@@ -0,0 +1,144 @@
+/**
+ * Golden Question Sets
+ *
+ * A golden set lists questions with the evidence retrieval should find:
+ * specific chunks, source documents, or concepts the retrieved text must
+ * cover. Sets are JSON files:
+ *
+ * ```json
+ * {
+ *   "name": "core-algorithms",
+ *   "questions": [
+ *     {
+ *       "id": "dijkstra-negative",
+ *       "question": "Why does Dijkstra fail with negative edge weights?",
+ *       "expectedDocumentIds": ["5b1e..."],
+ *       "expectedConcepts": ["Dijkstra", "negative weight"],
+ *       "tags": ["graphs"]
+ *     }
+ *   ]
+ * }
+ * ```
+ *
+ * @module @jubilant/rag/evaluation/golden
+ */
+
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A question and the evidence retrieval should find for it
+ */
+export interface GoldenQuestion {
+  /** Stable ID, used to compare the question across runs */
+  id: string;
+  question: string;
+  /** Chunk UUIDs that answer the question */
+  expectedChunkIds: string[];
+  /** Documents containing the answer (any of their chunks counts) */
+  expectedDocumentIds: string[];
+  /** Concepts the retrieved text must mention */
+  expectedConcepts: string[];
+  /** Optional topic filter for vector search */
+  topicFilter?: string;
+  tags: string[];
+}
+
+/**
+ * A named set of golden questions
+ */
+export interface GoldenSet {
+  name: string;
+  questions: GoldenQuestion[];
+  /** Hash of the questions, so runs are only compared on the same set */
+  hash: string;
+}
+
+/**
+ * Invalid golden set file
+ */
+export class GoldenSetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GoldenSetError';
+  }
+}
+
+// ============================================================================
+// File Schema
+// ============================================================================
+
+const questionSchema = z
+  .object({
+    id: z.string().min(1),
+    question: z.string().min(1),
+    expectedChunkIds: z.array(z.string().min(1)).default([]),
+    expectedDocumentIds: z.array(z.string().min(1)).default([]),
+    expectedConcepts: z.array(z.string().min(1)).default([]),
+    topicFilter: z.string().optional(),
+    tags: z.array(z.string()).default([]),
+  })
+  .refine(
+    (q) => q.expectedChunkIds.length + q.expectedDocumentIds.length + q.expectedConcepts.length > 0,
+    { message: 'expects no chunks, documents or concepts' }
+  );
+
+const goldenSetSchema = z.object({
+  name: z.string().min(1),
+  questions: z.array(questionSchema).min(1),
+});
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Parse and validate a golden set
+ *
+ * @param raw - Parsed JSON from the file
+ * @throws GoldenSetError if the set is invalid or question IDs repeat
+ */
+export function parseGoldenSet(raw: unknown): GoldenSet {
+  const parsed = goldenSetSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new GoldenSetError(`Invalid golden set: ${issues}`);
+  }
+
+  const seen = new Set<string>();
+  for (const question of parsed.data.questions) {
+    if (seen.has(question.id)) {
+      throw new GoldenSetError(`Invalid golden set: duplicate question id "${question.id}"`);
+    }
+    seen.add(question.id);
+  }
+
+  const questions = parsed.data.questions;
+  const hash = createHash('sha256').update(JSON.stringify(questions)).digest('hex').slice(0, 16);
+
+  return { name: parsed.data.name, questions, hash };
+}
+
+/**
+ * Load a golden set from a JSON file
+ *
+ * @throws GoldenSetError if the file cannot be read or is invalid
+ */
+export function loadGoldenSet(path: string): GoldenSet {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new GoldenSetError(`Cannot read golden set ${path}: ${message}`);
+  }
+
+  return parseGoldenSet(raw);
+}
@@ -0,0 +1,177 @@
+/**
+ * Retrieval Quality Metrics
+ *
+ * Scores a ranked result list against a golden question. Each expected
+ * chunk, document and concept is a target; a result is relevant if it
+ * matches any target. Metrics count targets rather than results, so ten
+ * chunks of one expected document do not score as ten hits:
+ * - recall@k: fraction of targets matched in the top k
+ * - reciprocal rank: 1 / rank of the first relevant result (MRR when averaged)
+ * - nDCG@k: discounted gain of results matching a new target, normalized
+ *   by the best possible ranking
+ *
+ * @module @jubilant/rag/evaluation/metrics
+ */
+
+import { toMilvusChunkId } from '../ingestion/storage';
+import type { ChunkMetadata } from '../types';
+import type { GoldenQuestion } from './golden';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A retrieved result, at any stage of the pipeline
+ */
+export interface JudgedResult {
+  id: string;
+  content: string;
+  metadata: Partial<ChunkMetadata>;
+}
+
+/**
+ * Scores of one ranking for one question
+ */
+export interface RankingScores {
+  /** Recall at each cutoff */
+  recall: Record<number, number>;
+  /** nDCG at each cutoff */
+  ndcg: Record<number, number>;
+  reciprocalRank: number;
+  /** 1-based rank of the first relevant result, or null if none */
+  firstRelevantRank: number | null;
+}
+
+/**
+ * Mean scores over a set of questions
+ */
+export interface MetricSummary {
+  questionCount: number;
+  recall: Record<number, number>;
+  ndcg: Record<number, number>;
+  mrr: number;
+}
+
+// ============================================================================
+// Relevance
+// ============================================================================
+
+/**
+ * Target keys of a question: every expected chunk, document and concept
+ */
+export function questionTargets(question: GoldenQuestion): string[] {
+  return [
+    ...question.expectedChunkIds.map((id) => `chunk:${id}`),
+    ...question.expectedDocumentIds.map((id) => `document:${id}`),
+    ...question.expectedConcepts.map((concept) => `concept:${concept.toLowerCase()}`),
+  ];
+}
+
+/**
+ * Targets of a question that a result matches. Chunk IDs match either the
+ * chunk UUID (graph results) or its Milvus key (vector results).
+ */
+export function matchTargets(question: GoldenQuestion, result: JudgedResult): string[] {
+  const matched: string[] = [];
+
+  for (const id of question.expectedChunkIds) {
+    if (result.id === id || result.id === String(toMilvusChunkId(id))) {
+      matched.push(`chunk:${id}`);
+    }
+  }
+
+  for (const id of question.expectedDocumentIds) {
+    if (result.metadata.documentId === id) {
+      matched.push(`document:${id}`);
+    }
+  }
+
+  if (question.expectedConcepts.length > 0) {
+    const text = [result.metadata.sectionHeader, result.content].filter(Boolean).join('\n').toLowerCase();
+    for (const concept of question.expectedConcepts) {
+      if (text.includes(concept.toLowerCase())) {
+        matched.push(`concept:${concept.toLowerCase()}`);
+      }
+    }
+  }
+
+  return matched;
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Score a ranking against a question
+ *
+ * @param question - Golden question
+ * @param results - Results in rank order
+ * @param ks - Cutoffs for recall and nDCG
+ */
+export function scoreRanking(
+  question: GoldenQuestion,
+  results: JudgedResult[],
+  ks: number[]
+): RankingScores {
+  const targetCount = questionTargets(question).length;
+  const credited = new Set<string>();
+  // Per rank: number of targets matched there for the first time
+  const newTargets: number[] = [];
+  let firstRelevantRank: number | null = null;
+
+  results.forEach((result, i) => {
+    const matched = matchTargets(question, result);
+    if (matched.length > 0 && firstRelevantRank === null) {
+      firstRelevantRank = i + 1;
+    }
+    let fresh = 0;
+    for (const target of matched) {
+      if (!credited.has(target)) {
+        credited.add(target);
+        fresh++;
+      }
+    }
+    newTargets.push(fresh);
+  });
+
+  const recall: Record<number, number> = {};
+  const ndcg: Record<number, number> = {};
+
+  for (const k of ks) {
+    const top = newTargets.slice(0, k);
+    const found = top.reduce((sum, n) => sum + n, 0);
+    recall[k] = targetCount === 0 ? 0 : found / targetCount;
+
+    // Binary gain: a result is worth 1 if it covers a target not yet seen
+    const dcg = top.reduce((sum, n, i) => sum + (n > 0 ? 1 / Math.log2(i + 2) : 0), 0);
+    let idcg = 0;
+    for (let i = 0; i < Math.min(k, targetCount); i++) {
+      idcg += 1 / Math.log2(i + 2);
+    }
+    ndcg[k] = idcg === 0 ? 0 : Math.min(1, dcg / idcg);
+  }
+
+  return {
+    recall,
+    ndcg,
+    reciprocalRank: firstRelevantRank === null ? 0 : 1 / firstRelevantRank,
+    firstRelevantRank,
+  };
+}
+
+/**
+ * Average scores over questions
+ */
+export function summarizeScores(scores: RankingScores[], ks: number[]): MetricSummary {
+  const mean = (values: number[]) =>
+    values.length === 0 ? 0 : values.reduce((sum, v) => sum + v, 0) / values.length;
+
+  return {
+    questionCount: scores.length,
+    recall: Object.fromEntries(ks.map((k) => [k, mean(scores.map((s) => s.recall[k] ?? 0))])),
+    ndcg: Object.fromEntries(ks.map((k) => [k, mean(scores.map((s) => s.ndcg[k] ?? 0))])),
+    mrr: mean(scores.map((s) => s.reciprocalRank)),
+  };
+}
@@ -41,7 +41,9 @@ export function createCitations(
 
   return results.map((result, index) => {
     const id = `[${index + 1}]`;
-    const snippet = extractSnippet(result.content, cfg.maxSnippetLength);
+    const snippet = result.metadata.codeSnippet
+      ? extractCodeExcerpt(result.content, cfg.maxSnippetLength)
+      : extractSnippet(result.content, cfg.maxSnippetLength);
 
     return {
       id,
@@ -50,10 +52,31 @@ export function createCitations(
       documentUrl: result.metadata.documentUrl,
       snippet,
       relevanceScore: result.rerankScore,
+      pageStart: result.metadata.pageStart,
+      pageEnd: result.metadata.pageEnd,
+      codeLanguage: result.metadata.codeSnippet?.language,
     };
   });
 }
 
+/**
+ * Extract the leading lines of a code snippet's code, without its context
+ *
+ * @param content - Snippet content (context and fenced code)
+ * @param maxLength - Maximum excerpt length
+ * @returns Whole lines of code up to the max length
+ */
+function extractCodeExcerpt(content: string, maxLength: number): string {
+  const code = content.match(/```[^\n]*\n([\s\S]*?)\n?```/)?.[1] ?? content;
+  if (code.length <= maxLength) {
+    return code.trimEnd();
+  }
+
+  const truncated = code.slice(0, maxLength);
+  const lastNewline = truncated.lastIndexOf('\n');
+  return (lastNewline > 0 ? truncated.slice(0, lastNewline) : truncated).trimEnd() + '\n...';
+}
+
 /**
  * Extract a meaningful snippet from content
  *
@@ -179,6 +202,18 @@ export function renumberCitations(
   return { text: newText, citations: usedCitations };
 }
 
+/**
+ * Format the page range of a citation ("p. 4", "pp. 4–6")
+ *
+ * @param citation - The citation
+ * @returns Page range, or an empty string when the source has no pages
+ */
+export function formatPageRange(citation: Pick<Citation, 'pageStart' | 'pageEnd'>): string {
+  const { pageStart, pageEnd } = citation;
+  if (pageStart === undefined) return '';
+  return pageEnd !== undefined && pageEnd !== pageStart ? `pp. ${pageStart}–${pageEnd}` : `p. ${pageStart}`;
+}
+
 /**
  * Format citation for display
  *
@@ -191,6 +226,11 @@ export function formatCitation(
   includeScore: boolean = false
 ): string {
   let formatted = `${citation.id} ${citation.documentTitle}`;
+  const pages = formatPageRange(citation);
+
+  if (pages) {
+    formatted += `, ${pages}`;
+  }
 
   if (includeScore) {
     formatted += ` (relevance: ${(citation.relevanceScore * 100).toFixed(0)}%)`;
@@ -218,6 +258,11 @@ export function createReferencesSection(
 
   for (const citation of citations) {
     let line = `${citation.id} ${citation.documentTitle}`;
+    const pages = formatPageRange(citation);
+
+    if (pages) {
+      line += `, ${pages}`;
+    }
 
     if (citation.documentUrl) {
       line += ` - ${citation.documentUrl}`;
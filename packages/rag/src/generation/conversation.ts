@@ -0,0 +1,215 @@
+/**
+ * Conversation Memory
+ *
+ * Multi-turn support for the query pipeline: loading prior turns for a
+ * session, rewriting follow-up questions into standalone queries for
+ * retrieval, and fitting history into a token budget for generation.
+ *
+ * @module @jubilant/rag/generation/conversation
+ */
+
+import type { ChatMessage } from './llm';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A completed question/answer exchange within a session
+ */
+export interface ConversationTurn {
+  /** Question as the student typed it */
+  question: string;
+  /** Answer returned to the student */
+  answer: string;
+  /** Standalone query used for retrieval (if the question was rewritten) */
+  standaloneQuery?: string;
+  /** Query ID of the exchange */
+  queryId?: string;
+}
+
+/**
+ * Persistence interface for conversation memory.
+ * Injected into RAGPipeline so the package stays storage agnostic.
+ */
+export interface ConversationStore {
+  /** Most recent turns for a session, returned oldest first */
+  getRecentTurns(sessionId: string, limit: number): Promise<ConversationTurn[]>;
+  /** Append a completed turn to a session */
+  appendTurn(sessionId: string, turn: ConversationTurn): Promise<void>;
+}
+
+// ============================================================================
+// In-Memory Store
+// ============================================================================
+
+/**
+ * Process-local ConversationStore, useful for tests and single-node setups
+ */
+export class InMemoryConversationStore implements ConversationStore {
+  private sessions = new Map<string, ConversationTurn[]>();
+  private maxTurnsPerSession: number;
+
+  constructor(maxTurnsPerSession: number = 50) {
+    this.maxTurnsPerSession = maxTurnsPerSession;
+  }
+
+  async getRecentTurns(sessionId: string, limit: number): Promise<ConversationTurn[]> {
+    const turns = this.sessions.get(sessionId) ?? [];
+    return limit > 0 ? turns.slice(-limit) : [];
+  }
+
+  async appendTurn(sessionId: string, turn: ConversationTurn): Promise<void> {
+    const turns = this.sessions.get(sessionId) ?? [];
+    turns.push(turn);
+    if (turns.length > this.maxTurnsPerSession) {
+      turns.splice(0, turns.length - this.maxTurnsPerSession);
+    }
+    this.sessions.set(sessionId, turns);
+  }
+
+  /**
+   * Drop all turns for a session
+   */
+  clear(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+}
+
+// ============================================================================
+// History Budgeting
+// ============================================================================
+
+/**
+ * Estimate token count (~4 characters per token, matching the pipeline)
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Select the most recent turns that fit within a token budget.
+ * Whole turns are kept or dropped; a turn is never truncated mid-answer.
+ *
+ * @param turns - Turns ordered oldest first
+ * @param maxTokens - Token budget for history
+ * @returns Turns that fit, ordered oldest first
+ */
+export function selectHistoryWithinBudget(
+  turns: ConversationTurn[],
+  maxTokens: number
+): ConversationTurn[] {
+  const selected: ConversationTurn[] = [];
+  let used = 0;
+
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(turns[i].question) + estimateTokens(turns[i].answer);
+    if (used + cost > maxTokens) break;
+    selected.unshift(turns[i]);
+    used += cost;
+  }
+
+  return selected;
+}
+
+/**
+ * Convert turns into alternating user/assistant chat messages
+ */
+export function formatHistoryMessages(turns: ConversationTurn[]): ChatMessage[] {
+  return turns.flatMap((turn) => [
+    { role: 'user' as const, content: turn.question },
+    { role: 'assistant' as const, content: turn.answer },
+  ]);
+}
+
+// ============================================================================
+// Follow-up Rewriting
+// ============================================================================
+
+/**
+ * System prompt for rewriting follow-up questions
+ */
+export const QUERY_REWRITE_SYSTEM_PROMPT = `You rewrite follow-up questions from a tutoring conversation into standalone search queries.
+
+Rules:
+- Resolve pronouns and references ("it", "that algorithm", "the second one") using the conversation
+- Keep the student's intent and technical terms; do not answer the question
+- If the question is already standalone, return it unchanged
+- Return ONLY the rewritten query on a single line, without quotes or explanation`;
+
+/**
+ * Maximum characters of each prior answer shown to the rewriter
+ */
+const REWRITE_ANSWER_PREVIEW_CHARS = 400;
+
+/**
+ * User prompt for follow-up rewriting
+ *
+ * @param turns - Prior turns, oldest first
+ * @param question - The new (possibly elliptical) question
+ * @returns Prompt asking for a standalone query
+ */
+export function createQueryRewritePrompt(
+  turns: ConversationTurn[],
+  question: string
+): string {
+  const transcript = turns
+    .map((turn) => {
+      const answer =
+        turn.answer.length > REWRITE_ANSWER_PREVIEW_CHARS
+          ? `${turn.answer.slice(0, REWRITE_ANSWER_PREVIEW_CHARS)}...`
+          : turn.answer;
+      return `Student: ${turn.question}\nTutor: ${answer}`;
+    })
+    .join('\n\n');
+
+  return `## Conversation
+${transcript}
+
+## Follow-up Question
+${question}
+
+## Standalone Query`;
+}
+
+/**
+ * Build the messages for a follow-up rewrite request
+ */
+export function buildQueryRewriteMessages(
+  turns: ConversationTurn[],
+  question: string
+): ChatMessage[] {
+  return [
+    { role: 'system', content: QUERY_REWRITE_SYSTEM_PROMPT },
+    { role: 'user', content: createQueryRewritePrompt(turns, question) },
+  ];
+}
+
+/**
+ * Clean up the LLM's rewrite output.
+ * Falls back to the original question when the output is unusable.
+ *
+ * @param output - Raw LLM output
+ * @param question - Original question
+ * @returns Standalone query
+ */
+export function parseRewrittenQuery(output: string, question: string): string {
+  const firstLine = output
+    .split('\n')
+    .map((line) => line.trim())
+    .find((line) => line.length > 0);
+
+  if (!firstLine) return question;
+
+  const cleaned = firstLine
+    .replace(/^(standalone query|query)\s*:\s*/i, '')
+    .replace(/^["'`]+|["'`]+$/g, '')
+    .trim();
+
+  // Guard against the model answering instead of rewriting
+  if (cleaned.length === 0 || cleaned.length > Math.max(question.length * 4, 500)) {
+    return question;
+  }
+
+  return cleaned;
+}
@@ -2,11 +2,16 @@
  * Qwen3 Embedding Client
  *
  * Custom embedding implementation for Qwen3-Embedding-8B model
- * via OpenAI-compatible API.
+ * via any embedding-capable model provider.
  *
  * @module @jubilant/rag/generation/embedder
  */
 
+import { DEFAULT_RETRY_CONFIG, type RetryConfig } from './errors';
+import { createDefaultProvider, type ModelProvider } from '../providers/http';
+import { getModelRegistry } from '../providers/registry';
+import { getTracer } from '../monitoring/tracing';
+
 /**
  * Configuration for Qwen3Embedding
  */
@@ -21,6 +26,13 @@ export interface Qwen3EmbeddingConfig {
   dimensions?: number;
   /** Request timeout in milliseconds */
   timeout?: number;
+  /** Retry configuration for failed requests */
+  retry?: Partial<RetryConfig>;
+  /**
+   * Provider serving the model. Without one, an OpenAI-compatible provider
+   * at baseUrl is used, with the timeout and retry settings above.
+   */
+  provider?: ModelProvider;
 }
 
 /**
@@ -34,44 +46,41 @@ const DEFAULT_CONFIG: Partial<Qwen3EmbeddingConfig> = {
 };
 
 /**
- * OpenAI-compatible embedding response
- */
-interface EmbeddingResponse {
-  object: 'list';
-  data: Array<{
-    object: 'embedding';
-    index: number;
-    embedding: number[];
-  }>;
-  model: string;
-  usage: {
-    prompt_tokens: number;
-    total_tokens: number;
-  };
-}
-
-/**
- * Qwen3 Embedding implementation using OpenAI-compatible API
+ * Qwen3 Embedding implementation
  *
  * This is a standalone implementation that doesn't extend LlamaIndex BaseEmbedding
  * to avoid type compatibility issues. It provides the same interface.
  */
 export class Qwen3Embedding {
   private config: Qwen3EmbeddingConfig;
+  private provider: ModelProvider;
 
   constructor(config: Partial<Qwen3EmbeddingConfig> = {}) {
     this.config = {
       ...DEFAULT_CONFIG,
       ...config,
     } as Qwen3EmbeddingConfig;
+
+    this.provider = this.config.provider ?? createDefaultProvider('embedding', {
+      baseUrl: this.config.baseUrl,
+      apiKey: this.config.apiKey,
+      timeoutMs: this.config.timeout || 30000,
+      retry: { ...DEFAULT_RETRY_CONFIG, ...config.retry },
+    });
   }
 
   /**
    * Embed a single text string
    */
   async getTextEmbedding(text: string): Promise<number[]> {
-    const response = await this.callEmbeddingAPI([text]);
-    return response.data[0].embedding;
+    return getTracer().withSpan(
+      'rag.embedding',
+      async () => {
+        const [embedding] = await this.provider.embed([text], this.config.model);
+        return embedding;
+      },
+      { attributes: { 'rag.model': this.config.model, 'rag.input_count': 1 } }
+    );
   }
 
   /**
@@ -82,16 +91,17 @@ export class Qwen3Embedding {
     const batchSize = 32;
     const allEmbeddings: number[][] = [];
 
-    for (let i = 0; i < texts.length; i += batchSize) {
-      const batch = texts.slice(i, i + batchSize);
-      const response = await this.callEmbeddingAPI(batch);
-
-      // Sort by index to maintain order
-      const sortedData = response.data.sort((a, b) => a.index - b.index);
-      allEmbeddings.push(...sortedData.map(d => d.embedding));
-    }
-
-    return allEmbeddings;
+    return getTracer().withSpan(
+      'rag.embedding',
+      async () => {
+        for (let i = 0; i < texts.length; i += batchSize) {
+          const batch = texts.slice(i, i + batchSize);
+          allEmbeddings.push(...(await this.provider.embed(batch, this.config.model)));
+        }
+        return allEmbeddings;
+      },
+      { attributes: { 'rag.model': this.config.model, 'rag.input_count': texts.length } }
+    );
   }
 
   /**
@@ -101,46 +111,6 @@ export class Qwen3Embedding {
     return this.getTextEmbedding(query);
   }
 
-  /**
-   * Call the OpenAI-compatible embedding API
-   */
-  private async callEmbeddingAPI(input: string[]): Promise<EmbeddingResponse> {
-    const url = `${this.config.baseUrl}/embeddings`;
-
-    const controller = new AbortController();
-    const timeoutId = setTimeout(
-      () => controller.abort(),
-      this.config.timeout || 30000
-    );
-
-    try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...(this.config.apiKey && {
-            Authorization: `Bearer ${this.config.apiKey}`,
-          }),
-        },
-        body: JSON.stringify({
-          model: this.config.model,
-          input,
-          encoding_format: 'float',
-        }),
-        signal: controller.signal,
-      });
-
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`Embedding API error: ${response.status} - ${error}`);
-      }
-
-      return (await response.json()) as EmbeddingResponse;
-    } finally {
-      clearTimeout(timeoutId);
-    }
-  }
-
   /**
    * Check if the embedding service is healthy
    */
@@ -172,13 +142,15 @@ export class Qwen3Embedding {
 }
 
 /**
- * Create a Qwen3Embedding instance with environment configuration
+ * Create a Qwen3Embedding instance for the model configured for the
+ * embedding role (see providers/config)
  */
 export function createEmbedder(config: Partial<Qwen3EmbeddingConfig> = {}): Qwen3Embedding {
+  const binding = getModelRegistry().require('embedding');
   return new Qwen3Embedding({
-    baseUrl: process.env.EMBEDDING_BASE_URL,
-    apiKey: process.env.EMBEDDING_API_KEY,
-    model: process.env.EMBEDDING_MODEL,
+    provider: binding.client,
+    model: binding.model,
+    ...(binding.dimensions !== undefined && { dimensions: binding.dimensions }),
     ...config,
   });
 }
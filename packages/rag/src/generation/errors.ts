@@ -0,0 +1,269 @@
+/**
+ * Model Service Errors and Retries
+ *
+ * Error classification and retry with exponential backoff, shared by the
+ * LLM, embedding and reranker clients and the model providers behind them.
+ *
+ * @module @jubilant/rag/generation/errors
+ */
+
+// ============================================================================
+// Error Types (T081)
+// ============================================================================
+
+/**
+ * LLM service error types for graceful error handling
+ */
+export type LLMErrorType =
+  | 'CONNECTION_ERROR'
+  | 'TIMEOUT_ERROR'
+  | 'RATE_LIMIT_ERROR'
+  | 'MODEL_ERROR'
+  | 'CONTEXT_LENGTH_ERROR'
+  | 'SERVICE_UNAVAILABLE'
+  | 'UNKNOWN_ERROR';
+
+/**
+ * Custom error class for LLM service errors
+ */
+export class LLMServiceError extends Error {
+  public readonly errorType: LLMErrorType;
+  public readonly isRetryable: boolean;
+  public readonly statusCode?: number;
+  public readonly originalError?: Error;
+
+  constructor(
+    message: string,
+    errorType: LLMErrorType,
+    options?: {
+      isRetryable?: boolean;
+      statusCode?: number;
+      originalError?: Error;
+    }
+  ) {
+    super(message);
+    this.name = 'LLMServiceError';
+    this.errorType = errorType;
+    this.isRetryable = options?.isRetryable ?? false;
+    this.statusCode = options?.statusCode;
+    this.originalError = options?.originalError;
+  }
+}
+
+/**
+ * Classify an error into an LLM error type
+ */
+export function classifyLLMError(error: unknown): {
+  type: LLMErrorType;
+  message: string;
+  isRetryable: boolean;
+  statusCode?: number;
+} {
+  if (error instanceof LLMServiceError) {
+    return {
+      type: error.errorType,
+      message: error.message,
+      isRetryable: error.isRetryable,
+      statusCode: error.statusCode,
+    };
+  }
+
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  const lowerMessage = errorMessage.toLowerCase();
+
+  // Connection errors
+  if (
+    lowerMessage.includes('econnrefused') ||
+    lowerMessage.includes('enotfound') ||
+    lowerMessage.includes('network') ||
+    lowerMessage.includes('connection refused') ||
+    lowerMessage.includes('failed to fetch')
+  ) {
+    return {
+      type: 'CONNECTION_ERROR',
+      message: 'LLM service is unreachable. Please check if the service is running.',
+      isRetryable: true,
+    };
+  }
+
+  // Timeout errors
+  if (
+    lowerMessage.includes('timeout') ||
+    lowerMessage.includes('timed out') ||
+    lowerMessage.includes('etimedout')
+  ) {
+    return {
+      type: 'TIMEOUT_ERROR',
+      message: 'LLM request timed out. The service may be overloaded.',
+      isRetryable: true,
+    };
+  }
+
+  // Rate limit errors
+  if (
+    lowerMessage.includes('rate limit') ||
+    lowerMessage.includes('too many requests') ||
+    lowerMessage.includes('429')
+  ) {
+    return {
+      type: 'RATE_LIMIT_ERROR',
+      message: 'LLM rate limit exceeded. Please try again later.',
+      isRetryable: true,
+    };
+  }
+
+  // Context length errors
+  if (
+    lowerMessage.includes('context length') ||
+    lowerMessage.includes('max_tokens') ||
+    lowerMessage.includes('too long') ||
+    lowerMessage.includes('token limit')
+  ) {
+    return {
+      type: 'CONTEXT_LENGTH_ERROR',
+      message: 'Request exceeds the model context length limit.',
+      isRetryable: false,
+    };
+  }
+
+  // Model errors
+  if (
+    lowerMessage.includes('model not found') ||
+    lowerMessage.includes('model_not_found') ||
+    lowerMessage.includes('invalid model')
+  ) {
+    return {
+      type: 'MODEL_ERROR',
+      message: 'Requested model is not available.',
+      isRetryable: false,
+    };
+  }
+
+  // Service unavailable (5xx errors)
+  if (
+    lowerMessage.includes('502') ||
+    lowerMessage.includes('503') ||
+    lowerMessage.includes('504') ||
+    lowerMessage.includes('bad gateway') ||
+    lowerMessage.includes('service unavailable')
+  ) {
+    return {
+      type: 'SERVICE_UNAVAILABLE',
+      message: 'LLM service is temporarily unavailable.',
+      isRetryable: true,
+    };
+  }
+
+  // Unknown error
+  return {
+    type: 'UNKNOWN_ERROR',
+    message: errorMessage || 'An unknown error occurred with the LLM service.',
+    isRetryable: false,
+  };
+}
+
+// ============================================================================
+// Retry Configuration
+// ============================================================================
+
+/**
+ * Retry configuration for LLM requests
+ */
+export interface RetryConfig {
+  /** Maximum number of retry attempts */
+  maxRetries: number;
+  /** Initial delay between retries in ms */
+  initialDelayMs: number;
+  /** Maximum delay between retries in ms */
+  maxDelayMs: number;
+  /** Exponential backoff factor */
+  backoffFactor: number;
+}
+
+export const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  maxRetries: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 10000,
+  backoffFactor: 2,
+};
+
+/**
+ * Sleep for a specified duration
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Calculate delay for exponential backoff
+ */
+function calculateBackoffDelay(
+  attempt: number,
+  config: RetryConfig
+): number {
+  const delay = config.initialDelayMs * Math.pow(config.backoffFactor, attempt);
+  return Math.min(delay, config.maxDelayMs);
+}
+
+
+/**
+ * Execute a function with retry logic for transient errors.
+ * Errors are rethrown unchanged once they are not retryable or the
+ * retries are used up.
+ *
+ * @param fn - The request to attempt
+ * @param config - Retry configuration
+ * @param label - Service name for retry warnings
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  config: RetryConfig,
+  label: string = 'LLM'
+): Promise<T> {
+  let lastError: Error | undefined;
+
+  for (let attempt = 0; attempt <= config.maxRetries; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+
+      const classified = classifyLLMError(error);
+
+      // Only retry for retryable errors
+      if (!classified.isRetryable || attempt === config.maxRetries) {
+        throw error;
+      }
+
+      const delay = calculateBackoffDelay(attempt, config);
+      console.warn(
+        `${label} request failed (attempt ${attempt + 1}/${config.maxRetries + 1}): ` +
+        `${classified.message}. Retrying in ${delay}ms...`
+      );
+
+      await sleep(delay);
+    }
+  }
+
+  throw lastError || new Error('Retry failed');
+}
+
+/**
+ * Wrap an error as an LLMServiceError
+ */
+export function toLLMServiceError(error: unknown): LLMServiceError {
+  if (error instanceof LLMServiceError) {
+    return error;
+  }
+
+  const classified = classifyLLMError(error);
+  return new LLMServiceError(
+    classified.message,
+    classified.type,
+    {
+      isRetryable: classified.isRetryable,
+      statusCode: classified.statusCode,
+      originalError: error instanceof Error ? error : undefined,
+    }
+  );
+}
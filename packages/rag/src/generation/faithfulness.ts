@@ -0,0 +1,297 @@
+/**
+ * Answer Faithfulness Verification
+ *
+ * Checks a generated answer against the sources it cites. The answer is
+ * split into claims (sentences and list items), and the LLM judges each
+ * cited claim against the full text of its cited chunks with an
+ * NLI-style prompt. Unsupported claims are flagged to the student and the
+ * overall score is recorded with the query's retrieval metrics.
+ *
+ * @module @jubilant/rag/generation/faithfulness
+ */
+
+import type {
+  Citation,
+  ClaimVerdict,
+  ClaimVerification,
+  FaithfulnessReport,
+  RankedResult,
+} from '../types';
+import { extractCitationIds } from './citations';
+import type { ChatMessage, Qwen3LLM } from './llm';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A claim extracted from an answer
+ */
+export interface AnswerClaim {
+  index: number;
+  text: string;
+  citationIds: string[];
+}
+
+/**
+ * Configuration for FaithfulnessVerifier
+ */
+export interface FaithfulnessVerifierConfig {
+  /** Maximum claims sent for verification; later claims stay unverified */
+  maxClaims: number;
+  /** Maximum characters of each source shown to the verifier */
+  maxSourceChars: number;
+  /** Claims shorter than this many words are skipped (e.g. "For example:") */
+  minClaimWords: number;
+}
+
+const DEFAULT_CONFIG: FaithfulnessVerifierConfig = {
+  maxClaims: 12,
+  maxSourceChars: 1500,
+  minClaimWords: 4,
+};
+
+/**
+ * Contribution of each verdict to the faithfulness score.
+ * Uncited and unverified claims are not scored.
+ */
+const VERDICT_SCORES: Partial<Record<ClaimVerdict, number>> = {
+  supported: 1,
+  partial: 0.5,
+  unsupported: 0,
+};
+
+// ============================================================================
+// Claim Extraction
+// ============================================================================
+
+/**
+ * Split an answer into claims. Code blocks are skipped, headings and list
+ * markers are stripped, and citation markers that open a sentence (as in
+ * "... weights. [2] Bellman-Ford ...") are moved back to the sentence
+ * they follow.
+ *
+ * @param answer - Generated answer (markdown)
+ * @param minWords - Claims with fewer words are dropped
+ * @returns Claims in answer order
+ */
+export function splitClaims(answer: string, minWords: number = DEFAULT_CONFIG.minClaimWords): AnswerClaim[] {
+  const prose = answer.replace(/```[\s\S]*?(```|$)/g, '\n');
+  const sentences: string[] = [];
+
+  for (const rawLine of prose.split('\n')) {
+    const line = rawLine
+      .replace(/^\s*(#{1,6}\s+|[-*+]\s+|\d+[.)]\s+|>\s*)/, '')
+      .trim();
+    if (!line) continue;
+
+    for (const sentence of line.split(/(?<=[.!?])\s+(?=[A-Z0-9"'(`*[])/)) {
+      const leading = sentence.match(/^(\[\d+\]\s*)+/);
+      if (leading && sentences.length > 0) {
+        sentences[sentences.length - 1] += ` ${leading[0].trim()}`;
+        sentences.push(sentence.slice(leading[0].length).trim());
+      } else {
+        sentences.push(sentence.trim());
+      }
+    }
+  }
+
+  const countWords = (text: string) =>
+    text.replace(/\[\d+\]/g, ' ').split(/\s+/).filter((word) => /\w/.test(word)).length;
+
+  return sentences
+    .filter((sentence) => countWords(sentence) >= minWords)
+    .map((text, index) => ({ index, text, citationIds: extractCitationIds(text) }));
+}
+
+// ============================================================================
+// Verification Prompt
+// ============================================================================
+
+/**
+ * System prompt for claim verification
+ */
+export const FAITHFULNESS_SYSTEM_PROMPT = `You check whether the claims in a tutor's answer are supported by the sources they cite.
+
+For each numbered claim, compare it only with the sources listed for it:
+- SUPPORTED: the sources state the claim or directly imply it
+- PARTIAL: the sources support part of the claim, but a detail is missing or different
+- UNSUPPORTED: the sources do not back the claim, or contradict it
+
+Judge support, not truth: a correct claim that its sources do not back is UNSUPPORTED.
+Return one line per claim in the form "<claim number>: SUPPORTED", "<claim number>: PARTIAL" or "<claim number>: UNSUPPORTED", with no other text.`;
+
+/**
+ * User prompt for claim verification
+ *
+ * @param claims - Claims to verify, each citing at least one known source
+ * @param sources - Cited sources by citation ID
+ * @param maxSourceChars - Truncation length of each source
+ * @returns Prompt listing the sources and the numbered claims
+ */
+export function createFaithfulnessPrompt(
+  claims: AnswerClaim[],
+  sources: Map<string, { title: string; content: string }>,
+  maxSourceChars: number = DEFAULT_CONFIG.maxSourceChars
+): string {
+  const sourceText = [...sources]
+    .map(([id, source]) => {
+      const content =
+        source.content.length > maxSourceChars
+          ? `${source.content.slice(0, maxSourceChars)}...`
+          : source.content;
+      return `${id} ${source.title}\n${content}`;
+    })
+    .join('\n\n');
+
+  const claimText = claims
+    .map((claim, i) => {
+      const text = claim.text.replace(/\s*\[\d+\]/g, '').trim();
+      return `${i + 1}. (cites ${claim.citationIds.join(', ')}) ${text}`;
+    })
+    .join('\n');
+
+  return `## Sources
+${sourceText}
+
+## Claims
+${claimText}
+
+## Verdicts`;
+}
+
+/**
+ * Build the messages for a verification request
+ */
+export function buildFaithfulnessMessages(
+  claims: AnswerClaim[],
+  sources: Map<string, { title: string; content: string }>,
+  maxSourceChars?: number
+): ChatMessage[] {
+  return [
+    { role: 'system', content: FAITHFULNESS_SYSTEM_PROMPT },
+    { role: 'user', content: createFaithfulnessPrompt(claims, sources, maxSourceChars) },
+  ];
+}
+
+/**
+ * Parse verdict lines from the verifier's output. Lines that do not match
+ * are ignored, so claims the model skipped have no verdict.
+ *
+ * @param output - Raw LLM output
+ * @returns Verdicts by 1-based claim number
+ */
+export function parseClaimVerdicts(output: string): Map<number, ClaimVerdict> {
+  const verdicts = new Map<number, ClaimVerdict>();
+  const lineRegex =
+    /^\W*(?:claim\s*)?(\d+)\W+(unsupported|not supported|partially supported|partial|supported)\b/i;
+
+  for (const line of output.split('\n')) {
+    const match = line.trim().match(lineRegex);
+    if (!match) continue;
+
+    const label = match[2].toLowerCase();
+    const verdict: ClaimVerdict =
+      label === 'supported'
+        ? 'supported'
+        : label.startsWith('partial')
+          ? 'partial'
+          : 'unsupported';
+    verdicts.set(Number(match[1]), verdict);
+  }
+
+  return verdicts;
+}
+
+// ============================================================================
+// FaithfulnessVerifier Class
+// ============================================================================
+
+/**
+ * Score a set of claim verifications
+ */
+export function summarizeClaims(claims: ClaimVerification[]): FaithfulnessReport {
+  const scores = claims
+    .map((claim) => VERDICT_SCORES[claim.verdict])
+    .filter((score): score is number => score !== undefined);
+
+  return {
+    score: scores.length === 0 ? null : scores.reduce((sum, s) => sum + s, 0) / scores.length,
+    claims,
+    unsupportedCount: claims.filter((claim) => claim.verdict === 'unsupported').length,
+  };
+}
+
+/**
+ * FaithfulnessVerifier - Checks answer claims against their cited chunks
+ */
+export class FaithfulnessVerifier {
+  private llm: Qwen3LLM;
+  private config: FaithfulnessVerifierConfig;
+
+  constructor(llm: Qwen3LLM, config: Partial<FaithfulnessVerifierConfig> = {}) {
+    this.llm = llm;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Verify an answer. Errors from the LLM propagate to the caller.
+   *
+   * @param answer - Generated answer
+   * @param citations - Citations offered to the model
+   * @param rankedResults - Ranked results the citations were created from
+   * @returns Report with a verdict for every claim
+   */
+  async verify(
+    answer: string,
+    citations: Citation[],
+    rankedResults: RankedResult[]
+  ): Promise<FaithfulnessReport> {
+    const resultsById = new Map(rankedResults.map((r) => [r.id, r]));
+    const sources = new Map<string, { title: string; content: string }>();
+    for (const citation of citations) {
+      const result = resultsById.get(citation.chunkId);
+      sources.set(citation.id, {
+        title: citation.documentTitle,
+        content: result?.content ?? citation.snippet,
+      });
+    }
+
+    const claims = splitClaims(answer, this.config.minClaimWords);
+    const verdicts = new Map<number, ClaimVerdict>();
+    const toVerify: AnswerClaim[] = [];
+
+    for (const claim of claims) {
+      if (claim.citationIds.length === 0) {
+        verdicts.set(claim.index, 'uncited');
+      } else if (!claim.citationIds.some((id) => sources.has(id))) {
+        // Cites only sources that were never offered: nothing can back it
+        verdicts.set(claim.index, 'unsupported');
+      } else if (toVerify.length < this.config.maxClaims) {
+        toVerify.push({ ...claim, citationIds: claim.citationIds.filter((id) => sources.has(id)) });
+      }
+    }
+
+    if (toVerify.length > 0) {
+      const cited = new Set(toVerify.flatMap((claim) => claim.citationIds));
+      const citedSources = new Map([...sources].filter(([id]) => cited.has(id)));
+      const output = await this.llm.complete(
+        buildFaithfulnessMessages(toVerify, citedSources, this.config.maxSourceChars)
+      );
+      const parsed = parseClaimVerdicts(output);
+      toVerify.forEach((claim, i) => {
+        const verdict = parsed.get(i + 1);
+        if (verdict) verdicts.set(claim.index, verdict);
+      });
+    }
+
+    return summarizeClaims(
+      claims.map((claim) => ({
+        index: claim.index,
+        text: claim.text,
+        citationIds: claim.citationIds,
+        verdict: verdicts.get(claim.index) ?? 'unverified',
+      }))
+    );
+  }
+}
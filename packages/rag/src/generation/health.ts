@@ -2,9 +2,9 @@
  * LLM Health Check Utilities
  *
  * Provides health checking for all LLM services:
- * - Qwen3-32B (generation)
- * - Qwen3-Embedding-8B (embeddings)
- * - Qwen3-Reranker-4B (reranking)
+ * - The model for each role: generation, embeddings and reranking
+ *   (Qwen3-32B, Qwen3-Embedding-8B and Qwen3-Reranker-4B by default)
+ * - Reachability of every configured model provider
  *
  * @module @jubilant/rag/generation/health
  */
@@ -12,6 +12,7 @@
 import { Qwen3LLM, createLLM } from './llm';
 import { Qwen3Embedding, createEmbedder } from './embedder';
 import { Qwen3Reranker, createReranker } from '../reranking/reranker';
+import { getModelRegistry, type ModelRegistry, type ProviderHealth } from '../providers/registry';
 import type { ComponentHealth } from '../types';
 
 /**
@@ -21,6 +22,8 @@ export interface LLMHealthStatus {
   llm: ComponentHealth;
   embedding: ComponentHealth;
   reranker: ComponentHealth;
+  /** Every configured provider, whether or not a role uses it */
+  providers: ProviderHealth[];
   allHealthy: boolean;
 }
 
@@ -33,15 +36,18 @@ export class LLMHealthChecker {
   private llm: Qwen3LLM;
   private embedder: Qwen3Embedding;
   private reranker: Qwen3Reranker;
+  private registry: ModelRegistry;
 
   constructor(options?: {
     llm?: Qwen3LLM;
     embedder?: Qwen3Embedding;
     reranker?: Qwen3Reranker;
+    registry?: ModelRegistry;
   }) {
     this.llm = options?.llm || createLLM();
     this.embedder = options?.embedder || createEmbedder();
     this.reranker = options?.reranker || createReranker();
+    this.registry = options?.registry || getModelRegistry();
   }
 
   /**
@@ -49,17 +55,23 @@ export class LLMHealthChecker {
    */
   async checkAll(): Promise<LLMHealthStatus> {
     // Run all health checks in parallel
-    const [llmHealth, embeddingHealth, rerankerHealth] = await Promise.all([
+    const [llmHealth, embeddingHealth, rerankerHealth, providers] = await Promise.all([
       this.checkLLM(),
       this.checkEmbedding(),
       this.checkReranker(),
+      this.checkProviders(),
     ]);
 
     return {
       llm: llmHealth,
       embedding: embeddingHealth,
       reranker: rerankerHealth,
-      allHealthy: llmHealth.healthy && embeddingHealth.healthy && rerankerHealth.healthy,
+      providers,
+      allHealthy:
+        llmHealth.healthy &&
+        embeddingHealth.healthy &&
+        rerankerHealth.healthy &&
+        providers.every((p) => p.healthy),
     };
   }
 
@@ -84,23 +96,20 @@ export class LLMHealthChecker {
     return this.reranker.healthCheck();
   }
 
+  /**
+   * Check that every configured provider is reachable
+   */
+  async checkProviders(): Promise<ProviderHealth[]> {
+    return this.registry.checkProviders();
+  }
+
   /**
    * Quick liveness check (just verifies services are reachable)
    */
   async liveness(): Promise<boolean> {
-    try {
-      // Just check if the endpoints respond
-      const checks = await Promise.allSettled([
-        this.pingEndpoint(process.env.LLM_BASE_URL || 'http://localhost:8000/v1'),
-        this.pingEndpoint(process.env.EMBEDDING_BASE_URL || 'http://localhost:8001/v1'),
-        this.pingEndpoint(process.env.RERANKER_BASE_URL || 'http://localhost:8002/v1'),
-      ]);
-
-      // At least LLM must be reachable for liveness
-      return checks[0].status === 'fulfilled';
-    } catch {
-      return false;
-    }
+    // At least the LLM provider must be reachable for liveness
+    const health = await this.llm.modelProvider.healthCheck();
+    return health.healthy;
   }
 
   /**
@@ -110,26 +119,6 @@ export class LLMHealthChecker {
     const status = await this.checkAll();
     return status.allHealthy;
   }
-
-  /**
-   * Ping an endpoint to check if it's reachable
-   */
-  private async pingEndpoint(baseUrl: string): Promise<boolean> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 5000);
-
-    try {
-      const response = await fetch(`${baseUrl}/models`, {
-        method: 'GET',
-        signal: controller.signal,
-      });
-      return response.ok;
-    } catch {
-      return false;
-    } finally {
-      clearTimeout(timeoutId);
-    }
-  }
 }
 
 /**
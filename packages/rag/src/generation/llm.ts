@@ -1,212 +1,29 @@
 /**
  * Qwen3 LLM Client
  *
- * OpenAI-compatible LLM client for Qwen3-32B model.
+ * Chat client for the generation model (Qwen3-32B by default), served by
+ * any chat-capable model provider.
  * Supports both streaming and non-streaming responses.
  * Includes graceful error handling for service unavailability.
  *
  * @module @jubilant/rag/generation/llm
  */
 
-import { OpenAI } from '@llamaindex/openai';
-
-// ============================================================================
-// Error Types (T081)
-// ============================================================================
-
-/**
- * LLM service error types for graceful error handling
- */
-export type LLMErrorType =
-  | 'CONNECTION_ERROR'
-  | 'TIMEOUT_ERROR'
-  | 'RATE_LIMIT_ERROR'
-  | 'MODEL_ERROR'
-  | 'CONTEXT_LENGTH_ERROR'
-  | 'SERVICE_UNAVAILABLE'
-  | 'UNKNOWN_ERROR';
-
-/**
- * Custom error class for LLM service errors
- */
-export class LLMServiceError extends Error {
-  public readonly errorType: LLMErrorType;
-  public readonly isRetryable: boolean;
-  public readonly statusCode?: number;
-  public readonly originalError?: Error;
-
-  constructor(
-    message: string,
-    errorType: LLMErrorType,
-    options?: {
-      isRetryable?: boolean;
-      statusCode?: number;
-      originalError?: Error;
-    }
-  ) {
-    super(message);
-    this.name = 'LLMServiceError';
-    this.errorType = errorType;
-    this.isRetryable = options?.isRetryable ?? false;
-    this.statusCode = options?.statusCode;
-    this.originalError = options?.originalError;
-  }
-}
-
-/**
- * Classify an error into an LLM error type
- */
-export function classifyLLMError(error: unknown): {
-  type: LLMErrorType;
-  message: string;
-  isRetryable: boolean;
-  statusCode?: number;
-} {
-  if (error instanceof LLMServiceError) {
-    return {
-      type: error.errorType,
-      message: error.message,
-      isRetryable: error.isRetryable,
-      statusCode: error.statusCode,
-    };
-  }
-
-  const errorMessage = error instanceof Error ? error.message : String(error);
-  const lowerMessage = errorMessage.toLowerCase();
-
-  // Connection errors
-  if (
-    lowerMessage.includes('econnrefused') ||
-    lowerMessage.includes('enotfound') ||
-    lowerMessage.includes('network') ||
-    lowerMessage.includes('connection refused') ||
-    lowerMessage.includes('failed to fetch')
-  ) {
-    return {
-      type: 'CONNECTION_ERROR',
-      message: 'LLM service is unreachable. Please check if the service is running.',
-      isRetryable: true,
-    };
-  }
-
-  // Timeout errors
-  if (
-    lowerMessage.includes('timeout') ||
-    lowerMessage.includes('timed out') ||
-    lowerMessage.includes('etimedout')
-  ) {
-    return {
-      type: 'TIMEOUT_ERROR',
-      message: 'LLM request timed out. The service may be overloaded.',
-      isRetryable: true,
-    };
-  }
-
-  // Rate limit errors
-  if (
-    lowerMessage.includes('rate limit') ||
-    lowerMessage.includes('too many requests') ||
-    lowerMessage.includes('429')
-  ) {
-    return {
-      type: 'RATE_LIMIT_ERROR',
-      message: 'LLM rate limit exceeded. Please try again later.',
-      isRetryable: true,
-    };
-  }
-
-  // Context length errors
-  if (
-    lowerMessage.includes('context length') ||
-    lowerMessage.includes('max_tokens') ||
-    lowerMessage.includes('too long') ||
-    lowerMessage.includes('token limit')
-  ) {
-    return {
-      type: 'CONTEXT_LENGTH_ERROR',
-      message: 'Request exceeds the model context length limit.',
-      isRetryable: false,
-    };
-  }
-
-  // Model errors
-  if (
-    lowerMessage.includes('model not found') ||
-    lowerMessage.includes('model_not_found') ||
-    lowerMessage.includes('invalid model')
-  ) {
-    return {
-      type: 'MODEL_ERROR',
-      message: 'Requested model is not available.',
-      isRetryable: false,
-    };
-  }
-
-  // Service unavailable (5xx errors)
-  if (
-    lowerMessage.includes('502') ||
-    lowerMessage.includes('503') ||
-    lowerMessage.includes('504') ||
-    lowerMessage.includes('bad gateway') ||
-    lowerMessage.includes('service unavailable')
-  ) {
-    return {
-      type: 'SERVICE_UNAVAILABLE',
-      message: 'LLM service is temporarily unavailable.',
-      isRetryable: true,
-    };
-  }
-
-  // Unknown error
-  return {
-    type: 'UNKNOWN_ERROR',
-    message: errorMessage || 'An unknown error occurred with the LLM service.',
-    isRetryable: false,
-  };
-}
-
-// ============================================================================
-// Retry Configuration
-// ============================================================================
-
-/**
- * Retry configuration for LLM requests
- */
-export interface RetryConfig {
-  /** Maximum number of retry attempts */
-  maxRetries: number;
-  /** Initial delay between retries in ms */
-  initialDelayMs: number;
-  /** Maximum delay between retries in ms */
-  maxDelayMs: number;
-  /** Exponential backoff factor */
-  backoffFactor: number;
-}
-
-const DEFAULT_RETRY_CONFIG: RetryConfig = {
-  maxRetries: 3,
-  initialDelayMs: 1000,
-  maxDelayMs: 10000,
-  backoffFactor: 2,
-};
-
-/**
- * Sleep for a specified duration
- */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
-/**
- * Calculate delay for exponential backoff
- */
-function calculateBackoffDelay(
-  attempt: number,
-  config: RetryConfig
-): number {
-  const delay = config.initialDelayMs * Math.pow(config.backoffFactor, attempt);
-  return Math.min(delay, config.maxDelayMs);
-}
+import {
+  DEFAULT_RETRY_CONFIG,
+  LLMServiceError,
+  classifyLLMError,
+  toLLMServiceError,
+  type LLMErrorType,
+  type RetryConfig,
+} from './errors';
+import { createDefaultProvider, type ModelProvider } from '../providers/http';
+import { getModelRegistry } from '../providers/registry';
+import { countLLMError, countLLMTokens } from '../monitoring/prometheus';
+import { getTracer, type Span } from '../monitoring/tracing';
+
+export { LLMServiceError, classifyLLMError } from './errors';
+export type { LLMErrorType, RetryConfig } from './errors';
 
 // ============================================================================
 // Configuration
@@ -230,6 +47,11 @@ export interface Qwen3LLMConfig {
   timeout?: number;
   /** Retry configuration for failed requests */
   retry?: Partial<RetryConfig>;
+  /**
+   * Provider serving the model. Without one, an OpenAI-compatible provider
+   * at baseUrl is used, with the timeout and retry settings above.
+   */
+  provider?: ModelProvider;
 }
 
 /**
@@ -260,7 +82,7 @@ export interface LLMStreamChunk {
 }
 
 /**
- * Qwen3 LLM client using OpenAI-compatible API
+ * Qwen3 LLM client
  *
  * Includes:
  * - Graceful error handling with classified error types
@@ -269,8 +91,7 @@ export interface LLMStreamChunk {
  */
 export class Qwen3LLM {
   private config: Qwen3LLMConfig;
-  private retryConfig: RetryConfig;
-  private client: OpenAI;
+  private provider: ModelProvider;
 
   constructor(config: Partial<Qwen3LLMConfig> = {}) {
     this.config = {
@@ -278,41 +99,35 @@ export class Qwen3LLM {
       ...config,
     } as Qwen3LLMConfig;
 
-    this.retryConfig = {
-      ...DEFAULT_RETRY_CONFIG,
-      ...config.retry,
-    };
-
-    // Initialize LlamaIndex OpenAI client with custom base URL
-    this.client = new OpenAI({
-      apiKey: this.config.apiKey || 'not-needed',
-      additionalSessionOptions: {
-        baseURL: this.config.baseUrl,
-      },
-      model: this.config.model,
-      temperature: this.config.temperature,
-      maxTokens: this.config.maxTokens,
+    this.provider = this.config.provider ?? createDefaultProvider('llm', {
+      baseUrl: this.config.baseUrl,
+      apiKey: this.config.apiKey,
+      timeoutMs: this.config.timeout ?? DEFAULT_CONFIG.timeout!,
+      retry: { ...DEFAULT_RETRY_CONFIG, ...config.retry },
     });
   }
 
   /**
-   * Generate a complete response (non-streaming) with retry logic
+   * Generate a complete response (non-streaming). Transient failures are
+   * retried by the provider.
    */
   async complete(messages: ChatMessage[]): Promise<string> {
-    return this.withRetry(async () => {
-      try {
-        const response = await this.client.chat({
-          messages: messages.map(m => ({
-            role: m.role,
-            content: m.content,
-          })),
-        });
-
-        return response.message.content as string;
-      } catch (error) {
-        throw this.wrapError(error);
-      }
-    });
+    return getTracer().withSpan(
+      'llm.chat',
+      async (span) => {
+        try {
+          const content = await this.provider.chat(messages, this.chatOptions);
+          this.countTokens(messages, content, span);
+          return content;
+        } catch (error) {
+          const llmError = this.wrapError(error);
+          countLLMError(this.config.model, llmError.errorType);
+          span.setAttribute('llm.error_type', llmError.errorType);
+          throw llmError;
+        }
+      },
+      { kind: 'client', attributes: this.spanAttributes(false) }
+    );
   }
 
   /**
@@ -346,25 +161,22 @@ export class Qwen3LLM {
    * Generate a streaming response with error handling
    */
   async *stream(messages: ChatMessage[]): AsyncGenerator<LLMStreamChunk> {
+    let generated = '';
+    // Started by hand: a generator cannot keep a span active across yields
+    const span = getTracer().startSpan('llm.chat', {
+      kind: 'client',
+      attributes: this.spanAttributes(true),
+    });
     try {
-      const stream = await this.client.chat({
-        messages: messages.map(m => ({
-          role: m.role,
-          content: m.content,
-        })),
-        stream: true,
-      });
-
-      for await (const chunk of stream) {
-        const content = chunk.delta;
-        if (content) {
-          yield {
-            content,
-            finishReason: null,
-          };
-        }
+      for await (const content of this.provider.chatStream(messages, this.chatOptions)) {
+        generated += content;
+        yield {
+          content,
+          finishReason: null,
+        };
       }
 
+      this.countTokens(messages, generated, span);
       yield {
         content: '',
         finishReason: 'stop',
@@ -372,6 +184,9 @@ export class Qwen3LLM {
     } catch (error) {
       // For streaming, we yield an error indicator
       const llmError = this.wrapError(error);
+      countLLMError(this.config.model, llmError.errorType);
+      span.setAttribute('llm.error_type', llmError.errorType);
+      span.recordError(llmError);
       console.error(`LLM stream error [${llmError.errorType}]:`, llmError.message);
 
       // Yield error information in the stream
@@ -382,6 +197,8 @@ export class Qwen3LLM {
       } as LLMStreamChunk & { error?: LLMServiceError };
 
       throw llmError;
+    } finally {
+      span.end();
     }
   }
 
@@ -448,55 +265,48 @@ export class Qwen3LLM {
   }
 
   /**
-   * Execute a function with retry logic for transient errors
+   * Count the (estimated) tokens of a completed request and record them
+   * on its span
    */
-  private async withRetry<T>(fn: () => Promise<T>): Promise<T> {
-    let lastError: Error | undefined;
-
-    for (let attempt = 0; attempt <= this.retryConfig.maxRetries; attempt++) {
-      try {
-        return await fn();
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
-
-        const classified = classifyLLMError(error);
-
-        // Only retry for retryable errors
-        if (!classified.isRetryable || attempt === this.retryConfig.maxRetries) {
-          throw error;
-        }
-
-        const delay = calculateBackoffDelay(attempt, this.retryConfig);
-        console.warn(
-          `LLM request failed (attempt ${attempt + 1}/${this.retryConfig.maxRetries + 1}): ` +
-          `${classified.message}. Retrying in ${delay}ms...`
-        );
-
-        await sleep(delay);
-      }
-    }
+  private countTokens(messages: ChatMessage[], completion: string, span: Span): void {
+    const promptChars = messages.reduce((sum, m) => sum + m.content.length, 0);
+    const promptTokens = Math.ceil(promptChars / 4);
+    const completionTokens = Math.ceil(completion.length / 4);
+    countLLMTokens(this.config.model, 'prompt', promptTokens);
+    countLLMTokens(this.config.model, 'completion', completionTokens);
+    span.setAttributes({
+      'llm.prompt_tokens': promptTokens,
+      'llm.completion_tokens': completionTokens,
+    });
+  }
 
-    throw lastError || new Error('Retry failed');
+  /**
+   * Attributes of an llm.chat span
+   */
+  private spanAttributes(streaming: boolean): Record<string, string | number | boolean> {
+    return {
+      'llm.model': this.config.model,
+      'llm.provider': this.provider.name,
+      'llm.streaming': streaming,
+    };
   }
 
   /**
    * Wrap an error as an LLMServiceError
    */
   private wrapError(error: unknown): LLMServiceError {
-    if (error instanceof LLMServiceError) {
-      return error;
-    }
+    return toLLMServiceError(error);
+  }
 
-    const classified = classifyLLMError(error);
-    return new LLMServiceError(
-      classified.message,
-      classified.type,
-      {
-        isRetryable: classified.isRetryable,
-        statusCode: classified.statusCode,
-        originalError: error instanceof Error ? error : undefined,
-      }
-    );
+  /**
+   * Model and generation settings sent with each request
+   */
+  private get chatOptions() {
+    return {
+      model: this.config.model,
+      maxTokens: this.config.maxTokens,
+      temperature: this.config.temperature,
+    };
   }
 
   /**
@@ -536,10 +346,10 @@ export class Qwen3LLM {
   }
 
   /**
-   * Get the underlying LlamaIndex OpenAI client
+   * Get the provider serving the model
    */
-  get llamaindexClient(): OpenAI {
-    return this.client;
+  get modelProvider(): ModelProvider {
+    return this.provider;
   }
 
   /**
@@ -556,13 +366,16 @@ export class Qwen3LLM {
 }
 
 /**
- * Create a Qwen3LLM instance with environment configuration
+ * Create a Qwen3LLM instance for the model configured for the llm role
+ * (see providers/config)
  */
 export function createLLM(config: Partial<Qwen3LLMConfig> = {}): Qwen3LLM {
+  const binding = getModelRegistry().require('llm');
   return new Qwen3LLM({
-    baseUrl: process.env.LLM_BASE_URL,
-    apiKey: process.env.LLM_API_KEY,
-    model: process.env.LLM_MODEL,
+    provider: binding.client,
+    model: binding.model,
+    ...(binding.maxTokens !== undefined && { maxTokens: binding.maxTokens }),
+    ...(binding.temperature !== undefined && { temperature: binding.temperature }),
     ...config,
   });
 }
@@ -7,7 +7,9 @@
  * @module @jubilant/rag/generation/prompts
  */
 
-import type { RankedResult, Citation } from '../types';
+import type { RankedResult, Citation, RerankScorer } from '../types';
+import type { ChatMessage } from './llm';
+import { formatPageRange } from './citations';
 
 /**
  * Confidence level based on reranker scores
@@ -41,6 +43,51 @@ export function hasInsufficientEvidence(
   return topScore < threshold;
 }
 
+/**
+ * Local scorer thresholds. Term coverage and embedding similarity are
+ * weaker evidence than a cross-encoder, so local scores never reach high
+ * confidence and need stronger overlap for medium.
+ */
+const LOCAL_SCORE_MEDIUM = 0.7;
+const LOCAL_SCORE_LOW = 0.45;
+
+/**
+ * Calibrate confidence for the scorer that produced the top score.
+ *
+ * - Rerankers (primary or secondary): relevance scores map directly
+ * - Local scorer: capped at medium, with stricter thresholds
+ * - RRF pass-through: fused scores only encode rank, so confidence is at
+ *   most low and sufficiency cannot be judged beyond "something was found"
+ *
+ * @param topScore - The highest score from the scorer
+ * @param scorer - Scorer that produced the score
+ * @param threshold - Reranker confidence threshold (default 0.6)
+ * @returns Confidence level and whether evidence is insufficient
+ */
+export function getCalibratedConfidence(
+  topScore: number,
+  scorer: RerankScorer,
+  threshold: number = 0.6
+): { level: ConfidenceLevel; insufficientEvidence: boolean } {
+  switch (scorer) {
+    case 'reranker':
+    case 'secondary_reranker':
+      return {
+        level: getConfidenceLevel(topScore),
+        insufficientEvidence: hasInsufficientEvidence(topScore, threshold),
+      };
+    case 'local': {
+      const level: ConfidenceLevel =
+        topScore >= LOCAL_SCORE_MEDIUM ? 'medium' : topScore >= LOCAL_SCORE_LOW ? 'low' : 'insufficient';
+      return { level, insufficientEvidence: level === 'insufficient' };
+    }
+    case 'rrf':
+      return topScore > 0
+        ? { level: 'low', insufficientEvidence: false }
+        : { level: 'insufficient', insufficientEvidence: true };
+  }
+}
+
 /**
  * Format context chunks for LLM prompt
  *
@@ -57,8 +104,11 @@ export function formatContext(
   for (let i = 0; i < results.length; i++) {
     const result = results[i];
     const citation = citations[i];
+    const pages = formatPageRange(citation);
+    const snippet = citation.codeLanguage ? `code snippet (${citation.codeLanguage})` : '';
+    const details = [pages, snippet].filter(Boolean).join(', ');
 
-    contextParts.push(`[${citation.id}] Source: ${citation.documentTitle}
+    contextParts.push(`[${citation.id}] Source: ${citation.documentTitle}${details ? `, ${details}` : ''}
 ${result.content}
 ---`);
   }
@@ -81,6 +131,7 @@ When citing sources:
 - Place citations immediately after the relevant information, e.g., "Dynamic programming breaks problems into overlapping subproblems [1]."
 - Use multiple citations when information comes from multiple sources [1][2]
 - Each citation should reference a specific source from the context
+- When code comes from a source marked as a code snippet, cite that snippet right after the code block
 
 If the context doesn't contain enough information:
 - Clearly state what you can and cannot answer
@@ -203,14 +254,18 @@ Format: Return only the questions, one per line, without numbering.`;
 
 /**
  * Build the complete messages array for chat completion
+ *
+ * Prior conversation turns (already trimmed to the history budget) are
+ * placed between the system prompt and the grounded user prompt.
  */
 export function buildChatMessages(
   query: string,
   results: RankedResult[],
   citations: Citation[],
   hasInsufficient: boolean,
-  confidenceLevel: ConfidenceLevel
-): Array<{ role: 'system' | 'user'; content: string }> {
+  confidenceLevel: ConfidenceLevel,
+  history: ChatMessage[] = []
+): ChatMessage[] {
   const context = formatContext(results, citations);
 
   let userPrompt: string;
@@ -240,6 +295,7 @@ export function buildChatMessages(
 
   return [
     { role: 'system' as const, content: GROUNDED_RESPONSE_SYSTEM_PROMPT },
+    ...history,
     { role: 'user' as const, content: userPrompt },
   ];
 }
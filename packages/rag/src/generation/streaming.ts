@@ -6,7 +6,13 @@
  * @module @jubilant/rag/generation/streaming
  */
 
-import type { StreamChunk, Citation, ResponseMetadata, ConfidenceInfo } from '../types';
+import type {
+  StreamChunk,
+  Citation,
+  ResponseMetadata,
+  ConfidenceInfo,
+  FaithfulnessReport,
+} from '../types';
 
 /**
  * Format a stream chunk as an SSE event
@@ -82,6 +88,26 @@ export function createConfidenceChunk(confidence: ConfidenceInfo): StreamChunk {
   };
 }
 
+/**
+ * Create a faithfulness stream chunk
+ *
+ * Emitted after the answer so the UI can flag unsupported claims.
+ */
+export function createFaithfulnessChunk(faithfulness: FaithfulnessReport): StreamChunk {
+  return {
+    type: 'faithfulness',
+    faithfulness,
+  };
+}
+
+/**
+ * Split a complete answer into word-sized tokens, for replaying an answer
+ * that was not generated live (e.g. a cached one) as a token stream
+ */
+export function splitReplayTokens(text: string): string[] {
+  return text.match(/\s*\S+\s*/g) ?? [];
+}
+
 /**
  * SSE headers for response
  */
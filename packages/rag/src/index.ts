@@ -26,10 +26,48 @@ export type { RAGPipelineConfig, QueryContext } from './pipeline';
 
 export { MilvusRetriever, createMilvusRetriever } from './retrieval/vector';
 export type { MilvusRetrieverConfig } from './retrieval/vector';
+export { EmbeddingVersionTracker, createEmbeddingVersionTracker } from './retrieval/versions';
+export type {
+  EmbeddingVersion,
+  EmbeddingVersionStatus,
+  EmbeddingVersionUpdate,
+  EmbeddingVersionStore,
+  EmbeddingVersionTrackerConfig,
+  CollectionTarget,
+  CollectionTargets,
+} from './retrieval/versions';
+export {
+  EmbeddingMigration,
+  compareRetrievalResults,
+  summarizeComparisons,
+} from './retrieval/migration';
+export type {
+  EmbeddingMigrationConfig,
+  EmbeddingModelSelection,
+  CollectionInitializer,
+  BackfillProgressCallback,
+  QueryComparison,
+  VersionComparison,
+  ChunkCounts,
+} from './retrieval/migration';
 
-export { Neo4jGraphRetriever, createGraphRetriever } from './retrieval/graph';
+export {
+  Neo4jGraphRetriever,
+  createGraphRetriever,
+  isPracticeProblemQuery,
+  practiceProblemTopic,
+} from './retrieval/graph';
 export type { Neo4jGraphRetrieverConfig } from './retrieval/graph';
 
+export {
+  CodeSnippetRetriever,
+  createCodeSnippetRetriever,
+  detectRetrievalMode,
+  mentionedLanguage,
+  codeQueryTopic,
+} from './retrieval/code';
+export type { CodeSnippetRetrieverConfig, CodeQuery } from './retrieval/code';
+
 export {
   HybridRetriever,
   createHybridRetriever,
@@ -55,6 +93,7 @@ export type {
   GraphStats,
   FusionStats,
   RerankStats,
+  FaithfulnessStats,
 } from './retrieval/metrics';
 
 // ============================================================================
@@ -74,12 +113,49 @@ export {
 } from './generation/health';
 export type { LLMHealthStatus } from './generation/health';
 
+// ============================================================================
+// Model Providers
+// ============================================================================
+
+export {
+  OpenAICompatibleProvider,
+  OllamaProvider,
+  TEIProvider,
+  createModelProvider,
+} from './providers/http';
+export type {
+  ModelProvider,
+  ProviderConfig,
+  ProviderType,
+  ModelCapability,
+  ChatOptions,
+  RerankScore,
+} from './providers/http';
+
+export {
+  ModelsConfigError,
+  parseModelsConfig,
+  modelsConfigFromEnv,
+  loadModelsConfig,
+} from './providers/config';
+export type { ModelRole, RoleConfig, ModelsConfig } from './providers/config';
+
+export { ModelRegistry, getModelRegistry, setModelRegistry } from './providers/registry';
+export type { ModelBinding, ProviderHealth } from './providers/registry';
+
 // ============================================================================
 // Reranking
 // ============================================================================
 
 export { Qwen3Reranker, createReranker } from './reranking/reranker';
 export type { Qwen3RerankerConfig, RerankedResult } from './reranking/reranker';
+export {
+  FallbackReranker,
+  createFallbackReranker,
+  scoreLocally,
+  tokenizeForScoring,
+} from './reranking/fallback';
+export type { FallbackRerankerConfig, FallbackRerankResult } from './reranking/fallback';
 
 // ============================================================================
 // Generation Utilities
@@ -87,6 +163,7 @@ export type { Qwen3RerankerConfig, RerankedResult } from './reranking/reranker';
 
 export {
   getConfidenceLevel,
+  getCalibratedConfidence,
   hasInsufficientEvidence,
   formatContext,
   buildChatMessages,
@@ -96,6 +173,17 @@ export {
 } from './generation/prompts';
 export type { ConfidenceLevel } from './generation/prompts';
 
+export {
+  InMemoryConversationStore,
+  selectHistoryWithinBudget,
+  formatHistoryMessages,
+  buildQueryRewriteMessages,
+  createQueryRewritePrompt,
+  parseRewrittenQuery,
+  QUERY_REWRITE_SYSTEM_PROMPT,
+} from './generation/conversation';
+export type { ConversationTurn, ConversationStore } from './generation/conversation';
+
 export {
   createCitations,
   extractSnippet,
@@ -103,11 +191,23 @@ export {
   filterUsedCitations,
   renumberCitations,
   formatCitation,
+  formatPageRange,
   createReferencesSection,
   validateCitations,
 } from './generation/citations';
 export type { CitationConfig } from './generation/citations';
 
+export {
+  FaithfulnessVerifier,
+  splitClaims,
+  summarizeClaims,
+  buildFaithfulnessMessages,
+  createFaithfulnessPrompt,
+  parseClaimVerdicts,
+  FAITHFULNESS_SYSTEM_PROMPT,
+} from './generation/faithfulness';
+export type { AnswerClaim, FaithfulnessVerifierConfig } from './generation/faithfulness';
+
 // ============================================================================
 // Streaming Utilities
 // ============================================================================
@@ -120,6 +220,8 @@ export {
   createDoneChunk,
   createErrorChunk,
   createConfidenceChunk,
+  createFaithfulnessChunk,
+  splitReplayTokens,
   createSSETransformStream,
   createSSEStream,
   parseSSEEvent,
@@ -129,6 +231,133 @@ export {
   SSE_HEADERS,
 } from './generation/streaming';
 
+// ============================================================================
+// Semantic Answer Cache
+// ============================================================================
+
+export {
+  SemanticAnswerCache,
+  createSemanticAnswerCache,
+  answerCacheScopeKey,
+  citedDocumentUrls,
+  cosineSimilarity,
+} from './cache/answers';
+export type {
+  CachedAnswer,
+  AnswerCacheEntry,
+  AnswerCacheHit,
+  AnswerCacheScope,
+  AnswerCacheStats,
+  DocumentRevisionSource,
+  SemanticAnswerCacheConfig,
+} from './cache/answers';
+
+// ============================================================================
+// Analytics
+// ============================================================================
+
+export { normalizeQuery, hashQuery, redactQueryText } from './analytics/recorder';
+export type { QueryRecord, QueryRecorder, QuerySource } from './analytics/recorder';
+
+export {
+  rankHotspots,
+  resolveQueryConcepts,
+  DEFAULT_HOTSPOT_WEIGHTS,
+  LOW_RATING_THRESHOLD,
+} from './analytics/hotspots';
+export type {
+  ConceptQueryStats,
+  ConceptHotspot,
+  HotspotWeights,
+} from './analytics/hotspots';
+
+export {
+  fetchConceptGraph,
+  countConceptMentions,
+  buildCoverageReport,
+} from './analytics/coverage';
+export type {
+  ConceptGraphNode,
+  ConceptCoverage,
+  CoverageStatus,
+  CoverageTreeNode,
+  CoverageReport,
+  CoverageReportOptions,
+} from './analytics/coverage';
+
+// ============================================================================
+// Monitoring
+// ============================================================================
+
+export {
+  MetricsRegistry,
+  Counter,
+  Gauge,
+  Histogram,
+  getMetricsRegistry,
+  setMetricsRegistry,
+  observeStageDuration,
+  countLLMTokens,
+  countLLMError,
+  PROMETHEUS_CONTENT_TYPE,
+  DEFAULT_LATENCY_BUCKETS,
+} from './monitoring/prometheus';
+export type { MetricLabels, MetricType } from './monitoring/prometheus';
+export {
+  Tracer,
+  Span,
+  OTLPHttpSpanExporter,
+  FileSpanExporter,
+  createTracer,
+  getTracer,
+  setTracer,
+  parseTraceparent,
+  formatTraceparent,
+  toOTLPRequest,
+} from './monitoring/tracing';
+export type {
+  SpanContext,
+  SpanKind,
+  SpanAttributes,
+  SpanAttributeValue,
+  SpanStatusCode,
+  SpanData,
+  SpanExporter,
+  StartSpanOptions,
+  TracerConfig,
+} from './monitoring/tracing';
+
+// ============================================================================
+// Retrieval Evaluation
+// ============================================================================
+
+export { GoldenSetError, parseGoldenSet, loadGoldenSet } from './evaluation/golden';
+export type { GoldenQuestion, GoldenSet } from './evaluation/golden';
+export {
+  questionTargets,
+  matchTargets,
+  scoreRanking,
+  summarizeScores,
+} from './evaluation/metrics';
+export type { JudgedResult, RankingScores, MetricSummary } from './evaluation/metrics';
+export {
+  RetrievalEvaluator,
+  summarizeEvaluation,
+  findRegressions,
+} from './evaluation/evaluator';
+export type {
+  EvaluationStage,
+  RetrievalEvaluatorConfig,
+  StageResult,
+  QuestionEvaluation,
+  EvaluationSummary,
+  EvaluationReport,
+  EvaluationRunRecord,
+  EvaluationStore,
+  MetricRegression,
+  EvaluationProgressCallback,
+} from './evaluation/evaluator';
+
 // ============================================================================
 // Ingestion Components
 // ============================================================================
@@ -141,17 +370,23 @@ export {
   restoreProtectedElements,
   splitIntoSections,
   chunkText,
+  formatPageMarker,
+  formatOcrMarker,
+  stripPageMarkers,
+  detectCodeLanguage,
 } from './ingestion/chunker';
 export type {
   ChunkerConfig,
   ProtectedElement,
   Section,
   Chunk,
+  MarkerPosition,
 } from './ingestion/chunker';
 
 export {
   BatchEmbedder,
   createBatchEmbedder,
+  toChunkMetadata,
 } from './ingestion/embedder';
 export type {
   BatchEmbedderConfig,
@@ -163,14 +398,30 @@ export {
   MilvusChunkStorage,
   Neo4jChunkStorage,
   ChunkStorageManager,
+  CodeSnippetStorage,
   createChunkStorageManager,
+  hashChunkContent,
+  toMilvusChunkId,
 } from './ingestion/storage';
 export type {
   StorageConfig,
   StorageResult,
   StorageProgressCallback,
+  StoredChunk,
+  StoredChunkSet,
+  ChunkPosition,
+  DocumentChunkSummary,
+  DocumentTriple,
 } from './ingestion/storage';
 
+export {
+  extractCodeSnippets,
+  formatSnippet,
+  splitIdentifiers,
+  MIN_SNIPPET_LINES,
+} from './ingestion/snippets';
+export type { CodeSnippet } from './ingestion/snippets';
+
 export {
   TripleExtractor,
   Neo4jTripleStorage,
@@ -197,6 +448,8 @@ export {
   getNextStatus,
   STATUS_TRANSITIONS,
   DocumentSizeError,
+  planResume,
+  diffChunks,
 } from './ingestion/pipeline';
 export type {
   IngestionPipelineConfig,
@@ -208,8 +461,25 @@ export type {
   DatabaseOperations,
   DocumentSizeErrorType,
   DocumentSizeValidation,
+  CompletedStage,
+  ResumePlan,
+  ProcessJobOptions,
+  ChunkDiff,
 } from './ingestion/pipeline';
 
+export {
+  IngestionWorker,
+  createIngestionWorker,
+  computeRetryDelay,
+} from './ingestion/queue';
+export type {
+  JobLease,
+  StaleLeaseResult,
+  IngestionJobQueue,
+  JobProcessor,
+  IngestionWorkerConfig,
+} from './ingestion/queue';
+
 // ============================================================================
 // Document Parsers
 // ============================================================================
@@ -229,6 +499,23 @@ export {
   createPDFParser,
   TextParser,
   createTextParser,
+  DocxParser,
+  createDocxParser,
+  ommlToLatex,
+  HTMLParser,
+  createHTMLParser,
+  NotebookParser,
+  createNotebookParser,
+  ProblemParser,
+  createProblemParser,
+  problemSectionType,
+  PROBLEM_SECTION_HEADERS,
+  ImageParser,
+  createImageParser,
+  TesseractOcrEngine,
+  createOcrEngine,
+  getOcrEngine,
+  setOcrEngine,
   DocumentParseError,
   classifyParseError,
 } from './ingestion/parsers';
@@ -237,4 +524,8 @@ export type {
   ParsedDocument,
   DocumentParser,
   DocumentParseErrorType,
+  ProblemInfo,
+  OcrEngine,
+  OcrResult,
+  TesseractConfig,
 } from './ingestion/parsers';
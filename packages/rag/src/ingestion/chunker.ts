@@ -2,14 +2,16 @@
  * Content-Aware Chunker
  *
  * Implements intelligent document chunking that preserves semantic boundaries:
- * - Protected elements (code blocks, LaTeX formulas, tables) are never split
+ * - Protected elements (code blocks, LaTeX formulas, tables) are never split;
+ *   code blocks are tagged with their language
  * - Header-based section splitting for document structure
  * - Semantic chunking within sections (512-1024 token target)
+ * - Page ranges and OCR confidence from markers written by parsers (PDF, images)
  *
  * @module @jubilant/rag/ingestion/chunker
  */
 
-import type { ChunkMetadata } from '../types';
+import type { ChunkMetadata, CodeLanguage } from '../types';
 
 /**
  * A protected element that should not be split
@@ -20,6 +22,8 @@ export interface ProtectedElement {
   startIndex: number;
   endIndex: number;
   placeholder: string;
+  /** Language of a code block; null for plain text such as sample I/O */
+  language?: CodeLanguage | null;
 }
 
 /**
@@ -137,10 +141,72 @@ function generatePlaceholder(type: string, index: number): string {
   return `${PLACEHOLDER_PREFIX}${type.toUpperCase()}_${index}${PLACEHOLDER_SUFFIX}`;
 }
 
+/**
+ * Code block tags and the language they name
+ */
+const CODE_LANGUAGE_TAGS: Record<string, CodeLanguage> = {
+  cpp: 'cpp',
+  'c++': 'cpp',
+  cc: 'cpp',
+  cxx: 'cpp',
+  hpp: 'cpp',
+  c: 'c',
+  h: 'c',
+  python: 'python',
+  python3: 'python',
+  py: 'python',
+  java: 'java',
+  javascript: 'javascript',
+  js: 'javascript',
+  typescript: 'javascript',
+  ts: 'javascript',
+  go: 'go',
+  golang: 'go',
+  rust: 'rust',
+  rs: 'rust',
+};
+
+/**
+ * Code block tags for text that is not code (sample input and output)
+ */
+const PLAIN_TEXT_TAGS = new Set(['text', 'txt', 'plaintext', 'input', 'output', 'console']);
+
+/**
+ * Signatures of untagged code, tried in order
+ */
+const CODE_LANGUAGE_PATTERNS: [CodeLanguage, RegExp][] = [
+  ['cpp', /#include\s*<(?:bits\/stdc\+\+\.h|iostream|vector|algorithm|queue|string|map|set)>|\bstd::|\busing namespace std\b|\bcout\s*<</],
+  ['c', /#include\s*<\w+\.h>|\bprintf\s*\(|\bscanf\s*\(/],
+  ['java', /\bpublic\s+(?:static\s+)?(?:class|void)\b|\bSystem\.(?:out|in)\b/],
+  ['python', /^\s*(?:def \w+\(.*\)\s*:|from \w+(?:\.\w+)* import |import \w+$)|\bprint\(|\bself\b/m],
+  ['go', /^package \w+$|\bfunc \w+\(|\bfmt\./m],
+  ['rust', /\bfn \w+\(|\blet mut\b|\bprintln!/],
+  ['javascript', /\bconst \w+ = |\bfunction \w+\(|=>|\bconsole\.log\(/],
+];
+
+/**
+ * Language of a fenced code block, from its tag or, for untagged blocks,
+ * from its content
+ *
+ * @param tag - Info string language tag (may be empty)
+ * @param code - Code inside the fences
+ * @returns The language, or null for plain text and sample I/O blocks
+ */
+export function detectCodeLanguage(tag: string, code: string): CodeLanguage | null {
+  const normalized = tag.trim().toLowerCase();
+  if (PLAIN_TEXT_TAGS.has(normalized)) return null;
+  if (normalized) return CODE_LANGUAGE_TAGS[normalized] ?? 'other';
+
+  for (const [language, pattern] of CODE_LANGUAGE_PATTERNS) {
+    if (pattern.test(code)) return language;
+  }
+  return 'other';
+}
+
 /**
  * Extract code blocks from markdown content
  *
- * Matches both fenced code blocks (```) and indented code blocks
+ * Matches fenced code blocks (```) and tags each with its language
  */
 export function extractCodeBlocks(content: string): {
   content: string;
@@ -151,7 +217,7 @@ export function extractCodeBlocks(content: string): {
   let index = 0;
 
   // Fenced code blocks (```language ... ```)
-  const fencedCodeRegex = /```[\w]*\n[\s\S]*?\n```/g;
+  const fencedCodeRegex = /```([^\s`]*)[^\n`]*\n([\s\S]*?)\n```/g;
   let match;
 
   while ((match = fencedCodeRegex.exec(content)) !== null) {
@@ -162,6 +228,7 @@ export function extractCodeBlocks(content: string): {
       startIndex: match.index,
       endIndex: match.index + match[0].length,
       placeholder,
+      language: detectCodeLanguage(match[1], match[2]),
     });
   }
 
@@ -403,9 +470,11 @@ export function splitIntoSections(content: string): Section[] {
     const sectionEnd = nextIndex;
     const sectionContent = content.slice(sectionStart, sectionEnd).trim();
 
-    // Remove the header line from content
+    // Remove the whole header line from content. Chunk hashes cover this
+    // text, so changing what is kept re-embeds every chunk under a heading
+    // on the next re-ingest.
     const contentWithoutHeader = sectionContent
-      .replace(/^#{1,6}\s+.+?\n?/, '')
+      .replace(/^#{1,6}\s+.*\n?/, '')
       .trim();
 
     sections.push({
@@ -432,6 +501,97 @@ export function splitIntoSections(content: string): Section[] {
   return sections;
 }
 
+// ============================================================================
+// Page Markers
+// ============================================================================
+
+const MARKER_REGEX = /<!-- (page|ocr-confidence): ([\d.]+) -->/g;
+
+/**
+ * Marker a parser writes at the start of each page of a paginated
+ * document; the chunker turns markers into chunk page ranges
+ */
+export function formatPageMarker(page: number): string {
+  return `<!-- page: ${page} -->`;
+}
+
+/**
+ * Marker a parser writes before OCR'd text; it applies until the next
+ * page marker, and chunks record the lowest confidence of their text
+ *
+ * @param confidence - OCR confidence, 0-1
+ */
+export function formatOcrMarker(confidence: number): string {
+  return `<!-- ocr-confidence: ${confidence} -->`;
+}
+
+/**
+ * Page and OCR confidence in effect at a point in a document
+ */
+export interface MarkerPosition {
+  page?: number;
+  ocrConfidence?: number;
+}
+
+/**
+ * Remove page and OCR markers from chunk content and find the pages its
+ * text is on
+ *
+ * @param content - Chunk content, possibly containing markers
+ * @param position - Position in effect where the chunk starts
+ * @returns Content without markers, its page range and lowest OCR
+ *   confidence, and the position in effect where the chunk ends
+ */
+export function stripPageMarkers(
+  content: string,
+  position: MarkerPosition = {}
+): {
+  content: string;
+  pageStart?: number;
+  pageEnd?: number;
+  ocrConfidence?: number;
+  position: MarkerPosition;
+} {
+  let { page, ocrConfidence: confidence } = position;
+  let pageStart: number | undefined;
+  let pageEnd: number | undefined;
+  let ocrConfidence: number | undefined;
+  const text: string[] = [];
+
+  const addText = (part: string) => {
+    if (part.trim()) {
+      pageStart ??= page;
+      pageEnd = page;
+      if (confidence !== undefined) {
+        ocrConfidence = Math.min(ocrConfidence ?? 1, confidence);
+      }
+    }
+    text.push(part);
+  };
+
+  let lastIndex = 0;
+  for (const match of content.matchAll(MARKER_REGEX)) {
+    addText(content.slice(lastIndex, match.index));
+    lastIndex = match.index! + match[0].length;
+
+    if (match[1] === 'page') {
+      page = parseInt(match[2], 10);
+      confidence = undefined;
+    } else {
+      confidence = parseFloat(match[2]);
+    }
+  }
+  addText(content.slice(lastIndex));
+
+  return {
+    content: text.join('').replace(/\n{3,}/g, '\n\n').trim(),
+    pageStart,
+    pageEnd,
+    ocrConfidence,
+    position: { page, ocrConfidence: confidence },
+  };
+}
+
 // ============================================================================
 // Semantic Chunking (T052)
 // ============================================================================
@@ -605,6 +765,7 @@ export class ContentAwareChunker {
   ): Chunk[] {
     const chunks: Chunk[] = [];
     let chunkIndex = 0;
+    let position: MarkerPosition = {};
 
     // Step 1: Extract protected elements
     const { content: contentWithPlaceholders, elements } =
@@ -620,7 +781,13 @@ export class ContentAwareChunker {
       // Chunk the section content
       const sectionChunks = chunkText(section.content, this.config);
 
-      for (const chunkContent of sectionChunks) {
+      for (const markedContent of sectionChunks) {
+        // Pages are tracked in document order across sections and chunks
+        const markers = stripPageMarkers(markedContent, position);
+        position = markers.position;
+        const chunkContent = markers.content;
+        if (!chunkContent) continue;
+
         // Restore protected elements in this chunk
         const restoredContent = restoreProtectedElements(chunkContent, elements);
 
@@ -634,6 +801,13 @@ export class ContentAwareChunker {
         const hasTable = restoredContent.includes('|') && restoredContent.includes('\n|') || elements.some(
           (e) => e.type === 'table' && chunkContent.includes(e.placeholder)
         );
+        const codeLanguages = [
+          ...new Set(
+            elements.flatMap((e) =>
+              e.type === 'code' && e.language && chunkContent.includes(e.placeholder) ? [e.language] : []
+            )
+          ),
+        ];
 
         const tokenCount = countTokens(restoredContent, this.config.language);
 
@@ -649,6 +823,10 @@ export class ContentAwareChunker {
             hasFormula,
             hasTable,
             tokenCount,
+            pageStart: markers.pageStart,
+            pageEnd: markers.pageEnd,
+            ocrConfidence: markers.ocrConfidence,
+            codeLanguages: codeLanguages.length > 0 ? codeLanguages : undefined,
           },
         });
       }
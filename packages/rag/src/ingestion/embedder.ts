@@ -9,6 +9,7 @@
 
 import { Qwen3Embedding, createEmbedder } from '../generation/embedder';
 import type { EmbeddedChunk, ChunkMetadata } from '../types';
+import type { CollectionTarget, EmbeddingVersionTracker } from '../retrieval/versions';
 import type { Chunk } from './chunker';
 
 /**
@@ -32,6 +33,32 @@ const DEFAULT_CONFIG: BatchEmbedderConfig = {
   retryDelayMs: 1000,
 };
 
+/**
+ * Build stored chunk metadata from a chunker chunk
+ *
+ * @param chunk - Chunk from the chunker
+ * @returns Metadata stored alongside the chunk
+ */
+export function toChunkMetadata(chunk: Chunk): ChunkMetadata {
+  return {
+    documentId: chunk.metadata.documentId || '',
+    documentTitle: chunk.metadata.documentTitle || '',
+    documentUrl: chunk.metadata.documentUrl || '',
+    sectionHeader: chunk.metadata.sectionHeader,
+    chunkIndex: chunk.index,
+    totalChunks: chunk.metadata.totalChunks || 0,
+    tokenCount: chunk.tokenCount,
+    hasCode: chunk.metadata.hasCode || false,
+    hasFormula: chunk.metadata.hasFormula || false,
+    hasTable: chunk.metadata.hasTable || false,
+    sectionType: chunk.metadata.sectionType,
+    pageStart: chunk.metadata.pageStart,
+    pageEnd: chunk.metadata.pageEnd,
+    ocrConfidence: chunk.metadata.ocrConfidence,
+    codeLanguages: chunk.metadata.codeLanguages,
+  } as ChunkMetadata;
+}
+
 /**
  * Progress callback for batch embedding
  */
@@ -54,18 +81,32 @@ export interface BatchEmbedResult {
   duration: number;
 }
 
+/**
+ * Embedder used for a run, and the version its vectors belong to
+ */
+type EmbeddingTarget = Pick<CollectionTarget, 'version' | 'embedder'>;
+
 /**
  * BatchEmbedder - Efficient batch embedding for document ingestion
  */
 export class BatchEmbedder {
   private embedder: Qwen3Embedding;
   private config: BatchEmbedderConfig;
+  private versionTracker: EmbeddingVersionTracker | null = null;
 
   constructor(embedder?: Qwen3Embedding, config: Partial<BatchEmbedderConfig> = {}) {
     this.embedder = embedder || createEmbedder();
     this.config = { ...DEFAULT_CONFIG, ...config };
   }
 
+  /**
+   * Set the tracker for versioned embedding collections. Chunks are then
+   * embedded with the active version's model and tagged with its version.
+   */
+  setVersionTracker(tracker: EmbeddingVersionTracker | null): void {
+    this.versionTracker = tracker;
+  }
+
   /**
    * Embed chunks in batches
    *
@@ -80,6 +121,7 @@ export class BatchEmbedder {
     const startTime = Date.now();
     const embeddings: EmbeddedChunk[] = [];
     const failed: Array<{ chunk: Chunk; error: string }> = [];
+    const target = await this.resolveTarget();
 
     // Split chunks into batches
     const batches: Chunk[][] = [];
@@ -95,7 +137,7 @@ export class BatchEmbedder {
 
       const results = await Promise.allSettled(
         batchGroup.map((batch, batchIndex) =>
-          this.embedBatch(batch, i + batchIndex)
+          this.embedBatch(batch, i + batchIndex, target)
         )
       );
 
@@ -141,13 +183,14 @@ export class BatchEmbedder {
    */
   private async embedBatch(
     batch: Chunk[],
-    batchIndex: number
+    batchIndex: number,
+    target: EmbeddingTarget
   ): Promise<EmbeddedChunk[]> {
     let lastError: Error | undefined;
 
     for (let attempt = 0; attempt < this.config.retryAttempts; attempt++) {
       try {
-        return await this.doEmbedBatch(batch);
+        return await this.doEmbedBatch(batch, target);
       } catch (error) {
         lastError = error instanceof Error ? error : new Error(String(error));
 
@@ -164,28 +207,18 @@ export class BatchEmbedder {
   /**
    * Perform the actual batch embedding
    */
-  private async doEmbedBatch(batch: Chunk[]): Promise<EmbeddedChunk[]> {
+  private async doEmbedBatch(batch: Chunk[], target: EmbeddingTarget): Promise<EmbeddedChunk[]> {
     const contents = batch.map((chunk) => chunk.content);
 
     // Use the embedder's batch embedding capability
-    const embeddings = await this.embedder.getTextEmbeddings(contents);
+    const embeddings = await target.embedder.getTextEmbeddings(contents);
 
     return batch.map((chunk, i) => ({
       id: crypto.randomUUID(),
       content: chunk.content,
       embedding: embeddings[i],
-      metadata: {
-        documentId: chunk.metadata.documentId || '',
-        documentTitle: chunk.metadata.documentTitle || '',
-        documentUrl: chunk.metadata.documentUrl || '',
-        sectionHeader: chunk.metadata.sectionHeader,
-        chunkIndex: chunk.index,
-        totalChunks: chunk.metadata.totalChunks || 0,
-        tokenCount: chunk.tokenCount,
-        hasCode: chunk.metadata.hasCode || false,
-        hasFormula: chunk.metadata.hasFormula || false,
-        hasTable: chunk.metadata.hasTable || false,
-      } as ChunkMetadata,
+      metadata: toChunkMetadata(chunk),
+      embeddingVersion: target.version,
     }));
   }
 
@@ -196,27 +229,30 @@ export class BatchEmbedder {
    * @returns Embedded chunk
    */
   async embedSingle(chunk: Chunk): Promise<EmbeddedChunk> {
-    const embedding = await this.embedder.getTextEmbedding(chunk.content);
+    const target = await this.resolveTarget();
+    const embedding = await target.embedder.getTextEmbedding(chunk.content);
 
     return {
       id: crypto.randomUUID(),
       content: chunk.content,
       embedding,
-      metadata: {
-        documentId: chunk.metadata.documentId || '',
-        documentTitle: chunk.metadata.documentTitle || '',
-        documentUrl: chunk.metadata.documentUrl || '',
-        sectionHeader: chunk.metadata.sectionHeader,
-        chunkIndex: chunk.index,
-        totalChunks: chunk.metadata.totalChunks || 0,
-        tokenCount: chunk.tokenCount,
-        hasCode: chunk.metadata.hasCode || false,
-        hasFormula: chunk.metadata.hasFormula || false,
-        hasTable: chunk.metadata.hasTable || false,
-      } as ChunkMetadata,
+      metadata: toChunkMetadata(chunk),
+      embeddingVersion: target.version,
     };
   }
 
+  /**
+   * Embedder and version for new chunks: the active collection's when
+   * versions are tracked, else this embedder's
+   */
+  private async resolveTarget(): Promise<EmbeddingTarget> {
+    if (!this.versionTracker) {
+      return { version: null, embedder: this.embedder };
+    }
+    const { active } = await this.versionTracker.resolve();
+    return { version: active.version, embedder: active.embedder };
+  }
+
   /**
    * Utility delay function
    */
@@ -0,0 +1,388 @@
+/**
+ * DOCX Document Parser
+ *
+ * Parses Word (.docx) handouts into markdown. Heading styles become
+ * markdown headings, code-styled or monospace paragraphs become fenced
+ * code blocks, tables become pipe tables and Office Math (OMML) is
+ * converted to LaTeX.
+ *
+ * @module @jubilant/rag/ingestion/parsers/docx
+ */
+
+import type { ParsedDocument, DocumentParser } from './index';
+import {
+  parseMarkup,
+  findFirst,
+  textContent,
+  formatCodeBlock,
+  formatMarkdownTable,
+  normalizeMarkdown,
+  titleFromSource,
+  type MarkupElement,
+  type MarkupNode,
+} from './markup';
+import { readZipEntries } from './zip';
+
+/**
+ * Paragraph styles treated as code
+ */
+const CODE_STYLE_REGEX = /code|source|preformat|verbatim|listing|macro|console/i;
+
+/**
+ * Fonts that mark a paragraph as code when every run uses them
+ */
+const MONOSPACE_FONT_REGEX = /consolas|courier|mono|menlo|lucida console|fira code|inconsolata/i;
+
+/**
+ * n-ary operators in OMML and their LaTeX commands
+ */
+const NARY_OPERATORS: Record<string, string> = {
+  '∑': '\\sum',
+  '∏': '\\prod',
+  '∫': '\\int',
+  '∬': '\\iint',
+  '∮': '\\oint',
+  '⋃': '\\bigcup',
+  '⋂': '\\bigcap',
+};
+
+// ============================================================================
+// OMML to LaTeX
+// ============================================================================
+
+/**
+ * Child elements of a node with the given tag
+ */
+function childElements(node: MarkupElement, tag?: string): MarkupElement[] {
+  return node.children.filter(
+    (c): c is MarkupElement => typeof c !== 'string' && (!tag || c.tag === tag)
+  );
+}
+
+/**
+ * Value of a property element, e.g. <m:chr m:val="∑"/> inside <m:naryPr>
+ */
+function propertyValue(node: MarkupElement, propsTag: string, propTag: string): string | undefined {
+  const props = childElements(node, propsTag)[0];
+  const prop = props ? childElements(props, propTag)[0] : undefined;
+  return prop?.attrs['m:val'];
+}
+
+/**
+ * Convert an Office Math (OMML) element to LaTeX
+ */
+export function ommlToLatex(node: MarkupNode): string {
+  if (typeof node === 'string') return '';
+
+  const arg = (tag: string) => {
+    const child = childElements(node, tag)[0];
+    return child ? ommlToLatex(child) : '';
+  };
+  const group = (latex: string) => `{${latex}}`;
+
+  switch (node.tag) {
+    case 'm:t':
+      return textContent(node);
+    case 'm:f':
+      return `\\frac${group(arg('m:num'))}${group(arg('m:den'))}`;
+    case 'm:sSup':
+      return `${group(arg('m:e'))}^${group(arg('m:sup'))}`;
+    case 'm:sSub':
+      return `${group(arg('m:e'))}_${group(arg('m:sub'))}`;
+    case 'm:sSubSup':
+      return `${group(arg('m:e'))}_${group(arg('m:sub'))}^${group(arg('m:sup'))}`;
+    case 'm:rad': {
+      const degree = arg('m:deg');
+      return degree ? `\\sqrt[${degree}]${group(arg('m:e'))}` : `\\sqrt${group(arg('m:e'))}`;
+    }
+    case 'm:nary': {
+      const chr = propertyValue(node, 'm:naryPr', 'm:chr') ?? '∫';
+      const sub = arg('m:sub');
+      const sup = arg('m:sup');
+      return `${NARY_OPERATORS[chr] ?? chr}${sub ? `_${group(sub)}` : ''}${sup ? `^${group(sup)}` : ''} ${arg('m:e')}`;
+    }
+    case 'm:d': {
+      const open = propertyValue(node, 'm:dPr', 'm:begChr') ?? '(';
+      const close = propertyValue(node, 'm:dPr', 'm:endChr') ?? ')';
+      const separator = propertyValue(node, 'm:dPr', 'm:sepChr') ?? ',';
+      const items = childElements(node, 'm:e').map(ommlToLatex).join(separator);
+      const escape = (c: string) => (c === '{' || c === '}' ? `\\${c}` : c);
+      return `\\left${escape(open) || '.'}${items}\\right${escape(close) || '.'}`;
+    }
+    case 'm:func':
+      return `${arg('m:fName')} ${arg('m:e')}`;
+    case 'm:limLow':
+      return `${arg('m:e')}_${group(arg('m:lim'))}`;
+    case 'm:limUpp':
+      return `${arg('m:e')}^${group(arg('m:lim'))}`;
+    case 'm:bar':
+      return `\\overline${group(arg('m:e'))}`;
+    case 'm:acc': {
+      // Combining tilde and dot above; anything else renders as a hat
+      const chr = propertyValue(node, 'm:accPr', 'm:chr') ?? '\u0302';
+      const command = chr === '\u0303' ? '\\tilde' : chr === '\u0307' ? '\\dot' : '\\hat';
+      return `${command}${group(arg('m:e'))}`;
+    }
+    case 'm:m': {
+      const rows = childElements(node, 'm:mr').map((row) =>
+        childElements(row, 'm:e').map(ommlToLatex).join(' & ')
+      );
+      return `\\begin{matrix}${rows.join(' \\\\ ')}\\end{matrix}`;
+    }
+  }
+
+  // Property elements carry formatting only
+  if (node.tag.endsWith('Pr')) return '';
+
+  return node.children.map(ommlToLatex).join('');
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+/**
+ * DocxParser - Parses Word documents
+ */
+export class DocxParser implements DocumentParser {
+  readonly format = 'docx';
+
+  /**
+   * Parse a DOCX document from URL or file path
+   *
+   * @param source - URL or file path
+   * @returns Parsed document
+   */
+  async parse(source: string): Promise<ParsedDocument> {
+    return this.parseContent(Buffer.from(await this.fetchContent(source)), source);
+  }
+
+  /**
+   * Parse DOCX bytes that have already been fetched
+   *
+   * @param buffer - DOCX (ZIP) archive
+   * @param source - URL or file path (for titles and errors)
+   * @returns Parsed document
+   */
+  parseContent(buffer: Buffer, source: string): ParsedDocument {
+    const entries = readZipEntries(buffer, ['word/document.xml', 'docProps/core.xml']);
+
+    const documentXml = entries.get('word/document.xml');
+    if (!documentXml) {
+      throw new Error(`Invalid format: ${source} has no word/document.xml (not a DOCX file)`);
+    }
+
+    const root = parseMarkup(documentXml.toString('utf8'), { html: false });
+    const body = findFirst(root, 'w:body') ?? root;
+    const content = this.convertBody(body);
+
+    const core = entries.get('docProps/core.xml');
+    const coreTitle = core ? findFirst(parseMarkup(core.toString('utf8'), { html: false }), 'dc:title') : null;
+    const title = this.extractTitle(coreTitle ? textContent(coreTitle).trim() : '', content, source);
+
+    return {
+      content,
+      title,
+      url: source,
+      format: 'docx',
+      metadata: {
+        title,
+        tableCount: childElements(body, 'w:tbl').length,
+      },
+    };
+  }
+
+  /**
+   * Fetch DOCX content from URL or file
+   */
+  private async fetchContent(source: string): Promise<ArrayBuffer> {
+    if (source.startsWith('http://') || source.startsWith('https://')) {
+      const response = await fetch(source);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch ${source}: ${response.statusText}`);
+      }
+      return await response.arrayBuffer();
+    }
+
+    // Local file
+    const file = Bun.file(source);
+    if (!(await file.exists())) {
+      throw new Error(`File not found: ${source}`);
+    }
+    return await file.arrayBuffer();
+  }
+
+  /**
+   * Convert the document body to markdown.
+   * Consecutive code paragraphs are merged into one fenced block.
+   */
+  private convertBody(body: MarkupElement): string {
+    const blocks: string[] = [];
+    let codeLines: string[] = [];
+
+    const flushCode = () => {
+      if (codeLines.length > 0) {
+        blocks.push(formatCodeBlock(codeLines.join('\n')));
+        codeLines = [];
+      }
+    };
+
+    const visit = (container: MarkupElement) => {
+      for (const element of childElements(container)) {
+        if (element.tag === 'w:p') {
+          if (this.isCodeParagraph(element)) {
+            codeLines.push(this.paragraphText(element, true));
+            continue;
+          }
+          flushCode();
+          const markdown = this.convertParagraph(element);
+          if (markdown) blocks.push(markdown);
+        } else if (element.tag === 'w:tbl') {
+          flushCode();
+          blocks.push(this.convertTable(element));
+        } else if (element.tag === 'w:sdt' || element.tag === 'w:sdtContent') {
+          // Content controls wrap ordinary paragraphs
+          visit(element);
+        }
+      }
+    };
+
+    visit(body);
+    flushCode();
+
+    return normalizeMarkdown(blocks.join('\n\n'));
+  }
+
+  /**
+   * Convert a paragraph to a markdown heading, list item, formula or text
+   */
+  private convertParagraph(paragraph: MarkupElement): string {
+    const displayMath = childElements(paragraph, 'm:oMathPara');
+    if (displayMath.length > 0) {
+      return displayMath.map((math) => `$$${ommlToLatex(math).trim()}$$`).join('\n\n');
+    }
+
+    const text = this.paragraphText(paragraph, false).replace(/[ \t]+/g, ' ').trim();
+    if (!text) return '';
+
+    const level = this.headingLevel(paragraph);
+    if (level) return `${'#'.repeat(level)} ${text}`;
+
+    const properties = childElements(paragraph, 'w:pPr')[0];
+    if (properties && childElements(properties, 'w:numPr').length > 0) {
+      return `- ${text}`;
+    }
+
+    return text;
+  }
+
+  /**
+   * Heading level from the paragraph style or outline level
+   */
+  private headingLevel(paragraph: MarkupElement): number | null {
+    const properties = childElements(paragraph, 'w:pPr')[0];
+    if (!properties) return null;
+
+    const style = childElements(properties, 'w:pStyle')[0]?.attrs['w:val'] ?? '';
+    if (/^title$/i.test(style)) return 1;
+
+    const heading = style.match(/^heading\s*(\d)$/i);
+    if (heading) return Math.min(6, Number(heading[1]));
+
+    const outline = childElements(properties, 'w:outlineLvl')[0]?.attrs['w:val'];
+    if (outline !== undefined && Number(outline) < 6) return Number(outline) + 1;
+
+    return null;
+  }
+
+  /**
+   * Whether a paragraph is code: a code-like style, or all text in a
+   * monospace font
+   */
+  private isCodeParagraph(paragraph: MarkupElement): boolean {
+    const properties = childElements(paragraph, 'w:pPr')[0];
+    const style = properties ? childElements(properties, 'w:pStyle')[0]?.attrs['w:val'] ?? '' : '';
+    if (CODE_STYLE_REGEX.test(style)) return true;
+
+    const runs = childElements(paragraph, 'w:r').filter((run) => textContent(run).trim().length > 0);
+    if (runs.length === 0) return false;
+
+    return runs.every((run) => {
+      const runProperties = childElements(run, 'w:rPr')[0];
+      const fonts = runProperties ? childElements(runProperties, 'w:rFonts')[0] : undefined;
+      return MONOSPACE_FONT_REGEX.test(fonts?.attrs['w:ascii'] ?? '');
+    });
+  }
+
+  /**
+   * Text of a paragraph with inline math as $...$
+   *
+   * @param preserveWhitespace - Keep tabs and spacing (for code)
+   */
+  private paragraphText(paragraph: MarkupElement, preserveWhitespace: boolean): string {
+    const parts: string[] = [];
+
+    const visit = (node: MarkupElement) => {
+      for (const child of childElements(node)) {
+        switch (child.tag) {
+          case 'w:t':
+            parts.push(textContent(child));
+            break;
+          case 'w:tab':
+            parts.push(preserveWhitespace ? '\t' : ' ');
+            break;
+          case 'w:br':
+          case 'w:cr':
+            parts.push('\n');
+            break;
+          case 'm:oMath':
+            parts.push(`$${ommlToLatex(child).trim()}$`);
+            break;
+          case 'w:del':
+          case 'w:pPr':
+          case 'w:rPr':
+            break;
+          default:
+            // Runs, hyperlinks, insertions and smart tags wrap text
+            visit(child);
+        }
+      }
+    };
+
+    visit(paragraph);
+    return parts.join('');
+  }
+
+  /**
+   * Convert a table to a markdown table
+   */
+  private convertTable(table: MarkupElement): string {
+    const rows = childElements(table, 'w:tr').map((row) =>
+      childElements(row, 'w:tc').map((cell) =>
+        childElements(cell, 'w:p')
+          .map((p) => this.paragraphText(p, false))
+          .join(' ')
+      )
+    );
+    return formatMarkdownTable(rows);
+  }
+
+  /**
+   * Title from document properties, the first H1, or the filename
+   */
+  private extractTitle(coreTitle: string, content: string, source: string): string {
+    if (coreTitle) return coreTitle;
+
+    const heading = content.match(/^#\s+(.+?)$/m);
+    if (heading) return heading[1].trim();
+
+    return titleFromSource(source, /\.docx$/i);
+  }
+}
+
+/**
+ * Create a DocxParser instance
+ */
+export function createDocxParser(): DocxParser {
+  return new DocxParser();
+}
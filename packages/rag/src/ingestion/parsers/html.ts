@@ -0,0 +1,285 @@
+/**
+ * HTML Document Parser
+ *
+ * Parses saved web pages (e.g. contest editorials) into markdown.
+ * Page chrome (navigation, scripts, footers) is dropped; headings, code
+ * blocks, tables and rendered math (KaTeX, MathJax, MathML) are kept in
+ * markdown form so the chunker can protect them.
+ *
+ * @module @jubilant/rag/ingestion/parsers/html
+ */
+
+import type { ParsedDocument, DocumentParser } from './index';
+import {
+  parseMarkup,
+  findAll,
+  findFirst,
+  textContent,
+  formatCodeBlock,
+  formatMarkdownTable,
+  normalizeMarkdown,
+  titleFromSource,
+  type MarkupElement,
+  type MarkupNode,
+} from './markup';
+
+/**
+ * Elements that never carry document content
+ */
+const SKIPPED_ELEMENTS = new Set([
+  'head', 'style', 'noscript', 'nav', 'footer', 'aside', 'form',
+  'button', 'iframe', 'svg', 'canvas', 'template', 'select',
+]);
+
+/**
+ * Elements rendered as separate blocks
+ */
+const BLOCK_ELEMENTS = new Set([
+  'p', 'div', 'section', 'article', 'main', 'header', 'blockquote',
+  'figure', 'figcaption', 'dl', 'dt', 'dd', 'details', 'summary', 'body', 'html',
+]);
+
+/**
+ * Language hints in code block classes (language-cpp, lang-py, brush: java)
+ */
+const CODE_LANGUAGE_REGEX = /(?:^|\s)(?:language-|lang-|brush:\s*)([\w+#-]+)/i;
+
+/**
+ * HTMLParser - Parses HTML documents
+ */
+export class HTMLParser implements DocumentParser {
+  readonly format = 'html';
+
+  /**
+   * Parse an HTML document from URL or file path
+   *
+   * @param source - URL or file path
+   * @returns Parsed document
+   */
+  async parse(source: string): Promise<ParsedDocument> {
+    return this.parseContent(await this.fetchContent(source), source);
+  }
+
+  /**
+   * Parse HTML that has already been fetched
+   *
+   * @param html - HTML source
+   * @param source - URL or file path (for titles)
+   * @returns Parsed document
+   */
+  parseContent(html: string, source: string): ParsedDocument {
+    const root = parseMarkup(html, { html: true });
+
+    const body = this.selectContentRoot(root);
+    const blocks: string[] = [];
+    const markdown = this.render(body, blocks);
+    const content = this.restoreBlocks(this.cleanText(markdown), blocks);
+    const title = this.extractTitle(root, content, source);
+
+    return {
+      content,
+      title,
+      url: source,
+      format: 'html',
+      metadata: {
+        title,
+        codeBlockCount: findAll(body, (e) => e.tag === 'pre').length,
+        tableCount: findAll(body, (e) => e.tag === 'table').length,
+      },
+    };
+  }
+
+  /**
+   * Fetch content from URL or file
+   */
+  private async fetchContent(source: string): Promise<string> {
+    if (source.startsWith('http://') || source.startsWith('https://')) {
+      const response = await fetch(source);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch ${source}: ${response.statusText}`);
+      }
+      return await response.text();
+    }
+
+    // Local file
+    const file = Bun.file(source);
+    if (!(await file.exists())) {
+      throw new Error(`File not found: ${source}`);
+    }
+    return await file.text();
+  }
+
+  /**
+   * Prefer the page's main content over surrounding chrome
+   */
+  private selectContentRoot(root: MarkupElement): MarkupElement {
+    return findFirst(root, 'article') || findFirst(root, 'main') || findFirst(root, 'body') || root;
+  }
+
+  /**
+   * Render a node as markdown.
+   *
+   * Code blocks, tables and display math are stored in `blocks` and
+   * replaced by placeholders, so whitespace cleanup cannot damage them.
+   */
+  private render(node: MarkupNode, blocks: string[]): string {
+    if (typeof node === 'string') {
+      return node.replace(/\s+/g, ' ');
+    }
+
+    const { tag } = node;
+    const classes = node.attrs.class || '';
+    const renderChildren = () => node.children.map((c) => this.render(c, blocks)).join('');
+    const block = (markdown: string) => {
+      blocks.push(markdown);
+      return `\n\n\u0000${blocks.length - 1}\u0000\n\n`;
+    };
+
+    // Math first: KaTeX and MathJax wrap their source in other elements
+    const math = this.extractMath(node);
+    if (math) {
+      return math.display ? block(`$$${math.tex}$$`) : `$${math.tex}$`;
+    }
+
+    if (SKIPPED_ELEMENTS.has(tag) || tag === 'script') {
+      return '';
+    }
+
+    if (/^h[1-6]$/.test(tag)) {
+      const text = renderChildren().replace(/\s+/g, ' ').trim();
+      return text ? `\n\n${'#'.repeat(Number(tag[1]))} ${text}\n\n` : '';
+    }
+
+    switch (tag) {
+      case 'pre': {
+        const code = findFirst(node, 'code');
+        const hint = `${classes} ${code?.attrs.class || ''}`.match(CODE_LANGUAGE_REGEX);
+        return block(formatCodeBlock(this.codeText(node), hint ? hint[1].toLowerCase() : ''));
+      }
+      case 'code':
+        return `\`${textContent(node).trim()}\``;
+      case 'table':
+        return block(this.renderTable(node, blocks));
+      case 'br':
+        return '\n';
+      case 'hr':
+        return '\n\n';
+      case 'ul':
+      case 'ol': {
+        const items = node.children.filter(
+          (c): c is MarkupElement => typeof c !== 'string' && c.tag === 'li'
+        );
+        const lines = items.map((item, i) => {
+          const marker = tag === 'ol' ? `${i + 1}.` : '-';
+          const text = this.render(item, blocks).trim().replace(/\n(?!\n)/g, '\n  ');
+          return `${marker} ${text}`;
+        });
+        return `\n\n${lines.join('\n')}\n\n`;
+      }
+      case 'img':
+        return node.attrs.alt ? ` ${node.attrs.alt} ` : '';
+    }
+
+    if (BLOCK_ELEMENTS.has(tag)) {
+      return `\n\n${renderChildren()}\n\n`;
+    }
+
+    return renderChildren();
+  }
+
+  /**
+   * Extract LaTeX source from rendered math, if the node is a math wrapper
+   */
+  private extractMath(node: MarkupElement): { tex: string; display: boolean } | null {
+    const classes = (node.attrs.class || '').split(/\s+/);
+
+    // KaTeX: <span class="katex-display"><span class="katex">...<annotation>
+    if (classes.includes('katex-display') || classes.includes('katex')) {
+      const annotation = findAll(node, (e) => e.tag === 'annotation')[0];
+      if (!annotation) return null;
+      return { tex: textContent(annotation).trim(), display: classes.includes('katex-display') };
+    }
+
+    // MathJax 2: <script type="math/tex; mode=display">
+    if (node.tag === 'script') {
+      const type = node.attrs.type || '';
+      if (!type.startsWith('math/tex')) return null;
+      return { tex: textContent(node).trim(), display: type.includes('mode=display') };
+    }
+
+    // MathML with a TeX annotation or alt text
+    if (node.tag === 'math') {
+      const annotation = findAll(
+        node,
+        (e) => e.tag === 'annotation' && /tex/i.test(e.attrs.encoding || '')
+      )[0];
+      const tex = annotation ? textContent(annotation).trim() : node.attrs.alttext;
+      if (!tex) return null;
+      return { tex, display: node.attrs.display === 'block' };
+    }
+
+    return null;
+  }
+
+  /**
+   * Text of a code block, keeping line breaks from <br> and block children
+   */
+  private codeText(node: MarkupNode): string {
+    if (typeof node === 'string') return node;
+    if (node.tag === 'br') return '\n';
+    const text = node.children.map((c) => this.codeText(c)).join('');
+    return node.tag === 'div' || node.tag === 'p' ? `${text}\n` : text;
+  }
+
+  /**
+   * Render a table as markdown rows
+   */
+  private renderTable(table: MarkupElement, blocks: string[]): string {
+    const rows = findAll(table, (e) => e.tag === 'tr').map((row) =>
+      row.children
+        .filter((c): c is MarkupElement => typeof c !== 'string' && (c.tag === 'td' || c.tag === 'th'))
+        .map((cell) => this.restoreBlocks(this.render(cell, blocks), blocks).replace(/\s+/g, ' ').trim())
+    );
+    return formatMarkdownTable(rows);
+  }
+
+  /**
+   * Trim stray whitespace left by inline markup
+   */
+  private cleanText(markdown: string): string {
+    return markdown
+      .split('\n')
+      .map((line) => line.trim())
+      .join('\n');
+  }
+
+  /**
+   * Substitute protected blocks back into the rendered markdown
+   */
+  private restoreBlocks(markdown: string, blocks: string[]): string {
+    return normalizeMarkdown(
+      markdown.replace(/\u0000(\d+)\u0000/g, (_, index: string) => blocks[Number(index)])
+    );
+  }
+
+  /**
+   * Title from <title>, the first H1, or the filename
+   */
+  private extractTitle(root: MarkupElement, content: string, source: string): string {
+    const title = findFirst(root, 'title');
+    const text = title ? textContent(title).replace(/\s+/g, ' ').trim() : '';
+    if (text) return text;
+
+    const heading = content.match(/^#\s+(.+?)$/m);
+    if (heading) return heading[1].trim();
+
+    return titleFromSource(source, /\.html?$/i);
+  }
+}
+
+/**
+ * Create an HTMLParser instance
+ */
+export function createHTMLParser(): HTMLParser {
+  return new HTMLParser();
+}
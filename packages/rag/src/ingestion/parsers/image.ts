@@ -0,0 +1,117 @@
+/**
+ * Image Document Parser
+ *
+ * Parses PNG and JPEG images (photographed or scanned handouts and
+ * handwritten notes) with OCR. The OCR confidence is recorded on the
+ * resulting chunks so low-quality transcriptions can be told apart.
+ *
+ * @module @jubilant/rag/ingestion/parsers/image
+ */
+
+import type { ParsedDocument, DocumentParser } from './index';
+import { formatOcrMarker } from '../chunker';
+import { titleFromSource } from './markup';
+import {
+  getOcrEngine,
+  insufficientTextError,
+  recognizeImage,
+  textLength,
+  MIN_DOCUMENT_TEXT,
+  type OcrEngine,
+} from './ocr';
+
+/**
+ * Image type from leading bytes
+ */
+function detectImageType(bytes: Uint8Array): 'image/png' | 'image/jpeg' | null {
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return 'image/png';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+  return null;
+}
+
+/**
+ * ImageParser - Parses PNG and JPEG images with OCR
+ */
+export class ImageParser implements DocumentParser {
+  readonly format = 'image';
+
+  /**
+   * @param ocrEngine - OCR engine (null: images cannot be parsed)
+   */
+  constructor(private ocrEngine: OcrEngine | null = getOcrEngine()) {}
+
+  /**
+   * Parse an image from URL or file path
+   *
+   * @param source - URL or file path
+   * @returns Parsed document
+   */
+  async parse(source: string): Promise<ParsedDocument> {
+    return this.parseContent(new Uint8Array(await this.fetchContent(source)), source);
+  }
+
+  /**
+   * Parse image bytes that have already been fetched
+   *
+   * @param bytes - PNG or JPEG file
+   * @param source - URL or file path (for titles and errors)
+   * @returns Parsed document
+   */
+  async parseContent(bytes: Uint8Array, source: string): Promise<ParsedDocument> {
+    const mimeType = detectImageType(bytes);
+    if (!mimeType) {
+      throw new Error(`Invalid format: ${source} is not a PNG or JPEG image`);
+    }
+
+    const result = await recognizeImage(this.ocrEngine, bytes);
+    if (!result) {
+      throw new Error(`OCR is not available to read ${source} (install Tesseract or set TESSERACT_PATH)`);
+    }
+
+    const length = textLength(result.text);
+    if (length < MIN_DOCUMENT_TEXT) {
+      throw insufficientTextError(source, length);
+    }
+
+    const title = titleFromSource(source, /\.(png|jpe?g)$/i);
+
+    return {
+      content: `${formatOcrMarker(result.confidence)}\n\n${result.text}`,
+      title,
+      url: source,
+      format: 'image',
+      metadata: {
+        title,
+        mimeType,
+        ocrConfidence: result.confidence,
+      },
+    };
+  }
+
+  /**
+   * Fetch image content from URL or file
+   */
+  private async fetchContent(source: string): Promise<ArrayBuffer> {
+    if (source.startsWith('http://') || source.startsWith('https://')) {
+      const response = await fetch(source);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch ${source}: ${response.statusText}`);
+      }
+      return await response.arrayBuffer();
+    }
+
+    // Local file
+    const file = Bun.file(source);
+    if (!(await file.exists())) {
+      throw new Error(`File not found: ${source}`);
+    }
+    return await file.arrayBuffer();
+  }
+}
+
+/**
+ * Create an ImageParser instance
+ */
+export function createImageParser(): ImageParser {
+  return new ImageParser();
+}
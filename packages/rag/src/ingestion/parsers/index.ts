@@ -10,11 +10,30 @@
 import { MarkdownParser, createMarkdownParser } from './markdown';
 import { PDFParser, createPDFParser } from './pdf';
 import { TextParser, createTextParser } from './text';
+import { createDocxParser } from './docx';
+import { createHTMLParser } from './html';
+import { createNotebookParser } from './notebook';
+import { createProblemParser } from './problem';
+import { createImageParser } from './image';
 
 // Re-export individual parsers
 export { MarkdownParser, createMarkdownParser } from './markdown';
 export { PDFParser, createPDFParser } from './pdf';
 export { TextParser, createTextParser } from './text';
+export { DocxParser, createDocxParser, ommlToLatex } from './docx';
+export { HTMLParser, createHTMLParser } from './html';
+export { NotebookParser, createNotebookParser } from './notebook';
+export { ProblemParser, createProblemParser, problemSectionType, PROBLEM_SECTION_HEADERS } from './problem';
+export type { ProblemInfo } from './problem';
+export { ImageParser, createImageParser } from './image';
+export {
+  TesseractOcrEngine,
+  createOcrEngine,
+  getOcrEngine,
+  setOcrEngine,
+  parseTesseractTsv,
+} from './ocr';
+export type { OcrEngine, OcrResult, TesseractConfig } from './ocr';
 
 // ============================================================================
 // Document Parse Errors (T082)
@@ -30,6 +49,7 @@ export type DocumentParseErrorType =
   | 'CORRUPT_FILE'
   | 'ENCODING_ERROR'
   | 'EMPTY_DOCUMENT'
+  | 'INSUFFICIENT_TEXT'
   | 'UNSUPPORTED_FORMAT'
   | 'NETWORK_ERROR'
   | 'UNKNOWN_ERROR';
@@ -127,6 +147,14 @@ export function classifyParseError(
     };
   }
 
+  // OCR needed but not installed
+  if (lowerMessage.includes('ocr is not available')) {
+    return {
+      type: 'UNSUPPORTED_FORMAT',
+      message: `OCR is not available to read document: ${source}`,
+    };
+  }
+
   // Network errors for remote files
   if (
     lowerMessage.includes('econnrefused') ||
@@ -140,6 +168,14 @@ export function classifyParseError(
     };
   }
 
+  // Scanned or image documents that yield too little text
+  if (lowerMessage.includes('insufficient text')) {
+    return {
+      type: 'INSUFFICIENT_TEXT',
+      message: `Document yields too little text to ingest: ${source}`,
+    };
+  }
+
   // Empty or invalid format
   if (
     lowerMessage.includes('empty') ||
@@ -161,7 +197,15 @@ export function classifyParseError(
 /**
  * Supported document formats
  */
-export type DocumentFormat = 'markdown' | 'pdf' | 'text';
+export type DocumentFormat =
+  | 'markdown'
+  | 'pdf'
+  | 'text'
+  | 'docx'
+  | 'html'
+  | 'notebook'
+  | 'problem'
+  | 'image';
 
 /**
  * Parsed document structure
@@ -202,6 +246,11 @@ const parserRegistry = new Map<DocumentFormat, () => DocumentParser>();
 parserRegistry.set('markdown', createMarkdownParser);
 parserRegistry.set('pdf', createPDFParser);
 parserRegistry.set('text', createTextParser);
+registerParser('docx', createDocxParser);
+registerParser('html', createHTMLParser);
+registerParser('notebook', createNotebookParser);
+registerParser('problem', createProblemParser);
+registerParser('image', createImageParser);
 
 /**
  * Get a parser for the specified format
@@ -252,6 +301,19 @@ export function detectFormat(source: string): DocumentFormat {
       return 'markdown';
     case 'pdf':
       return 'pdf';
+    case 'docx':
+      return 'docx';
+    case 'html':
+    case 'htm':
+      return 'html';
+    case 'ipynb':
+      return 'notebook';
+    case 'zip':
+      return 'problem';
+    case 'png':
+    case 'jpg':
+    case 'jpeg':
+      return 'image';
     case 'txt':
     case 'text':
     default:
@@ -0,0 +1,292 @@
+/**
+ * Markup Conversion Helpers
+ *
+ * Shared helpers for parsers that convert structured formats (HTML, DOCX)
+ * into markdown, so the chunker's handling of headings, code blocks,
+ * tables and formulas applies to them unchanged.
+ *
+ * @module @jubilant/rag/ingestion/parsers/markup
+ */
+
+// ============================================================================
+// Markup Tree
+// ============================================================================
+
+/**
+ * Element in a parsed markup tree
+ */
+export interface MarkupElement {
+  /** Lower-cased tag name (namespace prefixes such as w: are kept) */
+  tag: string;
+  attrs: Record<string, string>;
+  children: MarkupNode[];
+}
+
+/**
+ * Node in a parsed markup tree (text nodes are decoded strings)
+ */
+export type MarkupNode = MarkupElement | string;
+
+/**
+ * HTML elements that never have children
+ */
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input',
+  'link', 'meta', 'param', 'source', 'track', 'wbr',
+]);
+
+/**
+ * HTML elements whose content is raw text, not markup
+ */
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea']);
+
+/**
+ * HTML elements closed implicitly by a following sibling, and the
+ * elements that bound the search for an open one
+ */
+const IMPLICIT_CLOSE: Record<string, { closes: string[]; boundary: string[] }> = {
+  li: { closes: ['li'], boundary: ['ul', 'ol'] },
+  tr: { closes: ['tr', 'td', 'th'], boundary: ['table', 'thead', 'tbody', 'tfoot'] },
+  td: { closes: ['td', 'th'], boundary: ['tr', 'table'] },
+  th: { closes: ['td', 'th'], boundary: ['tr', 'table'] },
+};
+
+/**
+ * HTML block elements that end an open paragraph
+ */
+const PARAGRAPH_CLOSERS = new Set([
+  'p', 'div', 'pre', 'table', 'ul', 'ol', 'blockquote', 'section',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr',
+]);
+
+const TOKEN_REGEX =
+  /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<[!?][^>]*>|<\/([a-zA-Z][\w:.-]*)\s*>|<([a-zA-Z][\w:.-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/g;
+
+const ATTR_REGEX = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+/**
+ * Parse HTML or XML into a lightweight element tree.
+ *
+ * This is a forgiving tokenizer rather than a conforming parser: it is
+ * enough to walk document structure (headings, code, tables, math) in
+ * editorials and Office XML, and never throws on malformed input.
+ *
+ * @param markup - HTML or XML source
+ * @param options - `html` enables void, raw-text and implicitly closed elements
+ * @returns Root element (tag '#root')
+ */
+export function parseMarkup(markup: string, options: { html: boolean }): MarkupElement {
+  const root: MarkupElement = { tag: '#root', attrs: {}, children: [] };
+  const stack: MarkupElement[] = [root];
+  const current = () => stack[stack.length - 1];
+
+  const closeTo = (tag: string, boundary: string[] = []): boolean => {
+    for (let i = stack.length - 1; i > 0; i--) {
+      if (stack[i].tag === tag) {
+        stack.length = i;
+        return true;
+      }
+      if (boundary.includes(stack[i].tag)) return false;
+    }
+    return false;
+  };
+
+  let lastIndex = 0;
+  TOKEN_REGEX.lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = TOKEN_REGEX.exec(markup)) !== null) {
+    if (match.index > lastIndex) {
+      current().children.push(decodeEntities(markup.slice(lastIndex, match.index)));
+    }
+    lastIndex = TOKEN_REGEX.lastIndex;
+
+    // Comments, doctype and processing instructions match with no groups
+    const [, cdata, closeTag, openTag, rawAttrs, selfClosing] = match;
+
+    if (cdata !== undefined) {
+      current().children.push(cdata);
+    } else if (closeTag) {
+      closeTo(options.html ? closeTag.toLowerCase() : closeTag);
+    } else if (openTag) {
+      const tag = options.html ? openTag.toLowerCase() : openTag;
+      const attrs: Record<string, string> = {};
+      ATTR_REGEX.lastIndex = 0;
+      let attr: RegExpExecArray | null;
+      while ((attr = ATTR_REGEX.exec(rawAttrs)) !== null) {
+        attrs[options.html ? attr[1].toLowerCase() : attr[1]] = decodeEntities(
+          attr[2] ?? attr[3] ?? attr[4] ?? ''
+        );
+      }
+
+      if (options.html) {
+        const rule = IMPLICIT_CLOSE[tag];
+        if (rule) {
+          for (const closes of rule.closes) closeTo(closes, rule.boundary);
+        }
+        if (PARAGRAPH_CLOSERS.has(tag)) {
+          closeTo('p', ['div', 'section', 'article', 'body', 'td', 'th', 'li', 'blockquote']);
+        }
+      }
+
+      const element: MarkupElement = { tag, attrs, children: [] };
+      current().children.push(element);
+
+      if (options.html && RAW_TEXT_ELEMENTS.has(tag)) {
+        const end = markup.toLowerCase().indexOf(`</${tag}`, lastIndex);
+        const stop = end === -1 ? markup.length : end;
+        element.children.push(markup.slice(lastIndex, stop));
+        const closeEnd = markup.indexOf('>', stop);
+        lastIndex = closeEnd === -1 ? markup.length : closeEnd + 1;
+        TOKEN_REGEX.lastIndex = lastIndex;
+      } else if (!selfClosing && !(options.html && VOID_ELEMENTS.has(tag))) {
+        stack.push(element);
+      }
+    }
+  }
+
+  if (lastIndex < markup.length) {
+    current().children.push(decodeEntities(markup.slice(lastIndex)));
+  }
+
+  return root;
+}
+
+/**
+ * Find descendant elements matching a predicate (document order)
+ */
+export function findAll(
+  node: MarkupElement,
+  predicate: (element: MarkupElement) => boolean
+): MarkupElement[] {
+  const found: MarkupElement[] = [];
+  const visit = (element: MarkupElement) => {
+    for (const child of element.children) {
+      if (typeof child === 'string') continue;
+      if (predicate(child)) found.push(child);
+      visit(child);
+    }
+  };
+  visit(node);
+  return found;
+}
+
+/**
+ * Find the first descendant element with a tag
+ */
+export function findFirst(node: MarkupElement, tag: string): MarkupElement | null {
+  for (const child of node.children) {
+    if (typeof child === 'string') continue;
+    if (child.tag === tag) return child;
+    const nested = findFirst(child, tag);
+    if (nested) return nested;
+  }
+  return null;
+}
+
+/**
+ * Concatenated text of a node and its descendants
+ */
+export function textContent(node: MarkupNode): string {
+  if (typeof node === 'string') return node;
+  return node.children.map(textContent).join('');
+}
+
+// ============================================================================
+// Markdown Output
+// ============================================================================
+
+/**
+ * Named entities commonly found in HTML and XML documents
+ */
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  le: '≤',
+  ge: '≥',
+  ne: '≠',
+  times: '×',
+  minus: '−',
+  laquo: '«',
+  raquo: '»',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+};
+
+/**
+ * Decode HTML/XML character references
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code =
+        entity[1] === 'x' || entity[1] === 'X'
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Render rows of cell text as a markdown (pipe) table.
+ * The first row is used as the header.
+ */
+export function formatMarkdownTable(rows: string[][]): string {
+  const nonEmpty = rows.filter((row) => row.some((cell) => cell.trim().length > 0));
+  if (nonEmpty.length === 0) return '';
+
+  const width = Math.max(...nonEmpty.map((row) => row.length));
+  const format = (row: string[]) => {
+    const cells = Array.from({ length: width }, (_, i) =>
+      (row[i] ?? '').replace(/\s+/g, ' ').replace(/\|/g, '\\|').trim()
+    );
+    return `| ${cells.join(' | ')} |`;
+  };
+
+  const [header, ...body] = nonEmpty;
+  return [
+    format(header),
+    `| ${Array.from({ length: width }, () => '---').join(' | ')} |`,
+    ...body.map(format),
+  ].join('\n');
+}
+
+/**
+ * Render a fenced code block
+ */
+export function formatCodeBlock(code: string, language = ''): string {
+  const trimmed = code.replace(/^\n+|\s+$/g, '');
+  return `\`\`\`${language}\n${trimmed}\n\`\`\``;
+}
+
+/**
+ * Normalize whitespace in converted markdown
+ */
+export function normalizeMarkdown(markdown: string): string {
+  return markdown
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => line.trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Derive a title from a source URL or path
+ */
+export function titleFromSource(source: string, extensions: RegExp): string {
+  const filename = source.split('/').pop() || 'Untitled';
+  return filename.replace(extensions, '').replace(/[-_]/g, ' ');
+}
@@ -0,0 +1,207 @@
+/**
+ * Jupyter Notebook Parser
+ *
+ * Parses .ipynb notebooks into markdown: markdown cells are kept as-is,
+ * code cells become fenced blocks tagged with the kernel language, and
+ * text outputs are kept as fenced output blocks.
+ *
+ * @module @jubilant/rag/ingestion/parsers/notebook
+ */
+
+import type { ParsedDocument, DocumentParser } from './index';
+import { formatCodeBlock, normalizeMarkdown, titleFromSource } from './markup';
+
+/**
+ * Maximum characters kept from a single cell output
+ */
+const MAX_OUTPUT_CHARS = 2000;
+
+/**
+ * Notebook cell (nbformat 4)
+ */
+interface NotebookCell {
+  cell_type: 'markdown' | 'code' | 'raw';
+  source: string | string[];
+  outputs?: Array<{
+    output_type: string;
+    text?: string | string[];
+    data?: Record<string, string | string[]>;
+  }>;
+}
+
+/**
+ * Notebook document (nbformat 4)
+ */
+interface Notebook {
+  cells?: NotebookCell[];
+  metadata?: {
+    title?: string;
+    kernelspec?: { language?: string; display_name?: string };
+    language_info?: { name?: string };
+  };
+  nbformat?: number;
+}
+
+/**
+ * Join a multi-line notebook string field
+ */
+function joinSource(source: string | string[] | undefined): string {
+  if (!source) return '';
+  return Array.isArray(source) ? source.join('') : source;
+}
+
+/**
+ * NotebookParser - Parses Jupyter notebooks
+ */
+export class NotebookParser implements DocumentParser {
+  readonly format = 'notebook';
+
+  /**
+   * Parse a notebook from URL or file path
+   *
+   * @param source - URL or file path
+   * @returns Parsed document
+   */
+  async parse(source: string): Promise<ParsedDocument> {
+    return this.parseContent(await this.fetchContent(source), source);
+  }
+
+  /**
+   * Parse notebook JSON that has already been fetched
+   *
+   * @param raw - Notebook JSON
+   * @param source - URL or file path (for titles and errors)
+   * @returns Parsed document
+   */
+  parseContent(raw: string, source: string): ParsedDocument {
+    let notebook: Notebook;
+    try {
+      notebook = JSON.parse(raw) as Notebook;
+    } catch {
+      throw new Error(`Invalid format: ${source} is not a valid notebook (malformed JSON)`);
+    }
+
+    if (!Array.isArray(notebook.cells)) {
+      throw new Error(`Invalid format: ${source} has no cells (nbformat 4 required)`);
+    }
+
+    const language = this.detectLanguage(notebook);
+    const content = this.convertCells(notebook.cells, language);
+    const title = this.extractTitle(notebook, content, source);
+
+    return {
+      content,
+      title,
+      url: source,
+      format: 'notebook',
+      metadata: {
+        title,
+        language,
+        cellCount: notebook.cells.length,
+        codeCellCount: notebook.cells.filter((c) => c.cell_type === 'code').length,
+      },
+    };
+  }
+
+  /**
+   * Fetch notebook JSON from URL or file
+   */
+  private async fetchContent(source: string): Promise<string> {
+    if (source.startsWith('http://') || source.startsWith('https://')) {
+      const response = await fetch(source);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch ${source}: ${response.statusText}`);
+      }
+      return await response.text();
+    }
+
+    // Local file
+    const file = Bun.file(source);
+    if (!(await file.exists())) {
+      throw new Error(`File not found: ${source}`);
+    }
+    return await file.text();
+  }
+
+  /**
+   * Language of the notebook's code cells
+   */
+  private detectLanguage(notebook: Notebook): string {
+    const name =
+      notebook.metadata?.language_info?.name ||
+      notebook.metadata?.kernelspec?.language ||
+      'python';
+    return name.toLowerCase().replace(/\s+/g, '');
+  }
+
+  /**
+   * Convert cells to markdown
+   */
+  private convertCells(cells: NotebookCell[], language: string): string {
+    const blocks: string[] = [];
+
+    for (const cell of cells) {
+      const source = joinSource(cell.source);
+      if (source.trim().length === 0) continue;
+
+      switch (cell.cell_type) {
+        case 'markdown':
+          blocks.push(source.trim());
+          break;
+        case 'code': {
+          blocks.push(formatCodeBlock(source, language));
+          const output = this.extractOutput(cell);
+          if (output) {
+            blocks.push(formatCodeBlock(output, 'text'));
+          }
+          break;
+        }
+        default:
+          blocks.push(source.trim());
+      }
+    }
+
+    return normalizeMarkdown(blocks.join('\n\n'));
+  }
+
+  /**
+   * Collect the text output of a code cell (streams and plain-text results)
+   */
+  private extractOutput(cell: NotebookCell): string {
+    const parts: string[] = [];
+
+    for (const output of cell.outputs ?? []) {
+      if (output.output_type === 'stream') {
+        parts.push(joinSource(output.text));
+      } else if (output.data?.['text/plain']) {
+        parts.push(joinSource(output.data['text/plain']));
+      }
+    }
+
+    const text = parts.join('').trim();
+    return text.length > MAX_OUTPUT_CHARS ? `${text.slice(0, MAX_OUTPUT_CHARS)}\n...` : text;
+  }
+
+  /**
+   * Title from notebook metadata, the first H1, or the filename
+   */
+  private extractTitle(notebook: Notebook, content: string, source: string): string {
+    if (notebook.metadata?.title) {
+      return notebook.metadata.title;
+    }
+
+    const heading = content.match(/^#\s+(.+?)$/m);
+    if (heading) {
+      return heading[1].trim();
+    }
+
+    return titleFromSource(source, /\.ipynb$/i);
+  }
+}
+
+/**
+ * Create a NotebookParser instance
+ */
+export function createNotebookParser(): NotebookParser {
+  return new NotebookParser();
+}
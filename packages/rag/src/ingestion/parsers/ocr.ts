@@ -0,0 +1,302 @@
+/**
+ * Optical Character Recognition
+ *
+ * OCR for scanned PDF pages and photographed notes. The default engine
+ * runs the Tesseract CLI as a subprocess (image on stdin, TSV on stdout),
+ * so nothing is loaded into the server process; word confidences from the
+ * TSV are averaged into a confidence recorded on the resulting chunks.
+ *
+ * Configured from the environment:
+ * - OCR_ENGINE: tesseract (default) or none
+ * - TESSERACT_PATH: tesseract executable (default: tesseract on PATH)
+ * - OCR_LANGUAGES: Tesseract languages, e.g. eng+chi_sim (default: eng)
+ * - OCR_TIMEOUT_MS: per-image timeout (default: 60000)
+ *
+ * @module @jubilant/rag/ingestion/parsers/ocr
+ */
+
+import { spawn } from 'child_process';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Recognized text of an image
+ */
+export interface OcrResult {
+  /** Paragraphs separated by blank lines */
+  text: string;
+  /** Mean word confidence, 0-1 (weighted by word length) */
+  confidence: number;
+}
+
+/**
+ * OCR engine
+ */
+export interface OcrEngine {
+  readonly name: string;
+
+  /**
+   * Whether the engine can run here (e.g. the executable is installed)
+   */
+  isAvailable(): Promise<boolean>;
+
+  /**
+   * Recognize text in a PNG or JPEG image
+   *
+   * @param image - Encoded image
+   * @returns Recognized text and confidence
+   */
+  recognize(image: Uint8Array): Promise<OcrResult>;
+}
+
+/**
+ * Configuration for TesseractOcrEngine
+ */
+export interface TesseractConfig {
+  /** Executable */
+  command: string;
+  /** Languages (-l), joined with + */
+  languages: string;
+  /** Page segmentation mode (--psm); 3 is fully automatic */
+  pageSegMode: number;
+  /** Kill the process after this long */
+  timeoutMs: number;
+}
+
+const DEFAULT_CONFIG: TesseractConfig = {
+  command: 'tesseract',
+  languages: 'eng',
+  pageSegMode: 3,
+  timeoutMs: 60_000,
+};
+
+// ============================================================================
+// TSV Output
+// ============================================================================
+
+/**
+ * Build text and confidence from Tesseract TSV output
+ *
+ * Words (level 5) are grouped into lines and paragraphs by their block,
+ * paragraph and line numbers; wrapped lines are joined and end-of-line
+ * hyphenation is undone.
+ *
+ * @param tsv - Output of `tesseract ... tsv`
+ * @returns Recognized text and confidence (0 when no words were found)
+ */
+export function parseTesseractTsv(tsv: string): OcrResult {
+  const paragraphs = new Map<string, string[][]>();
+  let weightedConfidence = 0;
+  let totalLength = 0;
+
+  for (const row of tsv.split('\n').slice(1)) {
+    const columns = row.split('\t');
+    if (columns.length < 12 || columns[0] !== '5') continue;
+
+    const text = columns.slice(11).join('\t').trim();
+    const confidence = parseFloat(columns[10]);
+    if (!text || !(confidence >= 0)) continue;
+
+    const [, page, block, paragraph, line] = columns;
+    const key = `${page}:${block}:${paragraph}`;
+    const lines = paragraphs.get(key) ?? [];
+    const lineIndex = parseInt(line, 10);
+    (lines[lineIndex] ??= []).push(text);
+    paragraphs.set(key, lines);
+
+    weightedConfidence += confidence * text.length;
+    totalLength += text.length;
+  }
+
+  const text = [...paragraphs.values()]
+    .map((lines) =>
+      lines
+        .filter(Boolean)
+        .map((words) => words.join(' '))
+        .reduce((joined, line) =>
+          /[a-z]-$/i.test(joined) && /^[a-z]/.test(line) ? joined.slice(0, -1) + line : `${joined} ${line}`
+        )
+    )
+    .join('\n\n');
+
+  return {
+    text,
+    confidence: totalLength > 0 ? Math.round((weightedConfidence / totalLength) * 10) / 1000 : 0,
+  };
+}
+
+/**
+ * Combine the results of several images on one page
+ */
+export function mergeOcrResults(results: OcrResult[]): OcrResult {
+  const weight = (r: OcrResult) => r.text.length;
+  const total = results.reduce((sum, r) => sum + weight(r), 0);
+
+  return {
+    text: results.map((r) => r.text).filter(Boolean).join('\n\n'),
+    confidence:
+      total > 0 ? Math.round((results.reduce((sum, r) => sum + r.confidence * weight(r), 0) / total) * 1000) / 1000 : 0,
+  };
+}
+
+// ============================================================================
+// Text Thresholds
+// ============================================================================
+
+/**
+ * Minimum text (non-whitespace characters) a scanned or image document
+ * must yield to be ingested
+ */
+export const MIN_DOCUMENT_TEXT = 20;
+
+/**
+ * Count non-whitespace characters
+ */
+export function textLength(text: string): number {
+  return text.replace(/\s/g, '').length;
+}
+
+/**
+ * Error for a document that yields too little text (classified as
+ * INSUFFICIENT_TEXT)
+ *
+ * @param source - URL or file path
+ * @param length - Characters of text found
+ * @param ocrUnavailable - Whether scanned pages were skipped for lack of OCR
+ */
+export function insufficientTextError(source: string, length: number, ocrUnavailable = false): Error {
+  return new Error(
+    `Insufficient text: ${source} yields ${length} characters of text` +
+      (ocrUnavailable ? '; its scanned pages need OCR (install Tesseract or set TESSERACT_PATH)' : '')
+  );
+}
+
+// ============================================================================
+// Tesseract Engine
+// ============================================================================
+
+/**
+ * Run a command with input on stdin, collecting stdout
+ */
+function run(command: string, args: string[], input: Uint8Array | null, timeoutMs: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+
+    const timer = setTimeout(() => {
+      child.kill('SIGKILL');
+      reject(new Error(`${command} timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+
+    child.stdout.on('data', (data: Buffer) => stdout.push(data));
+    child.stderr.on('data', (data: Buffer) => stderr.push(data));
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolve(Buffer.concat(stdout).toString('utf8'));
+      } else {
+        const message = Buffer.concat(stderr).toString('utf8').trim();
+        reject(new Error(`${command} exited with code ${code}${message ? `: ${message}` : ''}`));
+      }
+    });
+
+    // Ignore EPIPE if the process exits before reading all input
+    child.stdin.on('error', () => undefined);
+    child.stdin.end(input ?? undefined);
+  });
+}
+
+/**
+ * TesseractOcrEngine - OCR with the Tesseract CLI
+ */
+export class TesseractOcrEngine implements OcrEngine {
+  readonly name = 'tesseract';
+  private config: TesseractConfig;
+  private available: Promise<boolean> | null = null;
+
+  constructor(config: Partial<TesseractConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Check once whether the executable runs
+   */
+  isAvailable(): Promise<boolean> {
+    this.available ??= run(this.config.command, ['--version'], null, 10_000).then(
+      () => true,
+      () => false
+    );
+    return this.available;
+  }
+
+  async recognize(image: Uint8Array): Promise<OcrResult> {
+    const { command, languages, pageSegMode, timeoutMs } = this.config;
+    const tsv = await run(
+      command,
+      ['stdin', 'stdout', '-l', languages, '--psm', String(pageSegMode), 'tsv'],
+      image,
+      timeoutMs
+    );
+    return parseTesseractTsv(tsv);
+  }
+}
+
+// ============================================================================
+// Factory Functions
+// ============================================================================
+
+/**
+ * Create the OCR engine configured by OCR_* and TESSERACT_PATH variables
+ *
+ * @returns Engine, or null when OCR is turned off (OCR_ENGINE=none)
+ */
+export function createOcrEngine(): OcrEngine | null {
+  if ((process.env.OCR_ENGINE || 'tesseract').toLowerCase() === 'none') {
+    return null;
+  }
+
+  return new TesseractOcrEngine({
+    command: process.env.TESSERACT_PATH || DEFAULT_CONFIG.command,
+    languages: process.env.OCR_LANGUAGES || DEFAULT_CONFIG.languages,
+    timeoutMs: parseInt(process.env.OCR_TIMEOUT_MS || '', 10) || DEFAULT_CONFIG.timeoutMs,
+  });
+}
+
+let ocrEngine: OcrEngine | null | undefined;
+
+/**
+ * Get the shared OCR engine (created from the environment on first use)
+ */
+export function getOcrEngine(): OcrEngine | null {
+  if (ocrEngine === undefined) {
+    ocrEngine = createOcrEngine();
+  }
+  return ocrEngine;
+}
+
+/**
+ * Replace the shared OCR engine (null turns OCR off)
+ */
+export function setOcrEngine(engine: OcrEngine | null): void {
+  ocrEngine = engine;
+}
+
+/**
+ * Recognize text with an engine, or return null when no engine can run
+ *
+ * @param engine - OCR engine (null when turned off)
+ * @param image - Encoded image
+ */
+export async function recognizeImage(engine: OcrEngine | null, image: Uint8Array): Promise<OcrResult | null> {
+  if (!engine || !(await engine.isAvailable())) {
+    return null;
+  }
+  return engine.recognize(image);
+}
@@ -0,0 +1,358 @@
+/**
+ * PDF Content Reading
+ *
+ * Reads each page's text runs, with position and font, and the images
+ * drawn on it, using pdf.js. pdf.js handles the file structure (xref
+ * tables and streams, object streams, incremental updates), decryption
+ * of documents that open without a password, stream filters and fonts:
+ * ToUnicode maps, simple encodings and the predefined CMaps of CJK fonts
+ * (UniGB, UniJIS, ...), which are loaded from pdfjs-dist's cmaps.
+ * Layout analysis (lines, columns, headings) is done on the runs by
+ * pdf-layout.
+ *
+ * Images are listed so scanned pages can be OCR'd; their pixels are
+ * decoded by pdf.js and encoded as PNG on request. Characters pdf.js
+ * cannot map to Unicode (fonts without any mapping) are dropped and
+ * counted, so callers can reject documents whose text is undecodable
+ * rather than index garbage.
+ *
+ * @module @jubilant/rag/ingestion/parsers/pdf-content
+ */
+
+import { createRequire } from 'module';
+import { dirname, join } from 'path';
+import { deflateSync } from 'zlib';
+import {
+  getDocument,
+  ImageKind,
+  OPS,
+  VerbosityLevel,
+  type PDFDocumentProxy,
+  type PDFPageProxy,
+} from 'pdfjs-dist/legacy/build/pdf.mjs';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A run of text drawn with one font
+ */
+export interface PdfTextItem {
+  text: string;
+  /** Baseline start, in page space (origin bottom-left) */
+  x: number;
+  y: number;
+  /** Advance width in page space */
+  width: number;
+  /** Effective font size in page space */
+  fontSize: number;
+  bold: boolean;
+  monospace: boolean;
+}
+
+/**
+ * An image XObject drawn on a page
+ */
+export interface PdfImage {
+  /** Size in pixels */
+  width: number;
+  height: number;
+  /** Position among the page's image draws */
+  index: number;
+}
+
+/**
+ * A page with its text runs and images
+ */
+export interface PdfPage {
+  /** 1-based page number */
+  number: number;
+  /** Visible page area [x0, y0, x1, y1] */
+  box: [number, number, number, number];
+  items: PdfTextItem[];
+  images: PdfImage[];
+  /** Characters with no Unicode mapping, dropped from the items */
+  unmappedChars: number;
+}
+
+// ============================================================================
+// pdf.js Setup
+// ============================================================================
+
+/**
+ * pdfjs-dist directory, for its CMaps, standard font data and decoders
+ */
+const PDFJS_DIR = dirname(createRequire(import.meta.url).resolve('pdfjs-dist/package.json'));
+
+/**
+ * Largest image decoded (in pixels); larger ones are skipped. A 600 dpi
+ * A4 scan is about 35 million pixels.
+ */
+const MAX_IMAGE_PIXELS = 40_000_000;
+
+const MONOSPACE_FONT_REGEX = /courier|mono|consolas|menlo|inconsolata|cmtt|typewriter|lucidaconsole|sfmono|firacode/i;
+const BOLD_FONT_REGEX = /bold|black|heavy|semibold|demi|cmbx/i;
+
+/**
+ * Characters pdf.js yields for glyphs it cannot map to Unicode: private
+ * use code points, U+FFFD and control characters
+ */
+const UNMAPPED_CHAR_REGEX = /[\u0000-\u0008\u000b\u000c\u000e-\u001f\ue000-\uf8ff\ufffd]/g;
+
+/**
+ * Font properties pdf.js exposes on loaded fonts
+ */
+interface LoadedFont {
+  name?: string;
+  bold?: boolean;
+}
+
+/**
+ * Images drawn by an operator list, with the pdf.js objects holding their
+ * pixels. Object IDs differ between operator lists of the same page, so
+ * images are matched by draw order.
+ */
+function imageDraws(operators: { fnArray: number[]; argsArray: unknown[] }) {
+  const draws: Array<{ objectId: string; width: number; height: number }> = [];
+  operators.fnArray.forEach((fn, i) => {
+    if (fn === OPS.paintImageXObject) {
+      const [objectId, width, height] = operators.argsArray[i] as [string, number, number];
+      draws.push({ objectId, width, height });
+    }
+  });
+  return draws;
+}
+
+/**
+ * Image pixels as decoded by pdf.js
+ */
+interface DecodedImage {
+  width: number;
+  height: number;
+  kind?: number;
+  data?: Uint8Array;
+}
+
+// ============================================================================
+// PNG Encoding
+// ============================================================================
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Uint8Array): Buffer {
+  const chunk = Buffer.alloc(12 + data.length);
+  chunk.writeUInt32BE(data.length, 0);
+  chunk.write(type, 4, 'latin1');
+  chunk.set(data, 8);
+  chunk.writeUInt32BE(crc32(chunk.subarray(4, 8 + data.length)), 8 + data.length);
+  return chunk;
+}
+
+/**
+ * PNG bit depth and color type for each pdf.js pixel layout
+ */
+const PNG_FORMATS: Record<number, { bitDepth: number; colorType: number; bitsPerPixel: number }> = {
+  [ImageKind.GRAYSCALE_1BPP]: { bitDepth: 1, colorType: 0, bitsPerPixel: 1 },
+  [ImageKind.RGB_24BPP]: { bitDepth: 8, colorType: 2, bitsPerPixel: 24 },
+  [ImageKind.RGBA_32BPP]: { bitDepth: 8, colorType: 6, bitsPerPixel: 32 },
+};
+
+/**
+ * Encode pixels decoded by pdf.js as PNG
+ *
+ * @returns PNG bytes, or null for unknown pixel layouts
+ */
+function encodePng(width: number, height: number, kind: number, pixels: Uint8Array): Uint8Array | null {
+  const format = PNG_FORMATS[kind];
+  if (!format || width <= 0 || height <= 0) return null;
+
+  // Each scanline is prefixed with its filter type (0: none)
+  const rowBytes = Math.ceil((width * format.bitsPerPixel) / 8);
+  const rows = new Uint8Array((rowBytes + 1) * height);
+  for (let y = 0; y < height; y++) {
+    rows.set(pixels.subarray(y * rowBytes, (y + 1) * rowBytes), y * (rowBytes + 1) + 1);
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = format.bitDepth;
+  header[9] = format.colorType;
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(rows)),
+    pngChunk('IEND', new Uint8Array()),
+  ]);
+}
+
+// ============================================================================
+// Document
+// ============================================================================
+
+/**
+ * PdfDocument - Text runs and images of a PDF's pages
+ */
+export class PdfDocument {
+  private constructor(
+    private pdf: PDFDocumentProxy,
+    private metadata: Record<string, unknown>
+  ) {}
+
+  /**
+   * Open a PDF
+   *
+   * @throws Error for malformed files and documents that need a password
+   */
+  static async open(bytes: Uint8Array): Promise<PdfDocument> {
+    let pdf: PDFDocumentProxy;
+    try {
+      pdf = await getDocument({
+        // A copy: pdf.js may take ownership of the buffer, and rejects Buffers
+        data: new Uint8Array(bytes),
+        cMapUrl: `${join(PDFJS_DIR, 'cmaps')}/`,
+        cMapPacked: true,
+        standardFontDataUrl: `${join(PDFJS_DIR, 'standard_fonts')}/`,
+        wasmUrl: `${join(PDFJS_DIR, 'wasm')}/`,
+        maxImageSize: MAX_IMAGE_PIXELS,
+        isEvalSupported: false,
+        useSystemFonts: false,
+        disableFontFace: true,
+        verbosity: VerbosityLevel.ERRORS,
+      }).promise;
+    } catch (error) {
+      if (error instanceof Error && error.name === 'PasswordException') {
+        throw new Error('Encrypted PDFs that need a password are not supported');
+      }
+      throw error;
+    }
+
+    const { info } = await pdf.getMetadata().catch(() => ({ info: {} }));
+    return new PdfDocument(pdf, (info ?? {}) as Record<string, unknown>);
+  }
+
+  /**
+   * A text entry of the document information dictionary (e.g. Title)
+   */
+  info(key: string): string | undefined {
+    const value = this.metadata[key];
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  }
+
+  /**
+   * Read every page's text runs and images
+   */
+  async extractPages(): Promise<PdfPage[]> {
+    const pages: PdfPage[] = [];
+
+    for (let number = 1; number <= this.pdf.numPages; number++) {
+      const page = await this.pdf.getPage(number);
+      try {
+        pages.push(await this.readPage(page));
+      } finally {
+        // Drop decoded images and fonts; encodeImages decodes again
+        page.cleanup();
+      }
+    }
+
+    return pages;
+  }
+
+  /**
+   * Encode a page's images as PNG, for OCR
+   *
+   * @returns PNG bytes per image, or null for images that could not be
+   *   decoded
+   */
+  async encodeImages(page: PdfPage, images: PdfImage[]): Promise<Array<Uint8Array | null>> {
+    const proxy = await this.pdf.getPage(page.number);
+
+    try {
+      const draws = imageDraws(await proxy.getOperatorList());
+      const encoded: Array<Uint8Array | null> = [];
+
+      for (const image of images) {
+        const objectId = draws[image.index]?.objectId;
+        if (!objectId) {
+          encoded.push(null);
+          continue;
+        }
+
+        // Pixels are sent after the operator list, once decoded (null on failure)
+        const objects = objectId.startsWith('g_') ? proxy.commonObjs : proxy.objs;
+        const decoded = await new Promise<DecodedImage | null>((resolve) => objects.get(objectId, resolve));
+        encoded.push(
+          decoded?.data && decoded.kind !== undefined
+            ? encodePng(decoded.width, decoded.height, decoded.kind, decoded.data)
+            : null
+        );
+      }
+
+      return encoded;
+    } finally {
+      proxy.cleanup();
+    }
+  }
+
+  /**
+   * Release pdf.js resources
+   */
+  async close(): Promise<void> {
+    await this.pdf.destroy();
+  }
+
+  private async readPage(page: PDFPageProxy): Promise<PdfPage> {
+    // The operator list loads the page's fonts and lists its images
+    const images = imageDraws(await page.getOperatorList()).map(({ width, height }, index) => ({
+      width,
+      height,
+      index,
+    }));
+
+    const content = await page.getTextContent();
+    const items: PdfTextItem[] = [];
+    let unmappedChars = 0;
+
+    for (const item of content.items) {
+      if (!('str' in item)) continue;
+      const { str, transform, width, fontName } = item as TextItem;
+
+      const text = str.replace(UNMAPPED_CHAR_REGEX, '');
+      unmappedChars += str.length - text.length;
+      if (!text.trim()) continue;
+
+      const font = (page.commonObjs.has(fontName) ? page.commonObjs.get(fontName) : {}) as LoadedFont;
+      const name = font.name ?? '';
+      items.push({
+        text,
+        x: transform[4],
+        y: transform[5],
+        width,
+        fontSize: Math.hypot(transform[2], transform[3]),
+        bold: font.bold === true || BOLD_FONT_REGEX.test(name),
+        monospace: MONOSPACE_FONT_REGEX.test(name),
+      });
+    }
+
+    return {
+      number: page.pageNumber,
+      box: page.view as [number, number, number, number],
+      items,
+      images,
+      unmappedChars,
+    };
+  }
+}
@@ -0,0 +1,444 @@
+/**
+ * PDF Layout Analysis
+ *
+ * Turns the positioned text runs of pdf-content into markdown:
+ * - Runs are grouped into lines, and lines into columns (two-column
+ *   papers are read left column first)
+ * - Running headers, footers and page numbers are removed
+ * - Lines set larger than the body font, or bold numbered lines, become
+ *   headings so the chunker can split sections
+ * - Monospace lines become fenced code blocks; raised and lowered runs
+ *   become ^{...} and _{...}
+ * - Each page starts with a page marker the chunker reads page numbers from;
+ *   OCR'd pages also get a marker with the OCR confidence
+ *
+ * @module @jubilant/rag/ingestion/parsers/pdf-layout
+ */
+
+import { formatOcrMarker, formatPageMarker } from '../chunker';
+import { formatCodeBlock, normalizeMarkdown } from './markup';
+import type { OcrResult } from './ocr';
+import type { PdfPage, PdfTextItem } from './pdf-content';
+
+/**
+ * A line (or a column's part of a line) of text
+ */
+export interface LayoutLine {
+  text: string;
+  x: number;
+  right: number;
+  /** Baseline */
+  y: number;
+  fontSize: number;
+  bold: boolean;
+  monospace: boolean;
+}
+
+/**
+ * Fraction of the page height at the top and bottom searched for
+ * running headers and footers
+ */
+const MARGIN_ZONE = 0.12;
+
+/**
+ * Lines from each margin zone considered as running headers/footers
+ */
+const MARGIN_LINES = 2;
+
+/**
+ * Horizontal gap (in font sizes) that separates two columns in a row
+ */
+const COLUMN_GAP = 2;
+
+/**
+ * Minimum font size ratio to the body text for a heading
+ */
+const HEADING_SIZE_RATIO = 1.15;
+
+const PAGE_NUMBER_REGEX = /^(page\s+)?[-–—\s]*([0-9]+|[ivxlc]+)[-–—\s]*((of|\/)\s*[0-9]+)?$/i;
+const NUMBERED_HEADING_REGEX = /^(\d+(?:\.\d+){0,3})\.?\s+\S/;
+
+// ============================================================================
+// Lines
+// ============================================================================
+
+/**
+ * Join runs on one baseline into text, inserting spaces at gaps and
+ * marking superscripts and subscripts
+ */
+function joinRuns(runs: PdfTextItem[], baseline: number, fontSize: number): string {
+  let text = '';
+  let previous: PdfTextItem | undefined;
+
+  for (const run of runs) {
+    let runText = run.text;
+    const offset = run.y - baseline;
+    if (run.fontSize < fontSize * 0.85 && Math.abs(offset) > fontSize * 0.15) {
+      const script = runText.trim();
+      runText = offset > 0
+        ? `^${script.length === 1 ? script : `{${script}}`}`
+        : `_${script.length === 1 ? script : `{${script}}`}`;
+    }
+
+    if (previous) {
+      const gap = run.x - (previous.x + previous.width);
+      if (previous.monospace && run.monospace) {
+        // Keep alignment inside code
+        const charWidth = previous.width / Math.max(1, previous.text.length);
+        const spaces = Math.round(gap / charWidth);
+        if (spaces > 0 && !text.endsWith(' ')) text += ' '.repeat(spaces);
+      } else if (gap > fontSize * 0.15 && !text.endsWith(' ') && !runText.startsWith(' ') && !runText.startsWith('^') && !runText.startsWith('_')) {
+        text += ' ';
+      }
+    }
+
+    text += runText;
+    previous = run;
+  }
+
+  return text.replace(/\s+$/, '');
+}
+
+/**
+ * Group a page's runs into lines. Runs on the same baseline separated by
+ * a wide gap (a column gutter) become separate lines.
+ */
+export function groupLines(items: PdfTextItem[]): LayoutLine[] {
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const rows: PdfTextItem[][] = [];
+
+  for (const item of sorted) {
+    // Attach to a row whose baseline (that of its largest run, so raised
+    // and lowered runs join) is within half the larger font size
+    const row = rows.find((r) => {
+      const main = r.reduce((best, i) => (i.fontSize > best.fontSize ? i : best));
+      return Math.abs(main.y - item.y) <= Math.max(main.fontSize, item.fontSize) * 0.5;
+    });
+    if (row) row.push(item);
+    else rows.push([item]);
+  }
+
+  const lines: LayoutLine[] = [];
+  for (const row of rows) {
+    row.sort((a, b) => a.x - b.x);
+    // The baseline and font size of a row come from its largest run
+    const main = row.reduce((best, item) => (item.fontSize * item.text.length > best.fontSize * best.text.length ? item : best));
+    const fontSize = main.fontSize;
+
+    let fragment: PdfTextItem[] = [];
+    const flush = () => {
+      if (fragment.length === 0) return;
+      const text = joinRuns(fragment, main.y, fontSize);
+      const last = fragment[fragment.length - 1];
+      if (text.trim()) {
+        const body = fragment.filter((i) => i.fontSize >= fontSize * 0.85);
+        lines.push({
+          text,
+          x: fragment[0].x,
+          right: last.x + last.width,
+          y: main.y,
+          fontSize: Math.max(...body.map((i) => i.fontSize), 0) || fontSize,
+          bold: body.every((i) => i.bold),
+          monospace: body.every((i) => i.monospace),
+        });
+      }
+      fragment = [];
+    };
+
+    for (const item of row) {
+      const previous = fragment[fragment.length - 1];
+      if (
+        previous &&
+        item.x - (previous.x + previous.width) > fontSize * COLUMN_GAP &&
+        !(previous.monospace && item.monospace)
+      ) {
+        flush();
+      }
+      fragment.push(item);
+    }
+    flush();
+  }
+
+  return lines.sort((a, b) => b.y - a.y || a.x - b.x);
+}
+
+// ============================================================================
+// Columns
+// ============================================================================
+
+/**
+ * Find the x position of a two-column gutter, if the page has one
+ *
+ * A gutter is a vertical band in the middle of the page that few lines
+ * cross, with several lines on each side of it.
+ */
+export function findGutter(lines: LayoutLine[], pageLeft: number, pageWidth: number): number | null {
+  if (lines.length < 6) return null;
+
+  let best: { x: number; crossing: number } | null = null;
+  for (let x = pageLeft + pageWidth * 0.3; x <= pageLeft + pageWidth * 0.7; x += 2) {
+    const crossing = lines.filter((l) => l.x < x && l.right > x).length;
+    const left = lines.filter((l) => l.right <= x).length;
+    const right = lines.filter((l) => l.x >= x).length;
+    if (left < 3 || right < 3 || crossing > lines.length * 0.2) continue;
+    if (!best || crossing < best.crossing) best = { x, crossing };
+  }
+
+  return best?.x ?? null;
+}
+
+/**
+ * Order lines for reading: with a gutter, the left column is read before
+ * the right one, and lines spanning both (titles, figures) start a new
+ * band of columns.
+ */
+export function readingOrder(lines: LayoutLine[], gutter: number | null): LayoutLine[] {
+  if (gutter === null) return lines;
+
+  const ordered: LayoutLine[] = [];
+  let left: LayoutLine[] = [];
+  let right: LayoutLine[] = [];
+  const flush = () => {
+    ordered.push(...left, ...right);
+    left = [];
+    right = [];
+  };
+
+  for (const line of lines) {
+    if (line.right <= gutter) {
+      left.push(line);
+    } else if (line.x >= gutter) {
+      right.push(line);
+    } else {
+      flush();
+      ordered.push(line);
+    }
+  }
+  flush();
+
+  return ordered;
+}
+
+// ============================================================================
+// Running Headers and Footers
+// ============================================================================
+
+/**
+ * Key for recognizing a repeated margin line (page numbers vary)
+ */
+function marginKey(line: LayoutLine): string {
+  return `${Math.round(line.y / 4)}:${line.text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim()}`;
+}
+
+/**
+ * Lines in the top and bottom margin zones of a page
+ */
+function marginLines(lines: LayoutLine[], page: PdfPage): LayoutLine[] {
+  const [, y0, , y1] = page.box;
+  const zone = (y1 - y0) * MARGIN_ZONE;
+  const top = lines.filter((l) => l.y >= y1 - zone).slice(0, MARGIN_LINES);
+  const bottom = lines.filter((l) => l.y <= y0 + zone).slice(-MARGIN_LINES);
+  return [...top, ...bottom];
+}
+
+/**
+ * Find running headers and footers: margin lines repeated (apart from
+ * numbers) at the same height on several pages, and bare page numbers
+ *
+ * @returns Lines to drop, per page index
+ */
+export function findRunningLines(pages: PdfPage[], pageLines: LayoutLine[][]): Array<Set<LayoutLine>> {
+  const counts = new Map<string, number>();
+  const candidates = pageLines.map((lines, i) => marginLines(lines, pages[i]));
+
+  for (const lines of candidates) {
+    for (const key of new Set(lines.map(marginKey))) {
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+  }
+
+  const minRepeats = Math.max(2, Math.ceil(pages.length * 0.4));
+  return candidates.map(
+    (lines) =>
+      new Set(
+        lines.filter(
+          (l) => PAGE_NUMBER_REGEX.test(l.text.trim()) || (counts.get(marginKey(l)) ?? 0) >= minRepeats
+        )
+      )
+  );
+}
+
+// ============================================================================
+// Blocks
+// ============================================================================
+
+/**
+ * Most common font size, weighted by text length
+ */
+export function bodyFontSize(lines: LayoutLine[]): number {
+  const weights = new Map<number, number>();
+  for (const line of lines) {
+    const size = Math.round(line.fontSize * 2) / 2;
+    weights.set(size, (weights.get(size) ?? 0) + line.text.length);
+  }
+
+  let best = 0;
+  let bestWeight = -1;
+  for (const [size, weight] of weights) {
+    if (weight > bestWeight) {
+      best = size;
+      bestWeight = weight;
+    }
+  }
+  return best || 10;
+}
+
+/**
+ * Heading level of a line, or 0 for body text
+ *
+ * @param headingSizes - Distinct heading font sizes, largest first
+ */
+function headingLevel(line: LayoutLine, bodySize: number, headingSizes: number[]): number {
+  const text = line.text.trim();
+  if (text.length > 120 || /[.,;:]$/.test(text) || line.monospace) return 0;
+
+  if (line.fontSize >= bodySize * HEADING_SIZE_RATIO) {
+    const rank = headingSizes.indexOf(Math.round(line.fontSize * 2) / 2);
+    return Math.min(rank + 1, 4);
+  }
+
+  const numbered = text.match(NUMBERED_HEADING_REGEX);
+  if (line.bold && numbered && text.length <= 80) {
+    return Math.min(numbered[1].split('.').length + 1, 6);
+  }
+
+  return 0;
+}
+
+/**
+ * Join a wrapped line onto a paragraph, undoing end-of-line hyphenation
+ */
+function appendLine(paragraph: string, line: string): string {
+  if (!paragraph) return line;
+  if (/[a-z]-$/i.test(paragraph) && /^[a-z]/.test(line)) {
+    return paragraph.slice(0, -1) + line;
+  }
+  return `${paragraph} ${line}`;
+}
+
+/**
+ * Convert ordered lines into markdown blocks
+ */
+function toBlocks(lines: LayoutLine[], bodySize: number, headingSizes: number[]): string[] {
+  const blocks: string[] = [];
+  let paragraph = '';
+  let code: LayoutLine[] = [];
+  let heading: { level: number; text: string; line: LayoutLine } | null = null;
+  let previous: LayoutLine | undefined;
+
+  const flushParagraph = () => {
+    if (paragraph.trim()) blocks.push(paragraph.trim());
+    paragraph = '';
+  };
+  const flushCode = () => {
+    if (code.length === 0) return;
+    const indent = Math.min(...code.map((l) => l.x));
+    const charWidth = Math.min(...code.map((l) => (l.right - l.x) / Math.max(1, l.text.length)));
+    blocks.push(
+      formatCodeBlock(
+        code.map((l) => ' '.repeat(Math.max(0, Math.round((l.x - indent) / charWidth))) + l.text).join('\n')
+      )
+    );
+    code = [];
+  };
+  const flushHeading = () => {
+    if (heading) blocks.push(`${'#'.repeat(heading.level)} ${heading.text}`);
+    heading = null;
+  };
+
+  for (const line of lines) {
+    const text = line.text.trim();
+    // A new line starts a new block after a gap wider than normal line
+    // spacing, or when moving to another column
+    const newBlock =
+      !previous ||
+      previous.y - line.y > Math.max(previous.fontSize, line.fontSize) * 1.8 ||
+      previous.y < line.y;
+
+    if (line.monospace) {
+      flushHeading();
+      flushParagraph();
+      if (newBlock && previous && !previous.monospace) flushCode();
+      code.push(line);
+    } else {
+      flushCode();
+      const level = headingLevel(line, bodySize, headingSizes);
+      if (level > 0) {
+        flushParagraph();
+        // Headings wrapped over several lines
+        if (heading && !newBlock && heading.level === level) {
+          heading.text = `${heading.text} ${text}`;
+        } else {
+          flushHeading();
+          heading = { level, text, line };
+        }
+      } else {
+        flushHeading();
+        if (newBlock) flushParagraph();
+        paragraph = appendLine(paragraph, text);
+      }
+    }
+
+    previous = line;
+  }
+
+  flushHeading();
+  flushParagraph();
+  flushCode();
+  return blocks;
+}
+
+// ============================================================================
+// Document Layout
+// ============================================================================
+
+/**
+ * Convert extracted PDF pages to markdown with page markers
+ *
+ * @param pages - Pages from PdfDocument.extractPages
+ * @param ocr - OCR results of scanned pages, by page number; their text
+ *   replaces the page's (empty) text layer
+ * @returns Markdown, each page preceded by formatPageMarker(pageNumber)
+ */
+export function layoutPages(pages: PdfPage[], ocr: Map<number, OcrResult> = new Map()): string {
+  const textPages = pages.filter((page) => !ocr.has(page.number));
+  const pageLines = textPages.map((page) => groupLines(page.items));
+  const running = findRunningLines(textPages, pageLines);
+  const contentLines = new Map(
+    textPages.map((page, i) => [page.number, pageLines[i].filter((l) => !running[i].has(l))])
+  );
+
+  const allLines = [...contentLines.values()].flat();
+  const bodySize = bodyFontSize(allLines);
+  const headingSizes = [
+    ...new Set(
+      allLines
+        .filter((l) => l.fontSize >= bodySize * HEADING_SIZE_RATIO)
+        .map((l) => Math.round(l.fontSize * 2) / 2)
+    ),
+  ].sort((a, b) => b - a);
+
+  const output = pages.map((page) => {
+    const recognized = ocr.get(page.number);
+    if (recognized) {
+      return [formatPageMarker(page.number), formatOcrMarker(recognized.confidence), recognized.text].join('\n\n');
+    }
+
+    const [x0, , x1] = page.box;
+    const lines = contentLines.get(page.number) ?? [];
+    const ordered = readingOrder(lines, findGutter(lines, x0, x1 - x0));
+    return [formatPageMarker(page.number), ...toBlocks(ordered, bodySize, headingSizes)].join('\n\n');
+  });
+
+  return normalizeMarkdown(output.join('\n\n'));
+}
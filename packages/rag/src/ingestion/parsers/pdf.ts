@@ -1,23 +1,69 @@
 /**
  * PDF Document Parser
  *
- * Parses PDF documents, extracting text content.
- * Uses pdf-parse for text extraction.
+ * Parses PDF documents into markdown with page boundaries. Text is read
+ * with its position and font (pdf-content), then laid out (pdf-layout):
+ * two-column pages are read column by column, running headers, footers
+ * and page numbers are dropped, larger or bold numbered lines become
+ * headings, and monospace lines become code blocks. Each page starts with
+ * a page marker, which the chunker turns into chunk page ranges.
+ *
+ * Scanned pages (images with no text layer) are OCR'd, and their OCR
+ * confidence is recorded on the chunks made from them. Documents whose
+ * glyphs mostly have no Unicode mapping are rejected with an encoding
+ * error rather than indexed as fragments.
  *
  * @module @jubilant/rag/ingestion/parsers/pdf
  */
 
 import type { ParsedDocument, DocumentParser } from './index';
+import { stripPageMarkers } from '../chunker';
+import { titleFromSource } from './markup';
+import {
+  getOcrEngine,
+  insufficientTextError,
+  mergeOcrResults,
+  recognizeImage,
+  textLength,
+  MIN_DOCUMENT_TEXT,
+  type OcrEngine,
+  type OcrResult,
+} from './ocr';
+import { PdfDocument, type PdfPage } from './pdf-content';
+import { layoutPages } from './pdf-layout';
+
+/**
+ * Pages with less text than this (non-whitespace characters) and an
+ * image are treated as scanned
+ */
+const SCANNED_PAGE_MAX_TEXT = 20;
+
+/**
+ * Images smaller than this (in pixels) are not OCR'd (logos, rules)
+ */
+const MIN_OCR_IMAGE_PIXELS = 100 * 100;
+
+/**
+ * Whether a page is an image with no text layer
+ */
+function isScannedPage(page: PdfPage): boolean {
+  return (
+    textLength(page.items.map((i) => i.text).join('')) < SCANNED_PAGE_MAX_TEXT &&
+    page.images.some((image) => image.width * image.height >= MIN_OCR_IMAGE_PIXELS)
+  );
+}
 
 /**
  * PDFParser - Parses PDF documents
- *
- * Note: This is a basic implementation. For production use,
- * consider using pdf-parse or similar library for better extraction.
  */
 export class PDFParser implements DocumentParser {
   readonly format = 'pdf';
 
+  /**
+   * @param ocrEngine - OCR engine for scanned pages (null: skip them)
+   */
+  constructor(private ocrEngine: OcrEngine | null = getOcrEngine()) {}
+
   /**
    * Parse a PDF document from URL or file path
    *
@@ -25,9 +71,49 @@ export class PDFParser implements DocumentParser {
    * @returns Parsed document
    */
   async parse(source: string): Promise<ParsedDocument> {
-    const buffer = await this.fetchContent(source);
-    const content = await this.extractText(buffer);
-    const title = this.extractTitle(source);
+    return this.parseContent(new Uint8Array(await this.fetchContent(source)), source);
+  }
+
+  /**
+   * Parse PDF bytes that have already been fetched
+   *
+   * @param bytes - PDF file
+   * @param source - URL or file path (for titles and errors)
+   * @returns Parsed document
+   */
+  async parseContent(bytes: Uint8Array, source: string): Promise<ParsedDocument> {
+    const document = await PdfDocument.open(bytes);
+    try {
+      return await this.parsePages(document, source);
+    } finally {
+      await document.close();
+    }
+  }
+
+  /**
+   * Lay out an opened PDF's pages, OCR'ing scanned ones
+   */
+  private async parsePages(document: PdfDocument, source: string): Promise<ParsedDocument> {
+    const pages = await document.extractPages();
+
+    const decoded = textLength(pages.flatMap((page) => page.items.map((i) => i.text)).join(''));
+    const unmapped = pages.reduce((sum, page) => sum + page.unmappedChars, 0);
+    if (unmapped > decoded) {
+      throw new Error(
+        `Unsupported font encoding in ${source}: ${unmapped} characters could not be mapped to Unicode`
+      );
+    }
+
+    const { results: ocr, unavailable } = await this.recognizeScannedPages(document, pages);
+
+    const content = layoutPages(pages, ocr);
+    const length = textLength(stripPageMarkers(content).content);
+    if (length < MIN_DOCUMENT_TEXT) {
+      throw insufficientTextError(source, length, unavailable);
+    }
+
+    const title = document.info('Title') || titleFromSource(source, /\.pdf$/i);
+    const ocrResults = [...ocr.values()];
 
     return {
       content,
@@ -36,11 +122,49 @@ export class PDFParser implements DocumentParser {
       format: 'pdf',
       metadata: {
         title,
-        pageCount: this.estimatePageCount(content),
+        pageCount: pages.length,
+        ...(ocrResults.length > 0 && {
+          ocrPageCount: ocrResults.length,
+          ocrConfidence: mergeOcrResults(ocrResults).confidence,
+        }),
       },
     };
   }
 
+  /**
+   * OCR the images of scanned pages
+   *
+   * @returns Results by page number, and whether OCR was unavailable
+   */
+  private async recognizeScannedPages(
+    document: PdfDocument,
+    pages: PdfPage[]
+  ): Promise<{ results: Map<number, OcrResult>; unavailable: boolean }> {
+    const results = new Map<number, OcrResult>();
+
+    for (const page of pages.filter(isScannedPage)) {
+      const images = page.images.filter((image) => image.width * image.height >= MIN_OCR_IMAGE_PIXELS);
+      const recognized: OcrResult[] = [];
+
+      for (const encoded of await document.encodeImages(page, images)) {
+        if (!encoded) continue;
+
+        const result = await recognizeImage(this.ocrEngine, encoded);
+        if (!result) {
+          return { results, unavailable: true };
+        }
+        recognized.push(result);
+      }
+
+      const merged = mergeOcrResults(recognized);
+      if (merged.text.trim()) {
+        results.set(page.number, merged);
+      }
+    }
+
+    return { results, unavailable: false };
+  }
+
   /**
    * Fetch PDF content from URL or file
    */
@@ -60,91 +184,6 @@ export class PDFParser implements DocumentParser {
     }
     return await file.arrayBuffer();
   }
-
-  /**
-   * Extract text from PDF buffer
-   *
-   * This is a placeholder implementation.
-   * In production, use a proper PDF parsing library like pdf-parse.
-   */
-  private async extractText(buffer: ArrayBuffer): Promise<string> {
-    // Try to use pdf-parse if available
-    try {
-      // Dynamic import to handle cases where pdf-parse isn't installed
-      // Note: pdf-parse is an optional dependency for better PDF support
-      const pdfParseModule = await import('pdf-parse' as string).catch(() => null);
-
-      if (pdfParseModule) {
-        const pdfParse = pdfParseModule.default || pdfParseModule;
-        const data = await pdfParse(Buffer.from(buffer));
-        return data.text;
-      }
-    } catch {
-      // Fall through to basic extraction
-    }
-
-    // Basic text extraction from PDF (very limited)
-    // This attempts to extract readable ASCII text from the PDF
-    const bytes = new Uint8Array(buffer);
-    const text: string[] = [];
-    let currentText = '';
-
-    for (let i = 0; i < bytes.length; i++) {
-      const byte = bytes[i];
-      // Only keep printable ASCII characters and common whitespace
-      if (
-        (byte >= 32 && byte <= 126) ||
-        byte === 10 ||
-        byte === 13 ||
-        byte === 9
-      ) {
-        currentText += String.fromCharCode(byte);
-      } else if (currentText.length > 0) {
-        // End of text segment
-        if (currentText.trim().length > 10) {
-          text.push(currentText.trim());
-        }
-        currentText = '';
-      }
-    }
-
-    if (currentText.trim().length > 10) {
-      text.push(currentText.trim());
-    }
-
-    // Filter out binary garbage and join
-    const filtered = text
-      .filter((t) => {
-        // Keep segments that look like actual text
-        const letterRatio = (t.match(/[a-zA-Z]/g) || []).length / t.length;
-        return letterRatio > 0.5 && t.length > 20;
-      })
-      .join('\n\n');
-
-    if (filtered.length < 100) {
-      throw new Error(
-        'PDF text extraction failed. Please install pdf-parse for better PDF support: bun add pdf-parse'
-      );
-    }
-
-    return filtered;
-  }
-
-  /**
-   * Extract title from source path
-   */
-  private extractTitle(source: string): string {
-    const filename = source.split('/').pop() || 'Untitled';
-    return filename.replace(/\.pdf$/i, '').replace(/[-_]/g, ' ');
-  }
-
-  /**
-   * Estimate page count from content length
-   */
-  private estimatePageCount(content: string): number {
-    // Rough estimate: ~3000 characters per page
-    return Math.max(1, Math.ceil(content.length / 3000));
-  }
 }
 
 /**
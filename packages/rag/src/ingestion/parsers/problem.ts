@@ -0,0 +1,517 @@
+/**
+ * Problem Package Parser
+ *
+ * Parses competitive programming problem packages into markdown with one
+ * canonical section per part of the problem (statement, input and output
+ * specification, constraints, samples, notes, editorial, solution), so
+ * the chunker produces a typed chunk for each.
+ *
+ * A package is a directory or ZIP archive containing:
+ * - `statement.md` (required), optionally with front matter
+ *   (title, tags, difficulty, time_limit, memory_limit, source)
+ * - `problem.json` (optional) with the same fields
+ * - `samples/<name>.in` with `<name>.out` or `<name>.ans`
+ * - `editorial.md` (optional)
+ * - `solution.<ext>` or `solutions/*` (optional)
+ *
+ * @module @jubilant/rag/ingestion/parsers/problem
+ */
+
+import { readdir, readFile, stat } from 'fs/promises';
+import { join } from 'path';
+import type { ProblemSectionType } from '../../types';
+import type { ParsedDocument, DocumentParser } from './index';
+import { formatCodeBlock, normalizeMarkdown, titleFromSource } from './markup';
+import { isZipArchive, readZipEntries } from './zip';
+
+// ============================================================================
+// Sections
+// ============================================================================
+
+/**
+ * Canonical heading for each section, in output order
+ */
+export const PROBLEM_SECTION_HEADERS: Record<ProblemSectionType, string> = {
+  statement: 'Statement',
+  input: 'Input',
+  output: 'Output',
+  constraints: 'Constraints',
+  samples: 'Samples',
+  notes: 'Notes',
+  editorial: 'Editorial',
+  solution: 'Solution',
+};
+
+/**
+ * Headings authors use for each section in statement.md
+ */
+const SECTION_HEADING_PATTERNS: Array<[ProblemSectionType, RegExp]> = [
+  ['input', /^(input( format| specification)?|输入(格式)?)$/i],
+  ['output', /^(output( format| specification)?|输出(格式)?)$/i],
+  ['constraints', /^(constraints|limits|subtasks|数据范围|数据规模|约束)/i],
+  ['samples', /^(samples?|examples?|sample (input|output|tests?)|样例|输入输出样例)/i],
+  ['notes', /^(notes?|explanation|hints?|说明|提示)/i],
+  ['editorial', /^(editorial|tutorial|solution idea|analysis|题解)/i],
+  ['statement', /^(statement|description|legend|problem( statement)?|题目描述|描述|题目背景)/i],
+];
+
+/**
+ * Solution file extensions and their fence languages
+ */
+const SOLUTION_LANGUAGES: Record<string, string> = {
+  cpp: 'cpp',
+  cc: 'cpp',
+  cxx: 'cpp',
+  c: 'c',
+  py: 'python',
+  java: 'java',
+  kt: 'kotlin',
+  rs: 'rust',
+  go: 'go',
+};
+
+/**
+ * Section type of a chunk from a problem document, by its section header
+ *
+ * @param header - Chunk section header
+ * @returns Section type, or undefined for non-canonical headers
+ */
+export function problemSectionType(header: string | undefined): ProblemSectionType | undefined {
+  if (!header) return undefined;
+  const entry = Object.entries(PROBLEM_SECTION_HEADERS).find(([, heading]) => heading === header);
+  return entry?.[0] as ProblemSectionType | undefined;
+}
+
+// ============================================================================
+// Package Types
+// ============================================================================
+
+/**
+ * Problem properties, stored on the document and on its Problem graph node
+ */
+export interface ProblemInfo {
+  /** Stable identifier derived from the package name */
+  slug: string;
+  title: string;
+  /** Concepts the problem exercises (e.g. "segment tree") */
+  tags: string[];
+  difficulty?: string;
+  timeLimit?: string;
+  memoryLimit?: string;
+  /** Where the problem comes from (e.g. "Codeforces 339D") */
+  source?: string;
+  sampleCount: number;
+  solutionLanguages: string[];
+  sections: ProblemSectionType[];
+}
+
+/**
+ * Sample test read from a package
+ */
+interface ProblemSample {
+  name: string;
+  input: string;
+  output?: string;
+}
+
+/**
+ * Package fields from problem.json or statement front matter
+ */
+interface ProblemProperties {
+  title?: string;
+  tags?: string[];
+  difficulty?: string;
+  timeLimit?: string;
+  memoryLimit?: string;
+  source?: string;
+}
+
+/**
+ * Package files the parser reads (test data and checkers are ignored)
+ */
+function isPackageFile(path: string): boolean {
+  const name = path.split('/').pop() || '';
+  return (
+    /^(statement|editorial)\.md$/i.test(name) ||
+    /^problem\.json$/i.test(name) ||
+    /(^|\/)samples?\//i.test(path) ||
+    /^sample[\w-]*\.(in|out|ans)$/i.test(name) ||
+    /^solution[\w-]*\.\w+$/i.test(name) ||
+    /(^|\/)solutions\/[^/]+$/i.test(path)
+  );
+}
+
+// ============================================================================
+// Problem Parser
+// ============================================================================
+
+/**
+ * ProblemParser - Parses problem packages (directories or ZIP archives)
+ */
+export class ProblemParser implements DocumentParser {
+  readonly format = 'problem';
+
+  /**
+   * Parse a problem package from a directory, ZIP file or ZIP URL
+   *
+   * @param source - Directory path, ZIP path or URL
+   * @returns Parsed document
+   */
+  async parse(source: string): Promise<ParsedDocument> {
+    return this.parseContent(await this.readPackage(source), source);
+  }
+
+  /**
+   * Parse package files that have already been read
+   *
+   * @param files - File contents by path relative to the package root
+   * @param source - Package path or URL (for titles and errors)
+   * @returns Parsed document
+   */
+  parseContent(files: Map<string, string>, source: string): ParsedDocument {
+    const statementPath = [...files.keys()].find((path) => /^statement\.md$/i.test(path));
+    if (!statementPath) {
+      throw new Error(`Invalid format: ${source} has no statement.md (not a problem package)`);
+    }
+
+    const { properties: frontMatter, body } = this.splitFrontMatter(files.get(statementPath)!);
+    const properties = { ...this.readProblemJson(files, source), ...frontMatter };
+
+    const sections = this.splitStatement(body);
+    const title = properties.title || sections.title || titleFromSource(source, /\.zip$/i);
+
+    const samples = this.collectSamples(files);
+    const solutions = this.collectSolutions(files);
+    const editorial = [...files.entries()].find(([path]) => /^editorial\.md$/i.test(path))?.[1];
+
+    const limits = [
+      properties.timeLimit && `Time limit: ${properties.timeLimit}`,
+      properties.memoryLimit && `Memory limit: ${properties.memoryLimit}`,
+    ].filter(Boolean);
+    if (limits.length > 0) {
+      sections.parts.constraints.unshift(limits.join('\n'));
+    }
+    if (samples.length > 0) {
+      sections.parts.samples.push(this.formatSamples(samples));
+    }
+    if (editorial?.trim()) {
+      sections.parts.editorial.push(this.flattenHeadings(this.stripTitleHeading(editorial)));
+    }
+    for (const solution of solutions) {
+      sections.parts.solution.push(formatCodeBlock(solution.code, solution.language));
+    }
+
+    const present = (Object.keys(PROBLEM_SECTION_HEADERS) as ProblemSectionType[]).filter(
+      (type) => sections.parts[type].some((part) => part.trim().length > 0)
+    );
+    if (!present.includes('statement')) {
+      throw new Error(`Invalid format: ${source} has an empty problem statement`);
+    }
+
+    const content = normalizeMarkdown(
+      [
+        `# ${title}`,
+        ...present.map(
+          (type) => `## ${PROBLEM_SECTION_HEADERS[type]}\n\n${sections.parts[type].join('\n\n')}`
+        ),
+      ].join('\n\n')
+    );
+
+    const problem: ProblemInfo = {
+      slug: this.slugFromSource(source),
+      title,
+      tags: properties.tags ?? [],
+      difficulty: properties.difficulty,
+      timeLimit: properties.timeLimit,
+      memoryLimit: properties.memoryLimit,
+      source: properties.source,
+      sampleCount: samples.length,
+      solutionLanguages: [...new Set(solutions.map((s) => s.language))],
+      sections: present,
+    };
+
+    return {
+      content,
+      title,
+      url: source,
+      format: 'problem',
+      metadata: { title, problem },
+    };
+  }
+
+  /**
+   * Read package files from a directory, a local ZIP file or a ZIP URL
+   */
+  private async readPackage(source: string): Promise<Map<string, string>> {
+    if (source.startsWith('http://') || source.startsWith('https://')) {
+      const response = await fetch(source);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch ${source}: ${response.statusText}`);
+      }
+      return this.readArchive(Buffer.from(await response.arrayBuffer()), source);
+    }
+
+    const info = await stat(source).catch(() => null);
+    if (!info) {
+      throw new Error(`File not found: ${source}`);
+    }
+
+    if (!info.isDirectory()) {
+      return this.readArchive(await readFile(source), source);
+    }
+
+    const files = new Map<string, string>();
+    const paths = await readdir(source, { recursive: true });
+    for (const path of paths.map((p) => p.split('\\').join('/')).sort()) {
+      if (!isPackageFile(path)) continue;
+      const fullPath = join(source, path);
+      if ((await stat(fullPath)).isFile()) {
+        files.set(path, await readFile(fullPath, 'utf8'));
+      }
+    }
+    return files;
+  }
+
+  /**
+   * Read package files from a ZIP archive, dropping a shared top-level
+   * directory (archives made by zipping the package folder)
+   */
+  private readArchive(buffer: Buffer, source: string): Map<string, string> {
+    if (!isZipArchive(buffer)) {
+      throw new Error(`Invalid format: ${source} is not a directory or ZIP archive`);
+    }
+
+    const entries = [...readZipEntries(buffer, () => true).entries()];
+    const roots = new Set(entries.map(([name]) => (name.includes('/') ? name.split('/')[0] : '')));
+    const prefix = roots.size === 1 && !roots.has('') ? `${[...roots][0]}/` : '';
+
+    const files = new Map<string, string>();
+    for (const [name, data] of entries.sort(([a], [b]) => a.localeCompare(b))) {
+      const path = name.slice(prefix.length);
+      if (isPackageFile(path)) {
+        files.set(path, data.toString('utf8'));
+      }
+    }
+    return files;
+  }
+
+  /**
+   * Split `---` delimited front matter from statement markdown
+   */
+  private splitFrontMatter(markdown: string): { properties: ProblemProperties; body: string } {
+    const text = markdown.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+    const match = text.match(/^---\n([\s\S]*?)\n---\n?/);
+    if (!match) {
+      return { properties: {}, body: text };
+    }
+
+    const fields: Record<string, unknown> = {};
+    for (const line of match[1].split('\n')) {
+      const field = line.match(/^([\w-]+)\s*:\s*(.*)$/);
+      if (!field) continue;
+      const value = field[2].trim().replace(/^["']|["']$/g, '');
+      fields[field[1]] = /^\[.*\]$/.test(value)
+        ? value.slice(1, -1).split(',').map((v) => v.trim().replace(/^["']|["']$/g, ''))
+        : value;
+    }
+
+    return { properties: this.toProperties(fields), body: text.slice(match[0].length) };
+  }
+
+  /**
+   * Read problem.json, if present
+   */
+  private readProblemJson(files: Map<string, string>, source: string): ProblemProperties {
+    const raw = [...files.entries()].find(([path]) => /^problem\.json$/i.test(path))?.[1];
+    if (!raw) return {};
+
+    try {
+      return this.toProperties(JSON.parse(raw) as Record<string, unknown>);
+    } catch {
+      throw new Error(`Invalid format: ${source} has a malformed problem.json`);
+    }
+  }
+
+  /**
+   * Normalize package fields (snake_case or camelCase, tags as list or string)
+   */
+  private toProperties(fields: Record<string, unknown>): ProblemProperties {
+    const text = (value: unknown) =>
+      value === undefined || value === null || value === '' ? undefined : String(value);
+    const tags = fields.tags;
+
+    const properties: ProblemProperties = {
+      title: text(fields.title),
+      tags: Array.isArray(tags)
+        ? tags.map(String).map((t) => t.trim()).filter(Boolean)
+        : typeof tags === 'string'
+          ? tags.split(',').map((t) => t.trim()).filter(Boolean)
+          : undefined,
+      difficulty: text(fields.difficulty ?? fields.rating),
+      timeLimit: text(fields.timeLimit ?? fields.time_limit),
+      memoryLimit: text(fields.memoryLimit ?? fields.memory_limit),
+      source: text(fields.source),
+    };
+
+    // Drop unset fields so they do not override other sources
+    return Object.fromEntries(
+      Object.entries(properties).filter(([, value]) => value !== undefined)
+    ) as ProblemProperties;
+  }
+
+  /**
+   * Split statement markdown into typed sections.
+   *
+   * Text before the first recognized heading is the statement. Headings
+   * that do not name a section stay in the current one as bold lines;
+   * a leading H1 is taken as the title.
+   */
+  private splitStatement(markdown: string): {
+    title?: string;
+    parts: Record<ProblemSectionType, string[]>;
+  } {
+    const parts = Object.fromEntries(
+      Object.keys(PROBLEM_SECTION_HEADERS).map((type) => [type, [] as string[]])
+    ) as Record<ProblemSectionType, string[]>;
+
+    let title: string | undefined;
+    let current: ProblemSectionType = 'statement';
+    let buffer: string[] = [];
+    let inFence = false;
+
+    const flush = () => {
+      const text = buffer.join('\n').trim();
+      if (text) parts[current].push(text);
+      buffer = [];
+    };
+
+    for (const line of markdown.split('\n')) {
+      if (/^\s*(```|~~~)/.test(line)) {
+        inFence = !inFence;
+      }
+
+      const heading = inFence ? null : line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+      if (!heading) {
+        buffer.push(line);
+        continue;
+      }
+
+      const text = heading[2].trim();
+      if (heading[1].length === 1 && title === undefined && !buffer.join('').trim()) {
+        title = text;
+        continue;
+      }
+
+      const type = SECTION_HEADING_PATTERNS.find(([, pattern]) =>
+        pattern.test(text.replace(/[:：]$/, ''))
+      )?.[0];
+      if (type) {
+        flush();
+        current = type;
+        // Keep distinguishing headings such as "Sample Input 2"
+        if (type === 'samples' && /\d|input|output|输入|输出/i.test(text)) {
+          buffer.push(`**${text}**`, '');
+        }
+      } else {
+        buffer.push(`**${text}**`);
+      }
+    }
+    flush();
+
+    return { title, parts };
+  }
+
+  /**
+   * Pair sample inputs with their expected outputs
+   */
+  private collectSamples(files: Map<string, string>): ProblemSample[] {
+    const samples: ProblemSample[] = [];
+
+    for (const [path, content] of files) {
+      const match = path.match(/^(.*)\.in$/i);
+      if (!match || !/(^|\/)samples?\/|(^|\/)sample[^/]*$/i.test(path)) continue;
+
+      const output = files.get(`${match[1]}.out`) ?? files.get(`${match[1]}.ans`);
+      samples.push({ name: match[1].split('/').pop() || match[1], input: content, output });
+    }
+
+    return samples.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+  }
+
+  /**
+   * Solution source files with their fence languages
+   */
+  private collectSolutions(files: Map<string, string>): Array<{ code: string; language: string }> {
+    const solutions: Array<{ code: string; language: string }> = [];
+
+    for (const [path, code] of files) {
+      const name = path.split('/').pop() || '';
+      if (!/^solution[\w-]*\.\w+$/i.test(name) && !/(^|\/)solutions\//i.test(path)) continue;
+
+      const extension = name.split('.').pop()?.toLowerCase() || '';
+      const language = SOLUTION_LANGUAGES[extension];
+      if (language && code.trim()) {
+        solutions.push({ code, language });
+      }
+    }
+
+    return solutions;
+  }
+
+  /**
+   * Render sample tests as labelled fenced blocks
+   */
+  private formatSamples(samples: ProblemSample[]): string {
+    return samples
+      .map((sample, i) => {
+        const blocks = [`**Sample ${i + 1}**`, 'Input:', formatCodeBlock(sample.input, 'text')];
+        if (sample.output !== undefined) {
+          blocks.push('Output:', formatCodeBlock(sample.output, 'text'));
+        }
+        return blocks.join('\n\n');
+      })
+      .join('\n\n');
+  }
+
+  /**
+   * Drop a leading H1 (editorials usually repeat the problem title)
+   */
+  private stripTitleHeading(markdown: string): string {
+    return markdown.replace(/\r\n?/g, '\n').replace(/^\s*#\s+.+\n/, '').trim();
+  }
+
+  /**
+   * Turn headings into bold lines, so a section's sub-headings do not
+   * split it into untyped chunks
+   */
+  private flattenHeadings(markdown: string): string {
+    let inFence = false;
+    return markdown
+      .split('\n')
+      .map((line) => {
+        if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+        const heading = inFence ? null : line.match(/^#{1,6}\s+(.+?)\s*#*\s*$/);
+        return heading ? `**${heading[1]}**` : line;
+      })
+      .join('\n');
+  }
+
+  /**
+   * Package identifier from the directory or archive name
+   */
+  private slugFromSource(source: string): string {
+    const name = source.replace(/\/+$/, '').split('/').pop() || 'problem';
+    return name
+      .replace(/\.zip$/i, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '') || 'problem';
+  }
+}
+
+/**
+ * Create a ProblemParser instance
+ */
+export function createProblemParser(): ProblemParser {
+  return new ProblemParser();
+}
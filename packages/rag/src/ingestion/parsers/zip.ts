@@ -0,0 +1,144 @@
+/**
+ * ZIP Archive Reading
+ *
+ * Minimal reader for the ZIP containers used by DOCX files and problem
+ * packages. Supports stored and deflated entries, which covers archives
+ * written by Word, LibreOffice and the usual zip tools.
+ *
+ * Archives are uploads, and deflate can expand data a thousandfold, so
+ * the number of entries and the bytes extracted are capped: sizes are
+ * checked against the central directory before inflating, and inflation
+ * stops at the declared size.
+ *
+ * @module @jubilant/rag/ingestion/parsers/zip
+ */
+
+import { inflateRawSync } from 'zlib';
+
+/**
+ * Limits on reading an archive
+ */
+export interface ZipLimits {
+  /** Most entries in the central directory */
+  maxEntries: number;
+  /** Largest extracted entry, in bytes */
+  maxEntryBytes: number;
+  /** Most bytes extracted from one archive */
+  maxTotalBytes: number;
+}
+
+const MB = 1024 * 1024;
+
+export const DEFAULT_ZIP_LIMITS: ZipLimits = {
+  maxEntries: 10_000,
+  maxEntryBytes: 64 * MB,
+  maxTotalBytes: 256 * MB,
+};
+
+/**
+ * Check whether bytes start with a ZIP local file header
+ */
+export function isZipArchive(buffer: Buffer): boolean {
+  return buffer.length >= 4 && buffer.readUInt32LE(0) === 0x04034b50;
+}
+
+/**
+ * Read entries from a ZIP archive (stored or deflated entries)
+ *
+ * @param buffer - Archive bytes
+ * @param names - Entry names to extract, or a predicate over entry names
+ * @param limits - Caps on entries and extracted bytes
+ * @returns Entry contents by name (missing entries and directories are omitted)
+ * @throws Error for malformed archives and archives over the limits
+ */
+export function readZipEntries(
+  buffer: Buffer,
+  names: string[] | ((name: string) => boolean),
+  limits: Partial<ZipLimits> = {}
+): Map<string, Buffer> {
+  const { maxEntries, maxEntryBytes, maxTotalBytes } = { ...DEFAULT_ZIP_LIMITS, ...limits };
+  const entries = new Map<string, Buffer>();
+  const wanted = typeof names === 'function' ? names : (name: string) => names.includes(name);
+  let totalBytes = 0;
+
+  // End of central directory record: scan back over the trailing comment
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('Invalid format: not a ZIP archive');
+  }
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  if (entryCount > maxEntries) {
+    throw new Error(`Invalid format: ZIP archive has ${entryCount} entries (limit ${maxEntries})`);
+  }
+  let offset = buffer.readUInt32LE(eocd + 16);
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > eocd || buffer.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error('Invalid format: corrupt ZIP central directory');
+    }
+
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const uncompressedSize = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    if (!name.endsWith('/') && wanted(name)) {
+      // Checked before inflating; inflation stops at the declared size
+      if (uncompressedSize > maxEntryBytes) {
+        throw new Error(
+          `Invalid format: ZIP entry ${name} expands to ${(uncompressedSize / MB).toFixed(1)} MB ` +
+            `(limit ${maxEntryBytes / MB} MB)`
+        );
+      }
+      totalBytes += uncompressedSize;
+      if (totalBytes > maxTotalBytes) {
+        throw new Error(`Invalid format: ZIP archive expands to more than ${maxTotalBytes / MB} MB`);
+      }
+
+      if (localOffset + 30 > buffer.length) {
+        throw new Error(`Invalid format: corrupt ZIP entry ${name}`);
+      }
+      const localNameLength = buffer.readUInt16LE(localOffset + 26);
+      const localExtraLength = buffer.readUInt16LE(localOffset + 28);
+      const start = localOffset + 30 + localNameLength + localExtraLength;
+      const data = buffer.subarray(start, start + compressedSize);
+
+      if (method === 0) {
+        entries.set(name, data.subarray(0, uncompressedSize));
+      } else if (method === 8) {
+        entries.set(name, inflateEntry(name, data, uncompressedSize));
+      } else {
+        throw new Error(`Invalid format: unsupported ZIP compression method ${method}`);
+      }
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Inflate a deflated entry, failing if it expands beyond its declared size
+ */
+function inflateEntry(name: string, data: Buffer, size: number): Buffer {
+  try {
+    // maxOutputLength must be at least 1, even for empty entries
+    return inflateRawSync(data, { maxOutputLength: Math.max(1, size) });
+  } catch (error) {
+    throw new Error(
+      `Invalid format: corrupt ZIP entry ${name} (${error instanceof Error ? error.message : String(error)})`
+    );
+  }
+}
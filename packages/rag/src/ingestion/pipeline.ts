@@ -9,18 +9,41 @@
  * 5. Extract knowledge triples
  *
  * Includes async job tracking and state machine for document status.
+ * Re-ingesting a document diffs chunk hashes against what is stored, so
+ * only changed chunks are embedded, stored and sent for triple extraction.
+ * Problem packages also get a Problem graph node linked to their typed
+ * section chunks and the concepts they exercise.
  *
  * @module @jubilant/rag/ingestion/pipeline
  */
 
+import { createHash } from 'crypto';
+import { readFile } from 'fs/promises';
 import type { MilvusClient } from '@zilliz/milvus2-sdk-node';
 import type { Driver } from 'neo4j-driver';
 import type { EmbeddedChunk, IngestRequest, IngestResponse, IngestStatusResponse } from '../types';
-import { ContentAwareChunker, createChunker, type ChunkerConfig } from './chunker';
-import { BatchEmbedder, createBatchEmbedder, type BatchEmbedderConfig } from './embedder';
-import { ChunkStorageManager, createChunkStorageManager, type StorageConfig } from './storage';
+import type { EmbeddingVersionTracker } from '../retrieval/versions';
+import { ContentAwareChunker, createChunker, type Chunk, type ChunkerConfig } from './chunker';
+import { BatchEmbedder, createBatchEmbedder, toChunkMetadata, type BatchEmbedderConfig } from './embedder';
+import {
+  ChunkStorageManager,
+  createChunkStorageManager,
+  hashChunkContent,
+  type ChunkPosition,
+  type StorageConfig,
+  type StoredChunk,
+} from './storage';
+import { getTracer } from '../monitoring/tracing';
 import { TripleExtractor, Neo4jTripleStorage, createTripleExtractor, createTripleStorage, type TripleExtractorConfig } from './extractor';
-import { parseDocument, type DocumentParser, type ParsedDocument } from './parsers';
+import {
+  parseDocument,
+  detectFormat,
+  problemSectionType,
+  type DocumentFormat,
+  type DocumentParser,
+  type ParsedDocument,
+  type ProblemInfo,
+} from './parsers';
 
 // ============================================================================
 // Document Status State Machine (T063)
@@ -72,6 +95,33 @@ export function getNextStatus(current: DocumentStatus): DocumentStatus | null {
 // Job Tracking Types
 // ============================================================================
 
+/**
+ * Durable checkpoints a job records as it runs.
+ * Parsing, chunking and embedding produce in-memory results only, so a
+ * resumed job redoes them unless their output was already stored.
+ */
+export type CompletedStage = 'stored' | 'extracted';
+
+/**
+ * Work remaining for a job, given its last completed stage
+ */
+export interface ResumePlan {
+  /** Embed and store chunks */
+  store: boolean;
+  /** Extract knowledge triples */
+  extract: boolean;
+}
+
+/**
+ * Determine which stages a (possibly resumed) job still has to run
+ */
+export function planResume(completedStage: CompletedStage | null): ResumePlan {
+  return {
+    store: completedStage === null,
+    extract: completedStage !== 'extracted',
+  };
+}
+
 /**
  * Ingestion job record (matches ingestionJobs table)
  */
@@ -84,6 +134,10 @@ export interface IngestionJob {
   totalChunks: number | null;
   processedChunks: number;
   errorMessage: string | null;
+  /** Number of times the job has been leased by a worker */
+  attempts: number;
+  /** Last durable checkpoint, used to resume after a crash */
+  completedStage: CompletedStage | null;
   startedAt: Date | null;
   completedAt: Date | null;
   createdAt: Date;
@@ -100,6 +154,58 @@ export interface DocumentRecord {
   status: DocumentStatus;
   chunkCount: number;
   errorMessage: string | null;
+  /** SHA-256 of the source file as of the last successful ingestion */
+  fileHash: string | null;
+  fileSize: number | null;
+}
+
+// ============================================================================
+// Chunk Diffing (Incremental Re-ingestion)
+// ============================================================================
+
+/**
+ * Chunk-level difference between a document's current and stored chunks
+ */
+export interface ChunkDiff {
+  /** Current chunks matching a stored chunk (no re-embedding needed) */
+  unchanged: Array<{ index: number; stored: StoredChunk }>;
+  /** Indices of current chunks that must be embedded and stored */
+  added: number[];
+  /** Stored chunks no longer in the document */
+  removed: StoredChunk[];
+}
+
+/**
+ * Diff current chunk hashes against stored chunks.
+ * Repeated content is matched one-to-one, in document order.
+ *
+ * @param currentHashes - Content hash of each current chunk, in order
+ * @param stored - Chunks stored for the document
+ * @returns Chunk diff
+ */
+export function diffChunks(currentHashes: string[], stored: StoredChunk[]): ChunkDiff {
+  const storedByHash = new Map<string, StoredChunk[]>();
+  for (const chunk of [...stored].sort((a, b) => a.chunkIndex - b.chunkIndex)) {
+    const list = storedByHash.get(chunk.hash) ?? [];
+    list.push(chunk);
+    storedByHash.set(chunk.hash, list);
+  }
+
+  const unchanged: ChunkDiff['unchanged'] = [];
+  const added: number[] = [];
+
+  currentHashes.forEach((hash, index) => {
+    const match = storedByHash.get(hash)?.shift();
+    if (match) {
+      unchanged.push({ index, stored: match });
+    } else {
+      added.push(index);
+    }
+  });
+
+  const removed = [...storedByHash.values()].flat();
+
+  return { unchanged, added, removed };
 }
 
 // ============================================================================
@@ -192,6 +298,17 @@ export type PipelineProgressCallback = (progress: {
   percentage: number;
 }) => void;
 
+/**
+ * Options for processing a job
+ */
+export interface ProcessJobOptions {
+  /**
+   * Aborts processing between stages (e.g. when a worker loses its lease).
+   * An aborted job is left as-is for whoever holds the lease next.
+   */
+  signal?: AbortSignal;
+}
+
 /**
  * Result of a pipeline run
  */
@@ -203,6 +320,14 @@ export interface PipelineResult {
   tripleCount: number;
   duration: number;
   error?: string;
+  /** Chunk-level changes applied (absent when resuming after storage) */
+  diff?: {
+    added: number;
+    removed: number;
+    unchanged: number;
+  };
+  /** True when the source file was unchanged and nothing was re-ingested */
+  skipped?: boolean;
 }
 
 // ============================================================================
@@ -221,6 +346,8 @@ export interface DatabaseOperations {
     format: string;
     status: string;
     metadata: Record<string, unknown>;
+    fileHash?: string;
+    fileSize?: number;
   }): Promise<void>;
 
   insertJob(job: {
@@ -299,6 +426,17 @@ export class IngestionPipeline {
     this.db = db;
   }
 
+  /**
+   * Set the tracker for versioned embedding collections. New chunks are
+   * embedded for the active version and dual-written to shadow versions.
+   *
+   * @param tracker - Version tracker, or null for the configured collection
+   */
+  setEmbeddingVersions(tracker: EmbeddingVersionTracker | null): void {
+    this.embedder.setVersionTracker(tracker);
+    this.storage.setVersionTracker(tracker);
+  }
+
   /**
    * Start ingestion of a document
    *
@@ -321,9 +459,11 @@ export class IngestionPipeline {
       id: documentId,
       url: request.documentUrl,
       title: request.title || this.extractTitleFromUrl(request.documentUrl),
-      format: request.format || this.detectFormat(request.documentUrl),
+      format: request.format || detectFormat(request.documentUrl),
       status: 'pending',
       metadata: request.metadata || {},
+      fileHash: request.fileHash,
+      fileSize: request.fileSize,
     });
 
     // Create job record
@@ -341,6 +481,51 @@ export class IngestionPipeline {
     };
   }
 
+  /**
+   * Re-ingest an existing document
+   *
+   * Queues a job for the document; when processed, only chunks whose
+   * content changed are embedded, stored and sent for triple extraction,
+   * and chunks no longer present are retired.
+   *
+   * @param documentId - Existing document ID
+   * @param request - Ingestion request (title and format updates are applied)
+   * @returns Ingestion response with job and document IDs
+   */
+  async startReingestion(documentId: string, request: IngestRequest): Promise<IngestResponse> {
+    if (!this.db) {
+      throw new Error('Database not configured. Call setDatabase() first.');
+    }
+
+    const document = await this.db.getDocument(documentId);
+    if (!document) {
+      throw new Error(`Document ${documentId} not found`);
+    }
+
+    const jobId = crypto.randomUUID();
+
+    // Active documents stay active (and searchable) while re-ingesting
+    await this.db.updateDocument(documentId, {
+      ...(document.status === 'active' ? {} : { status: 'pending' as const }),
+      errorMessage: null,
+      ...(request.title ? { title: request.title } : {}),
+      ...(request.format ? { format: request.format } : {}),
+    });
+
+    await this.db.insertJob({
+      id: jobId,
+      documentId,
+      status: 'queued',
+      progress: 0,
+    });
+
+    return {
+      jobId,
+      documentId,
+      status: 'queued',
+    };
+  }
+
   /**
    * Get job status
    *
@@ -369,120 +554,268 @@ export class IngestionPipeline {
   /**
    * Process an ingestion job
    *
-   * Runs the full ingestion pipeline for a queued job.
+   * Runs the ingestion pipeline for a queued job, resuming after the
+   * job's last completed stage if it was interrupted.
    *
    * @param jobId - Job ID to process
    * @param onProgress - Optional progress callback
+   * @param options - Processing options
    * @returns Pipeline result
+   * @throws Error if the job does not exist or processing was aborted
    */
   async processJob(
     jobId: string,
-    onProgress?: PipelineProgressCallback
+    onProgress?: PipelineProgressCallback,
+    options: ProcessJobOptions = {}
   ): Promise<PipelineResult> {
+    if (!this.db) {
+      throw new Error('Database not configured. Call setDatabase() first.');
+    }
+
     const startTime = Date.now();
+    const { signal } = options;
+    const tracer = getTracer();
 
     // Get job and document info
-    const job = await this.getJobStatus(jobId);
+    const job = await this.db.getJob(jobId);
     if (!job) {
       throw new Error(`Job ${jobId} not found`);
     }
 
     const { documentId } = job;
+    const plan = planResume(job.completedStage);
+    tracer.activeSpan()?.setAttributes({
+      'ingestion.job_id': jobId,
+      'ingestion.document_id': documentId,
+      'ingestion.resume_from': job.completedStage ?? undefined,
+    });
     let status: DocumentStatus = 'pending';
     let chunkCount = 0;
     let tripleCount = 0;
+    let diff: PipelineResult['diff'];
     let error: string | undefined;
+    let previous: DocumentRecord | null = null;
 
     try {
       // Stage 1: Parse document
       await this.updateJobStatus(jobId, 'chunking', 'Parsing document...', 0);
       onProgress?.({ stage: 'parsing', message: 'Parsing document...', percentage: 5 });
 
-      const document = await this.fetchAndParseDocument(job.documentId, jobId);
+      previous = await this.db.getDocument(documentId);
+      const document = await tracer.withSpan('ingestion.parse', async (span) => {
+        const parsed = await this.fetchAndParseDocument(job.documentId, jobId);
+        span.setAttributes({
+          'ingestion.format': parsed.format,
+          'ingestion.content_length': parsed.content.length,
+        });
+        return parsed;
+      });
+      const source = await this.hashSourceFile(document.url);
+
+      // Unchanged file: nothing to re-ingest
+      if (
+        plan.store &&
+        source.fileHash !== null &&
+        previous?.fileHash === source.fileHash &&
+        previous.chunkCount > 0
+      ) {
+        await this.updateJobStatus(jobId, 'complete', 'Document unchanged', 100);
+        await this.updateDocumentStatus(documentId, 'active', previous.chunkCount, undefined, source);
+
+        return {
+          documentId,
+          jobId,
+          status: 'active',
+          chunkCount: previous.chunkCount,
+          tripleCount: 0,
+          duration: Date.now() - startTime,
+          skipped: true,
+        };
+      }
 
       // Stage 2: Chunk document
       onProgress?.({ stage: 'chunking', message: 'Chunking content...', percentage: 15 });
 
-      const chunks = this.chunker.chunk(document.content, {
-        documentId,
-        documentTitle: document.title,
-        documentUrl: document.url,
+      const chunks = await tracer.withSpan('ingestion.chunk', (span) => {
+        const created = this.chunker.chunk(document.content, {
+          documentId,
+          documentTitle: document.title,
+          documentUrl: document.url,
+        });
+        span.setAttribute('ingestion.chunk_count', created.length);
+        return created;
       });
 
+      // Problem packages: type each chunk by its canonical section
+      if (document.format === 'problem') {
+        for (const chunk of chunks) {
+          chunk.metadata.sectionType = problemSectionType(chunk.metadata.sectionHeader);
+        }
+      }
+
       chunkCount = chunks.length;
       await this.updateJobProgress(jobId, 'chunking', 25, chunkCount);
+      signal?.throwIfAborted();
 
-      // Stage 3: Embed chunks
-      await this.updateJobStatus(jobId, 'embedding', 'Generating embeddings...', 30);
-      onProgress?.({ stage: 'embedding', message: 'Generating embeddings...', percentage: 30 });
+      let extractionTargets: EmbeddedChunk[];
 
-      const embedResult = await this.embedder.embedChunks(chunks, (p) => {
-        const percentage = 30 + (p.completed / p.total) * 30;
-        onProgress?.({
-          stage: 'embedding',
-          message: `Embedding chunk ${p.completed}/${p.total}`,
-          percentage,
+      if (plan.store) {
+        // Diff against what is already stored (previous ingestion, or a
+        // previous attempt of this job) so only changed chunks are embedded
+        const stored = await this.storage.getStoredChunks(document.url, documentId);
+        const chunkDiff = diffChunks(
+          chunks.map((c) => hashChunkContent(c.content)),
+          stored.chunks
+        );
+        diff = {
+          added: chunkDiff.added.length,
+          removed: chunkDiff.removed.length,
+          unchanged: chunkDiff.unchanged.length,
+        };
+
+        // Stage 3: Embed changed chunks. Removed chunks stay searchable
+        // until their replacements are stored.
+        const changedChunks = chunkDiff.added.map((i) => chunks[i]);
+        const embedMessage = chunkDiff.unchanged.length > 0
+          ? `Generating embeddings for ${changedChunks.length} changed chunks (${chunkDiff.unchanged.length} unchanged)...`
+          : 'Generating embeddings...';
+        await this.updateJobStatus(jobId, 'embedding', embedMessage, 30);
+        onProgress?.({ stage: 'embedding', message: embedMessage, percentage: 30 });
+
+        const embedResult = await tracer.withSpan('ingestion.embed', async (span) => {
+          const embedded = await this.embedder.embedChunks(changedChunks, (p) => {
+            const percentage = 30 + (p.completed / p.total) * 30;
+            onProgress?.({
+              stage: 'embedding',
+              message: `Embedding chunk ${p.completed}/${p.total}`,
+              percentage,
+            });
+            this.updateJobProgress(jobId, 'embedding', Math.floor(percentage), chunkCount, p.completed);
+          });
+          span.setAttributes({
+            'ingestion.chunk_count': changedChunks.length,
+            'ingestion.failed_count': embedded.failed.length,
+          });
+          return embedded;
         });
-        this.updateJobProgress(jobId, 'embedding', Math.floor(percentage), chunkCount, p.completed);
-      });
-
-      if (embedResult.failed.length > 0) {
-        console.warn(`${embedResult.failed.length} chunks failed to embed`);
-      }
 
-      // Stage 4: Store in databases
-      await this.updateJobStatus(jobId, 'extracting', 'Storing chunks...', 60);
-      onProgress?.({ stage: 'storing', message: 'Storing in databases...', percentage: 60 });
-
-      const storageResult = await this.storage.storeChunks(
-        embedResult.embeddings,
-        document.url,
-        (p) => {
-          const percentage = 60 + (p.completed / p.total) * 15;
-          onProgress?.({
-            stage: 'storing',
-            message: `Storing in ${p.phase}...`,
-            percentage,
+        if (embedResult.failed.length > 0) {
+          throw new Error(`${embedResult.failed.length} of ${changedChunks.length} chunks failed to embed`);
+        }
+        signal?.throwIfAborted();
+
+        // Stage 4: Store in databases
+        await this.updateJobStatus(jobId, 'extracting', 'Storing chunks...', 60);
+        onProgress?.({ stage: 'storing', message: 'Storing in databases...', percentage: 60 });
+
+        const storageResult = await tracer.withSpan('ingestion.store', async (span) => {
+          const stored = await this.storage.storeChunks(
+            embedResult.embeddings,
+            document.url,
+            (p) => {
+              const percentage = 60 + (p.completed / p.total) * 15;
+              onProgress?.({
+                stage: 'storing',
+                message: `Storing in ${p.phase}...`,
+                percentage,
+              });
+            }
+          );
+          span.setAttributes({
+            'ingestion.chunk_count': embedResult.embeddings.length,
+            'ingestion.error_count': stored.errors.length,
           });
+          return stored;
+        });
+
+        if (storageResult.errors.length > 0) {
+          // Roll back this attempt's chunks; the previous ones are untouched
+          await this.storage
+            .retireChunks(embedResult.embeddings.map((c) => c.id))
+            .catch((rollbackError) => console.error('Failed to roll back stored chunks:', rollbackError));
+          throw new Error(`Storage failed: ${storageResult.errors.join('; ')}`);
         }
-      );
+        signal?.throwIfAborted();
+
+        // Renumber kept chunks around the inserted/removed ones
+        await this.reorderStoredChunks(document.url, chunks, chunkDiff, embedResult.embeddings);
+
+        // Retire removed chunks (and leftovers of interrupted stores) only
+        // once their replacements are stored
+        await this.storage.retireChunks(
+          [...chunkDiff.removed.map((c) => c.chunkId), ...stored.orphanChunkIds],
+          stored.orphanMilvusIds
+        );
 
-      if (storageResult.errors.length > 0) {
-        console.warn('Storage errors:', storageResult.errors);
+        extractionTargets = embedResult.embeddings;
+        await this.markStageComplete(jobId, 'stored');
+      } else {
+        await this.updateJobStatus(jobId, 'extracting', 'Resuming after stored chunks...', 75);
+        extractionTargets = await this.loadUnextractedChunks(chunks, document.url, documentId);
       }
+      signal?.throwIfAborted();
 
       // Stage 5: Extract triples (optional)
-      if (this.config.extractTriples) {
+      if (this.config.extractTriples && plan.extract) {
         onProgress?.({ stage: 'extracting', message: 'Extracting knowledge triples...', percentage: 75 });
 
-        const extractResult = await this.extractor.extractFromChunks(
-          embedResult.embeddings,
-          (p) => {
-            const percentage = 75 + (p.completed / p.total) * 20;
-            onProgress?.({
-              stage: 'extracting',
-              message: `Extracting triples: ${p.triplesExtracted} found`,
-              percentage,
-            });
-          }
-        );
+        tripleCount = await tracer.withSpan('ingestion.extract', async (span) => {
+          const extractResult = await this.extractor.extractFromChunks(
+            extractionTargets,
+            (p) => {
+              const percentage = 75 + (p.completed / p.total) * 20;
+              onProgress?.({
+                stage: 'extracting',
+                message: `Extracting triples: ${p.triplesExtracted} found`,
+                percentage,
+              });
+            }
+          );
+          signal?.throwIfAborted();
+
+          // Store triples
+          const stored = await this.tripleStorage.storeTriples(extractResult.triples);
+          span.setAttributes({
+            'ingestion.chunk_count': extractionTargets.length,
+            'ingestion.triple_count': stored,
+          });
+          return stored;
+        });
+        await this.storage.getNeo4jStorage().markExtracted(extractionTargets.map((c) => c.id));
+        await this.markStageComplete(jobId, 'extracted');
+      }
 
-        // Store triples
-        tripleCount = await this.tripleStorage.storeTriples(extractResult.triples);
+      // Stage 6: Link problem packages to their sections and concepts
+      if (document.format === 'problem') {
+        await tracer.withSpan('ingestion.link', () =>
+          this.storage
+            .getNeo4jStorage()
+            .upsertProblem(document.url, document.metadata.problem as ProblemInfo)
+        );
       }
 
       // Mark as complete
       status = 'active';
       await this.updateJobStatus(jobId, 'complete', 'Ingestion complete', 100);
-      await this.updateDocumentStatus(documentId, 'active', chunkCount);
+      await this.updateDocumentStatus(documentId, 'active', chunkCount, undefined, source);
 
       onProgress?.({ stage: 'extracting', message: 'Complete!', percentage: 100 });
 
     } catch (err) {
+      // Leave aborted jobs to the next lease holder
+      if (signal?.aborted) {
+        throw err;
+      }
+
       status = 'failed';
       error = err instanceof Error ? err.message : String(err);
       await this.updateJobStatus(jobId, 'failed', error, -1);
-      await this.updateDocumentStatus(documentId, 'failed', 0, error);
+
+      // A failed re-ingest leaves the previous chunks searchable, so the
+      // document keeps its status and chunk count; the error is on the job
+      if (previous?.status !== 'active') {
+        await this.updateDocumentStatus(documentId, 'failed', 0, error);
+      }
     }
 
     return {
@@ -493,6 +826,7 @@ export class IngestionPipeline {
       tripleCount,
       duration: Date.now() - startTime,
       error,
+      diff,
     };
   }
 
@@ -667,7 +1001,96 @@ export class IngestionPipeline {
     }
 
     // Parse the document
-    return await parseDocument(doc.url, doc.format as 'markdown' | 'pdf' | 'text');
+    return await parseDocument(doc.url, doc.format as DocumentFormat);
+  }
+
+  /**
+   * Hash the source file so unchanged documents can be skipped.
+   * Remote sources are not hashed; they are always diffed chunk by chunk.
+   */
+  private async hashSourceFile(
+    url: string
+  ): Promise<{ fileHash: string | null; fileSize: number | null }> {
+    if (/^https?:\/\//.test(url)) {
+      return { fileHash: null, fileSize: null };
+    }
+
+    try {
+      const bytes = await readFile(url);
+      return {
+        fileHash: createHash('sha256').update(bytes).digest('hex'),
+        fileSize: bytes.length,
+      };
+    } catch {
+      return { fileHash: null, fileSize: null };
+    }
+  }
+
+  /**
+   * Update stored chunk positions after a diff, rewriting Milvus metadata
+   * only for kept chunks whose index or document chunk count changed
+   */
+  private async reorderStoredChunks(
+    documentUrl: string,
+    chunks: Chunk[],
+    chunkDiff: ChunkDiff,
+    embeddings: EmbeddedChunk[]
+  ): Promise<void> {
+    if (chunkDiff.unchanged.length === 0 && chunkDiff.removed.length === 0) return;
+
+    const previousCount = chunkDiff.unchanged.length + chunkDiff.removed.length;
+
+    const kept: ChunkPosition[] = chunkDiff.unchanged.map(({ index, stored }) => ({
+      chunkId: stored.chunkId,
+      chunkIndex: chunks[index].index,
+      metadata: toChunkMetadata(chunks[index]),
+    }));
+    const created: ChunkPosition[] = embeddings.map((e) => ({
+      chunkId: e.id,
+      chunkIndex: e.metadata.chunkIndex,
+      metadata: e.metadata,
+    }));
+
+    const changed = kept.filter(
+      (position, i) =>
+        chunkDiff.unchanged[i].stored.chunkIndex !== position.chunkIndex ||
+        previousCount !== chunks.length
+    );
+
+    await this.storage.reorderChunks(documentUrl, [...kept, ...created], changed);
+  }
+
+  /**
+   * Rebuild stored chunks still awaiting triple extraction, for a job
+   * resumed after storage. Chunking is deterministic, so stored chunks
+   * are matched to current chunks by content hash.
+   */
+  private async loadUnextractedChunks(
+    chunks: Chunk[],
+    documentUrl: string,
+    documentId: string
+  ): Promise<EmbeddedChunk[]> {
+    const stored = await this.storage.getStoredChunks(documentUrl, documentId);
+    const { unchanged } = diffChunks(chunks.map((c) => hashChunkContent(c.content)), stored.chunks);
+
+    return unchanged
+      .filter(({ stored: s }) => !s.extracted)
+      .map(({ index, stored: s }) => ({
+        id: s.chunkId,
+        content: chunks[index].content,
+        // Embeddings are not needed after storage
+        embedding: [],
+        metadata: toChunkMetadata(chunks[index]),
+      }));
+  }
+
+  /**
+   * Record a durable checkpoint for a job
+   */
+  private async markStageComplete(jobId: string, stage: CompletedStage): Promise<void> {
+    if (!this.db) return;
+
+    await this.db.updateJob(jobId, { completedStage: stage });
   }
 
   /**
@@ -717,7 +1140,8 @@ export class IngestionPipeline {
     documentId: string,
     status: DocumentStatus,
     chunkCount: number,
-    errorMessage?: string
+    errorMessage?: string,
+    source?: Pick<DocumentRecord, 'fileHash' | 'fileSize'>
   ): Promise<void> {
     if (!this.db) return;
 
@@ -725,6 +1149,7 @@ export class IngestionPipeline {
       status,
       chunkCount,
       errorMessage: errorMessage ?? null,
+      ...source,
     });
   }
 
@@ -737,16 +1162,6 @@ export class IngestionPipeline {
     return filename.replace(/\.[^.]+$/, '').replace(/[-_]/g, ' ');
   }
 
-  /**
-   * Detect format from URL/path
-   */
-  private detectFormat(url: string): string {
-    const ext = url.split('.').pop()?.toLowerCase();
-    if (ext === 'md' || ext === 'markdown') return 'markdown';
-    if (ext === 'pdf') return 'pdf';
-    return 'text';
-  }
-
   /**
    * Get the chunker instance
    */
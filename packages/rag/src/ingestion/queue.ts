@@ -0,0 +1,292 @@
+/**
+ * Ingestion Job Queue Worker
+ *
+ * Runs queued ingestion jobs outside the request path. Jobs are leased
+ * from a durable queue; the worker heartbeats while a job runs so that a
+ * crashed worker's jobs are re-queued once their lease goes stale, and
+ * resumed by the next worker from their last completed stage.
+ *
+ * @module @jubilant/rag/ingestion/queue
+ */
+
+import { hostname } from 'os';
+import type { IngestionPipeline } from './pipeline';
+import { getTracer } from '../monitoring/tracing';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A job leased to a worker
+ */
+export interface JobLease {
+  jobId: string;
+  documentId: string;
+  /** Lease count including this one */
+  attempts: number;
+}
+
+/**
+ * Result of re-queueing stale leases
+ */
+export interface StaleLeaseResult {
+  /** Jobs put back on the queue */
+  requeued: number;
+  /** Jobs that ran out of attempts and were failed */
+  failed: number;
+}
+
+/**
+ * Durable job queue operations.
+ * Implementations must make claim() safe across concurrent workers.
+ */
+export interface IngestionJobQueue {
+  /** Lease the oldest available queued job, if any */
+  claim(workerId: string, leaseMs: number): Promise<JobLease | null>;
+  /** Extend a lease; returns false if the worker no longer holds it */
+  heartbeat(jobId: string, workerId: string, leaseMs: number): Promise<boolean>;
+  /** Give up a lease once the job has finished */
+  release(jobId: string, workerId: string): Promise<void>;
+  /** Put a failed job back on the queue after a delay */
+  retry(jobId: string, workerId: string, delayMs: number): Promise<void>;
+  /** Re-queue jobs whose lease expired, failing those out of attempts */
+  requeueStale(maxAttempts: number): Promise<StaleLeaseResult>;
+}
+
+/**
+ * Something that can run an ingestion job
+ */
+export type JobProcessor = Pick<IngestionPipeline, 'processJob'>;
+
+/**
+ * Configuration for IngestionWorker
+ */
+export interface IngestionWorkerConfig {
+  /** Identifies this worker in lease columns */
+  workerId: string;
+  /** Maximum jobs processed at once */
+  concurrency: number;
+  /** How often to look for new jobs */
+  pollIntervalMs: number;
+  /** How long a lease lasts without a heartbeat */
+  leaseMs: number;
+  /** How often to extend held leases (well under leaseMs) */
+  heartbeatIntervalMs: number;
+  /** How often to re-queue stale leases */
+  staleCheckIntervalMs: number;
+  /** Leases per job before it is failed for good */
+  maxAttempts: number;
+  /** Base delay before retrying a failed job (doubles per attempt) */
+  retryBaseDelayMs: number;
+}
+
+const DEFAULT_CONFIG: IngestionWorkerConfig = {
+  workerId: `${hostname()}-${process.pid}`,
+  concurrency: 2,
+  pollIntervalMs: 2000,
+  leaseMs: 120_000,
+  heartbeatIntervalMs: 30_000,
+  staleCheckIntervalMs: 60_000,
+  maxAttempts: 3,
+  retryBaseDelayMs: 30_000,
+};
+
+/**
+ * Delay before retrying a job that failed on the given attempt
+ */
+export function computeRetryDelay(attempts: number, baseDelayMs: number): number {
+  return baseDelayMs * 2 ** Math.max(0, attempts - 1);
+}
+
+// ============================================================================
+// Worker
+// ============================================================================
+
+/**
+ * IngestionWorker - Leases and processes ingestion jobs
+ */
+export class IngestionWorker {
+  private queue: IngestionJobQueue;
+  private processor: JobProcessor;
+  private config: IngestionWorkerConfig;
+
+  private running = false;
+  private polling = false;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private staleTimer: ReturnType<typeof setInterval> | null = null;
+  private inFlight = new Map<string, Promise<void>>();
+
+  constructor(
+    queue: IngestionJobQueue,
+    processor: JobProcessor,
+    config: Partial<IngestionWorkerConfig> = {}
+  ) {
+    this.queue = queue;
+    this.processor = processor;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Start polling for jobs
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    this.pollTimer = setInterval(() => void this.poll(), this.config.pollIntervalMs);
+    this.staleTimer = setInterval(
+      () => void this.requeueStale(),
+      this.config.staleCheckIntervalMs
+    );
+
+    void this.requeueStale().then(() => this.poll());
+  }
+
+  /**
+   * Stop taking new jobs and wait for in-flight jobs to finish.
+   * A job interrupted by process exit is resumed once its lease expires.
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    if (this.staleTimer) clearInterval(this.staleTimer);
+    this.pollTimer = null;
+    this.staleTimer = null;
+
+    await Promise.allSettled(this.inFlight.values());
+  }
+
+  /**
+   * Claim jobs until the worker is at capacity
+   *
+   * @returns Number of jobs claimed
+   */
+  async poll(): Promise<number> {
+    if (!this.running || this.polling) return 0;
+    this.polling = true;
+
+    let claimed = 0;
+    try {
+      while (this.running && this.inFlight.size < this.config.concurrency) {
+        const lease = await this.queue.claim(this.config.workerId, this.config.leaseMs);
+        if (!lease) break;
+
+        claimed++;
+        const run = this.runJob(lease).finally(() => {
+          this.inFlight.delete(lease.jobId);
+          void this.poll();
+        });
+        this.inFlight.set(lease.jobId, run);
+      }
+    } catch (error) {
+      console.error('Failed to claim ingestion job:', error);
+    } finally {
+      this.polling = false;
+    }
+
+    return claimed;
+  }
+
+  /**
+   * Re-queue jobs whose worker stopped heartbeating
+   */
+  async requeueStale(): Promise<StaleLeaseResult> {
+    try {
+      const result = await this.queue.requeueStale(this.config.maxAttempts);
+      if (result.requeued > 0 || result.failed > 0) {
+        console.warn(
+          `Recovered stale ingestion jobs: ${result.requeued} requeued, ${result.failed} failed`
+        );
+      }
+      return result;
+    } catch (error) {
+      console.error('Failed to requeue stale ingestion jobs:', error);
+      return { requeued: 0, failed: 0 };
+    }
+  }
+
+  /**
+   * Number of jobs currently being processed
+   */
+  get activeJobs(): number {
+    return this.inFlight.size;
+  }
+
+  /**
+   * Process a leased job, holding the lease with heartbeats
+   */
+  private async runJob(lease: JobLease): Promise<void> {
+    const { jobId } = lease;
+    const { workerId, leaseMs, heartbeatIntervalMs } = this.config;
+    const controller = new AbortController();
+
+    const heartbeat = setInterval(() => {
+      this.queue
+        .heartbeat(jobId, workerId, leaseMs)
+        .then((held) => {
+          if (!held) controller.abort(new Error(`Lease on job ${jobId} was lost`));
+        })
+        .catch((error) => console.error(`Heartbeat failed for job ${jobId}:`, error));
+    }, heartbeatIntervalMs);
+
+    try {
+      const result = await getTracer().withSpan(
+        'ingestion.job',
+        async (span) => {
+          const processed = await this.processor.processJob(jobId, undefined, {
+            signal: controller.signal,
+          });
+          span.setAttributes({
+            'ingestion.status': processed.status,
+            'ingestion.chunk_count': processed.chunkCount,
+            'ingestion.skipped': processed.skipped,
+          });
+          if (processed.status === 'failed') span.setStatus('error', processed.error);
+          return processed;
+        },
+        {
+          attributes: {
+            'ingestion.job_id': jobId,
+            'ingestion.attempt': lease.attempts,
+            'ingestion.worker_id': workerId,
+          },
+        }
+      );
+
+      if (result.status === 'failed' && lease.attempts < this.config.maxAttempts) {
+        const delayMs = computeRetryDelay(lease.attempts, this.config.retryBaseDelayMs);
+        console.warn(
+          `Ingestion job ${jobId} failed (attempt ${lease.attempts}/${this.config.maxAttempts}), ` +
+            `retrying in ${delayMs}ms: ${result.error}`
+        );
+        await this.queue.retry(jobId, workerId, delayMs);
+      } else {
+        await this.queue.release(jobId, workerId);
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        // Another worker owns the job now
+        console.warn(`Abandoned ingestion job ${jobId}:`, controller.signal.reason);
+        return;
+      }
+
+      console.error(`Ingestion job ${jobId} crashed:`, error);
+      await this.queue.release(jobId, workerId).catch(() => {});
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+}
+
+/**
+ * Create an IngestionWorker
+ */
+export function createIngestionWorker(
+  queue: IngestionJobQueue,
+  processor: JobProcessor,
+  config?: Partial<IngestionWorkerConfig>
+): IngestionWorker {
+  return new IngestionWorker(queue, processor, config);
+}
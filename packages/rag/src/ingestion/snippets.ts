@@ -0,0 +1,147 @@
+/**
+ * Code Snippets
+ *
+ * Extracts the code blocks of stored chunks as separate snippet records,
+ * so implementations can be searched and cited on their own:
+ * - Each block keeps its language and the text that introduces it
+ * - Sample I/O and plain text blocks, and one- or two-line fragments, are
+ *   not snippets
+ * - Identifiers are split into words for the lexical index, so "addEdge"
+ *   matches a search for "add edge"
+ *
+ * @module @jubilant/rag/ingestion/snippets
+ */
+
+import type { ChunkMetadata, CodeLanguage, EmbeddedChunk } from '../types';
+import { extractCodeBlocks } from './chunker';
+
+/**
+ * A code block of a chunk, as a snippet record
+ */
+export interface CodeSnippet {
+  /** Chunk ID and block position, e.g. "<chunk id>:1" */
+  id: string;
+  chunkId: string;
+  /** Position of the block among the chunk's code blocks */
+  snippetIndex: number;
+  language: CodeLanguage;
+  /** Code inside the fences */
+  code: string;
+  /** Section header and the paragraph before the block */
+  context: string;
+  /** Metadata of the chunk, with codeSnippet set */
+  metadata: ChunkMetadata;
+}
+
+/**
+ * Fewest lines a code block needs to be a snippet
+ */
+export const MIN_SNIPPET_LINES = 3;
+
+/**
+ * Longest introduction kept as snippet context
+ */
+const MAX_CONTEXT_LENGTH = 300;
+
+/**
+ * Keywords and type names left out of the identifier index
+ */
+const IDENTIFIER_STOPWORDS = new Set([
+  'int', 'long', 'char', 'bool', 'void', 'auto', 'const', 'double', 'float', 'string',
+  'for', 'while', 'if', 'else', 'return', 'break', 'continue', 'true', 'false', 'null',
+  'include', 'using', 'namespace', 'std', 'bits', 'stdc', 'main', 'def', 'self', 'in',
+  'range', 'len', 'print', 'public', 'private', 'static', 'class', 'new', 'import',
+  'let', 'var', 'func', 'fn', 'mut', 'none', 'and', 'or', 'not',
+]);
+
+/**
+ * Code block tag written for a snippet's language
+ */
+function fenceTag(language: CodeLanguage): string {
+  return language === 'other' ? '' : language;
+}
+
+/**
+ * Last paragraph of the text before a code block, without other
+ * blocks' code
+ */
+function introduction(before: string): string {
+  const paragraphs = before
+    .replace(/```[\s\S]*?```/g, '')
+    .split(/\n\s*\n/)
+    .map((p) => p.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+  const last = paragraphs[paragraphs.length - 1] ?? '';
+  return last.length > MAX_CONTEXT_LENGTH ? `${last.slice(0, MAX_CONTEXT_LENGTH).trimEnd()}...` : last;
+}
+
+/**
+ * Extract the code snippets of a chunk
+ *
+ * @param chunk - Stored chunk
+ * @returns Snippets of the chunk's code blocks
+ */
+export function extractCodeSnippets(chunk: EmbeddedChunk): CodeSnippet[] {
+  const { elements } = extractCodeBlocks(chunk.content);
+
+  return elements.flatMap((element, snippetIndex): CodeSnippet[] => {
+    const code = element.content.replace(/^```[^\n]*\n/, '').replace(/\n```$/, '');
+    if (!element.language || code.trim().split('\n').length < MIN_SNIPPET_LINES) {
+      return [];
+    }
+
+    const id = `${chunk.id}:${snippetIndex}`;
+    const context = [chunk.metadata.sectionHeader, introduction(chunk.content.slice(0, element.startIndex))]
+      .filter(Boolean)
+      .join('\n');
+
+    return [{
+      id,
+      chunkId: chunk.id,
+      snippetIndex,
+      language: element.language,
+      code,
+      context,
+      metadata: {
+        ...chunk.metadata,
+        codeLanguages: [element.language],
+        codeSnippet: { id, chunkId: chunk.id, snippetIndex, language: element.language },
+      },
+    }];
+  });
+}
+
+/**
+ * Snippet content as stored, embedded and shown to the LLM: its context
+ * followed by the fenced code
+ */
+export function formatSnippet(snippet: Pick<CodeSnippet, 'language' | 'code' | 'context'>): string {
+  const block = `\`\`\`${fenceTag(snippet.language)}\n${snippet.code}\n\`\`\``;
+  return snippet.context ? `${snippet.context}\n\n${block}` : block;
+}
+
+/**
+ * Words of the identifiers in code, for lexical search: camelCase and
+ * snake_case names are split, keywords are dropped
+ *
+ * @param code - Source code
+ * @returns Distinct lowercase words, space separated
+ */
+export function splitIdentifiers(code: string): string {
+  const words = new Set<string>();
+
+  for (const identifier of code.match(/[A-Za-z_][A-Za-z0-9_]*/g) ?? []) {
+    const parts = identifier
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(/[\s_]+/);
+    for (const part of [identifier, ...parts]) {
+      const word = part.toLowerCase();
+      if (word.length >= 2 && !IDENTIFIER_STOPWORDS.has(word)) {
+        words.add(word);
+      }
+    }
+  }
+
+  return [...words].join(' ');
+}
@@ -4,12 +4,22 @@
  * Implements storage of embedded chunks to Milvus (vector store)
  * and Neo4j (graph store) with cross-store consistency.
  *
+ * The code blocks of stored chunks are also indexed as snippet records:
+ * vectors in their own Milvus collection, and CodeSnippet nodes (with a
+ * fulltext index) linked to their chunk in Neo4j. Snippets are retired
+ * with their chunk.
+ *
  * @module @jubilant/rag/ingestion/storage
  */
 
+import { createHash } from 'crypto';
 import type { MilvusClient } from '@zilliz/milvus2-sdk-node';
 import type { Driver, Session } from 'neo4j-driver';
 import type { EmbeddedChunk, ChunkMetadata } from '../types';
+import { createEmbedder, type Qwen3Embedding } from '../generation/embedder';
+import type { EmbeddingVersionTracker } from '../retrieval/versions';
+import type { ProblemInfo } from './parsers';
+import { extractCodeSnippets, formatSnippet, splitIdentifiers } from './snippets';
 
 /**
  * Configuration for chunk storage
@@ -21,12 +31,18 @@ export interface StorageConfig {
   milvusBatchSize: number;
   /** Batch size for Neo4j operations */
   neo4jBatchSize: number;
+  /** Milvus collection of code snippet vectors */
+  snippetCollectionName: string;
+  /** Whether to index chunks' code blocks as snippet records */
+  indexCodeSnippets: boolean;
 }
 
 const DEFAULT_CONFIG: StorageConfig = {
   collectionName: 'knowledge_chunks',
   milvusBatchSize: 100,
   neo4jBatchSize: 50,
+  snippetCollectionName: 'code_snippets',
+  indexCodeSnippets: true,
 };
 
 /**
@@ -35,10 +51,94 @@ const DEFAULT_CONFIG: StorageConfig = {
 export interface StorageResult {
   milvusInserted: number;
   neo4jCreated: number;
+  snippetsIndexed: number;
   errors: string[];
   duration: number;
 }
 
+/**
+ * A chunk already stored for a document (from Neo4j)
+ */
+export interface StoredChunk {
+  chunkId: string;
+  /** Content hash (unique via chunk_hash_unique) */
+  hash: string;
+  chunkIndex: number;
+  /** Whether triples have been extracted from the chunk */
+  extracted: boolean;
+}
+
+/**
+ * Stored chunks for a document, reconciled across both stores
+ */
+export interface StoredChunkSet {
+  /** Chunks present in both Milvus and Neo4j */
+  chunks: StoredChunk[];
+  /** Neo4j chunks with no Milvus vector (e.g. from an interrupted store) */
+  orphanChunkIds: string[];
+  /** Milvus rows with no Neo4j chunk node */
+  orphanMilvusIds: number[];
+}
+
+/**
+ * New position of a stored chunk after re-ingestion
+ */
+export interface ChunkPosition {
+  chunkId: string;
+  chunkIndex: number;
+  metadata: ChunkMetadata;
+}
+
+/**
+ * A chunk node as listed for document inspection
+ */
+export interface DocumentChunkSummary {
+  chunkId: string;
+  chunkIndex: number;
+  preview: string;
+  tokenCount: number;
+  hasCode: boolean;
+  hasFormula: boolean;
+  hasTable: boolean;
+}
+
+/**
+ * A knowledge triple sourced from one of a document's chunks
+ */
+export interface DocumentTriple {
+  subject: string;
+  predicate: string;
+  object: string;
+  confidence: number;
+  sourceChunkId: string;
+}
+
+/**
+ * Maximum rows fetched per Milvus query
+ */
+const MILVUS_QUERY_LIMIT = 16384;
+
+/**
+ * Hash chunk content for deduplication and change detection
+ *
+ * @param content - Chunk content
+ * @returns 16-character hex hash
+ */
+export function hashChunkContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex').slice(0, 16);
+}
+
+/**
+ * Derive the Milvus primary key from a chunk UUID.
+ * Uses the first 13 hex characters (52 bits) so it fits in a JavaScript
+ * Number (MAX_SAFE_INTEGER is 53 bits), avoiding BigInt serialization
+ * issues with the Milvus SDK while maintaining collision resistance.
+ */
+export function toMilvusChunkId(chunkId: string): number {
+  const hash = createHash('sha256').update(chunkId).digest('hex');
+  return parseInt(hash.slice(0, 13), 16);
+}
+
 /**
  * Progress callback for storage operations
  */
@@ -52,18 +152,42 @@ export type StorageProgressCallback = (progress: {
 // Milvus Chunk Insertion (T056)
 // ============================================================================
 
+/**
+ * A Milvus collection chunks are written to
+ */
+interface StorageTarget {
+  /** Embedding version, or null for the unversioned collection */
+  version: number | null;
+  collectionName: string;
+  /** Embedder for chunks embedded for a different version */
+  embedder?: Qwen3Embedding;
+}
+
 /**
  * MilvusChunkStorage - Vector store for chunk embeddings
+ *
+ * With a version tracker, writes go to the active collection and are
+ * mirrored to shadow collections still being built, so a shadow does not
+ * miss documents ingested during its backfill. Shadow failures are logged
+ * rather than failing the ingestion.
  */
 export class MilvusChunkStorage {
   private client: MilvusClient;
   private config: StorageConfig;
+  private versionTracker: EmbeddingVersionTracker | null = null;
 
   constructor(client: MilvusClient, config: Partial<StorageConfig> = {}) {
     this.client = client;
     this.config = { ...DEFAULT_CONFIG, ...config };
   }
 
+  /**
+   * Set the tracker for versioned embedding collections
+   */
+  setVersionTracker(tracker: EmbeddingVersionTracker | null): void {
+    this.versionTracker = tracker;
+  }
+
   /**
    * Insert embedded chunks into Milvus
    *
@@ -77,31 +201,155 @@ export class MilvusChunkStorage {
   ): Promise<number> {
     if (chunks.length === 0) return 0;
 
+    const { active, shadows } = await this.resolveTargets();
+    const inserted = await this.insertInto(active, chunks, onProgress);
+
+    await this.forEachShadow(shadows, 'insert chunks into', (shadow) =>
+      this.insertInto(shadow, chunks)
+    );
+
+    return inserted;
+  }
+
+  /**
+   * Delete chunks by document ID
+   *
+   * @param documentId - Document ID to delete chunks for
+   * @returns Number of chunks deleted
+   */
+  async deleteByDocumentId(documentId: string): Promise<number> {
+    const { active, shadows } = await this.resolveTargets();
+    const filter = `metadata["documentId"] == "${documentId}"`;
+    const deleted = await this.deleteWhere(active.collectionName, filter);
+
+    await this.forEachShadow(shadows, 'delete chunks from', (shadow) =>
+      this.deleteWhere(shadow.collectionName, filter)
+    );
+
+    return deleted;
+  }
+
+  /**
+   * List the Milvus IDs of a document's chunks in the active collection
+   *
+   * @param documentId - Document ID
+   * @returns Milvus primary keys
+   */
+  async listChunkIds(documentId: string): Promise<number[]> {
+    const { active } = await this.resolveTargets();
+    return this.listChunkIdsIn(active.collectionName, documentId);
+  }
+
+  /**
+   * Delete chunks by Milvus ID
+   *
+   * @param ids - Milvus primary keys
+   * @returns Number of chunks deleted
+   */
+  async deleteByIds(ids: number[]): Promise<number> {
+    if (ids.length === 0) return 0;
+
+    const { active, shadows } = await this.resolveTargets();
+    const filter = `chunk_id in [${ids.join(', ')}]`;
+    const deleted = await this.deleteWhere(active.collectionName, filter);
+
+    await this.forEachShadow(shadows, 'delete chunks from', (shadow) =>
+      this.deleteWhere(shadow.collectionName, filter)
+    );
+
+    return deleted;
+  }
+
+  /**
+   * Rewrite stored metadata for existing chunks without re-embedding.
+   * Vectors are read back and upserted with the new metadata.
+   *
+   * @param positions - Chunks and their new metadata
+   * @returns Number of chunks updated
+   */
+  async updateMetadata(positions: ChunkPosition[]): Promise<number> {
+    const { active, shadows } = await this.resolveTargets();
+    const updated = await this.updateMetadataIn(active.collectionName, positions);
+
+    await this.forEachShadow(shadows, 'update metadata in', (shadow) =>
+      this.updateMetadataIn(shadow.collectionName, positions)
+    );
+
+    return updated;
+  }
+
+  /**
+   * Flag a document's chunks as archived (or restore them).
+   * Retrieval skips chunks whose metadata has archived set.
+   *
+   * @param documentId - Document ID
+   * @param archived - Whether the document is archived
+   * @returns Number of chunks updated
+   */
+  async setArchived(documentId: string, archived: boolean): Promise<number> {
+    const { active, shadows } = await this.resolveTargets();
+    const updated = await this.setArchivedIn(active.collectionName, documentId, archived);
+
+    await this.forEachShadow(shadows, 'archive chunks in', (shadow) =>
+      this.setArchivedIn(shadow.collectionName, documentId, archived)
+    );
+
+    return updated;
+  }
+
+  /**
+   * Collections to write to: the configured one, or the tracked active
+   * version and its shadows
+   */
+  private async resolveTargets(): Promise<{ active: StorageTarget; shadows: StorageTarget[] }> {
+    if (!this.versionTracker) {
+      return { active: { version: null, collectionName: this.config.collectionName }, shadows: [] };
+    }
+    return this.versionTracker.resolve();
+  }
+
+  /**
+   * Apply a write to each shadow collection, logging failures
+   */
+  private async forEachShadow(
+    shadows: StorageTarget[],
+    action: string,
+    write: (shadow: StorageTarget) => Promise<unknown>
+  ): Promise<void> {
+    for (const shadow of shadows) {
+      try {
+        await write(shadow);
+      } catch (error) {
+        console.warn(
+          `Failed to ${action} shadow collection ${shadow.collectionName}:`,
+          error instanceof Error ? error.message : error
+        );
+      }
+    }
+  }
+
+  private async insertInto(
+    target: StorageTarget,
+    chunks: EmbeddedChunk[],
+    onProgress?: (completed: number, total: number) => void
+  ): Promise<number> {
     let inserted = 0;
 
     // Process in batches
     for (let i = 0; i < chunks.length; i += this.config.milvusBatchSize) {
       const batch = chunks.slice(i, i + this.config.milvusBatchSize);
+      const vectors = await this.vectorsFor(target, batch);
 
-      const data = batch.map((chunk) => {
-        // Generate a unique ID from the chunk UUID
-        // We use the first 13 hex characters (52 bits) to ensure it fits in a JavaScript Number (MAX_SAFE_INTEGER is 53 bits)
-        // This avoids BigInt serialization issues with the Milvus SDK while maintaining collision resistance
-        const crypto = require('crypto');
-        const hash = crypto.createHash('sha256').update(chunk.id).digest('hex');
-        const chunkId = parseInt(hash.slice(0, 13), 16);
-
-        return {
-          chunk_id: chunkId,
-          vector: chunk.embedding,
-          content_text: chunk.content,
-          metadata: JSON.stringify(chunk.metadata),
-          topic_tag: this.extractTopicTag(chunk.metadata),
-        };
-      });
+      const data = batch.map((chunk, j) => ({
+        chunk_id: toMilvusChunkId(chunk.id),
+        vector: vectors[j],
+        content_text: chunk.content,
+        metadata: JSON.stringify(chunk.metadata),
+        topic_tag: this.extractTopicTag(chunk.metadata),
+      }));
 
       await this.client.insert({
-        collection_name: this.config.collectionName,
+        collection_name: target.collectionName,
         data,
       });
 
@@ -114,28 +362,120 @@ export class MilvusChunkStorage {
 
     // Flush to ensure data is persisted
     await this.client.flush({
-      collection_names: [this.config.collectionName],
+      collection_names: [target.collectionName],
     });
 
     return inserted;
   }
 
   /**
-   * Delete chunks by document ID
-   *
-   * @param documentId - Document ID to delete chunks for
-   * @returns Number of chunks deleted
+   * Vectors of a batch for a target, re-embedding chunks that were
+   * embedded for another version's model
    */
-  async deleteByDocumentId(documentId: string): Promise<number> {
-    const result = await this.client.delete({
-      collection_name: this.config.collectionName,
-      filter: `metadata["documentId"] == "${documentId}"`,
-    });
+  private async vectorsFor(target: StorageTarget, batch: EmbeddedChunk[]): Promise<number[][]> {
+    if (batch.every((chunk) => (chunk.embeddingVersion ?? null) === target.version)) {
+      return batch.map((chunk) => chunk.embedding);
+    }
+    if (!target.embedder) {
+      throw new Error(`Chunks were embedded for another version than collection ${target.collectionName}`);
+    }
+    return target.embedder.getTextEmbeddings(batch.map((chunk) => chunk.content));
+  }
+
+  private async deleteWhere(collectionName: string, filter: string): Promise<number> {
+    const result = await this.client.delete({ collection_name: collectionName, filter });
 
     const deleteCount = (result as unknown as { delete_cnt?: number | string }).delete_cnt;
     return typeof deleteCount === 'number' ? deleteCount : parseInt(String(deleteCount || '0'), 10);
   }
 
+  private async listChunkIdsIn(collectionName: string, documentId: string): Promise<number[]> {
+    const result = await this.client.query({
+      collection_name: collectionName,
+      filter: `metadata["documentId"] == "${documentId}"`,
+      output_fields: ['chunk_id'],
+      limit: MILVUS_QUERY_LIMIT,
+    });
+
+    return result.data.map((row) => Number(row.chunk_id));
+  }
+
+  private async updateMetadataIn(collectionName: string, positions: ChunkPosition[]): Promise<number> {
+    let updated = 0;
+
+    for (let i = 0; i < positions.length; i += this.config.milvusBatchSize) {
+      const batch = positions.slice(i, i + this.config.milvusBatchSize);
+      const byMilvusId = new Map(batch.map((p) => [toMilvusChunkId(p.chunkId), p]));
+
+      const existing = await this.client.query({
+        collection_name: collectionName,
+        filter: `chunk_id in [${[...byMilvusId.keys()].join(', ')}]`,
+        output_fields: ['chunk_id', 'vector', 'content_text'],
+        limit: batch.length,
+      });
+
+      const data = existing.data.flatMap((row) => {
+        const position = byMilvusId.get(Number(row.chunk_id));
+        if (!position) return [];
+        return [{
+          chunk_id: Number(row.chunk_id),
+          vector: row.vector as number[],
+          content_text: row.content_text as string,
+          metadata: JSON.stringify(position.metadata),
+          topic_tag: this.extractTopicTag(position.metadata),
+        }];
+      });
+
+      if (data.length > 0) {
+        await this.client.upsert({ collection_name: collectionName, data });
+        updated += data.length;
+      }
+    }
+
+    return updated;
+  }
+
+  private async setArchivedIn(
+    collectionName: string,
+    documentId: string,
+    archived: boolean
+  ): Promise<number> {
+    const ids = await this.listChunkIdsIn(collectionName, documentId);
+    let updated = 0;
+
+    for (let i = 0; i < ids.length; i += this.config.milvusBatchSize) {
+      const batch = ids.slice(i, i + this.config.milvusBatchSize);
+
+      const existing = await this.client.query({
+        collection_name: collectionName,
+        filter: `chunk_id in [${batch.join(', ')}]`,
+        output_fields: ['chunk_id', 'vector', 'content_text', 'metadata', 'topic_tag'],
+        limit: batch.length,
+      });
+
+      const data = existing.data.map((row) => {
+        const metadata = (
+          typeof row.metadata === 'string' ? JSON.parse(row.metadata) : row.metadata
+        ) as ChunkMetadata;
+
+        return {
+          chunk_id: Number(row.chunk_id),
+          vector: row.vector as number[],
+          content_text: row.content_text as string,
+          metadata: JSON.stringify({ ...metadata, archived }),
+          topic_tag: row.topic_tag as string,
+        };
+      });
+
+      if (data.length > 0) {
+        await this.client.upsert({ collection_name: collectionName, data });
+        updated += data.length;
+      }
+    }
+
+    return updated;
+  }
+
   /**
    * Extract topic tag from metadata
    */
@@ -214,13 +554,18 @@ export class Neo4jChunkStorage {
         // Prepare batch data
         const chunkData = batch.map((chunk, idx) => ({
           chunkId: chunk.id,
-          contentHash: this.hashContent(chunk.content),
+          contentHash: hashChunkContent(chunk.content),
           preview: chunk.content.slice(0, 200),
           tokenCount: chunk.metadata.tokenCount,
           hasCode: chunk.metadata.hasCode,
           hasFormula: chunk.metadata.hasFormula,
           hasTable: chunk.metadata.hasTable,
-          chunkIndex: i + idx,
+          chunkIndex: chunk.metadata.chunkIndex ?? i + idx,
+          sectionType: chunk.metadata.sectionType ?? null,
+          pageStart: chunk.metadata.pageStart ?? null,
+          pageEnd: chunk.metadata.pageEnd ?? null,
+          ocrConfidence: chunk.metadata.ocrConfidence ?? null,
+          codeLanguages: chunk.metadata.codeLanguages ?? null,
         }));
 
         // Create chunk nodes
@@ -234,7 +579,13 @@ export class Neo4jChunkStorage {
               c.hasCode = chunk.hasCode,
               c.hasFormula = chunk.hasFormula,
               c.hasTable = chunk.hasTable,
-              c.chunkIndex = chunk.chunkIndex
+              c.chunkIndex = chunk.chunkIndex,
+              c.sectionType = chunk.sectionType,
+              c.pageStart = chunk.pageStart,
+              c.pageEnd = chunk.pageEnd,
+              c.ocrConfidence = chunk.ocrConfidence,
+              c.codeLanguages = chunk.codeLanguages,
+              c.extracted = false
           WITH c, chunk
           MATCH (d:Document {url: $documentUrl})
           MERGE (c)-[:FROM_DOCUMENT]->(d)
@@ -397,12 +748,531 @@ export class Neo4jChunkStorage {
   }
 
   /**
-   * Hash content for deduplication
+   * List the chunks stored for a document
+   *
+   * @param documentUrl - URL of the source document
+   * @returns Stored chunks in document order
+   */
+  async getStoredChunks(documentUrl: string): Promise<StoredChunk[]> {
+    const session = this.driver.session();
+
+    try {
+      const result = await session.run(
+        `
+        MATCH (c:Chunk)-[:FROM_DOCUMENT]->(:Document {url: $documentUrl})
+        RETURN c.chunk_id AS chunkId,
+               c.hash AS hash,
+               c.chunkIndex AS chunkIndex,
+               coalesce(c.extracted, true) AS extracted
+        ORDER BY c.chunkIndex
+        `,
+        { documentUrl }
+      );
+
+      return result.records.map((record) => ({
+        chunkId: record.get('chunkId') as string,
+        hash: record.get('hash') as string,
+        chunkIndex: Number(record.get('chunkIndex') ?? 0),
+        extracted: record.get('extracted') as boolean,
+      }));
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Renumber a document's chunks and rebuild its NEXT_CHUNK chain
+   *
+   * @param documentUrl - URL of the source document
+   * @param positions - Every chunk of the document with its new index
+   */
+  async reorderChunks(
+    documentUrl: string,
+    positions: Array<Pick<ChunkPosition, 'chunkId' | 'chunkIndex'>>
+  ): Promise<void> {
+    const session = this.driver.session();
+    const ordered = [...positions].sort((a, b) => a.chunkIndex - b.chunkIndex);
+
+    try {
+      await session.executeWrite(async (tx) => {
+        await tx.run(
+          `
+          MATCH (c:Chunk)-[r:NEXT_CHUNK]->(:Chunk)
+          WHERE (c)-[:FROM_DOCUMENT]->(:Document {url: $documentUrl})
+          DELETE r
+          `,
+          { documentUrl }
+        );
+
+        await tx.run(
+          `
+          UNWIND $positions AS position
+          MATCH (c:Chunk {chunk_id: position.chunkId})
+          SET c.chunkIndex = position.chunkIndex
+          `,
+          { positions: ordered }
+        );
+
+        const pairs = ordered.slice(1).map((p, i) => ({ from: ordered[i].chunkId, to: p.chunkId }));
+        await tx.run(
+          `
+          UNWIND $pairs AS pair
+          MATCH (c1:Chunk {chunk_id: pair.from})
+          MATCH (c2:Chunk {chunk_id: pair.to})
+          MERGE (c1)-[:NEXT_CHUNK]->(c2)
+          `,
+          { pairs }
+        );
+
+        await tx.run(
+          `
+          MATCH (d:Document {url: $documentUrl})
+          SET d.chunkCount = $chunkCount, d.updatedAt = datetime()
+          `,
+          { documentUrl, chunkCount: ordered.length }
+        );
+      });
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Record that triples have been extracted from chunks
+   *
+   * @param chunkIds - Chunk IDs
+   */
+  async markExtracted(chunkIds: string[]): Promise<void> {
+    if (chunkIds.length === 0) return;
+
+    const session = this.driver.session();
+
+    try {
+      await session.run(
+        `
+        MATCH (c:Chunk) WHERE c.chunk_id IN $chunkIds
+        SET c.extracted = true
+        `,
+        { chunkIds }
+      );
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Flag a document node as archived (or restore it)
+   *
+   * @param documentUrl - URL of the source document
+   * @param archived - Whether the document is archived
+   */
+  async setArchived(documentUrl: string, archived: boolean): Promise<void> {
+    const session = this.driver.session();
+
+    try {
+      await session.run(
+        `
+        MATCH (d:Document {url: $documentUrl})
+        SET d.archived = $archived, d.updatedAt = datetime()
+        `,
+        { documentUrl, archived }
+      );
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * List a document's chunk nodes for inspection
+   *
+   * @param documentUrl - URL of the source document
+   * @returns Chunks in document order
+   */
+  async listDocumentChunks(documentUrl: string): Promise<DocumentChunkSummary[]> {
+    const session = this.driver.session();
+
+    try {
+      const result = await session.run(
+        `
+        MATCH (c:Chunk)-[:FROM_DOCUMENT]->(:Document {url: $documentUrl})
+        RETURN c.chunk_id AS chunkId,
+               c.chunkIndex AS chunkIndex,
+               c.preview AS preview,
+               c.tokenCount AS tokenCount,
+               c.hasCode AS hasCode,
+               c.hasFormula AS hasFormula,
+               c.hasTable AS hasTable
+        ORDER BY c.chunkIndex
+        `,
+        { documentUrl }
+      );
+
+      return result.records.map((record) => ({
+        chunkId: record.get('chunkId') as string,
+        chunkIndex: Number(record.get('chunkIndex') ?? 0),
+        preview: (record.get('preview') as string) || '',
+        tokenCount: Number(record.get('tokenCount') ?? 0),
+        hasCode: Boolean(record.get('hasCode')),
+        hasFormula: Boolean(record.get('hasFormula')),
+        hasTable: Boolean(record.get('hasTable')),
+      }));
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * List the knowledge triples extracted from a document's chunks
+   *
+   * @param documentUrl - URL of the source document
+   * @returns Triples with the chunk they were extracted from
+   */
+  async listDocumentTriples(documentUrl: string): Promise<DocumentTriple[]> {
+    const session = this.driver.session();
+
+    try {
+      const result = await session.run(
+        `
+        MATCH (c:Chunk)-[:FROM_DOCUMENT]->(:Document {url: $documentUrl})
+        MATCH (s:Concept)-[r]->(o:Concept)
+        WHERE r.sourceChunkId = c.chunk_id
+        RETURN s.name AS subject,
+               type(r) AS predicate,
+               o.name AS object,
+               r.confidence AS confidence,
+               c.chunk_id AS sourceChunkId
+        ORDER BY c.chunkIndex, subject
+        `,
+        { documentUrl }
+      );
+
+      return result.records.map((record) => ({
+        subject: record.get('subject') as string,
+        predicate: record.get('predicate') as string,
+        object: record.get('object') as string,
+        confidence: Number(record.get('confidence') ?? 0),
+        sourceChunkId: record.get('sourceChunkId') as string,
+      }));
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Delete the triples extracted from a document's chunks.
+   * Concepts themselves are shared across documents and are kept.
+   *
+   * @param documentUrl - URL of the source document
+   * @returns Number of triples deleted
+   */
+  async deleteTriplesByDocumentUrl(documentUrl: string): Promise<number> {
+    const session = this.driver.session();
+
+    try {
+      const result = await session.run(
+        `
+        MATCH (c:Chunk)-[:FROM_DOCUMENT]->(:Document {url: $documentUrl})
+        MATCH (:Concept)-[r]->(:Concept)
+        WHERE r.sourceChunkId = c.chunk_id
+        DELETE r
+        RETURN count(r) AS deleted
+        `,
+        { documentUrl }
+      );
+
+      return result.records[0]?.get('deleted')?.toNumber() || 0;
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Create or update the Problem node for a problem package document.
+   *
+   * The problem is linked to its typed section chunks (SECTION_OF) and to
+   * the concepts it exercises (EXERCISES): its tags, matched to existing
+   * concepts case-insensitively, and concepts extracted from its editorial
+   * and solution chunks.
+   *
+   * @param documentUrl - URL of the problem package
+   * @param problem - Problem properties from the parser
+   * @returns Number of concepts the problem is linked to
+   */
+  async upsertProblem(documentUrl: string, problem: ProblemInfo): Promise<number> {
+    const session = this.driver.session();
+
+    try {
+      // Reuse existing concept names so tags join the extracted graph
+      const existing = await session.run(
+        `
+        MATCH (c:Concept) WHERE toLower(c.name) IN $names
+        RETURN c.name AS name
+        `,
+        { names: problem.tags.map((t) => t.toLowerCase()) }
+      );
+      const known = new Map(
+        existing.records.map((r) => {
+          const name = r.get('name') as string;
+          return [name.toLowerCase(), name] as const;
+        })
+      );
+      const tags = [...new Set(problem.tags.map((t) => known.get(t.toLowerCase()) ?? t))];
+
+      const result = await session.executeWrite(async (tx) => {
+        await tx.run(
+          `
+          MATCH (d:Document {url: $documentUrl})
+          MERGE (p:Problem {url: $documentUrl})
+          SET p.slug = $problem.slug,
+              p.title = $problem.title,
+              p.tags = $problem.tags,
+              p.difficulty = $problem.difficulty,
+              p.timeLimit = $problem.timeLimit,
+              p.memoryLimit = $problem.memoryLimit,
+              p.source = $problem.source,
+              p.sampleCount = $problem.sampleCount,
+              p.solutionLanguages = $problem.solutionLanguages,
+              p.updatedAt = datetime()
+          MERGE (p)-[:FROM_DOCUMENT]->(d)
+          WITH p
+          OPTIONAL MATCH (p)-[old:EXERCISES|SECTION_OF]-()
+          DELETE old
+          `,
+          {
+            documentUrl,
+            problem: {
+              ...problem,
+              difficulty: problem.difficulty ?? null,
+              timeLimit: problem.timeLimit ?? null,
+              memoryLimit: problem.memoryLimit ?? null,
+              source: problem.source ?? null,
+            },
+          }
+        );
+
+        await tx.run(
+          `
+          MATCH (p:Problem {url: $documentUrl})
+          MATCH (c:Chunk)-[:FROM_DOCUMENT]->(:Document {url: $documentUrl})
+          WHERE c.sectionType IS NOT NULL
+          MERGE (c)-[:SECTION_OF]->(p)
+          `,
+          { documentUrl }
+        );
+
+        await tx.run(
+          `
+          MATCH (p:Problem {url: $documentUrl})
+          UNWIND $tags AS tag
+          MERGE (concept:Concept {name: tag})
+          MERGE (p)-[r:EXERCISES]->(concept)
+          SET r.source = 'tag'
+          `,
+          { documentUrl, tags }
+        );
+
+        await tx.run(
+          `
+          MATCH (p:Problem {url: $documentUrl})<-[:SECTION_OF]-(c:Chunk)
+          WHERE c.sectionType IN ['editorial', 'solution']
+          MATCH (concept:Concept)-[r]-(:Concept)
+          WHERE r.sourceChunkId = c.chunk_id
+          WITH DISTINCT p, concept
+          MERGE (p)-[e:EXERCISES]->(concept)
+          ON CREATE SET e.source = 'extracted'
+          `,
+          { documentUrl }
+        );
+
+        return tx.run(
+          `
+          MATCH (:Problem {url: $documentUrl})-[:EXERCISES]->(concept:Concept)
+          RETURN count(DISTINCT concept) AS count
+          `,
+          { documentUrl }
+        );
+      });
+
+      return Number(result.records[0]?.get('count') ?? 0);
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Delete a document node (after its chunks have been removed), along
+   * with its Problem node if it is a problem package
+   *
+   * @param documentUrl - URL of the source document
+   */
+  async deleteDocumentNode(documentUrl: string): Promise<void> {
+    const session = this.driver.session();
+
+    try {
+      await session.run(
+        `
+        MATCH (d:Document {url: $documentUrl})
+        OPTIONAL MATCH (p:Problem)-[:FROM_DOCUMENT]->(d)
+        DETACH DELETE p, d
+        `,
+        { documentUrl }
+      );
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Get the Neo4j driver (for cross-store transactions)
+   */
+  getDriver(): Driver {
+    return this.driver;
+  }
+}
+
+// ============================================================================
+// Code Snippet Records
+// ============================================================================
+
+/**
+ * CodeSnippetStorage - Snippet records for the code blocks of chunks
+ *
+ * Snippet vectors are kept in their own collection and always embedded
+ * with the default embedding model: the snippet index is not versioned,
+ * and code search embeds queries with the same model.
+ */
+export class CodeSnippetStorage {
+  private milvus: MilvusChunkStorage;
+  private driver: Driver;
+  private embedder: Qwen3Embedding | null;
+  private config: StorageConfig;
+
+  constructor(
+    milvusClient: MilvusClient,
+    driver: Driver,
+    config: Partial<StorageConfig> = {},
+    embedder?: Qwen3Embedding
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.milvus = new MilvusChunkStorage(milvusClient, {
+      ...this.config,
+      collectionName: this.config.snippetCollectionName,
+    });
+    this.driver = driver;
+    this.embedder = embedder ?? null;
+  }
+
+  /**
+   * Index the code blocks of stored chunks as snippet records
+   *
+   * @param chunks - Chunks already stored in Neo4j
+   * @returns Number of snippets indexed
+   */
+  async storeSnippets(chunks: EmbeddedChunk[]): Promise<number> {
+    const snippets = chunks.flatMap(extractCodeSnippets);
+    if (snippets.length === 0) return 0;
+
+    const contents = snippets.map(formatSnippet);
+    const vectors = await this.getEmbedder().getTextEmbeddings(contents);
+
+    await this.milvus.insertChunks(
+      snippets.map((snippet, i) => ({
+        id: snippet.id,
+        content: contents[i],
+        embedding: vectors[i],
+        metadata: snippet.metadata,
+        embeddingVersion: null,
+      }))
+    );
+
+    const session = this.driver.session();
+
+    try {
+      for (let i = 0; i < snippets.length; i += this.config.neo4jBatchSize) {
+        const batch = snippets.slice(i, i + this.config.neo4jBatchSize).map((snippet) => ({
+          id: snippet.id,
+          chunkId: snippet.chunkId,
+          snippetIndex: snippet.snippetIndex,
+          language: snippet.language,
+          code: snippet.code,
+          context: snippet.context,
+          identifiers: splitIdentifiers(snippet.code),
+          documentUrl: snippet.metadata.documentUrl,
+        }));
+
+        await session.run(
+          `
+          UNWIND $snippets AS snippet
+          MATCH (c:Chunk {chunk_id: snippet.chunkId})
+          MERGE (s:CodeSnippet {snippet_id: snippet.id})
+          SET s.snippetIndex = snippet.snippetIndex,
+              s.language = snippet.language,
+              s.code = snippet.code,
+              s.context = snippet.context,
+              s.identifiers = snippet.identifiers,
+              s.documentUrl = snippet.documentUrl
+          MERGE (c)-[:HAS_SNIPPET]->(s)
+          `,
+          { snippets: batch }
+        );
+      }
+    } finally {
+      await session.close();
+    }
+
+    return snippets.length;
+  }
+
+  /**
+   * Delete snippet vectors by snippet ID (their nodes go with their chunks)
+   *
+   * @param snippetIds - Snippet IDs
+   * @returns Number of vectors deleted
    */
-  private hashContent(content: string): string {
-    // Simple hash using crypto
-    const crypto = require('crypto');
-    return crypto.createHash('sha256').update(content).digest('hex').slice(0, 16);
+  async deleteVectors(snippetIds: string[]): Promise<number> {
+    return this.milvus.deleteByIds(snippetIds.map(toMilvusChunkId));
+  }
+
+  /**
+   * Delete all snippets of a document
+   *
+   * @param documentUrl - Document URL
+   * @param documentId - Document ID for Milvus
+   */
+  async deleteByDocument(documentUrl: string, documentId: string): Promise<void> {
+    const session = this.driver.session();
+
+    try {
+      await session.run(
+        `
+        MATCH (s:CodeSnippet {documentUrl: $documentUrl})
+        DETACH DELETE s
+        `,
+        { documentUrl }
+      );
+    } finally {
+      await session.close();
+    }
+
+    await this.milvus.deleteByDocumentId(documentId);
+  }
+
+  /**
+   * Flag a document's snippet vectors as archived (or restore them).
+   * Lexical search skips them through the archived Document node.
+   *
+   * @param documentId - Document ID
+   * @param archived - Whether the document is archived
+   */
+  async setArchived(documentId: string, archived: boolean): Promise<number> {
+    return this.milvus.setArchived(documentId, archived);
+  }
+
+  private getEmbedder(): Qwen3Embedding {
+    if (!this.embedder) {
+      this.embedder = createEmbedder();
+    }
+    return this.embedder;
   }
 }
 
@@ -416,6 +1286,7 @@ export class Neo4jChunkStorage {
 export class ChunkStorageManager {
   private milvus: MilvusChunkStorage;
   private neo4j: Neo4jChunkStorage;
+  private snippets: CodeSnippetStorage | null;
 
   constructor(
     milvusClient: MilvusClient,
@@ -424,6 +1295,9 @@ export class ChunkStorageManager {
   ) {
     this.milvus = new MilvusChunkStorage(milvusClient, config);
     this.neo4j = new Neo4jChunkStorage(neo4jDriver, config);
+    this.snippets = (config.indexCodeSnippets ?? DEFAULT_CONFIG.indexCodeSnippets)
+      ? new CodeSnippetStorage(milvusClient, neo4jDriver, config)
+      : null;
   }
 
   /**
@@ -443,6 +1317,7 @@ export class ChunkStorageManager {
     const errors: string[] = [];
     let milvusInserted = 0;
     let neo4jCreated = 0;
+    let snippetsIndexed = 0;
 
     // Step 1: Insert into Milvus (vector store)
     try {
@@ -473,9 +1348,19 @@ export class ChunkStorageManager {
       errors.push(`Neo4j creation failed: ${error instanceof Error ? error.message : String(error)}`);
     }
 
+    // Step 3: Index code blocks as snippets (needs the chunk nodes)
+    if (this.snippets && neo4jCreated > 0) {
+      try {
+        snippetsIndexed = await this.snippets.storeSnippets(chunks);
+      } catch (error) {
+        errors.push(`Snippet indexing failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
     return {
       milvusInserted,
       neo4jCreated,
+      snippetsIndexed,
       errors,
       duration: Date.now() - startTime,
     };
@@ -491,7 +1376,155 @@ export class ChunkStorageManager {
     await Promise.all([
       this.milvus.deleteByDocumentId(documentId),
       this.neo4j.deleteByDocumentUrl(documentUrl),
+      this.snippets?.deleteByDocument(documentUrl, documentId),
+    ]);
+  }
+
+  /**
+   * Remove a document entirely: triples sourced from its chunks, chunk
+   * nodes and vectors, and finally the document node itself
+   *
+   * @param documentUrl - Document URL
+   * @param documentId - Document ID for Milvus
+   */
+  async deleteDocument(documentUrl: string, documentId: string): Promise<void> {
+    // Triples must go first: they are found through the chunk nodes
+    await this.neo4j.deleteTriplesByDocumentUrl(documentUrl);
+    await this.deleteChunks(documentUrl, documentId);
+    await this.neo4j.deleteDocumentNode(documentUrl);
+  }
+
+  /**
+   * Archive or restore a document in both stores
+   *
+   * @param documentUrl - Document URL
+   * @param documentId - Document ID for Milvus
+   * @param archived - Whether the document is archived
+   */
+  async setDocumentArchived(
+    documentUrl: string,
+    documentId: string,
+    archived: boolean
+  ): Promise<void> {
+    await this.milvus.setArchived(documentId, archived);
+    await this.snippets?.setArchived(documentId, archived);
+    await this.neo4j.setArchived(documentUrl, archived);
+  }
+
+  /**
+   * List a document's stored chunks, reconciled across both stores.
+   * A chunk only counts as stored if it has both a Neo4j node and a
+   * Milvus vector; anything else is reported as an orphan to retire.
+   *
+   * @param documentUrl - Document URL
+   * @param documentId - Document ID for Milvus
+   * @returns Reconciled stored chunks
+   */
+  async getStoredChunks(documentUrl: string, documentId: string): Promise<StoredChunkSet> {
+    const [graphChunks, milvusIds] = await Promise.all([
+      this.neo4j.getStoredChunks(documentUrl),
+      this.milvus.listChunkIds(documentId),
     ]);
+
+    const remainingMilvusIds = new Set(milvusIds);
+    const chunks: StoredChunk[] = [];
+    const orphanChunkIds: string[] = [];
+
+    for (const chunk of graphChunks) {
+      const milvusId = toMilvusChunkId(chunk.chunkId);
+      if (remainingMilvusIds.delete(milvusId)) {
+        chunks.push(chunk);
+      } else {
+        orphanChunkIds.push(chunk.chunkId);
+      }
+    }
+
+    return { chunks, orphanChunkIds, orphanMilvusIds: [...remainingMilvusIds] };
+  }
+
+  /**
+   * Remove chunks from both stores atomically.
+   *
+   * The Neo4j deletion (chunk nodes, their snippets and relationships, and
+   * triples sourced from them) runs in a transaction that is only committed
+   * once the Milvus deletions succeed, and rolled back otherwise.
+   *
+   * @param chunkIds - Chunk IDs to retire
+   * @param extraMilvusIds - Additional Milvus rows with no Neo4j node
+   * @returns Number of chunks retired
+   */
+  async retireChunks(chunkIds: string[], extraMilvusIds: number[] = []): Promise<number> {
+    if (chunkIds.length === 0 && extraMilvusIds.length === 0) return 0;
+
+    const session = this.neo4j.getDriver().session();
+    const tx = session.beginTransaction();
+
+    try {
+      await tx.run(
+        `
+        MATCH (:Concept)-[r]->(:Concept)
+        WHERE r.sourceChunkId IN $chunkIds
+        DELETE r
+        `,
+        { chunkIds }
+      );
+      const snippets = await tx.run(
+        `
+        MATCH (c:Chunk)-[:HAS_SNIPPET]->(s:CodeSnippet)
+        WHERE c.chunk_id IN $chunkIds
+        WITH s, s.snippet_id AS snippetId
+        DETACH DELETE s
+        RETURN snippetId
+        `,
+        { chunkIds }
+      );
+      await tx.run(
+        `
+        MATCH (c:Chunk) WHERE c.chunk_id IN $chunkIds
+        DETACH DELETE c
+        `,
+        { chunkIds }
+      );
+
+      await this.milvus.deleteByIds([...chunkIds.map(toMilvusChunkId), ...extraMilvusIds]);
+      const snippetIds = snippets.records.map((record) => String(record.get('snippetId')));
+      if (this.snippets && snippetIds.length > 0) {
+        await this.snippets.deleteVectors(snippetIds);
+      }
+
+      await tx.commit();
+      return chunkIds.length;
+    } catch (error) {
+      if (tx.isOpen()) {
+        await tx.rollback();
+      }
+      throw error;
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Update positions of existing chunks in both stores
+   *
+   * @param documentUrl - Document URL
+   * @param positions - Every chunk of the document with its new index
+   * @param changed - Chunks whose stored metadata must be rewritten
+   */
+  async reorderChunks(
+    documentUrl: string,
+    positions: ChunkPosition[],
+    changed: ChunkPosition[]
+  ): Promise<void> {
+    await this.milvus.updateMetadata(changed);
+    await this.neo4j.reorderChunks(documentUrl, positions);
+  }
+
+  /**
+   * Set the tracker for versioned embedding collections
+   */
+  setVersionTracker(tracker: EmbeddingVersionTracker | null): void {
+    this.milvus.setVersionTracker(tracker);
   }
 
   /**
@@ -0,0 +1,362 @@
+/**
+ * Prometheus Metrics
+ *
+ * A minimal in-process metrics registry (counters, gauges and histograms
+ * with labels) rendered in the Prometheus text exposition format, which
+ * OpenMetrics scrapers also accept.
+ *
+ * The pipeline records into the default registry: retrieval stage
+ * latencies (from StageTimer), and LLM token and error counts (from
+ * Qwen3LLM). The API adds its own request, throttle and ingestion metrics
+ * and serves the registry at /metrics.
+ *
+ * @module @jubilant/rag/monitoring/prometheus
+ */
+
+import type { LLMErrorType } from '../generation/errors';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Label values of one series, by label name
+ */
+export type MetricLabels = Record<string, string>;
+
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+/**
+ * Content type of rendered metrics
+ */
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/**
+ * Default histogram buckets, in seconds (10ms - 2min, matching query
+ * timeouts)
+ */
+export const DEFAULT_LATENCY_BUCKETS = [
+  0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120,
+];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Escape a label value for the exposition format
+ */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Format a sample value (integers without a decimal point, +Inf/-Inf/NaN
+ * spelled the Prometheus way)
+ */
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return value.toString();
+}
+
+/**
+ * Render a label set, e.g. {route="/api/query",status="200"}
+ */
+function formatLabels(names: readonly string[], values: readonly string[]): string {
+  if (names.length === 0) return '';
+  const pairs = names.map((name, i) => `${name}="${escapeLabelValue(values[i])}"`);
+  return `{${pairs.join(',')}}`;
+}
+
+// ============================================================================
+// Metric Classes
+// ============================================================================
+
+/**
+ * Base class for a metric family: one name, many labelled series
+ */
+abstract class Metric<TSeries> {
+  abstract readonly type: MetricType;
+  protected series = new Map<string, { labels: string[]; value: TSeries }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: readonly string[]
+  ) {}
+
+  /**
+   * Drop all series (e.g. before refreshing a gauge snapshot)
+   */
+  reset(): void {
+    this.series.clear();
+  }
+
+  /**
+   * Render the family in the text exposition format
+   */
+  render(): string {
+    const lines = [
+      `# HELP ${this.name} ${this.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`,
+      `# TYPE ${this.name} ${this.type}`,
+    ];
+    for (const { labels, value } of this.series.values()) {
+      lines.push(...this.renderSeries(labels, value));
+    }
+    return lines.join('\n');
+  }
+
+  protected abstract renderSeries(labels: string[], value: TSeries): string[];
+
+  /**
+   * Get (or create) the series for a label set. Missing labels are empty.
+   */
+  protected getSeries(labels: MetricLabels, create: () => TSeries): TSeries {
+    const values = this.labelNames.map((name) => labels[name] ?? '');
+    const key = values.join('\u0000');
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: values, value: create() };
+      this.series.set(key, entry);
+    }
+    return entry.value;
+  }
+
+  /**
+   * Find the series for a label set without creating it
+   */
+  protected findSeries(labels: MetricLabels): TSeries | undefined {
+    const key = this.labelNames.map((name) => labels[name] ?? '').join('\u0000');
+    return this.series.get(key)?.value;
+  }
+}
+
+/**
+ * Monotonically increasing count
+ */
+export class Counter extends Metric<{ value: number }> {
+  readonly type = 'counter';
+
+  inc(labels: MetricLabels = {}, amount = 1): void {
+    if (amount < 0) {
+      throw new Error(`Counter ${this.name} cannot decrease`);
+    }
+    this.getSeries(labels, () => ({ value: 0 })).value += amount;
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.findSeries(labels)?.value ?? 0;
+  }
+
+  protected renderSeries(labels: string[], series: { value: number }): string[] {
+    return [`${this.name}${formatLabels(this.labelNames, labels)} ${formatValue(series.value)}`];
+  }
+}
+
+/**
+ * Value that can go up and down
+ */
+export class Gauge extends Metric<{ value: number }> {
+  readonly type = 'gauge';
+
+  set(labels: MetricLabels, value: number): void {
+    this.getSeries(labels, () => ({ value: 0 })).value = value;
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.findSeries(labels)?.value ?? 0;
+  }
+
+  protected renderSeries(labels: string[], series: { value: number }): string[] {
+    return [`${this.name}${formatLabels(this.labelNames, labels)} ${formatValue(series.value)}`];
+  }
+}
+
+/**
+ * Observations counted into cumulative buckets
+ */
+interface HistogramSeries {
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Distribution of observed values
+ */
+export class Histogram extends Metric<HistogramSeries> {
+  readonly type = 'histogram';
+  readonly buckets: readonly number[];
+
+  constructor(name: string, help: string, labelNames: readonly string[], buckets: readonly number[]) {
+    super(name, help, labelNames);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: MetricLabels, value: number): void {
+    const series = this.getSeries(labels, () => ({
+      bucketCounts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    }));
+
+    for (let i = 0; i < this.buckets.length; i++) {
+      if (value <= this.buckets[i]) series.bucketCounts[i]++;
+    }
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Number of observations of a series
+   */
+  getCount(labels: MetricLabels = {}): number {
+    return this.findSeries(labels)?.count ?? 0;
+  }
+
+  protected renderSeries(labels: string[], series: HistogramSeries): string[] {
+    const bucketNames = [...this.labelNames, 'le'];
+    const lines = this.buckets.map((bound, i) =>
+      `${this.name}_bucket${formatLabels(bucketNames, [...labels, formatValue(bound)])} ${series.bucketCounts[i]}`
+    );
+    lines.push(
+      `${this.name}_bucket${formatLabels(bucketNames, [...labels, '+Inf'])} ${series.count}`,
+      `${this.name}_sum${formatLabels(this.labelNames, labels)} ${formatValue(series.sum)}`,
+      `${this.name}_count${formatLabels(this.labelNames, labels)} ${series.count}`
+    );
+    return lines;
+  }
+}
+
+// ============================================================================
+// MetricsRegistry Class
+// ============================================================================
+
+/**
+ * MetricsRegistry - Named metric families, rendered together for scraping
+ */
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric<unknown>>();
+
+  /**
+   * Get or create a counter
+   *
+   * @throws Error if the name is registered as another type
+   */
+  counter(name: string, help: string, labelNames: readonly string[] = []): Counter {
+    return this.register(name, 'counter', () => new Counter(name, help, labelNames)) as Counter;
+  }
+
+  /**
+   * Get or create a gauge
+   *
+   * @throws Error if the name is registered as another type
+   */
+  gauge(name: string, help: string, labelNames: readonly string[] = []): Gauge {
+    return this.register(name, 'gauge', () => new Gauge(name, help, labelNames)) as Gauge;
+  }
+
+  /**
+   * Get or create a histogram
+   *
+   * @throws Error if the name is registered as another type
+   */
+  histogram(
+    name: string,
+    help: string,
+    labelNames: readonly string[] = [],
+    buckets: readonly number[] = DEFAULT_LATENCY_BUCKETS
+  ): Histogram {
+    return this.register(
+      name,
+      'histogram',
+      () => new Histogram(name, help, labelNames, buckets)
+    ) as Histogram;
+  }
+
+  /**
+   * Render every metric in the text exposition format
+   */
+  render(): string {
+    const families = [...this.metrics.values()].map((metric) => metric.render());
+    return families.length > 0 ? `${families.join('\n')}\n` : '';
+  }
+
+  /**
+   * Remove every metric
+   */
+  clear(): void {
+    this.metrics.clear();
+  }
+
+  private register(name: string, type: MetricType, create: () => Metric<unknown>): Metric<unknown> {
+    const existing = this.metrics.get(name);
+    if (existing) {
+      if (existing.type !== type) {
+        throw new Error(`Metric ${name} is already registered as a ${existing.type}`);
+      }
+      return existing;
+    }
+
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
+
+// ============================================================================
+// Default Registry
+// ============================================================================
+
+let defaultRegistry: MetricsRegistry | null = null;
+
+/**
+ * Get the process-wide registry, creating it on first use
+ */
+export function getMetricsRegistry(): MetricsRegistry {
+  if (!defaultRegistry) {
+    defaultRegistry = new MetricsRegistry();
+  }
+  return defaultRegistry;
+}
+
+/**
+ * Replace the process-wide registry (null starts a fresh one on next use)
+ */
+export function setMetricsRegistry(registry: MetricsRegistry | null): void {
+  defaultRegistry = registry;
+}
+
+// ============================================================================
+// Pipeline Metrics
+// ============================================================================
+
+/**
+ * Record the duration of a retrieval stage
+ */
+export function observeStageDuration(stage: string, durationMs: number): void {
+  getMetricsRegistry()
+    .histogram('rag_stage_duration_seconds', 'Duration of RAG pipeline stages', ['stage'])
+    .observe({ stage }, durationMs / 1000);
+}
+
+/**
+ * Count LLM tokens (estimated at ~4 characters per token, as elsewhere in
+ * the pipeline, since providers do not all report usage)
+ */
+export function countLLMTokens(model: string, kind: 'prompt' | 'completion', tokens: number): void {
+  getMetricsRegistry()
+    .counter('rag_llm_tokens_total', 'LLM tokens sent and generated (estimated)', ['model', 'kind'])
+    .inc({ model, kind }, tokens);
+}
+
+/**
+ * Count a failed LLM request by error type
+ */
+export function countLLMError(model: string, errorType: LLMErrorType): void {
+  getMetricsRegistry()
+    .counter('rag_llm_errors_total', 'Failed LLM requests by error type', ['model', 'type'])
+    .inc({ model, type: errorType });
+}
@@ -0,0 +1,529 @@
+/**
+ * Distributed Tracing
+ *
+ * A small OpenTelemetry-compatible tracer. Spans carry W3C trace context
+ * (the `traceparent` header), nest through async calls via
+ * AsyncLocalStorage, and are exported in batches either as OTLP/HTTP JSON
+ * to a collector or as JSON lines to a file (for tests and local runs).
+ *
+ * The pipeline opens a span per stage (embedding, vector search, graph
+ * traversal, fusion, rerank, generation, faithfulness, and each ingestion
+ * step); the API opens a server span per request, continuing the trace
+ * the web app started.
+ *
+ * Configured with the standard OpenTelemetry variables:
+ * - OTEL_TRACES_EXPORTER: 'otlp', 'file' or 'none' (default)
+ * - OTEL_EXPORTER_OTLP_ENDPOINT / OTEL_EXPORTER_OTLP_TRACES_ENDPOINT
+ * - OTEL_SERVICE_NAME
+ * plus OTEL_TRACES_FILE for the file exporter.
+ *
+ * @module @jubilant/rag/monitoring/tracing
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { appendFile } from 'node:fs/promises';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Identity of a span, as carried in a traceparent header
+ */
+export interface SpanContext {
+  /** 32 lowercase hex characters */
+  traceId: string;
+  /** 16 lowercase hex characters */
+  spanId: string;
+  /** Whether the trace is recorded */
+  sampled: boolean;
+}
+
+export type SpanKind = 'internal' | 'server' | 'client';
+
+export type SpanAttributeValue = string | number | boolean;
+
+export type SpanAttributes = Record<string, SpanAttributeValue>;
+
+export type SpanStatusCode = 'unset' | 'ok' | 'error';
+
+/**
+ * A finished span, as handed to exporters
+ */
+export interface SpanData {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: SpanKind;
+  startTimeMs: number;
+  endTimeMs: number;
+  attributes: SpanAttributes;
+  status: { code: SpanStatusCode; message?: string };
+  events: Array<{ name: string; timeMs: number; attributes: SpanAttributes }>;
+}
+
+/**
+ * Destination of finished spans
+ */
+export interface SpanExporter {
+  export(spans: SpanData[]): Promise<void>;
+}
+
+/**
+ * Options for starting a span
+ */
+export interface StartSpanOptions {
+  kind?: SpanKind;
+  attributes?: SpanAttributes;
+  /**
+   * Parent span context. Defaults to the active span; null starts a new
+   * trace.
+   */
+  parent?: SpanContext | null;
+}
+
+/**
+ * Configuration for Tracer
+ */
+export interface TracerConfig {
+  /** service.name resource attribute */
+  serviceName: string;
+  /** Spans buffered before an export is triggered */
+  maxBatchSize: number;
+  /** Longest a span waits in the buffer */
+  flushIntervalMs: number;
+}
+
+const DEFAULT_CONFIG: TracerConfig = {
+  serviceName: 'competition-tutor',
+  maxBatchSize: 100,
+  flushIntervalMs: 5000,
+};
+
+// ============================================================================
+// W3C Trace Context
+// ============================================================================
+
+const TRACEPARENT_PATTERN = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+/**
+ * Parse a traceparent header (version 00). Invalid headers, and the
+ * all-zero IDs the spec forbids, yield null.
+ */
+export function parseTraceparent(header: string | null | undefined): SpanContext | null {
+  const match = header?.trim().toLowerCase().match(TRACEPARENT_PATTERN);
+  if (!match) return null;
+
+  const [, traceId, spanId, flags] = match;
+  if (/^0+$/.test(traceId) || /^0+$/.test(spanId)) return null;
+
+  return { traceId, spanId, sampled: (parseInt(flags, 16) & 1) === 1 };
+}
+
+/**
+ * Format a span context as a traceparent header
+ */
+export function formatTraceparent(context: SpanContext): string {
+  return `00-${context.traceId}-${context.spanId}-${context.sampled ? '01' : '00'}`;
+}
+
+/**
+ * Random lowercase hex ID of the given byte length
+ */
+function randomId(bytes: number): string {
+  const values = crypto.getRandomValues(new Uint8Array(bytes));
+  return Array.from(values, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// ============================================================================
+// Span Class
+// ============================================================================
+
+/**
+ * Span - One timed operation within a trace
+ */
+export class Span {
+  readonly context: SpanContext;
+  private data: Omit<SpanData, 'endTimeMs'>;
+  private ended = false;
+
+  constructor(
+    private onEnd: (span: SpanData) => void,
+    name: string,
+    kind: SpanKind,
+    context: SpanContext,
+    parentSpanId: string | undefined,
+    attributes: SpanAttributes
+  ) {
+    this.context = context;
+    this.data = {
+      traceId: context.traceId,
+      spanId: context.spanId,
+      parentSpanId,
+      name,
+      kind,
+      startTimeMs: Date.now(),
+      attributes: { ...attributes },
+      status: { code: 'unset' },
+      events: [],
+    };
+  }
+
+  /**
+   * Rename the span (e.g. once the route is known)
+   */
+  updateName(name: string): void {
+    this.data.name = name;
+  }
+
+  setAttribute(key: string, value: SpanAttributeValue | undefined): void {
+    if (value !== undefined) this.data.attributes[key] = value;
+  }
+
+  setAttributes(attributes: Record<string, SpanAttributeValue | undefined>): void {
+    for (const [key, value] of Object.entries(attributes)) {
+      this.setAttribute(key, value);
+    }
+  }
+
+  setStatus(code: SpanStatusCode, message?: string): void {
+    this.data.status = { code, message };
+  }
+
+  /**
+   * Record an exception event and mark the span failed
+   */
+  recordError(error: unknown): void {
+    const message = error instanceof Error ? error.message : String(error);
+    this.data.events.push({
+      name: 'exception',
+      timeMs: Date.now(),
+      attributes: {
+        'exception.type': error instanceof Error ? error.name : typeof error,
+        'exception.message': message,
+      },
+    });
+    this.setStatus('error', message);
+  }
+
+  /**
+   * traceparent header naming this span as the parent
+   */
+  traceparent(): string {
+    return formatTraceparent(this.context);
+  }
+
+  /**
+   * End the span. Later calls are ignored.
+   */
+  end(): void {
+    if (this.ended) return;
+    this.ended = true;
+    this.onEnd({ ...this.data, endTimeMs: Date.now() });
+  }
+}
+
+// ============================================================================
+// Tracer Class
+// ============================================================================
+
+/**
+ * Tracer - Creates spans, tracks the active one, and batches finished
+ * spans to an exporter. Without an exporter, spans are still created (so
+ * trace context propagates) but are dropped when they end.
+ */
+export class Tracer {
+  private exporter: SpanExporter | null;
+  private config: TracerConfig;
+  private storage = new AsyncLocalStorage<Span>();
+  private buffer: SpanData[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private exportWarned = false;
+
+  constructor(exporter: SpanExporter | null, config: Partial<TracerConfig> = {}) {
+    this.exporter = exporter;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Whether finished spans are exported
+   */
+  get enabled(): boolean {
+    return this.exporter !== null;
+  }
+
+  get serviceName(): string {
+    return this.config.serviceName;
+  }
+
+  /**
+   * Span active in the current async context
+   */
+  activeSpan(): Span | undefined {
+    return this.storage.getStore();
+  }
+
+  /**
+   * Start a span. It is not made active; see withSpan and runWithSpan.
+   */
+  startSpan(name: string, options: StartSpanOptions = {}): Span {
+    const parent = options.parent === undefined
+      ? this.activeSpan()?.context ?? null
+      : options.parent;
+
+    const context: SpanContext = {
+      traceId: parent?.traceId ?? randomId(16),
+      spanId: randomId(8),
+      sampled: parent?.sampled ?? true,
+    };
+
+    return new Span(
+      (span) => this.record(span, context.sampled),
+      name,
+      options.kind ?? 'internal',
+      context,
+      parent?.spanId,
+      options.attributes ?? {}
+    );
+  }
+
+  /**
+   * Run a function with a span active
+   */
+  runWithSpan<T>(span: Span, fn: () => T): T {
+    return this.storage.run(span, fn);
+  }
+
+  /**
+   * Run a function in a new child span of the active span. The span ends
+   * when the function settles, and records the error if it throws.
+   */
+  async withSpan<T>(
+    name: string,
+    fn: (span: Span) => Promise<T> | T,
+    options: StartSpanOptions = {}
+  ): Promise<T> {
+    const span = this.startSpan(name, options);
+    try {
+      return await this.storage.run(span, () => fn(span));
+    } catch (error) {
+      span.recordError(error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Iterate a generator with a span active, so spans the generator starts
+   * are its children. (A generator's body runs in the context of whoever
+   * calls next(), not where it was created.)
+   */
+  async *runGeneratorWithSpan<T>(span: Span, source: AsyncGenerator<T>): AsyncGenerator<T> {
+    try {
+      while (true) {
+        const result = await this.storage.run(span, () => source.next());
+        if (result.done) return;
+        yield result.value;
+      }
+    } finally {
+      await this.storage.run(span, () => source.return(undefined));
+    }
+  }
+
+  /**
+   * Export buffered spans now
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (!this.exporter || this.buffer.length === 0) return;
+
+    const batch = this.buffer;
+    this.buffer = [];
+    try {
+      await this.exporter.export(batch);
+    } catch (error) {
+      // Tracing must never fail a request; warn once per tracer
+      if (!this.exportWarned) {
+        this.exportWarned = true;
+        console.warn('Span export failed:', error instanceof Error ? error.message : error);
+      }
+    }
+  }
+
+  /**
+   * Buffer a finished span for export
+   */
+  private record(span: SpanData, sampled: boolean): void {
+    if (!this.exporter || !sampled) return;
+
+    this.buffer.push(span);
+    if (this.buffer.length >= this.config.maxBatchSize) {
+      void this.flush();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => void this.flush(), this.config.flushIntervalMs);
+      this.flushTimer.unref?.();
+    }
+  }
+}
+
+// ============================================================================
+// Exporters
+// ============================================================================
+
+const OTLP_SPAN_KINDS: Record<SpanKind, number> = { internal: 1, server: 2, client: 3 };
+const OTLP_STATUS_CODES: Record<SpanStatusCode, number> = { unset: 0, ok: 1, error: 2 };
+
+/**
+ * Convert attributes to OTLP key/value pairs
+ */
+function toOTLPAttributes(attributes: SpanAttributes) {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value: typeof value === 'string'
+      ? { stringValue: value }
+      : typeof value === 'boolean'
+        ? { boolValue: value }
+        : Number.isInteger(value)
+          ? { intValue: value }
+          : { doubleValue: value },
+  }));
+}
+
+/**
+ * Milliseconds since the epoch as an OTLP nanosecond timestamp string
+ */
+function toUnixNano(timeMs: number): string {
+  return (BigInt(Math.round(timeMs)) * 1_000_000n).toString();
+}
+
+/**
+ * Build an OTLP/JSON ExportTraceServiceRequest body
+ */
+export function toOTLPRequest(spans: SpanData[], serviceName: string) {
+  return {
+    resourceSpans: [
+      {
+        resource: {
+          attributes: toOTLPAttributes({ 'service.name': serviceName }),
+        },
+        scopeSpans: [
+          {
+            scope: { name: '@jubilant/rag' },
+            spans: spans.map((span) => ({
+              traceId: span.traceId,
+              spanId: span.spanId,
+              ...(span.parentSpanId && { parentSpanId: span.parentSpanId }),
+              name: span.name,
+              kind: OTLP_SPAN_KINDS[span.kind],
+              startTimeUnixNano: toUnixNano(span.startTimeMs),
+              endTimeUnixNano: toUnixNano(span.endTimeMs),
+              attributes: toOTLPAttributes(span.attributes),
+              events: span.events.map((event) => ({
+                name: event.name,
+                timeUnixNano: toUnixNano(event.timeMs),
+                attributes: toOTLPAttributes(event.attributes),
+              })),
+              status: {
+                code: OTLP_STATUS_CODES[span.status.code],
+                ...(span.status.message && { message: span.status.message }),
+              },
+            })),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Exports spans to an OpenTelemetry collector over OTLP/HTTP (JSON)
+ */
+export class OTLPHttpSpanExporter implements SpanExporter {
+  constructor(
+    private endpoint: string,
+    private serviceName: string,
+    private timeoutMs = 10000
+  ) {}
+
+  async export(spans: SpanData[]): Promise<void> {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(toOTLPRequest(spans, this.serviceName)),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`OTLP export failed: ${response.status} ${await response.text()}`);
+    }
+  }
+}
+
+/**
+ * Appends spans to a file, one JSON object (SpanData) per line
+ */
+export class FileSpanExporter implements SpanExporter {
+  constructor(private path: string) {}
+
+  async export(spans: SpanData[]): Promise<void> {
+    await appendFile(this.path, spans.map((span) => JSON.stringify(span) + '\n').join(''));
+  }
+}
+
+// ============================================================================
+// Default Tracer
+// ============================================================================
+
+/**
+ * Create a tracer from the OTEL_* environment variables
+ *
+ * @param serviceName - Service name when OTEL_SERVICE_NAME is not set
+ */
+export function createTracer(serviceName = DEFAULT_CONFIG.serviceName): Tracer {
+  const name = process.env.OTEL_SERVICE_NAME || serviceName;
+  const exporterType = (process.env.OTEL_TRACES_EXPORTER || 'none').toLowerCase();
+
+  switch (exporterType) {
+    case 'otlp': {
+      const base = (process.env.OTEL_EXPORTER_OTLP_ENDPOINT || 'http://localhost:4318').replace(/\/$/, '');
+      const endpoint = process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT || `${base}/v1/traces`;
+      return new Tracer(new OTLPHttpSpanExporter(endpoint, name), { serviceName: name });
+    }
+    case 'file':
+      return new Tracer(
+        new FileSpanExporter(process.env.OTEL_TRACES_FILE || 'traces.jsonl'),
+        { serviceName: name }
+      );
+    case 'none':
+      return new Tracer(null, { serviceName: name });
+    default:
+      console.warn(`Unknown OTEL_TRACES_EXPORTER "${exporterType}"; tracing disabled`);
+      return new Tracer(null, { serviceName: name });
+  }
+}
+
+let defaultTracer: Tracer | null = null;
+
+/**
+ * Get the process-wide tracer, creating it from the environment on first
+ * use
+ */
+export function getTracer(): Tracer {
+  if (!defaultTracer) {
+    defaultTracer = createTracer();
+  }
+  return defaultTracer;
+}
+
+/**
+ * Replace the process-wide tracer (null recreates it from the environment
+ * on next use)
+ */
+export function setTracer(tracer: Tracer | null): void {
+  defaultTracer = tracer;
+}
@@ -16,7 +16,9 @@ import type {
   Citation,
   ResponseMetadata,
   StreamChunk,
-  FusedResult,
+  RerankScorer,
+  FaithfulnessReport,
+  RetrievalMode,
 } from './types';
 import {
   HybridRetriever,
@@ -28,16 +30,39 @@ import {
   createMetricsCollector,
   type DetailedRetrievalMetrics,
 } from './retrieval/metrics';
-import { Qwen3Reranker, createReranker } from './reranking/reranker';
+import type { EmbeddingVersionTracker } from './retrieval/versions';
+import {
+  CodeSnippetRetriever,
+  detectRetrievalMode,
+  mentionedLanguage,
+  type CodeQuery,
+} from './retrieval/code';
+import {
+  citedDocumentUrls,
+  type AnswerCacheEntry,
+  type AnswerCacheScope,
+  type SemanticAnswerCache,
+} from './cache/answers';
+import { FallbackReranker, createFallbackReranker } from './reranking/fallback';
 import { Qwen3LLM, createLLM, type ChatMessage } from './generation/llm';
 import { Qwen3Embedding, createEmbedder } from './generation/embedder';
 import { createCitations, filterUsedCitations } from './generation/citations';
+import { FaithfulnessVerifier } from './generation/faithfulness';
+import { getTracer } from './monitoring/tracing';
 import {
   buildChatMessages,
-  getConfidenceLevel,
-  hasInsufficientEvidence,
+  getCalibratedConfidence,
   type ConfidenceLevel,
 } from './generation/prompts';
+import {
+  buildQueryRewriteMessages,
+  formatHistoryMessages,
+  parseRewrittenQuery,
+  selectHistoryWithinBudget,
+  type ConversationStore,
+  type ConversationTurn,
+} from './generation/conversation';
+import type { QueryRecord, QueryRecorder, QuerySource } from './analytics/recorder';
 import {
   createTokenChunk,
   createCitationChunk,
@@ -45,6 +70,8 @@ import {
   createDoneChunk,
   createErrorChunk,
   createConfidenceChunk,
+  createFaithfulnessChunk,
+  splitReplayTokens,
   CitationDetector,
 } from './generation/streaming';
 
@@ -60,6 +87,14 @@ export interface RAGPipelineConfig {
   confidenceThreshold: number;
   /** Whether to include graph retrieval */
   includeGraph: boolean;
+  /** Maximum prior turns loaded for a session */
+  maxHistoryTurns: number;
+  /** Token budget for prior turns included in the generation prompt */
+  historyTokenBudget: number;
+  /** Whether to check answer claims against their cited sources */
+  verifyFaithfulness: boolean;
+  /** Whether code mode queries also search code snippet records */
+  codeRetrieval: boolean;
 }
 
 /**
@@ -70,6 +105,10 @@ const DEFAULT_CONFIG: RAGPipelineConfig = {
   rerankTopK: 5, // Return top 5 after reranking
   confidenceThreshold: 0.6,
   includeGraph: true,
+  maxHistoryTurns: 6,
+  historyTokenBudget: 1500,
+  verifyFaithfulness: process.env.FAITHFULNESS_VERIFICATION !== 'false',
+  codeRetrieval: true,
 };
 
 /**
@@ -78,8 +117,15 @@ const DEFAULT_CONFIG: RAGPipelineConfig = {
 export interface QueryContext {
   query: string;
   queryId: string;
+  /** Query used for retrieval (rewritten from a follow-up, or the original) */
+  standaloneQuery: string;
+  /** Number of prior turns included in the prompt */
+  historyTurnCount: number;
+  retrievalMode: RetrievalMode;
   retrievalResult: HybridRetrievalResult;
   rankedResults: RankedResult[];
+  /** Scorer that ranked the results (anything but 'reranker' is degraded) */
+  rerankScorer: RerankScorer;
   citations: Citation[];
   confidenceLevel: ConfidenceLevel;
   hasInsufficientEvidence: boolean;
@@ -92,16 +138,31 @@ export interface QueryContext {
  * RAGPipeline - Complete query processing pipeline
  *
  * Pipeline stages:
+ * 0. Conversation Memory: Load session history, rewrite follow-ups into standalone queries
  * 1. Hybrid Retrieval: Parallel vector + graph search with RRF fusion
- * 2. Reranking: Qwen3-Reranker-4B scoring
+ *    (plus code snippet search for queries asking for code)
+ * 2. Reranking: Qwen3-Reranker-4B scoring, degrading to a secondary
+ *    reranker, the local scorer, or RRF scores (confidence is calibrated
+ *    for the scorer used)
  * 3. Citation Generation: Create citations from ranked results
  * 4. Response Generation: Qwen3-32B with grounded prompts
+ * 5. Faithfulness Verification: Check each cited claim against its cited
+ *    chunks, flagging unsupported claims
+ *
+ * Standalone questions are first looked up in the semantic answer cache
+ * (when set); a hit skips stages 1-5 and replays the cached answer.
  */
 export class RAGPipeline {
   private hybridRetriever: HybridRetriever;
-  private reranker: Qwen3Reranker;
+  private reranker: FallbackReranker;
   private llm: Qwen3LLM;
+  private faithfulnessVerifier: FaithfulnessVerifier;
+  private embedder: Qwen3Embedding;
   private config: RAGPipelineConfig;
+  private conversationStore: ConversationStore | null = null;
+  private queryRecorder: QueryRecorder | null = null;
+  private versionTracker: EmbeddingVersionTracker | null = null;
+  private answerCache: SemanticAnswerCache | null = null;
 
   constructor(
     milvusClient: MilvusClient,
@@ -114,24 +175,62 @@ export class RAGPipeline {
     };
 
     // Initialize components
-    const embedder = createEmbedder();
+    this.embedder = createEmbedder();
 
     this.hybridRetriever = new HybridRetriever(
       milvusClient,
       neo4jDriver,
-      embedder,
+      this.embedder,
       {
         topK: this.config.retrievalTopK,
         includeGraph: this.config.includeGraph,
       }
     );
+    if (this.config.codeRetrieval) {
+      this.hybridRetriever.setCodeRetriever(
+        new CodeSnippetRetriever(milvusClient, neo4jDriver, this.embedder)
+      );
+    }
 
-    this.reranker = createReranker({
+    this.reranker = createFallbackReranker({
       topN: this.config.rerankTopK,
       confidenceThreshold: this.config.confidenceThreshold,
     });
 
     this.llm = createLLM();
+    this.faithfulnessVerifier = new FaithfulnessVerifier(this.llm);
+  }
+
+  /**
+   * Set the conversation store used for multi-turn memory.
+   * Without a store, every query is treated as standalone.
+   */
+  setConversationStore(store: ConversationStore | null): void {
+    this.conversationStore = store;
+  }
+
+  /**
+   * Set the tracker for versioned embedding collections. Vector search
+   * then follows the active version, switching when another is activated.
+   */
+  setEmbeddingVersions(tracker: EmbeddingVersionTracker | null): void {
+    this.versionTracker = tracker;
+    this.hybridRetriever.setVersionTracker(tracker);
+  }
+
+  /**
+   * Set the semantic answer cache. Without a cache, every question is
+   * answered by retrieval and generation.
+   */
+  setAnswerCache(cache: SemanticAnswerCache | null): void {
+    this.answerCache = cache;
+  }
+
+  /**
+   * Set the recorder notified of every completed query (analytics)
+   */
+  setQueryRecorder(recorder: QueryRecorder | null): void {
+    this.queryRecorder = recorder;
   }
 
   /**
@@ -143,17 +242,47 @@ export class RAGPipeline {
   async query(request: QueryRequest): Promise<QueryResponse> {
     const startTime = Date.now();
     const queryId = crypto.randomUUID();
+    getTracer().activeSpan()?.setAttribute('rag.query_id', queryId);
 
     try {
+      const history = await this.loadHistory(request.sessionId);
+      const cacheKey = await this.resolveCacheKey(request, history);
+      const cached = cacheKey && (await this.lookupCachedAnswer(cacheKey));
+
+      if (cached) {
+        const metadata = this.cachedMetadata(request, queryId, cached, startTime);
+        await this.recordTurn(
+          request,
+          { query: request.query, standaloneQuery: request.query, queryId },
+          cached.answer
+        );
+        this.recordCachedQuery(request, queryId, cached, metadata);
+
+        return {
+          queryId,
+          answer: cached.answer,
+          citations: cached.citations,
+          confidence: cached.confidence.level,
+          metadata,
+          ...(cached.faithfulness && { faithfulness: cached.faithfulness }),
+        };
+      }
+
       // Build query context through retrieval and reranking
-      const context = await this.buildContext(request, queryId);
+      const context = await this.buildContext(request, queryId, history, cacheKey?.embedding);
 
       // Generate response
-      const answer = await this.llm.complete(context.messages);
+      const answer = await getTracer().withSpan('rag.generation', () =>
+        this.llm.complete(context.messages)
+      );
 
       // Filter to only used citations
       const usedCitations = filterUsedCitations(context.citations, answer);
 
+      const faithfulness = await this.verifyAnswer(context, answer);
+
+      await this.recordTurn(request, context, answer);
+
       // Build response
       const metadata: ResponseMetadata = {
         queryId,
@@ -165,14 +294,22 @@ export class RAGPipeline {
         vectorResultCount: context.retrievalResult.metrics.vectorResultCount,
         graphResultCount: context.retrievalResult.metrics.graphResultCount,
         latencyMs: Date.now() - startTime,
+        rerankScorer: context.rerankScorer,
+        retrievalMode: context.retrievalMode,
+        ...this.standaloneQueryMetadata(context),
+        ...(faithfulness && { faithfulnessScore: faithfulness.score }),
       };
 
+      this.recordQuery(request, context, metadata);
+      this.cacheAnswer(cacheKey, context, answer, usedCitations, faithfulness);
+
       return {
         queryId,
         answer,
         citations: usedCitations,
         confidence: context.confidenceLevel,
         metadata,
+        ...(faithfulness && { faithfulness }),
       };
     } catch (error) {
       throw new Error(
@@ -190,10 +327,21 @@ export class RAGPipeline {
   async *queryStream(request: QueryRequest): AsyncGenerator<StreamChunk> {
     const startTime = Date.now();
     const queryId = crypto.randomUUID();
+    const tracer = getTracer();
+    tracer.activeSpan()?.setAttribute('rag.query_id', queryId);
 
     try {
+      const history = await this.loadHistory(request.sessionId);
+      const cacheKey = await this.resolveCacheKey(request, history);
+      const cached = cacheKey && (await this.lookupCachedAnswer(cacheKey));
+
+      if (cached) {
+        yield* this.replayCachedAnswer(request, queryId, cached, startTime);
+        return;
+      }
+
       // Build query context through retrieval and reranking
-      const context = await this.buildContext(request, queryId);
+      const context = await this.buildContext(request, queryId, history, cacheKey?.embedding);
 
       // Emit confidence information early in the stream
       // This allows the UI to show uncertainty indicators before the response arrives
@@ -206,30 +354,52 @@ export class RAGPipeline {
         level: context.confidenceLevel,
         hasInsufficientEvidence: context.hasInsufficientEvidence,
         topScore,
+        rerankScorer: context.rerankScorer,
       });
 
       // Set up citation detection
       const citationDetector = new CitationDetector(context.citations);
       let fullResponse = '';
+      let firstTokenLatencyMs: number | undefined;
 
       // Stream generation
-      for await (const chunk of this.llm.stream(context.messages)) {
-        if (chunk.content) {
-          fullResponse += chunk.content;
-          yield createTokenChunk(chunk.content);
-
-          // Check for citations
-          const detectedCitations = citationDetector.processToken(chunk.content);
-          for (const citation of detectedCitations) {
-            yield createCitationChunk(citation);
+      const generationSpan = tracer.startSpan('rag.generation', {
+        attributes: { 'rag.streaming': true },
+      });
+      const tokens = tracer.runGeneratorWithSpan(generationSpan, this.llm.stream(context.messages));
+      try {
+        for await (const chunk of tokens) {
+          if (chunk.content) {
+            fullResponse += chunk.content;
+            firstTokenLatencyMs ??= Date.now() - startTime;
+            yield createTokenChunk(chunk.content);
+
+            // Check for citations
+            const detectedCitations = citationDetector.processToken(chunk.content);
+            for (const citation of detectedCitations) {
+              yield createCitationChunk(citation);
+            }
           }
-        }
 
-        if (chunk.finishReason === 'stop') {
-          break;
+          if (chunk.finishReason === 'stop') {
+            break;
+          }
         }
+      } catch (error) {
+        generationSpan.recordError(error);
+        throw error;
+      } finally {
+        generationSpan.end();
       }
 
+      // Flag unsupported claims once the full answer is known
+      const faithfulness = await this.verifyAnswer(context, fullResponse);
+      if (faithfulness) {
+        yield createFaithfulnessChunk(faithfulness);
+      }
+
+      await this.recordTurn(request, context, fullResponse);
+
       // Emit metadata at the end
       const metadata: ResponseMetadata = {
         queryId,
@@ -239,8 +409,21 @@ export class RAGPipeline {
         vectorResultCount: context.retrievalResult.metrics.vectorResultCount,
         graphResultCount: context.retrievalResult.metrics.graphResultCount,
         latencyMs: Date.now() - startTime,
+        rerankScorer: context.rerankScorer,
+        retrievalMode: context.retrievalMode,
+        ...this.standaloneQueryMetadata(context),
+        ...(faithfulness && { faithfulnessScore: faithfulness.score }),
       };
 
+      this.recordQuery(request, context, metadata, firstTokenLatencyMs);
+      this.cacheAnswer(
+        cacheKey,
+        context,
+        fullResponse,
+        filterUsedCitations(context.citations, fullResponse),
+        faithfulness
+      );
+
       yield createMetadataChunk(metadata);
       yield createDoneChunk();
     } catch (error) {
@@ -255,7 +438,9 @@ export class RAGPipeline {
    */
   private async buildContext(
     request: QueryRequest,
-    queryId: string
+    queryId: string,
+    history: ConversationTurn[],
+    queryEmbedding?: number[]
   ): Promise<QueryContext> {
     const query = request.query;
     const topK = request.topK || this.config.rerankTopK;
@@ -264,16 +449,28 @@ export class RAGPipeline {
     // Initialize metrics collector
     const metricsCollector = createMetricsCollector(queryId, this.config.confidenceThreshold);
 
+    // Step 0: Resolve follow-ups using the conversation history
+    const standaloneQuery =
+      history.length > 0 ? await this.rewriteFollowUp(query, history) : query;
+
     // Step 1: Hybrid retrieval (timing is handled internally by HybridRetriever)
+    const retrievalMode = this.retrievalMode(request, standaloneQuery);
     const retrievalResult = await this.hybridRetriever.retrieve(
-      query,
+      standaloneQuery,
       this.config.retrievalTopK,
       includeGraph,
-      request.topicFilter
+      request.topicFilter,
+      queryEmbedding,
+      this.codeQuery(retrievalMode, standaloneQuery)
     );
 
     // Record retrieval metrics from hybrid retriever
     const retrievalMetrics = retrievalResult.metrics;
+    metricsCollector.recordStage('vectorSearch', retrievalMetrics.vectorSearchMs);
+    if (includeGraph) {
+      metricsCollector.recordStage('graphTraversal', retrievalMetrics.graphTraversalMs);
+    }
+    metricsCollector.recordStage('fusion', retrievalMetrics.fusionMs);
     metricsCollector.recordVectorResults(
       retrievalResult.results
         .filter((r) => r.vectorRank !== undefined)
@@ -286,23 +483,33 @@ export class RAGPipeline {
     );
     metricsCollector.recordFusionResults(retrievalResult.results);
 
-    // Step 2: Rerank fused results with timing
+    // Step 2: Rerank fused results with timing (degrades through the fallback chain)
     metricsCollector.startStage('rerank');
-    const rankedResults = await this.rerankFusedResults(
-      query,
-      retrievalResult.results,
-      topK
+    const { results: rankedResults, scorer: rerankScorer } = await getTracer().withSpan(
+      'rag.rerank',
+      async (span) => {
+        const reranked = await this.reranker.rerank(standaloneQuery, retrievalResult.results, topK);
+        span.setAttributes({
+          'rag.scorer': reranked.scorer,
+          'rag.result_count': reranked.results.length,
+        });
+        return reranked;
+      },
+      { attributes: { 'rag.candidate_count': retrievalResult.results.length, 'rag.top_k': topK } }
     );
     metricsCollector.stopStage('rerank');
 
     // Record reranking metrics
-    metricsCollector.recordRerankResults(rankedResults.map((r) => r.rerankScore));
+    metricsCollector.recordRerankResults(
+      rankedResults.map((r) => r.rerankScore),
+      rerankScorer
+    );
 
-    // Step 3: Determine confidence level
+    // Step 3: Determine confidence level, calibrated for the scorer used
     const topScore = rankedResults.length > 0 ? rankedResults[0].rerankScore : 0;
-    const confidenceLevel = getConfidenceLevel(topScore);
-    const insufficientEvidence = hasInsufficientEvidence(
+    const { level: confidenceLevel, insufficientEvidence } = getCalibratedConfidence(
       topScore,
+      rerankScorer,
       this.config.confidenceThreshold
     );
 
@@ -315,7 +522,8 @@ export class RAGPipeline {
       rankedResults,
       citations,
       insufficientEvidence,
-      confidenceLevel
+      confidenceLevel,
+      formatHistoryMessages(history)
     );
 
     // Record final context metrics
@@ -325,8 +533,12 @@ export class RAGPipeline {
     return {
       query,
       queryId,
+      standaloneQuery,
+      historyTurnCount: history.length,
+      retrievalMode,
       retrievalResult,
       rankedResults,
+      rerankScorer,
       citations,
       confidenceLevel,
       hasInsufficientEvidence: insufficientEvidence,
@@ -336,36 +548,406 @@ export class RAGPipeline {
   }
 
   /**
-   * Rerank fused results using Qwen3Reranker
+   * Load prior turns for a session, trimmed to the history token budget.
+   * History is best-effort: store failures degrade to a standalone query.
    */
-  private async rerankFusedResults(
-    query: string,
-    fusedResults: FusedResult[],
-    topK: number
-  ): Promise<RankedResult[]> {
-    if (fusedResults.length === 0) {
+  private async loadHistory(sessionId?: string): Promise<ConversationTurn[]> {
+    if (!sessionId || !this.conversationStore) {
       return [];
     }
 
-    // Extract content for reranking
-    const documents = fusedResults.map((r) => r.content);
+    try {
+      const turns = await this.conversationStore.getRecentTurns(
+        sessionId,
+        this.config.maxHistoryTurns
+      );
+      return selectHistoryWithinBudget(turns, this.config.historyTokenBudget);
+    } catch (error) {
+      console.warn('Failed to load conversation history:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Rewrite a follow-up question into a standalone retrieval query.
+   * Falls back to the original question if the LLM call fails.
+   */
+  private async rewriteFollowUp(
+    question: string,
+    history: ConversationTurn[]
+  ): Promise<string> {
+    try {
+      const output = await getTracer().withSpan(
+        'rag.query_rewrite',
+        () => this.llm.complete(buildQueryRewriteMessages(history, question)),
+        { attributes: { 'rag.history_turns': history.length } }
+      );
+      return parseRewrittenQuery(output, question);
+    } catch (error) {
+      console.warn('Follow-up rewrite failed, using original question:', error);
+      return question;
+    }
+  }
+
+  /**
+   * Check the answer's claims against their cited chunks and attach the
+   * result to the query's metrics. Verification is best-effort: failures
+   * are logged and the answer is returned unverified.
+   */
+  private async verifyAnswer(
+    context: QueryContext,
+    answer: string
+  ): Promise<FaithfulnessReport | null> {
+    if (!this.config.verifyFaithfulness || !answer || context.citations.length === 0) {
+      return null;
+    }
+
+    const startTime = Date.now();
+    try {
+      const report = await getTracer().withSpan('rag.faithfulness', async (span) => {
+        const verified = await this.faithfulnessVerifier.verify(
+          answer,
+          context.citations,
+          context.rankedResults
+        );
+        span.setAttributes({
+          'rag.faithfulness_score': verified.score ?? undefined,
+          'rag.claim_count': verified.claims.length,
+          'rag.unsupported_count': verified.unsupportedCount,
+        });
+        return verified;
+      });
+      if (context.detailedMetrics) {
+        context.detailedMetrics.faithfulness = {
+          score: report.score,
+          claimCount: report.claims.length,
+          unsupportedCount: report.unsupportedCount,
+          verifyMs: Date.now() - startTime,
+        };
+      }
+      return report;
+    } catch (error) {
+      console.warn('Faithfulness verification failed:', error);
+      return null;
+    }
+  }
 
-    // Rerank
-    const reranked = await this.reranker.rerank(query, documents);
+  /**
+   * Embed the question and resolve its cache scope. Only standalone
+   * questions are cached: answers to follow-ups depend on the conversation.
+   * The cache is best-effort, so failures skip it.
+   */
+  private async resolveCacheKey(
+    request: QueryRequest,
+    history: ConversationTurn[]
+  ): Promise<{ scope: AnswerCacheScope; embedding: number[] } | null> {
+    if (!this.answerCache || history.length > 0) {
+      return null;
+    }
+
+    try {
+      // Embed with the active collection's model, so retrieval can reuse the vector on a miss
+      const target = this.versionTracker
+        ? (await this.versionTracker.resolve()).active
+        : { version: null, embedder: this.embedder };
 
-    // Map back to RankedResult format
-    return reranked.slice(0, topK).map((r) => {
-      const original = fusedResults[r.index];
       return {
-        id: original.id,
-        content: original.content,
-        rerankScore: r.score,
-        originalFusedScore: original.fusedScore,
-        metadata: original.metadata,
+        scope: {
+          embeddingVersion: target.version,
+          documentSetRevision: await this.answerCache.getDocumentSetRevision(),
+          topK: request.topK || this.config.rerankTopK,
+          includeGraph: request.includeGraph ?? this.config.includeGraph,
+          topicFilter: request.topicFilter,
+          ...this.codeCacheScope(request),
+        },
+        embedding: await target.embedder.getQueryEmbedding(request.query),
+      };
+    } catch (error) {
+      console.warn('Answer cache unavailable, answering without it:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Look up a cached answer for a question
+   */
+  private async lookupCachedAnswer(cacheKey: {
+    scope: AnswerCacheScope;
+    embedding: number[];
+  }): Promise<AnswerCacheEntry | null> {
+    try {
+      const hit = await this.answerCache!.lookup(cacheKey.scope, cacheKey.embedding);
+      return hit?.entry ?? null;
+    } catch (error) {
+      console.warn('Answer cache lookup failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Cache a generated answer. Answers with insufficient evidence, without
+   * citations or with unsupported claims are not reused.
+   * Fire-and-forget: caching must never delay or fail the response.
+   */
+  private cacheAnswer(
+    cacheKey: { scope: AnswerCacheScope; embedding: number[] } | null,
+    context: QueryContext,
+    answer: string,
+    usedCitations: Citation[],
+    faithfulness: FaithfulnessReport | null
+  ): void {
+    if (
+      !cacheKey ||
+      !this.answerCache ||
+      context.hasInsufficientEvidence ||
+      usedCitations.length === 0 ||
+      (faithfulness?.unsupportedCount ?? 0) > 0
+    ) {
+      return;
+    }
+
+    const topScore = context.rankedResults.length > 0 ? context.rankedResults[0].rerankScore : 0;
+
+    this.answerCache
+      .store(
+        cacheKey.scope,
+        context.query,
+        cacheKey.embedding,
+        {
+          answer,
+          citations: usedCitations,
+          confidence: {
+            level: context.confidenceLevel,
+            hasInsufficientEvidence: context.hasInsufficientEvidence,
+            topScore,
+            rerankScorer: context.rerankScorer,
+          },
+          ...(faithfulness && { faithfulness }),
+          strategy: context.retrievalResult.metrics.strategy ?? 'hybrid',
+          vectorResultCount: context.retrievalResult.metrics.vectorResultCount,
+          graphResultCount: context.retrievalResult.metrics.graphResultCount,
+          sources: this.querySources(context),
+        },
+        citedDocumentUrls(context.rankedResults, usedCitations)
+      )
+      .catch((error) => {
+        console.warn('Failed to cache answer:', error);
+      });
+  }
+
+  /**
+   * Metadata for an answer served from the cache
+   */
+  private cachedMetadata(
+    request: QueryRequest,
+    queryId: string,
+    cached: AnswerCacheEntry,
+    startTime: number
+  ): ResponseMetadata {
+    return {
+      queryId,
+      totalTokens: this.estimateTokens(cached.answer),
+      citationCount: cached.citations.length,
+      confidence: cached.confidence.level,
+      vectorResultCount: cached.vectorResultCount,
+      graphResultCount: cached.graphResultCount,
+      latencyMs: Date.now() - startTime,
+      rerankScorer: cached.confidence.rerankScorer ?? 'reranker',
+      retrievalMode: this.retrievalMode(request, request.query),
+      ...(cached.faithfulness && { faithfulnessScore: cached.faithfulness.score }),
+      cacheHit: true,
+    };
+  }
+
+  /**
+   * Stream a cached answer as a live one: confidence, tokens with
+   * citations as they are first mentioned, faithfulness, metadata, done
+   */
+  private async *replayCachedAnswer(
+    request: QueryRequest,
+    queryId: string,
+    cached: AnswerCacheEntry,
+    startTime: number
+  ): AsyncGenerator<StreamChunk> {
+    yield createConfidenceChunk(cached.confidence);
+
+    const citationDetector = new CitationDetector(cached.citations);
+    const firstTokenLatencyMs = Date.now() - startTime;
+    for (const token of splitReplayTokens(cached.answer)) {
+      yield createTokenChunk(token);
+      for (const citation of citationDetector.processToken(token)) {
+        yield createCitationChunk(citation);
+      }
+    }
+
+    if (cached.faithfulness) {
+      yield createFaithfulnessChunk(cached.faithfulness);
+    }
+
+    await this.recordTurn(
+      request,
+      { query: request.query, standaloneQuery: request.query, queryId },
+      cached.answer
+    );
+
+    const metadata = this.cachedMetadata(request, queryId, cached, startTime);
+    this.recordCachedQuery(request, queryId, cached, metadata, firstTokenLatencyMs);
+
+    yield createMetadataChunk(metadata);
+    yield createDoneChunk();
+  }
+
+  /**
+   * Persist a completed turn for the request's session
+   */
+  private async recordTurn(
+    request: QueryRequest,
+    context: Pick<QueryContext, 'query' | 'standaloneQuery' | 'queryId'>,
+    answer: string
+  ): Promise<void> {
+    if (!request.sessionId || !this.conversationStore || !answer) {
+      return;
+    }
+
+    try {
+      await this.conversationStore.appendTurn(request.sessionId, {
+        question: context.query,
+        answer,
+        standaloneQuery:
+          context.standaloneQuery !== context.query ? context.standaloneQuery : undefined,
+        queryId: context.queryId,
+      });
+    } catch (error) {
+      console.warn('Failed to record conversation turn:', error);
+    }
+  }
+
+  /**
+   * Ranked sources of a query, with the retriever that found each
+   */
+  private querySources(context: QueryContext): QuerySource[] {
+    const fusedById = new Map(context.retrievalResult.results.map((r) => [r.id, r]));
+    return context.rankedResults.map((r) => {
+      const fused = fusedById.get(r.id);
+      return {
+        chunkId: r.id,
+        source:
+          fused?.graphRank !== undefined && fused.vectorRank === undefined
+            ? 'graph'
+            : 'vector',
+        documentUrl: r.metadata.documentUrl,
+        chunkIndex: r.metadata.chunkIndex,
+        rerankScore: r.rerankScore,
       };
     });
   }
 
+  /**
+   * Report a completed query to the recorder
+   */
+  private recordQuery(
+    request: QueryRequest,
+    context: QueryContext,
+    metadata: ResponseMetadata,
+    firstTokenLatencyMs?: number
+  ): void {
+    if (!this.queryRecorder) return;
+
+    this.submitRecord({
+      queryId: context.queryId,
+      sessionId: request.sessionId,
+      userId: request.userId,
+      query: context.query,
+      standaloneQuery: context.standaloneQuery,
+      topicFilter: request.topicFilter,
+      strategy: context.retrievalResult.metrics.strategy ?? 'hybrid',
+      confidence: context.confidenceLevel,
+      latencyMs: metadata.latencyMs,
+      firstTokenLatencyMs,
+      vectorResultCount: metadata.vectorResultCount,
+      graphResultCount: metadata.graphResultCount,
+      metrics: context.detailedMetrics,
+      sources: this.querySources(context),
+    });
+  }
+
+  /**
+   * Report a query answered from the cache. It has no retrieval metrics;
+   * sources are those the cached answer was generated from.
+   */
+  private recordCachedQuery(
+    request: QueryRequest,
+    queryId: string,
+    cached: AnswerCacheEntry,
+    metadata: ResponseMetadata,
+    firstTokenLatencyMs?: number
+  ): void {
+    this.submitRecord({
+      queryId,
+      sessionId: request.sessionId,
+      userId: request.userId,
+      query: request.query,
+      standaloneQuery: request.query,
+      topicFilter: request.topicFilter,
+      strategy: cached.strategy,
+      confidence: cached.confidence.level,
+      latencyMs: metadata.latencyMs,
+      firstTokenLatencyMs,
+      vectorResultCount: cached.vectorResultCount,
+      graphResultCount: cached.graphResultCount,
+      sources: cached.sources,
+      cacheHit: true,
+    });
+  }
+
+  /**
+   * Hand a record to the recorder.
+   * Fire-and-forget: recording must never delay or fail the response.
+   */
+  private submitRecord(record: QueryRecord): void {
+    this.queryRecorder?.record(record).catch((error) => {
+      console.error('Failed to record query:', error);
+    });
+  }
+
+  /**
+   * Retrieval mode of a query: as requested, or detected from the query
+   */
+  private retrievalMode(request: QueryRequest, query: string): RetrievalMode {
+    return request.retrievalMode ?? detectRetrievalMode(query);
+  }
+
+  /**
+   * Code search options in code mode: the language the query names
+   */
+  private codeQuery(mode: RetrievalMode, query: string): CodeQuery | undefined {
+    return mode === 'code' ? { language: mentionedLanguage(query) } : undefined;
+  }
+
+  /**
+   * Cache scope fields for code mode, so answers with code in one
+   * language are not served for another
+   */
+  private codeCacheScope(
+    request: QueryRequest
+  ): Pick<AnswerCacheScope, 'retrievalMode' | 'codeLanguage'> {
+    const mode = this.retrievalMode(request, request.query);
+    return mode === 'code'
+      ? { retrievalMode: mode, codeLanguage: mentionedLanguage(request.query) }
+      : {};
+  }
+
+  /**
+   * Metadata fields describing follow-up rewriting (only when it happened)
+   */
+  private standaloneQueryMetadata(
+    context: QueryContext
+  ): Pick<ResponseMetadata, 'standaloneQuery'> {
+    return context.standaloneQuery !== context.query
+      ? { standaloneQuery: context.standaloneQuery }
+      : {};
+  }
+
   /**
    * Estimate token count (rough approximation)
    */
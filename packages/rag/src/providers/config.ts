@@ -0,0 +1,253 @@
+/**
+ * Model Configuration
+ *
+ * Loads the model providers and the model each role uses from a single
+ * JSON file, named by MODELS_CONFIG:
+ *
+ * ```json
+ * {
+ *   "providers": {
+ *     "vllm": { "type": "openai", "baseUrl": "http://localhost:8000/v1", "timeoutMs": 120000 },
+ *     "tei": { "type": "tei", "baseUrl": "http://localhost:8080", "retry": { "maxRetries": 1 } }
+ *   },
+ *   "roles": {
+ *     "llm": { "provider": "vllm", "model": "Qwen/Qwen3-32B", "maxTokens": 4096 },
+ *     "embedding": { "provider": "tei", "model": "Qwen/Qwen3-Embedding-8B", "dimensions": 4096 },
+ *     "reranker": { "provider": "tei", "model": "Qwen/Qwen3-Reranker-4B" }
+ *   }
+ * }
+ * ```
+ *
+ * String values may reference environment variables as `${NAME}`, so API
+ * keys stay out of the file. Without MODELS_CONFIG the configuration is
+ * built from the LLM_*, EMBEDDING_* and RERANKER_* variables.
+ *
+ * @module @jubilant/rag/providers/config
+ */
+
+import { readFileSync } from 'node:fs';
+import { z } from 'zod';
+import { DEFAULT_RETRY_CONFIG } from '../generation/errors';
+import type { ModelCapability, ProviderConfig } from './http';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Roles a model can be selected for
+ */
+export type ModelRole = 'llm' | 'embedding' | 'reranker' | 'rerankerFallback';
+
+/**
+ * Capability each role needs from its provider
+ */
+export const ROLE_CAPABILITIES: Record<ModelRole, ModelCapability> = {
+  llm: 'chat',
+  embedding: 'embed',
+  reranker: 'rerank',
+  rerankerFallback: 'rerank',
+};
+
+/**
+ * Model selection for a role
+ */
+export interface RoleConfig {
+  /** Name of the provider serving the model */
+  provider: string;
+  /** Model name sent to the provider */
+  model: string;
+  /** Maximum tokens to generate (llm) */
+  maxTokens?: number;
+  /** Temperature for generation (llm) */
+  temperature?: number;
+  /** Embedding dimensions (embedding) */
+  dimensions?: number;
+}
+
+/**
+ * Resolved model configuration
+ */
+export interface ModelsConfig {
+  providers: ProviderConfig[];
+  roles: Partial<Record<ModelRole, RoleConfig>>;
+}
+
+/**
+ * Invalid model configuration
+ */
+export class ModelsConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModelsConfigError';
+  }
+}
+
+// ============================================================================
+// File Schema
+// ============================================================================
+
+const retrySchema = z
+  .object({
+    maxRetries: z.number().int().min(0),
+    initialDelayMs: z.number().int().min(0),
+    maxDelayMs: z.number().int().min(0),
+    backoffFactor: z.number().min(1),
+  })
+  .partial();
+
+const providerSchema = z.object({
+  type: z.enum(['openai', 'ollama', 'tei']),
+  baseUrl: z.string().url(),
+  apiKey: z.string().optional(),
+  timeoutMs: z.number().int().positive().optional(),
+  retry: retrySchema.optional(),
+});
+
+const roleSchema = z.object({
+  provider: z.string().min(1),
+  model: z.string().min(1),
+  maxTokens: z.number().int().positive().optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  dimensions: z.number().int().positive().optional(),
+});
+
+const modelsFileSchema = z.object({
+  providers: z.record(providerSchema),
+  roles: z.object({
+    llm: roleSchema,
+    embedding: roleSchema,
+    reranker: roleSchema,
+    rerankerFallback: roleSchema.optional(),
+  }),
+});
+
+/**
+ * Default request timeouts, by role of the env-configured providers
+ */
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_LLM_TIMEOUT_MS = 120000; // 2 minutes for long responses
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Replace `${NAME}` references with environment variable values
+ */
+function interpolateEnv(value: unknown, env: NodeJS.ProcessEnv): unknown {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{(\w+)\}/g, (_match, name: string) => env[name] ?? '');
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => interpolateEnv(item, env));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, interpolateEnv(item, env)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Parse and validate the contents of a models config file
+ *
+ * @param raw - Parsed JSON from the file
+ * @param env - Environment for `${NAME}` references
+ * @throws ModelsConfigError if the configuration is invalid
+ */
+export function parseModelsConfig(raw: unknown, env: NodeJS.ProcessEnv = process.env): ModelsConfig {
+  const parsed = modelsFileSchema.safeParse(interpolateEnv(raw, env));
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new ModelsConfigError(`Invalid models config: ${issues}`);
+  }
+
+  const providers: ProviderConfig[] = Object.entries(parsed.data.providers).map(([name, p]) => ({
+    name,
+    type: p.type,
+    baseUrl: p.baseUrl.replace(/\/+$/, ''),
+    apiKey: p.apiKey || undefined,
+    timeoutMs: p.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    retry: { ...DEFAULT_RETRY_CONFIG, ...p.retry },
+  }));
+
+  return { providers, roles: parsed.data.roles };
+}
+
+/**
+ * Build the configuration from LLM_*, EMBEDDING_* and RERANKER_* variables:
+ * one OpenAI-compatible provider per role. The reranker is not retried,
+ * since the fallback chain handles its failures.
+ */
+export function modelsConfigFromEnv(env: NodeJS.ProcessEnv = process.env): ModelsConfig {
+  const provider = (
+    name: string,
+    baseUrl: string,
+    apiKey: string | undefined,
+    timeoutMs: number,
+    maxRetries: number
+  ): ProviderConfig => ({
+    name,
+    type: 'openai',
+    baseUrl,
+    apiKey: apiKey || undefined,
+    timeoutMs,
+    retry: { ...DEFAULT_RETRY_CONFIG, maxRetries },
+  });
+
+  const config: ModelsConfig = {
+    providers: [
+      provider('llm', env.LLM_BASE_URL || 'http://localhost:8000/v1', env.LLM_API_KEY,
+        DEFAULT_LLM_TIMEOUT_MS, DEFAULT_RETRY_CONFIG.maxRetries),
+      provider('embedding', env.EMBEDDING_BASE_URL || 'http://localhost:8001/v1', env.EMBEDDING_API_KEY,
+        DEFAULT_TIMEOUT_MS, DEFAULT_RETRY_CONFIG.maxRetries),
+      provider('reranker', env.RERANKER_BASE_URL || 'http://localhost:8002/v1', env.RERANKER_API_KEY,
+        DEFAULT_TIMEOUT_MS, 0),
+    ],
+    roles: {
+      llm: { provider: 'llm', model: env.LLM_MODEL || 'Qwen/Qwen3-32B' },
+      embedding: { provider: 'embedding', model: env.EMBEDDING_MODEL || 'Qwen/Qwen3-Embedding-8B' },
+      reranker: { provider: 'reranker', model: env.RERANKER_MODEL || 'Qwen/Qwen3-Reranker-4B' },
+    },
+  };
+
+  if (env.RERANKER_FALLBACK_BASE_URL) {
+    config.providers.push(
+      provider('rerankerFallback', env.RERANKER_FALLBACK_BASE_URL, env.RERANKER_FALLBACK_API_KEY,
+        DEFAULT_TIMEOUT_MS, 0)
+    );
+    config.roles.rerankerFallback = {
+      provider: 'rerankerFallback',
+      model: env.RERANKER_FALLBACK_MODEL || config.roles.reranker!.model,
+    };
+  }
+
+  return config;
+}
+
+/**
+ * Load the model configuration: the file named by MODELS_CONFIG, or the
+ * environment variables when it is not set
+ *
+ * @throws ModelsConfigError if the file cannot be read or is invalid
+ */
+export function loadModelsConfig(env: NodeJS.ProcessEnv = process.env): ModelsConfig {
+  const path = env.MODELS_CONFIG;
+  if (!path) {
+    return modelsConfigFromEnv(env);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ModelsConfigError(`Cannot read models config ${path}: ${message}`);
+  }
+
+  return parseModelsConfig(raw, env);
+}
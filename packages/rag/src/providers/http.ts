@@ -0,0 +1,520 @@
+/**
+ * HTTP Model Providers
+ *
+ * Adapters for the HTTP APIs local model servers expose, so the LLM,
+ * embedding and reranker clients are not tied to one server:
+ * - `openai`: OpenAI-compatible servers (vLLM, SGLang, llama.cpp, LM Studio)
+ * - `ollama`: Ollama's native API
+ * - `tei`: Hugging Face Text Embeddings Inference (embeddings and reranking)
+ *
+ * Every request gets the provider's timeout, and transient failures are
+ * retried with the provider's retry configuration, classified with
+ * `classifyLLMError`.
+ *
+ * @module @jubilant/rag/providers/http
+ */
+
+import type { ComponentHealth } from '../types';
+import type { ChatMessage } from '../generation/llm';
+import {
+  DEFAULT_RETRY_CONFIG,
+  LLMServiceError,
+  withRetry,
+  type RetryConfig,
+} from '../generation/errors';
+import { getTracer } from '../monitoring/tracing';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * HTTP API a provider speaks
+ */
+export type ProviderType = 'openai' | 'ollama' | 'tei';
+
+/**
+ * Operations a provider can serve
+ */
+export type ModelCapability = 'chat' | 'embed' | 'rerank';
+
+/**
+ * Configuration for a model provider
+ */
+export interface ProviderConfig {
+  /** Name the provider is referred to by */
+  name: string;
+  /** HTTP API the server speaks */
+  type: ProviderType;
+  /** Base URL, including any version prefix (e.g. http://localhost:8000/v1) */
+  baseUrl: string;
+  /** API key (optional for local deployments) */
+  apiKey?: string;
+  /** Request timeout in milliseconds */
+  timeoutMs: number;
+  /** Retry configuration for transient failures */
+  retry: RetryConfig;
+}
+
+/**
+ * Generation options for chat requests
+ */
+export interface ChatOptions {
+  model: string;
+  maxTokens?: number;
+  temperature?: number;
+}
+
+/**
+ * Relevance score for one reranked document
+ */
+export interface RerankScore {
+  /** Index of the document in the request */
+  index: number;
+  score: number;
+}
+
+/**
+ * A model server reachable over HTTP
+ */
+export interface ModelProvider {
+  readonly name: string;
+  readonly type: ProviderType;
+  readonly baseUrl: string;
+  readonly capabilities: readonly ModelCapability[];
+  /** Generate a complete chat response */
+  chat(messages: ChatMessage[], options: ChatOptions): Promise<string>;
+  /** Stream a chat response as content deltas */
+  chatStream(messages: ChatMessage[], options: ChatOptions): AsyncGenerator<string>;
+  /** Embed texts, returning one vector per input in input order */
+  embed(input: string[], model: string): Promise<number[][]>;
+  /** Score documents against a query, in any order */
+  rerank(query: string, documents: string[], model: string, topN?: number): Promise<RerankScore[]>;
+  /** Check that the server is reachable */
+  healthCheck(): Promise<ComponentHealth>;
+}
+
+/**
+ * Timeout for health check pings
+ */
+const HEALTH_CHECK_TIMEOUT_MS = 5000;
+
+// ============================================================================
+// Stream Helpers
+// ============================================================================
+
+/**
+ * Read a response body line by line
+ */
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      yield* lines;
+    }
+
+    buffer += decoder.decode();
+    if (buffer) {
+      yield buffer;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// ============================================================================
+// Base Provider
+// ============================================================================
+
+/**
+ * Shared request handling: auth header, timeout, error messages and retries
+ */
+abstract class HttpModelProvider implements ModelProvider {
+  abstract readonly type: ProviderType;
+  abstract readonly capabilities: readonly ModelCapability[];
+  protected config: ProviderConfig;
+
+  constructor(config: ProviderConfig) {
+    this.config = config;
+  }
+
+  get name(): string {
+    return this.config.name;
+  }
+
+  get baseUrl(): string {
+    return this.config.baseUrl;
+  }
+
+  chat(_messages: ChatMessage[], _options: ChatOptions): Promise<string> {
+    return Promise.reject(this.unsupported('chat'));
+  }
+
+  async *chatStream(_messages: ChatMessage[], _options: ChatOptions): AsyncGenerator<string> {
+    throw this.unsupported('chat');
+  }
+
+  embed(_input: string[], _model: string): Promise<number[][]> {
+    return Promise.reject(this.unsupported('embed'));
+  }
+
+  rerank(_query: string, _documents: string[], _model: string, _topN?: number): Promise<RerankScore[]> {
+    return Promise.reject(this.unsupported('rerank'));
+  }
+
+  /**
+   * Path pinged by health checks
+   */
+  protected abstract readonly healthPath: string;
+
+  async healthCheck(): Promise<ComponentHealth> {
+    const start = Date.now();
+
+    try {
+      await this.fetchOnce(
+        this.healthPath,
+        { method: 'GET' },
+        'Health check',
+        Math.min(this.config.timeoutMs, HEALTH_CHECK_TIMEOUT_MS),
+        async () => undefined
+      );
+      return { healthy: true, latencyMs: Date.now() - start };
+    } catch (error) {
+      return {
+        healthy: false,
+        latencyMs: Date.now() - start,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * POST a JSON body and parse the JSON response, with retries
+   */
+  protected postJSON<T>(path: string, body: unknown, label: string): Promise<T> {
+    return withRetry(
+      () => this.fetchOnce(
+        path,
+        { method: 'POST', body: JSON.stringify(body) },
+        label,
+        this.config.timeoutMs,
+        async (response) => (await response.json()) as T
+      ),
+      this.config.retry,
+      label
+    );
+  }
+
+  /**
+   * POST a JSON body and return the streaming response body. The timeout
+   * covers the wait for response headers; failures before the stream
+   * starts are retried.
+   */
+  protected postStream(path: string, body: unknown, label: string): Promise<ReadableStream<Uint8Array>> {
+    return withRetry(
+      () => this.fetchOnce(
+        path,
+        { method: 'POST', body: JSON.stringify(body) },
+        label,
+        this.config.timeoutMs,
+        async (response) => {
+          if (!response.body) {
+            throw new Error(`${label} API returned an empty stream`);
+          }
+          return response.body;
+        }
+      ),
+      this.config.retry,
+      label
+    );
+  }
+
+  /**
+   * Make one request, reading the response before the timeout expires
+   */
+  private async fetchOnce<T>(
+    path: string,
+    init: { method: 'GET' | 'POST'; body?: string },
+    label: string,
+    timeoutMs: number,
+    read: (response: Response) => Promise<T>
+  ): Promise<T> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    // Continue the caller's trace on model servers that support it
+    const span = getTracer().activeSpan();
+
+    try {
+      const response = await fetch(`${this.config.baseUrl}${path}`, {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.config.apiKey && {
+            Authorization: `Bearer ${this.config.apiKey}`,
+          }),
+          ...(span && { traceparent: span.traceparent() }),
+        },
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`${label} API error: ${response.status} - ${error}`);
+      }
+
+      return await read(response);
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error(`${label} API timed out after ${timeoutMs}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Error for an operation this provider type cannot serve
+   */
+  private unsupported(capability: ModelCapability): LLMServiceError {
+    return new LLMServiceError(
+      `Provider "${this.config.name}" (${this.type}) does not support ${capability}`,
+      'MODEL_ERROR'
+    );
+  }
+}
+
+// ============================================================================
+// OpenAI-Compatible Provider
+// ============================================================================
+
+interface OpenAIChatResponse {
+  choices: Array<{ message: { content: string | null } }>;
+}
+
+interface OpenAIStreamChunk {
+  choices: Array<{ delta: { content?: string | null } }>;
+}
+
+interface OpenAIEmbeddingResponse {
+  data: Array<{ index: number; embedding: number[] }>;
+}
+
+interface OpenAIRerankResponse {
+  results?: Array<{ index: number; relevance_score: number }>;
+}
+
+/**
+ * OpenAI-compatible API: /chat/completions, /embeddings and /rerank
+ * (the Jina/Cohere-style endpoint vLLM serves for reranker models)
+ */
+export class OpenAICompatibleProvider extends HttpModelProvider {
+  readonly type = 'openai' as const;
+  readonly capabilities = ['chat', 'embed', 'rerank'] as const;
+  protected readonly healthPath = '/models';
+
+  async chat(messages: ChatMessage[], options: ChatOptions): Promise<string> {
+    const response = await this.postJSON<OpenAIChatResponse>(
+      '/chat/completions',
+      this.chatBody(messages, options, false),
+      'LLM'
+    );
+    return response.choices[0]?.message.content ?? '';
+  }
+
+  async *chatStream(messages: ChatMessage[], options: ChatOptions): AsyncGenerator<string> {
+    const body = await this.postStream('/chat/completions', this.chatBody(messages, options, true), 'LLM');
+
+    for await (const line of readLines(body)) {
+      if (!line.startsWith('data:')) continue;
+
+      const data = line.slice(5).trim();
+      if (data === '[DONE]') return;
+
+      const chunk = JSON.parse(data) as OpenAIStreamChunk;
+      const content = chunk.choices[0]?.delta.content;
+      if (content) {
+        yield content;
+      }
+    }
+  }
+
+  async embed(input: string[], model: string): Promise<number[][]> {
+    const response = await this.postJSON<OpenAIEmbeddingResponse>(
+      '/embeddings',
+      { model, input, encoding_format: 'float' },
+      'Embedding'
+    );
+
+    // Sort by index to maintain order
+    return response.data.sort((a, b) => a.index - b.index).map((d) => d.embedding);
+  }
+
+  async rerank(query: string, documents: string[], model: string, topN?: number): Promise<RerankScore[]> {
+    const response = await this.postJSON<OpenAIRerankResponse>(
+      '/rerank',
+      { model, query, documents, top_n: topN },
+      'Reranker'
+    );
+
+    if (!response.results || !Array.isArray(response.results)) {
+      throw new Error(`Invalid reranker response format: ${JSON.stringify(response)}`);
+    }
+
+    return response.results.map((r) => ({ index: r.index, score: r.relevance_score }));
+  }
+
+  private chatBody(messages: ChatMessage[], options: ChatOptions, stream: boolean) {
+    return {
+      model: options.model,
+      messages,
+      max_tokens: options.maxTokens,
+      temperature: options.temperature,
+      stream,
+    };
+  }
+}
+
+// ============================================================================
+// Ollama Provider
+// ============================================================================
+
+interface OllamaChatResponse {
+  message?: { content: string };
+  done?: boolean;
+  error?: string;
+}
+
+interface OllamaEmbedResponse {
+  embeddings: number[][];
+}
+
+/**
+ * Ollama's native API: /api/chat (NDJSON streaming) and /api/embed.
+ * Base URL is the server root, e.g. http://localhost:11434
+ */
+export class OllamaProvider extends HttpModelProvider {
+  readonly type = 'ollama' as const;
+  readonly capabilities = ['chat', 'embed'] as const;
+  protected readonly healthPath = '/api/tags';
+
+  async chat(messages: ChatMessage[], options: ChatOptions): Promise<string> {
+    const response = await this.postJSON<OllamaChatResponse>(
+      '/api/chat',
+      this.chatBody(messages, options, false),
+      'LLM'
+    );
+    return response.message?.content ?? '';
+  }
+
+  async *chatStream(messages: ChatMessage[], options: ChatOptions): AsyncGenerator<string> {
+    const body = await this.postStream('/api/chat', this.chatBody(messages, options, true), 'LLM');
+
+    for await (const line of readLines(body)) {
+      if (!line.trim()) continue;
+
+      const chunk = JSON.parse(line) as OllamaChatResponse;
+      if (chunk.error) {
+        throw new Error(`LLM API error: ${chunk.error}`);
+      }
+      if (chunk.message?.content) {
+        yield chunk.message.content;
+      }
+      if (chunk.done) return;
+    }
+  }
+
+  async embed(input: string[], model: string): Promise<number[][]> {
+    const response = await this.postJSON<OllamaEmbedResponse>('/api/embed', { model, input }, 'Embedding');
+    return response.embeddings;
+  }
+
+  private chatBody(messages: ChatMessage[], options: ChatOptions, stream: boolean) {
+    return {
+      model: options.model,
+      messages,
+      stream,
+      options: {
+        num_predict: options.maxTokens,
+        temperature: options.temperature,
+      },
+    };
+  }
+}
+
+// ============================================================================
+// TEI Provider
+// ============================================================================
+
+/**
+ * Text Embeddings Inference API: /embed and /rerank. A TEI server serves
+ * the one model it was started with, so model names are not sent.
+ */
+export class TEIProvider extends HttpModelProvider {
+  readonly type = 'tei' as const;
+  readonly capabilities = ['embed', 'rerank'] as const;
+  protected readonly healthPath = '/health';
+
+  async embed(input: string[], _model: string): Promise<number[][]> {
+    return this.postJSON<number[][]>('/embed', { inputs: input, truncate: true }, 'Embedding');
+  }
+
+  async rerank(query: string, documents: string[], _model: string, _topN?: number): Promise<RerankScore[]> {
+    const response = await this.postJSON<Array<{ index: number; score: number }>>(
+      '/rerank',
+      { query, texts: documents, truncate: true },
+      'Reranker'
+    );
+
+    if (!Array.isArray(response)) {
+      throw new Error(`Invalid reranker response format: ${JSON.stringify(response)}`);
+    }
+
+    return response.map((r) => ({ index: r.index, score: r.score }));
+  }
+}
+
+// ============================================================================
+// Factory
+// ============================================================================
+
+/**
+ * Create the provider adapter for a provider configuration
+ */
+export function createModelProvider(config: ProviderConfig): ModelProvider {
+  switch (config.type) {
+    case 'openai':
+      return new OpenAICompatibleProvider(config);
+    case 'ollama':
+      return new OllamaProvider(config);
+    case 'tei':
+      return new TEIProvider(config);
+  }
+}
+
+/**
+ * Create an OpenAI-compatible provider for a client configured with just a
+ * base URL, as the clients were before providers existed
+ */
+export function createDefaultProvider(
+  name: string,
+  options: { baseUrl: string; apiKey?: string; timeoutMs: number; retry?: Partial<RetryConfig> }
+): ModelProvider {
+  return new OpenAICompatibleProvider({
+    name,
+    type: 'openai',
+    baseUrl: options.baseUrl,
+    apiKey: options.apiKey,
+    timeoutMs: options.timeoutMs,
+    retry: { ...DEFAULT_RETRY_CONFIG, ...options.retry },
+  });
+}
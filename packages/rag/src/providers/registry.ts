@@ -0,0 +1,169 @@
+/**
+ * Model Provider Registry
+ *
+ * Holds the configured model providers and resolves which provider and
+ * model serve each role (LLM, embedding, reranker). The LLM, embedding and
+ * reranker factories build their clients from the default registry.
+ *
+ * @module @jubilant/rag/providers/registry
+ */
+
+import type { ComponentHealth } from '../types';
+import {
+  ROLE_CAPABILITIES,
+  ModelsConfigError,
+  loadModelsConfig,
+  type ModelRole,
+  type ModelsConfig,
+  type RoleConfig,
+} from './config';
+import { createModelProvider, type ModelProvider, type ProviderType } from './http';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Provider and model resolved for a role
+ */
+export interface ModelBinding extends RoleConfig {
+  role: ModelRole;
+  /** Provider adapter serving the model */
+  client: ModelProvider;
+}
+
+/**
+ * Health of one configured provider
+ */
+export interface ProviderHealth extends ComponentHealth {
+  name: string;
+  type: ProviderType;
+  baseUrl: string;
+  /** Roles the provider serves */
+  roles: ModelRole[];
+}
+
+// ============================================================================
+// ModelRegistry Class
+// ============================================================================
+
+/**
+ * ModelRegistry - Configured providers and per-role model selection
+ */
+export class ModelRegistry {
+  private providers: Map<string, ModelProvider>;
+  private roles: Partial<Record<ModelRole, RoleConfig>>;
+
+  /**
+   * @throws ModelsConfigError if a role names an unknown provider, or one
+   * that cannot serve it
+   */
+  constructor(config: ModelsConfig) {
+    this.providers = new Map(config.providers.map((p) => [p.name, createModelProvider(p)]));
+    this.roles = config.roles;
+
+    for (const [role, selection] of Object.entries(config.roles) as Array<[ModelRole, RoleConfig]>) {
+      const provider = this.providers.get(selection.provider);
+      if (!provider) {
+        throw new ModelsConfigError(`Role "${role}" uses unknown provider "${selection.provider}"`);
+      }
+      if (!provider.capabilities.includes(ROLE_CAPABILITIES[role])) {
+        throw new ModelsConfigError(
+          `Role "${role}" needs ${ROLE_CAPABILITIES[role]}, which provider ` +
+          `"${provider.name}" (${provider.type}) does not support`
+        );
+      }
+    }
+  }
+
+  /**
+   * Resolve the provider and model for a role
+   *
+   * @returns The binding, or null if the role is not configured
+   */
+  resolve(role: ModelRole): ModelBinding | null {
+    const selection = this.roles[role];
+    if (!selection) {
+      return null;
+    }
+    return { ...selection, role, client: this.providers.get(selection.provider)! };
+  }
+
+  /**
+   * Resolve the provider and model for a role that must be configured
+   *
+   * @throws ModelsConfigError if the role is not configured
+   */
+  require(role: ModelRole): ModelBinding {
+    const binding = this.resolve(role);
+    if (!binding) {
+      throw new ModelsConfigError(`No model configured for role "${role}"`);
+    }
+    return binding;
+  }
+
+  /**
+   * Get a provider by name
+   */
+  getProvider(name: string): ModelProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  /**
+   * Names of the configured providers
+   */
+  get providerNames(): string[] {
+    return [...this.providers.keys()];
+  }
+
+  /**
+   * Roles served by a provider
+   */
+  rolesFor(providerName: string): ModelRole[] {
+    return (Object.entries(this.roles) as Array<[ModelRole, RoleConfig]>)
+      .filter(([, selection]) => selection.provider === providerName)
+      .map(([role]) => role);
+  }
+
+  /**
+   * Check that every configured provider is reachable
+   */
+  async checkProviders(): Promise<ProviderHealth[]> {
+    return Promise.all(
+      [...this.providers.values()].map(async (provider) => ({
+        name: provider.name,
+        type: provider.type,
+        baseUrl: provider.baseUrl,
+        roles: this.rolesFor(provider.name),
+        ...(await provider.healthCheck()),
+      }))
+    );
+  }
+}
+
+// ============================================================================
+// Default Registry
+// ============================================================================
+
+let defaultRegistry: ModelRegistry | null = null;
+
+/**
+ * Get the registry loaded from MODELS_CONFIG (or the environment), loading
+ * it on first use
+ *
+ * @throws ModelsConfigError if the configuration is invalid
+ */
+export function getModelRegistry(): ModelRegistry {
+  if (!defaultRegistry) {
+    defaultRegistry = new ModelRegistry(loadModelsConfig());
+  }
+  return defaultRegistry;
+}
+
+/**
+ * Replace the default registry (null reloads it from configuration on
+ * next use)
+ */
+export function setModelRegistry(registry: ModelRegistry | null): void {
+  defaultRegistry = registry;
+}
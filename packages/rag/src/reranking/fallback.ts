@@ -0,0 +1,272 @@
+/**
+ * Reranker Fallback Chain
+ *
+ * Ranks fused retrieval results with the best scorer available:
+ * 1. Primary reranker (Qwen3-Reranker-4B)
+ * 2. Secondary reranker, if a model is configured for the rerankerFallback role
+ * 3. Local scorer: IDF-weighted query term coverage, blended with the
+ *    vector search similarity for chunks that were vector hits
+ * 4. Fused RRF scores, passed through unchanged
+ *
+ * The scorer used is returned with the results, so confidence can be
+ * calibrated for it and degraded answers show up in response metadata
+ * and retrieval metrics.
+ *
+ * @module @jubilant/rag/reranking/fallback
+ */
+
+import type { FusedResult, RankedResult, RerankScorer } from '../types';
+import { Qwen3Reranker, createReranker, type Qwen3RerankerConfig } from './reranker';
+import { getModelRegistry } from '../providers/registry';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Configuration for FallbackReranker
+ */
+export interface FallbackRerankerConfig {
+  /** Number of results to return */
+  topN: number;
+  /** Whether to try the local scorer before passing RRF scores through */
+  enableLocalScorer: boolean;
+  /** Weight of vector similarity in local scores (the rest is lexical) */
+  localVectorWeight: number;
+}
+
+/**
+ * Default configuration
+ */
+const DEFAULT_CONFIG: FallbackRerankerConfig = {
+  topN: 5,
+  enableLocalScorer: true,
+  localVectorWeight: 0.5,
+};
+
+/**
+ * Ranked results and the scorer that produced them
+ */
+export interface FallbackRerankResult {
+  results: RankedResult[];
+  scorer: RerankScorer;
+  /** Failures of the scorers tried before the one used, in order */
+  errors: string[];
+}
+
+// ============================================================================
+// Local Scorer
+// ============================================================================
+
+/**
+ * Common English words ignored when matching query terms
+ */
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from',
+  'how', 'i', 'in', 'is', 'it', 'of', 'on', 'or', 'the', 'this', 'to', 'use', 'what',
+  'when', 'where', 'which', 'why', 'with', 'you',
+]);
+
+const CJK_RUN = /[\u3400-\u9fff\uf900-\ufaff]+/g;
+
+/**
+ * Split text into match terms: lower-cased words (minus stop words and
+ * single letters) and character bigrams for CJK runs
+ */
+export function tokenizeForScoring(text: string): string[] {
+  const lower = text.toLowerCase();
+  const terms: string[] = [];
+
+  for (const word of lower.replace(CJK_RUN, ' ').split(/[^\p{L}\p{N}+#]+/u)) {
+    if (word.length > 1 && !STOP_WORDS.has(word)) {
+      terms.push(word);
+    }
+  }
+
+  for (const run of lower.match(CJK_RUN) ?? []) {
+    if (run.length === 1) {
+      terms.push(run);
+    }
+    for (let i = 0; i < run.length - 1; i++) {
+      terms.push(run.slice(i, i + 2));
+    }
+  }
+
+  return terms;
+}
+
+/**
+ * Score candidates against a query without a reranker model.
+ *
+ * The lexical score is the IDF-weighted share of query terms a candidate
+ * contains (IDF over the candidate set), in [0, 1]. Candidates found by
+ * vector search blend in their cosine similarity.
+ *
+ * @param query - The search query
+ * @param candidates - Fused retrieval results
+ * @param vectorWeight - Weight of vector similarity in the blend
+ * @returns Score per candidate, in candidate order
+ */
+export function scoreLocally(
+  query: string,
+  candidates: FusedResult[],
+  vectorWeight: number = DEFAULT_CONFIG.localVectorWeight
+): number[] {
+  const queryTerms = [...new Set(tokenizeForScoring(query))];
+  const candidateTerms = candidates.map((c) => new Set(tokenizeForScoring(c.content)));
+
+  const idf = new Map<string, number>();
+  for (const term of queryTerms) {
+    const df = candidateTerms.filter((terms) => terms.has(term)).length;
+    idf.set(term, Math.log(1 + (candidates.length - df + 0.5) / (df + 0.5)));
+  }
+  const totalWeight = queryTerms.reduce((sum, term) => sum + idf.get(term)!, 0);
+
+  return candidates.map((candidate, i) => {
+    const matched = queryTerms
+      .filter((term) => candidateTerms[i].has(term))
+      .reduce((sum, term) => sum + idf.get(term)!, 0);
+    const lexical = totalWeight > 0 ? matched / totalWeight : 0;
+
+    if (candidate.vectorScore === undefined) {
+      return lexical;
+    }
+    const similarity = Math.min(1, Math.max(0, candidate.vectorScore));
+    return (1 - vectorWeight) * lexical + vectorWeight * similarity;
+  });
+}
+
+// ============================================================================
+// FallbackReranker Class
+// ============================================================================
+
+/**
+ * Convert a fused result to a ranked result with the given score
+ */
+function toRankedResult(result: FusedResult, score: number): RankedResult {
+  return {
+    id: result.id,
+    content: result.content,
+    rerankScore: score,
+    originalFusedScore: result.fusedScore,
+    metadata: result.metadata,
+  };
+}
+
+/**
+ * FallbackReranker - Reranks with the first scorer in the chain that works
+ */
+export class FallbackReranker {
+  private primary: Qwen3Reranker;
+  private secondary: Qwen3Reranker | null;
+  private config: FallbackRerankerConfig;
+
+  constructor(
+    primary: Qwen3Reranker,
+    secondary: Qwen3Reranker | null = null,
+    config: Partial<FallbackRerankerConfig> = {}
+  ) {
+    this.primary = primary;
+    this.secondary = secondary;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Rerank fused results
+   *
+   * @param query - The search query
+   * @param fusedResults - Results from hybrid retrieval, in RRF order
+   * @param topK - Number of results to return (default: configured topN)
+   * @returns Ranked results and the scorer used
+   */
+  async rerank(
+    query: string,
+    fusedResults: FusedResult[],
+    topK: number = this.config.topN
+  ): Promise<FallbackRerankResult> {
+    if (fusedResults.length === 0) {
+      return { results: [], scorer: 'reranker', errors: [] };
+    }
+
+    const errors: string[] = [];
+    const documents = fusedResults.map((r) => r.content);
+    const rerankers: Array<[RerankScorer, Qwen3Reranker | null]> = [
+      ['reranker', this.primary],
+      ['secondary_reranker', this.secondary],
+    ];
+
+    for (const [scorer, reranker] of rerankers) {
+      if (!reranker) continue;
+
+      try {
+        const reranked = await reranker.rerank(query, documents);
+        return {
+          results: reranked
+            .slice(0, topK)
+            .map((r) => toRankedResult(fusedResults[r.index], r.score)),
+          scorer,
+          errors,
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        errors.push(`${scorer}: ${message}`);
+        console.warn(`Reranking with ${scorer} failed, falling back: ${message}`);
+      }
+    }
+
+    if (this.config.enableLocalScorer) {
+      const scores = scoreLocally(query, fusedResults, this.config.localVectorWeight);
+
+      // With no term overlap and no vector hits the local scores carry no
+      // information, so RRF order is the better ranking
+      if (scores.some((s) => s > 0)) {
+        return {
+          results: fusedResults
+            .map((result, i) => ({ result, score: scores[i], order: i }))
+            .sort((a, b) => b.score - a.score || a.order - b.order)
+            .slice(0, topK)
+            .map(({ result, score }) => toRankedResult(result, score)),
+          scorer: 'local',
+          errors,
+        };
+      }
+    }
+
+    return {
+      results: fusedResults.slice(0, topK).map((r) => toRankedResult(r, r.fusedScore)),
+      scorer: 'rrf',
+      errors,
+    };
+  }
+}
+
+/**
+ * Create a FallbackReranker from the model configuration. The secondary
+ * reranker is the rerankerFallback role, if configured (from
+ * RERANKER_FALLBACK_BASE_URL without a models config file), and the local
+ * scorer can be disabled with RERANKER_LOCAL_FALLBACK=false.
+ *
+ * @param rerankerConfig - Configuration shared by the primary and secondary rerankers
+ * @param config - Fallback chain configuration
+ */
+export function createFallbackReranker(
+  rerankerConfig: Partial<Qwen3RerankerConfig> = {},
+  config: Partial<FallbackRerankerConfig> = {}
+): FallbackReranker {
+  const primary = createReranker(rerankerConfig);
+
+  const fallback = getModelRegistry().resolve('rerankerFallback');
+  const secondary = fallback
+    ? createReranker({
+        ...rerankerConfig,
+        provider: fallback.client,
+        model: fallback.model,
+      })
+    : null;
+
+  return new FallbackReranker(primary, secondary, {
+    topN: primary.topN,
+    enableLocalScorer: process.env.RERANKER_LOCAL_FALLBACK !== 'false',
+    ...config,
+  });
+}
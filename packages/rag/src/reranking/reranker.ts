@@ -2,13 +2,19 @@
  * Qwen3 Reranker
  *
  * Custom reranker implementation for Qwen3-Reranker-4B model
- * via OpenAI-compatible API.
+ * via any rerank-capable model provider.
+ *
+ * Failures are thrown, never papered over with made-up scores; the
+ * pipeline degrades through the FallbackReranker chain instead.
  *
  * @module @jubilant/rag/reranking/reranker
  */
 
 import type { NodeWithScore, BaseNode } from 'llamaindex';
 import { MetadataMode } from 'llamaindex';
+import type { RetryConfig } from '../generation/errors';
+import { createDefaultProvider, type ModelProvider, type RerankScore } from '../providers/http';
+import { getModelRegistry } from '../providers/registry';
 
 /**
  * Configuration for Qwen3Reranker
@@ -26,6 +32,13 @@ export interface Qwen3RerankerConfig {
   confidenceThreshold: number;
   /** Request timeout in milliseconds */
   timeout?: number;
+  /** Retry configuration for failed requests (default: no retries) */
+  retry?: Partial<RetryConfig>;
+  /**
+   * Provider serving the model. Without one, an OpenAI-compatible provider
+   * at baseUrl is used, with the timeout and retry settings above.
+   */
+  provider?: ModelProvider;
 }
 
 /**
@@ -39,20 +52,6 @@ const DEFAULT_CONFIG: Partial<Qwen3RerankerConfig> = {
   timeout: 30000,
 };
 
-/**
- * Reranker API response (OpenAI-compatible format)
- */
-interface RerankerResponse {
-  results: Array<{
-    index: number;
-    relevance_score: number;
-  }>;
-  model: string;
-  usage?: {
-    total_tokens: number;
-  };
-}
-
 /**
  * Result from reranking operation
  */
@@ -64,16 +63,25 @@ export interface RerankedResult {
 }
 
 /**
- * Qwen3 Reranker implementation using OpenAI-compatible API
+ * Qwen3 Reranker implementation
  */
 export class Qwen3Reranker {
   private config: Qwen3RerankerConfig;
+  private provider: ModelProvider;
 
   constructor(config: Partial<Qwen3RerankerConfig> = {}) {
     this.config = {
       ...DEFAULT_CONFIG,
       ...config,
     } as Qwen3RerankerConfig;
+
+    // Failures go to the fallback chain rather than being retried here
+    this.provider = this.config.provider ?? createDefaultProvider('reranker', {
+      baseUrl: this.config.baseUrl,
+      apiKey: this.config.apiKey,
+      timeoutMs: this.config.timeout || 30000,
+      retry: { maxRetries: 0, ...config.retry },
+    });
   }
 
   /**
@@ -88,15 +96,14 @@ export class Qwen3Reranker {
       return [];
     }
 
-    const response = await this.callRerankerAPI(query, documents);
-    console.log('Reranker response:', JSON.stringify(response, null, 2));
+    const scores = await this.scoreDocuments(query, documents);
 
     // Map results with original content and threshold check
-    const results: RerankedResult[] = response.results.map(r => ({
+    const results: RerankedResult[] = scores.map(r => ({
       index: r.index,
       content: documents[r.index],
-      score: r.relevance_score,
-      isAboveThreshold: r.relevance_score >= this.config.confidenceThreshold,
+      score: r.score,
+      isAboveThreshold: r.score >= this.config.confidenceThreshold,
     }));
 
     // Sort by score descending and limit to topN
@@ -118,86 +125,26 @@ export class Qwen3Reranker {
       n.node.getContent(MetadataMode.NONE)
     );
 
-    const response = await this.callRerankerAPI(query, documents);
+    const scores = await this.scoreDocuments(query, documents);
 
     // Create new NodeWithScore array with reranker scores
-    const rerankedNodes: NodeWithScore[] = response.results
-      .sort((a, b) => b.relevance_score - a.relevance_score)
+    const rerankedNodes: NodeWithScore[] = scores
+      .sort((a, b) => b.score - a.score)
       .slice(0, this.config.topN)
-      .filter(r => r.relevance_score >= this.config.confidenceThreshold)
+      .filter(r => r.score >= this.config.confidenceThreshold)
       .map(r => ({
         node: nodes[r.index].node,
-        score: r.relevance_score,
+        score: r.score,
       }));
 
     return rerankedNodes;
   }
 
   /**
-   * Call the reranker API
+   * Score documents with the reranker model
    */
-  private async callRerankerAPI(
-    query: string,
-    documents: string[]
-  ): Promise<RerankerResponse> {
-    const url = `${this.config.baseUrl}/rerank`;
-
-    const controller = new AbortController();
-    const timeoutId = setTimeout(
-      () => controller.abort(),
-      this.config.timeout || 30000
-    );
-
-    try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...(this.config.apiKey && {
-            Authorization: `Bearer ${this.config.apiKey}`,
-          }),
-        },
-        body: JSON.stringify({
-          model: this.config.model,
-          query,
-          documents,
-          top_n: this.config.topN,
-        }),
-        signal: controller.signal,
-      });
-
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`Reranker API error: ${response.status} - ${error}`);
-      }
-
-      const data = (await response.json()) as any;
-      if (!data.results || !Array.isArray(data.results)) {
-        throw new Error(`Invalid reranker response format: ${JSON.stringify(data)}`);
-      }
-
-      return data as RerankerResponse;
-    } catch (error) {
-      console.warn(
-        `Reranker API unavailable, using mock scores: ${error instanceof Error ? error.message : String(error)}`
-      );
-
-      // Mock response for robustness when service is down
-      // Assigns high scores to the first few documents to ensure we pass the confidence threshold
-      // Scores decay from 0.95 downwards
-      return {
-        results: documents.map((_, index) => ({
-          index,
-          relevance_score: Math.max(0.1, 0.95 - index * 0.05),
-        })),
-        model: 'mock-reranker',
-        usage: {
-          total_tokens: 0,
-        },
-      };
-    } finally {
-      clearTimeout(timeoutId);
-    }
+  private scoreDocuments(query: string, documents: string[]): Promise<RerankScore[]> {
+    return this.provider.rerank(query, documents, this.config.model, this.config.topN);
   }
 
   /**
@@ -248,13 +195,14 @@ export class Qwen3Reranker {
 }
 
 /**
- * Create a Qwen3Reranker instance with environment configuration
+ * Create a Qwen3Reranker instance for the model configured for the
+ * reranker role (see providers/config), with RAG_* environment settings
  */
 export function createReranker(config: Partial<Qwen3RerankerConfig> = {}): Qwen3Reranker {
+  const binding = getModelRegistry().require('reranker');
   return new Qwen3Reranker({
-    baseUrl: process.env.RERANKER_BASE_URL,
-    apiKey: process.env.RERANKER_API_KEY,
-    model: process.env.RERANKER_MODEL,
+    provider: binding.client,
+    model: binding.model,
     topN: process.env.RAG_RERANK_TOP_K
       ? parseInt(process.env.RAG_RERANK_TOP_K, 10)
       : undefined,
@@ -0,0 +1,380 @@
+/**
+ * Code Snippet Retriever
+ *
+ * Searches the code snippet records of stored chunks, for queries that ask
+ * for an implementation ("Dijkstra implementation in C++"):
+ * - Vector search over the snippet collection, embedded like chunks
+ * - Lexical search over snippet code, split identifiers and context
+ * - Both are fused with RRF; a language named in the query filters the
+ *   snippets, falling back to any language when none match
+ *
+ * @module @jubilant/rag/retrieval/code
+ */
+
+import type { MilvusClient, SearchResultData } from '@zilliz/milvus2-sdk-node';
+import { int, type Driver } from 'neo4j-driver';
+import type { ChunkMetadata, CodeLanguage, RetrievalMode, RetrievalResult } from '../types';
+import { Qwen3Embedding, createEmbedder } from '../generation/embedder';
+import { formatSnippet } from '../ingestion/snippets';
+import { reciprocalRankFusion } from './hybrid';
+
+/**
+ * Configuration for CodeSnippetRetriever
+ */
+export interface CodeSnippetRetrieverConfig {
+  /** Milvus collection of snippet records */
+  collectionName: string;
+  /** Number of results to return */
+  topK: number;
+  /** RRF constant for fusing vector and lexical results */
+  rrfK: number;
+  /** Search parameters for HNSW index */
+  searchParams?: {
+    ef?: number;
+  };
+}
+
+/**
+ * Default configuration
+ */
+const DEFAULT_CONFIG: CodeSnippetRetrieverConfig = {
+  collectionName: 'code_snippets',
+  topK: 10,
+  rrfK: 60,
+  searchParams: {
+    ef: 64,
+  },
+};
+
+/**
+ * Code search options of a query
+ */
+export interface CodeQuery {
+  /** Language the query asks for */
+  language?: CodeLanguage;
+}
+
+/**
+ * Queries asking for code ("implementation of", "C++ code for", "template")
+ */
+const CODE_INTENT_REGEX =
+  /\b(implement(s|ed|ing|ation|ations)?|code|snippets?|templates?|program|source code|pseudo-?code|write (a|an|the) (function|program|solution))\b|代码|实现|模板/i;
+
+/**
+ * Named codes that are not requests for code ("Huffman code")
+ */
+const NAMED_CODE_REGEX = /\b(huffman|gray|pr[üu]fer|morse|hamming|error[- ]correcting)\s+codes?\b/gi;
+
+/**
+ * Language names in queries, in match order ("C++" before "C")
+ */
+const LANGUAGE_MENTIONS: Array<[CodeLanguage, RegExp]> = [
+  ['cpp', /(^|[^\w])(c\+\+|cpp)(?![\w+])/i],
+  ['python', /\b(python3?|py)\b/i],
+  ['javascript', /\b(javascript|js|typescript|node\.?js)\b/i],
+  ['java', /\bjava\b/i],
+  ['rust', /\brust\b/i],
+  ['go', /\b(golang|in go)\b/i],
+  ['c', /\b(in|using) c\b(?![+#])|\bc (code|program|implementation)\b/i],
+];
+
+/**
+ * Words that state the request rather than what the code does
+ */
+const CODE_INTENT_WORDS =
+  /\b(show|give|write|me|some|any|an?|the|of|for|in|using|with|please|implement(s|ed|ing|ation|ations)?|code|snippets?|templates?|program|source|pseudo-?code|function|solution|cpp|python3?|py|java|javascript|js|typescript|rust|golang)\b|c\+\+|代码|实现|模板/gi;
+
+/**
+ * Language a query names, if any
+ */
+export function mentionedLanguage(query: string): CodeLanguage | undefined {
+  return LANGUAGE_MENTIONS.find(([, pattern]) => pattern.test(query))?.[0];
+}
+
+/**
+ * Retrieval mode for a query: code when it asks for an implementation or
+ * names a programming language
+ */
+export function detectRetrievalMode(query: string): RetrievalMode {
+  const request = query.replace(NAMED_CODE_REGEX, ' ');
+  return CODE_INTENT_REGEX.test(request) || mentionedLanguage(request) !== undefined
+    ? 'code'
+    : 'default';
+}
+
+/**
+ * What the requested code does ("Dijkstra" for "Dijkstra implementation
+ * in C++"), for lexical search
+ */
+export function codeQueryTopic(query: string): string {
+  return query
+    .replace(CODE_INTENT_WORDS, ' ')
+    .replace(/[?？!！.,，。]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Extended search result data from Milvus with our schema fields
+ */
+type MilvusSearchResult = SearchResultData & {
+  chunk_id?: number;
+  content_text?: string;
+  metadata?: ChunkMetadata | string;
+};
+
+/**
+ * CodeSnippetRetriever - Vector and lexical search over code snippets
+ *
+ * Result IDs are snippet IDs, and result metadata carries the snippet
+ * reference, so answers can cite the snippet itself.
+ */
+export class CodeSnippetRetriever {
+  private client: MilvusClient;
+  private driver: Driver;
+  private embedder: Qwen3Embedding;
+  private config: CodeSnippetRetrieverConfig;
+
+  constructor(
+    client: MilvusClient,
+    driver: Driver,
+    embedder?: Qwen3Embedding,
+    config: Partial<CodeSnippetRetrieverConfig> = {}
+  ) {
+    this.client = client;
+    this.driver = driver;
+    this.embedder = embedder || createEmbedder();
+    this.config = {
+      ...DEFAULT_CONFIG,
+      ...config,
+    };
+  }
+
+  /**
+   * Search for snippets implementing what the query asks for
+   *
+   * @param query - The search query
+   * @param topK - Optional override for number of results
+   * @param language - Optional language to prefer
+   * @returns Snippet results sorted by fused relevance
+   */
+  async search(
+    query: string,
+    topK?: number,
+    language?: CodeLanguage
+  ): Promise<RetrievalResult[]> {
+    const k = topK || this.config.topK;
+    const embedding = await this.embedder.getQueryEmbedding(query);
+
+    const results = await this.searchBoth(query, embedding, k, language);
+    if (results.length === 0 && language) {
+      // No snippet in the language asked for: offer other languages
+      return this.searchBoth(query, embedding, k);
+    }
+    return results;
+  }
+
+  /**
+   * Run vector and lexical search and fuse them. One failing search is
+   * tolerated; both failing is an error.
+   */
+  private async searchBoth(
+    query: string,
+    embedding: number[],
+    topK: number,
+    language?: CodeLanguage
+  ): Promise<RetrievalResult[]> {
+    const [vector, lexical] = await Promise.allSettled([
+      this.searchVectors(embedding, topK, language),
+      this.searchLexical(codeQueryTopic(query) || query, topK, language),
+    ]);
+
+    if (vector.status === 'rejected' && lexical.status === 'rejected') {
+      throw vector.reason;
+    }
+    for (const failed of [vector, lexical]) {
+      if (failed.status === 'rejected') {
+        const message = failed.reason instanceof Error ? failed.reason.message : String(failed.reason);
+        console.warn(`Code snippet search failed (graceful degradation): ${message}`);
+      }
+    }
+
+    // Vector results first, so fused results keep their Milvus metadata
+    const lists = [vector, lexical].map((r) => (r.status === 'fulfilled' ? r.value : []));
+    return Array.from(reciprocalRankFusion(lists, this.config.rrfK).values())
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK)
+      .map(({ result }) => result);
+  }
+
+  /**
+   * Similarity search over the snippet collection
+   */
+  private async searchVectors(
+    embedding: number[],
+    topK: number,
+    language?: CodeLanguage
+  ): Promise<RetrievalResult[]> {
+    const searchParams: Record<string, unknown> = {
+      collection_name: this.config.collectionName,
+      vector: embedding,
+      limit: topK,
+      output_fields: ['chunk_id', 'content_text', 'metadata'],
+      metric_type: 'COSINE',
+      params: this.config.searchParams,
+      filter: this.buildFilter(language),
+    };
+
+    const searchResult = await this.client.search(searchParams as Parameters<typeof this.client.search>[0]);
+
+    if (!searchResult.results || searchResult.results.length === 0) {
+      return [];
+    }
+
+    return searchResult.results.map((rawHit) => {
+      const hit = rawHit as MilvusSearchResult;
+      const metadata = ((typeof hit.metadata === 'string'
+        ? JSON.parse(hit.metadata)
+        : hit.metadata) || {}) as ChunkMetadata;
+
+      return {
+        id: metadata.codeSnippet?.id ?? String(hit.chunk_id || hit.id || ''),
+        content: hit.content_text || '',
+        score: hit.score ?? 0,
+        metadata,
+        source: 'code' as const,
+      };
+    });
+  }
+
+  /**
+   * Fulltext search over snippet identifiers, code and context
+   */
+  private async searchLexical(
+    query: string,
+    topK: number,
+    language?: CodeLanguage
+  ): Promise<RetrievalResult[]> {
+    const session = this.driver.session();
+
+    try {
+      const result = await session.run(
+        `
+        CALL db.index.fulltext.queryNodes('codeSnippetIndex', $query) YIELD node AS snippet, score
+        WHERE $language IS NULL OR snippet.language = $language
+        MATCH (chunk:Chunk)-[:HAS_SNIPPET]->(snippet)
+        MATCH (chunk)-[:FROM_DOCUMENT]->(doc:Document)
+        WHERE NOT coalesce(doc.archived, false)
+        RETURN
+          snippet.snippet_id AS snippetId,
+          snippet.snippetIndex AS snippetIndex,
+          snippet.language AS language,
+          snippet.code AS code,
+          snippet.context AS context,
+          chunk.chunk_id AS chunkId,
+          score,
+          {
+            documentId: doc.url,
+            documentTitle: doc.title,
+            documentUrl: doc.url,
+            tokenCount: chunk.tokenCount,
+            chunkIndex: chunk.chunkIndex,
+            pageStart: chunk.pageStart,
+            pageEnd: chunk.pageEnd
+          } AS metadata
+        ORDER BY score DESC
+        LIMIT $topK
+        `,
+        {
+          query: this.escapeLuceneQuery(query),
+          language: language ?? null,
+          topK: int(topK),
+        }
+      );
+
+      return result.records.map((record) => {
+        const snippetId = String(record.get('snippetId'));
+        const snippetLanguage = record.get('language') as CodeLanguage;
+        const metadata = record.get('metadata') as Record<string, unknown>;
+
+        return {
+          id: snippetId,
+          content: formatSnippet({
+            language: snippetLanguage,
+            code: (record.get('code') as string) || '',
+            context: (record.get('context') as string) || '',
+          }),
+          score: this.normalizeScore(Number(record.get('score'))),
+          metadata: {
+            documentId: (metadata.documentId as string) || '',
+            documentTitle: (metadata.documentTitle as string) || '',
+            documentUrl: (metadata.documentUrl as string) || '',
+            chunkIndex: Number(metadata.chunkIndex ?? 0),
+            totalChunks: 0,
+            tokenCount: Number(metadata.tokenCount ?? 0),
+            hasCode: true,
+            hasFormula: false,
+            hasTable: false,
+            pageStart: metadata.pageStart != null ? Number(metadata.pageStart) : undefined,
+            pageEnd: metadata.pageEnd != null ? Number(metadata.pageEnd) : undefined,
+            codeLanguages: [snippetLanguage],
+            codeSnippet: {
+              id: snippetId,
+              chunkId: String(record.get('chunkId')),
+              snippetIndex: Number(record.get('snippetIndex') ?? 0),
+              language: snippetLanguage,
+            },
+          },
+          source: 'code' as const,
+        };
+      });
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Build the vector search filter: active documents, optionally by
+   * language
+   */
+  private buildFilter(language?: CodeLanguage): string {
+    const notArchived = 'not (metadata["archived"] == true)';
+    if (language) {
+      return `metadata["codeSnippet"]["language"] == "${language}" and ${notArchived}`;
+    }
+    return notArchived;
+  }
+
+  /**
+   * Normalize Lucene scores (unbounded) to 0-1
+   */
+  private normalizeScore(score: number): number {
+    return score / (1 + score);
+  }
+
+  /**
+   * Escape special Lucene query characters
+   */
+  private escapeLuceneQuery(query: string): string {
+    return query.replace(/[+\-&|!(){}[\]^"~*?:\\/]/g, '\\$&');
+  }
+
+  /**
+   * Get the configured topK
+   */
+  get topK(): number {
+    return this.config.topK;
+  }
+}
+
+/**
+ * Create a CodeSnippetRetriever with default configuration
+ */
+export function createCodeSnippetRetriever(
+  client: MilvusClient,
+  driver: Driver,
+  embedder?: Qwen3Embedding,
+  config?: Partial<CodeSnippetRetrieverConfig>
+): CodeSnippetRetriever {
+  return new CodeSnippetRetriever(client, driver, embedder, config);
+}
@@ -8,7 +8,7 @@
  */
 
 import { int, type Driver, type Session } from 'neo4j-driver';
-import type { RetrievalResult, ChunkMetadata } from '../types';
+import type { RetrievalResult, ChunkMetadata, CodeLanguage, ProblemSectionType } from '../types';
 
 /**
  * Configuration for Neo4jGraphRetriever
@@ -40,6 +40,37 @@ const DEFAULT_CONFIG: Neo4jGraphRetrieverConfig = {
   useFulltextSearch: true,
 };
 
+/**
+ * Queries asking for practice problems ("a practice problem on segment trees")
+ */
+const PROBLEM_INTENT_REGEX =
+  /\b(practice|exercises?|drills?)\b|\bproblems?\s+(on|about|for|using|with|involving)\b|练习|习题|例题/i;
+
+/**
+ * Words that state the request rather than its topic
+ */
+const PROBLEM_INTENT_WORDS =
+  /\b(show|give|find|recommend|me|some|any|an?|the|practice|exercises?|drills?|problems?|questions?|tasks?|on|about|for|using|with|involving|please)\b|练习|习题|例题|题目/gi;
+
+/**
+ * Check whether a query asks for practice problems
+ */
+export function isPracticeProblemQuery(query: string): boolean {
+  return PROBLEM_INTENT_REGEX.test(query);
+}
+
+/**
+ * Topic of a practice problem query ("segment trees" for
+ * "show me a practice problem on segment trees")
+ */
+export function practiceProblemTopic(query: string): string {
+  return query
+    .replace(PROBLEM_INTENT_WORDS, ' ')
+    .replace(/[?？!！.,，。]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
 /**
  * Raw result from Neo4j query
  */
@@ -57,8 +88,11 @@ interface Neo4jChunkResult {
  * Search strategy:
  * 1. Find concepts matching the query (via fulltext search or exact match)
  * 2. Traverse relationships to find related concepts
- * 3. Return chunks that discuss those concepts
+ * 3. Return chunks that discuss those concepts (skipping archived documents)
  * 4. Score based on traversal depth and relationship strength
+ *
+ * Practice problem queries additionally return the statements of Problem
+ * nodes that exercise the matched concepts, ahead of other chunks.
  */
 export class Neo4jGraphRetriever {
   private driver: Driver;
@@ -95,6 +129,12 @@ export class Neo4jGraphRetriever {
         results = await this.searchWithKeywords(session, query, k);
       }
 
+      if (isPracticeProblemQuery(query)) {
+        const problems = await this.searchProblems(session, practiceProblemTopic(query) || query, k);
+        const problemIds = new Set(problems.map((r) => r.id));
+        results = [...problems, ...results.filter((r) => !problemIds.has(r.id))].slice(0, k);
+      }
+
       return results;
     } finally {
       await session.close();
@@ -134,6 +174,7 @@ export class Neo4jGraphRetriever {
       // Find chunks that discuss these concepts
       MATCH (chunk:Chunk)-[:DISCUSSES]->(related)
       MATCH (chunk)-[:FROM_DOCUMENT]->(doc:Document)
+      WHERE NOT coalesce(doc.archived, false)
 
       // Calculate score based on depth (closer = higher score)
       WITH chunk, doc, related,
@@ -155,7 +196,12 @@ export class Neo4jGraphRetriever {
           hasCode: chunk.hasCode,
           hasFormula: chunk.hasFormula,
           hasTable: chunk.hasTable,
-          tokenCount: chunk.tokenCount
+          tokenCount: chunk.tokenCount,
+          chunkIndex: chunk.chunkIndex,
+          pageStart: chunk.pageStart,
+          pageEnd: chunk.pageEnd,
+          ocrConfidence: chunk.ocrConfidence,
+          codeLanguages: chunk.codeLanguages
         } AS metadata,
         concepts AS conceptPath
       ORDER BY totalScore DESC
@@ -179,12 +225,7 @@ export class Neo4jGraphRetriever {
     query: string,
     topK: number
   ): Promise<RetrievalResult[]> {
-    // Extract keywords (simple approach: split on spaces, filter short words)
-    const keywords = query
-      .toLowerCase()
-      .split(/\s+/)
-      .filter((word) => word.length > 3)
-      .slice(0, 5); // Limit to 5 keywords
+    const keywords = this.extractKeywords(query);
 
     if (keywords.length === 0) {
       return [];
@@ -213,6 +254,7 @@ export class Neo4jGraphRetriever {
       // Find chunks
       MATCH (chunk:Chunk)-[:DISCUSSES]->(related)
       MATCH (chunk)-[:FROM_DOCUMENT]->(doc:Document)
+      WHERE NOT coalesce(doc.archived, false)
 
       WITH chunk, doc, related,
            1.0 / (1.0 + minDepth) AS depthScore
@@ -232,7 +274,12 @@ export class Neo4jGraphRetriever {
           hasCode: chunk.hasCode,
           hasFormula: chunk.hasFormula,
           hasTable: chunk.hasTable,
-          tokenCount: chunk.tokenCount
+          tokenCount: chunk.tokenCount,
+          chunkIndex: chunk.chunkIndex,
+          pageStart: chunk.pageStart,
+          pageEnd: chunk.pageEnd,
+          ocrConfidence: chunk.ocrConfidence,
+          codeLanguages: chunk.codeLanguages
         } AS metadata,
         concepts AS conceptPath
       ORDER BY totalScore DESC
@@ -248,6 +295,95 @@ export class Neo4jGraphRetriever {
     return this.transformResults(result.records);
   }
 
+  /**
+   * Find statements of problems that exercise concepts matching the topic
+   */
+  private async searchProblems(
+    session: Session,
+    topic: string,
+    topK: number
+  ): Promise<RetrievalResult[]> {
+    const keywords = this.extractKeywords(topic);
+    if (!this.config.useFulltextSearch && keywords.length === 0) {
+      return [];
+    }
+
+    const conceptMatch = this.config.useFulltextSearch
+      ? `
+      CALL db.index.fulltext.queryNodes('conceptNameIndex', $query) YIELD node AS concept, score AS conceptScore
+      WITH concept, conceptScore
+      ORDER BY conceptScore DESC
+      LIMIT 5`
+      : `
+      UNWIND $keywords AS keyword
+      MATCH (concept:Concept)
+      WHERE toLower(concept.name) CONTAINS keyword
+         OR ANY(alias IN concept.aliases WHERE toLower(alias) CONTAINS keyword)
+      WITH DISTINCT concept, 1.0 AS conceptScore`;
+
+    const cypher = `
+      ${conceptMatch}
+
+      // Problems exercising the matched concepts
+      MATCH (problem:Problem)-[:EXERCISES]->(concept)
+      MATCH (problem)-[:FROM_DOCUMENT]->(doc:Document)
+      WHERE NOT coalesce(doc.archived, false)
+      WITH problem, doc,
+           COLLECT(DISTINCT concept.name) AS concepts,
+           SUM(conceptScore) AS conceptTotal
+
+      // Represent each problem by the first chunk of its statement
+      MATCH (chunk:Chunk)-[:SECTION_OF]->(problem)
+      WHERE chunk.sectionType = 'statement'
+      WITH problem, doc, concepts, conceptTotal, chunk
+      ORDER BY chunk.chunkIndex
+      WITH problem, doc, concepts, conceptTotal, COLLECT(chunk)[0] AS chunk
+
+      RETURN
+        chunk.chunk_id AS chunkId,
+        chunk.preview AS content,
+        1.0 + conceptTotal AS score,
+        {
+          documentId: doc.url,
+          documentTitle: coalesce(problem.title, doc.title),
+          documentUrl: doc.url,
+          hasCode: chunk.hasCode,
+          hasFormula: chunk.hasFormula,
+          hasTable: chunk.hasTable,
+          tokenCount: chunk.tokenCount,
+          chunkIndex: chunk.chunkIndex,
+          sectionType: chunk.sectionType,
+          pageStart: chunk.pageStart,
+          pageEnd: chunk.pageEnd,
+          ocrConfidence: chunk.ocrConfidence,
+          codeLanguages: chunk.codeLanguages
+        } AS metadata,
+        concepts AS conceptPath
+      ORDER BY score DESC
+      LIMIT $topK
+    `;
+
+    const result = await session.run(cypher, {
+      query: this.escapeLuceneQuery(topic),
+      keywords,
+      topK: int(topK),
+    });
+
+    return this.transformResults(result.records);
+  }
+
+  /**
+   * Extract keywords for concept matching (simple approach: split on
+   * spaces, filter short words)
+   */
+  private extractKeywords(query: string): string[] {
+    return query
+      .toLowerCase()
+      .split(/\s+/)
+      .filter((word) => word.length > 3)
+      .slice(0, 5); // Limit to 5 keywords
+  }
+
   /**
    * Transform Neo4j records to RetrievalResult format
    */
@@ -267,12 +403,19 @@ export class Neo4jGraphRetriever {
           documentId: (metadata.documentId as string) || '',
           documentTitle: (metadata.documentTitle as string) || '',
           documentUrl: (metadata.documentUrl as string) || '',
-          chunkIndex: 0,
+          chunkIndex: Number(metadata.chunkIndex ?? 0),
           totalChunks: 0,
           tokenCount: (metadata.tokenCount as number) || 0,
           hasCode: (metadata.hasCode as boolean) || false,
           hasFormula: (metadata.hasFormula as boolean) || false,
           hasTable: (metadata.hasTable as boolean) || false,
+          sectionType: (metadata.sectionType as ProblemSectionType) || undefined,
+          pageStart: metadata.pageStart != null ? Number(metadata.pageStart) : undefined,
+          pageEnd: metadata.pageEnd != null ? Number(metadata.pageEnd) : undefined,
+          ocrConfidence: metadata.ocrConfidence != null ? Number(metadata.ocrConfidence) : undefined,
+          codeLanguages: Array.isArray(metadata.codeLanguages)
+            ? (metadata.codeLanguages as CodeLanguage[])
+            : undefined,
         } as ChunkMetadata,
         source: 'graph' as const,
       };
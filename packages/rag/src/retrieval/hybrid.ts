@@ -4,6 +4,9 @@
  * Combines Milvus vector search with Neo4j graph traversal using
  * Reciprocal Rank Fusion (RRF) for result merging.
  *
+ * Queries in code mode also search code snippet records, weighted so
+ * implementations rank ahead of prose about them.
+ *
  * @module @jubilant/rag/retrieval/hybrid
  */
 
@@ -11,8 +14,11 @@ import type { MilvusClient } from '@zilliz/milvus2-sdk-node';
 import type { Driver } from 'neo4j-driver';
 import type { RetrievalResult, FusedResult, ChunkMetadata } from '../types';
 import { MilvusRetriever, type MilvusRetrieverConfig } from './vector';
+import type { EmbeddingVersionTracker } from './versions';
+import type { CodeQuery, CodeSnippetRetriever } from './code';
 import { Neo4jGraphRetriever, type Neo4jGraphRetrieverConfig } from './graph';
 import { Qwen3Embedding, createEmbedder } from '../generation/embedder';
+import { getTracer } from '../monitoring/tracing';
 
 /**
  * Configuration for HybridRetriever
@@ -28,6 +34,8 @@ export interface HybridRetrieverConfig {
   topK: number;
   /** Whether to include graph retrieval */
   includeGraph: boolean;
+  /** RRF weight of code snippet results in code mode */
+  codeWeight: number;
 }
 
 /**
@@ -37,6 +45,7 @@ const DEFAULT_CONFIG: HybridRetrieverConfig = {
   rrfK: 60, // Standard RRF constant
   topK: 10,
   includeGraph: true,
+  codeWeight: 2,
 };
 
 /**
@@ -70,6 +79,12 @@ export interface RetrievalMetrics {
   vectorError?: string;
   /** Whether graph search had an error */
   graphError?: string;
+  /** Code snippet search time, in code mode */
+  codeSearchMs?: number;
+  /** Code snippets found, in code mode */
+  codeResultCount?: number;
+  /** Whether code snippet search had an error */
+  codeError?: string;
 }
 
 /**
@@ -84,25 +99,28 @@ export interface HybridRetrievalResult {
  * Reciprocal Rank Fusion (RRF)
  *
  * Merges multiple ranked lists into a single list.
- * RRF score = sum(1 / (k + rank)) for each list where the item appears.
+ * RRF score = sum(weight / (k + rank)) for each list where the item appears.
  *
  * @param resultLists - Array of ranked result lists
  * @param k - RRF constant (default 60)
+ * @param weights - Weight of each list (default 1)
  * @returns Merged results sorted by RRF score
  */
 export function reciprocalRankFusion(
   resultLists: RetrievalResult[][],
-  k: number = 60
+  k: number = 60,
+  weights: number[] = []
 ): Map<string, { score: number; ranks: Map<string, number>; result: RetrievalResult }> {
   const fusedScores = new Map<
     string,
     { score: number; ranks: Map<string, number>; result: RetrievalResult }
   >();
 
-  for (const results of resultLists) {
+  for (const [list, results] of resultLists.entries()) {
+    const weight = weights[list] ?? 1;
     for (let rank = 0; rank < results.length; rank++) {
       const result = results[rank];
-      const rrfScore = 1 / (k + rank + 1); // rank is 0-indexed, so add 1
+      const rrfScore = weight / (k + rank + 1); // rank is 0-indexed, so add 1
 
       const existing = fusedScores.get(result.id);
       if (existing) {
@@ -129,6 +147,7 @@ export function reciprocalRankFusion(
 export class HybridRetriever {
   private vectorRetriever: MilvusRetriever;
   private graphRetriever: Neo4jGraphRetriever;
+  private codeRetriever: CodeSnippetRetriever | null = null;
   private config: HybridRetrieverConfig;
 
   constructor(
@@ -166,13 +185,18 @@ export class HybridRetriever {
    * @param topK - Number of final results
    * @param includeGraph - Whether to include graph retrieval
    * @param topicFilter - Optional topic filter for vector search
+   * @param queryEmbedding - Query embedding already computed with the active
+   *   collection's model (skips embedding the query again)
+   * @param codeQuery - Set in code mode: also search code snippets
    * @returns Fused results with retrieval metrics
    */
   async retrieve(
     query: string,
     topK?: number,
     includeGraph?: boolean,
-    topicFilter?: string
+    topicFilter?: string,
+    queryEmbedding?: number[],
+    codeQuery?: CodeQuery
   ): Promise<HybridRetrievalResult> {
     const k = topK || this.config.topK;
     const useGraph = includeGraph ?? this.config.includeGraph;
@@ -194,7 +218,7 @@ export class HybridRetriever {
     // Execute retrieval in parallel with error handling for graceful degradation
     type RetrievalResultWithError = {
       results: RetrievalResult[];
-      type: 'vector' | 'graph';
+      type: 'vector' | 'graph' | 'code';
       duration: number;
       error?: string;
     };
@@ -202,15 +226,21 @@ export class HybridRetriever {
     const retrievalPromises: Promise<RetrievalResultWithError>[] = [];
 
     // Vector search with error handling (T084)
+    const tracer = getTracer();
     retrievalPromises.push(
-      (async (): Promise<RetrievalResultWithError> => {
+      tracer.withSpan('rag.vector_search', async (span): Promise<RetrievalResultWithError> => {
         const start = Date.now();
+        span.setAttributes({ 'rag.top_k': k, 'rag.topic_filter': topicFilter });
         try {
-          const results = await this.vectorRetriever.search(query, k, topicFilter);
+          const results = queryEmbedding
+            ? await this.vectorRetriever.searchWithEmbedding(queryEmbedding, k, topicFilter)
+            : await this.vectorRetriever.search(query, k, topicFilter);
+          span.setAttribute('rag.result_count', results.length);
           return { results, type: 'vector' as const, duration: Date.now() - start };
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : String(error);
           console.warn(`Vector search failed (graceful degradation): ${errorMessage}`);
+          span.recordError(error);
           return {
             results: [],
             type: 'vector' as const,
@@ -218,20 +248,23 @@ export class HybridRetriever {
             error: errorMessage,
           };
         }
-      })()
+      })
     );
 
     // Graph search (if enabled) with error handling (T083)
     if (useGraph) {
       retrievalPromises.push(
-        (async (): Promise<RetrievalResultWithError> => {
+        tracer.withSpan('rag.graph_traversal', async (span): Promise<RetrievalResultWithError> => {
           const start = Date.now();
+          span.setAttributes({ 'rag.top_k': k, 'rag.max_depth': this.graphRetriever.maxDepth });
           try {
             const results = await this.graphRetriever.search(query, k);
+            span.setAttribute('rag.result_count', results.length);
             return { results, type: 'graph' as const, duration: Date.now() - start };
           } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
             console.warn(`Graph search failed (graceful degradation): ${errorMessage}`);
+            span.recordError(error);
             return {
               results: [],
               type: 'graph' as const,
@@ -239,7 +272,33 @@ export class HybridRetriever {
               error: errorMessage,
             };
           }
-        })()
+        })
+      );
+    }
+
+    // Code snippet search (code mode only)
+    const codeRetriever = codeQuery ? this.codeRetriever : null;
+    if (codeRetriever) {
+      retrievalPromises.push(
+        tracer.withSpan('rag.code_search', async (span): Promise<RetrievalResultWithError> => {
+          const start = Date.now();
+          span.setAttributes({ 'rag.top_k': k, 'rag.code_language': codeQuery?.language });
+          try {
+            const results = await codeRetriever.search(query, k, codeQuery?.language);
+            span.setAttribute('rag.result_count', results.length);
+            return { results, type: 'code' as const, duration: Date.now() - start };
+          } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            console.warn(`Code snippet search failed (graceful degradation): ${errorMessage}`);
+            span.recordError(error);
+            return {
+              results: [],
+              type: 'code' as const,
+              duration: Date.now() - start,
+              error: errorMessage,
+            };
+          }
+        })
       );
     }
 
@@ -249,6 +308,7 @@ export class HybridRetriever {
     const resultLists: RetrievalResult[][] = [];
     let vectorResults: RetrievalResult[] = [];
     let graphResults: RetrievalResult[] = [];
+    let codeResults: RetrievalResult[] = [];
 
     for (const { results, type, duration, error } of retrievalResults) {
       if (type === 'vector') {
@@ -263,6 +323,13 @@ export class HybridRetriever {
           metrics.vectorAvgScore =
             results.reduce((sum, r) => sum + r.score, 0) / results.length;
         }
+      } else if (type === 'code') {
+        codeResults = results;
+        metrics.codeSearchMs = duration;
+        metrics.codeResultCount = results.length;
+        if (error) {
+          metrics.codeError = error;
+        }
       } else {
         graphResults = results;
         metrics.graphTraversalMs = duration;
@@ -298,11 +365,22 @@ export class HybridRetriever {
       console.warn('Both vector and graph retrieval returned empty results');
     }
 
+    // Code snippets are fused with extra weight, so implementations lead
+    const weights = resultLists.map(() => 1);
+    if (codeResults.length > 0) {
+      resultLists.push(codeResults);
+      weights.push(this.config.codeWeight);
+    }
+
     // Perform RRF fusion (works with single list too)
+    const fusionSpan = tracer.startSpan('rag.fusion', {
+      attributes: { 'rag.strategy': metrics.strategy, 'rag.rrf_k': this.config.rrfK },
+    });
     const fusionStart = Date.now();
-    const fusedMap = reciprocalRankFusion(resultLists, this.config.rrfK);
+    const fusedMap = reciprocalRankFusion(resultLists, this.config.rrfK, weights);
 
     // Convert to sorted array
+    const vectorScores = new Map(vectorResults.map((r) => [r.id, r.score]));
     const fusedResults: FusedResult[] = Array.from(fusedMap.entries())
       .map(([id, data]) => ({
         id,
@@ -310,6 +388,8 @@ export class HybridRetriever {
         fusedScore: data.score,
         vectorRank: data.ranks.get('vector'),
         graphRank: data.ranks.get('graph'),
+        codeRank: data.ranks.get('code'),
+        vectorScore: vectorScores.get(id),
         metadata: data.result.metadata,
       }))
       .sort((a, b) => b.fusedScore - a.fusedScore)
@@ -322,6 +402,11 @@ export class HybridRetriever {
     if (fusedResults.length > 0) {
       metrics.rrfTopScore = fusedResults[0].fusedScore;
     }
+    fusionSpan.setAttributes({
+      'rag.result_count': fusedResults.length,
+      'rag.overlap_count': metrics.overlapCount,
+    });
+    fusionSpan.end();
 
     return {
       results: fusedResults,
@@ -329,6 +414,21 @@ export class HybridRetriever {
     };
   }
 
+  /**
+   * Set the tracker that picks the vector collection to search
+   */
+  setVersionTracker(tracker: EmbeddingVersionTracker | null): void {
+    this.vectorRetriever.setVersionTracker(tracker);
+  }
+
+  /**
+   * Set the retriever that searches code snippets in code mode.
+   * Without one, code mode retrieves like the default mode.
+   */
+  setCodeRetriever(retriever: CodeSnippetRetriever | null): void {
+    this.codeRetriever = retriever;
+  }
+
   /**
    * Perform vector-only retrieval (for fallback or testing)
    */
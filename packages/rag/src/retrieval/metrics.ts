@@ -3,11 +3,15 @@
  *
  * Provides detailed timing instrumentation and statistics collection
  * for the hybrid retrieval pipeline (vector search, graph traversal,
- * fusion, and reranking).
+ * fusion, and reranking). Stage durations are also exported as
+ * Prometheus histograms.
  *
  * @module @jubilant/rag/retrieval/metrics
  */
 
+import type { RerankScorer } from '../types';
+import { observeStageDuration } from '../monitoring/prometheus';
+
 /**
  * Timing metrics for individual pipeline stages
  */
@@ -78,6 +82,8 @@ export interface FusionStats {
  * Reranking statistics
  */
 export interface RerankStats {
+  /** Scorer that produced the scores ('reranker' unless degraded) */
+  scorer: RerankScorer;
   /** Number of candidates passed to reranker */
   candidateCount: number;
   /** Number of results after reranking */
@@ -92,6 +98,20 @@ export interface RerankStats {
   confidenceThresholdMet: boolean;
 }
 
+/**
+ * Answer faithfulness statistics
+ */
+export interface FaithfulnessStats {
+  /** Mean support of the verified claims (0-1), or null if none were verified */
+  score: number | null;
+  /** Number of claims extracted from the answer */
+  claimCount: number;
+  /** Number of claims not backed by their cited sources */
+  unsupportedCount: number;
+  /** Time spent verifying the answer */
+  verifyMs: number;
+}
+
 /**
  * Complete retrieval metrics for a query
  */
@@ -114,6 +134,8 @@ export interface DetailedRetrievalMetrics {
   finalContextTokens: number;
   /** Number of citations generated */
   citationCount: number;
+  /** Faithfulness of the generated answer (set after generation, when verified) */
+  faithfulness?: FaithfulnessStats;
 }
 
 /**
@@ -143,9 +165,19 @@ export class StageTimer {
       return 0;
     }
     stage.end = Date.now();
+    observeStageDuration(stageName, stage.end - stage.start);
     return stage.end - stage.start;
   }
 
+  /**
+   * Record a stage timed elsewhere (e.g. inside the hybrid retriever)
+   */
+  record(stageName: string, durationMs: number): void {
+    const end = Date.now();
+    this.stages.set(stageName, { start: end - durationMs, end });
+    observeStageDuration(stageName, durationMs);
+  }
+
   /**
    * Get duration for a stage
    */
@@ -216,6 +248,7 @@ export class MetricsCollector {
     rrfScore: number;
   }> = [];
   private rerankScores: number[] = [];
+  private rerankScorer: RerankScorer = 'reranker';
   private confidenceThreshold: number = 0.6;
   private finalContextTokens: number = 0;
   private citationCount: number = 0;
@@ -240,6 +273,16 @@ export class MetricsCollector {
     return this.timer.stop(stage);
   }
 
+  /**
+   * Record the duration of a stage timed elsewhere
+   */
+  recordStage(
+    stage: 'embedding' | 'vectorSearch' | 'graphTraversal' | 'fusion' | 'rerank',
+    durationMs: number
+  ): void {
+    this.timer.record(stage, durationMs);
+  }
+
   /**
    * Record vector search results
    */
@@ -271,9 +314,13 @@ export class MetricsCollector {
 
   /**
    * Record reranking results
+   *
+   * @param scores - Scores of the ranked results, best first
+   * @param scorer - Scorer that produced them
    */
-  recordRerankResults(scores: number[]): void {
+  recordRerankResults(scores: number[], scorer: RerankScorer = 'reranker'): void {
     this.rerankScores = scores;
+    this.rerankScorer = scorer;
   }
 
   /**
@@ -341,6 +388,7 @@ export class MetricsCollector {
     ).length;
 
     return {
+      scorer: this.rerankScorer,
       candidateCount: this.fusedResults.length,
       resultCount: this.rerankScores.length,
       topScore: stats.top,
@@ -386,6 +434,7 @@ export class MetricsCollector {
     rrfTopScore: number | null;
     rerankMs: number;
     rerankTopScore: number | null;
+    rerankScorer: RerankScorer;
     confidenceThresholdMet: boolean;
     finalContextTokens: number;
     citationCount: number;
@@ -406,6 +455,7 @@ export class MetricsCollector {
       rrfTopScore: metrics.fusion.rrfTopScore,
       rerankMs: metrics.timing.rerankMs,
       rerankTopScore: metrics.rerank.topScore,
+      rerankScorer: metrics.rerank.scorer,
       confidenceThresholdMet: metrics.rerank.confidenceThresholdMet,
       finalContextTokens: metrics.finalContextTokens,
       citationCount: metrics.citationCount,
@@ -0,0 +1,479 @@
+/**
+ * Embedding Model Migration
+ *
+ * Moves the knowledge base to a new embedding model without downtime:
+ * 1. createShadowVersion() records a new version and creates its collection;
+ *    from then on, ingestion dual-writes new chunks to it
+ * 2. backfill() re-embeds every stored chunk into the shadow collection,
+ *    one document at a time, resuming from its cursor after interruption
+ * 3. compare() runs recent queries against both versions (A/B)
+ * 4. activate() switches retrieval to the new collection
+ *
+ * @module @jubilant/rag/retrieval/migration
+ */
+
+import type { MilvusClient } from '@zilliz/milvus2-sdk-node';
+import type { ChunkMetadata, RetrievalResult } from '../types';
+import { MilvusRetriever } from './vector';
+import type {
+  CollectionTarget,
+  EmbeddingVersion,
+  EmbeddingVersionStore,
+  EmbeddingVersionTracker,
+} from './versions';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Configuration for EmbeddingMigration
+ */
+export interface EmbeddingMigrationConfig {
+  /** Unversioned collection, recorded as version 1 when versions start */
+  baseCollectionName: string;
+  /** Documents fetched per page while backfilling */
+  documentPageSize: number;
+  /** Chunks embedded per request while backfilling */
+  embedBatchSize: number;
+}
+
+const DEFAULT_CONFIG: EmbeddingMigrationConfig = {
+  baseCollectionName: 'knowledge_chunks',
+  documentPageSize: 50,
+  embedBatchSize: 16,
+};
+
+/**
+ * Model for a new embedding version
+ */
+export interface EmbeddingModelSelection {
+  /** Model provider name (see providers/config) */
+  provider: string;
+  model: string;
+  dimensions: number;
+}
+
+/**
+ * Creates a Milvus collection with the chunk schema
+ */
+export type CollectionInitializer = (collectionName: string, dimensions: number) => Promise<void>;
+
+/**
+ * Backfill progress, reported after each document
+ */
+export type BackfillProgressCallback = (progress: {
+  version: number;
+  processedDocuments: number;
+  totalDocuments: number;
+  embeddedChunks: number;
+}) => void;
+
+/**
+ * How one query's results differ between two versions
+ */
+export interface QueryComparison {
+  query: string;
+  /** Fraction of the baseline top-k also in the candidate top-k (0-1) */
+  overlap: number;
+  baselineTopScore: number;
+  candidateTopScore: number;
+  /** Baseline chunks missing from the candidate results */
+  droppedChunkIds: string[];
+}
+
+/**
+ * A/B comparison of retrieval between two versions
+ */
+export interface VersionComparison {
+  baselineVersion: number | null;
+  candidateVersion: number;
+  k: number;
+  queryCount: number;
+  /** Mean top-k overlap across queries (0-1) */
+  meanOverlap: number;
+  meanBaselineTopScore: number;
+  meanCandidateTopScore: number;
+  /** Queries whose results changed most, lowest overlap first */
+  queries: QueryComparison[];
+}
+
+/**
+ * Chunk counts of the active and a candidate collection
+ */
+export interface ChunkCounts {
+  active: number;
+  candidate: number;
+}
+
+/**
+ * A row read back from a chunk collection
+ */
+interface StoredRow {
+  chunk_id: number | string;
+  content_text: string;
+  metadata: ChunkMetadata | string;
+  topic_tag: string;
+}
+
+/**
+ * Maximum rows fetched per Milvus query
+ */
+const MILVUS_QUERY_LIMIT = 16384;
+
+// ============================================================================
+// Comparison
+// ============================================================================
+
+/**
+ * Compare one query's results from a baseline and a candidate version.
+ * Chunk IDs are shared across versions, so results match by ID.
+ *
+ * @param query - Query that was run
+ * @param baseline - Results from the current version
+ * @param candidate - Results from the new version
+ * @param k - Number of top results compared
+ */
+export function compareRetrievalResults(
+  query: string,
+  baseline: RetrievalResult[],
+  candidate: RetrievalResult[],
+  k: number
+): QueryComparison {
+  const baselineIds = baseline.slice(0, k).map((r) => r.id);
+  const candidateIds = new Set(candidate.slice(0, k).map((r) => r.id));
+  const droppedChunkIds = baselineIds.filter((id) => !candidateIds.has(id));
+
+  return {
+    query,
+    overlap: baselineIds.length === 0
+      ? (candidateIds.size === 0 ? 1 : 0)
+      : (baselineIds.length - droppedChunkIds.length) / baselineIds.length,
+    baselineTopScore: baseline[0]?.score ?? 0,
+    candidateTopScore: candidate[0]?.score ?? 0,
+    droppedChunkIds,
+  };
+}
+
+/**
+ * Summarize per-query comparisons
+ */
+export function summarizeComparisons(
+  baselineVersion: number | null,
+  candidateVersion: number,
+  k: number,
+  queries: QueryComparison[]
+): VersionComparison {
+  const mean = (values: number[]) =>
+    values.length === 0 ? 0 : values.reduce((sum, v) => sum + v, 0) / values.length;
+
+  return {
+    baselineVersion,
+    candidateVersion,
+    k,
+    queryCount: queries.length,
+    meanOverlap: mean(queries.map((q) => q.overlap)),
+    meanBaselineTopScore: mean(queries.map((q) => q.baselineTopScore)),
+    meanCandidateTopScore: mean(queries.map((q) => q.candidateTopScore)),
+    queries: [...queries].sort((a, b) => a.overlap - b.overlap),
+  };
+}
+
+// ============================================================================
+// EmbeddingMigration Class
+// ============================================================================
+
+/**
+ * EmbeddingMigration - Builds, compares and activates embedding versions
+ */
+export class EmbeddingMigration {
+  private client: MilvusClient;
+  private store: EmbeddingVersionStore;
+  private tracker: EmbeddingVersionTracker;
+  private initCollection: CollectionInitializer;
+  private config: EmbeddingMigrationConfig;
+
+  constructor(
+    client: MilvusClient,
+    store: EmbeddingVersionStore,
+    tracker: EmbeddingVersionTracker,
+    initCollection: CollectionInitializer,
+    config: Partial<EmbeddingMigrationConfig> = {}
+  ) {
+    this.client = client;
+    this.store = store;
+    this.tracker = tracker;
+    this.initCollection = initCollection;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Record the unversioned collection as active version 1, if no versions
+   * exist yet
+   *
+   * @param current - Model the existing collection was embedded with
+   * @returns The active version
+   */
+  async bootstrap(current: EmbeddingModelSelection): Promise<EmbeddingVersion> {
+    const versions = await this.store.listVersions();
+    const active = versions.find((v) => v.status === 'active');
+    if (active) {
+      return active;
+    }
+    if (versions.length > 0) {
+      throw new Error('Embedding versions exist but none is active');
+    }
+
+    await this.store.createVersion({
+      version: 1,
+      collectionName: this.config.baseCollectionName,
+      ...current,
+      status: 'ready',
+    });
+    await this.store.activateVersion(1);
+    this.tracker.invalidate();
+
+    const [version] = await this.store.listVersions();
+    return version;
+  }
+
+  /**
+   * Create a shadow collection for a new model. New ingestions are
+   * dual-written to it once trackers refresh.
+   *
+   * @returns The new version, in status building
+   */
+  async createShadowVersion(selection: EmbeddingModelSelection): Promise<EmbeddingVersion> {
+    const versions = await this.store.listVersions();
+    const number = Math.max(0, ...versions.map((v) => v.version)) + 1;
+    const collectionName = `${this.config.baseCollectionName}_v${number}`;
+
+    // Create the collection first, so dual writes never hit a missing one
+    await this.initCollection(collectionName, selection.dimensions);
+
+    const version = await this.store.createVersion({
+      version: number,
+      collectionName,
+      ...selection,
+      status: 'building',
+    });
+    this.tracker.invalidate();
+    return version;
+  }
+
+  /**
+   * Re-embed every active chunk into a shadow collection. Documents are
+   * processed in ID order and the cursor saved after each, so an
+   * interrupted backfill resumes where it stopped.
+   *
+   * @param versionNumber - Shadow version to fill
+   * @param options.restart - Start over from the first document
+   * @param options.onProgress - Progress callback
+   * @returns The version after the backfill (status ready)
+   */
+  async backfill(
+    versionNumber: number,
+    options: { restart?: boolean; onProgress?: BackfillProgressCallback } = {}
+  ): Promise<EmbeddingVersion> {
+    const version = await this.getVersion(versionNumber);
+    if (version.status !== 'building' && version.status !== 'ready' && version.status !== 'failed') {
+      throw new Error(`Version ${versionNumber} is ${version.status}; only shadow versions can be backfilled`);
+    }
+
+    const { active } = await this.tracker.resolve();
+    if (active.version === versionNumber) {
+      throw new Error(`Version ${versionNumber} is already active`);
+    }
+
+    const embedder = this.tracker.embedderFor(version);
+    const totalDocuments = await this.store.countDocuments();
+    let cursor = options.restart ? null : version.backfillCursor;
+    let processedDocuments = options.restart ? 0 : version.processedDocuments;
+    let embeddedChunks = options.restart ? 0 : version.embeddedChunks;
+
+    await this.store.updateVersion(versionNumber, {
+      status: 'building',
+      totalDocuments,
+      processedDocuments,
+      embeddedChunks,
+      backfillCursor: cursor,
+      error: null,
+    });
+
+    try {
+      for (;;) {
+        const documentIds = await this.store.listDocumentIds(cursor, this.config.documentPageSize);
+        if (documentIds.length === 0) break;
+
+        for (const documentId of documentIds) {
+          embeddedChunks += await this.backfillDocument(
+            documentId,
+            active.collectionName,
+            version.collectionName,
+            embedder
+          );
+          processedDocuments++;
+          cursor = documentId;
+
+          await this.store.updateVersion(versionNumber, {
+            processedDocuments,
+            embeddedChunks,
+            backfillCursor: cursor,
+          });
+          options.onProgress?.({ version: versionNumber, processedDocuments, totalDocuments, embeddedChunks });
+        }
+      }
+
+      await this.client.flush({ collection_names: [version.collectionName] });
+      await this.store.updateVersion(versionNumber, { status: 'ready' });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.store.updateVersion(versionNumber, { status: 'failed', error: message });
+      throw error;
+    }
+
+    return this.getVersion(versionNumber);
+  }
+
+  /**
+   * A/B compare retrieval between the active version and a candidate
+   *
+   * @param versionNumber - Candidate version
+   * @param queries - Queries to run (e.g. recent user queries)
+   * @param k - Number of top results compared
+   */
+  async compare(versionNumber: number, queries: string[], k = 10): Promise<VersionComparison> {
+    const candidate = await this.getVersion(versionNumber);
+    const { active } = await this.tracker.resolve();
+
+    const baselineRetriever = this.retrieverFor(active);
+    const candidateRetriever = this.retrieverFor({
+      version: candidate.version,
+      collectionName: candidate.collectionName,
+      embedder: this.tracker.embedderFor(candidate),
+    });
+
+    const comparisons: QueryComparison[] = [];
+    for (const query of queries) {
+      const [baseline, results] = await Promise.all([
+        baselineRetriever.search(query, k),
+        candidateRetriever.search(query, k),
+      ]);
+      comparisons.push(compareRetrievalResults(query, baseline, results, k));
+    }
+
+    return summarizeComparisons(active.version, versionNumber, k, comparisons);
+  }
+
+  /**
+   * Count chunks in the active collection and a candidate's
+   */
+  async countChunks(versionNumber: number): Promise<ChunkCounts> {
+    const candidate = await this.getVersion(versionNumber);
+    const { active } = await this.tracker.resolve();
+
+    const [activeCount, candidateCount] = await Promise.all([
+      this.countRows(active.collectionName),
+      this.countRows(candidate.collectionName),
+    ]);
+    return { active: activeCount, candidate: candidateCount };
+  }
+
+  /**
+   * Switch retrieval to a version. The store swaps the active version in
+   * one transaction; other processes follow within their refresh interval.
+   *
+   * @throws Error if the version has not finished backfilling
+   */
+  async activate(versionNumber: number): Promise<EmbeddingVersion> {
+    const version = await this.getVersion(versionNumber);
+    if (version.status !== 'ready' && version.status !== 'retired') {
+      throw new Error(`Version ${versionNumber} is ${version.status}; only ready versions can be activated`);
+    }
+
+    await this.store.activateVersion(versionNumber);
+    this.tracker.invalidate();
+    return this.getVersion(versionNumber);
+  }
+
+  /**
+   * Copy one document's chunks from the active collection into a shadow,
+   * and drop shadow rows the active collection no longer has
+   *
+   * @returns Number of chunks embedded
+   */
+  private async backfillDocument(
+    documentId: string,
+    sourceCollection: string,
+    targetCollection: string,
+    embedder: CollectionTarget['embedder']
+  ): Promise<number> {
+    const filter = `metadata["documentId"] == "${documentId}"`;
+    const [source, existing] = await Promise.all([
+      this.client.query({
+        collection_name: sourceCollection,
+        filter,
+        output_fields: ['chunk_id', 'content_text', 'metadata', 'topic_tag'],
+        limit: MILVUS_QUERY_LIMIT,
+      }),
+      this.client.query({
+        collection_name: targetCollection,
+        filter,
+        output_fields: ['chunk_id'],
+        limit: MILVUS_QUERY_LIMIT,
+      }),
+    ]);
+
+    const rows = source.data as unknown as StoredRow[];
+    const sourceIds = new Set(rows.map((row) => Number(row.chunk_id)));
+    const staleIds = existing.data
+      .map((row) => Number(row.chunk_id))
+      .filter((id) => !sourceIds.has(id));
+
+    if (staleIds.length > 0) {
+      await this.client.delete({
+        collection_name: targetCollection,
+        filter: `chunk_id in [${staleIds.join(', ')}]`,
+      });
+    }
+
+    for (let i = 0; i < rows.length; i += this.config.embedBatchSize) {
+      const batch = rows.slice(i, i + this.config.embedBatchSize);
+      const vectors = await embedder.getTextEmbeddings(batch.map((row) => row.content_text));
+
+      await this.client.upsert({
+        collection_name: targetCollection,
+        data: batch.map((row, j) => ({
+          chunk_id: Number(row.chunk_id),
+          vector: vectors[j],
+          content_text: row.content_text,
+          metadata: typeof row.metadata === 'string' ? row.metadata : JSON.stringify(row.metadata),
+          topic_tag: row.topic_tag,
+        })),
+      });
+    }
+
+    return rows.length;
+  }
+
+  private retrieverFor(target: CollectionTarget): MilvusRetriever {
+    return new MilvusRetriever(this.client, target.embedder, { collectionName: target.collectionName });
+  }
+
+  private async countRows(collectionName: string): Promise<number> {
+    const result = await this.client.query({
+      collection_name: collectionName,
+      filter: '',
+      output_fields: ['count(*)'],
+    });
+    return Number(result.data[0]?.['count(*)'] ?? 0);
+  }
+
+  private async getVersion(versionNumber: number): Promise<EmbeddingVersion> {
+    const version = (await this.store.listVersions()).find((v) => v.version === versionNumber);
+    if (!version) {
+      throw new Error(`Embedding version ${versionNumber} does not exist`);
+    }
+    return version;
+  }
+}
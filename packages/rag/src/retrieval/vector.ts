@@ -4,12 +4,16 @@
  * Performs semantic similarity search using Milvus vector database.
  * Returns top-K results based on cosine similarity of query embeddings.
  *
+ * With an embedding version tracker, each search reads the active
+ * versioned collection with that version's query embedder.
+ *
  * @module @jubilant/rag/retrieval/vector
  */
 
 import type { MilvusClient, SearchResultData } from '@zilliz/milvus2-sdk-node';
 import type { RetrievalResult, ChunkMetadata } from '../types';
 import { Qwen3Embedding, createEmbedder } from '../generation/embedder';
+import type { CollectionTarget, EmbeddingVersionTracker } from './versions';
 
 /**
  * Configuration for MilvusRetriever
@@ -44,6 +48,12 @@ const DEFAULT_CONFIG: Partial<MilvusRetrieverConfig> = {
   },
 };
 
+/**
+ * Excludes chunks of archived documents. Chunks ingested before archiving
+ * existed have no archived key, so test for true rather than false.
+ */
+const NOT_ARCHIVED_FILTER = 'not (metadata["archived"] == true)';
+
 /**
  * Extended search result data from Milvus with our schema fields
  */
@@ -61,6 +71,7 @@ export class MilvusRetriever {
   private client: MilvusClient;
   private embedder: Qwen3Embedding;
   private config: MilvusRetrieverConfig;
+  private versionTracker: EmbeddingVersionTracker | null = null;
 
   constructor(
     client: MilvusClient,
@@ -75,6 +86,14 @@ export class MilvusRetriever {
     } as MilvusRetrieverConfig;
   }
 
+  /**
+   * Set the tracker that picks the collection to search.
+   * Without one, the configured collection and embedder are used.
+   */
+  setVersionTracker(tracker: EmbeddingVersionTracker | null): void {
+    this.versionTracker = tracker;
+  }
+
   /**
    * Search for similar chunks given a query string
    *
@@ -88,57 +107,20 @@ export class MilvusRetriever {
     topK?: number,
     topicFilter?: string
   ): Promise<RetrievalResult[]> {
-    const k = topK || this.config.topK;
-    const filter = topicFilter || this.config.topicFilter;
+    // Resolve once, so the query is embedded for the collection searched
+    const target = await this.resolveTarget();
 
     // Generate query embedding
-    const queryEmbedding = await this.embedder.getQueryEmbedding(query);
-
-    // Build search request
-    const searchParams: Record<string, unknown> = {
-      collection_name: this.config.collectionName,
-      vector: queryEmbedding,
-      limit: k,
-      output_fields: this.config.outputFields,
-      metric_type: 'COSINE',
-      params: this.config.searchParams,
-    };
-
-    // Add topic filter if specified
-    if (filter) {
-      searchParams.filter = `topic_tag == "${filter}"`;
-    }
+    const queryEmbedding = await target.embedder.getQueryEmbedding(query);
 
-    // Execute search with type assertion for our schema
-    const searchResult = await this.client.search(searchParams as Parameters<typeof this.client.search>[0]);
-
-    if (!searchResult.results || searchResult.results.length === 0) {
-      return [];
-    }
-
-    // Transform results to RetrievalResult format
-    return searchResult.results.map((rawHit) => {
-      const hit = rawHit as MilvusSearchResult;
-      // Parse metadata if it's a string
-      const metadata =
-        typeof hit.metadata === 'string'
-          ? JSON.parse(hit.metadata)
-          : hit.metadata;
-
-      return {
-        id: String(hit.chunk_id || hit.id || ''),
-        content: hit.content_text || '',
-        score: hit.score ?? 0,
-        metadata: (metadata || {}) as ChunkMetadata,
-        source: 'vector' as const,
-      };
-    });
+    return this.searchCollection(target.collectionName, queryEmbedding, topK, topicFilter);
   }
 
   /**
    * Search with pre-computed embedding vector
    *
-   * @param embedding - Pre-computed query embedding
+   * @param embedding - Pre-computed query embedding, from the active
+   *   collection's model
    * @param topK - Number of results to return
    * @param topicFilter - Optional topic filter
    * @returns Array of retrieval results
@@ -147,12 +129,25 @@ export class MilvusRetriever {
     embedding: number[],
     topK?: number,
     topicFilter?: string
+  ): Promise<RetrievalResult[]> {
+    const target = await this.resolveTarget();
+    return this.searchCollection(target.collectionName, embedding, topK, topicFilter);
+  }
+
+  /**
+   * Run a similarity search against one collection
+   */
+  private async searchCollection(
+    collectionName: string,
+    embedding: number[],
+    topK?: number,
+    topicFilter?: string
   ): Promise<RetrievalResult[]> {
     const k = topK || this.config.topK;
     const filter = topicFilter || this.config.topicFilter;
 
     const searchParams: Record<string, unknown> = {
-      collection_name: this.config.collectionName,
+      collection_name: collectionName,
       vector: embedding,
       limit: k,
       output_fields: this.config.outputFields,
@@ -160,9 +155,7 @@ export class MilvusRetriever {
       params: this.config.searchParams,
     };
 
-    if (filter) {
-      searchParams.filter = `topic_tag == "${filter}"`;
-    }
+    searchParams.filter = this.buildFilter(filter);
 
     const searchResult = await this.client.search(searchParams as Parameters<typeof this.client.search>[0]);
 
@@ -187,6 +180,26 @@ export class MilvusRetriever {
     });
   }
 
+  /**
+   * Get the collection to search and the embedder for its model
+   */
+  private async resolveTarget(): Promise<Pick<CollectionTarget, 'collectionName' | 'embedder'>> {
+    if (!this.versionTracker) {
+      return { collectionName: this.config.collectionName, embedder: this.embedder };
+    }
+    return (await this.versionTracker.resolve()).active;
+  }
+
+  /**
+   * Build the search filter: active documents, optionally by topic
+   */
+  private buildFilter(topicFilter?: string): string {
+    if (topicFilter) {
+      return `topic_tag == "${topicFilter}" and ${NOT_ARCHIVED_FILTER}`;
+    }
+    return NOT_ARCHIVED_FILTER;
+  }
+
   /**
    * Get the configured collection name
    */
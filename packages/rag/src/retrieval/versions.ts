@@ -0,0 +1,251 @@
+/**
+ * Embedding Collection Versions
+ *
+ * Each embedding model gets its own Milvus collection, recorded as a
+ * numbered version. One version is active and serves retrieval; a new
+ * version is built as a shadow collection (re-embedded in the background,
+ * with new ingestions dual-written to it) until it is activated.
+ *
+ * The tracker resolves the active collection and its query embedder as one
+ * target, so a switch never pairs one model's query vectors with another
+ * model's collection.
+ *
+ * @module @jubilant/rag/retrieval/versions
+ */
+
+import { Qwen3Embedding, createEmbedder } from '../generation/embedder';
+import { getModelRegistry, type ModelRegistry } from '../providers/registry';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Lifecycle of an embedding version:
+ * building (backfill running) -> ready -> active -> retired, or failed
+ */
+export type EmbeddingVersionStatus = 'building' | 'ready' | 'active' | 'retired' | 'failed';
+
+/**
+ * A versioned embedding collection
+ */
+export interface EmbeddingVersion {
+  version: number;
+  collectionName: string;
+  /** Model provider name (see providers/config) */
+  provider: string;
+  model: string;
+  dimensions: number;
+  status: EmbeddingVersionStatus;
+  /** Documents re-embedded by the backfill so far */
+  processedDocuments: number;
+  totalDocuments: number;
+  /** Chunks written by the backfill so far */
+  embeddedChunks: number;
+  /** Last document the backfill completed (documents are walked in ID order) */
+  backfillCursor: string | null;
+  error: string | null;
+  createdAt: Date;
+  activatedAt: Date | null;
+}
+
+/**
+ * Updatable fields of an embedding version
+ */
+export type EmbeddingVersionUpdate = Partial<
+  Pick<
+    EmbeddingVersion,
+    'status' | 'processedDocuments' | 'totalDocuments' | 'embeddedChunks' | 'backfillCursor' | 'error'
+  >
+>;
+
+/**
+ * Persistence for embedding versions
+ */
+export interface EmbeddingVersionStore {
+  listVersions(): Promise<EmbeddingVersion[]>;
+  /** Record a new version (numbers and collection names are unique) */
+  createVersion(
+    version: Pick<
+      EmbeddingVersion,
+      'version' | 'collectionName' | 'provider' | 'model' | 'dimensions' | 'status'
+    >
+  ): Promise<EmbeddingVersion>;
+  updateVersion(version: number, updates: EmbeddingVersionUpdate): Promise<void>;
+  /** Make a version active and retire the previous one, in one transaction */
+  activateVersion(version: number): Promise<void>;
+  /** Page through document IDs in ascending order */
+  listDocumentIds(after: string | null, limit: number): Promise<string[]>;
+  countDocuments(): Promise<number>;
+}
+
+/**
+ * A collection to read from or write to, with the embedder for its model
+ */
+export interface CollectionTarget {
+  /** Version number, or null for the unversioned default collection */
+  version: number | null;
+  collectionName: string;
+  embedder: Qwen3Embedding;
+}
+
+/**
+ * Collections in use: the active one, and shadows being built
+ */
+export interface CollectionTargets {
+  active: CollectionTarget;
+  shadows: CollectionTarget[];
+}
+
+/**
+ * Configuration for EmbeddingVersionTracker
+ */
+export interface EmbeddingVersionTrackerConfig {
+  /** How long resolved versions are reused before the store is read again */
+  refreshIntervalMs: number;
+  /** Collection used while no version is active */
+  defaultCollectionName: string;
+}
+
+const DEFAULT_CONFIG: EmbeddingVersionTrackerConfig = {
+  refreshIntervalMs: 30000,
+  defaultCollectionName: 'knowledge_chunks',
+};
+
+/**
+ * Statuses of versions that receive dual writes
+ */
+const SHADOW_STATUSES: EmbeddingVersionStatus[] = ['building', 'ready'];
+
+// ============================================================================
+// EmbeddingVersionTracker Class
+// ============================================================================
+
+/**
+ * EmbeddingVersionTracker - Resolves the collections in use from the store
+ */
+export class EmbeddingVersionTracker {
+  private store: EmbeddingVersionStore;
+  private config: EmbeddingVersionTrackerConfig;
+  private registry: ModelRegistry | null;
+  private defaultEmbedder: Qwen3Embedding | null;
+  private embedders = new Map<number, Qwen3Embedding>();
+  private cached: { targets: CollectionTargets; expiresAt: number } | null = null;
+  private pending: Promise<CollectionTargets> | null = null;
+
+  constructor(
+    store: EmbeddingVersionStore,
+    options: {
+      config?: Partial<EmbeddingVersionTrackerConfig>;
+      registry?: ModelRegistry;
+      /** Embedder for the default collection (default: the embedding role) */
+      defaultEmbedder?: Qwen3Embedding;
+    } = {}
+  ) {
+    this.store = store;
+    this.config = { ...DEFAULT_CONFIG, ...options.config };
+    this.registry = options.registry ?? null;
+    this.defaultEmbedder = options.defaultEmbedder ?? null;
+  }
+
+  /**
+   * Get the active and shadow collections, reading the store at most once
+   * per refresh interval
+   */
+  async resolve(): Promise<CollectionTargets> {
+    if (this.cached && this.cached.expiresAt > Date.now()) {
+      return this.cached.targets;
+    }
+
+    // Concurrent callers share one store read
+    if (!this.pending) {
+      this.pending = this.load().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  /**
+   * Drop cached versions so the next resolve() reads the store
+   */
+  invalidate(): void {
+    this.cached = null;
+  }
+
+  /**
+   * Get the embedder for a version's model
+   *
+   * @throws Error if the version's provider is not configured
+   */
+  embedderFor(version: EmbeddingVersion): Qwen3Embedding {
+    let embedder = this.embedders.get(version.version);
+    if (!embedder) {
+      const registry = this.registry ?? getModelRegistry();
+      const provider = registry.getProvider(version.provider);
+      if (!provider) {
+        throw new Error(
+          `Embedding version ${version.version} uses provider "${version.provider}", which is not configured`
+        );
+      }
+      embedder = new Qwen3Embedding({
+        provider,
+        model: version.model,
+        dimensions: version.dimensions,
+      });
+      this.embedders.set(version.version, embedder);
+    }
+    return embedder;
+  }
+
+  private async load(): Promise<CollectionTargets> {
+    const versions = await this.store.listVersions();
+    const active = versions.find((v) => v.status === 'active');
+
+    const targets: CollectionTargets = {
+      active: active
+        ? this.toTarget(active)
+        : {
+            version: null,
+            collectionName: this.config.defaultCollectionName,
+            embedder: this.getDefaultEmbedder(),
+          },
+      shadows: versions.filter((v) => SHADOW_STATUSES.includes(v.status)).map((v) => this.toTarget(v)),
+    };
+
+    this.cached = { targets, expiresAt: Date.now() + this.config.refreshIntervalMs };
+    return targets;
+  }
+
+  private toTarget(version: EmbeddingVersion): CollectionTarget {
+    return {
+      version: version.version,
+      collectionName: version.collectionName,
+      embedder: this.embedderFor(version),
+    };
+  }
+
+  private getDefaultEmbedder(): Qwen3Embedding {
+    if (!this.defaultEmbedder) {
+      this.defaultEmbedder = createEmbedder();
+    }
+    return this.defaultEmbedder;
+  }
+}
+
+/**
+ * Create an EmbeddingVersionTracker. The refresh interval can be set with
+ * EMBEDDING_VERSION_REFRESH_MS.
+ */
+export function createEmbeddingVersionTracker(
+  store: EmbeddingVersionStore,
+  config: Partial<EmbeddingVersionTrackerConfig> = {}
+): EmbeddingVersionTracker {
+  const refreshIntervalMs = parseInt(process.env.EMBEDDING_VERSION_REFRESH_MS || '', 10);
+  return new EmbeddingVersionTracker(store, {
+    config: {
+      ...(Number.isFinite(refreshIntervalMs) && refreshIntervalMs >= 0 && { refreshIntervalMs }),
+      ...config,
+    },
+  });
+}
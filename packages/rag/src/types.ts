@@ -3,6 +3,9 @@
  * @module @jubilant/rag/types
  */
 
+import type { DocumentFormat } from './ingestion/parsers';
+import type { ProviderHealth } from './providers/registry';
+
 // ============================================================================
 // Chunk and Embedding Types
 // ============================================================================
@@ -21,8 +24,58 @@ export interface ChunkMetadata {
   hasCode: boolean;
   hasFormula: boolean;
   hasTable: boolean;
+  /** Set while the source document is archived (excluded from retrieval) */
+  archived?: boolean;
+  /** Typed section of a problem package (problem documents only) */
+  sectionType?: ProblemSectionType;
+  /** First and last page the chunk's text is on (paginated formats only) */
+  pageStart?: number;
+  pageEnd?: number;
+  /** Lowest OCR confidence (0-1) of the chunk's text, when it was OCR'd */
+  ocrConfidence?: number;
+  /** Languages of the chunk's code blocks */
+  codeLanguages?: CodeLanguage[];
+  /** Set on code snippet records: the code block and the chunk it is from */
+  codeSnippet?: CodeSnippetRef;
 }
 
+/**
+ * Language of a code block (tagged, or detected for untagged blocks)
+ */
+export type CodeLanguage =
+  | 'cpp'
+  | 'c'
+  | 'python'
+  | 'java'
+  | 'javascript'
+  | 'go'
+  | 'rust'
+  | 'other';
+
+/**
+ * A code block of a chunk, indexed as its own snippet record
+ */
+export interface CodeSnippetRef {
+  /** Snippet ID: the chunk ID and the block's position in the chunk */
+  id: string;
+  chunkId: string;
+  snippetIndex: number;
+  language: CodeLanguage;
+}
+
+/**
+ * Sections of a competitive programming problem package
+ */
+export type ProblemSectionType =
+  | 'statement'
+  | 'input'
+  | 'output'
+  | 'constraints'
+  | 'samples'
+  | 'notes'
+  | 'editorial'
+  | 'solution';
+
 /**
  * A chunk with its embedding vector
  */
@@ -31,6 +84,8 @@ export interface EmbeddedChunk {
   content: string;
   embedding: number[];
   metadata: ChunkMetadata;
+  /** Embedding version the vector was computed for (null: default collection) */
+  embeddingVersion?: number | null;
 }
 
 /**
@@ -49,14 +104,20 @@ export interface KnowledgeTriple {
 // ============================================================================
 
 /**
- * Result from a single retriever (vector or graph)
+ * Retrieval mode: default, or code, which also searches code snippets and
+ * favours implementations
+ */
+export type RetrievalMode = 'default' | 'code';
+
+/**
+ * Result from a single retriever (vector, graph or code snippets)
  */
 export interface RetrievalResult {
   id: string;
   content: string;
   score: number;
   metadata: ChunkMetadata;
-  source: 'vector' | 'graph';
+  source: 'vector' | 'graph' | 'code';
 }
 
 /**
@@ -68,9 +129,20 @@ export interface FusedResult {
   fusedScore: number;
   vectorRank?: number;
   graphRank?: number;
+  /** Rank among code snippet results (code mode only) */
+  codeRank?: number;
+  /** Cosine similarity from vector search (vector hits only) */
+  vectorScore?: number;
   metadata: ChunkMetadata;
 }
 
+/**
+ * Scorer that produced the rerank scores: the primary reranker, the
+ * secondary reranker, the local lexical/embedding-similarity scorer, or
+ * fused RRF scores passed through unchanged when no scorer was available
+ */
+export type RerankScorer = 'reranker' | 'secondary_reranker' | 'local' | 'rrf';
+
 /**
  * Result after reranking
  */
@@ -91,11 +163,17 @@ export interface RankedResult {
  */
 export interface Citation {
   id: string; // e.g., "[1]"
+  /** Cited chunk, or code snippet when codeLanguage is set */
   chunkId: string;
   documentTitle: string;
   documentUrl: string;
   snippet: string;
   relevanceScore: number;
+  /** Page range of the cited chunk (paginated formats only) */
+  pageStart?: number;
+  pageEnd?: number;
+  /** Language of the cited code snippet (snippet citations only) */
+  codeLanguage?: CodeLanguage;
 }
 
 /**
@@ -116,18 +194,53 @@ export interface ConfidenceInfo {
   level: 'high' | 'medium' | 'low' | 'insufficient';
   hasInsufficientEvidence: boolean;
   topScore: number;
+  /** Scorer the confidence was calibrated for */
+  rerankScorer?: RerankScorer;
+}
+
+/**
+ * How well a claim in an answer is backed by the sources it cites:
+ * - supported / partial / unsupported: judged against the cited chunks
+ *   (a claim citing a source that does not exist is unsupported)
+ * - uncited: the claim cites nothing, so there is nothing to check it against
+ * - unverified: the verifier returned no verdict for the claim
+ */
+export type ClaimVerdict = 'supported' | 'partial' | 'unsupported' | 'uncited' | 'unverified';
+
+/**
+ * Verification of one claim of a generated answer
+ */
+export interface ClaimVerification {
+  /** Position of the claim in the answer (0-based) */
+  index: number;
+  /** Claim as written in the answer, citation markers included */
+  text: string;
+  /** Citations the claim refers to, e.g. ["[1]", "[3]"] */
+  citationIds: string[];
+  verdict: ClaimVerdict;
+}
+
+/**
+ * Faithfulness of an answer to its cited sources
+ */
+export interface FaithfulnessReport {
+  /** Mean support of the verified claims (0-1), or null if none were verified */
+  score: number | null;
+  claims: ClaimVerification[];
+  unsupportedCount: number;
 }
 
 /**
  * A chunk of streamed response data
  */
 export interface StreamChunk {
-  type: 'token' | 'citation' | 'metadata' | 'done' | 'error' | 'confidence';
+  type: 'token' | 'citation' | 'metadata' | 'done' | 'error' | 'confidence' | 'faithfulness';
   content?: string;
   citation?: Citation;
   metadata?: ResponseMetadata;
   error?: string;
   confidence?: ConfidenceInfo;
+  faithfulness?: FaithfulnessReport;
 }
 
 /**
@@ -141,6 +254,16 @@ export interface ResponseMetadata {
   vectorResultCount: number;
   graphResultCount: number;
   latencyMs: number;
+  /** Scorer that ranked the sources (anything but 'reranker' is degraded) */
+  rerankScorer: RerankScorer;
+  /** Standalone query used for retrieval when a follow-up was rewritten */
+  standaloneQuery?: string;
+  /** Faithfulness of the answer to its cited sources (when verified) */
+  faithfulnessScore?: number | null;
+  /** Whether the answer was served from the semantic answer cache */
+  cacheHit?: boolean;
+  /** Retrieval mode used (requested, or detected from the question) */
+  retrievalMode?: RetrievalMode;
 }
 
 // ============================================================================
@@ -153,9 +276,13 @@ export interface ResponseMetadata {
 export interface QueryRequest {
   query: string;
   sessionId?: string;
+  /** Authenticated user asking the question (set by the API, not clients) */
+  userId?: string;
   topK?: number;
   includeGraph?: boolean;
   topicFilter?: string;
+  /** Retrieval mode (default: code when the question asks for code) */
+  retrievalMode?: RetrievalMode;
 }
 
 /**
@@ -167,6 +294,8 @@ export interface QueryResponse {
   citations: Citation[];
   confidence: 'high' | 'medium' | 'low' | 'insufficient';
   metadata: ResponseMetadata;
+  /** Claim-level verification of the answer (when enabled) */
+  faithfulness?: FaithfulnessReport;
 }
 
 /**
@@ -175,8 +304,12 @@ export interface QueryResponse {
 export interface IngestRequest {
   documentUrl: string;
   title?: string;
-  format?: 'markdown' | 'pdf' | 'text';
+  format?: DocumentFormat;
   metadata?: Record<string, unknown>;
+  /** SHA-256 of the source file, when already known (e.g. uploads) */
+  fileHash?: string;
+  /** Source file size in bytes, when already known */
+  fileSize?: number;
 }
 
 /**
@@ -237,6 +370,8 @@ export interface HealthResponse {
     embedding: ComponentHealth;
     reranker: ComponentHealth;
   };
+  /** Configured model providers */
+  providers: ProviderHealth[];
   timestamp: string;
 }
 
@@ -0,0 +1,319 @@
+/**
+ * Analytics Tests
+ *
+ * Tests for FR-T-01: misconception hotspot ranking and query
+ * anonymization (hashing and redaction) used by the query recorder.
+ * Tests for FR-T-02: knowledge graph topic coverage reporting.
+ *
+ * @module @jubilant/rag/tests/unit/analytics
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  rankHotspots,
+  DEFAULT_HOTSPOT_WEIGHTS,
+  type ConceptQueryStats,
+} from '../../src/analytics/hotspots';
+import {
+  buildCoverageReport,
+  countConceptMentions,
+  type ConceptGraphNode,
+} from '../../src/analytics/coverage';
+import {
+  normalizeQuery,
+  hashQuery,
+  redactQueryText,
+} from '../../src/analytics/recorder';
+
+// ============================================================================
+// Test Data Factories
+// ============================================================================
+
+function createStats(overrides: Partial<ConceptQueryStats> = {}): ConceptQueryStats {
+  return {
+    concept: 'Dynamic Programming',
+    queryCount: 10,
+    ratedCount: 0,
+    lowRatingCount: 0,
+    avgRating: null,
+    insufficientCount: 0,
+    repeatCount: 0,
+    avgRerankTopScore: null,
+    ...overrides,
+  };
+}
+
+function createNode(overrides: Partial<ConceptGraphNode> = {}): ConceptGraphNode {
+  return {
+    name: 'Graphs',
+    aliases: [],
+    chunkCount: 5,
+    documentCount: 2,
+    parents: [],
+    prerequisites: [],
+    ...overrides,
+  };
+}
+
+// ============================================================================
+// rankHotspots Tests (FR-T-01)
+// ============================================================================
+
+describe('rankHotspots', () => {
+  it('should score concepts without struggle signals as zero', () => {
+    const [hotspot] = rankHotspots([createStats()]);
+
+    expect(hotspot.score).toBe(0);
+    expect(hotspot.lowRatingRate).toBe(0);
+    expect(hotspot.insufficientRate).toBe(0);
+    expect(hotspot.repeatRate).toBe(0);
+  });
+
+  it('should rank concepts with more struggle signals higher', () => {
+    const ranked = rankHotspots([
+      createStats({ concept: 'Sorting', insufficientCount: 1 }),
+      createStats({ concept: 'Segment Tree', insufficientCount: 6, repeatCount: 4 }),
+      createStats({ concept: 'Graphs' }),
+    ]);
+
+    expect(ranked.map((h) => h.concept)).toEqual(['Segment Tree', 'Sorting', 'Graphs']);
+  });
+
+  it('should compute low-rating rate over rated queries only', () => {
+    const [hotspot] = rankHotspots([
+      createStats({ queryCount: 20, ratedCount: 4, lowRatingCount: 4 }),
+    ]);
+
+    // 4 / (4 + smoothing 2)
+    expect(hotspot.lowRatingRate).toBeCloseTo(4 / 6);
+  });
+
+  it('should not let a single bad query outrank a well-sampled hotspot', () => {
+    const ranked = rankHotspots([
+      createStats({ concept: 'Rare', queryCount: 1, insufficientCount: 1 }),
+      createStats({ concept: 'Common', queryCount: 30, insufficientCount: 20 }),
+    ]);
+
+    expect(ranked[0].concept).toBe('Common');
+  });
+
+  it('should respect custom weights', () => {
+    const stats = [
+      createStats({ concept: 'Repeats', repeatCount: 8 }),
+      createStats({ concept: 'Insufficient', insufficientCount: 8 }),
+    ];
+
+    const ranked = rankHotspots(stats, { repeat: 1, insufficient: 0, lowRating: 0 });
+
+    expect(ranked[0].concept).toBe('Repeats');
+  });
+
+  it('should keep scores within 0-1', () => {
+    const [hotspot] = rankHotspots([
+      createStats({
+        queryCount: 5,
+        ratedCount: 5,
+        lowRatingCount: 5,
+        insufficientCount: 5,
+        repeatCount: 5,
+      }),
+    ]);
+
+    expect(hotspot.score).toBeGreaterThan(0);
+    expect(hotspot.score).toBeLessThanOrEqual(1);
+  });
+
+  it('should break score ties by query volume', () => {
+    const ranked = rankHotspots([
+      createStats({ concept: 'Small', queryCount: 2 }),
+      createStats({ concept: 'Large', queryCount: 50 }),
+    ]);
+
+    expect(ranked[0].concept).toBe('Large');
+  });
+
+  it('should have default weights summing to 1', () => {
+    const total =
+      DEFAULT_HOTSPOT_WEIGHTS.lowRating +
+      DEFAULT_HOTSPOT_WEIGHTS.insufficient +
+      DEFAULT_HOTSPOT_WEIGHTS.repeat;
+
+    expect(total).toBeCloseTo(1);
+  });
+});
+
+// ============================================================================
+// Query Anonymization Tests
+// ============================================================================
+
+describe('normalizeQuery', () => {
+  it('should lowercase, collapse whitespace and strip trailing punctuation', () => {
+    expect(normalizeQuery('  What is   DP?? ')).toBe('what is dp');
+  });
+});
+
+describe('hashQuery', () => {
+  it('should hash equivalent phrasings identically', () => {
+    expect(hashQuery('What is DP?')).toBe(hashQuery('what is  dp'));
+  });
+
+  it('should hash different questions differently', () => {
+    expect(hashQuery('What is DP?')).not.toBe(hashQuery('What is BFS?'));
+  });
+
+  it('should return a 32-character hex string', () => {
+    expect(hashQuery('test')).toMatch(/^[0-9a-f]{32}$/);
+  });
+});
+
+describe('redactQueryText', () => {
+  it('should redact email addresses', () => {
+    expect(redactQueryText('I am alice@example.com, help with DP')).toBe(
+      'I am [email], help with DP'
+    );
+  });
+
+  it('should redact URLs', () => {
+    expect(redactQueryText('See https://oj.example.com/u/12 for my code')).toBe(
+      'See [url] for my code'
+    );
+  });
+
+  it('should redact long digit runs but keep short numbers', () => {
+    expect(redactQueryText('Student 2023-1045-77 asks about n = 100000')).toBe(
+      'Student [number] asks about n = 100000'
+    );
+  });
+
+  it('should truncate very long queries', () => {
+    const redacted = redactQueryText('a'.repeat(800));
+
+    expect(redacted).toHaveLength(503);
+    expect(redacted.endsWith('...')).toBe(true);
+  });
+});
+
+// ============================================================================
+// countConceptMentions Tests (FR-T-02)
+// ============================================================================
+
+describe('countConceptMentions', () => {
+  it('should count queries naming a concept on word boundaries', () => {
+    const mentions = countConceptMentions(
+      ['How does BFS work?', 'BFS vs DFS', 'What is a bfsx?'],
+      [{ name: 'BFS', aliases: [] }]
+    );
+
+    expect(mentions.get('BFS')).toBe(2);
+  });
+
+  it('should match aliases', () => {
+    const mentions = countConceptMentions(
+      ['Explain DP on trees'],
+      [{ name: 'Dynamic Programming', aliases: ['DP'] }]
+    );
+
+    expect(mentions.get('Dynamic Programming')).toBe(1);
+  });
+
+  it('should match non-ASCII names as substrings', () => {
+    const mentions = countConceptMentions(
+      ['什么是动态规划的状态转移？'],
+      [{ name: '动态规划', aliases: [] }]
+    );
+
+    expect(mentions.get('动态规划')).toBe(1);
+  });
+
+  it('should omit concepts that are never mentioned', () => {
+    const mentions = countConceptMentions(['Sorting'], [{ name: 'Graphs', aliases: [] }]);
+
+    expect(mentions.has('Graphs')).toBe(false);
+  });
+});
+
+// ============================================================================
+// buildCoverageReport Tests (FR-T-02)
+// ============================================================================
+
+describe('buildCoverageReport', () => {
+  const nodes = [
+    createNode({ name: 'Graphs', chunkCount: 4 }),
+    createNode({ name: 'Shortest Path', chunkCount: 1, parents: ['Graphs'] }),
+    createNode({
+      name: 'Dijkstra',
+      chunkCount: 3,
+      parents: ['Shortest Path'],
+      prerequisites: ['Priority Queue'],
+    }),
+    createNode({ name: 'Priority Queue', chunkCount: 0, documentCount: 0 }),
+  ];
+
+  it('should classify coverage by chunk count', () => {
+    const report = buildCoverageReport(nodes, new Map(), new Map());
+    const status = Object.fromEntries(report.concepts.map((c) => [c.name, c.status]));
+
+    expect(status).toEqual({
+      Graphs: 'covered',
+      'Shortest Path': 'thin',
+      Dijkstra: 'covered',
+      'Priority Queue': 'uncovered',
+    });
+    expect(report.summary).toMatchObject({ covered: 2, thin: 1, uncovered: 1 });
+  });
+
+  it('should walk the PART_OF hierarchy', () => {
+    const report = buildCoverageReport(nodes, new Map(), new Map());
+    const byName = new Map(report.concepts.map((c) => [c.name, c]));
+
+    expect(byName.get('Dijkstra')?.depth).toBe(2);
+    expect(byName.get('Graphs')?.subtreeChunkCount).toBe(8);
+    expect(report.tree.map((n) => n.name)).toEqual(['Graphs', 'Priority Queue']);
+    expect(report.tree[0].children[0].children[0].name).toBe('Dijkstra');
+  });
+
+  it('should flag concepts asked about without supporting chunks', () => {
+    const report = buildCoverageReport(
+      nodes,
+      new Map([
+        ['Priority Queue', 7],
+        ['Graphs', 3],
+      ]),
+      new Map([['Graphs', 2]])
+    );
+
+    expect(report.gaps.map((g) => g.name)).toEqual(['Priority Queue']);
+    expect(report.gaps[0].mentionCount).toBe(7);
+    expect(report.summary.gaps).toBe(1);
+  });
+
+  it('should report uncovered prerequisites', () => {
+    const report = buildCoverageReport(nodes, new Map(), new Map());
+    const dijkstra = report.concepts.find((c) => c.name === 'Dijkstra');
+
+    expect(dijkstra?.uncoveredPrerequisites).toEqual(['Priority Queue']);
+  });
+
+  it('should honour a custom thin threshold', () => {
+    const report = buildCoverageReport(nodes, new Map(), new Map(), { minChunks: 5 });
+
+    expect(report.summary.covered).toBe(0);
+    expect(report.summary.thin).toBe(3);
+  });
+
+  it('should handle PART_OF cycles', () => {
+    const report = buildCoverageReport(
+      [
+        createNode({ name: 'A', chunkCount: 1, parents: ['B'] }),
+        createNode({ name: 'B', chunkCount: 2, parents: ['A'] }),
+      ],
+      new Map(),
+      new Map()
+    );
+
+    expect(report.tree).toHaveLength(1);
+    expect(report.concepts).toHaveLength(2);
+    expect(report.tree[0].children).toHaveLength(1);
+    expect(report.tree[0].children[0].children).toHaveLength(0);
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Semantic Answer Cache Tests
+ *
+ * Tests similarity lookup, scoping, eviction and invalidation of cached
+ * answers when cited documents change.
+ *
+ * @module @jubilant/rag/tests/unit/answer-cache
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  SemanticAnswerCache,
+  answerCacheScopeKey,
+  citedDocumentUrls,
+  cosineSimilarity,
+  type AnswerCacheScope,
+  type CachedAnswer,
+  type DocumentRevisionSource,
+} from '../../src/cache/answers';
+import type { RankedResult } from '../../src/types';
+
+// ============================================================================
+// Test Data Factories
+// ============================================================================
+
+function createAnswer(overrides: Partial<CachedAnswer> = {}): CachedAnswer {
+  return {
+    answer: 'Dijkstra needs non-negative edge weights [1].',
+    citations: [
+      {
+        id: '[1]',
+        chunkId: 'c1',
+        documentTitle: 'Shortest Paths',
+        documentUrl: 'https://example.com/paths',
+        snippet: 'snippet',
+        relevanceScore: 0.9,
+      },
+    ],
+    confidence: { level: 'high', hasInsufficientEvidence: false, topScore: 0.9, rerankScorer: 'reranker' },
+    strategy: 'hybrid',
+    vectorResultCount: 10,
+    graphResultCount: 4,
+    sources: [],
+    ...overrides,
+  };
+}
+
+function urlOf(documentId: string): string {
+  return `https://example.com/${documentId}`;
+}
+
+/**
+ * Revision source backed by a mutable map of active documents, each at
+ * urlOf(id)
+ */
+function createRevisions(initial: Record<string, string> = { 'doc-1': 'r1' }) {
+  const active = new Map(Object.entries(initial));
+  const source: DocumentRevisionSource = {
+    getRevisions: vi.fn(async (ids: string[]) =>
+      new Map(ids.filter((id) => active.has(id)).map((id) => [id, active.get(id)!]))
+    ),
+    resolveDocumentIds: vi.fn(async (urls: string[]) =>
+      new Map([...active.keys()].filter((id) => urls.includes(urlOf(id))).map((id) => [urlOf(id), id]))
+    ),
+    getDocumentSetRevision: vi.fn(async () => scope.documentSetRevision),
+  };
+  return { source, active };
+}
+
+const scope: AnswerCacheScope = { embeddingVersion: 2, documentSetRevision: 'r1:1', topK: 5, includeGraph: true };
+
+// ============================================================================
+// Helper Tests
+// ============================================================================
+
+describe('cosineSimilarity', () => {
+  it('should compare direction, not magnitude', () => {
+    expect(cosineSimilarity([1, 0], [2, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+  });
+});
+
+describe('answerCacheScopeKey', () => {
+  it('should separate embedding versions, document sets and retrieval options', () => {
+    const key = answerCacheScopeKey(scope);
+
+    expect(answerCacheScopeKey({ ...scope, embeddingVersion: 3 })).not.toBe(key);
+    expect(answerCacheScopeKey({ ...scope, documentSetRevision: 'r2:2' })).not.toBe(key);
+    expect(answerCacheScopeKey({ ...scope, topicFilter: 'graphs' })).not.toBe(key);
+    expect(answerCacheScopeKey({ ...scope, includeGraph: false })).not.toBe(key);
+  });
+
+  it('should separate code mode questions by language without changing default keys', () => {
+    const key = answerCacheScopeKey(scope);
+    const cpp = answerCacheScopeKey({ ...scope, retrievalMode: 'code', codeLanguage: 'cpp' });
+
+    expect(answerCacheScopeKey({ ...scope, retrievalMode: 'default' })).toBe(key);
+    expect(cpp).not.toBe(key);
+    expect(answerCacheScopeKey({ ...scope, retrievalMode: 'code', codeLanguage: 'python' })).not.toBe(cpp);
+  });
+});
+
+// ============================================================================
+// SemanticAnswerCache Tests
+// ============================================================================
+
+describe('SemanticAnswerCache', () => {
+  it('should serve the closest answer above the similarity threshold', async () => {
+    const { source } = createRevisions();
+    const cache = new SemanticAnswerCache(source, { similarityThreshold: 0.9 });
+
+    await cache.store(scope, 'Why does Dijkstra fail?', [1, 0, 0], createAnswer(), [urlOf('doc-1')]);
+    await cache.store(scope, 'What is BFS?', [0, 1, 0], createAnswer({ answer: 'BFS [1].' }), [urlOf('doc-1')]);
+
+    const hit = await cache.lookup(scope, [0.98, 0.1, 0]);
+
+    expect(hit?.entry.query).toBe('Why does Dijkstra fail?');
+    expect(hit?.entry.hitCount).toBe(1);
+    expect(await cache.lookup(scope, [0.5, 0.5, 0.7])).toBeNull();
+    expect(cache.getStats()).toMatchObject({ entries: 2, hits: 1, misses: 1 });
+  });
+
+  it('should not share answers across scopes', async () => {
+    const cache = new SemanticAnswerCache(createRevisions().source);
+    await cache.store(scope, 'q', [1, 0], createAnswer(), [urlOf('doc-1')]);
+
+    expect(await cache.lookup({ ...scope, embeddingVersion: 3 }, [1, 0])).toBeNull();
+  });
+
+  it('should drop an entry when a cited document was re-ingested or archived', async () => {
+    const { source, active } = createRevisions({ 'doc-1': 'r1', 'doc-2': 'r1' });
+    const cache = new SemanticAnswerCache(source);
+    await cache.store(scope, 'q1', [1, 0], createAnswer(), [urlOf('doc-1')]);
+    await cache.store(scope, 'q2', [0, 1], createAnswer(), [urlOf('doc-2')]);
+
+    active.set('doc-1', 'r2');
+    active.delete('doc-2');
+
+    expect(await cache.lookup(scope, [1, 0])).toBeNull();
+    expect(await cache.lookup(scope, [0, 1])).toBeNull();
+    expect(cache.getStats()).toMatchObject({ entries: 0, invalidations: 2 });
+  });
+
+  it('should not cache answers citing inactive documents', async () => {
+    const cache = new SemanticAnswerCache(createRevisions().source);
+
+    expect(await cache.store(scope, 'q', [1, 0], createAnswer(), [urlOf('doc-1'), urlOf('doc-9')])).toBe(false);
+    expect(cache.getStats().entries).toBe(0);
+  });
+
+  it('should key graph-sourced citations by document ID', async () => {
+    const { source } = createRevisions();
+    const cache = new SemanticAnswerCache(source);
+    const graphResult = {
+      id: 'c1',
+      source: 'graph',
+      metadata: { documentId: urlOf('doc-1'), documentUrl: urlOf('doc-1') },
+    } as unknown as RankedResult;
+
+    const answer = createAnswer();
+    expect(
+      await cache.store(scope, 'q', [1, 0], answer, citedDocumentUrls([graphResult], answer.citations))
+    ).toBe(true);
+    expect(source.getRevisions).toHaveBeenCalledWith(['doc-1']);
+    expect(cache.invalidateDocuments(['doc-1'])).toBe(1);
+  });
+
+  it('should invalidate entries citing given documents', async () => {
+    const { source } = createRevisions({ 'doc-1': 'r1', 'doc-2': 'r1' });
+    const cache = new SemanticAnswerCache(source);
+    await cache.store(scope, 'q1', [1, 0], createAnswer(), [urlOf('doc-1'), urlOf('doc-2')]);
+    await cache.store(scope, 'q2', [0, 1], createAnswer(), [urlOf('doc-2')]);
+
+    expect(cache.invalidateDocuments(['doc-1'])).toBe(1);
+    expect(await cache.lookup(scope, [0, 1])).not.toBeNull();
+  });
+
+  it('should evict the least recently used entry and expire old ones', async () => {
+    vi.useFakeTimers();
+    try {
+      const cache = new SemanticAnswerCache(createRevisions().source, { maxEntries: 2, ttlMs: 1000 });
+      await cache.store(scope, 'q1', [1, 0, 0], createAnswer(), [urlOf('doc-1')]);
+      await cache.store(scope, 'q2', [0, 1, 0], createAnswer(), [urlOf('doc-1')]);
+      await cache.lookup(scope, [1, 0, 0]);
+      await cache.store(scope, 'q3', [0, 0, 1], createAnswer(), [urlOf('doc-1')]);
+
+      expect(await cache.lookup(scope, [0, 1, 0])).toBeNull();
+      expect(await cache.lookup(scope, [1, 0, 0])).not.toBeNull();
+
+      vi.advanceTimersByTime(1001);
+      expect(await cache.lookup(scope, [1, 0, 0])).toBeNull();
+      expect(cache.getStats().entries).toBe(0);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Archived Document Tests
+ *
+ * Tests that archiving flags a document's vectors without re-embedding,
+ * and that vector search skips archived chunks.
+ *
+ * @module @jubilant/rag/tests/unit/archived-documents
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { MilvusClient } from '@zilliz/milvus2-sdk-node';
+import { MilvusRetriever } from '../../src/retrieval/vector';
+import { MilvusChunkStorage } from '../../src/ingestion/storage';
+import type { Qwen3Embedding } from '../../src/generation/embedder';
+
+// ============================================================================
+// Test Doubles
+// ============================================================================
+
+function createMilvusClient(rows: Array<Record<string, unknown>> = []) {
+  return {
+    search: vi.fn().mockResolvedValue({ results: [] }),
+    query: vi.fn().mockImplementation(async ({ output_fields }: { output_fields: string[] }) => ({
+      data: output_fields.length === 1 ? rows.map((row) => ({ chunk_id: row.chunk_id })) : rows,
+    })),
+    upsert: vi.fn().mockResolvedValue({}),
+  };
+}
+
+const embedder = {
+  getQueryEmbedding: vi.fn().mockResolvedValue([0.1, 0.2]),
+} as unknown as Qwen3Embedding;
+
+// ============================================================================
+// MilvusRetriever Tests
+// ============================================================================
+
+describe('MilvusRetriever archived filtering', () => {
+  it('should exclude archived chunks from every search', async () => {
+    const client = createMilvusClient();
+    const retriever = new MilvusRetriever(client as unknown as MilvusClient, embedder);
+
+    await retriever.search('binary search');
+
+    expect(client.search.mock.calls[0][0].filter).toBe('not (metadata["archived"] == true)');
+  });
+
+  it('should combine the archived filter with a topic filter', async () => {
+    const client = createMilvusClient();
+    const retriever = new MilvusRetriever(client as unknown as MilvusClient, embedder);
+
+    await retriever.searchWithEmbedding([0.1, 0.2], 5, 'graphs');
+
+    expect(client.search.mock.calls[0][0].filter).toBe(
+      'topic_tag == "graphs" and not (metadata["archived"] == true)'
+    );
+  });
+});
+
+// ============================================================================
+// MilvusChunkStorage Tests
+// ============================================================================
+
+describe('MilvusChunkStorage.setArchived', () => {
+  it('should upsert existing vectors with the archived flag set', async () => {
+    const client = createMilvusClient([
+      {
+        chunk_id: 7,
+        vector: [0.5, 0.5],
+        content_text: 'Dijkstra',
+        metadata: JSON.stringify({ documentId: 'doc-1', chunkIndex: 0 }),
+        topic_tag: 'graphs',
+      },
+    ]);
+    const storage = new MilvusChunkStorage(client as unknown as MilvusClient);
+
+    const updated = await storage.setArchived('doc-1', true);
+
+    expect(updated).toBe(1);
+    const [row] = client.upsert.mock.calls[0][0].data;
+    expect(row.vector).toEqual([0.5, 0.5]);
+    expect(row.topic_tag).toBe('graphs');
+    expect(JSON.parse(row.metadata)).toEqual({ documentId: 'doc-1', chunkIndex: 0, archived: true });
+  });
+
+  it('should do nothing for a document with no chunks', async () => {
+    const client = createMilvusClient();
+    const storage = new MilvusChunkStorage(client as unknown as MilvusClient);
+
+    expect(await storage.setArchived('doc-1', false)).toBe(0);
+    expect(client.upsert).not.toHaveBeenCalled();
+  });
+});
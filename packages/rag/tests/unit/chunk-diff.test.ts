@@ -0,0 +1,230 @@
+/**
+ * Chunk Diff Tests
+ *
+ * Tests for incremental re-ingestion: matching current chunks to stored
+ * chunks by content hash, the stable hashing/ID helpers it relies on, and
+ * how a re-ingest job swaps stored chunks and handles failures.
+ *
+ * @module @jubilant/rag/tests/unit/chunk-diff
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { MilvusClient } from '@zilliz/milvus2-sdk-node';
+import type { Driver } from 'neo4j-driver';
+import {
+  diffChunks,
+  IngestionPipeline,
+  type DatabaseOperations,
+  type DocumentRecord,
+  type IngestionJob,
+} from '../../src/ingestion/pipeline';
+import { hashChunkContent, toMilvusChunkId, type StoredChunk } from '../../src/ingestion/storage';
+import type { Chunk } from '../../src/ingestion/chunker';
+import type { ParsedDocument } from '../../src/ingestion/parsers';
+
+// ============================================================================
+// Test Data Factories
+// ============================================================================
+
+function createStored(hash: string, chunkIndex: number, overrides: Partial<StoredChunk> = {}): StoredChunk {
+  return {
+    chunkId: `chunk-${hash}-${chunkIndex}`,
+    hash,
+    chunkIndex,
+    extracted: true,
+    ...overrides,
+  };
+}
+
+// ============================================================================
+// diffChunks Tests
+// ============================================================================
+
+describe('diffChunks', () => {
+  it('should add every chunk for a new document', () => {
+    const diff = diffChunks(['a', 'b', 'c'], []);
+
+    expect(diff.added).toEqual([0, 1, 2]);
+    expect(diff.unchanged).toEqual([]);
+    expect(diff.removed).toEqual([]);
+  });
+
+  it('should keep every chunk when nothing changed', () => {
+    const stored = [createStored('a', 0), createStored('b', 1)];
+    const diff = diffChunks(['a', 'b'], stored);
+
+    expect(diff.added).toEqual([]);
+    expect(diff.removed).toEqual([]);
+    expect(diff.unchanged.map((u) => u.stored.chunkId)).toEqual([
+      'chunk-a-0',
+      'chunk-b-1',
+    ]);
+  });
+
+  it('should detect edited, inserted and removed chunks', () => {
+    const stored = [createStored('a', 0), createStored('b', 1), createStored('c', 2)];
+    // 'b' edited into 'b2', 'x' inserted at the front, 'c' kept
+    const diff = diffChunks(['x', 'a', 'b2', 'c'], stored);
+
+    expect(diff.added).toEqual([0, 2]);
+    expect(diff.removed.map((r) => r.chunkId)).toEqual(['chunk-b-1']);
+    expect(diff.unchanged).toEqual([
+      { index: 1, stored: stored[0] },
+      { index: 3, stored: stored[2] },
+    ]);
+  });
+
+  it('should match repeated content one-to-one in order', () => {
+    const stored = [createStored('dup', 0), createStored('dup', 3)];
+    const diff = diffChunks(['dup', 'dup', 'dup'], stored);
+
+    expect(diff.unchanged.map((u) => [u.index, u.stored.chunkIndex])).toEqual([
+      [0, 0],
+      [1, 3],
+    ]);
+    expect(diff.added).toEqual([2]);
+  });
+
+  it('should retire all stored chunks when the document is emptied', () => {
+    const stored = [createStored('a', 0), createStored('b', 1)];
+    const diff = diffChunks([], stored);
+
+    expect(diff.removed).toHaveLength(2);
+    expect(diff.added).toEqual([]);
+  });
+});
+
+// ============================================================================
+// Hashing Helpers Tests
+// ============================================================================
+
+describe('hashChunkContent', () => {
+  it('should be stable and content-sensitive', () => {
+    expect(hashChunkContent('int main() {}')).toBe(hashChunkContent('int main() {}'));
+    expect(hashChunkContent('int main() {}')).not.toBe(hashChunkContent('int main() { }'));
+    expect(hashChunkContent('x')).toHaveLength(16);
+  });
+});
+
+describe('toMilvusChunkId', () => {
+  it('should derive a stable safe integer from a chunk UUID', () => {
+    const id = toMilvusChunkId('4f1c2b9e-8f6a-4e8b-9d6c-2a7b1e3f5c9d');
+
+    expect(id).toBe(toMilvusChunkId('4f1c2b9e-8f6a-4e8b-9d6c-2a7b1e3f5c9d'));
+    expect(Number.isSafeInteger(id)).toBe(true);
+  });
+});
+
+// ============================================================================
+// Re-ingestion Job Tests
+// ============================================================================
+
+describe('IngestionPipeline re-ingestion', () => {
+  const parsed: ParsedDocument = {
+    content: '# Union Find\n\nPath compression keeps the trees shallow, so finds run in near constant time.',
+    title: 'Union Find',
+    url: '/docs/union-find.md',
+    format: 'markdown',
+    metadata: {},
+  };
+
+  /**
+   * Pipeline over an active document with one stored chunk whose content
+   * has since changed, with fake stores, embedder and database
+   */
+  function createPipeline(options: { embedFailures?: number; storageErrors?: string[] } = {}) {
+    const calls: string[] = [];
+    const document: DocumentRecord = {
+      id: 'doc-1',
+      url: parsed.url,
+      title: 'Union Find',
+      format: 'markdown',
+      status: 'active',
+      chunkCount: 1,
+      errorMessage: null,
+      fileHash: null,
+      fileSize: null,
+    };
+    const job = { id: 'job-1', documentId: 'doc-1', completedStage: null } as unknown as IngestionJob;
+
+    const db = {
+      getJob: vi.fn().mockResolvedValue(job),
+      getDocument: vi.fn().mockResolvedValue(document),
+      updateJob: vi.fn().mockResolvedValue(undefined),
+      updateDocument: vi.fn().mockResolvedValue(undefined),
+    };
+    const storage = {
+      getStoredChunks: vi.fn().mockResolvedValue({
+        chunks: [createStored('stale', 0, { chunkId: 'old-chunk' })],
+        orphanChunkIds: [],
+        orphanMilvusIds: [],
+      }),
+      storeChunks: vi.fn(async () => {
+        calls.push('store');
+        return { milvusInserted: 1, neo4jCreated: 1, snippetsIndexed: 0, errors: options.storageErrors ?? [], duration: 0 };
+      }),
+      retireChunks: vi.fn(async (chunkIds: string[]) => {
+        calls.push(`retire:${chunkIds.join(',')}`);
+        return chunkIds.length;
+      }),
+      reorderChunks: vi.fn().mockResolvedValue(undefined),
+    };
+    const embedder = {
+      embedChunks: vi.fn(async (chunks: Chunk[]) => {
+        const failed = chunks.slice(0, options.embedFailures ?? 0);
+        return {
+          embeddings: chunks.slice(failed.length).map((chunk, i) => ({
+            ...chunk,
+            id: `new-chunk-${i}`,
+            embedding: [0.1],
+          })),
+          failed: failed.map((chunk) => ({ chunk, error: 'timeout' })),
+        };
+      }),
+    };
+
+    const pipeline = new IngestionPipeline({} as MilvusClient, {} as Driver, { extractTriples: false });
+    // Parsers read files through Bun; the parsed document is given instead
+    Object.assign(pipeline, { storage, embedder, fetchAndParseDocument: async () => parsed });
+    pipeline.setDatabase(db as unknown as DatabaseOperations);
+
+    return { pipeline, db, storage, calls };
+  }
+
+  it('should retire removed chunks only after their replacements are stored', async () => {
+    const { pipeline, db, calls } = createPipeline();
+
+    const result = await pipeline.processJob('job-1');
+
+    expect(result.status).toBe('active');
+    expect(calls).toEqual(['store', 'retire:old-chunk']);
+    expect(db.updateJob).toHaveBeenCalledWith('job-1', { completedStage: 'stored' });
+  });
+
+  it('should keep the previous chunks and document status when embedding fails', async () => {
+    const { pipeline, db, storage } = createPipeline({ embedFailures: 1 });
+
+    const result = await pipeline.processJob('job-1');
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toContain('failed to embed');
+    expect(storage.storeChunks).not.toHaveBeenCalled();
+    expect(storage.retireChunks).not.toHaveBeenCalled();
+    expect(db.updateDocument).not.toHaveBeenCalled();
+    expect(db.updateJob).not.toHaveBeenCalledWith('job-1', { completedStage: 'stored' });
+  });
+
+  it('should roll back a partial store instead of marking it stored', async () => {
+    const { pipeline, db, calls } = createPipeline({ storageErrors: ['Neo4j creation failed: timeout'] });
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await pipeline.processJob('job-1');
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toContain('Neo4j creation failed');
+    expect(calls).toEqual(['store', 'retire:new-chunk-0']);
+    expect(db.updateDocument).not.toHaveBeenCalled();
+    expect(db.updateJob).not.toHaveBeenCalledWith('job-1', { completedStage: 'stored' });
+    error.mockRestore();
+  });
+});
@@ -21,6 +21,9 @@ import {
   extractTables,
   splitIntoSections,
   chunkText,
+  formatPageMarker,
+  formatOcrMarker,
+  detectCodeLanguage,
 } from '../../src/ingestion/chunker';
 
 // ============================================================================
@@ -139,6 +142,45 @@ plain code
     expect(result.elements).toHaveLength(1);
     expect(result.elements[0].content).toContain('plain code');
   });
+
+  it('should tag code blocks with their language', () => {
+    const content = `\`\`\`c++
+int main() {}
+\`\`\`
+
+\`\`\`
+#include <bits/stdc++.h>
+int main() {}
+\`\`\`
+
+\`\`\`input
+3
+1 2 3
+\`\`\``;
+
+    const result = extractCodeBlocks(content);
+
+    expect(result.elements.map((e) => e.language)).toEqual(['cpp', 'cpp', null]);
+  });
+});
+
+describe('detectCodeLanguage', () => {
+  it('should map language tags and aliases', () => {
+    expect(detectCodeLanguage('Python3', '')).toBe('python');
+    expect(detectCodeLanguage('ts', '')).toBe('javascript');
+    expect(detectCodeLanguage('kotlin', '')).toBe('other');
+  });
+
+  it('should treat sample I/O and plain text tags as not code', () => {
+    expect(detectCodeLanguage('output', '6')).toBeNull();
+    expect(detectCodeLanguage('text', 'def f(x): pass')).toBeNull();
+  });
+
+  it('should recognize untagged code by its content', () => {
+    expect(detectCodeLanguage('', 'public class Main {\n  System.out.println(1);\n}')).toBe('java');
+    expect(detectCodeLanguage('', 'def solve(n):\n    return n')).toBe('python');
+    expect(detectCodeLanguage('', 'just some words')).toBe('other');
+  });
 });
 
 describe('extractFormulas (FR-009)', () => {
@@ -338,6 +380,19 @@ Details here.`;
     expect(sections[2].headerPath).toContain('SubSub');
   });
 
+  it('should drop the whole header line from section content', () => {
+    const content = `# Introduction
+
+This is the intro.
+
+## Methods and Results
+Here are the methods.`;
+
+    const sections = splitIntoSections(content);
+
+    expect(sections.map((s) => s.content)).toEqual(['This is the intro.', 'Here are the methods.']);
+  });
+
   it('should handle content without headers', () => {
     const content = 'Just plain text without any headers.';
 
@@ -418,6 +473,36 @@ describe('chunkText', () => {
 // ============================================================================
 
 describe('ContentAwareChunker', () => {
+  it('should list the code languages of each chunk', () => {
+    const chunker = createChunker({ minTokens: 10, maxTokens: 1000 });
+
+    const chunks = chunker.chunk(
+      `# Shortest Paths
+
+\`\`\`cpp
+dijkstra(graph, source);
+\`\`\`
+
+\`\`\`python
+dijkstra(graph, source)
+\`\`\`
+
+\`\`\`output
+0 3 5
+\`\`\``,
+      { documentId: 'doc-1', documentTitle: 'Test', documentUrl: 'https://example.com' }
+    );
+    const prose = chunker.chunk('# Title\n\nNo code in this chunk at all.', {
+      documentId: 'doc-2',
+      documentTitle: 'Test',
+      documentUrl: 'https://example.com/2',
+    });
+
+    expect(chunks[0].metadata.hasCode).toBe(true);
+    expect(chunks[0].metadata.codeLanguages).toEqual(['cpp', 'python']);
+    expect(prose[0].metadata.codeLanguages).toBeUndefined();
+  });
+
   it('should create chunks with metadata', () => {
     const chunker = createChunker({ minTokens: 10, maxTokens: 100 });
 
@@ -579,6 +664,82 @@ The methods section.`;
     expect(methodsChunk).toBeDefined();
   });
 
+  it('should track page ranges from page markers', () => {
+    const chunker = createChunker({ minTokens: 10, maxTokens: 40 });
+
+    const content = `${formatPageMarker(1)}
+
+# Shortest Paths
+
+Dijkstra's algorithm settles vertices in order of distance.
+
+${formatPageMarker(2)}
+
+It needs non-negative weights.
+
+## Bellman-Ford
+
+${formatPageMarker(3)}
+
+Bellman-Ford relaxes every edge V - 1 times and detects negative cycles.`;
+
+    const chunks = chunker.chunk(content, {
+      documentId: 'doc-1',
+      documentTitle: 'Test',
+      documentUrl: 'https://example.com/notes.pdf',
+    });
+
+    expect(chunks.map((c) => [c.metadata.sectionHeader, c.metadata.pageStart, c.metadata.pageEnd])).toEqual([
+      ['Shortest Paths', 1, 2],
+      ['Bellman-Ford', 3, 3],
+    ]);
+    expect(chunks.every((c) => !c.content.includes('<!--'))).toBe(true);
+  });
+
+  it('should record the lowest OCR confidence of a chunk', () => {
+    const chunker = createChunker({ minTokens: 10, maxTokens: 80 });
+
+    const content = `${formatPageMarker(1)}
+
+${formatOcrMarker(0.91)}
+
+Proof that the exchange argument keeps the greedy schedule optimal.
+
+${formatPageMarker(2)}
+
+${formatOcrMarker(0.64)}
+
+The rest follows by induction.
+
+## Typed Appendix
+
+${formatPageMarker(3)}
+
+Pseudocode for the schedule, sorted by deadline, follows below.`;
+
+    const chunks = chunker.chunk(content, {
+      documentId: 'doc-1',
+      documentTitle: 'Test',
+      documentUrl: 'https://example.com/scan.pdf',
+    });
+
+    expect(chunks.map((c) => [c.metadata.pageStart, c.metadata.ocrConfidence])).toEqual([
+      [1, 0.64],
+      [3, undefined],
+    ]);
+    expect(chunks.every((c) => !c.content.includes('<!--'))).toBe(true);
+  });
+
+  it('should leave page ranges unset without page markers', () => {
+    const chunks = createChunker().chunk('# Title\n\nSome text.', {
+      documentId: 'doc-1',
+      documentTitle: 'Test',
+      documentUrl: 'https://example.com',
+    });
+
+    expect(chunks[0].metadata.pageStart).toBeUndefined();
+  });
+
   it('should allow configuration updates', () => {
     const chunker = createChunker({ minTokens: 100 });
 
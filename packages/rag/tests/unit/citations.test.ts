@@ -14,6 +14,7 @@ import {
   filterUsedCitations,
   renumberCitations,
   formatCitation,
+  formatPageRange,
   createReferencesSection,
   validateCitations,
 } from '../../src/generation/citations';
@@ -85,6 +86,33 @@ describe('createCitations', () => {
     expect(citations[0].relevanceScore).toBe(0.9);
   });
 
+  it('should cite code snippets by language with an excerpt of their code', () => {
+    const results = [
+      createMockRankedResult({
+        id: 'chunk-1:0',
+        content: 'Dijkstra with a binary heap:\n\n```cpp\nvoid dijkstra(int s) {\n  dist[s] = 0;\n}\n```',
+        metadata: {
+          documentId: 'doc-1',
+          documentTitle: 'Shortest Paths',
+          documentUrl: 'https://example.com/doc',
+          chunkIndex: 0,
+          totalChunks: 1,
+          tokenCount: 20,
+          hasCode: true,
+          hasFormula: false,
+          hasTable: false,
+          codeSnippet: { id: 'chunk-1:0', chunkId: 'chunk-1', snippetIndex: 0, language: 'cpp' },
+        },
+      }),
+    ];
+
+    const [citation] = createCitations(results);
+
+    expect(citation.chunkId).toBe('chunk-1:0');
+    expect(citation.codeLanguage).toBe('cpp');
+    expect(citation.snippet).toBe('void dijkstra(int s) {\n  dist[s] = 0;\n}');
+  });
+
   it('should create snippets from content', () => {
     const results = [
       createMockRankedResult({
@@ -106,6 +134,15 @@ describe('createCitations', () => {
     expect(citations[0].snippet.length).toBeLessThanOrEqual(103); // 100 + "..."
   });
 
+  it('should carry page ranges from chunk metadata', () => {
+    const result = createMockRankedResult();
+    result.metadata = { ...result.metadata, pageStart: 4, pageEnd: 5 };
+
+    const citations = createCitations([result]);
+
+    expect(citations[0]).toMatchObject({ pageStart: 4, pageEnd: 5 });
+  });
+
   it('should handle empty results', () => {
     const citations = createCitations([]);
 
@@ -344,6 +381,12 @@ describe('formatCitation', () => {
     expect(formatted).toBe('[1] Test Doc (relevance: 85%)');
   });
 
+  it('should include the page range', () => {
+    expect(formatCitation(createMockCitation({ documentTitle: 'Notes', pageStart: 4, pageEnd: 4 }))).toBe('[1] Notes, p. 4');
+    expect(formatPageRange({ pageStart: 4, pageEnd: 6 })).toBe('pp. 4–6');
+    expect(formatPageRange({})).toBe('');
+  });
+
   it('should handle score of 1.0', () => {
     const citation = createMockCitation({
       relevanceScore: 1.0,
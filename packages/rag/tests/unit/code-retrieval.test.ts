@@ -0,0 +1,319 @@
+/**
+ * Code Retrieval Tests
+ *
+ * Tests that code blocks become language-tagged snippet records, that
+ * queries asking for code are detected, and that code mode searches
+ * snippets and ranks them ahead of prose.
+ *
+ * @module @jubilant/rag/tests/unit/code-retrieval
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { MilvusClient } from '@zilliz/milvus2-sdk-node';
+import type { Driver } from 'neo4j-driver';
+import {
+  extractCodeSnippets,
+  formatSnippet,
+  splitIdentifiers,
+} from '../../src/ingestion/snippets';
+import {
+  CodeSnippetRetriever,
+  codeQueryTopic,
+  detectRetrievalMode,
+  mentionedLanguage,
+} from '../../src/retrieval/code';
+import { HybridRetriever } from '../../src/retrieval/hybrid';
+import type { Qwen3Embedding } from '../../src/generation/embedder';
+import type { EmbeddedChunk, RetrievalResult } from '../../src/types';
+
+// ============================================================================
+// Test Doubles
+// ============================================================================
+
+const DIJKSTRA_CPP = `void dijkstra(int source) {
+  dist[source] = 0;
+  pq.push({0, source});
+}`;
+
+function createChunk(content: string): EmbeddedChunk {
+  return {
+    id: 'chunk-1',
+    content,
+    embedding: [0.1, 0.2],
+    metadata: {
+      documentId: 'doc-1',
+      documentTitle: 'Shortest Paths',
+      documentUrl: 'https://example.com/paths',
+      chunkIndex: 0,
+      totalChunks: 1,
+      tokenCount: 100,
+      hasCode: true,
+      hasFormula: false,
+      hasTable: false,
+      sectionHeader: 'Dijkstra',
+    },
+  };
+}
+
+function createMilvusClient(hits: Array<Record<string, unknown>> = []) {
+  return {
+    search: vi.fn().mockResolvedValue({ results: hits }),
+  };
+}
+
+function createDriver(records: Array<Record<string, unknown>> = []) {
+  const run = vi.fn().mockResolvedValue({
+    records: records.map((record) => ({ get: (key: string) => record[key] })),
+  });
+  return {
+    run,
+    driver: {
+      session: () => ({ run, close: vi.fn().mockResolvedValue(undefined) }),
+    } as unknown as Driver,
+  };
+}
+
+const embedder = {
+  getQueryEmbedding: vi.fn().mockResolvedValue([0.1, 0.2]),
+} as unknown as Qwen3Embedding;
+
+function createSnippetHit(id: string, language: string, score: number) {
+  return {
+    chunk_id: 42,
+    content_text: `\`\`\`${language}\n// ${id}\n\`\`\``,
+    score,
+    metadata: JSON.stringify({
+      documentId: 'doc-1',
+      documentTitle: 'Shortest Paths',
+      documentUrl: 'https://example.com/paths',
+      chunkIndex: 0,
+      codeSnippet: { id, chunkId: 'chunk-1', snippetIndex: 0, language },
+    }),
+  };
+}
+
+// ============================================================================
+// Query Detection Tests
+// ============================================================================
+
+describe('detectRetrievalMode', () => {
+  it('should detect queries asking for code', () => {
+    expect(detectRetrievalMode('Dijkstra implementation in C++')).toBe('code');
+    expect(detectRetrievalMode('segment tree template')).toBe('code');
+    expect(detectRetrievalMode('KMP in Python')).toBe('code');
+  });
+
+  it('should leave conceptual questions in the default mode', () => {
+    expect(detectRetrievalMode('Why does Dijkstra fail with negative edges?')).toBe('default');
+    expect(detectRetrievalMode('When is dynamic programming applicable?')).toBe('default');
+    expect(detectRetrievalMode('How are Huffman codes built?')).toBe('default');
+  });
+});
+
+describe('mentionedLanguage', () => {
+  it('should find the language a query names', () => {
+    expect(mentionedLanguage('Dijkstra implementation in C++')).toBe('cpp');
+    expect(mentionedLanguage('BFS code in Java')).toBe('java');
+    expect(mentionedLanguage('union find in JavaScript')).toBe('javascript');
+    expect(mentionedLanguage('binary search in C')).toBe('c');
+    expect(mentionedLanguage('binary search implementation')).toBeUndefined();
+  });
+});
+
+describe('codeQueryTopic', () => {
+  it('should keep what the code does', () => {
+    expect(codeQueryTopic('Dijkstra implementation in C++')).toBe('Dijkstra');
+    expect(codeQueryTopic('show me segment tree code in python')).toBe('segment tree');
+  });
+});
+
+// ============================================================================
+// Snippet Extraction Tests
+// ============================================================================
+
+describe('extractCodeSnippets', () => {
+  it('should turn each code block into a language-tagged snippet', () => {
+    const chunk = createChunk(`Intro to shortest paths.
+
+Relax edges from a priority queue:
+
+\`\`\`cpp
+${DIJKSTRA_CPP}
+\`\`\`
+
+\`\`\`input
+3
+\`\`\`
+
+\`\`\`python
+x = 1
+\`\`\``);
+
+    const snippets = extractCodeSnippets(chunk);
+
+    expect(snippets).toHaveLength(1);
+    expect(snippets[0]).toMatchObject({
+      id: 'chunk-1:0',
+      chunkId: 'chunk-1',
+      language: 'cpp',
+      code: DIJKSTRA_CPP,
+      context: 'Dijkstra\nRelax edges from a priority queue:',
+    });
+    expect(snippets[0].metadata.codeSnippet).toEqual({
+      id: 'chunk-1:0',
+      chunkId: 'chunk-1',
+      snippetIndex: 0,
+      language: 'cpp',
+    });
+    expect(snippets[0].metadata.codeLanguages).toEqual(['cpp']);
+  });
+
+  it('should format snippets as context followed by fenced code', () => {
+    expect(formatSnippet({ language: 'python', code: 'pass', context: 'Stub' })).toBe(
+      'Stub\n\n```python\npass\n```'
+    );
+    expect(formatSnippet({ language: 'other', code: 'x', context: '' })).toBe('```\nx\n```');
+  });
+});
+
+describe('splitIdentifiers', () => {
+  it('should split camelCase and snake_case names and drop keywords', () => {
+    const words = splitIdentifiers('int addEdge(int from_node) { return dist_to[from_node]; }').split(' ');
+
+    expect(words).toEqual(expect.arrayContaining(['addedge', 'add', 'edge', 'from', 'node', 'dist', 'to']));
+    expect(words).not.toContain('int');
+    expect(words).not.toContain('return');
+  });
+});
+
+// ============================================================================
+// CodeSnippetRetriever Tests
+// ============================================================================
+
+describe('CodeSnippetRetriever', () => {
+  it('should fuse vector and lexical hits by snippet ID', async () => {
+    const client = createMilvusClient([
+      createSnippetHit('chunk-1:0', 'cpp', 0.8),
+      createSnippetHit('chunk-2:0', 'cpp', 0.7),
+    ]);
+    const { driver, run } = createDriver([
+      {
+        snippetId: 'chunk-2:0',
+        snippetIndex: 0,
+        language: 'cpp',
+        code: 'dijkstra();',
+        context: '',
+        chunkId: 'chunk-2',
+        score: 3,
+        metadata: { documentUrl: 'https://example.com/paths', chunkIndex: 1 },
+      },
+    ]);
+    const retriever = new CodeSnippetRetriever(client as unknown as MilvusClient, driver, embedder);
+
+    const results = await retriever.search('Dijkstra implementation in C++', 5, 'cpp');
+
+    expect(results.map((r) => r.id)).toEqual(['chunk-2:0', 'chunk-1:0']);
+    expect(results.every((r) => r.source === 'code')).toBe(true);
+    expect(client.search.mock.calls[0][0].filter).toBe(
+      'metadata["codeSnippet"]["language"] == "cpp" and not (metadata["archived"] == true)'
+    );
+    expect(run.mock.calls[0][1]).toMatchObject({ query: 'Dijkstra', language: 'cpp' });
+  });
+
+  it('should fall back to any language when none match the one asked for', async () => {
+    const client = createMilvusClient();
+    client.search
+      .mockResolvedValueOnce({ results: [] })
+      .mockResolvedValueOnce({ results: [createSnippetHit('chunk-1:0', 'python', 0.8)] });
+    const { driver } = createDriver();
+    const retriever = new CodeSnippetRetriever(client as unknown as MilvusClient, driver, embedder);
+
+    const results = await retriever.search('Dijkstra in Rust', 5, 'rust');
+
+    expect(results.map((r) => r.metadata.codeSnippet?.language)).toEqual(['python']);
+    expect(client.search.mock.calls[1][0].filter).toBe('not (metadata["archived"] == true)');
+  });
+
+  it('should degrade to vector hits when lexical search fails', async () => {
+    const client = createMilvusClient([createSnippetHit('chunk-1:0', 'cpp', 0.8)]);
+    const driver = {
+      session: () => ({
+        run: vi.fn().mockRejectedValue(new Error('index missing')),
+        close: vi.fn().mockResolvedValue(undefined),
+      }),
+    } as unknown as Driver;
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const retriever = new CodeSnippetRetriever(client as unknown as MilvusClient, driver, embedder);
+
+    const results = await retriever.search('Dijkstra code', 5);
+
+    expect(results.map((r) => r.id)).toEqual(['chunk-1:0']);
+    warn.mockRestore();
+  });
+});
+
+// ============================================================================
+// HybridRetriever Code Mode Tests
+// ============================================================================
+
+describe('HybridRetriever code mode', () => {
+  function createHybrid() {
+    const client = createMilvusClient([
+      { chunk_id: 1, content_text: 'Dijkstra explained', score: 0.9, metadata: { chunkIndex: 0 } },
+      { chunk_id: 2, content_text: 'More prose', score: 0.8, metadata: { chunkIndex: 1 } },
+    ]);
+    const { driver } = createDriver();
+    const snippet: RetrievalResult = {
+      id: 'chunk-1:0',
+      content: '```cpp\ndijkstra();\n```',
+      score: 0.7,
+      source: 'code',
+      metadata: {
+        documentId: 'doc-1',
+        documentTitle: 'Shortest Paths',
+        documentUrl: 'https://example.com/paths',
+        chunkIndex: 0,
+        totalChunks: 1,
+        tokenCount: 20,
+        hasCode: true,
+        hasFormula: false,
+        hasTable: false,
+        codeSnippet: { id: 'chunk-1:0', chunkId: 'chunk-1', snippetIndex: 0, language: 'cpp' },
+      },
+    };
+    const codeRetriever = { search: vi.fn().mockResolvedValue([snippet]) };
+
+    const retriever = new HybridRetriever(client as unknown as MilvusClient, driver, embedder, {
+      includeGraph: false,
+    });
+    retriever.setCodeRetriever(codeRetriever as unknown as CodeSnippetRetriever);
+    return { retriever, codeRetriever };
+  }
+
+  it('should rank code snippets ahead of prose in code mode', async () => {
+    const { retriever, codeRetriever } = createHybrid();
+    const info = vi.spyOn(console, 'info').mockImplementation(() => {});
+
+    const { results, metrics } = await retriever.retrieve(
+      'Dijkstra implementation in C++', 5, false, undefined, undefined, { language: 'cpp' }
+    );
+
+    expect(codeRetriever.search).toHaveBeenCalledWith('Dijkstra implementation in C++', 5, 'cpp');
+    expect(results[0]).toMatchObject({ id: 'chunk-1:0', codeRank: 1 });
+    expect(results).toHaveLength(3);
+    expect(metrics.codeResultCount).toBe(1);
+    info.mockRestore();
+  });
+
+  it('should not search code snippets in the default mode', async () => {
+    const { retriever, codeRetriever } = createHybrid();
+    const info = vi.spyOn(console, 'info').mockImplementation(() => {});
+
+    const { results, metrics } = await retriever.retrieve('What is Dijkstra?', 5, false);
+
+    expect(codeRetriever.search).not.toHaveBeenCalled();
+    expect(results.map((r) => r.id)).toEqual(['1', '2']);
+    expect(metrics.codeResultCount).toBeUndefined();
+    info.mockRestore();
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Conversation Memory Tests
+ *
+ * Tests for multi-turn query support: history budgeting, follow-up
+ * rewrite prompts, rewrite output parsing and the in-memory store.
+ *
+ * @module @jubilant/rag/tests/unit/conversation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  InMemoryConversationStore,
+  selectHistoryWithinBudget,
+  formatHistoryMessages,
+  buildQueryRewriteMessages,
+  createQueryRewritePrompt,
+  parseRewrittenQuery,
+  QUERY_REWRITE_SYSTEM_PROMPT,
+  type ConversationTurn,
+} from '../../src/generation/conversation';
+
+// ============================================================================
+// Test Data Factories
+// ============================================================================
+
+function createTurn(overrides: Partial<ConversationTurn> = {}): ConversationTurn {
+  return {
+    question: 'What is Dijkstra\'s algorithm?',
+    answer: 'Dijkstra\'s algorithm finds shortest paths from a single source [1].',
+    ...overrides,
+  };
+}
+
+// ============================================================================
+// selectHistoryWithinBudget Tests
+// ============================================================================
+
+describe('selectHistoryWithinBudget', () => {
+  it('should keep all turns when within budget', () => {
+    const turns = [createTurn(), createTurn({ question: 'And Bellman-Ford?' })];
+
+    expect(selectHistoryWithinBudget(turns, 1000)).toEqual(turns);
+  });
+
+  it('should drop the oldest turns first when over budget', () => {
+    const turns = [
+      createTurn({ question: 'first', answer: 'a'.repeat(400) }),
+      createTurn({ question: 'second', answer: 'b'.repeat(400) }),
+      createTurn({ question: 'third', answer: 'c'.repeat(400) }),
+    ];
+
+    const selected = selectHistoryWithinBudget(turns, 220);
+
+    expect(selected.map((t) => t.question)).toEqual(['second', 'third']);
+  });
+
+  it('should return no turns when the latest turn exceeds the budget', () => {
+    const turns = [createTurn({ answer: 'x'.repeat(2000) })];
+
+    expect(selectHistoryWithinBudget(turns, 100)).toEqual([]);
+  });
+
+  it('should handle empty history', () => {
+    expect(selectHistoryWithinBudget([], 1000)).toEqual([]);
+  });
+});
+
+// ============================================================================
+// formatHistoryMessages Tests
+// ============================================================================
+
+describe('formatHistoryMessages', () => {
+  it('should alternate user and assistant messages', () => {
+    const messages = formatHistoryMessages([
+      createTurn({ question: 'Q1', answer: 'A1' }),
+      createTurn({ question: 'Q2', answer: 'A2' }),
+    ]);
+
+    expect(messages).toEqual([
+      { role: 'user', content: 'Q1' },
+      { role: 'assistant', content: 'A1' },
+      { role: 'user', content: 'Q2' },
+      { role: 'assistant', content: 'A2' },
+    ]);
+  });
+});
+
+// ============================================================================
+// Rewrite Prompt Tests
+// ============================================================================
+
+describe('createQueryRewritePrompt', () => {
+  it('should include the transcript and follow-up question', () => {
+    const prompt = createQueryRewritePrompt([createTurn()], 'What is its complexity?');
+
+    expect(prompt).toContain('Student: What is Dijkstra\'s algorithm?');
+    expect(prompt).toContain('Tutor: Dijkstra\'s algorithm finds');
+    expect(prompt).toContain('## Follow-up Question\nWhat is its complexity?');
+  });
+
+  it('should truncate long prior answers', () => {
+    const prompt = createQueryRewritePrompt(
+      [createTurn({ answer: 'z'.repeat(1000) })],
+      'Why?'
+    );
+
+    expect(prompt).toContain('z'.repeat(400) + '...');
+    expect(prompt).not.toContain('z'.repeat(401));
+  });
+
+  it('should build system and user messages', () => {
+    const messages = buildQueryRewriteMessages([createTurn()], 'Why?');
+
+    expect(messages).toHaveLength(2);
+    expect(messages[0]).toEqual({ role: 'system', content: QUERY_REWRITE_SYSTEM_PROMPT });
+    expect(messages[1].role).toBe('user');
+  });
+});
+
+// ============================================================================
+// parseRewrittenQuery Tests
+// ============================================================================
+
+describe('parseRewrittenQuery', () => {
+  it('should return the first non-empty line', () => {
+    expect(
+      parseRewrittenQuery('\nTime complexity of Dijkstra\'s algorithm\nextra', 'Why?')
+    ).toBe('Time complexity of Dijkstra\'s algorithm');
+  });
+
+  it('should strip labels and quotes', () => {
+    expect(
+      parseRewrittenQuery('Standalone Query: "Dijkstra complexity"', 'Why?')
+    ).toBe('Dijkstra complexity');
+  });
+
+  it('should fall back to the question for empty output', () => {
+    expect(parseRewrittenQuery('   \n  ', 'What is its complexity?')).toBe(
+      'What is its complexity?'
+    );
+  });
+
+  it('should fall back to the question when the output is an answer', () => {
+    const longAnswer = 'Dijkstra runs in O((V + E) log V) '.repeat(30);
+
+    expect(parseRewrittenQuery(longAnswer, 'What is its complexity?')).toBe(
+      'What is its complexity?'
+    );
+  });
+});
+
+// ============================================================================
+// InMemoryConversationStore Tests
+// ============================================================================
+
+describe('InMemoryConversationStore', () => {
+  it('should return recent turns oldest first', async () => {
+    const store = new InMemoryConversationStore();
+    await store.appendTurn('s1', createTurn({ question: 'Q1' }));
+    await store.appendTurn('s1', createTurn({ question: 'Q2' }));
+    await store.appendTurn('s1', createTurn({ question: 'Q3' }));
+
+    const turns = await store.getRecentTurns('s1', 2);
+
+    expect(turns.map((t) => t.question)).toEqual(['Q2', 'Q3']);
+  });
+
+  it('should isolate sessions', async () => {
+    const store = new InMemoryConversationStore();
+    await store.appendTurn('s1', createTurn());
+
+    expect(await store.getRecentTurns('s2', 5)).toEqual([]);
+  });
+
+  it('should cap turns per session', async () => {
+    const store = new InMemoryConversationStore(2);
+    await store.appendTurn('s1', createTurn({ question: 'Q1' }));
+    await store.appendTurn('s1', createTurn({ question: 'Q2' }));
+    await store.appendTurn('s1', createTurn({ question: 'Q3' }));
+
+    const turns = await store.getRecentTurns('s1', 10);
+
+    expect(turns.map((t) => t.question)).toEqual(['Q2', 'Q3']);
+  });
+
+  it('should clear a session', async () => {
+    const store = new InMemoryConversationStore();
+    await store.appendTurn('s1', createTurn());
+    store.clear('s1');
+
+    expect(await store.getRecentTurns('s1', 5)).toEqual([]);
+  });
+});
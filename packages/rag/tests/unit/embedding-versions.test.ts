@@ -0,0 +1,454 @@
+/**
+ * Embedding Version Tests
+ *
+ * Tests versioned embedding collections: resolving the active and shadow
+ * collections, switching retrieval on activation, dual-writing ingestion
+ * into shadows, backfilling and A/B comparison.
+ *
+ * @module @jubilant/rag/tests/unit/embedding-versions
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { MilvusClient } from '@zilliz/milvus2-sdk-node';
+import {
+  EmbeddingVersionTracker,
+  type EmbeddingVersion,
+  type EmbeddingVersionStore,
+} from '../../src/retrieval/versions';
+import {
+  EmbeddingMigration,
+  compareRetrievalResults,
+  summarizeComparisons,
+} from '../../src/retrieval/migration';
+import { MilvusRetriever } from '../../src/retrieval/vector';
+import { MilvusChunkStorage } from '../../src/ingestion/storage';
+import { BatchEmbedder } from '../../src/ingestion/embedder';
+import { ModelRegistry } from '../../src/providers/registry';
+import type { Qwen3Embedding } from '../../src/generation/embedder';
+import type { Chunk } from '../../src/ingestion/chunker';
+import type { EmbeddedChunk, RetrievalResult } from '../../src/types';
+
+// ============================================================================
+// Test Data Factories
+// ============================================================================
+
+function createVersion(overrides: Partial<EmbeddingVersion> = {}): EmbeddingVersion {
+  const version = overrides.version ?? 1;
+  return {
+    version,
+    collectionName: `knowledge_chunks_v${version}`,
+    provider: 'embedding',
+    model: 'Qwen/Qwen3-Embedding-8B',
+    dimensions: 2,
+    status: 'active',
+    processedDocuments: 0,
+    totalDocuments: 0,
+    embeddedChunks: 0,
+    backfillCursor: null,
+    error: null,
+    createdAt: new Date('2026-01-01'),
+    activatedAt: null,
+    ...overrides,
+  };
+}
+
+function createStore(initial: EmbeddingVersion[] = [], documentIds: string[] = []) {
+  const versions = [...initial];
+  return {
+    versions,
+    listVersions: vi.fn(async () => versions.map((v) => ({ ...v }))),
+    createVersion: vi.fn(async (input: Parameters<EmbeddingVersionStore['createVersion']>[0]) => {
+      const version = createVersion(input);
+      versions.push(version);
+      return version;
+    }),
+    updateVersion: vi.fn(async (number: number, updates: Partial<EmbeddingVersion>) => {
+      Object.assign(versions.find((v) => v.version === number)!, updates);
+    }),
+    activateVersion: vi.fn(async (number: number) => {
+      for (const v of versions) {
+        if (v.status === 'active') v.status = 'retired';
+        if (v.version === number) v.status = 'active';
+      }
+    }),
+    listDocumentIds: vi.fn(async (after: string | null, limit: number) =>
+      documentIds.filter((id) => after === null || id > after).slice(0, limit)
+    ),
+    countDocuments: vi.fn(async () => documentIds.length),
+  } satisfies EmbeddingVersionStore & { versions: EmbeddingVersion[] };
+}
+
+function createEmbedder(vector: number[]) {
+  return {
+    getQueryEmbedding: vi.fn().mockResolvedValue(vector),
+    getTextEmbedding: vi.fn().mockResolvedValue(vector),
+    getTextEmbeddings: vi.fn(async (texts: string[]) => texts.map(() => vector)),
+  } as unknown as Qwen3Embedding & {
+    getQueryEmbedding: ReturnType<typeof vi.fn>;
+    getTextEmbeddings: ReturnType<typeof vi.fn>;
+  };
+}
+
+const registry = new ModelRegistry({
+  providers: [{
+    name: 'embedding',
+    type: 'openai',
+    baseUrl: 'http://localhost:8001/v1',
+    timeoutMs: 1000,
+    retry: { maxRetries: 0, initialDelayMs: 0, maxDelayMs: 0, backoffFactor: 1 },
+  }],
+  roles: {},
+});
+
+/**
+ * Tracker whose version embedders are test doubles: vectors [v, v]
+ */
+function createTracker(store: EmbeddingVersionStore, defaultEmbedder = createEmbedder([0, 0])) {
+  const tracker = new EmbeddingVersionTracker(store, { registry, defaultEmbedder });
+  const embedders = new Map<number, ReturnType<typeof createEmbedder>>();
+  vi.spyOn(tracker, 'embedderFor').mockImplementation((version) => {
+    if (!embedders.has(version.version)) {
+      embedders.set(version.version, createEmbedder([version.version, version.version]));
+    }
+    return embedders.get(version.version)!;
+  });
+  return { tracker, embedders };
+}
+
+function createMilvusClient() {
+  return {
+    search: vi.fn().mockResolvedValue({ results: [] }),
+    insert: vi.fn().mockResolvedValue({}),
+    upsert: vi.fn().mockResolvedValue({}),
+    delete: vi.fn().mockResolvedValue({ delete_cnt: 1 }),
+    flush: vi.fn().mockResolvedValue({}),
+    query: vi.fn().mockResolvedValue({ data: [] }),
+  };
+}
+
+function createEmbeddedChunk(embeddingVersion: number | null): EmbeddedChunk {
+  return {
+    id: '00000000-0000-0000-0000-000000000001',
+    content: 'Dijkstra relaxes edges in order of distance',
+    embedding: [9, 9],
+    metadata: {
+      documentId: 'doc-1',
+      documentTitle: 'Shortest paths',
+      documentUrl: 'docs/paths.md',
+      chunkIndex: 0,
+      totalChunks: 1,
+      tokenCount: 8,
+      hasCode: false,
+      hasFormula: false,
+      hasTable: false,
+    },
+    embeddingVersion,
+  };
+}
+
+function createResult(id: string, score: number): RetrievalResult {
+  return { id, content: id, score, metadata: {} as RetrievalResult['metadata'], source: 'vector' };
+}
+
+// ============================================================================
+// EmbeddingVersionTracker Tests
+// ============================================================================
+
+describe('EmbeddingVersionTracker', () => {
+  it('should use the default collection while no version is active', async () => {
+    const defaultEmbedder = createEmbedder([0, 0]);
+    const { tracker } = createTracker(createStore(), defaultEmbedder);
+
+    const targets = await tracker.resolve();
+
+    expect(targets.active).toEqual({
+      version: null,
+      collectionName: 'knowledge_chunks',
+      embedder: defaultEmbedder,
+    });
+    expect(targets.shadows).toEqual([]);
+  });
+
+  it('should resolve the active version and the shadows being built', async () => {
+    const { tracker } = createTracker(createStore([
+      createVersion({ version: 1, status: 'retired' }),
+      createVersion({ version: 2, status: 'active' }),
+      createVersion({ version: 3, status: 'building' }),
+      createVersion({ version: 4, status: 'failed' }),
+    ]));
+
+    const targets = await tracker.resolve();
+
+    expect(targets.active.collectionName).toBe('knowledge_chunks_v2');
+    expect(targets.shadows.map((s) => s.version)).toEqual([3]);
+  });
+
+  it('should reuse resolved versions until invalidated', async () => {
+    const store = createStore([createVersion()]);
+    const { tracker } = createTracker(store);
+
+    await Promise.all([tracker.resolve(), tracker.resolve()]);
+    await tracker.resolve();
+    expect(store.listVersions).toHaveBeenCalledTimes(1);
+
+    tracker.invalidate();
+    await tracker.resolve();
+    expect(store.listVersions).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject versions whose provider is not configured', () => {
+    const tracker = new EmbeddingVersionTracker(createStore(), { registry });
+
+    expect(() => tracker.embedderFor(createVersion({ provider: 'missing' }))).toThrow(
+      'Embedding version 1 uses provider "missing", which is not configured'
+    );
+  });
+});
+
+// ============================================================================
+// MilvusRetriever Tests
+// ============================================================================
+
+describe('MilvusRetriever with embedding versions', () => {
+  it('should search the active collection with its model, and switch on activation', async () => {
+    const store = createStore([
+      createVersion({ version: 1, status: 'active' }),
+      createVersion({ version: 2, status: 'ready' }),
+    ]);
+    const { tracker, embedders } = createTracker(store);
+    const client = createMilvusClient();
+    const retriever = new MilvusRetriever(client as unknown as MilvusClient, createEmbedder([0, 0]));
+    retriever.setVersionTracker(tracker);
+
+    await retriever.search('shortest path');
+    expect(client.search.mock.calls[0][0]).toMatchObject({
+      collection_name: 'knowledge_chunks_v1',
+      vector: [1, 1],
+    });
+
+    await store.activateVersion(2);
+    tracker.invalidate();
+    await retriever.search('shortest path');
+
+    expect(client.search.mock.calls[1][0]).toMatchObject({
+      collection_name: 'knowledge_chunks_v2',
+      vector: [2, 2],
+    });
+    expect(embedders.get(2)!.getQueryEmbedding).toHaveBeenCalledWith('shortest path');
+  });
+});
+
+// ============================================================================
+// Dual-Write Tests
+// ============================================================================
+
+describe('MilvusChunkStorage dual-write', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('should write chunks to the active collection and re-embed them for shadows', async () => {
+    const { tracker, embedders } = createTracker(createStore([
+      createVersion({ version: 1, status: 'active' }),
+      createVersion({ version: 2, status: 'building' }),
+    ]));
+    const client = createMilvusClient();
+    const storage = new MilvusChunkStorage(client as unknown as MilvusClient);
+    storage.setVersionTracker(tracker);
+
+    const inserted = await storage.insertChunks([createEmbeddedChunk(1)]);
+
+    expect(inserted).toBe(1);
+    expect(client.insert).toHaveBeenCalledTimes(2);
+    expect(client.insert.mock.calls[0][0].collection_name).toBe('knowledge_chunks_v1');
+    expect(client.insert.mock.calls[0][0].data[0].vector).toEqual([9, 9]);
+    expect(client.insert.mock.calls[1][0].collection_name).toBe('knowledge_chunks_v2');
+    expect(client.insert.mock.calls[1][0].data[0].vector).toEqual([2, 2]);
+    expect(embedders.get(1)!.getTextEmbeddings).not.toHaveBeenCalled();
+  });
+
+  it('should not fail ingestion when a shadow write fails', async () => {
+    const { tracker } = createTracker(createStore([
+      createVersion({ version: 1, status: 'active' }),
+      createVersion({ version: 2, status: 'building' }),
+    ]));
+    const client = createMilvusClient();
+    client.insert
+      .mockResolvedValueOnce({})
+      .mockRejectedValueOnce(new Error('collection not loaded'));
+    const storage = new MilvusChunkStorage(client as unknown as MilvusClient);
+    storage.setVersionTracker(tracker);
+
+    await expect(storage.insertChunks([createEmbeddedChunk(1)])).resolves.toBe(1);
+    expect(console.warn).toHaveBeenCalledWith(
+      'Failed to insert chunks into shadow collection knowledge_chunks_v2:',
+      'collection not loaded'
+    );
+  });
+
+  it('should delete a document from every collection', async () => {
+    const { tracker } = createTracker(createStore([
+      createVersion({ version: 1, status: 'active' }),
+      createVersion({ version: 2, status: 'ready' }),
+    ]));
+    const client = createMilvusClient();
+    const storage = new MilvusChunkStorage(client as unknown as MilvusClient);
+    storage.setVersionTracker(tracker);
+
+    await storage.deleteByDocumentId('doc-1');
+
+    expect(client.delete.mock.calls.map(([args]) => args.collection_name)).toEqual([
+      'knowledge_chunks_v1',
+      'knowledge_chunks_v2',
+    ]);
+  });
+
+  it('should tag embedded chunks with the active version', async () => {
+    const { tracker } = createTracker(createStore([createVersion({ version: 3, status: 'active' })]));
+    const embedder = new BatchEmbedder(createEmbedder([0, 0]));
+    embedder.setVersionTracker(tracker);
+
+    const chunk = { content: 'BFS', index: 0, tokenCount: 1, metadata: {} } as unknown as Chunk;
+    const result = await embedder.embedChunks([chunk]);
+
+    expect(result.embeddings[0]).toMatchObject({ embedding: [3, 3], embeddingVersion: 3 });
+  });
+});
+
+// ============================================================================
+// EmbeddingMigration Tests
+// ============================================================================
+
+describe('EmbeddingMigration', () => {
+  function createMigration(store: ReturnType<typeof createStore>, client = createMilvusClient()) {
+    const { tracker } = createTracker(store);
+    const initCollection = vi.fn().mockResolvedValue(undefined);
+    const migration = new EmbeddingMigration(
+      client as unknown as MilvusClient,
+      store,
+      tracker,
+      initCollection
+    );
+    return { migration, initCollection, client };
+  }
+
+  it('should record the existing collection as active version 1', async () => {
+    const store = createStore();
+    const { migration } = createMigration(store);
+
+    const version = await migration.bootstrap({ provider: 'embedding', model: 'm', dimensions: 2 });
+
+    expect(version).toMatchObject({ version: 1, collectionName: 'knowledge_chunks', status: 'active' });
+  });
+
+  it('should create the shadow collection before recording the version', async () => {
+    const store = createStore([createVersion({ version: 1, collectionName: 'knowledge_chunks' })]);
+    const { migration, initCollection } = createMigration(store);
+
+    const version = await migration.createShadowVersion({ provider: 'embedding', model: 'bge-m3', dimensions: 1024 });
+
+    expect(initCollection).toHaveBeenCalledWith('knowledge_chunks_v2', 1024);
+    expect(initCollection.mock.invocationCallOrder[0])
+      .toBeLessThan(store.createVersion.mock.invocationCallOrder[0]);
+    expect(version).toMatchObject({ version: 2, status: 'building', model: 'bge-m3' });
+  });
+
+  it('should re-embed each document into the shadow and drop stale rows', async () => {
+    const store = createStore(
+      [createVersion({ version: 1 }), createVersion({ version: 2, status: 'building' })],
+      ['doc-a', 'doc-b']
+    );
+    const client = createMilvusClient();
+    client.query.mockImplementation(async ({ collection_name, filter }: { collection_name: string; filter: string }) => {
+      if (collection_name === 'knowledge_chunks_v2') {
+        return { data: filter.includes('doc-a') ? [{ chunk_id: 99 }] : [] };
+      }
+      return {
+        data: [{ chunk_id: filter.includes('doc-a') ? 1 : 2, content_text: 'x', metadata: '{}', topic_tag: '' }],
+      };
+    });
+    const { migration } = createMigration(store, client);
+    const onProgress = vi.fn();
+
+    const version = await migration.backfill(2, { onProgress });
+
+    expect(client.delete).toHaveBeenCalledWith({
+      collection_name: 'knowledge_chunks_v2',
+      filter: 'chunk_id in [99]',
+    });
+    expect(client.upsert.mock.calls.map(([args]) => args.data[0])).toEqual([
+      expect.objectContaining({ chunk_id: 1, vector: [2, 2] }),
+      expect.objectContaining({ chunk_id: 2, vector: [2, 2] }),
+    ]);
+    expect(onProgress).toHaveBeenLastCalledWith({
+      version: 2, processedDocuments: 2, totalDocuments: 2, embeddedChunks: 2,
+    });
+    expect(version).toMatchObject({ status: 'ready', backfillCursor: 'doc-b', embeddedChunks: 2 });
+  });
+
+  it('should resume a backfill from its cursor', async () => {
+    const store = createStore(
+      [
+        createVersion({ version: 1 }),
+        createVersion({ version: 2, status: 'failed', backfillCursor: 'doc-a', processedDocuments: 1 }),
+      ],
+      ['doc-a', 'doc-b']
+    );
+    const { migration } = createMigration(store);
+
+    await migration.backfill(2);
+
+    expect(store.listDocumentIds).toHaveBeenCalledWith('doc-a', 50);
+    expect(store.versions[1]).toMatchObject({ status: 'ready', processedDocuments: 2 });
+  });
+
+  it('should only activate versions that finished backfilling', async () => {
+    const store = createStore([
+      createVersion({ version: 1 }),
+      createVersion({ version: 2, status: 'building' }),
+    ]);
+    const { migration } = createMigration(store);
+
+    await expect(migration.activate(2)).rejects.toThrow(
+      'Version 2 is building; only ready versions can be activated'
+    );
+
+    store.versions[1].status = 'ready';
+    await migration.activate(2);
+    expect(store.versions.map((v) => v.status)).toEqual(['retired', 'active']);
+  });
+});
+
+// ============================================================================
+// Comparison Tests
+// ============================================================================
+
+describe('compareRetrievalResults', () => {
+  it('should measure top-k overlap and list dropped chunks', () => {
+    const comparison = compareRetrievalResults(
+      'dp on trees',
+      [createResult('a', 0.9), createResult('b', 0.8), createResult('c', 0.7)],
+      [createResult('b', 0.95), createResult('a', 0.85), createResult('d', 0.6)],
+      3
+    );
+
+    expect(comparison).toEqual({
+      query: 'dp on trees',
+      overlap: 2 / 3,
+      baselineTopScore: 0.9,
+      candidateTopScore: 0.95,
+      droppedChunkIds: ['c'],
+    });
+  });
+
+  it('should order summarized queries by lowest overlap', () => {
+    const summary = summarizeComparisons(1, 2, 10, [
+      { query: 'q1', overlap: 1, baselineTopScore: 0.8, candidateTopScore: 0.9, droppedChunkIds: [] },
+      { query: 'q2', overlap: 0.5, baselineTopScore: 0.6, candidateTopScore: 0.7, droppedChunkIds: ['x'] },
+    ]);
+
+    expect(summary.meanOverlap).toBe(0.75);
+    expect(summary.meanCandidateTopScore).toBeCloseTo(0.8);
+    expect(summary.queries.map((q) => q.query)).toEqual(['q2', 'q1']);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Faithfulness Verification Tests
+ *
+ * Tests claim extraction, verification prompts, verdict parsing and
+ * scoring of answers against their cited chunks.
+ *
+ * @module @jubilant/rag/tests/unit/faithfulness
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  FaithfulnessVerifier,
+  createFaithfulnessPrompt,
+  parseClaimVerdicts,
+  splitClaims,
+} from '../../src/generation/faithfulness';
+import type { Qwen3LLM } from '../../src/generation/llm';
+import type { Citation, RankedResult } from '../../src/types';
+
+// ============================================================================
+// Test Data Factories
+// ============================================================================
+
+function createResult(id: string, content: string): RankedResult {
+  return {
+    id,
+    content,
+    rerankScore: 0.9,
+    originalFusedScore: 0.5,
+    metadata: {
+      documentId: 'doc-1',
+      documentTitle: 'Shortest Paths',
+      documentUrl: 'https://example.com/paths',
+      chunkIndex: 0,
+      totalChunks: 2,
+      tokenCount: 20,
+      hasCode: false,
+      hasFormula: false,
+      hasTable: false,
+    },
+  };
+}
+
+function createCitation(id: string, chunkId: string): Citation {
+  return {
+    id,
+    chunkId,
+    documentTitle: 'Shortest Paths',
+    documentUrl: 'https://example.com/paths',
+    snippet: 'snippet',
+    relevanceScore: 0.9,
+  };
+}
+
+function createVerifier(output: string | Error) {
+  const llm = {
+    complete:
+      output instanceof Error
+        ? vi.fn().mockRejectedValue(output)
+        : vi.fn().mockResolvedValue(output),
+  };
+  return { verifier: new FaithfulnessVerifier(llm as unknown as Qwen3LLM), llm };
+}
+
+const results = [
+  createResult('c1', 'Dijkstra\'s algorithm assumes non-negative edge weights.'),
+  createResult('c2', 'Bellman-Ford handles negative weights and detects negative cycles.'),
+];
+const citations = [createCitation('[1]', 'c1'), createCitation('[2]', 'c2')];
+
+// ============================================================================
+// splitClaims Tests
+// ============================================================================
+
+describe('splitClaims', () => {
+  it('should split sentences and list items, keeping their citations', () => {
+    const claims = splitClaims(
+      '## Why\nDijkstra fails with negative weights [1]. Bellman-Ford detects negative cycles [2].\n' +
+        '- It runs in O(VE) time overall [2]'
+    );
+
+    expect(claims.map((c) => c.text)).toEqual([
+      'Dijkstra fails with negative weights [1].',
+      'Bellman-Ford detects negative cycles [2].',
+      'It runs in O(VE) time overall [2]',
+    ]);
+    expect(claims[0].citationIds).toEqual(['[1]']);
+  });
+
+  it('should move leading citation markers back to the previous sentence', () => {
+    const claims = splitClaims('Dijkstra needs non-negative weights. [1] Bellman-Ford does not need them.');
+
+    expect(claims[0]).toEqual({
+      index: 0,
+      text: 'Dijkstra needs non-negative weights. [1]',
+      citationIds: ['[1]'],
+    });
+    expect(claims[1].citationIds).toEqual([]);
+  });
+
+  it('should skip code blocks and short fragments', () => {
+    const claims = splitClaims('For example:\n```cpp\nint dist[N]; // unused [1].\n```\nThe relaxation step is shown above.');
+
+    expect(claims.map((c) => c.text)).toEqual(['The relaxation step is shown above.']);
+  });
+});
+
+// ============================================================================
+// Prompt Tests
+// ============================================================================
+
+describe('createFaithfulnessPrompt', () => {
+  it('should list sources and number claims with their citations', () => {
+    const prompt = createFaithfulnessPrompt(
+      [{ index: 3, text: 'Dijkstra fails with negative weights [1].', citationIds: ['[1]'] }],
+      new Map([['[1]', { title: 'Shortest Paths', content: 'x'.repeat(50) }]]),
+      20
+    );
+
+    expect(prompt).toContain(`[1] Shortest Paths\n${'x'.repeat(20)}...`);
+    expect(prompt).toContain('1. (cites [1]) Dijkstra fails with negative weights.');
+  });
+});
+
+describe('parseClaimVerdicts', () => {
+  it('should parse verdict lines in common formats', () => {
+    const verdicts = parseClaimVerdicts(
+      '1: SUPPORTED\nClaim 2 - unsupported\n**3**: Partially supported\n4: NOT SUPPORTED\nnotes'
+    );
+
+    expect([...verdicts]).toEqual([
+      [1, 'supported'],
+      [2, 'unsupported'],
+      [3, 'partial'],
+      [4, 'unsupported'],
+    ]);
+  });
+});
+
+// ============================================================================
+// FaithfulnessVerifier Tests
+// ============================================================================
+
+describe('FaithfulnessVerifier', () => {
+  it('should score cited claims and flag unsupported ones', async () => {
+    const { verifier, llm } = createVerifier('1: SUPPORTED\n2: UNSUPPORTED');
+
+    const report = await verifier.verify(
+      'Dijkstra needs non-negative weights [1]. Bellman-Ford runs in linear time [2]. ' +
+        'Let us look at an example now.',
+      citations,
+      results
+    );
+
+    expect(report.claims.map((c) => c.verdict)).toEqual(['supported', 'unsupported', 'uncited']);
+    expect(report.score).toBe(0.5);
+    expect(report.unsupportedCount).toBe(1);
+
+    const prompt = llm.complete.mock.calls[0][0][1].content as string;
+    expect(prompt).toContain('Bellman-Ford handles negative weights and detects negative cycles.');
+  });
+
+  it('should mark claims citing unknown sources unsupported without asking the LLM', async () => {
+    const { verifier, llm } = createVerifier('');
+
+    const report = await verifier.verify('Prim builds minimum spanning trees [7].', citations, results);
+
+    expect(llm.complete).not.toHaveBeenCalled();
+    expect(report.claims[0].verdict).toBe('unsupported');
+    expect(report.score).toBe(0);
+  });
+
+  it('should leave claims without a verdict unverified and unscored', async () => {
+    const { verifier } = createVerifier('1: PARTIAL');
+
+    const report = await verifier.verify(
+      'Dijkstra needs non-negative weights [1]. Bellman-Ford detects negative cycles [2].',
+      citations,
+      results
+    );
+
+    expect(report.claims.map((c) => c.verdict)).toEqual(['partial', 'unverified']);
+    expect(report.score).toBe(0.5);
+  });
+
+  it('should propagate LLM errors', async () => {
+    const { verifier } = createVerifier(new Error('LLM down'));
+
+    await expect(
+      verifier.verify('Dijkstra needs non-negative weights [1].', citations, results)
+    ).rejects.toThrow('LLM down');
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Fallback Reranker Tests
+ *
+ * Tests for degrading through the reranker fallback chain: primary
+ * reranker, secondary reranker, local scorer, then RRF pass-through, with
+ * the scorer used reported alongside the results.
+ *
+ * @module @jubilant/rag/tests/unit/fallback-reranker
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Qwen3Reranker } from '../../src/reranking/reranker';
+import { FallbackReranker, scoreLocally, tokenizeForScoring } from '../../src/reranking/fallback';
+import type { FusedResult } from '../../src/types';
+
+// ============================================================================
+// Test Data Factories
+// ============================================================================
+
+function createFusedResult(id: string, content: string, overrides: Partial<FusedResult> = {}): FusedResult {
+  return {
+    id,
+    content,
+    fusedScore: 0.03,
+    metadata: {
+      documentId: 'doc-1',
+      documentTitle: 'Algorithms',
+      documentUrl: '/docs/algorithms.md',
+      chunkIndex: 0,
+      totalChunks: 3,
+      tokenCount: 12,
+      hasCode: false,
+      hasFormula: false,
+      hasTable: false,
+    },
+    ...overrides,
+  };
+}
+
+const CANDIDATES: FusedResult[] = [
+  createFusedResult('a', 'Graph coloring assigns colors to vertices.', { fusedScore: 0.033 }),
+  createFusedResult('b', 'Dijkstra computes shortest paths with a priority queue.', { fusedScore: 0.032 }),
+  createFusedResult('c', 'Binary search halves the search interval each step.', { fusedScore: 0.031 }),
+];
+
+function createReranker(baseUrl: string): Qwen3Reranker {
+  return new Qwen3Reranker({ baseUrl, topN: 5, confidenceThreshold: 0.6 });
+}
+
+/**
+ * Mock fetch: URLs in `down` fail, others return the given scores
+ */
+function mockRerankerFetch(down: string[], scores: number[] = [0.2, 0.9, 0.4]) {
+  return vi.fn(async (url: string) => {
+    if (down.some((prefix) => url.startsWith(prefix))) {
+      throw new Error('connect ECONNREFUSED');
+    }
+    return {
+      ok: true,
+      json: async () => ({
+        results: scores.map((relevance_score, index) => ({ index, relevance_score })),
+        model: 'test',
+      }),
+    };
+  });
+}
+
+// ============================================================================
+// FallbackReranker Tests
+// ============================================================================
+
+describe('FallbackReranker', () => {
+  let originalFetch: typeof global.fetch;
+
+  beforeEach(() => {
+    originalFetch = global.fetch;
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    vi.restoreAllMocks();
+  });
+
+  it('should use the primary reranker when it is up', async () => {
+    global.fetch = mockRerankerFetch([]) as unknown as typeof fetch;
+    const reranker = new FallbackReranker(createReranker('http://primary'), createReranker('http://secondary'));
+
+    const { results, scorer, errors } = await reranker.rerank('shortest path', CANDIDATES);
+
+    expect(scorer).toBe('reranker');
+    expect(errors).toEqual([]);
+    expect(results.map((r) => r.id)).toEqual(['b', 'c', 'a']);
+    expect(results[0].rerankScore).toBe(0.9);
+    expect(results[0].originalFusedScore).toBe(0.032);
+  });
+
+  it('should fall back to the secondary reranker', async () => {
+    global.fetch = mockRerankerFetch(['http://primary']) as unknown as typeof fetch;
+    const reranker = new FallbackReranker(createReranker('http://primary'), createReranker('http://secondary'));
+
+    const { results, scorer, errors } = await reranker.rerank('shortest path', CANDIDATES);
+
+    expect(scorer).toBe('secondary_reranker');
+    expect(errors).toEqual(['reranker: connect ECONNREFUSED']);
+    expect(results[0].id).toBe('b');
+  });
+
+  it('should fall back to local scores without inventing reranker scores', async () => {
+    global.fetch = mockRerankerFetch(['http://']) as unknown as typeof fetch;
+    const reranker = new FallbackReranker(createReranker('http://primary'), createReranker('http://secondary'));
+
+    const { results, scorer, errors } = await reranker.rerank('How does binary search work?', CANDIDATES);
+
+    expect(scorer).toBe('local');
+    expect(errors).toHaveLength(2);
+    expect(results[0].id).toBe('c');
+    expect(results[0].rerankScore).toBeLessThanOrEqual(1);
+    expect(results.slice(1).map((r) => r.id)).toEqual(['a', 'b']);
+  });
+
+  it('should pass RRF scores through when nothing can score the results', async () => {
+    global.fetch = mockRerankerFetch(['http://']) as unknown as typeof fetch;
+    const reranker = new FallbackReranker(createReranker('http://primary'), null, {
+      enableLocalScorer: false,
+    });
+
+    const { results, scorer } = await reranker.rerank('binary search', CANDIDATES, 2);
+
+    expect(scorer).toBe('rrf');
+    expect(results.map((r) => [r.id, r.rerankScore])).toEqual([
+      ['a', 0.033],
+      ['b', 0.032],
+    ]);
+  });
+
+  it('should prefer RRF order when the local scorer finds no overlap', async () => {
+    global.fetch = mockRerankerFetch(['http://']) as unknown as typeof fetch;
+    const reranker = new FallbackReranker(createReranker('http://primary'));
+
+    const { scorer } = await reranker.rerank('segment tree lazy propagation', CANDIDATES);
+
+    expect(scorer).toBe('rrf');
+  });
+});
+
+// ============================================================================
+// Local Scorer Tests
+// ============================================================================
+
+describe('scoreLocally', () => {
+  it('should weight rare query terms above common ones', () => {
+    const candidates = [
+      createFusedResult('1', 'dynamic programming on trees'),
+      createFusedResult('2', 'dynamic programming with bitmasks'),
+      createFusedResult('3', 'dynamic arrays'),
+    ];
+
+    const scores = scoreLocally('dynamic programming with bitmasks', candidates);
+
+    expect(scores[1]).toBeGreaterThan(scores[0]);
+    expect(scores[0]).toBeGreaterThan(scores[2]);
+    expect(scores[1]).toBe(1);
+  });
+
+  it('should blend in vector similarity for vector hits', () => {
+    const candidates = [
+      createFusedResult('1', 'unrelated text', { vectorScore: 0.8 }),
+      createFusedResult('2', 'unrelated text'),
+    ];
+
+    const scores = scoreLocally('knapsack', candidates, 0.5);
+
+    expect(scores[0]).toBeCloseTo(0.4);
+    expect(scores[1]).toBe(0);
+  });
+
+  it('should tokenize CJK text into bigrams', () => {
+    expect(tokenizeForScoring('线段树 is a tree')).toEqual(['tree', '线段', '段树']);
+  });
+});
@@ -0,0 +1,282 @@
+/**
+ * Ingestion Job Queue Tests
+ *
+ * Tests for the ingestion worker: leasing up to the concurrency limit,
+ * retries with backoff, lease loss, stale lease recovery and resume
+ * planning.
+ *
+ * @module @jubilant/rag/tests/unit/ingestion-queue
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  IngestionWorker,
+  computeRetryDelay,
+  type IngestionJobQueue,
+  type JobLease,
+  type JobProcessor,
+} from '../../src/ingestion/queue';
+import { planResume, type PipelineResult } from '../../src/ingestion/pipeline';
+
+// ============================================================================
+// Test Doubles
+// ============================================================================
+
+/**
+ * In-memory queue recording lease operations
+ */
+class FakeQueue implements IngestionJobQueue {
+  pending: JobLease[] = [];
+  released: string[] = [];
+  retried: Array<{ jobId: string; delayMs: number }> = [];
+  heartbeats = 0;
+  leaseHeld = true;
+
+  constructor(jobs: Array<Partial<JobLease> & { jobId: string }> = []) {
+    this.pending = jobs.map((job) => ({ documentId: `doc-${job.jobId}`, attempts: 1, ...job }));
+  }
+
+  async claim(): Promise<JobLease | null> {
+    return this.pending.shift() ?? null;
+  }
+
+  async heartbeat(): Promise<boolean> {
+    this.heartbeats++;
+    return this.leaseHeld;
+  }
+
+  async release(jobId: string): Promise<void> {
+    this.released.push(jobId);
+  }
+
+  async retry(jobId: string, _workerId: string, delayMs: number): Promise<void> {
+    this.retried.push({ jobId, delayMs });
+  }
+
+  async requeueStale() {
+    return { requeued: 0, failed: 0 };
+  }
+}
+
+function createResult(jobId: string, overrides: Partial<PipelineResult> = {}): PipelineResult {
+  return {
+    documentId: `doc-${jobId}`,
+    jobId,
+    status: 'active',
+    chunkCount: 3,
+    tripleCount: 2,
+    duration: 10,
+    ...overrides,
+  };
+}
+
+/**
+ * Processor whose jobs finish when resolved by the test
+ */
+function createDeferredProcessor() {
+  const pending = new Map<string, (result: PipelineResult) => void>();
+  const signals = new Map<string, AbortSignal | undefined>();
+
+  const processor: JobProcessor = {
+    processJob: (jobId, _onProgress, options) =>
+      new Promise((resolve) => {
+        pending.set(jobId, resolve);
+        signals.set(jobId, options?.signal);
+      }),
+  };
+
+  const finishAll = () => {
+    for (const [jobId, resolve] of pending) resolve(createResult(jobId));
+  };
+
+  return { processor, pending, signals, finishAll };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+// ============================================================================
+// IngestionWorker Tests
+// ============================================================================
+
+describe('IngestionWorker', () => {
+  let worker: IngestionWorker | null = null;
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    await worker?.stop();
+    worker = null;
+  });
+
+  it('should claim jobs up to the concurrency limit', async () => {
+    const queue = new FakeQueue([{ jobId: 'a' }, { jobId: 'b' }, { jobId: 'c' }]);
+    const { processor, pending, finishAll } = createDeferredProcessor();
+    worker = new IngestionWorker(queue, processor, { concurrency: 2, pollIntervalMs: 60_000 });
+
+    worker.start();
+    await flush();
+
+    expect(worker.activeJobs).toBe(2);
+    expect([...pending.keys()]).toEqual(['a', 'b']);
+
+    // Finishing a job frees a slot for the next one
+    pending.get('a')!(createResult('a'));
+    await flush();
+    await flush();
+
+    expect(queue.released).toEqual(['a']);
+    expect([...pending.keys()]).toContain('c');
+
+    finishAll();
+  });
+
+  it('should retry failed jobs with exponential backoff', async () => {
+    const queue = new FakeQueue([{ jobId: 'a', attempts: 2 }]);
+    const processor: JobProcessor = {
+      processJob: async (jobId) => createResult(jobId, { status: 'failed', error: 'boom' }),
+    };
+    worker = new IngestionWorker(queue, processor, {
+      maxAttempts: 3,
+      retryBaseDelayMs: 1000,
+      pollIntervalMs: 60_000,
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    worker.start();
+    await flush();
+    await flush();
+
+    expect(queue.retried).toEqual([{ jobId: 'a', delayMs: 2000 }]);
+    expect(queue.released).toEqual([]);
+  });
+
+  it('should release failed jobs that are out of attempts', async () => {
+    const queue = new FakeQueue([{ jobId: 'a', attempts: 3 }]);
+    const processor: JobProcessor = {
+      processJob: async (jobId) => createResult(jobId, { status: 'failed', error: 'boom' }),
+    };
+    worker = new IngestionWorker(queue, processor, { maxAttempts: 3, pollIntervalMs: 60_000 });
+
+    worker.start();
+    await flush();
+    await flush();
+
+    expect(queue.retried).toEqual([]);
+    expect(queue.released).toEqual(['a']);
+  });
+
+  it('should abort processing when the lease is lost', async () => {
+    vi.useFakeTimers();
+    const queue = new FakeQueue([{ jobId: 'a' }]);
+    const { processor, signals, finishAll } = createDeferredProcessor();
+    worker = new IngestionWorker(queue, processor, {
+      pollIntervalMs: 60_000,
+      staleCheckIntervalMs: 60_000,
+      heartbeatIntervalMs: 100,
+    });
+
+    worker.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(signals.get('a')?.aborted).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(queue.heartbeats).toBe(1);
+    expect(signals.get('a')?.aborted).toBe(false);
+
+    queue.leaseHeld = false;
+    await vi.advanceTimersByTimeAsync(100);
+    expect(signals.get('a')?.aborted).toBe(true);
+
+    finishAll();
+  });
+
+  it('should not release a job abandoned after losing its lease', async () => {
+    vi.useFakeTimers();
+    const queue = new FakeQueue([{ jobId: 'a' }]);
+    queue.leaseHeld = false;
+    const processor: JobProcessor = {
+      processJob: (_jobId, _onProgress, options) =>
+        new Promise((_resolve, reject) => {
+          options?.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+        }),
+    };
+    worker = new IngestionWorker(queue, processor, {
+      pollIntervalMs: 60_000,
+      staleCheckIntervalMs: 60_000,
+      heartbeatIntervalMs: 100,
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    worker.start();
+    await vi.advanceTimersByTimeAsync(150);
+
+    expect(worker.activeJobs).toBe(0);
+    expect(queue.released).toEqual([]);
+    expect(queue.retried).toEqual([]);
+  });
+
+  it('should requeue stale leases on start', async () => {
+    const queue = new FakeQueue();
+    const requeueStale = vi.spyOn(queue, 'requeueStale');
+    worker = new IngestionWorker(queue, createDeferredProcessor().processor, {
+      maxAttempts: 5,
+      pollIntervalMs: 60_000,
+    });
+
+    worker.start();
+    await flush();
+
+    expect(requeueStale).toHaveBeenCalledWith(5);
+  });
+
+  it('should wait for in-flight jobs on stop', async () => {
+    const queue = new FakeQueue([{ jobId: 'a' }]);
+    const { processor, pending } = createDeferredProcessor();
+    worker = new IngestionWorker(queue, processor, { pollIntervalMs: 60_000 });
+
+    worker.start();
+    await flush();
+
+    let stopped = false;
+    const stopping = worker.stop().then(() => {
+      stopped = true;
+    });
+    await flush();
+    expect(stopped).toBe(false);
+
+    pending.get('a')!(createResult('a'));
+    await stopping;
+    expect(stopped).toBe(true);
+    expect(queue.released).toEqual(['a']);
+  });
+});
+
+// ============================================================================
+// computeRetryDelay Tests
+// ============================================================================
+
+describe('computeRetryDelay', () => {
+  it('should double the delay per attempt', () => {
+    expect(computeRetryDelay(1, 1000)).toBe(1000);
+    expect(computeRetryDelay(2, 1000)).toBe(2000);
+    expect(computeRetryDelay(3, 1000)).toBe(4000);
+  });
+});
+
+// ============================================================================
+// planResume Tests
+// ============================================================================
+
+describe('planResume', () => {
+  it('should run every stage for a fresh job', () => {
+    expect(planResume(null)).toEqual({ store: true, extract: true });
+  });
+
+  it('should skip embedding and storage once chunks are stored', () => {
+    expect(planResume('stored')).toEqual({ store: false, extract: true });
+  });
+
+  it('should skip everything once triples are extracted', () => {
+    expect(planResume('extracted')).toEqual({ store: false, extract: false });
+  });
+});
@@ -0,0 +1,353 @@
+/**
+ * Model Provider Tests
+ *
+ * Tests for the OpenAI-compatible, Ollama and TEI provider adapters, the
+ * models config file, and per-role model selection in the registry.
+ *
+ * @module @jubilant/rag/tests/unit/model-providers
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  OpenAICompatibleProvider,
+  OllamaProvider,
+  TEIProvider,
+  type ProviderConfig,
+  type ProviderType,
+} from '../../src/providers/http';
+import {
+  ModelsConfigError,
+  parseModelsConfig,
+  modelsConfigFromEnv,
+} from '../../src/providers/config';
+import { ModelRegistry } from '../../src/providers/registry';
+import { Qwen3LLM } from '../../src/generation/llm';
+import { Qwen3Embedding } from '../../src/generation/embedder';
+
+// ============================================================================
+// Test Data Factories
+// ============================================================================
+
+function createProviderConfig(type: ProviderType, overrides: Partial<ProviderConfig> = {}): ProviderConfig {
+  return {
+    name: type,
+    type,
+    baseUrl: 'http://models.test',
+    timeoutMs: 1000,
+    retry: { maxRetries: 2, initialDelayMs: 0, maxDelayMs: 0, backoffFactor: 2 },
+    ...overrides,
+  };
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status });
+}
+
+const MODELS_FILE = {
+  providers: {
+    vllm: { type: 'openai', baseUrl: 'http://vllm:8000/v1/', apiKey: '${VLLM_KEY}', timeoutMs: 60000 },
+    ollama: { type: 'ollama', baseUrl: 'http://ollama:11434' },
+    tei: { type: 'tei', baseUrl: 'http://tei:8080', retry: { maxRetries: 0 } },
+  },
+  roles: {
+    llm: { provider: 'vllm', model: 'Qwen/Qwen3-32B', temperature: 0.2 },
+    embedding: { provider: 'ollama', model: 'qwen3-embedding', dimensions: 1024 },
+    reranker: { provider: 'tei', model: 'bge-reranker' },
+  },
+};
+
+// ============================================================================
+// Provider Adapter Tests
+// ============================================================================
+
+describe('model providers', () => {
+  let originalFetch: typeof global.fetch;
+  let mockFetch: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    originalFetch = global.fetch;
+    mockFetch = vi.fn();
+    global.fetch = mockFetch as unknown as typeof fetch;
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    vi.restoreAllMocks();
+  });
+
+  function requestBody(call = 0): Record<string, unknown> {
+    return JSON.parse(mockFetch.mock.calls[call][1].body);
+  }
+
+  describe('OpenAICompatibleProvider', () => {
+    it('should send chat completions with the model and generation options', async () => {
+      mockFetch.mockResolvedValue(jsonResponse({ choices: [{ message: { content: 'Hello' } }] }));
+      const provider = new OpenAICompatibleProvider(createProviderConfig('openai', { apiKey: 'secret' }));
+
+      const content = await provider.chat([{ role: 'user', content: 'Hi' }], {
+        model: 'Qwen/Qwen3-32B',
+        maxTokens: 128,
+        temperature: 0.5,
+      });
+
+      expect(content).toBe('Hello');
+      expect(mockFetch.mock.calls[0][0]).toBe('http://models.test/chat/completions');
+      expect(mockFetch.mock.calls[0][1].headers.Authorization).toBe('Bearer secret');
+      expect(requestBody()).toMatchObject({ model: 'Qwen/Qwen3-32B', max_tokens: 128, temperature: 0.5, stream: false });
+    });
+
+    it('should parse server-sent event streams', async () => {
+      mockFetch.mockResolvedValue(new Response(
+        'data: {"choices":[{"delta":{"content":"Bi"}}]}\n\n' +
+        'data: {"choices":[{"delta":{"content":"nary"}}]}\n\n' +
+        'data: [DONE]\n\n'
+      ));
+      const provider = new OpenAICompatibleProvider(createProviderConfig('openai'));
+
+      const deltas: string[] = [];
+      for await (const delta of provider.chatStream([{ role: 'user', content: 'Hi' }], { model: 'm' })) {
+        deltas.push(delta);
+      }
+
+      expect(deltas).toEqual(['Bi', 'nary']);
+    });
+
+    it('should retry transient failures and not others', async () => {
+      mockFetch
+        .mockResolvedValueOnce(new Response('overloaded', { status: 503 }))
+        .mockResolvedValueOnce(jsonResponse({ data: [{ index: 1, embedding: [2] }, { index: 0, embedding: [1] }] }));
+      const provider = new OpenAICompatibleProvider(createProviderConfig('openai'));
+
+      expect(await provider.embed(['a', 'b'], 'embedder')).toEqual([[1], [2]]);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      mockFetch.mockReset();
+      mockFetch.mockResolvedValue(new Response('bad request', { status: 400 }));
+
+      await expect(provider.embed(['a'], 'embedder')).rejects.toThrow('Embedding API error: 400');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('OllamaProvider', () => {
+    it('should use the native chat API and stream NDJSON', async () => {
+      mockFetch.mockResolvedValue(new Response(
+        '{"message":{"content":"Dy"},"done":false}\n' +
+        '{"message":{"content":"namic"},"done":false}\n' +
+        '{"message":{"content":""},"done":true}\n'
+      ));
+      const provider = new OllamaProvider(createProviderConfig('ollama'));
+
+      const deltas: string[] = [];
+      for await (const delta of provider.chatStream([{ role: 'user', content: 'Hi' }], { model: 'qwen3', maxTokens: 64 })) {
+        deltas.push(delta);
+      }
+
+      expect(deltas).toEqual(['Dy', 'namic']);
+      expect(mockFetch.mock.calls[0][0]).toBe('http://models.test/api/chat');
+      expect(requestBody()).toMatchObject({ model: 'qwen3', stream: true, options: { num_predict: 64 } });
+    });
+
+    it('should embed with /api/embed and refuse to rerank', async () => {
+      mockFetch.mockResolvedValue(jsonResponse({ embeddings: [[0.1, 0.2]] }));
+      const provider = new OllamaProvider(createProviderConfig('ollama'));
+
+      expect(await provider.embed(['text'], 'qwen3-embedding')).toEqual([[0.1, 0.2]]);
+      expect(requestBody()).toEqual({ model: 'qwen3-embedding', input: ['text'] });
+      await expect(provider.rerank('q', ['d'], 'm')).rejects.toThrow('does not support rerank');
+    });
+  });
+
+  describe('TEIProvider', () => {
+    it('should embed and rerank with the TEI request format', async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse([[0.5, 0.5]]))
+        .mockResolvedValueOnce(jsonResponse([{ index: 1, score: 0.9 }, { index: 0, score: 0.1 }]));
+      const provider = new TEIProvider(createProviderConfig('tei'));
+
+      expect(await provider.embed(['text'], 'ignored')).toEqual([[0.5, 0.5]]);
+      expect(mockFetch.mock.calls[0][0]).toBe('http://models.test/embed');
+      expect(requestBody(0)).toMatchObject({ inputs: ['text'] });
+
+      expect(await provider.rerank('q', ['a', 'b'], 'ignored')).toEqual([
+        { index: 1, score: 0.9 },
+        { index: 0, score: 0.1 },
+      ]);
+      expect(requestBody(1)).toMatchObject({ query: 'q', texts: ['a', 'b'] });
+    });
+
+    it('should not serve chat', async () => {
+      const provider = new TEIProvider(createProviderConfig('tei'));
+
+      await expect(provider.chat([{ role: 'user', content: 'Hi' }], { model: 'm' })).rejects.toThrow(
+        'does not support chat'
+      );
+    });
+
+    it('should report timeouts in health checks', async () => {
+      mockFetch.mockImplementation((_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal!.addEventListener('abort', () => {
+            reject(Object.assign(new Error('aborted'), { name: 'AbortError' }));
+          });
+        })
+      );
+      const provider = new TEIProvider(createProviderConfig('tei', { timeoutMs: 10 }));
+
+      const health = await provider.healthCheck();
+
+      expect(health.healthy).toBe(false);
+      expect(health.message).toBe('Health check API timed out after 10ms');
+      expect(mockFetch.mock.calls[0][0]).toBe('http://models.test/health');
+    });
+  });
+
+  describe('clients with a provider', () => {
+    it('should send the configured model through the provider', async () => {
+      mockFetch.mockResolvedValue(jsonResponse({ message: { content: 'ok' }, done: true }));
+      const llm = new Qwen3LLM({
+        provider: new OllamaProvider(createProviderConfig('ollama')),
+        model: 'qwen3:32b',
+      });
+
+      expect(await llm.complete([{ role: 'user', content: 'Hi' }])).toBe('ok');
+      expect(requestBody()).toMatchObject({ model: 'qwen3:32b', stream: false });
+    });
+
+    it('should classify provider failures as LLM errors', async () => {
+      mockFetch.mockRejectedValue(new Error('connect ECONNREFUSED'));
+      const llm = new Qwen3LLM({
+        provider: new OpenAICompatibleProvider(createProviderConfig('openai', {
+          retry: { maxRetries: 0, initialDelayMs: 0, maxDelayMs: 0, backoffFactor: 2 },
+        })),
+      });
+
+      const result = await llm.completeWithFallback([{ role: 'user', content: 'Hi' }]);
+
+      expect(result.error?.errorType).toBe('CONNECTION_ERROR');
+    });
+
+    it('should batch embeddings through the provider', async () => {
+      mockFetch.mockImplementation(async (_url: string, init: RequestInit) => {
+        const { inputs } = JSON.parse(init.body as string);
+        return jsonResponse(inputs.map(() => [1]));
+      });
+      const embedder = new Qwen3Embedding({ provider: new TEIProvider(createProviderConfig('tei')) });
+
+      const embeddings = await embedder.getTextEmbeddings(Array.from({ length: 40 }, (_, i) => `text ${i}`));
+
+      expect(embeddings).toHaveLength(40);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+});
+
+// ============================================================================
+// Models Config Tests
+// ============================================================================
+
+describe('parseModelsConfig', () => {
+  it('should resolve providers with env references and defaults', () => {
+    const config = parseModelsConfig(MODELS_FILE, { VLLM_KEY: 'secret' });
+
+    expect(config.providers.find((p) => p.name === 'vllm')).toMatchObject({
+      type: 'openai',
+      baseUrl: 'http://vllm:8000/v1',
+      apiKey: 'secret',
+      timeoutMs: 60000,
+    });
+    expect(config.providers.find((p) => p.name === 'tei')!.retry.maxRetries).toBe(0);
+    expect(config.providers.find((p) => p.name === 'ollama')!.retry.maxRetries).toBe(3);
+    expect(config.roles.embedding).toMatchObject({ provider: 'ollama', dimensions: 1024 });
+  });
+
+  it('should report every invalid field', () => {
+    const invalid = {
+      providers: { vllm: { type: 'grpc', baseUrl: 'not a url' } },
+      roles: { llm: { provider: 'vllm' } },
+    };
+
+    expect(() => parseModelsConfig(invalid, {})).toThrow(ModelsConfigError);
+    expect(() => parseModelsConfig(invalid, {})).toThrow(/providers\.vllm\.type.*providers\.vllm\.baseUrl.*roles\.llm\.model/);
+  });
+});
+
+describe('modelsConfigFromEnv', () => {
+  it('should keep the per-role environment variables working', () => {
+    const config = modelsConfigFromEnv({
+      LLM_BASE_URL: 'http://llm:8000/v1',
+      LLM_MODEL: 'custom-llm',
+      RERANKER_FALLBACK_BASE_URL: 'http://backup:8003/v1',
+    });
+
+    expect(config.providers.map((p) => [p.name, p.baseUrl])).toEqual([
+      ['llm', 'http://llm:8000/v1'],
+      ['embedding', 'http://localhost:8001/v1'],
+      ['reranker', 'http://localhost:8002/v1'],
+      ['rerankerFallback', 'http://backup:8003/v1'],
+    ]);
+    expect(config.roles.llm!.model).toBe('custom-llm');
+    expect(config.roles.rerankerFallback!.model).toBe('Qwen/Qwen3-Reranker-4B');
+  });
+
+  it('should leave the fallback reranker unconfigured by default', () => {
+    expect(modelsConfigFromEnv({}).roles.rerankerFallback).toBeUndefined();
+  });
+});
+
+// ============================================================================
+// ModelRegistry Tests
+// ============================================================================
+
+describe('ModelRegistry', () => {
+  it('should resolve the provider and model for each role', () => {
+    const registry = new ModelRegistry(parseModelsConfig(MODELS_FILE, {}));
+
+    const llm = registry.require('llm');
+    expect(llm.client.type).toBe('openai');
+    expect(llm.model).toBe('Qwen/Qwen3-32B');
+    expect(llm.temperature).toBe(0.2);
+    expect(registry.resolve('rerankerFallback')).toBeNull();
+    expect(registry.rolesFor('tei')).toEqual(['reranker']);
+  });
+
+  it('should reject roles a provider cannot serve', () => {
+    const config = parseModelsConfig({
+      ...MODELS_FILE,
+      roles: { ...MODELS_FILE.roles, reranker: { provider: 'ollama', model: 'm' } },
+    }, {});
+
+    expect(() => new ModelRegistry(config)).toThrow('Role "reranker" needs rerank');
+  });
+
+  it('should reject unknown providers', () => {
+    const config = parseModelsConfig({
+      ...MODELS_FILE,
+      roles: { ...MODELS_FILE.roles, llm: { provider: 'missing', model: 'm' } },
+    }, {});
+
+    expect(() => new ModelRegistry(config)).toThrow('unknown provider "missing"');
+  });
+
+  it('should report health for every configured provider', async () => {
+    const originalFetch = global.fetch;
+    global.fetch = vi.fn(async (url: string) =>
+      url.startsWith('http://ollama') ? jsonResponse({}, 500) : jsonResponse({})
+    ) as unknown as typeof fetch;
+
+    try {
+      const registry = new ModelRegistry(parseModelsConfig(MODELS_FILE, {}));
+      const health = await registry.checkProviders();
+
+      expect(health.map((h) => [h.name, h.healthy, h.roles])).toEqual([
+        ['vllm', true, ['llm']],
+        ['ollama', false, ['embedding']],
+        ['tei', true, ['reranker']],
+      ]);
+    } finally {
+      global.fetch = originalFetch;
+    }
+  });
+});
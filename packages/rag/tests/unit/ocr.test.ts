@@ -0,0 +1,148 @@
+/**
+ * OCR Tests
+ *
+ * Tests for reading Tesseract TSV output and parsing PNG/JPEG images of
+ * notes with an OCR engine.
+ *
+ * @module @jubilant/rag/tests/unit/ocr
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseTesseractTsv, mergeOcrResults, type OcrEngine, type OcrResult } from '../../src/ingestion/parsers/ocr';
+import { ImageParser } from '../../src/ingestion/parsers/image';
+import { classifyParseError } from '../../src/ingestion/parsers';
+import { createChunker } from '../../src/ingestion/chunker';
+
+// ============================================================================
+// Test Data Factories
+// ============================================================================
+
+const TSV_HEADER = 'level\tpage_num\tblock_num\tpar_num\tline_num\tword_num\tleft\ttop\twidth\theight\tconf\ttext';
+
+/**
+ * TSV rows for words: [block, paragraph, line, confidence, text]
+ */
+function createTsv(words: [number, number, number, number, string][]): string {
+  const rows = words.map(
+    ([block, par, line, conf, text], i) => `5\t1\t${block}\t${par}\t${line}\t${i + 1}\t0\t0\t10\t10\t${conf}\t${text}`
+  );
+  // Block-level rows carry conf -1 and no text
+  return [TSV_HEADER, '1\t1\t0\t0\t0\t0\t0\t0\t800\t600\t-1\t', '2\t1\t1\t0\t0\t0\t0\t0\t800\t300\t-1\t', ...rows].join('\n');
+}
+
+function createFakeOcrEngine(result: OcrResult, available = true): OcrEngine {
+  return {
+    name: 'fake',
+    isAvailable: async () => available,
+    recognize: async () => result,
+  };
+}
+
+const PNG = Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]);
+const JPEG = Uint8Array.from([0xff, 0xd8, 0xff, 0xe0, 0, 0x10]);
+
+// ============================================================================
+// Tesseract TSV Tests
+// ============================================================================
+
+describe('parseTesseractTsv', () => {
+  it('should join lines into paragraphs and undo hyphenation', () => {
+    const result = parseTesseractTsv(
+      createTsv([
+        [1, 1, 1, 90, 'Segment'],
+        [1, 1, 1, 90, 'trees'],
+        [1, 1, 1, 90, 'sup-'],
+        [1, 1, 2, 90, 'port'],
+        [1, 1, 2, 90, 'range'],
+        [1, 1, 2, 90, 'queries.'],
+        [1, 2, 1, 90, 'Lazy'],
+        [1, 2, 1, 90, 'propagation.'],
+      ])
+    );
+
+    expect(result.text).toBe('Segment trees support range queries.\n\nLazy propagation.');
+  });
+
+  it('should weight confidence by word length', () => {
+    const result = parseTesseractTsv(
+      createTsv([
+        [1, 1, 1, 90, 'abcdef'],
+        [1, 1, 1, 60, 'xy'],
+      ])
+    );
+
+    expect(result.confidence).toBe(0.825);
+  });
+
+  it('should return no text for blank images', () => {
+    expect(parseTesseractTsv(TSV_HEADER)).toEqual({ text: '', confidence: 0 });
+  });
+
+  it('should merge results of several images', () => {
+    const merged = mergeOcrResults([
+      { text: 'abcd', confidence: 0.9 },
+      { text: 'ef', confidence: 0.6 },
+    ]);
+
+    expect(merged).toEqual({ text: 'abcd\n\nef', confidence: 0.8 });
+  });
+});
+
+// ============================================================================
+// ImageParser Tests
+// ============================================================================
+
+describe('ImageParser', () => {
+  const recognized: OcrResult = {
+    text: 'Union-find with path compression runs in near-constant amortized time.',
+    confidence: 0.73,
+  };
+
+  it('should OCR PNG and JPEG images', async () => {
+    const parser = new ImageParser(createFakeOcrEngine(recognized));
+
+    const png = await parser.parseContent(PNG, '/notes/union-find.png');
+    const jpeg = await parser.parseContent(JPEG, '/notes/union-find.jpg');
+
+    expect(png.content).toBe(`<!-- ocr-confidence: 0.73 -->\n\n${recognized.text}`);
+    expect(png.title).toBe('union find');
+    expect(png.metadata).toMatchObject({ mimeType: 'image/png', ocrConfidence: 0.73 });
+    expect(jpeg.metadata.mimeType).toBe('image/jpeg');
+  });
+
+  it('should record the OCR confidence on chunks', async () => {
+    const parsed = await new ImageParser(createFakeOcrEngine(recognized)).parseContent(PNG, 'notes.png');
+
+    const chunks = createChunker().chunk(parsed.content, {
+      documentId: 'doc-1',
+      documentTitle: parsed.title,
+      documentUrl: 'notes.png',
+    });
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].content).toBe(recognized.text);
+    expect(chunks[0].metadata.ocrConfidence).toBe(0.73);
+  });
+
+  it('should reject files that are not images', async () => {
+    const parser = new ImageParser(createFakeOcrEngine(recognized));
+
+    await expect(parser.parseContent(Uint8Array.from(Buffer.from('%PDF-1.4')), 'notes.png')).rejects.toThrow(
+      'not a PNG or JPEG image'
+    );
+  });
+
+  it('should reject images when OCR is unavailable', async () => {
+    for (const engine of [null, createFakeOcrEngine(recognized, false)]) {
+      const error = await new ImageParser(engine).parseContent(PNG, 'notes.png').catch((e) => e);
+      expect(classifyParseError(error, 'notes.png').type).toBe('UNSUPPORTED_FORMAT');
+    }
+  });
+
+  it('should reject images with too little text', async () => {
+    const parser = new ImageParser(createFakeOcrEngine({ text: 'x = 1', confidence: 0.4 }));
+
+    const error = await parser.parseContent(PNG, 'doodle.png').catch((e) => e);
+    expect(classifyParseError(error, 'doodle.png').type).toBe('INSUFFICIENT_TEXT');
+  });
+});
@@ -194,6 +194,23 @@ describe('classifyParseError', () => {
     });
   });
 
+  describe('Insufficient text errors', () => {
+    it('should classify scans without readable text as INSUFFICIENT_TEXT', () => {
+      const error = new Error('Insufficient text: scan.pdf yields 3 characters of text');
+      const result = classifyParseError(error, 'scan.pdf');
+
+      expect(result.type).toBe('INSUFFICIENT_TEXT');
+      expect(result.message).toContain('too little text');
+    });
+
+    it('should classify a missing OCR engine as UNSUPPORTED_FORMAT', () => {
+      const error = new Error('OCR is not available to read notes.png (install Tesseract or set TESSERACT_PATH)');
+      const result = classifyParseError(error, 'notes.png');
+
+      expect(result.type).toBe('UNSUPPORTED_FORMAT');
+    });
+  });
+
   describe('Unknown errors', () => {
     it('should classify unrecognized errors as UNKNOWN_ERROR', () => {
       const error = new Error('Some random error');
@@ -247,6 +264,20 @@ describe('detectFormat', () => {
     expect(detectFormat('document.txt')).toBe('text');
   });
 
+  it('should detect structured formats', () => {
+    expect(detectFormat('handout.docx')).toBe('docx');
+    expect(detectFormat('editorial.html')).toBe('html');
+    expect(detectFormat('editorial.htm')).toBe('html');
+    expect(detectFormat('segment-tree.ipynb')).toBe('notebook');
+    expect(detectFormat('range-sum.zip')).toBe('problem');
+  });
+
+  it('should detect images', () => {
+    expect(detectFormat('notes.png')).toBe('image');
+    expect(detectFormat('whiteboard.jpg')).toBe('image');
+    expect(detectFormat('whiteboard.JPEG')).toBe('image');
+  });
+
   it('should default to text for unknown extensions', () => {
     expect(detectFormat('document.xyz')).toBe('text');
     expect(detectFormat('document')).toBe('text');
@@ -327,20 +358,35 @@ describe('FR-012: Supported Document Formats', () => {
       expect(isFormatSupported('text')).toBe(true);
     });
 
+    it('should support DOCX, HTML and notebook formats', () => {
+      expect(isFormatSupported('docx')).toBe(true);
+      expect(isFormatSupported('html')).toBe(true);
+      expect(isFormatSupported('notebook')).toBe(true);
+    });
+
+    it('should support images', () => {
+      expect(isFormatSupported('image')).toBe(true);
+    });
+
     it('should reject unsupported formats', () => {
-      expect(isFormatSupported('docx')).toBe(false);
-      expect(isFormatSupported('html')).toBe(false);
+      expect(isFormatSupported('rtf')).toBe(false);
+      expect(isFormatSupported('epub')).toBe(false);
     });
   });
 
   describe('getSupportedFormats', () => {
-    it('should return all three required formats', () => {
+    it('should return the required and structured formats', () => {
       const formats = getSupportedFormats();
 
       expect(formats).toContain('markdown');
       expect(formats).toContain('pdf');
       expect(formats).toContain('text');
-      expect(formats).toHaveLength(3);
+      expect(formats).toContain('docx');
+      expect(formats).toContain('html');
+      expect(formats).toContain('notebook');
+      expect(formats).toContain('problem');
+      expect(formats).toContain('image');
+      expect(formats).toHaveLength(8);
     });
   });
 
@@ -367,7 +413,7 @@ describe('FR-012: Supported Document Formats', () => {
     });
 
     it('should throw for unsupported formats', () => {
-      expect(() => getParser('docx' as DocumentFormat)).toThrow(
+      expect(() => getParser('rtf' as DocumentFormat)).toThrow(
         'Unsupported document format'
       );
     });
@@ -388,11 +434,12 @@ describe('DocumentParseErrorType coverage', () => {
     'EMPTY_DOCUMENT',
     'UNSUPPORTED_FORMAT',
     'NETWORK_ERROR',
+    'INSUFFICIENT_TEXT',
     'UNKNOWN_ERROR',
   ];
 
-  it('should have 9 error types', () => {
-    expect(allErrorTypes).toHaveLength(9);
+  it('should have 10 error types', () => {
+    expect(allErrorTypes).toHaveLength(10);
   });
 
   it('should be able to create DocumentParseError with each type', () => {
@@ -0,0 +1,405 @@
+/**
+ * PDF Parser Tests
+ *
+ * Tests for PDF text extraction and layout: page markers, headings,
+ * running headers and footers, two-column reading order, code blocks,
+ * font encodings (including predefined CJK CMaps), encryption and OCR of
+ * scanned pages.
+ *
+ * @module @jubilant/rag/tests/unit/pdf-parser
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createHash } from 'crypto';
+import { deflateSync } from 'zlib';
+import { PDFParser } from '../../src/ingestion/parsers/pdf';
+import { PdfDocument, type PdfPage, type PdfTextItem } from '../../src/ingestion/parsers/pdf-content';
+import { layoutPages } from '../../src/ingestion/parsers/pdf-layout';
+import type { OcrEngine, OcrResult } from '../../src/ingestion/parsers/ocr';
+import { classifyParseError } from '../../src/ingestion/parsers';
+
+// ============================================================================
+// Test Data Factories
+// ============================================================================
+
+const PASSWORD_PADDING = Buffer.from(
+  '28bf4e5e4e758a4164004e56fffa01082e2e00b6d0683e802f0ca9fe6453697a',
+  'hex'
+);
+
+function md5(...parts: Uint8Array[]): Buffer {
+  const hash = createHash('md5');
+  parts.forEach((part) => hash.update(part));
+  return hash.digest();
+}
+
+function rc4(key: Uint8Array, data: Uint8Array): Buffer {
+  const state = Array.from({ length: 256 }, (_, i) => i);
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + state[i] + key[i % key.length]) & 0xff;
+    [state[i], state[j]] = [state[j], state[i]];
+  }
+  const out = Buffer.alloc(data.length);
+  for (let n = 0, i = 0, j = 0; n < data.length; n++) {
+    i = (i + 1) & 0xff;
+    j = (j + state[i]) & 0xff;
+    [state[i], state[j]] = [state[j], state[i]];
+    out[n] = data[n] ^ state[(state[i] + state[j]) & 0xff];
+  }
+  return out;
+}
+
+/**
+ * Standard security handler, revision 2 (40-bit RC4)
+ *
+ * @returns Trailer entries and the key for each object's streams
+ */
+function encryption(userPassword: string) {
+  const pad = (password: string) =>
+    Buffer.concat([Buffer.from(password, 'latin1'), PASSWORD_PADDING]).subarray(0, 32);
+  const id = Buffer.from('0123456789abcdef');
+  const permissions = Buffer.alloc(4);
+  permissions.writeInt32LE(-4);
+
+  const owner = rc4(md5(pad('owner')).subarray(0, 5), pad(userPassword));
+  const key = md5(pad(userPassword), owner, permissions, id).subarray(0, 5);
+  const user = rc4(key, PASSWORD_PADDING);
+
+  return {
+    trailer: ` /Encrypt << /Filter /Standard /V 1 /R 2 /O <${owner.toString('hex')}> /U <${user.toString('hex')}> /P -4 >> /ID [<${id.toString('hex')}> <${id.toString('hex')}>]`,
+    objectKey: (num: number) =>
+      md5(key, Buffer.from([num & 0xff, (num >> 8) & 0xff, (num >> 16) & 0xff, 0, 0])).subarray(0, 10),
+  };
+}
+
+/**
+ * Build a PDF from page content streams. Fonts: F1 Helvetica, F2
+ * Helvetica-Bold, F3 Courier, F4 a Type0 font mapping codes 1-3 to A-C,
+ * F5 STSong-Light with the predefined UniGB-UCS2-H CMap, F6 a Type0 font
+ * with no Unicode mapping; Im1 is a 120x120 gray image.
+ */
+function createPdf(
+  pages: string[],
+  options: { title?: string; deflate?: boolean; userPassword?: string } = {}
+): Uint8Array {
+  const objects: Array<{ dict: string; stream?: string }> = [];
+  // Returns the new object's number
+  const add = (dict: string, stream?: string) => objects.push({ dict, stream });
+
+  const fontBase = 3;
+  add('<< /Type /Catalog /Pages 2 0 R >>');
+  add(''); // Pages, filled in below
+  add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>');
+  add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold >>');
+  add('<< /Type /Font /Subtype /Type1 /BaseFont /Courier >>');
+  const cmap = [
+    '/CIDInit /ProcSet findresource begin 12 dict begin begincmap',
+    '1 begincodespacerange <0000> <FFFF> endcodespacerange',
+    '1 beginbfrange <0001> <0003> <0041> endbfrange',
+    'endcmap CMapName currentdict /CMap defineresource pop end end',
+  ].join('\n');
+  add('', cmap);
+  add(`<< /Type /Font /Subtype /Type0 /BaseFont /Custom /Encoding /Identity-H /DescendantFonts [${fontBase + 5} 0 R] /ToUnicode ${fontBase + 3} 0 R >>`);
+  add('<< /Type /Font /Subtype /CIDFontType2 /BaseFont /Custom /DW 600 >>');
+  add(`<< /Type /Font /Subtype /Type0 /BaseFont /STSong-Light /Encoding /UniGB-UCS2-H /DescendantFonts [${fontBase + 7} 0 R] >>`);
+  add(`<< /Type /Font /Subtype /CIDFontType0 /BaseFont /STSong-Light /CIDSystemInfo << /Registry (Adobe) /Ordering (GB1) /Supplement 4 >> /FontDescriptor ${fontBase + 8} 0 R /DW 1000 >>`);
+  add('<< /Type /FontDescriptor /FontName /STSong-Light /Flags 6 /FontBBox [-25 -254 1000 880] /ItalicAngle 0 /Ascent 880 /Descent -120 /CapHeight 880 /StemV 93 >>');
+  add(`<< /Type /Font /Subtype /Type0 /BaseFont /Subset /Encoding /Identity-H /DescendantFonts [${fontBase + 10} 0 R] >>`);
+  add(`<< /Type /Font /Subtype /CIDFontType2 /BaseFont /Subset /CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> /FontDescriptor ${fontBase + 11} 0 R /DW 600 >>`);
+  add('<< /Type /FontDescriptor /FontName /Subset /Flags 4 /FontBBox [0 -200 1000 900] /ItalicAngle 0 /Ascent 900 /Descent -200 /CapHeight 700 /StemV 80 >>');
+  const fonts = [1, 2, 3, 5, 7, 10]
+    .map((n, i) => `/F${i + 1} ${fontBase + n - 1} 0 R`)
+    .join(' ');
+  const pixels = deflateSync(Buffer.alloc(120 * 120, 0xff)).toString('latin1');
+  const imageNum = add(
+    '<< /Type /XObject /Subtype /Image /Width 120 /Height 120 /ColorSpace /DeviceGray /BitsPerComponent 8 /Filter /FlateDecode >>',
+    pixels
+  );
+
+  const pageRefs: string[] = [];
+  for (const content of pages) {
+    const data = options.deflate ? deflateSync(Buffer.from(content, 'latin1')).toString('latin1') : content;
+    const contentNum = add(options.deflate ? '<< /Filter /FlateDecode >>' : '', data);
+    const pageNum = add(`<< /Type /Page /Parent 2 0 R /Contents ${contentNum} 0 R >>`);
+    pageRefs.push(`${pageNum} 0 R`);
+  }
+  objects[1].dict = `<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${pages.length} /MediaBox [0 0 612 792] /Resources << /Font << ${fonts} >> /XObject << /Im1 ${imageNum} 0 R >> >> >>`;
+
+  const infoNum = options.title ? add(`<< /Title (${options.title}) >>`) : 0;
+  const encrypt = options.userPassword !== undefined ? encryption(options.userPassword) : null;
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach(({ dict, stream }, i) => {
+    offsets.push(pdf.length);
+    let body = dict;
+    if (stream !== undefined) {
+      const data = encrypt ? rc4(encrypt.objectKey(i + 1), Buffer.from(stream, 'latin1')).toString('latin1') : stream;
+      body = `<< /Length ${data.length} ${dict.replace(/^<<|>>$/g, '')} >>\nstream\n${data}\nendstream`;
+    }
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((o) => `${String(o).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R${infoNum ? ` /Info ${infoNum} 0 R` : ''}${encrypt?.trailer ?? ''} >>\n`;
+  pdf += `startxref\n${xref}\n%%EOF\n`;
+
+  return Uint8Array.from(Buffer.from(pdf, 'latin1'));
+}
+
+/**
+ * Content stream showing one line of text
+ */
+function text(x: number, y: number, str: string, font = 'F1', size = 10): string {
+  return `BT /${font} ${size} Tf ${x} ${y} Td (${str}) Tj ET\n`;
+}
+
+/**
+ * A positioned text run for layout tests
+ */
+function item(x: number, y: number, str: string, overrides: Partial<PdfTextItem> = {}): PdfTextItem {
+  const fontSize = overrides.fontSize ?? 10;
+  return { text: str, x, y, width: str.length * fontSize * 0.5, fontSize, bold: false, monospace: false, ...overrides };
+}
+
+function page(number: number, items: PdfTextItem[]): PdfPage {
+  return { number, box: [0, 0, 612, 792], items, images: [], unmappedChars: 0 };
+}
+
+/**
+ * OCR engine returning a fixed result and recording the images it gets
+ */
+function createFakeOcrEngine(result: OcrResult, available = true): OcrEngine & { images: Uint8Array[] } {
+  const images: Uint8Array[] = [];
+  return {
+    name: 'fake',
+    images,
+    isAvailable: async () => available,
+    recognize: async (image) => {
+      images.push(image);
+      return result;
+    },
+  };
+}
+
+const SCANNED_PAGE = 'q 612 0 0 792 0 0 cm /Im1 Do Q';
+
+// ============================================================================
+// PDFParser Tests
+// ============================================================================
+
+describe('PDFParser', () => {
+  const parser = new PDFParser(null);
+  const runningHeader = (n: number) => text(72, 760, 'Graph Algorithms Notes', 'F1', 8) + text(300, 40, String(n), 'F1', 8);
+
+  const pdf = createPdf(
+    [
+      runningHeader(1) +
+        text(72, 700, 'Shortest Paths', 'F2', 18) +
+        text(72, 670, 'Dijkstra computes single-source distances using a pri-') +
+        text(72, 658, 'ority queue over tentative distances.') +
+        text(72, 630, 'Relaxation never decreases a settled distance.'),
+      runningHeader(2) +
+        text(72, 700, '2.1 Implementation', 'F2', 10) +
+        text(72, 680, 'while (!pq.empty()) {', 'F3') +
+        text(96, 668, 'auto [d, u] = pq.top();', 'F3') +
+        text(72, 656, '}', 'F3') +
+        text(72, 630, 'Each edge is relaxed at most once.'),
+    ],
+    { title: 'Dijkstra Handout' }
+  );
+
+  it('should keep page boundaries and report the real page count', async () => {
+    const parsed = await parser.parseContent(pdf, '/docs/dijkstra.pdf');
+
+    expect(parsed.title).toBe('Dijkstra Handout');
+    expect(parsed.metadata.pageCount).toBe(2);
+    expect(parsed.content.indexOf('<!-- page: 1 -->')).toBe(0);
+    expect(parsed.content.indexOf('<!-- page: 2 -->')).toBeGreaterThan(parsed.content.indexOf('Relaxation'));
+  });
+
+  it('should detect headings and join wrapped lines', async () => {
+    const { content } = await parser.parseContent(pdf, '/docs/dijkstra.pdf');
+
+    expect(content).toContain('# Shortest Paths');
+    expect(content).toContain('### 2.1 Implementation');
+    expect(content).toContain('distances using a priority queue over tentative distances.');
+    expect(content).toContain('\n\nRelaxation never decreases a settled distance.');
+  });
+
+  it('should strip running headers and page numbers', async () => {
+    const { content } = await parser.parseContent(pdf, '/docs/dijkstra.pdf');
+
+    expect(content).not.toContain('Graph Algorithms Notes');
+    expect(content).not.toMatch(/^\d+$/m);
+  });
+
+  it('should turn monospace lines into code blocks with indentation', async () => {
+    const { content } = await parser.parseContent(pdf, '/docs/dijkstra.pdf');
+
+    expect(content).toContain('```\nwhile (!pq.empty()) {\n    auto [d, u] = pq.top();\n}\n```');
+  });
+
+  it('should read compressed streams and ToUnicode CMaps', async () => {
+    const compressed = createPdf(
+      ['BT /F4 10 Tf 72 700 Td <000100020003> Tj ET ' + text(72, 680, 'Binary search on the answer.')],
+      { deflate: true }
+    );
+    const { content, title } = await parser.parseContent(compressed, '/docs/lecture-notes.pdf');
+
+    expect(content).toBe('<!-- page: 1 -->\n\nABC\n\nBinary search on the answer.');
+    expect(title).toBe('lecture notes');
+  });
+
+  it('should decode CJK text through predefined CMaps', async () => {
+    const cjk = createPdf([
+      'BT /F5 10 Tf 72 700 Td <4E2D658776844F8B5B50> Tj ET ' + text(72, 680, 'Ruby notes in Chinese.'),
+    ]);
+    const { content } = await parser.parseContent(cjk, '/docs/ppl2019.pdf');
+
+    expect(content).toBe('<!-- page: 1 -->\n\n中文的例子\n\nRuby notes in Chinese.');
+  });
+
+  it('should reject text in fonts with no Unicode mapping', async () => {
+    const unmapped = createPdf(['BT /F6 10 Tf 72 700 Td <0001000200030004000500060007000800090010> Tj ET ' + text(72, 680, 'Ok')]);
+
+    const error = await parser.parseContent(unmapped, 'subset.pdf').catch((e) => e);
+    expect(classifyParseError(error, 'subset.pdf').type).toBe('ENCODING_ERROR');
+  });
+
+  it('should read encrypted files that open without a password', async () => {
+    const encrypted = createPdf([text(72, 700, 'Secret notes about maximum flows.')], { userPassword: '' });
+    const { content } = await parser.parseContent(encrypted, 'secret.pdf');
+
+    expect(content).toBe('<!-- page: 1 -->\n\nSecret notes about maximum flows.');
+  });
+
+  it('should reject password-protected and malformed files', async () => {
+    const encrypted = createPdf([text(72, 700, 'Secret notes about maximum flows.')], { userPassword: 'hunter2' });
+    await expect(parser.parseContent(encrypted, 'secret.pdf')).rejects.toThrow('Encrypted');
+
+    const error = await parser.parseContent(Uint8Array.from(Buffer.from('not a pdf')), 'bad.pdf').catch((e) => e);
+    expect(classifyParseError(error, 'bad.pdf').type).toBe('CORRUPT_FILE');
+  });
+
+  it('should reject PDFs that yield too little text', async () => {
+    const blank = createPdf(['q 612 0 0 792 0 0 cm Q']);
+
+    const error = await parser.parseContent(blank, 'blank.pdf').catch((e) => e);
+    expect(classifyParseError(error, 'blank.pdf').type).toBe('INSUFFICIENT_TEXT');
+  });
+
+  it('should say when scanned pages need OCR', async () => {
+    const scanned = createPdf([SCANNED_PAGE]);
+
+    const error = await parser.parseContent(scanned, 'scan.pdf').catch((e) => e);
+    expect(classifyParseError(error, 'scan.pdf').type).toBe('INSUFFICIENT_TEXT');
+    expect(error.message).toContain('Tesseract');
+  });
+});
+
+describe('PDFParser OCR', () => {
+  const recognized: OcrResult = {
+    text: 'Handwritten proof that the greedy choice is safe.',
+    confidence: 0.82,
+  };
+
+  it('should OCR image-only pages and mark their confidence', async () => {
+    const engine = createFakeOcrEngine(recognized);
+    const pdf = createPdf([text(72, 700, 'Typed page about matroids and exchange.'), SCANNED_PAGE]);
+
+    const parsed = await new PDFParser(engine).parseContent(pdf, 'mixed.pdf');
+
+    expect(parsed.content).toBe(
+      '<!-- page: 1 -->\n\nTyped page about matroids and exchange.\n\n' +
+        '<!-- page: 2 -->\n\n<!-- ocr-confidence: 0.82 -->\n\n' +
+        recognized.text
+    );
+    expect(parsed.metadata.ocrPageCount).toBe(1);
+    expect(parsed.metadata.ocrConfidence).toBe(0.82);
+  });
+
+  it('should send scanned images to the engine as PNG', async () => {
+    const engine = createFakeOcrEngine(recognized);
+    await new PDFParser(engine).parseContent(createPdf([SCANNED_PAGE]), 'scan.pdf');
+
+    expect(engine.images).toHaveLength(1);
+    const png = Buffer.from(engine.images[0]);
+    expect(png.subarray(1, 4).toString('latin1')).toBe('PNG');
+    // IHDR width and height
+    expect([png.readUInt32BE(16), png.readUInt32BE(20)]).toEqual([120, 120]);
+  });
+
+  it('should not OCR pages that have a text layer', async () => {
+    const engine = createFakeOcrEngine(recognized);
+    const pdf = createPdf([SCANNED_PAGE + '\n' + text(72, 700, 'A figure with a long typed caption.')]);
+
+    await new PDFParser(engine).parseContent(pdf, 'figure.pdf');
+
+    expect(engine.images).toHaveLength(0);
+  });
+
+  it('should treat an unavailable engine like no engine', async () => {
+    const engine = createFakeOcrEngine(recognized, false);
+
+    const error = await new PDFParser(engine).parseContent(createPdf([SCANNED_PAGE]), 'scan.pdf').catch((e) => e);
+    expect(classifyParseError(error, 'scan.pdf').type).toBe('INSUFFICIENT_TEXT');
+    expect(engine.images).toHaveLength(0);
+  });
+});
+
+// ============================================================================
+// PdfDocument Tests
+// ============================================================================
+
+describe('PdfDocument', () => {
+  it('should position text runs with TJ kerning as word spaces', async () => {
+    const pdf = createPdf(['BT /F1 10 Tf 1 0 0 1 100 500 Tm [(Max) -300 (flow)] TJ 0 -14 Td (cut) Tj ET']);
+    const document = await PdfDocument.open(pdf);
+    const [first] = await document.extractPages();
+    await document.close();
+
+    expect(first.items.map((i) => [i.text, i.x, i.y])).toEqual([
+      ['Max flow', 100, 500],
+      ['cut', 100, 486],
+    ]);
+  });
+});
+
+// ============================================================================
+// Layout Tests
+// ============================================================================
+
+describe('layoutPages', () => {
+  it('should read two-column pages column by column', () => {
+    const left = ['Left column one', 'Left column two', 'Left column three'];
+    const right = ['Right column one', 'Right column two', 'Right column three'];
+    const items = [
+      item(72, 740, 'A Two Column Paper', { fontSize: 16, width: 200 }),
+      ...left.map((t, i) => item(72, 700 - i * 12, t, { width: 220 })),
+      ...right.map((t, i) => item(320, 700 - i * 12, t, { width: 220 })),
+    ];
+
+    const content = layoutPages([page(1, items)]);
+
+    expect(content).toBe(
+      '<!-- page: 1 -->\n\n# A Two Column Paper\n\n' +
+        'Left column one Left column two Left column three\n\n' +
+        'Right column one Right column two Right column three'
+    );
+  });
+
+  it('should mark superscripts and subscripts', () => {
+    const content = layoutPages([
+      page(1, [
+        item(72, 700, 'O(n', { width: 15 }),
+        item(87, 704, '2', { fontSize: 7, width: 4 }),
+        item(91, 700, ') pairs a', { width: 40 }),
+        item(131, 697, 'i', { fontSize: 7, width: 3 }),
+      ]),
+    ]);
+
+    expect(content).toContain('O(n^2) pairs a_i');
+  });
+});
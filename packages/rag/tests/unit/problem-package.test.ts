@@ -0,0 +1,253 @@
+/**
+ * Problem Package Tests
+ *
+ * Tests for importing competitive programming problem packages: section
+ * typing of statements, samples and solutions, reading directories and
+ * ZIP archives, and detecting practice problem queries.
+ *
+ * @module @jubilant/rag/tests/unit/problem-package
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtemp, mkdir, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ProblemParser, problemSectionType } from '../../src/ingestion/parsers/problem';
+import { ContentAwareChunker } from '../../src/ingestion/chunker';
+import { isPracticeProblemQuery, practiceProblemTopic } from '../../src/retrieval/graph';
+
+// ============================================================================
+// Test Data Factories
+// ============================================================================
+
+const STATEMENT = `---
+title: Range Sum Queries
+tags: [Segment Tree, prefix sums]
+difficulty: 1600
+time_limit: 2 seconds
+---
+
+# Range Sum
+
+You are given an array of $n$ integers and $q$ queries.
+
+## Input
+
+The first line contains $n$ and $q$.
+
+## Output
+
+Print the answer to each query.
+
+## Constraints
+
+- $1 \\le n, q \\le 2 \\cdot 10^5$
+
+## Note
+
+Use 64-bit integers.
+`;
+
+function createPackage(overrides: Record<string, string> = {}): Map<string, string> {
+  return new Map(
+    Object.entries({
+      'statement.md': STATEMENT,
+      'samples/1.in': '3 1\n1 2 3\n1 3\n',
+      'samples/1.out': '6\n',
+      'samples/2.in': '1 1\n5\n1 1\n',
+      'samples/2.ans': '5\n',
+      'editorial.md': '# Editorial\n\n## Idea\n\nBuild a segment tree over the array.',
+      'solution.cpp': 'int main() { return 0; }\n',
+      ...overrides,
+    })
+  );
+}
+
+/**
+ * Build an uncompressed ZIP archive
+ */
+function createZip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name, 'utf8');
+    const data = Buffer.from(content, 'utf8');
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const centralSize = centrals.reduce((sum, b) => sum + b.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, ...centrals, end]);
+}
+
+// ============================================================================
+// ProblemParser Tests
+// ============================================================================
+
+describe('ProblemParser', () => {
+  const parser = new ProblemParser();
+  let tempDir: string | undefined;
+
+  afterEach(async () => {
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true });
+      tempDir = undefined;
+    }
+  });
+
+  it('should split the package into canonical sections', () => {
+    const doc = parser.parseContent(createPackage(), '/problems/range-sum');
+
+    expect(doc.format).toBe('problem');
+    expect(doc.title).toBe('Range Sum Queries');
+    expect(doc.content.match(/^## .+$/gm)).toEqual([
+      '## Statement',
+      '## Input',
+      '## Output',
+      '## Constraints',
+      '## Samples',
+      '## Notes',
+      '## Editorial',
+      '## Solution',
+    ]);
+    expect(doc.content).toContain('Time limit: 2 seconds');
+    expect(doc.content).toContain('**Sample 2**\n\nInput:\n\n```text\n1 1\n5\n1 1\n```\n\nOutput:\n\n```text\n5\n```');
+    expect(doc.content).toContain('**Idea**\n\nBuild a segment tree');
+    expect(doc.content).toContain('```cpp\nint main() { return 0; }\n```');
+  });
+
+  it('should record problem properties', () => {
+    const doc = parser.parseContent(createPackage(), '/problems/range-sum');
+
+    expect(doc.metadata.problem).toEqual({
+      slug: 'range-sum',
+      title: 'Range Sum Queries',
+      tags: ['Segment Tree', 'prefix sums'],
+      difficulty: '1600',
+      timeLimit: '2 seconds',
+      memoryLimit: undefined,
+      source: undefined,
+      sampleCount: 2,
+      solutionLanguages: ['cpp'],
+      sections: ['statement', 'input', 'output', 'constraints', 'samples', 'notes', 'editorial', 'solution'],
+    });
+  });
+
+  it('should read properties from problem.json', () => {
+    const doc = parser.parseContent(
+      createPackage({
+        'statement.md': 'Count inversions in the array.',
+        'problem.json': JSON.stringify({ title: 'Inversions', tags: 'merge sort, BIT', memory_limit: '256 MB' }),
+      }),
+      'inversions.zip'
+    );
+
+    expect(doc.title).toBe('Inversions');
+    expect(doc.metadata.problem).toMatchObject({
+      slug: 'inversions',
+      tags: ['merge sort', 'BIT'],
+      memoryLimit: '256 MB',
+    });
+  });
+
+  it('should produce one typed chunk per section', () => {
+    const doc = parser.parseContent(createPackage(), '/problems/range-sum');
+    const chunks = new ContentAwareChunker().chunk(doc.content, {
+      documentId: 'doc-1',
+      documentTitle: doc.title,
+      documentUrl: doc.url,
+    });
+
+    const types = chunks.map((c) => problemSectionType(c.metadata.sectionHeader));
+    expect(types).toEqual(['statement', 'input', 'output', 'constraints', 'samples', 'notes', 'editorial', 'solution']);
+    expect(chunks[4].content).toContain('```text\n3 1\n1 2 3\n1 3\n```');
+  });
+
+  it('should reject packages without a statement', () => {
+    expect(() => parser.parseContent(new Map([['editorial.md', 'Idea']]), 'bad.zip')).toThrow(
+      'Invalid format'
+    );
+    expect(() =>
+      parser.parseContent(new Map([['statement.md', '## Input\n\nn']]), 'empty')
+    ).toThrow('empty problem statement');
+  });
+
+  it('should read a package directory', async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'problem-'));
+    await mkdir(join(tempDir, 'samples'));
+    await mkdir(join(tempDir, 'tests'));
+    await writeFile(join(tempDir, 'statement.md'), '# Two Sum\n\nFind two numbers with sum $k$.');
+    await writeFile(join(tempDir, 'samples', '01.in'), '2 3\n1 2\n');
+    await writeFile(join(tempDir, 'samples', '01.out'), 'YES\n');
+    await writeFile(join(tempDir, 'tests', '50.in'), '9'.repeat(1000));
+    await writeFile(join(tempDir, 'solution.py'), 'print("YES")\n');
+
+    const doc = await parser.parse(tempDir);
+
+    expect(doc.title).toBe('Two Sum');
+    expect(doc.content).toContain('## Samples');
+    expect(doc.content).toContain('```python\nprint("YES")\n```');
+    expect(doc.content).not.toContain('9999');
+  });
+
+  it('should read a ZIP archive with a top-level folder', async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'problem-'));
+    const archive = join(tempDir, 'two-sum.zip');
+    await writeFile(
+      archive,
+      createZip({
+        'two-sum/statement.md': 'Find two numbers with sum $k$.\n\n## Output\n\nYES or NO.',
+        'two-sum/samples/1.in': '2 3\n1 2\n',
+        'two-sum/samples/1.out': 'YES\n',
+      })
+    );
+
+    const doc = await parser.parse(archive);
+
+    expect(doc.title).toBe('two sum');
+    expect(doc.metadata.problem).toMatchObject({ slug: 'two-sum', sampleCount: 1 });
+    expect(doc.content).toContain('## Output\n\nYES or NO.');
+  });
+});
+
+// ============================================================================
+// Practice Problem Query Tests
+// ============================================================================
+
+describe('practice problem queries', () => {
+  it('should detect requests for practice problems', () => {
+    expect(isPracticeProblemQuery('show me a practice problem on segment trees')).toBe(true);
+    expect(isPracticeProblemQuery('Any problems about Dijkstra?')).toBe(true);
+    expect(isPracticeProblemQuery('给我一道线段树的练习题')).toBe(true);
+    expect(isPracticeProblemQuery('What is a segment tree?')).toBe(false);
+  });
+
+  it('should extract the topic of the request', () => {
+    expect(practiceProblemTopic('show me a practice problem on segment trees')).toBe('segment trees');
+    expect(practiceProblemTopic('Give me some exercises using binary search?')).toBe('binary search');
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Prometheus Metrics Tests
+ *
+ * Tests for the metrics registry, the text exposition format, and the
+ * stage latency and LLM token/error metrics recorded by the pipeline.
+ *
+ * @module @jubilant/rag/tests/unit/prometheus
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  MetricsRegistry,
+  getMetricsRegistry,
+  setMetricsRegistry,
+} from '../../src/monitoring/prometheus';
+import { StageTimer } from '../../src/retrieval/metrics';
+import { Qwen3LLM } from '../../src/generation/llm';
+import type { ModelProvider } from '../../src/providers/http';
+
+// ============================================================================
+// Test Data Factories
+// ============================================================================
+
+function createProvider(overrides: Partial<ModelProvider> = {}): ModelProvider {
+  return {
+    name: 'test',
+    type: 'openai',
+    baseUrl: 'http://localhost',
+    capabilities: ['chat'],
+    chat: vi.fn(async () => 'Twelve chars'),
+    chatStream: vi.fn(async function* () {
+      yield 'Four';
+      yield ' more';
+    }),
+    embed: vi.fn(),
+    rerank: vi.fn(),
+    healthCheck: vi.fn(),
+    ...overrides,
+  };
+}
+
+// ============================================================================
+// MetricsRegistry Tests
+// ============================================================================
+
+describe('MetricsRegistry', () => {
+  it('should render counters and gauges with escaped labels', () => {
+    const registry = new MetricsRegistry();
+    registry.counter('requests_total', 'Requests', ['route']).inc({ route: '/a"b' }, 2);
+    registry.gauge('queue_size', 'Queued requests').set({}, 3);
+
+    expect(registry.render()).toBe(
+      '# HELP requests_total Requests\n' +
+      '# TYPE requests_total counter\n' +
+      'requests_total{route="/a\\"b"} 2\n' +
+      '# HELP queue_size Queued requests\n' +
+      '# TYPE queue_size gauge\n' +
+      'queue_size 3\n'
+    );
+  });
+
+  it('should render cumulative histogram buckets', () => {
+    const registry = new MetricsRegistry();
+    const histogram = registry.histogram('latency_seconds', 'Latency', ['stage'], [0.1, 1]);
+    histogram.observe({ stage: 'rerank' }, 0.05);
+    histogram.observe({ stage: 'rerank' }, 0.5);
+    histogram.observe({ stage: 'rerank' }, 2);
+
+    const lines = registry.render().split('\n');
+
+    expect(lines).toContain('latency_seconds_bucket{stage="rerank",le="0.1"} 1');
+    expect(lines).toContain('latency_seconds_bucket{stage="rerank",le="1"} 2');
+    expect(lines).toContain('latency_seconds_bucket{stage="rerank",le="+Inf"} 3');
+    expect(lines).toContain('latency_seconds_sum{stage="rerank"} 2.55');
+    expect(lines).toContain('latency_seconds_count{stage="rerank"} 3');
+  });
+
+  it('should return the existing metric for a name and reject type conflicts', () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.counter('jobs', 'Jobs');
+
+    expect(registry.counter('jobs', 'Jobs')).toBe(counter);
+    expect(() => registry.gauge('jobs', 'Jobs')).toThrow('already registered as a counter');
+    expect(() => counter.inc({}, -1)).toThrow('cannot decrease');
+  });
+});
+
+// ============================================================================
+// Pipeline Metrics Tests
+// ============================================================================
+
+describe('pipeline metrics', () => {
+  let registry: MetricsRegistry;
+
+  beforeEach(() => {
+    registry = new MetricsRegistry();
+    setMetricsRegistry(registry);
+  });
+
+  it('should observe stage durations from StageTimer', () => {
+    const timer = new StageTimer();
+    timer.start('rerank');
+    timer.stop('rerank');
+    timer.record('vectorSearch', 120);
+
+    const histogram = getMetricsRegistry().histogram('rag_stage_duration_seconds', '', ['stage']);
+    expect(histogram.getCount({ stage: 'rerank' })).toBe(1);
+    expect(histogram.getCount({ stage: 'vectorSearch' })).toBe(1);
+    expect(timer.getDuration('vectorSearch')).toBe(120);
+  });
+
+  it('should count LLM tokens for complete and streamed responses', async () => {
+    const llm = new Qwen3LLM({ model: 'qwen', provider: createProvider() });
+    const messages = [{ role: 'user' as const, content: 'Sixteen chars!!!' }];
+
+    await llm.complete(messages);
+    for await (const chunk of llm.stream(messages)) {
+      void chunk;
+    }
+
+    const tokens = registry.counter('rag_llm_tokens_total', '', ['model', 'kind']);
+    expect(tokens.get({ model: 'qwen', kind: 'prompt' })).toBe(8);
+    expect(tokens.get({ model: 'qwen', kind: 'completion' })).toBe(3 + 3);
+  });
+
+  it('should count LLM errors by type', async () => {
+    const llm = new Qwen3LLM({
+      model: 'qwen',
+      provider: createProvider({ chat: vi.fn(async () => { throw new Error('ECONNREFUSED'); }) }),
+    });
+
+    await expect(llm.complete([{ role: 'user', content: 'Hi' }])).rejects.toThrow();
+
+    const errors = registry.counter('rag_llm_errors_total', '', ['model', 'type']);
+    expect(errors.get({ model: 'qwen', type: 'CONNECTION_ERROR' })).toBe(1);
+  });
+});
@@ -10,6 +10,7 @@
 import { describe, it, expect } from 'vitest';
 import {
   getConfidenceLevel,
+  getCalibratedConfidence,
   hasInsufficientEvidence,
   formatContext,
   createQueryPrompt,
@@ -92,6 +93,37 @@ describe('getConfidenceLevel', () => {
   });
 });
 
+// ============================================================================
+// getCalibratedConfidence Tests
+// ============================================================================
+
+describe('getCalibratedConfidence', () => {
+  it('should use reranker scores directly for either reranker', () => {
+    expect(getCalibratedConfidence(0.85, 'reranker')).toEqual({
+      level: 'high',
+      insufficientEvidence: false,
+    });
+    expect(getCalibratedConfidence(0.5, 'secondary_reranker')).toEqual({
+      level: 'low',
+      insufficientEvidence: true,
+    });
+  });
+
+  it('should cap local scores at medium confidence', () => {
+    expect(getCalibratedConfidence(0.95, 'local').level).toBe('medium');
+    expect(getCalibratedConfidence(0.6, 'local')).toEqual({ level: 'low', insufficientEvidence: false });
+    expect(getCalibratedConfidence(0.3, 'local')).toEqual({
+      level: 'insufficient',
+      insufficientEvidence: true,
+    });
+  });
+
+  it('should never report more than low confidence for RRF scores', () => {
+    expect(getCalibratedConfidence(0.0328, 'rrf')).toEqual({ level: 'low', insufficientEvidence: false });
+    expect(getCalibratedConfidence(0, 'rrf').level).toBe('insufficient');
+  });
+});
+
 // ============================================================================
 // hasInsufficientEvidence Tests (FR-007)
 // ============================================================================
@@ -169,6 +201,14 @@ describe('formatContext', () => {
     expect(formatted).toContain('[[1]] Source: Only Doc');
     expect(formatted).toContain('Only content');
   });
+  it('should label code snippet sources with their language', () => {
+    const results = [createMockRankedResult({ content: '```cpp\nint main() {}\n```' })];
+    const citations = [createMockCitation({ id: '[1]', documentTitle: 'Graphs', codeLanguage: 'cpp' })];
+
+    const formatted = formatContext(results, citations);
+
+    expect(formatted).toContain('[[1]] Source: Graphs, code snippet (cpp)');
+  });
 });
 
 // ============================================================================
@@ -404,6 +444,23 @@ describe('buildChatMessages', () => {
     expect(messages[1].content).toContain('Highly Relevant Sources');
     expect(messages[1].content).toContain('Partially Relevant Sources');
   });
+
+  it('should place conversation history between system and user prompts', () => {
+    const messages = buildChatMessages(
+      'What about its complexity?',
+      [createMockRankedResult()],
+      [createMockCitation()],
+      false,
+      'high',
+      [
+        { role: 'user', content: 'What is Dijkstra?' },
+        { role: 'assistant', content: 'A shortest path algorithm [1].' },
+      ]
+    );
+
+    expect(messages.map((m) => m.role)).toEqual(['system', 'user', 'assistant', 'user']);
+    expect(messages[3].content).toContain('What about its complexity?');
+  });
 });
 
 // ============================================================================
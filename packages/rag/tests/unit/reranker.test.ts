@@ -212,6 +212,14 @@ describe('Qwen3Reranker', () => {
       );
     });
 
+    it('should not fabricate scores when the service is unreachable', async () => {
+      mockFetch.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+      const reranker = new Qwen3Reranker();
+
+      await expect(reranker.rerank('query', ['doc1', 'doc2'])).rejects.toThrow('ECONNREFUSED');
+    });
+
     it('should include API key in headers when provided', async () => {
       mockFetch.mockResolvedValue({
         ok: true,
@@ -0,0 +1,238 @@
+/**
+ * Retrieval Evaluation Tests
+ *
+ * Tests golden set parsing, relevance judgment, recall@k / MRR / nDCG
+ * scoring, per-stage evaluation and regression detection.
+ *
+ * @module @jubilant/rag/tests/unit/retrieval-evaluation
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { GoldenSetError, parseGoldenSet, type GoldenQuestion } from '../../src/evaluation/golden';
+import { matchTargets, scoreRanking, type JudgedResult } from '../../src/evaluation/metrics';
+import {
+  RetrievalEvaluator,
+  findRegressions,
+  type EvaluationSummary,
+} from '../../src/evaluation/evaluator';
+import { toMilvusChunkId } from '../../src/ingestion/storage';
+import type { HybridRetriever } from '../../src/retrieval/hybrid';
+import type { FallbackReranker } from '../../src/reranking/fallback';
+
+// ============================================================================
+// Test Data Factories
+// ============================================================================
+
+function createQuestion(overrides: Partial<GoldenQuestion> = {}): GoldenQuestion {
+  return {
+    id: 'q1',
+    question: 'Why does Dijkstra fail with negative weights?',
+    expectedChunkIds: [],
+    expectedDocumentIds: [],
+    expectedConcepts: [],
+    tags: [],
+    ...overrides,
+  };
+}
+
+function createResult(id: string, documentId = 'other', content = ''): JudgedResult & {
+  score: number;
+  source: 'vector';
+  fusedScore: number;
+} {
+  return {
+    id,
+    content,
+    metadata: { documentId },
+    score: 0.5,
+    source: 'vector',
+    fusedScore: 0.5,
+  };
+}
+
+function createSummary(overrides: Partial<EvaluationSummary['stages']> = {}): EvaluationSummary {
+  return {
+    goldenSetName: 'core',
+    goldenSetHash: 'abc',
+    config: { ks: [1, 5], candidateCount: 20, includeGraph: true, rerank: true },
+    stages: {
+      hybrid: { questionCount: 2, recall: { 1: 0.5, 5: 0.8 }, ndcg: { 1: 0.5, 5: 0.7 }, mrr: 0.6 },
+      ...overrides,
+    },
+    byStrategy: {},
+    byTag: {},
+    rerankScorers: {},
+    questionCount: 2,
+    failedQuestions: 0,
+    durationMs: 100,
+  };
+}
+
+// ============================================================================
+// Golden Set Tests
+// ============================================================================
+
+describe('parseGoldenSet', () => {
+  it('should fill defaults and hash the questions', () => {
+    const set = parseGoldenSet({
+      name: 'core',
+      questions: [{ id: 'a', question: 'What is BFS?', expectedConcepts: ['BFS'] }],
+    });
+
+    expect(set.questions[0]).toEqual({
+      id: 'a',
+      question: 'What is BFS?',
+      expectedChunkIds: [],
+      expectedDocumentIds: [],
+      expectedConcepts: ['BFS'],
+      tags: [],
+    });
+    expect(set.hash).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('should reject questions that expect nothing', () => {
+    expect(() => parseGoldenSet({ name: 'core', questions: [{ id: 'a', question: 'What is BFS?' }] }))
+      .toThrow('questions.0: expects no chunks, documents or concepts');
+  });
+
+  it('should reject duplicate question ids', () => {
+    const question = { id: 'a', question: 'What is BFS?', expectedConcepts: ['BFS'] };
+    expect(() => parseGoldenSet({ name: 'core', questions: [question, question] }))
+      .toThrow(GoldenSetError);
+  });
+});
+
+// ============================================================================
+// Metric Tests
+// ============================================================================
+
+describe('matchTargets', () => {
+  it('should match chunks by UUID or Milvus key, documents and concepts', () => {
+    const chunkId = '7d4f1c2e-0000-4000-8000-000000000001';
+    const question = createQuestion({
+      expectedChunkIds: [chunkId],
+      expectedDocumentIds: ['doc-1'],
+      expectedConcepts: ['Negative Cycle'],
+    });
+
+    expect(matchTargets(question, createResult(chunkId))).toEqual([`chunk:${chunkId}`]);
+    expect(matchTargets(question, createResult(String(toMilvusChunkId(chunkId))))).toEqual([`chunk:${chunkId}`]);
+    expect(matchTargets(question, createResult('x', 'doc-1', 'detects a negative cycle'))).toEqual([
+      'document:doc-1',
+      'concept:negative cycle',
+    ]);
+  });
+});
+
+describe('scoreRanking', () => {
+  it('should compute recall, reciprocal rank and nDCG over targets', () => {
+    const question = createQuestion({ expectedDocumentIds: ['doc-1', 'doc-2'] });
+    const results = [
+      createResult('a'),
+      createResult('b', 'doc-1'),
+      createResult('c', 'doc-1'),
+      createResult('d', 'doc-2'),
+    ];
+
+    const scores = scoreRanking(question, results, [1, 3, 5]);
+
+    expect(scores.firstRelevantRank).toBe(2);
+    expect(scores.reciprocalRank).toBe(0.5);
+    expect(scores.recall).toEqual({ 1: 0, 3: 0.5, 5: 1 });
+    expect(scores.ndcg[1]).toBe(0);
+    // Ranks 2 and 4 each cover a new document; the repeat at rank 3 earns nothing
+    const ideal = 1 + 1 / Math.log2(3);
+    expect(scores.ndcg[5]).toBeCloseTo((1 / Math.log2(3) + 1 / Math.log2(5)) / ideal);
+  });
+
+  it('should score zero when nothing relevant is retrieved', () => {
+    const scores = scoreRanking(createQuestion({ expectedConcepts: ['treap'] }), [createResult('a')], [5]);
+
+    expect(scores).toEqual({ recall: { 5: 0 }, ndcg: { 5: 0 }, reciprocalRank: 0, firstRelevantRank: null });
+  });
+});
+
+// ============================================================================
+// RetrievalEvaluator Tests
+// ============================================================================
+
+describe('RetrievalEvaluator', () => {
+  function createEvaluator(rerankFails = false) {
+    const retriever = {
+      retrieve: vi.fn().mockResolvedValue({
+        results: [createResult('a'), createResult('b', 'doc-1')],
+        metrics: { strategy: 'hybrid' },
+      }),
+      vectorOnly: vi.fn().mockResolvedValue([createResult('b', 'doc-1')]),
+      graphOnly: vi.fn().mockResolvedValue([createResult('a')]),
+    };
+    const reranker = {
+      rerank: rerankFails
+        ? vi.fn().mockRejectedValue(new Error('reranker down'))
+        : vi.fn().mockResolvedValue({ results: [createResult('b', 'doc-1')], scorer: 'local', errors: [] }),
+    };
+    const evaluator = new RetrievalEvaluator(
+      retriever as unknown as HybridRetriever,
+      reranker as unknown as FallbackReranker,
+      { ks: [1, 5] }
+    );
+    return { evaluator, retriever, reranker };
+  }
+
+  const goldenSet = {
+    name: 'core',
+    hash: 'abc',
+    questions: [createQuestion({ expectedDocumentIds: ['doc-1'], tags: ['graphs'] })],
+  };
+
+  it('should score every stage and break results down by strategy and tag', async () => {
+    const { evaluator, reranker } = createEvaluator();
+
+    const report = await evaluator.evaluate(goldenSet);
+
+    expect(reranker.rerank).toHaveBeenCalledWith(goldenSet.questions[0].question, expect.any(Array), 5);
+    expect(report.stages.vector?.mrr).toBe(1);
+    expect(report.stages.graph?.mrr).toBe(0);
+    expect(report.stages.hybrid?.mrr).toBe(0.5);
+    expect(report.stages.reranked?.recall[1]).toBe(1);
+    expect(report.byStrategy.hybrid?.questionCount).toBe(1);
+    expect(report.byTag.graphs?.mrr).toBe(1);
+    expect(report.rerankScorers).toEqual({ local: 1 });
+    expect(report.questions[0].stages.hybrid?.retrievedIds).toEqual(['a', 'b']);
+  });
+
+  it('should record failed questions without scoring them', async () => {
+    const { evaluator } = createEvaluator(true);
+
+    const report = await evaluator.evaluate(goldenSet);
+
+    expect(report.failedQuestions).toBe(1);
+    expect(report.questions[0].error).toBe('reranker down');
+    expect(report.stages).toEqual({});
+  });
+});
+
+// ============================================================================
+// Regression Tests
+// ============================================================================
+
+describe('findRegressions', () => {
+  it('should report metrics that dropped beyond the tolerance', () => {
+    const baseline = createSummary();
+    const current = createSummary({
+      hybrid: { questionCount: 2, recall: { 1: 0.49, 5: 0.7 }, ndcg: { 1: 0.5, 5: 0.7 }, mrr: 0.6 },
+    });
+
+    expect(findRegressions(baseline, current, 0.02)).toEqual([
+      { stage: 'hybrid', metric: 'recall@5', baseline: 0.8, current: 0.7 },
+    ]);
+  });
+
+  it('should ignore stages missing from the baseline', () => {
+    const current = createSummary({
+      reranked: { questionCount: 2, recall: { 1: 0, 5: 0 }, ndcg: { 1: 0, 5: 0 }, mrr: 0 },
+    });
+
+    expect(findRegressions(createSummary(), current)).toEqual([]);
+  });
+});
@@ -15,6 +15,7 @@ import {
   createDoneChunk,
   createErrorChunk,
   createConfidenceChunk,
+  splitReplayTokens,
   parseSSEEvent,
   CitationDetector,
   StreamResponseBuilder,
@@ -47,6 +48,7 @@ function createMockMetadata(overrides: Partial<ResponseMetadata> = {}): Response
     vectorResultCount: 5,
     graphResultCount: 3,
     latencyMs: 1500,
+    rerankScorer: 'reranker',
     ...overrides,
   };
 }
@@ -125,6 +127,15 @@ describe('createConfidenceChunk', () => {
   });
 });
 
+describe('splitReplayTokens', () => {
+  it('should split an answer into tokens that join back to it', () => {
+    const text = 'Use a heap [1].\n\nThen relax edges.';
+
+    expect(splitReplayTokens(text)).toEqual(['Use ', 'a ', 'heap ', '[1].\n\n', 'Then ', 'relax ', 'edges.']);
+    expect(splitReplayTokens(text).join('')).toBe(text);
+  });
+});
+
 // ============================================================================
 // SSE Formatting Tests
 // ============================================================================
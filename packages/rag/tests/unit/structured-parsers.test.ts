@@ -0,0 +1,297 @@
+/**
+ * Structured Document Parser Tests
+ *
+ * Tests for the DOCX, HTML and Jupyter notebook parsers: headings, code,
+ * tables and LaTeX must come through as markdown the chunker protects.
+ * Also covers the ZIP reader behind DOCX files and its expansion limits.
+ *
+ * @module @jubilant/rag/tests/unit/structured-parsers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync } from 'zlib';
+import { DocxParser, ommlToLatex } from '../../src/ingestion/parsers/docx';
+import { HTMLParser } from '../../src/ingestion/parsers/html';
+import { NotebookParser } from '../../src/ingestion/parsers/notebook';
+import { parseMarkup } from '../../src/ingestion/parsers/markup';
+import { extractProtectedElements } from '../../src/ingestion/chunker';
+import { readZipEntries } from '../../src/ingestion/parsers/zip';
+
+// ============================================================================
+// Test Data Factories
+// ============================================================================
+
+/**
+ * Build a ZIP archive (enough for DocxParser). Entries are stored unless
+ * deflate is set; declaredSizes overrides the uncompressed sizes recorded.
+ */
+function createZip(
+  files: Record<string, string>,
+  options: { deflate?: boolean; declaredSizes?: Record<string, number> } = {}
+): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name, 'utf8');
+    const raw = Buffer.from(content, 'utf8');
+    const data = options.deflate ? deflateRawSync(raw) : raw;
+    const method = options.deflate ? 8 : 0;
+    const size = options.declaredSizes?.[name] ?? raw.length;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(size, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(size, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const centralSize = centrals.reduce((sum, b) => sum + b.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, ...centrals, end]);
+}
+
+function wordDocument(body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"
+            xmlns:m="http://schemas.openxmlformats.org/officeDocument/2006/math">
+  <w:body>${body}</w:body>
+</w:document>`;
+}
+
+function paragraph(text: string, style?: string): string {
+  const properties = style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : '';
+  return `<w:p>${properties}<w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+}
+
+// ============================================================================
+// DOCX Parser Tests
+// ============================================================================
+
+describe('DocxParser', () => {
+  const parser = new DocxParser();
+
+  it('should convert headings, code and tables to markdown', () => {
+    const docx = createZip({
+      'word/document.xml': wordDocument(
+        paragraph('Segment Trees', 'Heading1') +
+          paragraph('Range queries in O(log n).') +
+          paragraph('Build', 'Heading2') +
+          paragraph('void build(int v) {', 'SourceCode') +
+          paragraph('  if (l == r) return;', 'SourceCode') +
+          paragraph('}', 'SourceCode') +
+          `<w:tbl>
+            <w:tr><w:tc>${paragraph('Operation')}</w:tc><w:tc>${paragraph('Cost')}</w:tc></w:tr>
+            <w:tr><w:tc>${paragraph('Query')}</w:tc><w:tc>${paragraph('O(log n)')}</w:tc></w:tr>
+          </w:tbl>`
+      ),
+    });
+
+    const doc = parser.parseContent(docx, '/handouts/segment-tree.docx');
+
+    expect(doc.format).toBe('docx');
+    expect(doc.title).toBe('Segment Trees');
+    expect(doc.content).toContain('# Segment Trees');
+    expect(doc.content).toContain('## Build');
+    expect(doc.content).toContain('```\nvoid build(int v) {\n  if (l == r) return;\n}\n```');
+    expect(doc.content).toContain('| Operation | Cost |\n| --- | --- |\n| Query | O(log n) |');
+
+    const { elements } = extractProtectedElements(doc.content + '\n');
+    expect(elements.map((e) => e.type).sort()).toEqual(['code', 'table']);
+  });
+
+  it('should convert Office Math to LaTeX', () => {
+    const docx = createZip({
+      'word/document.xml': wordDocument(`
+        <w:p><w:r><w:t xml:space="preserve">Total cost is </w:t></w:r>
+          <m:oMath><m:sSup><m:e><m:r><m:t>n</m:t></m:r></m:e><m:sup><m:r><m:t>2</m:t></m:r></m:sup></m:sSup></m:oMath>
+        </w:p>
+        <w:p><m:oMathPara><m:oMath>
+          <m:f><m:num><m:r><m:t>a</m:t></m:r></m:num><m:den><m:r><m:t>b</m:t></m:r></m:den></m:f>
+        </m:oMath></m:oMathPara></w:p>`),
+    });
+
+    const doc = parser.parseContent(docx, 'math.docx');
+
+    expect(doc.content).toContain('Total cost is ${n}^{2}$');
+    expect(doc.content).toContain('$$\\frac{a}{b}$$');
+  });
+
+  it('should use the document title from core properties', () => {
+    const docx = createZip({
+      'word/document.xml': wordDocument(paragraph('Some handout text')),
+      'docProps/core.xml':
+        '<cp:coreProperties xmlns:dc="http://purl.org/dc/elements/1.1/"><dc:title>Week 3: Graphs</dc:title></cp:coreProperties>',
+    });
+
+    expect(parser.parseContent(docx, 'week3.docx').title).toBe('Week 3: Graphs');
+  });
+
+  it('should reject files that are not ZIP archives', () => {
+    expect(() => parser.parseContent(Buffer.from('not a docx'), 'bad.docx')).toThrow(
+      'Invalid format'
+    );
+  });
+});
+
+// ============================================================================
+// ZIP Reader Tests
+// ============================================================================
+
+describe('readZipEntries', () => {
+  const notes = 'Segment trees answer range queries. '.repeat(100);
+
+  it('should read stored and deflated entries', () => {
+    const stored = readZipEntries(createZip({ 'a.txt': 'plain', 'b.txt': 'skipped' }), ['a.txt']);
+    const deflated = readZipEntries(createZip({ 'notes.md': notes }, { deflate: true }), () => true);
+
+    expect([...stored.keys()]).toEqual(['a.txt']);
+    expect(stored.get('a.txt')?.toString()).toBe('plain');
+    expect(deflated.get('notes.md')?.toString()).toBe(notes);
+  });
+
+  it('should reject entries and archives that expand beyond the limits', () => {
+    const archive = createZip({ 'a.md': notes, 'b.md': notes }, { deflate: true });
+
+    expect(() => readZipEntries(archive, () => true, { maxEntryBytes: 1000 })).toThrow(
+      'ZIP entry a.md expands to'
+    );
+    expect(() => readZipEntries(archive, () => true, { maxTotalBytes: 5000 })).toThrow(
+      'ZIP archive expands to more than'
+    );
+    expect(() => readZipEntries(archive, () => true, { maxEntries: 1 })).toThrow(
+      'ZIP archive has 2 entries'
+    );
+    // Unread entries do not count
+    expect(readZipEntries(archive, ['b.md'], { maxTotalBytes: 5000 }).size).toBe(1);
+  });
+
+  it('should stop inflating entries at their declared size', () => {
+    const bomb = createZip({ 'word/document.xml': '0'.repeat(1_000_000) }, {
+      deflate: true,
+      declaredSizes: { 'word/document.xml': 100 },
+    });
+
+    expect(() => readZipEntries(bomb, () => true)).toThrow('corrupt ZIP entry word/document.xml');
+  });
+});
+
+describe('ommlToLatex', () => {
+  it('should convert n-ary sums with limits', () => {
+    const math = parseMarkup(
+      `<m:nary><m:naryPr><m:chr m:val="∑"/></m:naryPr>
+        <m:sub><m:r><m:t>i=1</m:t></m:r></m:sub><m:sup><m:r><m:t>n</m:t></m:r></m:sup>
+        <m:e><m:r><m:t>i</m:t></m:r></m:e></m:nary>`,
+      { html: false }
+    );
+
+    expect(ommlToLatex(math).trim()).toBe('\\sum_{i=1}^{n} i');
+  });
+});
+
+// ============================================================================
+// HTML Parser Tests
+// ============================================================================
+
+describe('HTMLParser', () => {
+  const parser = new HTMLParser();
+
+  it('should keep article content and drop page chrome', () => {
+    const doc = parser.parseContent(
+      `<!DOCTYPE html><html><head><title>Editorial: Round 812</title>
+        <script>track()</script></head>
+      <body><nav>Home | Contests</nav>
+      <article><h1>Problem C</h1><p>Use a <b>greedy</b> approach &amp; sort.</p></article>
+      <footer>Copyright</footer></body></html>`,
+      'https://example.com/editorial.html'
+    );
+
+    expect(doc.title).toBe('Editorial: Round 812');
+    expect(doc.content).toBe('# Problem C\n\nUse a greedy approach & sort.');
+  });
+
+  it('should convert code blocks with language hints', () => {
+    const doc = parser.parseContent(
+      `<body><pre><code class="language-cpp">int main() {
+  return 0;
+}</code></pre></body>`,
+      'code.html'
+    );
+
+    expect(doc.content).toBe('```cpp\nint main() {\n  return 0;\n}\n```');
+  });
+
+  it('should convert tables and rendered math', () => {
+    const doc = parser.parseContent(
+      `<body>
+        <p>Complexity <span class="katex"><span class="katex-mathml"><math><semantics>
+          <annotation encoding="application/x-tex">O(n \\log n)</annotation></semantics></math></span>
+          <span class="katex-html">O(n log n)</span></span>.</p>
+        <script type="math/tex; mode=display">\\sum_{i=1}^n i</script>
+        <table><tr><th>n</th><th>time</th></tr><tr><td>10^5</td><td>0.1s</td></tr></table>
+      </body>`,
+      'math.html'
+    );
+
+    expect(doc.content).toContain('Complexity $O(n \\log n)$.');
+    expect(doc.content).toContain('$$\\sum_{i=1}^n i$$');
+    expect(doc.content).toContain('| n | time |\n| --- | --- |\n| 10^5 | 0.1s |');
+  });
+});
+
+// ============================================================================
+// Notebook Parser Tests
+// ============================================================================
+
+describe('NotebookParser', () => {
+  const parser = new NotebookParser();
+
+  it('should convert markdown and code cells', () => {
+    const notebook = JSON.stringify({
+      nbformat: 4,
+      metadata: { language_info: { name: 'python' } },
+      cells: [
+        { cell_type: 'markdown', source: ['# Prefix Sums\n', 'Sum is $\\sum a_i$.'] },
+        {
+          cell_type: 'code',
+          source: ['xs = [1, 2, 3]\n', 'print(sum(xs))'],
+          outputs: [{ output_type: 'stream', text: ['6\n'] }],
+        },
+        { cell_type: 'code', source: [], outputs: [] },
+      ],
+    });
+
+    const doc = parser.parseContent(notebook, 'prefix-sums.ipynb');
+
+    expect(doc.title).toBe('Prefix Sums');
+    expect(doc.content).toBe(
+      '# Prefix Sums\nSum is $\\sum a_i$.\n\n```python\nxs = [1, 2, 3]\nprint(sum(xs))\n```\n\n```text\n6\n```'
+    );
+    expect(doc.metadata.codeCellCount).toBe(2);
+  });
+
+  it('should reject malformed notebooks', () => {
+    expect(() => parser.parseContent('{not json', 'bad.ipynb')).toThrow('Invalid format');
+    expect(() => parser.parseContent('{}', 'empty.ipynb')).toThrow('Invalid format');
+  });
+});
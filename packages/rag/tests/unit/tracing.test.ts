@@ -0,0 +1,268 @@
+/**
+ * Tracing Tests
+ *
+ * Tests for W3C trace context, span nesting through async calls, the file
+ * and OTLP exporters, and trace propagation to model servers.
+ *
+ * @module @jubilant/rag/tests/unit/tracing
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  Tracer,
+  FileSpanExporter,
+  parseTraceparent,
+  formatTraceparent,
+  toOTLPRequest,
+  createTracer,
+  setTracer,
+  type SpanData,
+  type SpanExporter,
+} from '../../src/monitoring/tracing';
+import { Qwen3LLM } from '../../src/generation/llm';
+import { OpenAICompatibleProvider } from '../../src/providers/http';
+
+// ============================================================================
+// Test Data Factories
+// ============================================================================
+
+const TRACEPARENT = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+
+/**
+ * Tracer exporting to an in-memory list
+ */
+function createMemoryTracer(): { tracer: Tracer; spans: SpanData[] } {
+  const spans: SpanData[] = [];
+  const exporter: SpanExporter = {
+    export: async (batch) => {
+      spans.push(...batch);
+    },
+  };
+  return { tracer: new Tracer(exporter), spans };
+}
+
+// ============================================================================
+// Trace Context Tests
+// ============================================================================
+
+describe('traceparent', () => {
+  it('should parse and format W3C trace context', () => {
+    const context = parseTraceparent(TRACEPARENT);
+
+    expect(context).toEqual({
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      spanId: '00f067aa0ba902b7',
+      sampled: true,
+    });
+    expect(formatTraceparent(context!)).toBe(TRACEPARENT);
+  });
+
+  it('should reject malformed headers and all-zero IDs', () => {
+    expect(parseTraceparent(undefined)).toBeNull();
+    expect(parseTraceparent('01-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01')).toBeNull();
+    expect(parseTraceparent('00-00000000000000000000000000000000-00f067aa0ba902b7-01')).toBeNull();
+    expect(parseTraceparent('00-4bf92f3577b34da6a3ce929d0e0e4736-0000000000000000-01')).toBeNull();
+    expect(parseTraceparent('00-4bf92f-00f067aa0ba902b7-01')).toBeNull();
+  });
+});
+
+// ============================================================================
+// Tracer Tests
+// ============================================================================
+
+describe('Tracer', () => {
+  it('should nest spans through async calls', async () => {
+    const { tracer, spans } = createMemoryTracer();
+
+    await tracer.withSpan('parent', async () => {
+      await Promise.all([
+        tracer.withSpan('child-a', async () => {
+          await new Promise((resolve) => setTimeout(resolve, 1));
+        }),
+        tracer.withSpan('child-b', () => 'done'),
+      ]);
+    });
+    await tracer.flush();
+
+    const parent = spans.find((s) => s.name === 'parent')!;
+    const children = spans.filter((s) => s.name.startsWith('child'));
+    expect(parent.parentSpanId).toBeUndefined();
+    expect(children).toHaveLength(2);
+    for (const child of children) {
+      expect(child.traceId).toBe(parent.traceId);
+      expect(child.parentSpanId).toBe(parent.spanId);
+    }
+    expect(tracer.activeSpan()).toBeUndefined();
+  });
+
+  it('should continue a remote trace and record errors', async () => {
+    const { tracer, spans } = createMemoryTracer();
+
+    await expect(
+      tracer.withSpan(
+        'GET /api/query',
+        () => { throw new Error('boom'); },
+        { kind: 'server', parent: parseTraceparent(TRACEPARENT) }
+      )
+    ).rejects.toThrow('boom');
+    await tracer.flush();
+
+    expect(spans[0]).toMatchObject({
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      parentSpanId: '00f067aa0ba902b7',
+      kind: 'server',
+      status: { code: 'error', message: 'boom' },
+    });
+    expect(spans[0].events[0].attributes['exception.message']).toBe('boom');
+  });
+
+  it('should not export unsampled traces', async () => {
+    const { tracer, spans } = createMemoryTracer();
+
+    await tracer.withSpan('ignored', () => undefined, {
+      parent: parseTraceparent(TRACEPARENT.replace(/-01$/, '-00')),
+    });
+    await tracer.flush();
+
+    expect(spans).toHaveLength(0);
+  });
+
+  it('should parent spans started by a generator to the given span', async () => {
+    const { tracer, spans } = createMemoryTracer();
+    async function* generate() {
+      yield await tracer.withSpan('step', () => 1);
+      yield await tracer.withSpan('step', () => 2);
+    }
+
+    const generation = tracer.startSpan('generation');
+    const values: number[] = [];
+    for await (const value of tracer.runGeneratorWithSpan(generation, generate())) {
+      values.push(value);
+    }
+    generation.end();
+    await tracer.flush();
+
+    expect(values).toEqual([1, 2]);
+    const steps = spans.filter((s) => s.name === 'step');
+    expect(steps.map((s) => s.parentSpanId)).toEqual([generation.context.spanId, generation.context.spanId]);
+  });
+});
+
+// ============================================================================
+// Exporter Tests
+// ============================================================================
+
+describe('exporters', () => {
+  let tempDir: string | undefined;
+
+  afterEach(async () => {
+    if (tempDir) await rm(tempDir, { recursive: true, force: true });
+    tempDir = undefined;
+    vi.unstubAllEnvs();
+  });
+
+  it('should write spans to a file as JSON lines', async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'traces-'));
+    const path = join(tempDir, 'traces.jsonl');
+    const tracer = new Tracer(new FileSpanExporter(path));
+
+    await tracer.withSpan('ingestion.job', async () => {
+      await tracer.withSpan('ingestion.parse', () => undefined);
+    });
+    await tracer.flush();
+
+    const lines = (await readFile(path, 'utf-8')).trim().split('\n');
+    expect(lines.map((line) => (JSON.parse(line) as SpanData).name)).toEqual([
+      'ingestion.parse',
+      'ingestion.job',
+    ]);
+  });
+
+  it('should configure the exporter from OTEL_* variables', () => {
+    vi.stubEnv('OTEL_TRACES_EXPORTER', 'file');
+    vi.stubEnv('OTEL_SERVICE_NAME', 'tutor-api');
+    expect(createTracer().enabled).toBe(true);
+    expect(createTracer().serviceName).toBe('tutor-api');
+
+    vi.stubEnv('OTEL_TRACES_EXPORTER', 'none');
+    expect(createTracer().enabled).toBe(false);
+  });
+
+  it('should build OTLP/JSON export requests', () => {
+    const request = toOTLPRequest(
+      [
+        {
+          traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+          spanId: '00f067aa0ba902b7',
+          name: 'rag.rerank',
+          kind: 'internal',
+          startTimeMs: 1000,
+          endTimeMs: 1250,
+          attributes: { 'rag.top_k': 5, 'rag.scorer': 'reranker' },
+          status: { code: 'ok' },
+          events: [],
+        },
+      ],
+      'tutor-api'
+    );
+
+    const [resourceSpans] = request.resourceSpans;
+    expect(resourceSpans.resource.attributes).toEqual([
+      { key: 'service.name', value: { stringValue: 'tutor-api' } },
+    ]);
+    expect(resourceSpans.scopeSpans[0].spans[0]).toMatchObject({
+      kind: 1,
+      startTimeUnixNano: '1000000000',
+      endTimeUnixNano: '1250000000',
+      attributes: [
+        { key: 'rag.top_k', value: { intValue: 5 } },
+        { key: 'rag.scorer', value: { stringValue: 'reranker' } },
+      ],
+      status: { code: 1 },
+    });
+  });
+});
+
+// ============================================================================
+// Propagation Tests
+// ============================================================================
+
+describe('trace propagation', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    setTracer(null);
+  });
+
+  it('should send traceparent to model servers from an llm.chat span', async () => {
+    const { tracer, spans } = createMemoryTracer();
+    setTracer(tracer);
+    const mockFetch = vi.fn(async () =>
+      new Response(JSON.stringify({ choices: [{ message: { content: 'Hello' } }] }))
+    );
+    global.fetch = mockFetch as unknown as typeof fetch;
+    const llm = new Qwen3LLM({
+      model: 'qwen',
+      provider: new OpenAICompatibleProvider({
+        name: 'vllm',
+        type: 'openai',
+        baseUrl: 'http://models.test',
+        timeoutMs: 1000,
+        retry: { maxRetries: 0, initialDelayMs: 0, maxDelayMs: 0, backoffFactor: 2 },
+      }),
+    });
+
+    await tracer.withSpan('rag.generation', () => llm.complete([{ role: 'user', content: 'Hi' }]));
+    await tracer.flush();
+
+    const chat = spans.find((s) => s.name === 'llm.chat')!;
+    const headers = (mockFetch.mock.calls[0] as unknown as [string, RequestInit])[1].headers as Record<string, string>;
+    expect(parseTraceparent(headers.traceparent)).toMatchObject({ spanId: chat.spanId });
+    expect(chat).toMatchObject({ kind: 'client', attributes: { 'llm.model': 'qwen', 'llm.provider': 'vllm' } });
+    expect(chat.parentSpanId).toBe(spans.find((s) => s.name === 'rag.generation')!.spanId);
+  });
+});
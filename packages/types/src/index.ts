@@ -18,6 +18,23 @@ export type CreateUserDTO = Omit<User, 'id' | 'createdAt'>;
  */
 export type ConfidenceLevel = 'high' | 'medium' | 'low' | 'insufficient';
 
+/**
+ * Scorer that ranked the sources of a response. Anything other than
+ * 'reranker' means the primary reranker was unavailable.
+ */
+export type RerankScorer = 'reranker' | 'secondary_reranker' | 'local' | 'rrf';
+
+/**
+ * Language of an indexed code snippet
+ */
+export type CodeLanguage = 'cpp' | 'c' | 'python' | 'java' | 'javascript' | 'go' | 'rust' | 'other';
+
+/**
+ * How sources are retrieved: 'code' also searches code snippets and
+ * favors implementations
+ */
+export type RetrievalMode = 'default' | 'code';
+
 /**
  * Citation from a RAG response
  */
@@ -29,6 +46,11 @@ export interface Citation {
   chunkIndex: number;
   snippet: string;
   relevanceScore: number;
+  /** Page range of the cited chunk (paginated formats only) */
+  pageStart?: number;
+  pageEnd?: number;
+  /** Set when the citation is a code snippet */
+  codeLanguage?: CodeLanguage;
 }
 
 /**
@@ -42,10 +64,46 @@ export interface ResponseMetadata {
   vectorResultCount: number;
   graphResultCount: number;
   latencyMs: number;
+  /** Scorer that ranked the sources */
+  rerankScorer?: RerankScorer;
   /** First token latency for streaming responses */
   firstTokenLatencyMs?: number;
   /** Whether first token target was met */
   firstTokenTargetMet?: boolean;
+  /** Standalone query used for retrieval when a follow-up was rewritten */
+  standaloneQuery?: string;
+  /** Faithfulness of the answer to its cited sources (when verified) */
+  faithfulnessScore?: number | null;
+  /** Whether the answer was served from the semantic answer cache */
+  cacheHit?: boolean;
+  /** Retrieval mode used for the query */
+  retrievalMode?: RetrievalMode;
+}
+
+/**
+ * How well a claim in an answer is backed by the sources it cites
+ */
+export type ClaimVerdict = 'supported' | 'partial' | 'unsupported' | 'uncited' | 'unverified';
+
+/**
+ * Verification of one claim of an answer
+ */
+export interface ClaimVerification {
+  index: number;
+  /** Claim as written in the answer, citation markers included */
+  text: string;
+  citationIds: string[];
+  verdict: ClaimVerdict;
+}
+
+/**
+ * Faithfulness of an answer to its cited sources
+ */
+export interface FaithfulnessReport {
+  /** Mean support of the verified claims (0-1), or null if none were verified */
+  score: number | null;
+  claims: ClaimVerification[];
+  unsupportedCount: number;
 }
 
 /**
@@ -57,6 +115,8 @@ export interface QueryRequest {
   topK?: number;
   includeGraph?: boolean;
   topicFilter?: string;
+  /** Detected from the query when omitted */
+  retrievalMode?: RetrievalMode;
 }
 
 /**
@@ -68,6 +128,7 @@ export interface QueryResponse {
   citations: Citation[];
   confidence: ConfidenceLevel;
   metadata: ResponseMetadata;
+  faithfulness?: FaithfulnessReport;
 }
 
 /**
@@ -78,6 +139,7 @@ export type StreamChunkType =
   | 'citation'
   | 'metadata'
   | 'confidence'
+  | 'faithfulness'
   | 'done'
   | 'error';
 
@@ -121,9 +183,18 @@ export interface ConfidenceChunk extends BaseStreamChunk {
     level: ConfidenceLevel;
     hasInsufficientEvidence: boolean;
     topScore: number;
+    rerankScorer?: RerankScorer;
   };
 }
 
+/**
+ * Faithfulness chunk (claim verification, after the answer)
+ */
+export interface FaithfulnessChunk extends BaseStreamChunk {
+  type: 'faithfulness';
+  faithfulness: FaithfulnessReport;
+}
+
 /**
  * Done chunk (stream complete)
  */
@@ -147,6 +218,7 @@ export type StreamChunk =
   | CitationChunk
   | MetadataChunk
   | ConfidenceChunk
+  | FaithfulnessChunk
   | DoneChunk
   | ErrorChunk;
 
@@ -166,6 +238,8 @@ export interface FeedbackRequest {
   queryId: string;
   rating: number;
   comment?: string;
+  /** Code run (RunResult.runId) to attach, e.g. to report a failing sample */
+  runId?: string;
 }
 
 /**
@@ -177,6 +251,35 @@ export interface FeedbackResponse {
   message: string;
 }
 
+/**
+ * Throttle quota tier (tutors and admins share the tutor tier)
+ */
+export type ThrottleTier = 'tutor' | 'student' | 'anonymous';
+
+/**
+ * Throttle metrics for one quota tier
+ */
+export interface ThrottleTierMetrics {
+  totalRequests: number;
+  totalQueued: number;
+  totalRateLimited: number;
+  totalRejected: number;
+  totalTimedOut: number;
+  avgQueueWaitMs: number;
+  currentQueueSize: number;
+  trackedIdentities: number;
+}
+
+/**
+ * Quota state of the caller (mirrors the RateLimit-* headers)
+ */
+export interface RateLimitState {
+  limit: number;
+  remaining: number;
+  resetSeconds: number;
+  windowSeconds: number;
+}
+
 /**
  * Query status response (throttle metrics)
  */
@@ -193,15 +296,86 @@ export interface QueryStatusResponse {
     totalRequests: number;
     totalQueued: number;
     totalRejected: number;
+    totalRateLimited: number;
     totalTimedOut: number;
     avgQueueWaitMs: number;
     peakConcurrent: number;
     peakQueueSize: number;
   };
+  tiers: Record<ThrottleTier, ThrottleTierMetrics>;
+  rateLimit: RateLimitState;
   health: {
     healthy: boolean;
     underLoad: boolean;
     atCapacity: boolean;
     queuedRequests: boolean;
   };
-}
\ No newline at end of file
+}
+
+// ============================================================================
+// Code Runs
+// ============================================================================
+
+/**
+ * Languages the code sandbox can run
+ */
+export type RunLanguage = 'cpp' | 'python' | 'java';
+
+/**
+ * Outcome of a run on one sample test, or of the whole run
+ * (COMPLETED: ran without error and there was no expected output)
+ */
+export type RunVerdict =
+  | 'ACCEPTED'
+  | 'WRONG_ANSWER'
+  | 'COMPLETED'
+  | 'RUNTIME_ERROR'
+  | 'TIME_LIMIT_EXCEEDED'
+  | 'MEMORY_LIMIT_EXCEEDED'
+  | 'OUTPUT_LIMIT_EXCEEDED'
+  | 'COMPILATION_ERROR';
+
+/**
+ * Sample test: stdin and, optionally, the expected stdout
+ */
+export interface RunTest {
+  input: string;
+  expectedOutput?: string;
+}
+
+/**
+ * Code run request (POST /api/run)
+ */
+export interface RunRequest {
+  language: RunLanguage;
+  code: string;
+  tests?: RunTest[];
+}
+
+/**
+ * Result of running the code on one sample test
+ */
+export interface RunTestResult {
+  index: number;
+  verdict: RunVerdict;
+  input: string;
+  expectedOutput?: string;
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  signal: string | null;
+  timeMs: number;
+}
+
+/**
+ * Code run response
+ */
+export interface RunResult {
+  language: RunLanguage;
+  verdict: RunVerdict;
+  /** Compiler result; null for interpreted languages */
+  compile: { success: boolean; output: string } | null;
+  results: RunTestResult[];
+  /** Stored run, for attaching to feedback (null if it could not be stored) */
+  runId: string | null;
+}